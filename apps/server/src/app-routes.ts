@@ -5,12 +5,22 @@
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { AppCategory, AppPrivacyLevel, type App, type UserPreferences } from '@neo/contracts';
-import type { ProcessedIntent } from '@neo/blueprint-engine';
+import type { GenerationProgress, ProcessedIntent } from '@neo/blueprint-engine';
+import type { ChatResponse } from '@neo/discovery';
+import { withCostAttribution } from '@neo/ai-engine';
 import { logger } from './utils/logger.js';
 import { captureException, setRequestContext, addBreadcrumb } from './utils/sentry.js';
 import { randomUUID } from 'node:crypto';
 import { appRepository } from './repositories/app-repository.js';
-import { isDatabaseEnabled } from './services/database.js';
+import type { DiscoveryConversation } from './repositories/discovery-conversation-repository.js';
+import { openEventStream, type EventStream } from './utils/sse.js';
+import { getUserFromRequest } from './auth-routes.js';
+import {
+  findConversationForUser,
+  latestConversationState,
+  recordDiscoveryTurn,
+} from './discovery-conversation-routes.js';
+import type { User } from './types/database.js';
 
 // These will be injected when routes are registered
 let discoveryHandler: any;
@@ -21,13 +31,74 @@ let aiProviderForDiscovery: any; // AI provider for conversational discovery
 let appGenerator: any;
 let neoEngine: any;
 let safetyOrchestrator: any;
-let appStore: Map<string, App>;
 let checkRateLimit: (key: string, max: number, windowMs: number) => boolean;
 let config: any;
 let determinePrivacyLevel: (input: string, preferences?: UserPreferences) => AppPrivacyLevel;
 let materializedAppToSchema: (app: any) => App['schema'];
 let materializedAppToTheme: (app: any) => App['theme'];
 
+interface ChatDiscoveryBody {
+  input: string;
+  action: 'start' | 'continue';
+  state?: {
+    step: number;
+    collectedInfo: Record<string, unknown>;
+    originalInput: string;
+  };
+  originalInput?: string;
+  /** Stored conversation to continue (its saved state replaces `state`) */
+  conversationId?: string;
+}
+
+const CHAT_DISCOVERY_BODY_SCHEMA = {
+  type: 'object',
+  properties: {
+    input: { type: 'string' },
+    action: { type: 'string', enum: ['start', 'continue'] },
+    state: { type: 'object' },
+    originalInput: { type: 'string' },
+    conversationId: { type: 'string' },
+  },
+  required: ['input', 'action'],
+};
+
+const CHAT_DISCOVERY_FALLBACK = {
+  message: "I had a small issue. Let me try again - can you tell me about your business?",
+  complete: false,
+  step: 1,
+  collectedInfo: {},
+};
+
+/**
+ * A chat turn ready to run, or the response refusing it
+ */
+type ChatTurnSetup =
+  | { ok: true; body: ChatDiscoveryBody; conversation: DiscoveryConversation | null; user: User | null }
+  | { ok: false; statusCode: number; payload: Record<string, unknown> };
+
+interface CreateAppBody {
+  input: string;
+  category?: AppCategory;
+  preferences?: UserPreferences;
+  appConfig?: any;
+}
+
+const CREATE_APP_BODY_SCHEMA = {
+  type: 'object',
+  required: ['input'],
+  properties: {
+    input: { type: 'string', minLength: 1, maxLength: 10000 },
+    category: { type: 'string', enum: Object.values(AppCategory) },
+    preferences: { type: 'object' },
+    appConfig: { type: 'object' },
+  },
+};
+
+interface CreateAppOutcome {
+  statusCode: number;
+  payload: Record<string, unknown>;
+}
+
 /**
  * Register app routes
  */
@@ -42,7 +113,6 @@ export async function registerAppRoutes(
     appGenerator: any;
     neoEngine: any;
     safetyOrchestrator: any;
-    appStore: Map<string, App>;
     checkRateLimit: (key: string, max: number, windowMs: number) => boolean;
     config: any;
     determinePrivacyLevel: (input: string, preferences?: UserPreferences) => AppPrivacyLevel;
@@ -59,7 +129,6 @@ export async function registerAppRoutes(
   appGenerator = dependencies.appGenerator;
   neoEngine = dependencies.neoEngine;
   safetyOrchestrator = dependencies.safetyOrchestrator;
-  appStore = dependencies.appStore;
   checkRateLimit = dependencies.checkRateLimit;
   config = dependencies.config;
   determinePrivacyLevel = dependencies.determinePrivacyLevel;
@@ -140,6 +209,10 @@ export async function registerAppRoutes(
           });
         }
 
+        // AI calls are charged to the signed-in user
+        const user = await getUserFromRequest(request);
+        const attribution = { userId: user?.id, operation: 'discovery' };
+
         // If state and answers provided, continue discovery
         // Use the defaults we set above - state and answers are never null/undefined
         if (state && Object.keys(state).length > 0 && answers && Object.keys(answers).length > 0) {
@@ -168,7 +241,7 @@ export async function registerAppRoutes(
           try {
             // AI handler is async, others are sync
             result = useAI 
-              ? await handler.continueDiscovery(state, answers)
+              ? await withCostAttribution(attribution, () => handler.continueDiscovery(state, answers))
               : handler.continueDiscovery(state, answers);
             console.log('Continue discovery result:', {
               needsClarification: result?.needsClarification,
@@ -266,7 +339,7 @@ export async function registerAppRoutes(
         try {
           // AI handler is async, others are sync
           result = useAI 
-            ? await handler.startDiscovery(input)
+            ? await withCostAttribution(attribution, () => handler.startDiscovery(input))
             : handler.startDiscovery(input);
           console.log('Discovery result:', {
             needsClarification: result?.needsClarification,
@@ -426,102 +499,58 @@ export async function registerAppRoutes(
    * Chat-based Discovery endpoint - Friendly conversational flow
    * POST /api/apps/discover/chat
    */
-  server.post<{
-    Body: {
-      input: string;
-      action: 'start' | 'continue';
-      state?: {
-        step: number;
-        collectedInfo: Record<string, unknown>;
-        originalInput: string;
-      };
-      originalInput?: string;
-    };
-  }>(
+  server.post<{ Body: ChatDiscoveryBody }>(
     '/api/apps/discover/chat',
-    {
-      schema: {
-        body: {
-          type: 'object',
-          properties: {
-            input: { type: 'string' },
-            action: { type: 'string', enum: ['start', 'continue'] },
-            state: { type: 'object' },
-            originalInput: { type: 'string' },
-          },
-          required: ['input', 'action'],
-        },
-      },
-    },
+    { schema: { body: CHAT_DISCOVERY_BODY_SCHEMA } },
     async (request, reply) => {
       try {
-        const { input, action, state, originalInput } = request.body;
-
-        console.log('Chat discovery:', action, input?.substring(0, 50));
-
-        // Import the conversational handler dynamically
-        const { ConversationalDiscoveryHandler } = await import('@neo/discovery');
-        
-        // IMPORTANT: Pass the AI provider so we get real AI-powered analysis
-        // Without this, the handler falls back to keyword-only matching which
-        // doesn't understand natural language properly
-        const chatHandler = new ConversationalDiscoveryHandler(aiProviderForDiscovery);
-
-        if (action === 'start') {
-          const result = await chatHandler.startConversation(input);
-          return reply.code(200).type('application/json').send(result);
+        const setup = await setUpChatTurn(request);
+        if (!setup.ok) {
+          return reply.code(setup.statusCode).type('application/json').send(setup.payload);
         }
-
-        if (action === 'continue' && state) {
-          const conversationState = {
-            step: state.step || 1,
-            collectedInfo: state.collectedInfo || {},
-            originalInput: originalInput || state.originalInput || '',
-            questionsAsked: (state as any).questionsAsked || [],
-            confidence: (state as any).confidence || 0.3,
-            // Pass through state fields for smart discovery flow
-            userConfirmed: (state as any).userConfirmed || false,
-            pendingConfirmation: (state as any).pendingConfirmation || false,
-            questionCount: (state as any).questionCount || 0,
-            enabledFeatures: (state as any).enabledFeatures || [],
-            answers: (state as any).answers || {},
-            detectedIndustry: (state as any).detectedIndustry || state.collectedInfo?.industry,
-          };
-
-          // DEBUG: Log what state we're receiving
-          console.log('📥 Smart Discovery - incoming state:', {
-            step: conversationState.step,
-            questionCount: conversationState.questionCount,
-            pendingConfirmation: conversationState.pendingConfirmation,
-            enabledFeatures: conversationState.enabledFeatures,
-          });
-
-          const result = await chatHandler.continueConversation(input, conversationState);
-          
-          // DEBUG: Log what we're sending back
-          console.log('📤 Smart Discovery - outgoing state:', {
-            step: result.step,
-            questionCount: (result as any).questionCount,
-            pendingConfirmation: (result as any).pendingConfirmation,
-            enabledFeatures: (result as any).enabledFeatures,
-            complete: result.complete,
+        const result = await withCostAttribution(chatAttribution(setup), () => runChatDiscovery(setup.body));
+        if (!result) {
+          return reply.code(400).type('application/json').send({
+            error: 'Invalid action or missing state',
           });
-          
-          return reply.code(200).type('application/json').send(result);
         }
+        return reply.code(200).type('application/json').send(await recordChatTurn(setup, result));
+      } catch (error: any) {
+        console.error('Chat discovery error:', error);
+        return reply.code(200).type('application/json').send(CHAT_DISCOVERY_FALLBACK);
+      }
+    }
+  );
 
-        return reply.code(400).type('application/json').send({
-          error: 'Invalid action or missing state',
-        });
+  /**
+   * Chat-based Discovery endpoint, streamed as Server-Sent Events
+   * POST /api/apps/discover/chat/stream
+   *
+   * Events: `stage` ({ stage, message }), `reply` ({ text }) with the readable
+   * part of the AI output so far as it is generated, then `done` with the chat response.
+   */
+  server.post<{ Body: ChatDiscoveryBody }>(
+    '/api/apps/discover/chat/stream',
+    { schema: { body: CHAT_DISCOVERY_BODY_SCHEMA } },
+    async (request, reply) => {
+      const setup = await setUpChatTurn(request);
+      if (!setup.ok) {
+        return reply.code(setup.statusCode).type('application/json').send(setup.payload);
+      }
+
+      const events = openEventStream(reply);
+      events.send('stage', { stage: 'understanding', message: 'Reading your message' });
+      try {
+        const result = await withCostAttribution(chatAttribution(setup), () =>
+          runChatDiscovery(setup.body, (text) => events.send('reply', { text }))
+        );
+        events.send('done', result ? await recordChatTurn(setup, result) : CHAT_DISCOVERY_FALLBACK);
       } catch (error: any) {
         console.error('Chat discovery error:', error);
-        return reply.code(200).type('application/json').send({
-          message: "I had a small issue. Let me try again - can you tell me about your business?",
-          complete: false,
-          step: 1,
-          collectedInfo: {},
-        });
+        events.send('done', CHAT_DISCOVERY_FALLBACK);
       }
+      events.close();
+      return reply;
     }
   );
 
@@ -529,309 +558,45 @@ export async function registerAppRoutes(
    * Create app endpoint
    * POST /api/apps/create
    */
-  server.post<{
-    Body: {
-      input: string;
-      category?: AppCategory;
-      preferences?: UserPreferences;
-      appConfig?: any;
-    };
-  }>(
+  server.post<{ Body: CreateAppBody }>(
     '/api/apps/create',
-    {
-      schema: {
-        body: {
-          type: 'object',
-          required: ['input'],
-          properties: {
-            input: { type: 'string', minLength: 1, maxLength: 10000 },
-            category: { type: 'string', enum: Object.values(AppCategory) },
-            preferences: { type: 'object' },
-            appConfig: { type: 'object' },
-          },
-        },
-      },
-    },
-    async (request: FastifyRequest<{ 
-      Body: { 
-        input: string; 
-        category?: AppCategory; 
-        preferences?: UserPreferences;
-        appConfig?: any;
-      } 
-    }>, reply: FastifyReply) => {
-      try {
-        // Set request context for Sentry
-        setRequestContext({
-          method: request.method,
-          url: request.url,
-          headers: request.headers as Record<string, string>,
-          body: { ...request.body, input: request.body.input?.substring(0, 100) + '...' }, // Truncate input for privacy
-        });
-        
-        addBreadcrumb('Create app endpoint called', 'http', {
-          method: request.method,
-          url: request.url,
-          category: request.body?.category,
-        });
-        
-        // Rate limiting
-        const clientId = request.ip || 'unknown';
-        if (!checkRateLimit(`create:${clientId}`, config.rateLimit.createApp.max, config.rateLimit.createApp.windowMs)) {
-          return reply.code(429).type('application/json').send({
-            success: false,
-            error: 'Rate limit exceeded',
-            message: 'Too many app creation requests. Please try again later.',
-          });
-        }
-
-        const { input, category, preferences, appConfig } = request.body;
-        
-        // Validate input is not empty
-        if (!input || typeof input !== 'string' || input.trim().length === 0) {
-          return reply.code(400).type('application/json').send({
-            success: false,
-            error: 'Invalid input',
-            message: 'Input is required and must be a non-empty string',
-          });
-        }
-        
-        // Generate app using neoEngine
-        // Map appConfig from discovery to discoveredInfo for the AI pipeline
-        // IMPORTANT: Include features from collected info for richer app generation
-        
-        // Extract features from appConfig - can come from multiple sources
-        const extractedFeatures: string[] = [];
-        if (appConfig) {
-          // Direct features array
-          if (Array.isArray(appConfig.features)) {
-            extractedFeatures.push(...appConfig.features);
-          }
-          // Features from services (emergency repair -> scheduling, invoicing)
-          if (Array.isArray(appConfig.services)) {
-            for (const service of appConfig.services) {
-              const svc = String(service).toLowerCase();
-              if (/emergency|urgent|repair/i.test(svc)) {
-                extractedFeatures.push('scheduling', 'notifications', 'job_tracking');
-              }
-              if (/install|installation/i.test(svc)) {
-                extractedFeatures.push('job_tracking', 'quotes', 'invoicing');
-              }
-            }
-          }
-          // Features from pain points
-          if (Array.isArray(appConfig.painPoints)) {
-            for (const pain of appConfig.painPoints) {
-              const p = String(pain).toLowerCase();
-              if (/payment|collect|billing/i.test(p)) {
-                extractedFeatures.push('invoicing', 'payments');
-              }
-              if (/sales|closing/i.test(p)) {
-                extractedFeatures.push('quotes', 'pipelines');
-              }
-              if (/schedule|booking/i.test(p)) {
-                extractedFeatures.push('scheduling', 'calendar');
-              }
-            }
-          }
-          // Direct feature keywords
-          if (appConfig.mainFeature) {
-            extractedFeatures.push(appConfig.mainFeature);
-          }
-          // Scanner feature
-          if (appConfig.scanner || /scanner/i.test(String(appConfig.originalDescription || ''))) {
-            extractedFeatures.push('file_upload', 'documents');
-          }
-        }
-        
-        // Dedupe features
-        const uniqueFeatures = [...new Set(extractedFeatures)];
-        
-        console.log('🎯 Features extracted for app generation:', uniqueFeatures);
-        
-        const processedIntent: ProcessedIntent = {
-          rawInput: input,
-          type: 'create_app',
-          discoveredInfo: appConfig ? {
-            industry: appConfig.industryText,
-            primaryIntent: appConfig.primaryIntent,
-            context: appConfig.context,
-            teamSize: appConfig.teamSize,
-            offerType: appConfig.offerType,
-            onlineAcceptance: appConfig.onlineAcceptance,
-            // NOW INCLUDES FEATURES for richer app generation!
-            features: uniqueFeatures.length > 0 ? uniqueFeatures : undefined,
-            // Pass through additional context
-            services: appConfig.services,
-            painPoints: appConfig.painPoints,
-            // Theme/vibe preset from discovery (maps to theme-builder presets)
-            themePreset: appConfig.themePreset,
-            // Business name for app branding
-            businessName: appConfig.businessName,
-            // DUAL-SURFACE: Customer-facing flags for generating customer portal
-            customerFacing: appConfig.customerFacing,
-            customerFeatures: appConfig.customerFeatures,
-          } : undefined,
-          extractedDetails: category ? { category: String(category) } : undefined,
-        };
-        const generated = await neoEngine.generateApp(processedIntent);
-
-        const now = new Date();
-        const resolvedCategory = category || AppCategory.PERSONAL;
-        const schemaWithBranding = {
-          ...materializedAppToSchema(generated.materializedApp),
-          branding: generated.blueprint.branding,
-          // DUAL-SURFACE: Include surfaces config and customer navigation from blueprint
-          surfaces: generated.blueprint.surfaces,
-          customerNavigation: generated.blueprint.customerNavigation,
-        };
-        const app: App = {
-          id: generated.blueprint.id,
-          name: generated.blueprint.name,
-          description: generated.blueprint.description,
-          category: resolvedCategory,
-          privacyLevel: determinePrivacyLevel(input, preferences),
-          version: 1,
-          createdAt: now,
-          updatedAt: now,
-          createdBy: preferences?.userId || randomUUID(),
-          schema: schemaWithBranding,
-          theme: materializedAppToTheme(generated.materializedApp),
-          data: generated.sampleData,
-          settings: {
-            offline: resolvedCategory === AppCategory.PERSONAL || resolvedCategory === AppCategory.HOME,
-            notifications: true,
-            analytics: preferences?.enableAnalytics ?? true,
-          },
-        };
-
-        // Safety check
-        const safetyCheck = await safetyOrchestrator.validateApp(app);
-        if (!safetyCheck.safe) {
-          return reply.code(403).type('application/json').send({
-            success: false,
-            error: 'Safety check failed',
-            message: 'Generated app failed safety checks',
-            safety: safetyCheck,
-          });
-        }
-
-        // Validate app has an ID before storing
-        if (!app.id) {
-          logger.error('Generated app is missing ID', undefined, {
-            appName: app.name,
-            category: app.category,
-          });
-          return reply.code(500).type('application/json').send({
-            success: false,
-            error: 'App generation failed',
-            message: 'Generated app is missing ID. This is a server error.',
-          });
-        }
-
-        // Store app in memory (for immediate access)
-        appStore.set(app.id, app);
-        
-        // Persist to storage (database or file-based)
-        try {
-          await appRepository.save({
-            id: app.id,
-            name: app.name,
-            description: app.description,
-            category: app.category,
-            schema: app.schema as Record<string, unknown>,
-            theme: app.theme as Record<string, unknown>,
-            data: app.data as Record<string, unknown>,
-            settings: app.settings as Record<string, unknown>,
-          }, preferences?.userId);
-          logger.info('App persisted to storage', { appId: app.id, useDatabase: isDatabaseEnabled() });
-        } catch (persistError: any) {
-          // Log but don't fail - app is still in memory
-          logger.warn('Failed to persist app to storage (will be in memory only)', {
-            appId: app.id,
-            error: persistError?.message,
-          });
-        }
-        
-        logger.info('App created and stored', {
-          appId: app.id,
-          appName: app.name,
-          category: app.category,
-        });
-
-        // Serialize app for JSON response
-        const serializedApp: Record<string, unknown> = {
-          id: String(app.id),
-          name: String(app.name || 'Untitled App'),
-          category: String(app.category || 'personal'),
-          privacyLevel: String(app.privacyLevel || 'private'),
-          version: Number(app.version || 1),
-          createdAt: (app.createdAt instanceof Date ? app.createdAt : new Date(app.createdAt || Date.now())).toISOString(),
-          updatedAt: (app.updatedAt instanceof Date ? app.updatedAt : new Date(app.updatedAt || Date.now())).toISOString(),
-          createdBy: String(app.createdBy || ''),
-          schema: app.schema ? JSON.parse(JSON.stringify(app.schema)) : {},
-          theme: app.theme ? JSON.parse(JSON.stringify(app.theme)) : {},
-          data: app.data ? JSON.parse(JSON.stringify(app.data)) : {},
-          settings: app.settings ? JSON.parse(JSON.stringify(app.settings)) : {},
-        };
-        
-        if (app.description) {
-          serializedApp.description = String(app.description);
-        }
+    { schema: { body: CREATE_APP_BODY_SCHEMA } },
+    async (request: FastifyRequest<{ Body: CreateAppBody }>, reply: FastifyReply) => {
+      const { statusCode, payload } = await createApp(request);
+      return reply.code(statusCode).type('application/json').send(payload);
+    }
+  );
 
-        const responsePayload = {
-          success: true,
-          app: serializedApp,
-          previewUrl: `/preview/${app.id}`,
-          safety: safetyCheck || {},
-        };
+  /**
+   * Create app endpoint, streamed as Server-Sent Events
+   * POST /api/apps/create/stream
+   *
+   * Events: `stage` ({ stage, message }) as each generation stage starts, then
+   * `done` with the create response or `error` with the error response and its
+   * statusCode. Requests refused before generation starts (rate limit, empty
+   * input) get a plain JSON response.
+   */
+  server.post<{ Body: CreateAppBody }>(
+    '/api/apps/create/stream',
+    { schema: { body: CREATE_APP_BODY_SCHEMA } },
+    async (request: FastifyRequest<{ Body: CreateAppBody }>, reply: FastifyReply) => {
+      let events: EventStream | null = null;
+      const { statusCode, payload } = await createApp(request, (progress) => {
+        events ??= openEventStream(reply);
+        events.send('stage', progress);
+      });
 
-        return reply.code(200).type('application/json').send(responsePayload);
-      } catch (error: any) {
-        console.error('Create endpoint error:', error);
-        
-        // Capture error in Sentry with full context
-        const errorObj = error instanceof Error ? error : new Error(String(error));
-        captureException(errorObj, {
-          endpoint: '/api/apps/create',
-          inputLength: request.body?.input?.length,
-          category: request.body?.category,
-          hasAppConfig: !!request.body?.appConfig,
-          errorName: error?.name,
-          errorType: error?.constructor?.name,
-        });
-        
-        logger.error('App creation failed', error, {
-          inputLength: request.body?.input?.length,
-          category: request.body?.category,
-        });
-        
-        // Handle specific error types
-        let errorMessage = 'An error occurred while creating the app';
-        let statusCode = 500;
-        
-        if (error?.name === 'ValidationError' || error?.message?.includes('schema') || error?.message?.includes('Zod')) {
-          errorMessage = 'AI generated invalid app structure. Please try rephrasing your request.';
-          statusCode = 422; // Unprocessable Entity
-        } else if (error?.name === 'SafetyError' || error?.message?.includes('safety')) {
-          errorMessage = error.message || 'Request blocked by safety checks';
-          statusCode = 403; // Forbidden
-        } else if (error?.message?.includes('API key') || error?.message?.includes('authentication')) {
-          errorMessage = 'AI service authentication failed. Please check API keys.';
-          statusCode = 503; // Service Unavailable
-        } else if (error?.message?.includes('timeout')) {
-          errorMessage = 'AI request timed out. Please try again.';
-          statusCode = 504; // Gateway Timeout
-        } else {
-          errorMessage = error?.message || errorMessage;
-        }
-        
-        return reply.code(statusCode).type('application/json').send({
-          success: false,
-          error: 'App creation failed',
-          message: errorMessage,
-        });
+      if (!events) {
+        return reply.code(statusCode).type('application/json').send(payload);
       }
+      const stream: EventStream = events;
+      if (statusCode === 200) {
+        stream.send('done', payload);
+      } else {
+        stream.send('error', { statusCode, ...payload });
+      }
+      stream.close();
+      return reply;
     }
   );
 
@@ -861,51 +626,11 @@ export async function registerAppRoutes(
         console.log('Fetching app:', appId);
         logger.debug('GET /api/apps/:appId requested', { appId });
         
-        // Log all stored app IDs for debugging
-        const storedIds = Array.from(appStore.keys());
-        console.log('Stored app IDs:', storedIds);
-        logger.debug('Available app IDs in store', { storedIds, count: storedIds.length });
-        
-        // First check memory store
-        let app = appStore.get(appId);
+        const app = await appRepository.getApp(appId);
         
-        // If not in memory, check persistent storage (database or file)
         if (!app) {
-          console.log('App not in memory, checking persistent storage...');
-          logger.debug('Checking persistent storage for app', { appId });
-          
-          try {
-            const storedApp = await appRepository.findById(appId);
-            if (storedApp) {
-              console.log('App found in persistent storage, caching in memory');
-              // Convert to App type and cache in memory for future requests
-              app = {
-                id: storedApp.id,
-                name: storedApp.name,
-                description: storedApp.description,
-                category: (storedApp.category as any) || 'personal',
-                privacyLevel: 'private' as any,
-                version: 1,
-                createdAt: storedApp.createdAt ? new Date(storedApp.createdAt) : new Date(),
-                updatedAt: storedApp.updatedAt ? new Date(storedApp.updatedAt) : new Date(),
-                createdBy: storedApp.userId || randomUUID(),
-                schema: storedApp.schema as any,
-                theme: storedApp.theme as any,
-                data: storedApp.data as any,
-                settings: storedApp.settings as any,
-              };
-              // Cache in memory store for faster subsequent access
-              appStore.set(appId, app);
-              logger.info('App loaded from persistent storage and cached', { appId });
-            }
-          } catch (storageError: any) {
-            logger.warn('Persistent storage lookup failed', { appId, error: storageError?.message });
-          }
-        }
-        
-        if (!app) {
-          console.log('App not found in store or persistent storage. Requested ID:', appId, 'Available IDs:', storedIds);
-          logger.warn('App not found', { appId, availableIds: storedIds });
+          console.log('App not found in store. Requested ID:', appId);
+          logger.warn('App not found', { appId, store: appRepository.driver });
           return reply.code(404).type('application/json').send({
             success: false,
             error: 'App not found',
@@ -1016,32 +741,9 @@ export async function registerAppRoutes(
           settings: (schema.settings || {}) as Record<string, unknown>,
         } as App;
         
-        // Store in memory
-        appStore.set(app.id, app);
-        
-        // Persist to storage
-        try {
-          await appRepository.save({
-            id: app.id,
-            name: app.name,
-            description: app.description,
-            category: app.category,
-            schema: app.schema as Record<string, unknown>,
-            theme: app.theme as Record<string, unknown>,
-            data: app.data as Record<string, unknown>,
-            settings: app.settings as Record<string, unknown>,
-            userId: 'import',
-            isPublic: false,
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString(),
-          });
-          logger.info('App persisted to storage', { appId: app.id });
-        } catch (storageError: any) {
-          logger.warn('Failed to persist app to storage', { 
-            appId: app.id, 
-            error: storageError?.message 
-          });
-        }
+        // Persist to the app store
+        await appRepository.saveApp(app);
+        logger.info('App persisted to storage', { appId: app.id, store: appRepository.driver });
         
         console.log('✅ App imported successfully:', app.id);
         
@@ -1068,3 +770,400 @@ export async function registerAppRoutes(
     }
   );
 }
+
+/**
+ * Generate, check and store an app from a create request
+ * Reports generation stages to `onProgress` as they start.
+ */
+async function createApp(
+  request: FastifyRequest<{ Body: CreateAppBody }>,
+  onProgress?: (progress: GenerationProgress) => void
+): Promise<CreateAppOutcome> {
+  const respond = (statusCode: number, payload: Record<string, unknown>): CreateAppOutcome => ({ statusCode, payload });
+
+  try {
+    // Set request context for Sentry
+    setRequestContext({
+      method: request.method,
+      url: request.url,
+      headers: request.headers as Record<string, string>,
+      body: { ...request.body, input: request.body.input?.substring(0, 100) + '...' }, // Truncate input for privacy
+    });
+    
+    addBreadcrumb('Create app endpoint called', 'http', {
+      method: request.method,
+      url: request.url,
+      category: request.body?.category,
+    });
+    
+    // Rate limiting
+    const clientId = request.ip || 'unknown';
+    if (!checkRateLimit(`create:${clientId}`, config.rateLimit.createApp.max, config.rateLimit.createApp.windowMs)) {
+      return respond(429, {
+        success: false,
+        error: 'Rate limit exceeded',
+        message: 'Too many app creation requests. Please try again later.',
+      });
+    }
+
+    const { input, category, preferences, appConfig } = request.body;
+    
+    // Validate input is not empty
+    if (!input || typeof input !== 'string' || input.trim().length === 0) {
+      return respond(400, {
+        success: false,
+        error: 'Invalid input',
+        message: 'Input is required and must be a non-empty string',
+      });
+    }
+    
+    // Generate app using neoEngine
+    // Map appConfig from discovery to discoveredInfo for the AI pipeline
+    // IMPORTANT: Include features from collected info for richer app generation
+    
+    // Extract features from appConfig - can come from multiple sources
+    const extractedFeatures: string[] = [];
+    if (appConfig) {
+      // Direct features array
+      if (Array.isArray(appConfig.features)) {
+        extractedFeatures.push(...appConfig.features);
+      }
+      // Features from services (emergency repair -> scheduling, invoicing)
+      if (Array.isArray(appConfig.services)) {
+        for (const service of appConfig.services) {
+          const svc = String(service).toLowerCase();
+          if (/emergency|urgent|repair/i.test(svc)) {
+            extractedFeatures.push('scheduling', 'notifications', 'job_tracking');
+          }
+          if (/install|installation/i.test(svc)) {
+            extractedFeatures.push('job_tracking', 'quotes', 'invoicing');
+          }
+        }
+      }
+      // Features from pain points
+      if (Array.isArray(appConfig.painPoints)) {
+        for (const pain of appConfig.painPoints) {
+          const p = String(pain).toLowerCase();
+          if (/payment|collect|billing/i.test(p)) {
+            extractedFeatures.push('invoicing', 'payments');
+          }
+          if (/sales|closing/i.test(p)) {
+            extractedFeatures.push('quotes', 'pipelines');
+          }
+          if (/schedule|booking/i.test(p)) {
+            extractedFeatures.push('scheduling', 'calendar');
+          }
+        }
+      }
+      // Direct feature keywords
+      if (appConfig.mainFeature) {
+        extractedFeatures.push(appConfig.mainFeature);
+      }
+      // Scanner feature
+      if (appConfig.scanner || /scanner/i.test(String(appConfig.originalDescription || ''))) {
+        extractedFeatures.push('file_upload', 'documents');
+      }
+    }
+    
+    // Dedupe features
+    const uniqueFeatures = [...new Set(extractedFeatures)];
+    
+    console.log('🎯 Features extracted for app generation:', uniqueFeatures);
+    
+    const processedIntent: ProcessedIntent = {
+      rawInput: input,
+      type: 'create_app',
+      discoveredInfo: appConfig ? {
+        industry: appConfig.industryText,
+        primaryIntent: appConfig.primaryIntent,
+        context: appConfig.context,
+        teamSize: appConfig.teamSize,
+        offerType: appConfig.offerType,
+        onlineAcceptance: appConfig.onlineAcceptance,
+        // NOW INCLUDES FEATURES for richer app generation!
+        features: uniqueFeatures.length > 0 ? uniqueFeatures : undefined,
+        // Pass through additional context
+        services: appConfig.services,
+        painPoints: appConfig.painPoints,
+        // Theme/vibe preset from discovery (maps to theme-builder presets)
+        themePreset: appConfig.themePreset,
+        // Business name for app branding
+        businessName: appConfig.businessName,
+        // DUAL-SURFACE: Customer-facing flags for generating customer portal
+        customerFacing: appConfig.customerFacing,
+        customerFeatures: appConfig.customerFeatures,
+      } : undefined,
+      extractedDetails: category ? { category: String(category) } : undefined,
+    };
+    const generated = await neoEngine.generateApp(processedIntent, { onProgress });
+
+    const now = new Date();
+    const resolvedCategory = category || AppCategory.PERSONAL;
+    const schemaWithBranding = {
+      ...materializedAppToSchema(generated.materializedApp),
+      branding: generated.blueprint.branding,
+      // DUAL-SURFACE: Include surfaces config and customer navigation from blueprint
+      surfaces: generated.blueprint.surfaces,
+      customerNavigation: generated.blueprint.customerNavigation,
+    };
+    const app: App = {
+      id: generated.blueprint.id,
+      name: generated.blueprint.name,
+      description: generated.blueprint.description,
+      category: resolvedCategory,
+      privacyLevel: determinePrivacyLevel(input, preferences),
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: preferences?.userId || randomUUID(),
+      schema: schemaWithBranding,
+      theme: materializedAppToTheme(generated.materializedApp),
+      data: generated.sampleData,
+      settings: {
+        offline: resolvedCategory === AppCategory.PERSONAL || resolvedCategory === AppCategory.HOME,
+        notifications: true,
+        analytics: preferences?.enableAnalytics ?? true,
+      },
+    };
+
+    // Safety check
+    onProgress?.({ stage: 'validation', message: 'Checking your app' });
+    const safetyCheck = await safetyOrchestrator.validateApp(app);
+    if (!safetyCheck.safe) {
+      return respond(403, {
+        success: false,
+        error: 'Safety check failed',
+        message: 'Generated app failed safety checks',
+        safety: safetyCheck,
+      });
+    }
+
+    // Validate app has an ID before storing
+    if (!app.id) {
+      logger.error('Generated app is missing ID', undefined, {
+        appName: app.name,
+        category: app.category,
+      });
+      return respond(500, {
+        success: false,
+        error: 'App generation failed',
+        message: 'Generated app is missing ID. This is a server error.',
+      });
+    }
+
+    // Persist to the app store
+    await appRepository.saveApp(app, preferences?.userId);
+    logger.info('App persisted to storage', { appId: app.id, store: appRepository.driver });
+    
+    logger.info('App created and stored', {
+      appId: app.id,
+      appName: app.name,
+      category: app.category,
+    });
+
+    // Serialize app for JSON response
+    const serializedApp: Record<string, unknown> = {
+      id: String(app.id),
+      name: String(app.name || 'Untitled App'),
+      category: String(app.category || 'personal'),
+      privacyLevel: String(app.privacyLevel || 'private'),
+      version: Number(app.version || 1),
+      createdAt: (app.createdAt instanceof Date ? app.createdAt : new Date(app.createdAt || Date.now())).toISOString(),
+      updatedAt: (app.updatedAt instanceof Date ? app.updatedAt : new Date(app.updatedAt || Date.now())).toISOString(),
+      createdBy: String(app.createdBy || ''),
+      schema: app.schema ? JSON.parse(JSON.stringify(app.schema)) : {},
+      theme: app.theme ? JSON.parse(JSON.stringify(app.theme)) : {},
+      data: app.data ? JSON.parse(JSON.stringify(app.data)) : {},
+      settings: app.settings ? JSON.parse(JSON.stringify(app.settings)) : {},
+    };
+    
+    if (app.description) {
+      serializedApp.description = String(app.description);
+    }
+
+    const responsePayload = {
+      success: true,
+      app: serializedApp,
+      previewUrl: `/preview/${app.id}`,
+      safety: safetyCheck || {},
+    };
+
+    return respond(200, responsePayload);
+  } catch (error: any) {
+    console.error('Create endpoint error:', error);
+    
+    // Capture error in Sentry with full context
+    const errorObj = error instanceof Error ? error : new Error(String(error));
+    captureException(errorObj, {
+      endpoint: '/api/apps/create',
+      inputLength: request.body?.input?.length,
+      category: request.body?.category,
+      hasAppConfig: !!request.body?.appConfig,
+      errorName: error?.name,
+      errorType: error?.constructor?.name,
+    });
+    
+    logger.error('App creation failed', error, {
+      inputLength: request.body?.input?.length,
+      category: request.body?.category,
+    });
+    
+    // Handle specific error types
+    let errorMessage = 'An error occurred while creating the app';
+    let statusCode = 500;
+    
+    if (error?.name === 'ValidationError' || error?.message?.includes('schema') || error?.message?.includes('Zod')) {
+      errorMessage = 'AI generated invalid app structure. Please try rephrasing your request.';
+      statusCode = 422; // Unprocessable Entity
+    } else if (error?.name === 'SafetyError' || error?.message?.includes('safety')) {
+      errorMessage = error.message || 'Request blocked by safety checks';
+      statusCode = 403; // Forbidden
+    } else if (error?.message?.includes('API key') || error?.message?.includes('authentication')) {
+      errorMessage = 'AI service authentication failed. Please check API keys.';
+      statusCode = 503; // Service Unavailable
+    } else if (error?.message?.includes('timeout')) {
+      errorMessage = 'AI request timed out. Please try again.';
+      statusCode = 504; // Gateway Timeout
+    } else {
+      errorMessage = error?.message || errorMessage;
+    }
+    
+    return respond(statusCode, {
+      success: false,
+      error: 'App creation failed',
+      message: errorMessage,
+    });
+  }
+}
+
+/**
+ * Check a chat turn can run, loading the stored conversation it continues
+ */
+async function setUpChatTurn(request: FastifyRequest<{ Body: ChatDiscoveryBody }>): Promise<ChatTurnSetup> {
+  const body = request.body;
+  const user = await getUserFromRequest(request);
+
+  if (!body.conversationId) {
+    if (body.action === 'continue' && !body.state) {
+      return { ok: false, statusCode: 400, payload: { error: 'Invalid action or missing state' } };
+    }
+    return { ok: true, body, conversation: null, user };
+  }
+
+  const conversation = await findConversationForUser(body.conversationId, user);
+  if (!conversation) {
+    return { ok: false, statusCode: 404, payload: { error: 'Conversation not found' } };
+  }
+  if (conversation.status !== 'active') {
+    return {
+      ok: false,
+      statusCode: 409,
+      payload: { error: `Conversation is ${conversation.status}`, conversationId: conversation.id },
+    };
+  }
+
+  const state = latestConversationState(conversation) as ChatDiscoveryBody['state'];
+  return {
+    ok: true,
+    body: { ...body, action: 'continue', state, originalInput: state?.originalInput },
+    conversation,
+    user,
+  };
+}
+
+/**
+ * Store a chat turn on its conversation (starting one for new chats)
+ * Turns continuing client-held state without a conversation are not stored.
+ * The reply carries the conversation id to send with the next turn.
+ */
+async function recordChatTurn(
+  setup: ChatTurnSetup & { ok: true },
+  result: ChatResponse
+): Promise<ChatResponse & { conversationId?: string }> {
+  if (!setup.conversation && setup.body.action !== 'start') {
+    return result;
+  }
+  try {
+    const conversation = await recordDiscoveryTurn(setup.conversation, setup.body.input, result, setup.user);
+    return { ...result, conversationId: conversation.id };
+  } catch (error: any) {
+    // The reply matters more than its record; the client can go on with the state it holds
+    logger.error('Failed to record discovery turn', error);
+    return result;
+  }
+}
+
+/**
+ * Who a chat turn's AI calls are charged to
+ */
+function chatAttribution(setup: ChatTurnSetup & { ok: true }) {
+  return { userId: setup.user?.id, operation: 'discovery' };
+}
+
+/**
+ * Run one turn of chat discovery (null for a continue without state)
+ * With `onReply`, the reply text of each AI response is passed on as it is generated.
+ */
+async function runChatDiscovery(
+  body: ChatDiscoveryBody,
+  onReply?: (text: string) => void
+): Promise<ChatResponse | null> {
+  const { input, action, state, originalInput } = body;
+
+  console.log('Chat discovery:', action, input?.substring(0, 50));
+
+  // Import the conversational handler dynamically
+  const { ConversationalDiscoveryHandler } = await import('@neo/discovery');
+
+  // IMPORTANT: Pass the AI provider so we get real AI-powered analysis
+  // Without this, the handler falls back to keyword-only matching which
+  // doesn't understand natural language properly
+  const provider = aiProviderForDiscovery && onReply
+    ? { complete: (options: Record<string, unknown>) => aiProviderForDiscovery.complete(options, onReply) }
+    : aiProviderForDiscovery;
+  const chatHandler = new ConversationalDiscoveryHandler(provider);
+
+  if (action === 'start') {
+    return chatHandler.startConversation(input);
+  }
+
+  if (action === 'continue' && state) {
+    const conversationState = {
+      step: state.step || 1,
+      collectedInfo: state.collectedInfo || {},
+      originalInput: originalInput || state.originalInput || '',
+      questionsAsked: (state as any).questionsAsked || [],
+      confidence: (state as any).confidence || 0.3,
+      // Pass through state fields for smart discovery flow
+      userConfirmed: (state as any).userConfirmed || false,
+      pendingConfirmation: (state as any).pendingConfirmation || false,
+      questionCount: (state as any).questionCount || 0,
+      enabledFeatures: (state as any).enabledFeatures || [],
+      answers: (state as any).answers || {},
+      detectedIndustry: (state as any).detectedIndustry || state.collectedInfo?.industry,
+    };
+
+    // DEBUG: Log what state we're receiving
+    console.log('📥 Smart Discovery - incoming state:', {
+      step: conversationState.step,
+      questionCount: conversationState.questionCount,
+      pendingConfirmation: conversationState.pendingConfirmation,
+      enabledFeatures: conversationState.enabledFeatures,
+    });
+
+    const result = await chatHandler.continueConversation(input, conversationState);
+    
+    // DEBUG: Log what we're sending back
+    console.log('📤 Smart Discovery - outgoing state:', {
+      step: result.step,
+      questionCount: (result as any).questionCount,
+      pendingConfirmation: (result as any).pendingConfirmation,
+      enabledFeatures: (result as any).enabledFeatures,
+      complete: result.complete,
+    });
+    
+    return result;
+  }
+
+  return null;
+}
@@ -0,0 +1,541 @@
+/**
+ * Attachment Routes
+ *
+ * Upload, download and delete files on records: uploads to `file`, `image` and
+ * `signature` fields, and attachments on `attachable` entities. File contents
+ * live in a BlobStore; rendered apps get signed, expiring download URLs.
+ * Files on a record are only reachable by users who can read the record.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { randomUUID } from 'crypto';
+import { hasRolePermission } from '@neo/blueprint-engine';
+import type { PermissionsService } from '@neo/runtime';
+import { config } from './config.js';
+import { logger } from './utils/logger.js';
+import { multipartBoundary, parseMultipart, type MultipartForm } from './utils/multipart.js';
+import { createSignedUrl, verifySignedUrl } from './utils/signed-url.js';
+import { getUserFromRequest } from './auth-routes.js';
+import { canReadRecord, checkDbAvailable, getDbService } from './database-routes.js';
+import { extractUserContext, type UserContext } from './permissions-middleware.js';
+import { createAppPermissions } from './permissions-routes.js';
+import { appRepository, type App } from './repositories/app-repository.js';
+import { attachmentRepository, type Attachment } from './repositories/attachment-repository.js';
+import type { BlobStore } from './repositories/blob-store.js';
+import { findModelField, hasModelBehavior } from './services/model-behaviors.js';
+import type { User } from './types/database.js';
+
+let blobStore: BlobStore;
+
+/** Field types that take uploads */
+const UPLOAD_FIELD_TYPES = ['file', 'image', 'signature'];
+
+/** Field types whose uploads must be images */
+const IMAGE_FIELD_TYPES = ['image', 'signature'];
+
+/** Allowed upload types when ATTACHMENT_ALLOWED_TYPES is not set */
+const DEFAULT_ALLOWED_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+/** Types a browser may show inline; everything else downloads as a file */
+const INLINE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf']);
+
+/** Room for multipart boundaries and headers on top of the file size limit */
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+interface AttachmentRequestContext {
+  app: App;
+  user: User | null;
+  permissions: PermissionsService;
+}
+
+interface DownloadQuerystring {
+  expires?: string;
+  signature?: string;
+}
+
+/**
+ * Whether a MIME type is in the allow list (`image/*` entries match a whole family)
+ */
+function isAllowedType(contentType: string): boolean {
+  const allowed = config.attachmentAllowedTypes.length > 0 ? config.attachmentAllowedTypes : DEFAULT_ALLOWED_TYPES;
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  return allowed.some(entry => entry.endsWith('/*') ? type.startsWith(entry.slice(0, -1)) : type === entry);
+}
+
+function downloadPath(attachment: Attachment): string {
+  return `/api/apps/${attachment.appId}/attachments/${attachment.id}/download`;
+}
+
+/**
+ * Attachment as returned by the API: a signed download URL instead of the storage key
+ */
+function withDownloadUrl(attachment: Attachment) {
+  const { storageKey: _storageKey, ...metadata } = attachment;
+  const signed = createSignedUrl(config.attachmentUrlSecret, downloadPath(attachment), config.attachmentUrlTtlSeconds);
+  return { ...metadata, url: signed.url, urlExpiresAt: signed.expiresAt };
+}
+
+/**
+ * Content-Disposition header with an ASCII fallback and the UTF-8 file name
+ */
+function contentDisposition(attachment: Attachment): string {
+  const disposition = INLINE_TYPES.has(attachment.contentType) ? 'inline' : 'attachment';
+  const fallback = attachment.fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`;
+}
+
+/**
+ * Load the app and the caller's permissions
+ */
+async function loadAttachmentContext(
+  appId: string,
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<AttachmentRequestContext | null> {
+  const app = await appRepository.findById(appId);
+  if (!app) {
+    reply.code(404).send({
+      success: false,
+      error: 'App not found',
+    });
+    return null;
+  }
+
+  const user = await getUserFromRequest(request);
+  return { app, user, permissions: createAppPermissions(app, user) };
+}
+
+/**
+ * Load an attachment of the app
+ */
+async function loadAttachment(appId: string, attachmentId: string, reply: FastifyReply): Promise<Attachment | null> {
+  const attachment = await attachmentRepository.findById(appId, attachmentId);
+  if (!attachment) {
+    reply.code(404).send({
+      success: false,
+      error: 'Attachment not found',
+    });
+    return null;
+  }
+  return attachment;
+}
+
+/**
+ * Check the caller is signed in
+ */
+function ensureSignedIn(context: AttachmentRequestContext, reply: FastifyReply): context is AttachmentRequestContext & { user: User } {
+  if (!context.user) {
+    reply.code(401).send({
+      success: false,
+      error: 'Authentication required',
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check the record exists and the caller can read it under the row access rules
+ * (hidden records look the same as missing ones)
+ */
+async function ensureRecordVisible(
+  context: AttachmentRequestContext & { user: User },
+  request: FastifyRequest,
+  entityId: string,
+  recordId: string,
+  reply: FastifyReply
+): Promise<boolean> {
+  if (!(await checkDbAvailable(reply))) return false;
+  await getDbService();
+
+  const userContext: UserContext = extractUserContext(request) ?? {
+    userId: context.user.id,
+    role: context.permissions.getCurrentRole() as UserContext['role'],
+    appId: context.app.id,
+  };
+  if (!(await canReadRecord(context.app.id, entityId, recordId, userContext))) {
+    reply.code(404).send({
+      success: false,
+      error: 'Not found',
+      message: `Record ${recordId} not found`,
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check the record (or its field) takes uploads
+ */
+function ensureUploadTarget(app: App, entityId: string, fieldId: string | null, reply: FastifyReply): boolean {
+  if (fieldId) {
+    const field = findModelField(app, entityId, fieldId);
+    if (!field || !UPLOAD_FIELD_TYPES.includes(field.type)) {
+      reply.code(400).send({
+        success: false,
+        error: 'Invalid field',
+        message: `${entityId}.${fieldId} is not a file, image or signature field`,
+      });
+      return false;
+    }
+    return true;
+  }
+
+  if (!hasModelBehavior(app, entityId, 'attachable')) {
+    reply.code(400).send({
+      success: false,
+      error: 'Attachments not enabled',
+      message: `Entity ${entityId} is not attachable`,
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Whether the caller may upload to (and delete from) a record or field
+ */
+function canUpload(permissions: PermissionsService, entityId: string, fieldId: string | null): boolean {
+  return fieldId
+    ? permissions.canEditField(entityId, fieldId)
+    : permissions.canPerformAction(`attach:${entityId}`);
+}
+
+/**
+ * Whether the caller may see an attachment
+ */
+function canView(permissions: PermissionsService, attachment: Attachment): boolean {
+  if (!hasRolePermission(permissions.getCurrentRole(), 'viewer')) return false;
+  return attachment.fieldId ? permissions.canViewField(attachment.entityId, attachment.fieldId) : true;
+}
+
+/**
+ * Register attachment routes
+ */
+export async function registerAttachmentRoutes(
+  server: FastifyInstance,
+  dependencies: {
+    blobStore: BlobStore;
+  }
+): Promise<void> {
+  blobStore = dependencies.blobStore;
+
+  // Uploads are buffered multipart bodies, limited to the maximum file size
+  await server.register(async (uploads) => {
+    uploads.addContentTypeParser(
+      'multipart/form-data',
+      { parseAs: 'buffer', bodyLimit: config.attachmentMaxBytes + MULTIPART_OVERHEAD_BYTES },
+      (_request, body, done) => {
+        done(null, body);
+      }
+    );
+
+    uploads.setErrorHandler((error, _request, reply) => {
+      if (error.statusCode === 413) {
+        return reply.code(413).send({
+          success: false,
+          error: 'File too large',
+          message: `Uploads are limited to ${config.attachmentMaxBytes} bytes`,
+        });
+      }
+      throw error;
+    });
+
+    /**
+     * Upload files to a record
+     * POST /api/apps/:appId/entities/:entityId/records/:recordId/attachments
+     * multipart/form-data: one or more `file` parts, optional `fieldId` field
+     */
+    uploads.post<{ Params: { appId: string; entityId: string; recordId: string }; Body: Buffer }>(
+      '/api/apps/:appId/entities/:entityId/records/:recordId/attachments',
+      async (request, reply) => {
+        try {
+          const { appId, entityId, recordId } = request.params;
+          const context = await loadAttachmentContext(appId, request, reply);
+          if (!context) return;
+          if (!ensureSignedIn(context, reply)) return;
+
+          const boundary = multipartBoundary(request.headers['content-type']);
+          if (!boundary || !Buffer.isBuffer(request.body)) {
+            return reply.code(400).send({
+              success: false,
+              error: 'Invalid upload',
+              message: 'Expected a multipart/form-data body',
+            });
+          }
+
+          let form: MultipartForm;
+          try {
+            form = parseMultipart(request.body, boundary);
+          } catch (error: any) {
+            return reply.code(400).send({
+              success: false,
+              error: 'Invalid upload',
+              message: error.message,
+            });
+          }
+
+          const fieldId = form.fields.fieldId || null;
+          if (!ensureUploadTarget(context.app, entityId, fieldId, reply)) return;
+
+          if (!canUpload(context.permissions, entityId, fieldId)) {
+            return reply.code(403).send({
+              success: false,
+              error: 'Permission denied',
+              message: 'You do not have permission to upload files to this record',
+            });
+          }
+          if (!(await ensureRecordVisible(context, request, entityId, recordId, reply))) return;
+
+          if (form.files.length === 0) {
+            return reply.code(400).send({
+              success: false,
+              error: 'No file',
+              message: 'The upload contains no file',
+            });
+          }
+
+          const fieldType = fieldId ? findModelField(context.app, entityId, fieldId)?.type : undefined;
+          for (const file of form.files) {
+            if (file.data.length > config.attachmentMaxBytes) {
+              return reply.code(413).send({
+                success: false,
+                error: 'File too large',
+                message: `${file.fileName} exceeds the ${config.attachmentMaxBytes} byte limit`,
+              });
+            }
+            const isImage = file.contentType.toLowerCase().startsWith('image/');
+            if (!isAllowedType(file.contentType) || (fieldType && IMAGE_FIELD_TYPES.includes(fieldType) && !isImage)) {
+              return reply.code(415).send({
+                success: false,
+                error: 'Unsupported file type',
+                message: `${file.fileName} has a type that is not allowed here (${file.contentType})`,
+              });
+            }
+          }
+
+          const attachments: Attachment[] = [];
+          for (const file of form.files) {
+            const id = `att_${randomUUID()}`;
+            const storageKey = `${appId}/${id}`;
+            await blobStore.put(storageKey, file.data, file.contentType);
+            attachments.push(await attachmentRepository.create({
+              id,
+              appId,
+              entityId,
+              recordId,
+              fieldId,
+              fileName: file.fileName || 'upload',
+              contentType: file.contentType,
+              size: file.data.length,
+              storageKey,
+              uploadedBy: context.user.id,
+              createdAt: new Date().toISOString(),
+            }));
+          }
+
+          logger.info('Files uploaded', { appId, entityId, recordId, count: attachments.length });
+          return reply.code(201).send({
+            success: true,
+            attachments: attachments.map(withDownloadUrl),
+          });
+        } catch (error: any) {
+          logger.error('Upload failed', error);
+          return reply.code(500).send({
+            success: false,
+            error: 'Failed to upload file',
+            message: error.message,
+          });
+        }
+      }
+    );
+  });
+
+  /**
+   * List the attachments of a record
+   * GET /api/apps/:appId/entities/:entityId/records/:recordId/attachments
+   */
+  server.get<{ Params: { appId: string; entityId: string; recordId: string } }>(
+    '/api/apps/:appId/entities/:entityId/records/:recordId/attachments',
+    async (request, reply) => {
+      try {
+        const { appId, entityId, recordId } = request.params;
+        const context = await loadAttachmentContext(appId, request, reply);
+        if (!context) return;
+        if (!ensureSignedIn(context, reply)) return;
+        if (!(await ensureRecordVisible(context, request, entityId, recordId, reply))) return;
+
+        const attachments = (await attachmentRepository.listForRecord(appId, entityId, recordId))
+          .filter(attachment => canView(context.permissions, attachment));
+
+        return reply.send({
+          success: true,
+          attachments: attachments.map(withDownloadUrl),
+        });
+      } catch (error: any) {
+        logger.error('List attachments failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to list attachments',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Get an attachment with a fresh download URL
+   * GET /api/apps/:appId/attachments/:attachmentId
+   */
+  server.get<{ Params: { appId: string; attachmentId: string } }>(
+    '/api/apps/:appId/attachments/:attachmentId',
+    async (request, reply) => {
+      try {
+        const { appId, attachmentId } = request.params;
+        const context = await loadAttachmentContext(appId, request, reply);
+        if (!context) return;
+        if (!ensureSignedIn(context, reply)) return;
+
+        const attachment = await loadAttachment(appId, attachmentId, reply);
+        if (!attachment) return;
+        if (!canView(context.permissions, attachment)) {
+          return reply.code(403).send({
+            success: false,
+            error: 'Permission denied',
+          });
+        }
+        if (!(await ensureRecordVisible(context, request, attachment.entityId, attachment.recordId, reply))) return;
+
+        return reply.send({
+          success: true,
+          attachment: withDownloadUrl(attachment),
+        });
+      } catch (error: any) {
+        logger.error('Get attachment failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to get attachment',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Download a file (with a signed URL, or as a signed-in user)
+   * GET /api/apps/:appId/attachments/:attachmentId/download?expires=&signature=
+   */
+  server.get<{ Params: { appId: string; attachmentId: string }; Querystring: DownloadQuerystring }>(
+    '/api/apps/:appId/attachments/:attachmentId/download',
+    async (request, reply) => {
+      try {
+        const { appId, attachmentId } = request.params;
+        const { expires, signature } = request.query;
+
+        const attachment = await loadAttachment(appId, attachmentId, reply);
+        if (!attachment) return;
+
+        if (expires || signature) {
+          const check = verifySignedUrl(config.attachmentUrlSecret, downloadPath(attachment), expires, signature);
+          if (!check.valid) {
+            return reply.code(403).send({
+              success: false,
+              error: 'Invalid download link',
+              message: check.reason,
+            });
+          }
+        } else {
+          const context = await loadAttachmentContext(appId, request, reply);
+          if (!context) return;
+          if (!ensureSignedIn(context, reply)) return;
+          if (!canView(context.permissions, attachment)) {
+            return reply.code(403).send({
+              success: false,
+              error: 'Permission denied',
+            });
+          }
+          if (!(await ensureRecordVisible(context, request, attachment.entityId, attachment.recordId, reply))) return;
+        }
+
+        const blob = await blobStore.get(attachment.storageKey);
+        if (!blob) {
+          return reply.code(404).send({
+            success: false,
+            error: 'File not found',
+          });
+        }
+
+        return reply
+          .header('Content-Type', attachment.contentType)
+          .header('Content-Disposition', contentDisposition(attachment))
+          .header('X-Content-Type-Options', 'nosniff')
+          .header('Cache-Control', 'private, no-store')
+          .send(blob.data);
+      } catch (error: any) {
+        logger.error('Download failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to download file',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Delete an attachment and its file
+   * DELETE /api/apps/:appId/attachments/:attachmentId
+   */
+  server.delete<{ Params: { appId: string; attachmentId: string } }>(
+    '/api/apps/:appId/attachments/:attachmentId',
+    async (request, reply) => {
+      try {
+        const { appId, attachmentId } = request.params;
+        const context = await loadAttachmentContext(appId, request, reply);
+        if (!context) return;
+        if (!ensureSignedIn(context, reply)) return;
+
+        const attachment = await loadAttachment(appId, attachmentId, reply);
+        if (!attachment) return;
+        if (!canUpload(context.permissions, attachment.entityId, attachment.fieldId)) {
+          return reply.code(403).send({
+            success: false,
+            error: 'Permission denied',
+            message: 'You do not have permission to delete files from this record',
+          });
+        }
+        if (!(await ensureRecordVisible(context, request, attachment.entityId, attachment.recordId, reply))) return;
+
+        await attachmentRepository.delete(appId, attachmentId);
+        // Metadata goes first: a leftover file is harmless, metadata without its file is not
+        await blobStore.delete(attachment.storageKey).catch((error: any) => {
+          logger.warn('Failed to delete attachment file', { appId, attachmentId, error: error.message });
+        });
+
+        logger.info('Attachment deleted', { appId, attachmentId });
+        return reply.send({
+          success: true,
+        });
+      } catch (error: any) {
+        logger.error('Delete attachment failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to delete attachment',
+          message: error.message,
+        });
+      }
+    }
+  );
+}
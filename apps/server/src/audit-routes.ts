@@ -0,0 +1,206 @@
+/**
+ * Audit Routes
+ *
+ * API routes for browsing an app's audit log (writes to `auditable` entities)
+ * and managing its retention.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { AuditAction } from '@neo/database';
+import { logger } from './utils/logger.js';
+import { getUserFromRequest } from './auth-routes.js';
+import { appRepository, type App } from './repositories/app-repository.js';
+import { auditSettingsOf, saveAuditSettings } from './services/audit-settings.js';
+import { checkDbAvailable, getDbService } from './database-routes.js';
+
+const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete', 'restore'];
+
+interface AuditLogQuerystring {
+  entityId?: string;
+  recordId?: string;
+  userId?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+  limit?: string;
+  offset?: string;
+}
+
+/**
+ * Load the app and check the caller may see its audit log
+ * Apps with an owner are only visible to that owner.
+ */
+async function ensureAuditAccess(
+  appId: string,
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<App | null> {
+  const app = await appRepository.findById(appId);
+  if (!app) {
+    reply.code(404).send({
+      success: false,
+      error: 'App not found',
+    });
+    return null;
+  }
+
+  if (app.userId) {
+    const user = await getUserFromRequest(request);
+    if (!user) {
+      reply.code(401).send({
+        success: false,
+        error: 'Authentication required',
+      });
+      return null;
+    }
+    if (user.id !== app.userId) {
+      reply.code(403).send({
+        success: false,
+        error: 'Forbidden',
+        message: 'Only the app owner can view its audit log',
+      });
+      return null;
+    }
+  }
+
+  return app;
+}
+
+/**
+ * Parse an optional ISO date query parameter (undefined when missing, null when invalid)
+ */
+function parseDate(value: string | undefined): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Register audit routes
+ */
+export async function registerAuditRoutes(server: FastifyInstance): Promise<void> {
+  /**
+   * Query the audit log of an app
+   * GET /api/apps/:appId/audit?entityId=&recordId=&userId=&action=&from=&to=&limit=&offset=
+   */
+  server.get<{ Params: { appId: string }; Querystring: AuditLogQuerystring }>(
+    '/api/apps/:appId/audit',
+    async (request, reply) => {
+      try {
+        const { appId } = request.params;
+        if (!(await ensureAuditAccess(appId, request, reply))) return;
+        if (!(await checkDbAvailable(reply))) return;
+
+        const { entityId, recordId, userId, action, limit, offset } = request.query;
+        const from = parseDate(request.query.from);
+        const to = parseDate(request.query.to);
+
+        if (from === null || to === null) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid date',
+            message: 'from and to must be ISO dates',
+          });
+        }
+        if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid action',
+            message: `action must be one of: ${AUDIT_ACTIONS.join(', ')}`,
+          });
+        }
+
+        const db = await getDbService();
+        const result = await db.queryAuditLog(appId, {
+          entityId,
+          recordId,
+          userId,
+          action: action as AuditAction | undefined,
+          from,
+          to,
+          limit: limit ? parseInt(limit, 10) || undefined : undefined,
+          offset: offset ? parseInt(offset, 10) || 0 : 0,
+        });
+
+        return reply.send({
+          success: true,
+          entries: result.entries,
+          total: result.total,
+        });
+      } catch (error: any) {
+        logger.error('Failed to query audit log', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to query audit log',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Get audit settings for an app
+   * GET /api/apps/:appId/audit/settings
+   */
+  server.get<{ Params: { appId: string } }>(
+    '/api/apps/:appId/audit/settings',
+    async (request, reply) => {
+      try {
+        const app = await ensureAuditAccess(request.params.appId, request, reply);
+        if (!app) return;
+
+        return reply.send({
+          success: true,
+          settings: auditSettingsOf(app),
+        });
+      } catch (error: any) {
+        logger.error('Failed to get audit settings', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to get audit settings',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Update audit settings for an app
+   * PUT /api/apps/:appId/audit/settings
+   */
+  server.put<{ Params: { appId: string }; Body: { retentionDays?: number | null } }>(
+    '/api/apps/:appId/audit/settings',
+    async (request, reply) => {
+      try {
+        const app = await ensureAuditAccess(request.params.appId, request, reply);
+        if (!app) return;
+
+        const retentionDays = request.body?.retentionDays ?? null;
+        if (retentionDays !== null && (!Number.isInteger(retentionDays) || retentionDays < 1)) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid retention',
+            message: 'retentionDays must be a positive whole number of days, or null to keep entries forever',
+          });
+        }
+
+        const settings = { ...auditSettingsOf(app), retentionDays };
+        await saveAuditSettings(app, settings);
+
+        logger.info('Audit settings updated', { appId: app.id, retentionDays });
+
+        return reply.send({
+          success: true,
+          settings,
+        });
+      } catch (error: any) {
+        logger.error('Failed to update audit settings', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to update audit settings',
+          message: error.message,
+        });
+      }
+    }
+  );
+}
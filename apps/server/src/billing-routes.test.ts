@@ -0,0 +1,105 @@
+import { describe, expect, test, vi } from "vitest";
+import Fastify from "fastify";
+import { CompositeAIProvider, CostLimitError, withCostAttribution, type AIProvider } from "@neo/ai-engine";
+
+// Signed in as the user named in the x-user header
+vi.mock("./auth-routes.js", () => ({
+  getUserWithSubscriptionFromRequest: async (request: any) => {
+    const id = request.headers["x-user"];
+    return id ? { id, email: `${id}@example.com` } : null;
+  },
+}));
+
+const { registerBillingRoutes } = await import("./billing-routes.js");
+const { aiUsageService } = await import("./services/ai-usage-service.js");
+
+const params = { prompt: "Add a tips field", maxTokens: 1000, temperature: 0, timeout: 1000 };
+
+/** Paid provider using 70k tokens at $0.05 per call, and a free fallback */
+function provider() {
+  const paid: AIProvider & { calls: number } = {
+    calls: 0,
+    async complete(_params, onCost) {
+      paid.calls++;
+      onCost?.(70_000, { prompt: 60_000, completion: 10_000 });
+      return "AI";
+    },
+  };
+  const composite = new CompositeAIProvider({
+    providers: [
+      { name: "openai", model: "gpt-4o-mini", provider: paid, pricing: () => 0.05 },
+      { name: "mock", provider: { complete: async () => "Mock" } },
+    ],
+    usageMeter: aiUsageService,
+  });
+  return { paid, composite };
+}
+
+async function server() {
+  const app = Fastify();
+  await registerBillingRoutes(app);
+  return app;
+}
+
+describe("AI usage quotas", () => {
+  test("charges calls to users and stops free-plan calls at the monthly token quota", async () => {
+    const { paid, composite } = provider();
+    const asUser = (userId: string | undefined) =>
+      withCostAttribution({ userId, appId: "app-1", operation: "modify" }, () => composite.complete(params));
+
+    // Free plan: 200k tokens a month, hard limit
+    for (let call = 0; call < 3; call++) {
+      expect(await asUser("free-user")).toBe("AI");
+    }
+    await expect(asUser("free-user")).rejects.toMatchObject({ name: "CostLimitError", limit: "hard", metric: "tokens" });
+    await expect(asUser("free-user")).rejects.toBeInstanceOf(CostLimitError);
+    expect(paid.calls).toBe(3);
+
+    // Other users are not affected
+    expect(await asUser("other-user")).toBe("AI");
+
+    // Guests get the guest quota (50k tokens a month) by IP address
+    const asGuest = (clientKey: string) =>
+      withCostAttribution({ clientKey, operation: "discovery" }, () => composite.complete(params));
+    expect(await asGuest("203.0.113.7")).toBe("AI");
+    await expect(asGuest("203.0.113.7")).rejects.toMatchObject({ limit: "hard", metric: "tokens" });
+    expect(await asGuest("203.0.113.8")).toBe("AI");
+    expect(paid.calls).toBe(6);
+
+    const app = await server();
+    const usage = (await app.inject({ method: "GET", url: "/billing/usage", headers: { "x-user": "free-user" } })).json().usage;
+    expect(usage).toMatchObject({
+      planId: "free",
+      used: { tokens: 210_000, calls: 3 },
+      quota: { monthlyTokens: 200_000, enforcement: "hard" },
+      remaining: { tokens: 0 },
+      limitReached: true,
+      byApp: [expect.objectContaining({ appId: "app-1", tokens: 210_000 })],
+      byOperation: [expect.objectContaining({ operation: "modify", calls: 3 })],
+    });
+    expect(usage.used.cost).toBeCloseTo(0.15);
+
+    expect((await app.inject({ method: "GET", url: "/billing/usage" })).statusCode).toBe(401);
+  });
+
+  test("reports usage across users to admins only", async () => {
+    process.env.ADMIN_EMAILS = "Admin@example.com";
+    const app = await server();
+
+    const forbidden = await app.inject({ method: "GET", url: "/billing/usage/report", headers: { "x-user": "free-user" } });
+    expect(forbidden.statusCode).toBe(403);
+
+    // The calls made in the test above
+    const report = (await app.inject({ method: "GET", url: "/billing/usage/report", headers: { "x-user": "admin" } })).json().report;
+    expect(report.totals).toMatchObject({ tokens: 420_000, calls: 6 });
+    expect(report.byUser).toEqual(expect.arrayContaining([
+      expect.objectContaining({ userId: "free-user", calls: 3 }),
+      expect.objectContaining({ userId: null, calls: 2 }),
+    ]));
+    expect(report.byModel).toEqual([expect.objectContaining({ model: "gpt-4o-mini", calls: 6 })]);
+
+    const invalid = await app.inject({ method: "GET", url: "/billing/usage/report?from=soon", headers: { "x-user": "admin" } });
+    expect(invalid.statusCode).toBe(400);
+    delete process.env.ADMIN_EMAILS;
+  });
+});
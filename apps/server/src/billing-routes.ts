@@ -6,7 +6,9 @@
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { logger } from './utils/logger.js';
+import { config } from './config.js';
 import { billingService } from './services/billing-service.js';
+import { aiUsageService, monthOf } from './services/ai-usage-service.js';
 import { getUserWithSubscriptionFromRequest } from './auth-routes.js';
 
 // ============================================================
@@ -18,6 +20,11 @@ interface CheckoutRequest {
   interval: 'monthly' | 'yearly';
 }
 
+interface UsageReportQuery {
+  from?: string;
+  to?: string;
+}
+
 // ============================================================
 // BILLING ROUTES
 // ============================================================
@@ -117,6 +124,87 @@ export async function registerBillingRoutes(server: FastifyInstance): Promise<vo
     }
   });
 
+  /**
+   * Get AI usage this month against the plan's AI quota
+   * GET /billing/usage
+   */
+  server.get('/billing/usage', async (request, reply) => {
+    try {
+      const user = await getUserWithSubscriptionFromRequest(request);
+      
+      if (!user) {
+        return reply.code(401).send({
+          success: false,
+          error: 'Not authenticated',
+        });
+      }
+      
+      const usage = await aiUsageService.getUsage(user.id);
+      
+      return reply.send({
+        success: true,
+        usage,
+      });
+    } catch (error: any) {
+      logger.error('Failed to get AI usage', error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to get usage',
+        message: error.message,
+      });
+    }
+  });
+
+  /**
+   * AI usage across all users (admins only), this month by default
+   * GET /billing/usage/report?from=2026-10-01&to=2026-11-01
+   */
+  server.get<{ Querystring: UsageReportQuery }>('/billing/usage/report', async (request, reply) => {
+    try {
+      const user = await getUserWithSubscriptionFromRequest(request);
+      
+      if (!user) {
+        return reply.code(401).send({
+          success: false,
+          error: 'Not authenticated',
+        });
+      }
+      
+      if (!config.adminEmails.includes(user.email.toLowerCase())) {
+        return reply.code(403).send({
+          success: false,
+          error: 'Admin access required',
+        });
+      }
+      
+      const month = monthOf();
+      const from = request.query.from ? new Date(request.query.from) : month.start;
+      const to = request.query.to ? new Date(request.query.to) : month.end;
+      
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid period',
+          message: 'from and to must be dates, with from before to',
+        });
+      }
+      
+      const report = await aiUsageService.getReport(from, to);
+      
+      return reply.send({
+        success: true,
+        report,
+      });
+    } catch (error: any) {
+      logger.error('Failed to get AI usage report', error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to get usage report',
+        message: error.message,
+      });
+    }
+  });
+
   /**
    * Create checkout session
    * POST /billing/checkout
@@ -0,0 +1,303 @@
+/**
+ * Comment Routes
+ *
+ * API routes for threaded discussions on records of `commentable` entities.
+ * Who may comment, edit and delete is decided by the runtime PermissionsService;
+ * comments on a record are only reachable by users who can read the record.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { hasRolePermission } from '@neo/blueprint-engine';
+import {
+  CommentNotFoundError,
+  CommentPermissionError,
+  CommentValidationError,
+  CommentsService,
+  getEventBus,
+  type PermissionsService,
+} from '@neo/runtime';
+import { logger } from './utils/logger.js';
+import { getUserFromRequest } from './auth-routes.js';
+import { canReadRecord, checkDbAvailable, getDbService } from './database-routes.js';
+import { extractUserContext, type UserContext } from './permissions-middleware.js';
+import { createAppPermissions, getAppMemberIds } from './permissions-routes.js';
+import { appRepository, type App } from './repositories/app-repository.js';
+import { commentRepository } from './repositories/comment-repository.js';
+import { userRepository } from './repositories/user-repository.js';
+import { hasModelBehavior } from './services/model-behaviors.js';
+import type { User } from './types/database.js';
+
+interface CommentRequestContext {
+  app: App;
+  user: User | null;
+  permissions: PermissionsService;
+  comments: CommentsService;
+}
+
+/**
+ * Resolve @handles (email or the part before the @) to the owner and members of an app
+ */
+async function resolveAppMentions(app: App, handles: string[]): Promise<string[]> {
+  const memberIds = new Set(getAppMemberIds(app.id));
+  if (app.userId) memberIds.add(app.userId);
+
+  const wanted = new Set(handles.map(handle => handle.toLowerCase()));
+  const mentioned: string[] = [];
+
+  for (const memberId of memberIds) {
+    const member = await userRepository.findById(memberId);
+    if (!member) continue;
+    const email = member.email.toLowerCase();
+    if (wanted.has(email) || wanted.has(email.split('@')[0])) {
+      mentioned.push(member.id);
+    }
+  }
+
+  return mentioned;
+}
+
+/**
+ * Load the app and set up the comments service for the caller
+ */
+async function loadCommentContext(
+  appId: string,
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<CommentRequestContext | null> {
+  const app = await appRepository.findById(appId);
+  if (!app) {
+    reply.code(404).send({
+      success: false,
+      error: 'App not found',
+    });
+    return null;
+  }
+
+  const user = await getUserFromRequest(request);
+  const permissions = createAppPermissions(app, user);
+  const comments = new CommentsService(commentRepository, {
+    appId,
+    permissions,
+    eventBus: getEventBus(),
+    resolveMentions: handles => resolveAppMentions(app, handles),
+  });
+
+  return { app, user, permissions, comments };
+}
+
+/**
+ * Check the entity has the `commentable` behavior
+ */
+function ensureCommentable(context: CommentRequestContext, entityId: string, reply: FastifyReply): boolean {
+  if (!hasModelBehavior(context.app, entityId, 'commentable')) {
+    reply.code(400).send({
+      success: false,
+      error: 'Comments not enabled',
+      message: `Entity ${entityId} is not commentable`,
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check the caller is signed in
+ */
+function ensureSignedIn(context: CommentRequestContext, reply: FastifyReply): context is CommentRequestContext & { user: User } {
+  if (!context.user) {
+    reply.code(401).send({
+      success: false,
+      error: 'Authentication required',
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check the record exists and the caller can read it under the row access rules
+ * (hidden records look the same as missing ones)
+ */
+async function ensureRecordVisible(
+  context: CommentRequestContext & { user: User },
+  request: FastifyRequest,
+  entityId: string,
+  recordId: string,
+  reply: FastifyReply
+): Promise<boolean> {
+  if (!(await checkDbAvailable(reply))) return false;
+  await getDbService();
+
+  const userContext: UserContext = extractUserContext(request) ?? {
+    userId: context.user.id,
+    role: context.permissions.getCurrentRole() as UserContext['role'],
+    appId: context.app.id,
+  };
+  if (!(await canReadRecord(context.app.id, entityId, recordId, userContext))) {
+    reply.code(404).send({
+      success: false,
+      error: 'Not found',
+      message: `Record ${recordId} not found`,
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Send the response for a failed comment operation
+ */
+function sendCommentError(reply: FastifyReply, error: any, failure: string) {
+  if (error instanceof CommentPermissionError) {
+    return reply.code(403).send({
+      success: false,
+      error: 'Permission denied',
+      message: error.message,
+    });
+  }
+  if (error instanceof CommentNotFoundError) {
+    return reply.code(404).send({
+      success: false,
+      error: 'Comment not found',
+      message: error.message,
+    });
+  }
+  if (error instanceof CommentValidationError) {
+    return reply.code(400).send({
+      success: false,
+      error: 'Invalid comment',
+      message: error.message,
+    });
+  }
+
+  logger.error(failure, error);
+  return reply.code(500).send({
+    success: false,
+    error: failure,
+    message: error.message,
+  });
+}
+
+/**
+ * Register comment routes
+ */
+export async function registerCommentRoutes(server: FastifyInstance): Promise<void> {
+  /**
+   * List comment threads on a record
+   * GET /api/apps/:appId/entities/:entityId/records/:recordId/comments
+   */
+  server.get<{ Params: { appId: string; entityId: string; recordId: string } }>(
+    '/api/apps/:appId/entities/:entityId/records/:recordId/comments',
+    async (request, reply) => {
+      try {
+        const { appId, entityId, recordId } = request.params;
+        const context = await loadCommentContext(appId, request, reply);
+        if (!context) return;
+        if (!ensureCommentable(context, entityId, reply)) return;
+        if (!ensureSignedIn(context, reply)) return;
+
+        if (!hasRolePermission(context.permissions.getCurrentRole(), 'viewer') && !context.comments.canComment(entityId)) {
+          return reply.code(403).send({
+            success: false,
+            error: 'Permission denied',
+            message: 'You do not have access to comments on this record',
+          });
+        }
+        if (!(await ensureRecordVisible(context, request, entityId, recordId, reply))) return;
+
+        const threads = await context.comments.listThreads(entityId, recordId);
+        return reply.send({
+          success: true,
+          threads,
+          canComment: context.comments.canComment(entityId),
+          userId: context.user.id,
+        });
+      } catch (error: any) {
+        return sendCommentError(reply, error, 'Failed to list comments');
+      }
+    }
+  );
+
+  /**
+   * Add a comment, or a reply to a thread
+   * POST /api/apps/:appId/entities/:entityId/records/:recordId/comments
+   */
+  server.post<{
+    Params: { appId: string; entityId: string; recordId: string };
+    Body: { body: string; parentId?: string };
+  }>(
+    '/api/apps/:appId/entities/:entityId/records/:recordId/comments',
+    async (request, reply) => {
+      try {
+        const { appId, entityId, recordId } = request.params;
+        const context = await loadCommentContext(appId, request, reply);
+        if (!context) return;
+        if (!ensureCommentable(context, entityId, reply)) return;
+        if (!ensureSignedIn(context, reply)) return;
+        if (!(await ensureRecordVisible(context, request, entityId, recordId, reply))) return;
+
+        const comment = await context.comments.add(
+          { id: context.user.id, name: context.user.name ?? context.user.email },
+          { entityId, recordId, body: request.body?.body, parentId: request.body?.parentId }
+        );
+
+        logger.info('Comment added', { appId, entityId, recordId, commentId: comment.id });
+        return reply.code(201).send({
+          success: true,
+          comment,
+        });
+      } catch (error: any) {
+        return sendCommentError(reply, error, 'Failed to add comment');
+      }
+    }
+  );
+
+  /**
+   * Edit a comment
+   * PUT /api/apps/:appId/comments/:commentId
+   */
+  server.put<{ Params: { appId: string; commentId: string }; Body: { body: string } }>(
+    '/api/apps/:appId/comments/:commentId',
+    async (request, reply) => {
+      try {
+        const { appId, commentId } = request.params;
+        const context = await loadCommentContext(appId, request, reply);
+        if (!context) return;
+        if (!ensureSignedIn(context, reply)) return;
+
+        const comment = await context.comments.edit({ id: context.user.id }, commentId, request.body?.body);
+        return reply.send({
+          success: true,
+          comment,
+        });
+      } catch (error: any) {
+        return sendCommentError(reply, error, 'Failed to edit comment');
+      }
+    }
+  );
+
+  /**
+   * Delete a comment and its replies
+   * DELETE /api/apps/:appId/comments/:commentId
+   */
+  server.delete<{ Params: { appId: string; commentId: string } }>(
+    '/api/apps/:appId/comments/:commentId',
+    async (request, reply) => {
+      try {
+        const { appId, commentId } = request.params;
+        const context = await loadCommentContext(appId, request, reply);
+        if (!context) return;
+        if (!ensureSignedIn(context, reply)) return;
+
+        await context.comments.delete({ id: context.user.id }, commentId);
+
+        logger.info('Comment deleted', { appId, commentId });
+        return reply.send({
+          success: true,
+        });
+      } catch (error: any) {
+        return sendCommentError(reply, error, 'Failed to delete comment');
+      }
+    }
+  );
+}
@@ -35,7 +35,15 @@ export const config = {
   get databaseEnabled() {
     return !!this.databaseUrl;
   },
-  
+
+  // App Storage - 'memory', 'sqlite' or 'postgres' (defaults to postgres when a database is configured)
+  get appStoreDriver() {
+    return process.env.APP_STORE || (this.databaseEnabled ? 'postgres' : 'sqlite');
+  },
+  get appStorePath() {
+    return process.env.APP_STORE_PATH;
+  },
+
   // OAuth Configuration
   get googleClientId() {
     return process.env.GOOGLE_CLIENT_ID;
@@ -57,6 +65,82 @@ export const config = {
   get jwtExpiresIn() {
     return process.env.JWT_EXPIRES_IN || '7d';
   },
+
+  // Integration Secrets (master key that encrypts integration settings at rest)
+  // The public development key is only used when NODE_ENV=development is set explicitly
+  get integrationsMasterKey() {
+    return process.env.INTEGRATIONS_MASTER_KEY
+      || (process.env.NODE_ENV === 'development' ? 'neo-dev-integrations-key-change-in-production' : undefined);
+  },
+  get integrationsPreviousMasterKeys() {
+    // Retired keys, comma-separated; still accepted for decryption during rotation
+    return (process.env.INTEGRATIONS_PREVIOUS_MASTER_KEYS || '').split(',').map(key => key.trim()).filter(Boolean);
+  },
+  
+  // Attachments - 'local' (disk) or 's3' (any S3-compatible store)
+  get attachmentStore() {
+    return process.env.ATTACHMENT_STORE || 'local';
+  },
+  get attachmentDir() {
+    return process.env.ATTACHMENT_DIR;
+  },
+  get attachmentMaxBytes() {
+    return parseInt(process.env.ATTACHMENT_MAX_BYTES || String(10 * 1024 * 1024), 10);
+  },
+  get attachmentAllowedTypes() {
+    // Comma-separated MIME types; `image/*` style wildcards are allowed
+    return (process.env.ATTACHMENT_ALLOWED_TYPES || '').split(',').map(type => type.trim()).filter(Boolean);
+  },
+  get attachmentUrlSecret() {
+    return process.env.ATTACHMENT_URL_SECRET || this.jwtSecret;
+  },
+  get attachmentUrlTtlSeconds() {
+    return parseInt(process.env.ATTACHMENT_URL_TTL_SECONDS || '900', 10);
+  },
+  get s3Endpoint() {
+    return process.env.S3_ENDPOINT;
+  },
+  get s3Region() {
+    return process.env.S3_REGION || 'us-east-1';
+  },
+  get s3Bucket() {
+    return process.env.S3_BUCKET;
+  },
+  get s3AccessKeyId() {
+    return process.env.S3_ACCESS_KEY_ID;
+  },
+  get s3SecretAccessKey() {
+    return process.env.S3_SECRET_ACCESS_KEY;
+  },
+
+  // Spreadsheet imports (CSV/XLSX)
+  get importMaxBytes() {
+    return parseInt(process.env.IMPORT_MAX_BYTES || String(20 * 1024 * 1024), 10);
+  },
+
+  // Data exports (CSV/XLSX/JSON/PDF)
+  get exportMaxRows() {
+    return parseInt(process.env.EXPORT_MAX_ROWS || '100000', 10);
+  },
+  
+  // Discovery conversations (kept server-side so users can come back to them)
+  get discoveryConversationTtlDays() {
+    return parseInt(process.env.DISCOVERY_CONVERSATION_TTL_DAYS || '14', 10);
+  },
+  
+  // Monthly AI quota of each guest (calls without a signed-in user, counted by IP address)
+  get guestAIQuota() {
+    return {
+      monthlyTokens: parseInt(process.env.AI_GUEST_MONTHLY_TOKENS || '50000', 10),
+      monthlyDollars: parseFloat(process.env.AI_GUEST_MONTHLY_DOLLARS || '0.1'),
+      enforcement: 'hard' as const,
+    };
+  },
+
+  // Accounts allowed to see usage across all users (comma-separated emails)
+  get adminEmails() {
+    return (process.env.ADMIN_EMAILS || '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean);
+  },
   
   // Stripe Configuration
   get stripeSecretKey() {
@@ -98,6 +182,14 @@ export const config = {
     },
   },
   
+  // Workflow Scheduler
+  get workflowSchedulerEnabled() {
+    return process.env.WORKFLOW_SCHEDULER_ENABLED !== 'false';
+  },
+  workflowScheduler: {
+    intervalMs: 30000, // Checks twice a minute so no cron minute is skipped
+  },
+  
   // Sentry Configuration
   get sentryDsn() {
     return process.env.SENTRY_DSN;
@@ -5,11 +5,35 @@
  * PERMISSION ENFORCEMENT:
  * - User context extracted from request headers/cookies
  * - Row-level security applied automatically for tenant/member portals
+ * - Row access rules compiled into the SQL query, so lists and counts only see visible rows
  * - Field-level restrictions based on user role
+ *
+ * TAGS:
+ * - Records of `taggable` entities carry their tags; lists filter by `?tags=<id>,<id>&tagMatch=any|all`
+ * - Vocabulary and tagging routes live in tag-routes.ts
+ *
+ * MANUAL ORDER:
+ * - Records of `sortable` entities list in their drag-and-drop order; moving one re-ranks only that record
+ *
+ * SEARCH:
+ * - Full-text search across the app's `searchable` entities, each scoped like a list of that entity
+ *
+ * AUDIT LOG & VERSIONS:
+ * - Writes to entities with the `auditable` behavior are recorded per app with the writing user
+ * - Creates and updates of `versionable` entities save a snapshot that can be diffed and restored
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { QueryCondition } from '@neo/database';
+import type { EntityWriteContext } from '@neo/contracts';
+import { hasRolePermission, ROLE_HIERARCHY, type NeoRole } from '@neo/blueprint-engine';
 import { logger } from './utils/logger.js';
+import { getConfiguredPermissions } from './permissions-routes.js';
+import { startHookWorkflow } from './services/workflow-runner.js';
+import { getAuditRetentionDays } from './services/audit-settings.js';
+import { recordVersionRepository } from './repositories/record-version-repository.js';
+import { appRepository } from './repositories/app-repository.js';
+import { modelIdsWithBehavior } from './services/model-behaviors.js';
 import {
   extractUserContext,
   checkPermission,
@@ -23,6 +47,8 @@ import {
 // Import types - actual database service will be lazily loaded
 let DatabaseService: typeof import('@neo/database').DatabaseService | null = null;
 let dbService: InstanceType<typeof import('@neo/database').DatabaseService> | null = null;
+let accessFilterCompiler: typeof import('@neo/database').accessFilterCompiler | null = null;
+let diffRecords: typeof import('@neo/database').diffRecords | null = null;
 
 // Extend request type to include permission context
 declare module 'fastify' {
@@ -36,13 +62,18 @@ declare module 'fastify' {
 /**
  * Initialize database service
  */
-async function getDbService(): Promise<InstanceType<typeof import('@neo/database').DatabaseService>> {
+export async function getDbService(): Promise<InstanceType<typeof import('@neo/database').DatabaseService>> {
   if (dbService) return dbService;
   
   try {
     const dbModule = await import('@neo/database');
     DatabaseService = dbModule.DatabaseService;
+    accessFilterCompiler = dbModule.accessFilterCompiler;
+    diffRecords = dbModule.diffRecords;
     dbService = new DatabaseService();
+    dbService.setHookWorkflowStarter(startHookWorkflow);
+    dbService.setAuditRetentionResolver(getAuditRetentionDays);
+    dbService.setVersionStore(recordVersionRepository);
     
     // Check if database connection is configured
     const hasDbConfig = process.env.DATABASE_URL || process.env.NEO_DB_URL || process.env.NEO_DB_HOST;
@@ -60,10 +91,122 @@ async function getDbService(): Promise<InstanceType<typeof import('@neo/database
   }
 }
 
+/**
+ * Compile the app's row access rules for an entity into a query filter
+ * Users without a context are treated as the app's default role. Returns undefined
+ * when the entity has no row rules; call after getDbService().
+ */
+export async function getRowAccessFilter(
+  appId: string,
+  entityId: string,
+  userContext: UserContext | undefined
+): Promise<QueryCondition | undefined> {
+  const permissions = await getConfiguredPermissions(appId);
+  if (!permissions?.rules?.length || !accessFilterCompiler) return undefined;
+
+  const role = (userContext?.role ?? permissions.defaultRole) as NeoRole;
+  const filter = accessFilterCompiler.compileRules(permissions.rules, entityId, {
+    userId: userContext?.userId,
+    role,
+    hasRole: (ruleRole) => Object.prototype.hasOwnProperty.call(ROLE_HIERARCHY, role) &&
+      Object.prototype.hasOwnProperty.call(ROLE_HIERARCHY, ruleRole) &&
+      hasRolePermission(role, ruleRole as NeoRole),
+  });
+
+  return filter ?? undefined;
+}
+
+/**
+ * Who is writing, as seen by entity hooks
+ */
+function writeContext(appId: string, userContext: UserContext | undefined | null): EntityWriteContext {
+  return {
+    appId,
+    user: userContext ? { id: userContext.userId, role: userContext.role } : undefined,
+  };
+}
+
+/**
+ * Check a record exists and the caller can see it: it matches the permission's
+ * ownership filter and the row access rules (call after getDbService())
+ */
+async function isRecordVisible(
+  appId: string,
+  entityId: string,
+  recordId: string,
+  userContext: UserContext | undefined,
+  ownershipFilter: Record<string, unknown> | undefined,
+  options: { withDeleted?: boolean } = {}
+): Promise<boolean> {
+  const accessFilter = await getRowAccessFilter(appId, entityId, userContext);
+  const result = await dbService!.findById(entityId, recordId, { accessFilter, withDeleted: options.withDeleted });
+  if (!result.found) return false;
+  const record = result.data as Record<string, unknown>;
+  return Object.entries(ownershipFilter ?? {}).every(([field, value]) => record[field] === value);
+}
+
+/**
+ * Check the caller may read a record: read permission and the record visible
+ * to them (call after getDbService())
+ */
+export async function canReadRecord(
+  appId: string,
+  entityId: string,
+  recordId: string,
+  userContext: UserContext | undefined
+): Promise<boolean> {
+  const permissionCheck = checkPermission(userContext, entityId, 'read');
+  return permissionCheck.allowed && isRecordVisible(appId, entityId, recordId, userContext, permissionCheck.filter);
+}
+
+/**
+ * Send a 403 when the caller may not read an entity's records
+ */
+function sendReadForbidden(reply: FastifyReply, allowed: boolean): boolean {
+  if (allowed) return false;
+  reply.code(403).send({
+    success: false,
+    error: 'Forbidden',
+    message: 'You do not have permission to access this record',
+  });
+  return true;
+}
+
+/**
+ * Send a 400 when an entity before-hook rejected the write
+ */
+function sendHookRejection(reply: FastifyReply, error: Error): boolean {
+  if (error.name !== 'EntityHookRejectedError') return false;
+  reply.code(400).send({
+    success: false,
+    error: 'Rejected',
+    message: error.message,
+  });
+  return true;
+}
+
+/**
+ * Parse the `filter` query parameter of record lists: JSON (one filter or an
+ * array) or comma-separated field=value pairs
+ */
+export function parseFilterParam(filter: string | undefined): any[] | undefined {
+  if (!filter) return undefined;
+  try {
+    const parsed = JSON.parse(filter);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    // Try parsing as key=value
+    return filter.split(',').map(part => {
+      const [field, value] = part.split('=');
+      return { field, operator: 'eq', value };
+    });
+  }
+}
+
 /**
  * Check if database is available
  */
-async function checkDbAvailable(reply: FastifyReply): Promise<boolean> {
+export async function checkDbAvailable(reply: FastifyReply): Promise<boolean> {
   const hasDbConfig = process.env.DATABASE_URL || process.env.NEO_DB_URL || process.env.NEO_DB_HOST;
   if (!hasDbConfig) {
     reply.code(503).send({
@@ -171,7 +314,7 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
         }
 
         const db = await getDbService();
-        const result = await db.create(entityId, data);
+        const result = await db.create(entityId, data, { context: writeContext(appId, userContext) });
 
         logger.info('Record created', { 
           appId, 
@@ -187,6 +330,8 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
       } catch (error: any) {
         logger.error('Create record failed', error);
         
+        if (sendHookRejection(reply, error)) return;
+
         // Handle validation errors specially
         if (error.name === 'ValidationError') {
           return reply.code(400).send({
@@ -222,7 +367,9 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
         const { records } = request.body;
 
         const db = await getDbService();
-        const result = await db.createMany(entityId, records);
+        const result = await db.createMany(entityId, records, {
+          context: writeContext(appId, extractUserContext(request)),
+        });
 
         logger.info('Bulk create completed', { appId, entityId, inserted: result.inserted });
 
@@ -262,6 +409,8 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
       filter?: string;
       include?: string;
       select?: string;
+      tags?: string;
+      tagMatch?: string;
     };
   }>(
     '/db/apps/:appId/entities/:entityId/records',
@@ -270,7 +419,7 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
 
       try {
         const { appId, entityId } = request.params;
-        const { page, limit, sort, sortDir, filter, include, select } = request.query;
+        const { page, limit, sort, sortDir, filter, include, select, tags, tagMatch } = request.query;
 
         // === PERMISSION CHECK ===
         const userContext = extractUserContext(request);
@@ -295,20 +444,7 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
         const offset = (pageNum - 1) * limitNum;
 
         // Parse filters (JSON string or key=value pairs)
-        let filters: any[] | undefined;
-        if (filter) {
-          try {
-            const parsed = JSON.parse(filter);
-            filters = Array.isArray(parsed) ? parsed : [parsed];
-          } catch {
-            // Try parsing as key=value
-            const parts = filter.split(',');
-            filters = parts.map(part => {
-              const [field, value] = part.split('=');
-              return { field, operator: 'eq', value };
-            });
-          }
-        }
+        let filters = parseFilterParam(filter);
 
         // === APPLY PERMISSION FILTER ===
         // Merge user filters with permission-based row filters
@@ -322,8 +458,25 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
         const selectFields = select ? select.split(',').map(s => s.trim()) : undefined;
 
         const db = await getDbService();
+
+        // Tag filter (comma-separated tag ids; any by default, tagMatch=all for every tag)
+        const tagIds = tags ? tags.split(',').map(t => t.trim()).filter(Boolean) : [];
+        if (tagIds.length > 0 && !db.isTaggable(entityId)) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Not taggable',
+            message: `${entityId} does not have the taggable behavior`,
+          });
+        }
+
+        // === APPLY ROW ACCESS RULES ===
+        // Compiled into the query so hidden rows are neither returned nor counted
+        const accessFilter = await getRowAccessFilter(appId, entityId, userContext);
+
         const result = await db.findMany(entityId, {
           filters,
+          accessFilter,
+          tags: tagIds.length > 0 ? { tagIds, match: tagMatch === 'all' ? 'all' : 'any' } : undefined,
           sorts: sort ? [{ field: sort, direction: (sortDir as 'asc' | 'desc') || 'asc' }] : undefined,
           pagination: { offset, limit: limitNum },
           include: includes,
@@ -402,7 +555,9 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
         const includes = include ? include.split(',').map(r => ({ relation: r.trim() })) : undefined;
 
         const db = await getDbService();
-        const result = await db.findById(entityId, recordId, { include: includes });
+        const accessFilter = await getRowAccessFilter(appId, entityId, userContext);
+        // Rows hidden by access rules look the same as missing ones
+        const result = await db.findById(entityId, recordId, { include: includes, accessFilter });
 
         if (!result.found) {
           return reply.code(404).send({
@@ -462,8 +617,8 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
    * 
    * PERMISSION ENFORCEMENT:
    * - Checks if user has update permission
-   * - Verifies ownership before allowing update
-   * - Filters input fields based on permissions
+   * - Verifies ownership and row access before allowing update
+   * - Filters input and returned fields based on permissions
    */
   server.put<{
     Params: { appId: string; entityId: string; recordId: string };
@@ -497,26 +652,14 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
 
         const db = await getDbService();
 
-        // === VERIFY OWNERSHIP ===
-        if (permissionCheck.filter) {
-          const existing = await db.findById(entityId, recordId);
-          if (existing.found && existing.data) {
-            const record = existing.data as Record<string, unknown>;
-            for (const [field, expectedValue] of Object.entries(permissionCheck.filter)) {
-              if (record[field] !== expectedValue) {
-                logger.warn('Ownership verification failed for update', { 
-                  userId: userContext?.userId, 
-                  entityId, 
-                  recordId 
-                });
-                return reply.code(403).send({
-                  success: false,
-                  error: 'Forbidden',
-                  message: 'You do not have permission to update this record',
-                });
-              }
-            }
-          }
+        // === VERIFY OWNERSHIP AND ROW ACCESS ===
+        // Hidden records look the same as missing ones
+        if (!(await isRecordVisible(appId, entityId, recordId, userContext, permissionCheck.filter))) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Not found',
+            message: `Record ${recordId} not found`,
+          });
         }
 
         // === FILTER INPUT FIELDS ===
@@ -524,7 +667,7 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
           data = filterFields(data, permissionCheck.rule);
         }
 
-        const result = await db.update(entityId, recordId, data);
+        const result = await db.update(entityId, recordId, data, { context: writeContext(appId, userContext) });
 
         logger.info('Record updated', { 
           appId, 
@@ -535,10 +678,14 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
 
         return reply.send({
           success: true,
-          record: result.data,
+          record: permissionCheck.rule
+            ? filterFields(result.data as Record<string, unknown>, permissionCheck.rule)
+            : result.data,
         });
       } catch (error: any) {
         logger.error('Update record failed', error);
+
+        if (sendHookRejection(reply, error)) return;
         
         if (error.name === 'ValidationError') {
           return reply.code(400).send({
@@ -575,11 +722,13 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
   }>(
     '/db/apps/:appId/entities/:entityId/records/:recordId',
     async (request, reply) => {
-      // Same as PUT for now
+      // Same as PUT for now, as the same caller
+      const { authorization, cookie } = request.headers;
       return server.inject({
         method: 'PUT',
         url: request.url,
         payload: request.body,
+        headers: { authorization, cookie, 'x-user-context': request.headers['x-user-context'] },
       });
     }
   );
@@ -587,6 +736,10 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
   /**
    * Delete a record
    * DELETE /db/apps/:appId/entities/:entityId/records/:recordId
+   *
+   * PERMISSION ENFORCEMENT:
+   * - Checks if user has delete permission
+   * - Verifies ownership and row access before deleting
    */
   server.delete<{
     Params: { appId: string; entityId: string; recordId: string };
@@ -598,8 +751,36 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
       try {
         const { appId, entityId, recordId } = request.params;
 
+        // === PERMISSION CHECK ===
+        const userContext = extractUserContext(request);
+        const permissionCheck = checkPermission(userContext, entityId, 'delete');
+
+        if (!permissionCheck.allowed) {
+          logger.warn('Permission denied for delete', {
+            userId: userContext?.userId,
+            role: userContext?.role,
+            entityId,
+            recordId,
+          });
+          return reply.code(403).send({
+            success: false,
+            error: 'Forbidden',
+            message: 'You do not have permission to delete this record',
+          });
+        }
+
         const db = await getDbService();
-        const result = await db.delete(entityId, recordId);
+        if (!(await isRecordVisible(appId, entityId, recordId, userContext, permissionCheck.filter))) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Not found',
+            message: `Record ${recordId} not found`,
+          });
+        }
+
+        const result = await db.delete(entityId, recordId, {
+          context: writeContext(appId, userContext),
+        });
 
         logger.info('Record deleted', { appId, entityId, recordId });
 
@@ -609,6 +790,8 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
         });
       } catch (error: any) {
         logger.error('Delete record failed', error);
+
+        if (sendHookRejection(reply, error)) return;
         
         if (error.message.includes('not found')) {
           return reply.code(404).send({
@@ -627,6 +810,159 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
     }
   );
 
+  /**
+   * Restore a soft-deleted record
+   * POST /db/apps/:appId/entities/:entityId/records/:recordId/restore
+   *
+   * Needs update permission on a record the caller could see before it was deleted.
+   */
+  server.post<{
+    Params: { appId: string; entityId: string; recordId: string };
+  }>(
+    '/db/apps/:appId/entities/:entityId/records/:recordId/restore',
+    async (request, reply) => {
+      if (!(await checkDbAvailable(reply))) return;
+
+      try {
+        const { appId, entityId, recordId } = request.params;
+
+        // === PERMISSION CHECK ===
+        const userContext = extractUserContext(request);
+        const permissionCheck = checkPermission(userContext, entityId, 'update');
+
+        if (!permissionCheck.allowed) {
+          logger.warn('Permission denied for restore', {
+            userId: userContext?.userId,
+            role: userContext?.role,
+            entityId,
+          });
+          return reply.code(403).send({
+            success: false,
+            error: 'Forbidden',
+            message: 'You do not have permission to restore this record',
+          });
+        }
+
+        const db = await getDbService();
+        const visible = await isRecordVisible(appId, entityId, recordId, userContext, permissionCheck.filter, {
+          withDeleted: true,
+        });
+        if (!visible) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Not found',
+            message: `Record ${recordId} not found`,
+          });
+        }
+
+        await db.restore(entityId, recordId, { context: writeContext(appId, userContext) });
+
+        logger.info('Record restored', { appId, entityId, recordId });
+
+        return reply.send({
+          success: true,
+          restoredId: recordId,
+        });
+      } catch (error: any) {
+        logger.error('Restore record failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Restore failed',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Move a record of a sortable entity between two neighbors
+   * POST /db/apps/:appId/entities/:entityId/records/:recordId/move  { previousId?, nextId? }
+   *
+   * With only one neighbor the record goes right beside it; with none it goes last.
+   * The record and its neighbors must be visible to the user.
+   */
+  server.post<{
+    Params: { appId: string; entityId: string; recordId: string };
+    Body: { previousId?: string | null; nextId?: string | null };
+  }>(
+    '/db/apps/:appId/entities/:entityId/records/:recordId/move',
+    async (request, reply) => {
+      if (!(await checkDbAvailable(reply))) return;
+
+      try {
+        const { appId, entityId, recordId } = request.params;
+        const previousId = request.body?.previousId || null;
+        const nextId = request.body?.nextId || null;
+
+        const db = await getDbService();
+        if (!db.isSortable(entityId)) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Not sortable',
+            message: `${entityId} does not have the sortable behavior`,
+          });
+        }
+
+        // === PERMISSION CHECK ===
+        const userContext = extractUserContext(request);
+        const permissionCheck = checkPermission(userContext, entityId, 'update');
+        if (!permissionCheck.allowed) {
+          return reply.code(403).send({
+            success: false,
+            error: 'Forbidden',
+            message: 'You do not have permission to reorder these records',
+          });
+        }
+
+        const { isUuid } = await import('@neo/database');
+        const ids = [recordId, previousId, nextId].filter((id): id is string => id !== null);
+        const invalid = ids.find(id => !isUuid(id));
+        if (invalid !== undefined) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid record id',
+            message: `Invalid record id: ${invalid}`,
+          });
+        }
+
+        // Hidden records look the same as missing ones
+        const visible = await db.count(entityId, {
+          filters: mergeFilters([{ field: 'id', operator: 'in', value: ids }], permissionCheck.filter) as any[],
+          accessFilter: await getRowAccessFilter(appId, entityId, userContext),
+        });
+        const moved = visible === new Set(ids).size
+          ? await db.move(entityId, recordId, { previousId, nextId })
+          : null;
+        if (!moved) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Not found',
+            message: 'The record or one of its neighbors was not found',
+          });
+        }
+
+        return reply.send({
+          success: true,
+          record: permissionCheck.rule ? filterFields(moved as Record<string, unknown>, permissionCheck.rule) : moved,
+        });
+      } catch (error: any) {
+        if (error.name === 'SortOrderError') {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid move',
+            message: error.message,
+          });
+        }
+        logger.error('Move record failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Move failed',
+          message: error.message,
+        });
+      }
+    }
+  );
+
   /**
    * Bulk delete records
    * POST /db/apps/:appId/entities/:entityId/records/delete
@@ -652,7 +988,9 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
         }
 
         const db = await getDbService();
-        const result = await db.deleteMany(entityId, filters as any);
+        const result = await db.deleteMany(entityId, filters as any, {
+          context: writeContext(appId, extractUserContext(request)),
+        });
 
         logger.info('Bulk delete completed', { appId, entityId, deletedCount: result.deletedCount });
 
@@ -662,6 +1000,7 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
         });
       } catch (error: any) {
         logger.error('Bulk delete failed', error);
+        if (sendHookRejection(reply, error)) return;
         return reply.code(500).send({
           success: false,
           error: 'Bulk delete failed',
@@ -671,6 +1010,295 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
     }
   );
 
+  // ============================================================
+  // SEARCH
+  // ============================================================
+
+  /**
+   * Ranked full-text search across the app's searchable entities
+   * GET /db/apps/:appId/search?q=smith&entities=customer,job&limit=20
+   *
+   * PERMISSION ENFORCEMENT:
+   * - Entities the user cannot read are skipped
+   * - Permission row filters and row access rules scope each entity's matches
+   * - Restricted fields are removed from the returned records
+   */
+  server.get<{
+    Params: { appId: string };
+    Querystring: { q?: string; entities?: string; limit?: string };
+  }>(
+    '/db/apps/:appId/search',
+    async (request, reply) => {
+      if (!(await checkDbAvailable(reply))) return;
+
+      try {
+        const { appId } = request.params;
+        const text = (request.query.q ?? '').trim();
+        const limitNum = Math.min(Math.max(parseInt(request.query.limit || '20', 10) || 20, 1), 50);
+
+        if (!text) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid query',
+            message: 'q is required',
+          });
+        }
+
+        const app = await appRepository.findById(appId);
+        if (!app) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Not found',
+            message: `App ${appId} not found`,
+          });
+        }
+
+        const requested = request.query.entities?.split(',').map(e => e.trim()).filter(Boolean);
+        const entityIds = modelIdsWithBehavior(app, 'searchable')
+          .filter(entityId => !requested || requested.includes(entityId));
+
+        const db = await getDbService();
+        const userContext = extractUserContext(request);
+        const rules = new Map<string, PermissionRule | undefined>();
+        const scopes = [];
+
+        for (const entityId of entityIds) {
+          const permissionCheck = checkPermission(userContext, entityId, 'read');
+          if (!permissionCheck.allowed) continue;
+
+          rules.set(entityId, permissionCheck.rule);
+          scopes.push({
+            entityId,
+            filters: mergeFilters(undefined, permissionCheck.filter) as any[] | undefined,
+            accessFilter: await getRowAccessFilter(appId, entityId, userContext),
+          });
+        }
+
+        const hits = await db.search(text, scopes, { limit: limitNum });
+
+        return reply.send({
+          success: true,
+          query: text,
+          results: hits.map(hit => {
+            const rule = rules.get(hit.entityId);
+            return rule ? { ...hit, record: filterFields(hit.record, rule) } : hit;
+          }),
+        });
+      } catch (error: any) {
+        logger.error('Search failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Search failed',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  // ============================================================
+  // VERSION HISTORY
+  // ============================================================
+
+  /**
+   * List the saved versions of a record
+   * GET /db/apps/:appId/entities/:entityId/records/:recordId/versions
+   */
+  server.get<{
+    Params: { appId: string; entityId: string; recordId: string };
+  }>(
+    '/db/apps/:appId/entities/:entityId/records/:recordId/versions',
+    async (request, reply) => {
+      if (!(await checkDbAvailable(reply))) return;
+
+      try {
+        const { appId, entityId, recordId } = request.params;
+
+        // === PERMISSION CHECK ===
+        const userContext = extractUserContext(request);
+        const permissionCheck = checkPermission(userContext, entityId, 'read');
+        if (sendReadForbidden(reply, permissionCheck.allowed)) return;
+
+        const db = await getDbService();
+        if (!(await isRecordVisible(appId, entityId, recordId, userContext, permissionCheck.filter))) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Not found',
+            message: `Record ${recordId} not found`,
+          });
+        }
+
+        // === FILTER FIELDS ===
+        const versions = (await db.listVersions(appId, entityId, recordId))
+          .map(version => ({ ...version, data: filterFields(version.data, permissionCheck.rule) }));
+
+        return reply.send({
+          success: true,
+          versions,
+        });
+      } catch (error: any) {
+        logger.error('List versions failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'List versions failed',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Diff two versions of a record
+   * GET /db/apps/:appId/entities/:entityId/records/:recordId/versions/diff?from=1&to=2
+   */
+  server.get<{
+    Params: { appId: string; entityId: string; recordId: string };
+    Querystring: { from?: string; to?: string };
+  }>(
+    '/db/apps/:appId/entities/:entityId/records/:recordId/versions/diff',
+    async (request, reply) => {
+      if (!(await checkDbAvailable(reply))) return;
+
+      try {
+        const { appId, entityId, recordId } = request.params;
+        const from = parseInt(request.query.from ?? '', 10);
+        const to = parseInt(request.query.to ?? '', 10);
+
+        if (isNaN(from) || isNaN(to)) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Bad request',
+            message: 'from and to version numbers are required',
+          });
+        }
+
+        // === PERMISSION CHECK ===
+        const userContext = extractUserContext(request);
+        const permissionCheck = checkPermission(userContext, entityId, 'read');
+        if (sendReadForbidden(reply, permissionCheck.allowed)) return;
+
+        const db = await getDbService();
+        if (!(await isRecordVisible(appId, entityId, recordId, userContext, permissionCheck.filter))) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Not found',
+            message: `Record ${recordId} not found`,
+          });
+        }
+
+        const [fromVersion, toVersion] = await Promise.all([
+          db.getVersion(appId, entityId, recordId, from),
+          db.getVersion(appId, entityId, recordId, to),
+        ]);
+        if (!fromVersion || !toVersion) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Not found',
+            message: `Version ${fromVersion ? to : from} of record ${recordId} not found`,
+          });
+        }
+
+        return reply.send({
+          success: true,
+          from,
+          to,
+          // Hidden fields are left out of both sides, so their changes are too
+          changes: diffRecords!(
+            filterFields(fromVersion.data, permissionCheck.rule),
+            filterFields(toVersion.data, permissionCheck.rule)
+          ),
+        });
+      } catch (error: any) {
+        logger.error('Diff versions failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Diff versions failed',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Restore a saved version (applied as a new update)
+   * POST /db/apps/:appId/entities/:entityId/records/:recordId/versions/:version/restore
+   */
+  server.post<{
+    Params: { appId: string; entityId: string; recordId: string; version: string };
+  }>(
+    '/db/apps/:appId/entities/:entityId/records/:recordId/versions/:version/restore',
+    async (request, reply) => {
+      if (!(await checkDbAvailable(reply))) return;
+
+      try {
+        const { appId, entityId, recordId } = request.params;
+        const version = parseInt(request.params.version, 10);
+
+        // === PERMISSION CHECK ===
+        const userContext = extractUserContext(request);
+        const permissionCheck = checkPermission(userContext, entityId, 'update');
+
+        if (!permissionCheck.allowed) {
+          logger.warn('Permission denied for version restore', {
+            userId: userContext?.userId,
+            role: userContext?.role,
+            entityId,
+          });
+          return reply.code(403).send({
+            success: false,
+            error: 'Forbidden',
+            message: 'You do not have permission to update this record',
+          });
+        }
+
+        const db = await getDbService();
+        if (!(await canReadRecord(appId, entityId, recordId, userContext))) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Not found',
+            message: `Record ${recordId} not found`,
+          });
+        }
+
+        const result = await db.restoreVersion(entityId, recordId, version, {
+          context: writeContext(appId, userContext),
+        });
+
+        logger.info('Record version restored', { appId, entityId, recordId, version });
+
+        return reply.send({
+          success: true,
+          record: result.data,
+        });
+      } catch (error: any) {
+        logger.error('Restore version failed', error);
+
+        if (sendHookRejection(reply, error)) return;
+
+        if (error.name === 'ValidationError') {
+          return reply.code(400).send({
+            success: false,
+            error: 'Validation failed',
+            validation: error.validation,
+          });
+        }
+
+        if (error.message.includes('not found')) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Not found',
+            message: error.message,
+          });
+        }
+
+        return reply.code(500).send({
+          success: false,
+          error: 'Restore version failed',
+          message: error.message,
+        });
+      }
+    }
+  );
+
   // ============================================================
   // RELATION OPERATIONS
   // ============================================================
@@ -795,6 +1423,18 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
         const { appId, entityId } = request.params;
         const { filter } = request.query;
 
+        // === PERMISSION CHECK ===
+        const userContext = extractUserContext(request);
+        const permissionCheck = checkPermission(userContext, entityId, 'read');
+
+        if (!permissionCheck.allowed) {
+          return reply.code(403).send({
+            success: false,
+            error: 'Forbidden',
+            message: 'You do not have permission to access this data',
+          });
+        }
+
         let filters: any[] | undefined;
         if (filter) {
           try {
@@ -804,9 +1444,13 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
             // Ignore parse errors
           }
         }
+        filters = mergeFilters(filters, permissionCheck.filter) as any[];
 
         const db = await getDbService();
-        const count = await db.count(entityId, { filters });
+        const count = await db.count(entityId, {
+          filters,
+          accessFilter: await getRowAccessFilter(appId, entityId, userContext),
+        });
 
         return reply.send({
           success: true,
@@ -835,12 +1479,24 @@ export async function registerDatabaseRoutes(server: FastifyInstance): Promise<v
       if (!(await checkDbAvailable(reply))) return;
 
       try {
-        const { entityId, recordId } = request.params;
+        const { appId, entityId, recordId } = request.params;
+
+        const userContext = extractUserContext(request);
+        const permissionCheck = checkPermission(userContext, entityId, 'read');
+        if (!permissionCheck.allowed) {
+          return reply.code(403).send();
+        }
 
         const db = await getDbService();
-        const exists = await db.exists(entityId, recordId);
+        const result = await db.count(entityId, {
+          filters: mergeFilters(
+            [{ field: 'id', operator: 'eq', value: recordId }],
+            permissionCheck.filter
+          ) as any[],
+          accessFilter: await getRowAccessFilter(appId, entityId, userContext),
+        });
 
-        return reply.code(exists ? 200 : 404).send();
+        return reply.code(result > 0 ? 200 : 404).send();
       } catch (error: any) {
         return reply.code(500).send();
       }
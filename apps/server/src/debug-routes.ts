@@ -5,16 +5,16 @@
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { logger } from './utils/logger.js';
+import { appRepository } from './repositories/app-repository.js';
 import { exportDebugState, createDebugReport, getRecentErrors, addErrorToBuffer } from './utils/debug-helper.js';
 
 export async function registerDebugRoutes(
   server: FastifyInstance,
   dependencies: {
-    appStore?: Map<string, any>;
     config?: any;
   }
 ): Promise<void> {
-  const { appStore, config } = dependencies;
+  const { config } = dependencies;
 
   /**
    * GET /api/debug/state
@@ -22,7 +22,7 @@ export async function registerDebugRoutes(
    */
   server.get('/api/debug/state', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const state = await exportDebugState(server, appStore, config);
+      const state = await exportDebugState(server, config);
       
       // Read the file and return its contents
       const fs = await import('fs/promises');
@@ -75,7 +75,7 @@ export async function registerDebugRoutes(
    */
   server.get('/api/debug/report', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const reportPath = await createDebugReport(server, appStore, config);
+      const reportPath = await createDebugReport(server, config);
       
       // Read the file and return its contents
       const fs = await import('fs/promises');
@@ -143,7 +143,7 @@ export async function registerDebugRoutes(
           uptime: process.uptime(),
           memory: process.memoryUsage(),
           timestamp: new Date().toISOString(),
-          appStoreSize: appStore?.size || 0,
+          appStoreSize: await appRepository.count(),
         },
       });
     } catch (error: any) {
@@ -0,0 +1,127 @@
+import { describe, expect, test, vi, beforeEach } from "vitest";
+import Fastify from "fastify";
+import { randomUUID } from "node:crypto";
+import type { ChatResponse } from "@neo/discovery";
+import type { DiscoveryConversation } from "./repositories/discovery-conversation-repository.js";
+
+const conversations = new Map<string, DiscoveryConversation>();
+
+vi.mock("./repositories/discovery-conversation-repository.js", () => ({
+  discoveryConversationRepository: {
+    async create(data: any) {
+      const now = new Date().toISOString();
+      const conversation = { id: randomUUID(), ...data, status: "active", createdAt: now, updatedAt: now };
+      conversations.set(conversation.id, conversation);
+      return structuredClone(conversation);
+    },
+    async findById(id: string) {
+      const conversation = conversations.get(id);
+      return conversation && new Date(conversation.expiresAt) > new Date() ? structuredClone(conversation) : null;
+    },
+    async findByUser(userId: string, status?: string) {
+      return [...conversations.values()].filter(c => c.userId === userId && (!status || c.status === status));
+    },
+    async update(conversation: DiscoveryConversation) {
+      conversations.set(conversation.id, structuredClone(conversation));
+      return structuredClone(conversation);
+    },
+  },
+}));
+
+// Signed in as the user named in the x-user header
+vi.mock("./auth-routes.js", () => ({
+  getUserFromRequest: async (request: any) => {
+    const id = request.headers["x-user"];
+    return id ? { id, email: `${id}@example.com` } : null;
+  },
+}));
+
+const { recordDiscoveryTurn, registerDiscoveryConversationRoutes } = await import("./discovery-conversation-routes.js");
+
+function reply(step: number, overrides: Partial<ChatResponse> = {}): ChatResponse {
+  return { message: `Question ${step}`, complete: false, step, collectedInfo: { [`q${step}`]: true }, questionCount: step, ...overrides };
+}
+
+async function server() {
+  const app = Fastify();
+  await registerDiscoveryConversationRoutes(app);
+  return app;
+}
+
+beforeEach(() => {
+  conversations.clear();
+});
+
+describe("discovery conversations", () => {
+  test("records each turn with its state and certainty ledger", async () => {
+    const started = await recordDiscoveryTurn(null, "I run a plumbing business", reply(1), null);
+    expect(started.title).toBe("I run a plumbing business");
+    expect(started.turns[0].state).toMatchObject({ step: 1, originalInput: "I run a plumbing business", questionCount: 1 });
+    expect(started.turns[0].ledger.industry.value).toBe("plumber");
+
+    const user = { id: "u1", email: "u1@example.com" } as any;
+    const continued = await recordDiscoveryTurn(started, "About five technicians", reply(2, { complete: true }), user);
+    expect(continued.userId).toBe("u1"); // claimed by the first signed-in user
+    expect(continued.status).toBe("completed");
+    expect(continued.turns).toHaveLength(2);
+    expect(continued.turns[1].state).toMatchObject({
+      step: 2,
+      originalInput: "I run a plumbing business",
+      collectedInfo: { q1: true, q2: true },
+    });
+    // The ledger builds on the previous turn's snapshot
+    expect(continued.turns[1].ledger.industry.value).toBe("plumber");
+  });
+
+  test("resumes, lists and hides conversations by owner", async () => {
+    const app = await server();
+    const conversation = await recordDiscoveryTurn(null, "A bakery app", reply(1), { id: "u1" } as any);
+
+    const resumed = await app.inject({ method: "GET", url: `/api/apps/discover/conversations/${conversation.id}`, headers: { "x-user": "u1" } });
+    expect(resumed.statusCode).toBe(200);
+    expect(resumed.json().state).toMatchObject({ step: 1, originalInput: "A bakery app" });
+
+    const stranger = await app.inject({ method: "GET", url: `/api/apps/discover/conversations/${conversation.id}`, headers: { "x-user": "u2" } });
+    expect(stranger.statusCode).toBe(404);
+
+    const listed = await app.inject({ method: "GET", url: "/api/apps/discover/conversations?status=active", headers: { "x-user": "u1" } });
+    expect(listed.json().conversations).toEqual([
+      expect.objectContaining({ id: conversation.id, turnCount: 1, status: "active" }),
+    ]);
+    expect(listed.json().conversations[0].turns).toBeUndefined();
+
+    expect((await app.inject({ method: "GET", url: "/api/apps/discover/conversations" })).statusCode).toBe(401);
+
+    conversations.get(conversation.id)!.expiresAt = new Date(Date.now() - 1000).toISOString();
+    expect((await app.inject({ method: "GET", url: `/api/apps/discover/conversations/${conversation.id}`, headers: { "x-user": "u1" } })).statusCode).toBe(404);
+  });
+
+  test("forks from an earlier turn and abandons conversations", async () => {
+    const app = await server();
+    let conversation = await recordDiscoveryTurn(null, "A salon app", reply(1), null);
+    conversation = await recordDiscoveryTurn(conversation, "Just me", reply(2), null);
+
+    const abandoned = await app.inject({ method: "POST", url: `/api/apps/discover/conversations/${conversation.id}/abandon` });
+    expect(abandoned.json().conversation.status).toBe("abandoned");
+
+    const forked = await app.inject({
+      method: "POST",
+      url: `/api/apps/discover/conversations/${conversation.id}/fork`,
+      payload: { turn: 1 },
+    });
+    expect(forked.statusCode).toBe(201);
+    expect(forked.json().conversation).toMatchObject({ forkedFrom: conversation.id, status: "active", title: "A salon app" });
+    expect(forked.json().conversation.turns).toHaveLength(1);
+    expect(forked.json().state).toMatchObject({ step: 1 });
+
+    const everything = await app.inject({ method: "POST", url: `/api/apps/discover/conversations/${conversation.id}/fork` });
+    expect(everything.json().conversation.turns).toHaveLength(2);
+
+    const tooFar = await app.inject({
+      method: "POST",
+      url: `/api/apps/discover/conversations/${conversation.id}/fork`,
+      payload: { turn: 3 },
+    });
+    expect(tooFar.statusCode).toBe(400);
+  });
+});
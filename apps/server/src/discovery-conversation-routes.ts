@@ -0,0 +1,297 @@
+/**
+ * Discovery Conversation Routes
+ *
+ * Discovery chats are stored server-side by conversation id, with the
+ * certainty ledger of every turn, so users can leave and come back to them.
+ * Conversations expire after `DISCOVERY_CONVERSATION_TTL_DAYS` without activity.
+ * Conversations started while signed out belong to whoever has their id;
+ * they are claimed by the first signed-in user to continue them.
+ */
+
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import { createEmptyLedger, updateLedgerFromInput } from '@neo/ai-engine';
+import type { ChatResponse } from '@neo/discovery';
+import { config } from './config.js';
+import { logger } from './utils/logger.js';
+import { getUserFromRequest } from './auth-routes.js';
+import {
+  discoveryConversationRepository,
+  type DiscoveryConversation,
+  type DiscoveryConversationStatus,
+  type DiscoveryTurn,
+} from './repositories/discovery-conversation-repository.js';
+import type { User } from './types/database.js';
+
+const MAX_TITLE_LENGTH = 120;
+
+const CONVERSATION_STATUSES: DiscoveryConversationStatus[] = ['active', 'completed', 'abandoned'];
+
+/**
+ * Expiry of a conversation active now
+ */
+function expiresAt(): string {
+  return new Date(Date.now() + config.discoveryConversationTtlDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function titleOf(input: string): string {
+  const title = input.trim().replace(/\s+/g, ' ');
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+}
+
+/**
+ * Conversation state to continue from after a reply
+ * (what the chat client used to keep and send back on every call)
+ */
+function stateAfter(previous: Record<string, any>, input: string, response: ChatResponse): Record<string, unknown> {
+  return {
+    step: response.step || (previous.step ?? 0) + 1,
+    collectedInfo: { ...previous.collectedInfo, ...response.collectedInfo },
+    originalInput: previous.originalInput || input,
+    questionsAsked: response.questionsAsked || previous.questionsAsked || [],
+    confidence: response.confidence || previous.confidence || 0.3,
+    pendingConfirmation: response.pendingConfirmation || false,
+    questionCount: response.questionCount || previous.questionCount || 0,
+    enabledFeatures: response.enabledFeatures || previous.enabledFeatures || [],
+    answers: response.answers || previous.answers || {},
+  };
+}
+
+/**
+ * State the next turn of a conversation continues from
+ */
+export function latestConversationState(conversation: DiscoveryConversation): Record<string, unknown> {
+  return conversation.turns[conversation.turns.length - 1]?.state ?? {};
+}
+
+/**
+ * Load a conversation the caller may see (null when missing, expired or someone else's)
+ */
+export async function findConversationForUser(
+  conversationId: string,
+  user: User | null
+): Promise<DiscoveryConversation | null> {
+  const conversation = await discoveryConversationRepository.findById(conversationId);
+  if (!conversation || (conversation.userId && conversation.userId !== user?.id)) {
+    return null;
+  }
+  return conversation;
+}
+
+/**
+ * Record a chat turn, starting a conversation when there is none yet
+ */
+export async function recordDiscoveryTurn(
+  conversation: DiscoveryConversation | null,
+  input: string,
+  response: ChatResponse,
+  user: User | null
+): Promise<DiscoveryConversation> {
+  const previous = conversation?.turns[conversation.turns.length - 1];
+  const turn: DiscoveryTurn = {
+    input,
+    response: { ...response },
+    state: stateAfter(previous?.state ?? {}, input, response),
+    ledger: updateLedgerFromInput(previous?.ledger ?? createEmptyLedger(), input),
+    createdAt: new Date().toISOString(),
+  };
+
+  if (!conversation) {
+    return discoveryConversationRepository.create({
+      userId: user?.id,
+      title: titleOf(input),
+      turns: [turn],
+      expiresAt: expiresAt(),
+    });
+  }
+
+  return discoveryConversationRepository.update({
+    ...conversation,
+    userId: conversation.userId ?? user?.id,
+    status: response.complete ? 'completed' : conversation.status,
+    turns: [...conversation.turns, turn],
+    expiresAt: expiresAt(),
+  });
+}
+
+/**
+ * Conversation without its turns, for listings
+ */
+function summarize(conversation: DiscoveryConversation) {
+  const { turns, ...summary } = conversation;
+  return {
+    ...summary,
+    turnCount: turns.length,
+    readiness: turns[turns.length - 1]?.ledger.overallReadiness ?? 0,
+  };
+}
+
+function sendConversationNotFound(reply: FastifyReply) {
+  return reply.code(404).send({
+    success: false,
+    error: 'Conversation not found',
+    message: 'The conversation does not exist or has expired',
+  });
+}
+
+/**
+ * Register discovery conversation routes
+ */
+export async function registerDiscoveryConversationRoutes(server: FastifyInstance): Promise<void> {
+  /**
+   * List the caller's conversations, most recently active first
+   * GET /api/apps/discover/conversations?status=active
+   */
+  server.get<{ Querystring: { status?: DiscoveryConversationStatus } }>(
+    '/api/apps/discover/conversations',
+    async (request, reply) => {
+      try {
+        const user = await getUserFromRequest(request);
+        if (!user) {
+          return reply.code(401).send({
+            success: false,
+            error: 'Authentication required',
+          });
+        }
+
+        const { status } = request.query;
+        if (status && !CONVERSATION_STATUSES.includes(status)) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid status',
+            message: `Status must be one of: ${CONVERSATION_STATUSES.join(', ')}`,
+          });
+        }
+
+        const conversations = await discoveryConversationRepository.findByUser(user.id, status);
+        return reply.send({
+          success: true,
+          conversations: conversations.map(summarize),
+        });
+      } catch (error: any) {
+        logger.error('Failed to list discovery conversations', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to list conversations',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Resume a conversation: its turns (with ledger snapshots) and the state to continue from
+   * GET /api/apps/discover/conversations/:conversationId
+   */
+  server.get<{ Params: { conversationId: string } }>(
+    '/api/apps/discover/conversations/:conversationId',
+    async (request, reply) => {
+      try {
+        const user = await getUserFromRequest(request);
+        const conversation = await findConversationForUser(request.params.conversationId, user);
+        if (!conversation) {
+          return sendConversationNotFound(reply);
+        }
+
+        return reply.send({
+          success: true,
+          conversation,
+          state: latestConversationState(conversation),
+        });
+      } catch (error: any) {
+        logger.error('Failed to load discovery conversation', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to load conversation',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Fork a conversation into a new active one, keeping its first `turn` turns (default all)
+   * POST /api/apps/discover/conversations/:conversationId/fork
+   */
+  server.post<{ Params: { conversationId: string }; Body: { turn?: number } }>(
+    '/api/apps/discover/conversations/:conversationId/fork',
+    {
+      schema: {
+        body: {
+          type: ['object', 'null'],
+          properties: {
+            turn: { type: 'integer', minimum: 1 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const user = await getUserFromRequest(request);
+        const source = await findConversationForUser(request.params.conversationId, user);
+        if (!source) {
+          return sendConversationNotFound(reply);
+        }
+
+        const keep = request.body?.turn ?? source.turns.length;
+        if (keep > source.turns.length) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid turn',
+            message: `The conversation has ${source.turns.length} turn(s)`,
+          });
+        }
+
+        const conversation = await discoveryConversationRepository.create({
+          userId: user?.id ?? source.userId,
+          forkedFrom: source.id,
+          title: source.title,
+          turns: source.turns.slice(0, keep),
+          expiresAt: expiresAt(),
+        });
+
+        return reply.code(201).send({
+          success: true,
+          conversation,
+          state: latestConversationState(conversation),
+        });
+      } catch (error: any) {
+        logger.error('Failed to fork discovery conversation', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to fork conversation',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Abandon a conversation (it can no longer be continued, but can still be forked)
+   * POST /api/apps/discover/conversations/:conversationId/abandon
+   */
+  server.post<{ Params: { conversationId: string } }>(
+    '/api/apps/discover/conversations/:conversationId/abandon',
+    async (request, reply) => {
+      try {
+        const user = await getUserFromRequest(request);
+        const conversation = await findConversationForUser(request.params.conversationId, user);
+        if (!conversation) {
+          return sendConversationNotFound(reply);
+        }
+
+        const abandoned = await discoveryConversationRepository.update({ ...conversation, status: 'abandoned' });
+        return reply.send({
+          success: true,
+          conversation: summarize(abandoned),
+        });
+      } catch (error: any) {
+        logger.error('Failed to abandon discovery conversation', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to abandon conversation',
+          message: error.message,
+        });
+      }
+    }
+  );
+}
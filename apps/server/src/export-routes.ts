@@ -0,0 +1,288 @@
+/**
+ * Export Routes
+ *
+ * Downloads of database entity records as CSV, XLSX, JSON or PDF. Exports take
+ * the same query as record lists (filters, sorts, selected fields, includes,
+ * tags) and are streamed, a batch of records at a time.
+ *
+ * PERMISSION ENFORCEMENT:
+ * - Exporting needs read permission on the entity
+ * - Row-level filters and row access rules apply as for lists
+ * - Fields the user cannot see (permission rules, `access.visibleTo`) are left out
+ *
+ * Files exported by workflows are downloaded from signed, expiring URLs.
+ */
+
+import { Readable } from 'node:stream';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type IncludeRelation,
+  type QueryFilter,
+  type QueryOptions,
+  type QuerySort,
+} from '@neo/database';
+import { config } from './config.js';
+import { logger } from './utils/logger.js';
+import { verifySignedUrl } from './utils/signed-url.js';
+import { EXPORT_CONTENT_TYPES, exportFileName, writeExport } from './utils/export-writer.js';
+import { exportFilePath, readExportFile } from './services/export-files.js';
+import { checkDbAvailable, getDbService, getRowAccessFilter, parseFilterParam } from './database-routes.js';
+import {
+  extractUserContext,
+  checkPermission,
+  mergeFilters,
+  filterFields,
+} from './permissions-middleware.js';
+
+interface ExportQuerystring {
+  format?: string;
+  title?: string;
+  sort?: string;
+  sortDir?: string;
+  filter?: string;
+  include?: string;
+  select?: string;
+  tags?: string;
+  tagMatch?: string;
+}
+
+interface ExportBody {
+  format?: string;
+  title?: string;
+  filters?: QueryFilter[];
+  sorts?: QuerySort[];
+  select?: string[];
+  include?: IncludeRelation[];
+  tags?: { tagIds: string[]; match?: 'any' | 'all' };
+}
+
+interface ExportRequest {
+  format: string | undefined;
+  title: string | undefined;
+  query: QueryOptions;
+}
+
+/**
+ * Query of an export link: the record list parameters
+ */
+function exportRequestFromQuerystring(query: ExportQuerystring): ExportRequest {
+  const tagIds = query.tags ? query.tags.split(',').map(t => t.trim()).filter(Boolean) : [];
+  return {
+    format: query.format,
+    title: query.title,
+    query: {
+      filters: parseFilterParam(query.filter),
+      sorts: query.sort ? [{ field: query.sort, direction: (query.sortDir as 'asc' | 'desc') || 'asc' }] : undefined,
+      select: query.select ? query.select.split(',').map(s => s.trim()) : undefined,
+      include: query.include ? query.include.split(',').map(r => ({ relation: r.trim() })) : undefined,
+      tags: tagIds.length > 0 ? { tagIds, match: query.tagMatch === 'all' ? 'all' : 'any' } : undefined,
+    },
+  };
+}
+
+/**
+ * Check the caller may export the entity, pick the columns and stream the file
+ */
+async function sendExport(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  appId: string,
+  entityId: string,
+  exportRequest: ExportRequest
+): Promise<unknown> {
+  const format = (exportRequest.format || 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return reply.code(400).send({
+      success: false,
+      error: 'Invalid format',
+      message: `format must be one of ${EXPORT_FORMATS.join(', ')}`,
+    });
+  }
+
+  const db = await getDbService();
+  if (!db.isExportable(entityId)) {
+    return reply.code(404).send({
+      success: false,
+      error: 'Not found',
+      message: `Cannot export ${entityId}`,
+    });
+  }
+
+  // === PERMISSION CHECK ===
+  const userContext = extractUserContext(request);
+  const permissionCheck = checkPermission(userContext, entityId, 'read');
+  if (!permissionCheck.allowed) {
+    return reply.code(403).send({
+      success: false,
+      error: 'Forbidden',
+      message: 'You do not have permission to access this data',
+    });
+  }
+
+  const { query } = exportRequest;
+  if (query.tags && !db.isTaggable(entityId)) {
+    return reply.code(400).send({
+      success: false,
+      error: 'Not taggable',
+      message: `${entityId} does not have the taggable behavior`,
+    });
+  }
+
+  // === FIELDS THE USER MAY SEE ===
+  let columns = db.exportColumns(entityId, { select: query.select, include: query.include, role: userContext?.role });
+  if (permissionCheck.rule) {
+    const visible = filterFields(Object.fromEntries(columns.map(column => [column.field, true])), permissionCheck.rule);
+    columns = columns.filter(column => column.field in visible);
+  }
+
+  // === ROW FILTERS ===
+  const filters = mergeFilters(query.filters, permissionCheck.filter) as QueryFilter[] | undefined;
+  const accessFilter = await getRowAccessFilter(appId, entityId, userContext);
+
+  const batches = db.exportRows(entityId, columns, { ...query, filters, accessFilter }, {
+    maxRows: config.exportMaxRows,
+  });
+  // Load the first batch before answering, so bad queries get an error response
+  const first = await batches.next();
+  const rows = (async function* () {
+    if (!first.done) yield first.value;
+    yield* batches;
+  })();
+
+  const title = exportRequest.title || entityId;
+  const stream = Readable.from(writeExport(format, { title, columns, batches: rows }));
+  stream.on('error', (error) => {
+    logger.error('Export stream failed', { appId, entityId, format, error: error.message });
+  });
+
+  logger.info('Export started', { appId, entityId, format, userId: userContext?.userId });
+
+  return reply
+    .header('Content-Type', EXPORT_CONTENT_TYPES[format])
+    .header('Content-Disposition', `attachment; filename="${exportFileName(title, format)}"`)
+    .header('Cache-Control', 'private, no-store')
+    .send(stream);
+}
+
+/**
+ * Send a 400 for an export of unknown fields or too many rows
+ */
+function sendExportRejection(reply: FastifyReply, error: Error): boolean {
+  if (error.name !== 'ExportError') return false;
+  reply.code(400).send({
+    success: false,
+    error: 'Invalid export',
+    message: error.message,
+  });
+  return true;
+}
+
+/**
+ * Register export routes
+ */
+export async function registerExportRoutes(server: FastifyInstance): Promise<void> {
+  /**
+   * Download records (query parameters as for record lists)
+   * GET /db/apps/:appId/entities/:entityId/export?format=csv|xlsx|json|pdf
+   */
+  server.get<{ Params: { appId: string; entityId: string }; Querystring: ExportQuerystring }>(
+    '/db/apps/:appId/entities/:entityId/export',
+    async (request, reply) => {
+      if (!(await checkDbAvailable(reply))) return;
+
+      try {
+        const { appId, entityId } = request.params;
+        return await sendExport(request, reply, appId, entityId, exportRequestFromQuerystring(request.query));
+      } catch (error: any) {
+        if (sendExportRejection(reply, error)) return;
+        logger.error('Export failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Export failed',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Download records of a query (filters, sorts, select, include and tags as in findMany)
+   * POST /db/apps/:appId/entities/:entityId/export
+   */
+  server.post<{ Params: { appId: string; entityId: string }; Body: ExportBody }>(
+    '/db/apps/:appId/entities/:entityId/export',
+    async (request, reply) => {
+      if (!(await checkDbAvailable(reply))) return;
+
+      try {
+        const { appId, entityId } = request.params;
+        const { format, title, filters, sorts, select, include, tags } = request.body ?? {};
+        return await sendExport(request, reply, appId, entityId, {
+          format,
+          title,
+          query: { filters, sorts, select, include, tags },
+        });
+      } catch (error: any) {
+        if (sendExportRejection(reply, error)) return;
+        logger.error('Export failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Export failed',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Download a file exported by a workflow (signed URL only)
+   * GET /api/apps/:appId/exports/:exportId/:fileName?expires=&signature=
+   */
+  server.get<{
+    Params: { appId: string; exportId: string; fileName: string };
+    Querystring: { expires?: string; signature?: string };
+  }>(
+    '/api/apps/:appId/exports/:exportId/:fileName',
+    async (request, reply) => {
+      try {
+        const { appId, exportId, fileName } = request.params;
+        const { expires, signature } = request.query;
+
+        const check = verifySignedUrl(config.attachmentUrlSecret, exportFilePath(appId, exportId, fileName), expires, signature);
+        if (!check.valid) {
+          return reply.code(403).send({
+            success: false,
+            error: 'Invalid download link',
+            message: check.reason,
+          });
+        }
+
+        const blob = await readExportFile(appId, exportId, fileName);
+        if (!blob) {
+          return reply.code(404).send({
+            success: false,
+            error: 'File not found',
+          });
+        }
+
+        return reply
+          .header('Content-Type', blob.contentType)
+          .header('Content-Disposition', `attachment; filename="${fileName.replace(/[^\x20-\x7e]|["\\]/g, '_')}"`)
+          .header('X-Content-Type-Options', 'nosniff')
+          .header('Cache-Control', 'private, no-store')
+          .send(blob.data);
+      } catch (error: any) {
+        logger.error('Export download failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to download file',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  logger.info('Export routes registered');
+}
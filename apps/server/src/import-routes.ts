@@ -0,0 +1,279 @@
+/**
+ * Import Routes
+ *
+ * Spreadsheet (CSV/XLSX) imports into database entities, in two steps:
+ * preview maps the columns to fields and reports row-level errors without
+ * writing anything; import creates all rows in one transaction, or none.
+ *
+ * PERMISSION ENFORCEMENT:
+ * - Importing needs create permission on the entity
+ * - Columns can only be mapped to fields the user may set
+ */
+
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import type { ImportMapping, ImportOptions, ImportTable } from '@neo/database';
+import { config } from './config.js';
+import { logger } from './utils/logger.js';
+import { multipartBoundary, parseMultipart } from './utils/multipart.js';
+import { readSpreadsheet } from './utils/spreadsheet.js';
+import { checkDbAvailable, getDbService } from './database-routes.js';
+import {
+  extractUserContext,
+  checkPermission,
+  filterFields,
+  type UserContext,
+} from './permissions-middleware.js';
+
+/** Room for multipart boundaries and the form fields on top of the file size limit */
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+interface ImportUpload {
+  fileName: string;
+  table: ImportTable;
+  mapping?: ImportMapping;
+  options: ImportOptions;
+}
+
+/**
+ * Read the uploaded spreadsheet and the mapping and options sent with it
+ * multipart/form-data: a `file` part, optional `mapping` (JSON: column → field) and `dateOrder` fields
+ */
+function readImportUpload(
+  contentType: string | undefined,
+  body: unknown,
+  reply: FastifyReply
+): ImportUpload | null {
+  const boundary = multipartBoundary(contentType);
+  if (!boundary || !Buffer.isBuffer(body)) {
+    reply.code(400).send({
+      success: false,
+      error: 'Invalid upload',
+      message: 'Expected a multipart/form-data body',
+    });
+    return null;
+  }
+
+  try {
+    const form = parseMultipart(body, boundary);
+    const file = form.files.find(f => f.fieldName === 'file') ?? form.files[0];
+    if (!file) {
+      reply.code(400).send({
+        success: false,
+        error: 'No file',
+        message: 'The upload contains no spreadsheet',
+      });
+      return null;
+    }
+
+    let mapping: ImportMapping | undefined;
+    if (form.fields.mapping) {
+      const parsed = JSON.parse(form.fields.mapping);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed) ||
+          Object.values(parsed).some(field => typeof field !== 'string')) {
+        throw new Error('mapping must be an object of column names to field names');
+      }
+      mapping = parsed;
+    }
+
+    const dateOrder = form.fields.dateOrder;
+    if (dateOrder && dateOrder !== 'mdy' && dateOrder !== 'dmy') {
+      throw new Error('dateOrder must be mdy or dmy');
+    }
+
+    return {
+      fileName: file.fileName,
+      table: readSpreadsheet(file),
+      mapping,
+      options: { dateOrder: dateOrder as ImportOptions['dateOrder'] },
+    };
+  } catch (error: any) {
+    reply.code(400).send({
+      success: false,
+      error: 'Invalid upload',
+      message: error.message,
+    });
+    return null;
+  }
+}
+
+/**
+ * Check the entity takes imports and the caller may create its records
+ * with every mapped field
+ */
+async function ensureImportAccess(
+  entityId: string,
+  mapping: ImportMapping | undefined,
+  userContext: UserContext | undefined,
+  reply: FastifyReply
+): Promise<boolean> {
+  const db = await getDbService();
+  if (!db.isImportable(entityId)) {
+    reply.code(404).send({
+      success: false,
+      error: 'Not found',
+      message: `Cannot import into ${entityId}`,
+    });
+    return false;
+  }
+
+  const permissionCheck = checkPermission(userContext, entityId, 'create');
+  if (!permissionCheck.allowed) {
+    reply.code(403).send({
+      success: false,
+      error: 'Forbidden',
+      message: 'You do not have permission to create these records',
+    });
+    return false;
+  }
+
+  if (mapping && permissionCheck.rule) {
+    const fields = Object.values(mapping);
+    const allowed = filterFields(Object.fromEntries(fields.map(field => [field, true])), permissionCheck.rule);
+    const denied = fields.filter(field => !(field in allowed));
+    if (denied.length > 0) {
+      reply.code(403).send({
+        success: false,
+        error: 'Forbidden',
+        message: `You do not have permission to set: ${denied.join(', ')}`,
+      });
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Send a 400 for a mapping that names unknown columns or fields, or a table that is too large
+ */
+function sendMappingRejection(reply: FastifyReply, error: Error): boolean {
+  if (error.name !== 'ImportMappingError') return false;
+  reply.code(400).send({
+    success: false,
+    error: 'Invalid mapping',
+    message: error.message,
+  });
+  return true;
+}
+
+/**
+ * Register import routes
+ */
+export async function registerImportRoutes(server: FastifyInstance): Promise<void> {
+  // Spreadsheets arrive as buffered multipart bodies
+  await server.register(async (imports) => {
+    imports.addContentTypeParser(
+      'multipart/form-data',
+      { parseAs: 'buffer', bodyLimit: config.importMaxBytes + MULTIPART_OVERHEAD_BYTES },
+      (_request, body, done) => {
+        done(null, body);
+      }
+    );
+
+    imports.setErrorHandler((error, _request, reply) => {
+      if (error.statusCode === 413) {
+        return reply.code(413).send({
+          success: false,
+          error: 'File too large',
+          message: `Imports are limited to ${config.importMaxBytes} bytes`,
+        });
+      }
+      throw error;
+    });
+
+    /**
+     * Map the columns and check every row, without writing
+     * POST /db/apps/:appId/entities/:entityId/import/preview
+     */
+    imports.post<{ Params: { appId: string; entityId: string }; Body: Buffer }>(
+      '/db/apps/:appId/entities/:entityId/import/preview',
+      async (request, reply) => {
+        if (!(await checkDbAvailable(reply))) return;
+
+        try {
+          const { entityId } = request.params;
+          const upload = readImportUpload(request.headers['content-type'], request.body, reply);
+          if (!upload) return;
+          if (!(await ensureImportAccess(entityId, upload.mapping, extractUserContext(request), reply))) return;
+
+          const db = await getDbService();
+          const suggestions = db.suggestImportMapping(entityId, upload.table.headers);
+          const preview = await db.previewImport(entityId, upload.table, upload.mapping, upload.options);
+
+          return reply.send({
+            success: true,
+            fileName: upload.fileName,
+            headers: upload.table.headers,
+            suggestions,
+            preview,
+          });
+        } catch (error: any) {
+          if (sendMappingRejection(reply, error)) return;
+          logger.error('Import preview failed', error);
+          return reply.code(500).send({
+            success: false,
+            error: 'Import preview failed',
+            message: error.message,
+          });
+        }
+      }
+    );
+
+    /**
+     * Create every row in one transaction (nothing is written when a row is invalid)
+     * POST /db/apps/:appId/entities/:entityId/import
+     */
+    imports.post<{ Params: { appId: string; entityId: string }; Body: Buffer }>(
+      '/db/apps/:appId/entities/:entityId/import',
+      async (request, reply) => {
+        if (!(await checkDbAvailable(reply))) return;
+
+        try {
+          const { appId, entityId } = request.params;
+          const upload = readImportUpload(request.headers['content-type'], request.body, reply);
+          if (!upload) return;
+
+          const userContext = extractUserContext(request);
+          if (!(await ensureImportAccess(entityId, upload.mapping, userContext, reply))) return;
+
+          const db = await getDbService();
+          const result = await db.importRecords(entityId, upload.table, upload.mapping, {
+            ...upload.options,
+            context: {
+              appId,
+              user: userContext ? { id: userContext.userId, role: userContext.role } : undefined,
+            },
+          });
+
+          logger.info('Import completed', {
+            appId,
+            entityId,
+            fileName: upload.fileName,
+            inserted: result.inserted,
+            userId: userContext?.userId,
+          });
+
+          return reply.code(201).send({ success: true, inserted: result.inserted });
+        } catch (error: any) {
+          if (error.name === 'ImportValidationError') {
+            return reply.code(422).send({
+              success: false,
+              error: 'Import failed',
+              message: error.message,
+              preview: error.preview,
+            });
+          }
+          if (sendMappingRejection(reply, error)) return;
+          logger.error('Import failed', error);
+          return reply.code(500).send({
+            success: false,
+            error: 'Import failed',
+            message: error.message,
+          });
+        }
+      }
+    );
+  });
+
+  logger.info('Import routes registered');
+}
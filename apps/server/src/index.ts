@@ -17,9 +17,9 @@ if (result.error) {
 
 import { randomUUID } from 'node:crypto';
 import Fastify, { type FastifyRequest, type FastifyReply, type FastifyInstance } from 'fastify';
-import { AppCategory, AppPrivacyLevel, type App, type UserPreferences } from '@neo/contracts';
+import { AppCategory, AppPrivacyLevel, type App, type EntityWriteContext, type UserPreferences } from '@neo/contracts';
 import { UnifiedAppGenerator } from '@neo/app-generator';
-import { IntentProcessor, createAIProviderFromEnv, hasRealAIProvider } from '@neo/ai-engine';
+import { IntentProcessor, completeWithStream, createAIProviderFromEnv, hasRealAIProvider, jsonStringFieldReader, withCostAttribution, type AIOutputSchema } from '@neo/ai-engine';
 import { TemplateLibrary } from '@neo/templates';
 import { PromptSanitizer, ContentModerator, OutputValidator, SafetyOrchestrator } from '@neo/safety';
 import { DiscoveryHandler, MandatoryDiscoveryHandler, SmartDiscoveryHandlerWrapper, AIDiscoveryHandlerWrapper } from '@neo/app-generator';
@@ -31,16 +31,36 @@ import { logger, debugNamespaces, log } from './utils/logger.js';
 import { registerDatabaseRoutes } from './database-routes.js';
 import { registerAuthRoutes } from './auth-routes.js';
 import { registerPermissionsRoutes } from './permissions-routes.js';
-import { registerPublishingRoutes, setAppStore } from './publishing-routes.js';
+import { registerPublishingRoutes } from './publishing-routes.js';
 import { registerIntegrationsRoutes } from './integrations-routes.js';
 import { registerAppAnalysisRoutes } from './app-analysis-routes.js';
 import { registerAppRoutes } from './app-routes.js';
 import { registerDebugRoutes } from './debug-routes.js';
 import { registerBillingRoutes } from './billing-routes.js';
+import { registerWorkflowRoutes } from './workflow-routes.js';
+import { registerWebhookRoutes } from './webhook-routes.js';
+import { registerAuditRoutes } from './audit-routes.js';
+import { registerCommentRoutes } from './comment-routes.js';
+import { registerDiscoveryConversationRoutes } from './discovery-conversation-routes.js';
+import { registerAttachmentRoutes } from './attachment-routes.js';
+import { registerTagRoutes } from './tag-routes.js';
+import { registerImportRoutes } from './import-routes.js';
+import { registerExportRoutes } from './export-routes.js';
+import { setExportFileStore } from './services/export-files.js';
+import { BLOB_STORE_DRIVERS, createBlobStore, type BlobStoreDriver } from './repositories/blob-store.js';
+import { WorkflowScheduler } from './services/workflow-scheduler.js';
 import { addErrorToBuffer } from './utils/debug-helper.js';
 import { initSentry, captureException, setRequestContext, addBreadcrumb } from './utils/sentry.js';
 import { runMigrations, isDatabaseEnabled } from './services/database.js';
 import { appRepository } from './repositories/app-repository.js';
+import { recordVersionRepository } from './repositories/record-version-repository.js';
+import { isVersionedModel, saveAppRecordVersion } from './services/app-data-versions.js';
+import { hasModelBehavior } from './services/model-behaviors.js';
+import { appEntityHooks } from './services/app-entity-hooks.js';
+import { aiUsageService } from './services/ai-usage-service.js';
+import { diffRecords, versionRestoreData } from '@neo/database';
+import { integrationConfigRepository } from './repositories/integration-config-repository.js';
+import { integrationConfigService, SecretCipher } from '@neo/integrations';
 import { getUserFromRequest } from './auth-routes.js';
 
 // Initialize Sentry FIRST (before anything else)
@@ -85,7 +105,8 @@ const safetyOrchestrator = new SafetyOrchestrator(
 );
 
 // Create AI provider from environment variables
-const aiProvider = createAIProviderFromEnv();
+// Paid calls are charged to users' monthly AI quotas
+const aiProvider = createAIProviderFromEnv({ usageMeter: aiUsageService });
 logger.info('AI provider initialized', {
   provider: config.aiProvider,
   isMock: config.aiProvider === 'mock',
@@ -105,25 +126,52 @@ const smartDiscoveryHandler = new SmartDiscoveryHandlerWrapper();
 
 // AI-powered discovery handler
 // Uses the same AI provider that's configured for app generation
+// Pass `onReply` to receive the response's `replyField` text so far as it streams in
 const aiProviderForDiscovery = {
-  complete: async (options: { prompt: string; systemPrompt?: string; maxTokens?: number; temperature?: number; timeout?: number }) => {
-    const response = await aiProvider.complete({
+  complete: async (
+    options: { prompt: string; systemPrompt?: string; maxTokens?: number; temperature?: number; timeout?: number; schema?: AIOutputSchema; replyField?: string },
+    onReply?: (text: string) => void
+  ) => {
+    const params = {
       prompt: options.prompt,
       systemPrompt: options.systemPrompt,
       maxTokens: options.maxTokens || 1000,
       temperature: options.temperature || 0.3,
       timeout: options.timeout || 15000,
-    });
+      schema: options.schema,
+    };
+    // Only the reply field is passed on; the rest of the JSON means nothing to the user
+    const readReply = onReply && options.replyField ? jsonStringFieldReader(options.replyField) : undefined;
+    let reply = '';
+    const response = readReply
+      ? await completeWithStream(aiProvider, params, (token) => {
+          const text = readReply(token);
+          if (text) {
+            reply += text;
+            onReply!(reply);
+          }
+        })
+      : await aiProvider.complete(params);
     return typeof response === 'string' ? response : JSON.stringify(response);
   }
 };
 const aiDiscoveryHandler = new AIDiscoveryHandlerWrapper(aiProviderForDiscovery);
 
-// In-memory app store (replace with database in production)
-const appStore = new Map<string, App>();
-setAppStore(appStore); // Share with publishing routes
 const DEFAULT_SCHEMA_VERSION = 'blueprint-v1';
 
+// Scheduler for `schedule` workflow triggers
+const workflowScheduler = new WorkflowScheduler({
+  intervalMs: config.workflowScheduler.intervalMs,
+  loadApps: async () => {
+    try {
+      return await appRepository.findAll(1000);
+    } catch (error: any) {
+      logger.warn('Scheduler could not load persisted apps', { error: error?.message });
+      return [];
+    }
+  },
+});
+
 function determinePrivacyLevel(input: string, preferences?: UserPreferences): AppPrivacyLevel {
   if (preferences?.privacyFirst) {
     return AppPrivacyLevel.PRIVATE;
@@ -167,6 +215,8 @@ function materializedAppToSchema(app: MaterializedApp): App['schema'] {
       trigger: {
         type: flow.trigger.type as any,
         componentId: flow.trigger.componentId,
+        schedule: flow.trigger.schedule,
+        webhookPath: flow.trigger.webhookPath,
       },
       actions: flow.actions.map((action: MaterializedApp['flows'][number]['actions'][number]) => {
         const config = action.config || {};
@@ -183,8 +233,19 @@ function materializedAppToSchema(app: MaterializedApp): App['schema'] {
           data,
           targetPageId,
           message,
+          config,
+          condition: action.condition,
+          thenActions: action.thenActions as Record<string, unknown>[] | undefined,
+          elseActions: action.elseActions as Record<string, unknown>[] | undefined,
+          items: action.items,
+          itemActions: action.itemActions as Record<string, unknown>[] | undefined,
+          branches: action.branches as Record<string, unknown>[][] | undefined,
+          onError: action.onError as any,
+          retryCount: action.retryCount,
         };
       }),
+      onError: flow.onError as any,
+      rateLimit: flow.rateLimit,
     })),
   };
   
@@ -397,6 +458,12 @@ server.addHook('onRequest', async (request, reply) => {
   }
 });
 
+// Charge AI calls made while handling a request to its client, so guests are
+// held to the guest quota; routes add the signed-in user and the operation
+server.addHook('onRequest', (request, _reply, done) => {
+  withCostAttribution({ clientKey: request.ip }, done);
+});
+
 // Register response logging hook
 server.addHook('onSend', async (request, reply, payload) => {
   const isEmptyPayload =
@@ -652,29 +719,9 @@ server.post<{
         });
       }
 
-      // Store app in memory (for immediate access)
-      appStore.set(app.id, app);
-      
-      // Persist to storage (database or file-based)
-      try {
-        await appRepository.save({
-          id: app.id,
-          name: app.name,
-          description: app.description,
-          category: app.category,
-          schema: app.schema as Record<string, unknown>,
-          theme: app.theme as Record<string, unknown>,
-          data: app.data as Record<string, unknown>,
-          settings: app.settings as Record<string, unknown>,
-        }, preferences?.userId);
-        logger.info('App persisted to storage', { appId: app.id, useDatabase: isDatabaseEnabled() });
-      } catch (persistError: any) {
-        // Log but don't fail - app is still in memory
-        logger.warn('Failed to persist app to storage (will be in memory only)', {
-          appId: app.id,
-          error: persistError?.message,
-        });
-      }
+      // Persist to the app store
+      await appRepository.saveApp(app, preferences?.userId);
+      logger.info('App persisted to storage', { appId: app.id, store: appRepository.driver });
       
       logger.info('App created and stored', {
         appId: app.id,
@@ -818,40 +865,7 @@ server.get<{ Params: { id: string } }>('/apps/:id', async (request: FastifyReque
       
       logger.debug('GET /apps/:id requested', { appId: id });
       
-      // First check memory store
-      let app = appStore.get(id);
-      
-      // If not in memory, check persistent storage (database or file)
-      if (!app) {
-        logger.debug('Checking persistent storage for app', { appId: id });
-        
-        try {
-          const storedApp = await appRepository.findById(id);
-          if (storedApp) {
-            // Convert to App type and cache in memory for future requests
-            app = {
-              id: storedApp.id,
-              name: storedApp.name,
-              description: storedApp.description,
-              category: (storedApp.category as any) || AppCategory.PERSONAL,
-              privacyLevel: AppPrivacyLevel.PRIVATE,
-              version: 1,
-              createdAt: storedApp.createdAt ? new Date(storedApp.createdAt) : new Date(),
-              updatedAt: storedApp.updatedAt ? new Date(storedApp.updatedAt) : new Date(),
-              createdBy: storedApp.userId || randomUUID(),
-              schema: storedApp.schema as any,
-              theme: storedApp.theme as any,
-              data: storedApp.data as any,
-              settings: storedApp.settings as any,
-            };
-            // Cache in memory store for faster subsequent access
-            appStore.set(id, app);
-            logger.info('App loaded from persistent storage and cached', { appId: id });
-          }
-        } catch (storageError: any) {
-          logger.warn('Persistent storage lookup failed', { appId: id, error: storageError?.message });
-        }
-      }
+      const app = await appRepository.getApp(id);
 
       if (!app) {
         logger.warn('App not found', { appId: id });
@@ -939,7 +953,7 @@ server.post<{
       });
     }
 
-    const app = appStore.get(id);
+    const app = await appRepository.getApp(id);
     if (!app) {
       return reply.code(404).type('application/json').send({
         success: false,
@@ -950,7 +964,11 @@ server.post<{
 
     try {
       // Process modification intent
-      const intentResult = await intentProcessor.processIntent(input, { app });
+      const user = await getUserFromRequest(request);
+      const intentResult = await withCostAttribution(
+        { userId: user?.id, appId: id, operation: 'modify' },
+        () => intentProcessor.processIntent(input, { app })
+      );
 
       if (!intentResult.intent || !intentResult.safety.safe) {
         return reply.code(400).type('application/json').send({
@@ -1009,7 +1027,7 @@ server.post<{
       const modifiedApp = result.app;
       modifiedApp.updatedAt = new Date();
       modifiedApp.version += 1;
-      appStore.set(id, modifiedApp);
+      await appRepository.saveApp(modifiedApp);
       
       logger.info('App modified successfully', {
         appId: id,
@@ -1038,7 +1056,7 @@ server.post<{
 
 // List apps endpoint (simple implementation)
 server.get('/apps', async (request: FastifyRequest, reply: FastifyReply) => {
-  const apps = Array.from(appStore.values());
+  const apps = await appRepository.findAll(1000);
   return reply.send({
     success: true,
     apps: apps.map((app) => ({
@@ -1072,7 +1090,7 @@ server.get('/api/apps', async (request: FastifyRequest, reply: FastifyReply) =>
       });
     }
     
-    // Guest user - return all apps from file storage
+    // Guest user - return all stored apps
     const allApps = await appRepository.findAll(50);
     return reply.send({
       success: true,
@@ -1112,21 +1130,12 @@ server.post<{ Params: { id: string }; Body: Record<string, unknown> }>(
       const { id } = request.params;
       const appData = request.body;
       
-      // Check if app exists in memory store (was created this session)
-      const existingApp = appStore.get(id);
+      // Check if the app is already stored (was created on the server)
+      const existingApp = await appRepository.findById(id);
       
       if (existingApp) {
-        // Sync existing app to database
-        await appRepository.save({
-          id: existingApp.id,
-          name: existingApp.name,
-          description: existingApp.description,
-          category: existingApp.category,
-          schema: existingApp.schema as Record<string, unknown>,
-          theme: existingApp.theme as Record<string, unknown>,
-          data: existingApp.data as Record<string, unknown>,
-          settings: existingApp.settings as Record<string, unknown>,
-        }, user.id);
+        // Claim the stored app for the user
+        await appRepository.save(existingApp, user.id);
       } else if (appData && appData.name) {
         // Sync app from client data
         await appRepository.save({
@@ -1157,6 +1166,27 @@ server.post<{ Params: { id: string }; Body: Record<string, unknown> }>(
 );
 
 // CRUD endpoints for app data
+
+/**
+ * Who is writing app data, as seen by entity hooks
+ */
+function hookContext(appId: string, user: { id: string } | null): EntityWriteContext {
+  return { appId, user: user ? { id: user.id } : undefined };
+}
+
+/**
+ * Send a 400 when an entity before-hook rejected the write
+ */
+function sendHookRejection(reply: FastifyReply, error: Error): boolean {
+  if (error?.name !== 'EntityHookRejectedError') return false;
+  reply.code(400).type('application/json').send({
+    success: false,
+    error: 'Rejected',
+    message: error.message,
+  });
+  return true;
+}
+
 // Create record in a data model
 server.post<{ Params: { id: string; modelId: string }; Body: Record<string, unknown> }>(
   '/apps/:id/data/:modelId/create',
@@ -1165,39 +1195,39 @@ server.post<{ Params: { id: string; modelId: string }; Body: Record<string, unkn
       const { id, modelId } = request.params;
       const data = request.body;
 
-      const app = appStore.get(id);
-      if (!app) {
-        return reply.code(404).type('application/json').send({
-          success: false,
-          error: 'App not found',
-          message: `App with id ${id} does not exist`,
-        });
-      }
-
-      // Initialize data object if it doesn't exist
-      if (!app.data) {
-        app.data = {};
-      }
-
-      // Initialize model array if it doesn't exist
-      if (!app.data[modelId]) {
-        app.data[modelId] = [];
-      }
-
       // Generate ID for the new record
       const recordId = `${modelId}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-      const record = {
+      const draft = {
         id: recordId,
         ...data,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
+      const user = await getUserFromRequest(request);
+      const context = hookContext(id, user);
 
-      // Add record to the model array
-      (app.data[modelId] as unknown[]).push(record);
+      // Add record to the model array (created if it doesn't exist)
+      const changed = await appRepository.changeData(id, (appData, app) => {
+        const record = {
+          ...draft,
+          ...appEntityHooks(app, modelId).runBefore(modelId, 'beforeCreate', { new: draft }, context),
+        };
+        appData[modelId] = [...((appData[modelId] as unknown[] | undefined) ?? []), record];
+        return record;
+      });
+      if (!changed?.result) {
+        return reply.code(404).type('application/json').send({
+          success: false,
+          error: 'App not found',
+          message: `App with id ${id} does not exist`,
+        });
+      }
+      const { app, result: record } = changed;
+      appEntityHooks(app, modelId).runAfter(modelId, 'afterCreate', { new: record }, context);
 
-      // Update app timestamp
-      app.updatedAt = new Date();
+      if (isVersionedModel(app, modelId)) {
+        await saveAppRecordVersion(app, modelId, null, record, user?.id);
+      }
 
       logger.info('Record created', { appId: id, modelId, recordId });
 
@@ -1206,6 +1236,7 @@ server.post<{ Params: { id: string; modelId: string }; Body: Record<string, unkn
         record,
       });
     } catch (error: any) {
+      if (sendHookRejection(reply, error)) return;
       logger.error('Error creating record', error);
       return reply.code(500).type('application/json').send({
         success: false,
@@ -1224,7 +1255,7 @@ server.put<{ Params: { id: string; modelId: string; recordId: string }; Body: Re
       const { id, modelId, recordId } = request.params;
       const updateData = request.body;
 
-      const app = appStore.get(id);
+      const app = await appRepository.findById(id);
       if (!app) {
         return reply.code(404).type('application/json').send({
           success: false,
@@ -1241,36 +1272,48 @@ server.put<{ Params: { id: string; modelId: string; recordId: string }; Body: Re
         });
       }
 
-      const records = app.data[modelId] as unknown[];
-      const recordIndex = records.findIndex((r: any) => r.id === recordId);
+      const user = await getUserFromRequest(request);
+      const context = hookContext(id, user);
+
+      // Update record (on the current data, in case it changed since it was read)
+      const changed = await appRepository.changeData(id, (appData, current) => {
+        const records = (appData[modelId] as Record<string, unknown>[] | undefined) ?? [];
+        const recordIndex = records.findIndex(r => r.id === recordId);
+        if (recordIndex === -1) return null;
+
+        const existingRecord = records[recordIndex];
+        const draft = { ...existingRecord, ...updateData };
+        records[recordIndex] = {
+          ...draft,
+          ...appEntityHooks(current, modelId).runBefore(modelId, 'beforeUpdate', { old: existingRecord, new: draft }, context),
+          id: recordId, // Preserve ID
+          updatedAt: new Date().toISOString(),
+        };
+        return { existingRecord, record: records[recordIndex] };
+      });
 
-      if (recordIndex === -1) {
+      if (!changed?.result) {
         return reply.code(404).type('application/json').send({
           success: false,
           error: 'Record not found',
           message: `Record ${recordId} does not exist in model ${modelId}`,
         });
       }
+      const { existingRecord, record } = changed.result;
+      appEntityHooks(changed.app, modelId).runAfter(modelId, 'afterUpdate', { old: existingRecord, new: record }, context);
 
-      // Update record
-      const existingRecord = records[recordIndex] as Record<string, unknown>;
-      records[recordIndex] = {
-        ...existingRecord,
-        ...updateData,
-        id: recordId, // Preserve ID
-        updatedAt: new Date().toISOString(),
-      };
-
-      // Update app timestamp
-      app.updatedAt = new Date();
+      if (isVersionedModel(app, modelId)) {
+        await saveAppRecordVersion(app, modelId, existingRecord, record, user?.id);
+      }
 
       logger.info('Record updated', { appId: id, modelId, recordId });
 
       return reply.code(200).type('application/json').send({
         success: true,
-        record: records[recordIndex],
+        record,
       });
     } catch (error: any) {
+      if (sendHookRejection(reply, error)) return;
       logger.error('Error updating record', error);
       return reply.code(500).type('application/json').send({
         success: false,
@@ -1288,7 +1331,7 @@ server.delete<{ Params: { id: string; modelId: string; recordId: string } }>(
     try {
       const { id, modelId, recordId } = request.params;
 
-      const app = appStore.get(id);
+      const app = await appRepository.findById(id);
       if (!app) {
         return reply.code(404).type('application/json').send({
           success: false,
@@ -1305,10 +1348,18 @@ server.delete<{ Params: { id: string; modelId: string; recordId: string } }>(
         });
       }
 
-      const records = app.data[modelId] as unknown[];
-      const recordIndex = records.findIndex((r: any) => r.id === recordId);
+      const context = hookContext(id, await getUserFromRequest(request));
 
-      if (recordIndex === -1) {
+      // Remove record
+      const changed = await appRepository.changeData(id, (appData, current) => {
+        const records = (appData[modelId] as Record<string, unknown>[] | undefined) ?? [];
+        const recordIndex = records.findIndex(r => r.id === recordId);
+        if (recordIndex === -1) return null;
+        appEntityHooks(current, modelId).runBefore(modelId, 'beforeDelete', { old: records[recordIndex] }, context);
+        return records.splice(recordIndex, 1)[0];
+      });
+
+      if (!changed?.result) {
         return reply.code(404).type('application/json').send({
           success: false,
           error: 'Record not found',
@@ -1316,11 +1367,7 @@ server.delete<{ Params: { id: string; modelId: string; recordId: string } }>(
         });
       }
 
-      // Remove record
-      records.splice(recordIndex, 1);
-
-      // Update app timestamp
-      app.updatedAt = new Date();
+      appEntityHooks(changed.app, modelId).runAfter(modelId, 'afterDelete', { old: changed.result }, context);
 
       logger.info('Record deleted', { appId: id, modelId, recordId });
 
@@ -1329,6 +1376,7 @@ server.delete<{ Params: { id: string; modelId: string; recordId: string } }>(
         message: 'Record deleted successfully',
       });
     } catch (error: any) {
+      if (sendHookRejection(reply, error)) return;
       logger.error('Error deleting record', error);
       return reply.code(500).type('application/json').send({
         success: false,
@@ -1339,6 +1387,258 @@ server.delete<{ Params: { id: string; modelId: string; recordId: string } }>(
   }
 );
 
+// Move a record of a sortable data model between two neighbors (app data keeps records in list order)
+server.post<{
+  Params: { id: string; modelId: string; recordId: string };
+  Body: { previousId?: string | null; nextId?: string | null };
+}>(
+  '/apps/:id/data/:modelId/:recordId/move',
+  async (request: FastifyRequest<{
+    Params: { id: string; modelId: string; recordId: string };
+    Body: { previousId?: string | null; nextId?: string | null };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, modelId, recordId } = request.params;
+      const previousId = request.body?.previousId || null;
+      const nextId = request.body?.nextId || null;
+
+      const app = await appRepository.findById(id);
+      if (!app) {
+        return reply.code(404).type('application/json').send({
+          success: false,
+          error: 'App not found',
+          message: `App with id ${id} does not exist`,
+        });
+      }
+
+      if (!hasModelBehavior(app, modelId, 'sortable')) {
+        return reply.code(400).type('application/json').send({
+          success: false,
+          error: 'Not sortable',
+          message: `Model ${modelId} does not have the sortable behavior`,
+        });
+      }
+
+      // Reply for a move that cannot be made (the data is then left as it is)
+      let refusal: { statusCode: number; error: string; message: string } | undefined;
+      const changed = await appRepository.changeData(id, (appData) => {
+        refusal = undefined;
+        const records = (appData[modelId] as Record<string, unknown>[] | undefined) ?? [];
+        const recordIndex = records.findIndex(r => r.id === recordId);
+        const missing = [recordId, previousId, nextId].find(rid => rid !== null && !records.some(r => r.id === rid));
+        if (recordIndex === -1 || missing !== undefined || recordId === previousId || recordId === nextId) {
+          refusal = {
+            statusCode: 404,
+            error: 'Record not found',
+            message: `Record ${missing ?? recordId} does not exist in model ${modelId}`,
+          };
+          return null;
+        }
+
+        // Take the record out, then put it after its previous neighbor (or before its next one, or last)
+        const [record] = records.splice(recordIndex, 1);
+        const previousIndex = records.findIndex(r => r.id === previousId);
+        const nextIndex = records.findIndex(r => r.id === nextId);
+        if (previousId && nextId && previousIndex >= nextIndex) {
+          refusal = {
+            statusCode: 400,
+            error: 'Invalid move',
+            message: 'The previous record must come before the next record',
+          };
+          return null;
+        }
+        const targetIndex = previousId ? previousIndex + 1 : nextId ? nextIndex : records.length;
+        records.splice(targetIndex, 0, record);
+        return { record, position: targetIndex };
+      });
+
+      if (refusal || !changed?.result) {
+        const { statusCode, ...payload } = refusal ?? {
+          statusCode: 404,
+          error: 'App not found',
+          message: `App with id ${id} does not exist`,
+        };
+        return reply.code(statusCode).type('application/json').send({ success: false, ...payload });
+      }
+      const { record, position } = changed.result;
+
+      logger.info('Record moved', { appId: id, modelId, recordId, position });
+
+      return reply.code(200).type('application/json').send({
+        success: true,
+        record,
+        position,
+      });
+    } catch (error: any) {
+      logger.error('Error moving record', error);
+      return reply.code(500).type('application/json').send({
+        success: false,
+        error: 'Internal server error',
+        message: error.message || 'Failed to move record',
+      });
+    }
+  }
+);
+
+// Version history for records of versionable data models
+// List versions of a record
+server.get<{ Params: { id: string; modelId: string; recordId: string } }>(
+  '/apps/:id/data/:modelId/:recordId/versions',
+  async (request: FastifyRequest<{ Params: { id: string; modelId: string; recordId: string } }>, reply: FastifyReply) => {
+    try {
+      const { id, modelId, recordId } = request.params;
+
+      const app = await appRepository.findById(id);
+      if (!app) {
+        return reply.code(404).type('application/json').send({
+          success: false,
+          error: 'App not found',
+          message: `App with id ${id} does not exist`,
+        });
+      }
+
+      const versions = await recordVersionRepository.list(id, modelId, recordId);
+
+      return reply.code(200).type('application/json').send({
+        success: true,
+        versions,
+      });
+    } catch (error: any) {
+      logger.error('Error listing record versions', error);
+      return reply.code(500).type('application/json').send({
+        success: false,
+        error: 'Internal server error',
+        message: error.message || 'Failed to list record versions',
+      });
+    }
+  }
+);
+
+// Diff two versions of a record
+server.get<{ Params: { id: string; modelId: string; recordId: string }; Querystring: { from?: string; to?: string } }>(
+  '/apps/:id/data/:modelId/:recordId/versions/diff',
+  async (request: FastifyRequest<{ Params: { id: string; modelId: string; recordId: string }; Querystring: { from?: string; to?: string } }>, reply: FastifyReply) => {
+    try {
+      const { id, modelId, recordId } = request.params;
+      const from = parseInt(request.query.from ?? '', 10);
+      const to = parseInt(request.query.to ?? '', 10);
+
+      if (isNaN(from) || isNaN(to)) {
+        return reply.code(400).type('application/json').send({
+          success: false,
+          error: 'Bad request',
+          message: 'from and to version numbers are required',
+        });
+      }
+
+      const [fromVersion, toVersion] = await Promise.all([
+        recordVersionRepository.get(id, modelId, recordId, from),
+        recordVersionRepository.get(id, modelId, recordId, to),
+      ]);
+      if (!fromVersion || !toVersion) {
+        return reply.code(404).type('application/json').send({
+          success: false,
+          error: 'Version not found',
+          message: `Version ${fromVersion ? to : from} of record ${recordId} does not exist`,
+        });
+      }
+
+      return reply.code(200).type('application/json').send({
+        success: true,
+        from,
+        to,
+        changes: diffRecords(fromVersion.data, toVersion.data),
+      });
+    } catch (error: any) {
+      logger.error('Error diffing record versions', error);
+      return reply.code(500).type('application/json').send({
+        success: false,
+        error: 'Internal server error',
+        message: error.message || 'Failed to diff record versions',
+      });
+    }
+  }
+);
+
+// Restore a version of a record (applied as a new update)
+server.post<{ Params: { id: string; modelId: string; recordId: string; version: string } }>(
+  '/apps/:id/data/:modelId/:recordId/versions/:version/restore',
+  async (request: FastifyRequest<{ Params: { id: string; modelId: string; recordId: string; version: string } }>, reply: FastifyReply) => {
+    try {
+      const { id, modelId, recordId } = request.params;
+
+      const app = await appRepository.findById(id);
+      if (!app) {
+        return reply.code(404).type('application/json').send({
+          success: false,
+          error: 'App not found',
+          message: `App with id ${id} does not exist`,
+        });
+      }
+
+      const records = (app.data?.[modelId] as unknown[] | undefined) ?? [];
+      const recordIndex = records.findIndex((r: any) => r.id === recordId);
+      if (recordIndex === -1) {
+        return reply.code(404).type('application/json').send({
+          success: false,
+          error: 'Record not found',
+          message: `Record ${recordId} does not exist in model ${modelId}`,
+        });
+      }
+
+      const version = await recordVersionRepository.get(id, modelId, recordId, parseInt(request.params.version, 10));
+      if (!version) {
+        return reply.code(404).type('application/json').send({
+          success: false,
+          error: 'Version not found',
+          message: `Version ${request.params.version} of record ${recordId} does not exist`,
+        });
+      }
+
+      const changed = await appRepository.changeData(id, (appData) => {
+        const current = (appData[modelId] as Record<string, unknown>[] | undefined) ?? [];
+        const index = current.findIndex(r => r.id === recordId);
+        if (index === -1) return null;
+
+        const existingRecord = current[index];
+        current[index] = {
+          ...existingRecord,
+          ...versionRestoreData(version),
+          id: recordId,
+          updatedAt: new Date().toISOString(),
+        };
+        return { existingRecord, record: current[index] };
+      });
+
+      if (!changed?.result) {
+        return reply.code(404).type('application/json').send({
+          success: false,
+          error: 'Record not found',
+          message: `Record ${recordId} does not exist in model ${modelId}`,
+        });
+      }
+      const { existingRecord, record } = changed.result;
+
+      const user = await getUserFromRequest(request);
+      await saveAppRecordVersion(app, modelId, existingRecord, record, user?.id);
+
+      logger.info('Record version restored', { appId: id, modelId, recordId, version: version.version });
+
+      return reply.code(200).type('application/json').send({
+        success: true,
+        record,
+      });
+    } catch (error: any) {
+      logger.error('Error restoring record version', error);
+      return reply.code(500).type('application/json').send({
+        success: false,
+        error: 'Internal server error',
+        message: error.message || 'Failed to restore record version',
+      });
+    }
+  }
+);
+
 // Preview route - redirects to frontend React preview (backend route kept for backward compatibility)
 server.get<{ Params: { id: string } }>('/preview/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
   const { id } = request.params;
@@ -1350,7 +1650,7 @@ server.get<{ Params: { id: string } }>('/preview/:id', async (request: FastifyRe
     return reply.redirect(302, `http://localhost:5173/preview/${id}?error=invalid`);
   }
 
-  const app = appStore.get(id);
+  const app = await appRepository.findById(id);
 
   if (!app) {
     logger.warn('App not found for preview', { previewId: id });
@@ -1575,6 +1875,38 @@ const start = async () => {
         // Continue anyway - app can work without database
       }
     }
+
+    // Load integration configs; their secret settings are encrypted with the master key
+    if (!config.integrationsMasterKey) {
+      throw new Error('INTEGRATIONS_MASTER_KEY must be set (a development key is only used with NODE_ENV=development)');
+    }
+    integrationConfigService.setStore(
+      integrationConfigRepository,
+      new SecretCipher(config.integrationsMasterKey, config.integrationsPreviousMasterKeys)
+    );
+    const rotatedIntegrations = await integrationConfigService.load();
+    if (rotatedIntegrations > 0) {
+      logger.info('Integration secrets re-encrypted with the current master key', { count: rotatedIntegrations });
+    }
+
+    // Attachment files live on local disk (apps/server/data/attachments by default) or in an S3-compatible store
+    const attachmentStore = config.attachmentStore as BlobStoreDriver;
+    if (!BLOB_STORE_DRIVERS.includes(attachmentStore)) {
+      throw new Error(`Unknown ATTACHMENT_STORE "${attachmentStore}" (expected ${BLOB_STORE_DRIVERS.join(', ')})`);
+    }
+    const blobStore = createBlobStore(attachmentStore, {
+      localDir: config.attachmentDir || join(__dirname, '..', 'data', 'attachments'),
+      s3: {
+        endpoint: config.s3Endpoint,
+        region: config.s3Region,
+        bucket: config.s3Bucket,
+        accessKeyId: config.s3AccessKeyId,
+        secretAccessKey: config.s3SecretAccessKey,
+      },
+    });
+    logger.info(`Using ${attachmentStore} attachment storage`);
+    // Files exported by workflows share the attachment storage
+    setExportFileStore(blobStore);
     
     // Register routes
     await registerDatabaseRoutes(server);
@@ -1584,13 +1916,27 @@ const start = async () => {
     await registerAppAnalysisRoutes(server);
     await registerPublishingRoutes(server);
     await registerBillingRoutes(server);
+    await registerWorkflowRoutes(server, {
+      scheduler: workflowScheduler,
+    });
+    await registerWebhookRoutes(server);
+    await registerAuditRoutes(server);
+    await registerCommentRoutes(server);
+    await registerAttachmentRoutes(server, {
+      blobStore,
+    });
+    await registerTagRoutes(server);
+    await registerImportRoutes(server);
+    await registerExportRoutes(server);
     
     // Register debug routes (for AI assistant debugging)
     await registerDebugRoutes(server, {
-      appStore,
       config,
     });
     
+    // Register discovery conversation routes (list, resume, fork, abandon)
+    await registerDiscoveryConversationRoutes(server);
+
     // Register app routes (discover and create)
     await registerAppRoutes(server, {
       discoveryHandler,
@@ -1601,7 +1947,6 @@ const start = async () => {
       appGenerator,
       neoEngine,
       safetyOrchestrator,
-      appStore,
       checkRateLimit,
       config,
       determinePrivacyLevel,
@@ -1680,6 +2025,10 @@ const start = async () => {
     if (!listenSuccess) {
       throw new Error(`Failed to start server after ${maxRetries} attempts`);
     }
+
+    if (config.workflowSchedulerEnabled) {
+      workflowScheduler.start();
+    }
     
     // Display startup information
     const accessibleUrl = config.host === '0.0.0.0' ? 'localhost' : config.host;
@@ -12,6 +12,21 @@ import {
   type IntegrationConfig,
   type IntegrationProviderId,
 } from '@neo/integrations';
+import { appRepository } from './repositories/app-repository.js';
+
+/**
+ * Send a 404 when the app is not in the app store
+ */
+async function ensureAppExists(appId: string, reply: FastifyReply): Promise<boolean> {
+  if (await appRepository.findById(appId)) {
+    return true;
+  }
+  reply.code(404).send({
+    success: false,
+    error: 'App not found',
+  });
+  return false;
+}
 
 /**
  * Register integration routes
@@ -26,15 +41,16 @@ export async function registerIntegrationsRoutes(server: FastifyInstance): Promi
     async (request: FastifyRequest<{ Params: { appId: string } }>, reply: FastifyReply) => {
       try {
         const { appId } = request.params;
+        if (!(await ensureAppExists(appId, reply))) return;
         
         const integrations = integrationConfigService.getIntegrations(appId);
         const providers = integrationRegistry.getAllProviders();
 
-        // Enrich with provider info
+        // Enrich with provider info (secrets are write-only)
         const enriched = integrations.map(integration => {
           const provider = integrationRegistry.getProvider(integration.providerId);
           return {
-            ...integration,
+            ...integrationConfigService.redact(integration),
             provider: provider ? {
               id: provider.id,
               displayName: provider.displayName,
@@ -57,6 +73,7 @@ export async function registerIntegrationsRoutes(server: FastifyInstance): Promi
             description: p.description,
             requiredSettings: p.requiredSettings,
             optionalSettings: p.optionalSettings,
+            secretSettings: integrationConfigService.getSecretSettings(p.id),
           })),
         });
       } catch (error: any) {
@@ -79,6 +96,7 @@ export async function registerIntegrationsRoutes(server: FastifyInstance): Promi
     async (request: FastifyRequest<{ Params: { appId: string; providerId: string } }>, reply: FastifyReply) => {
       try {
         const { appId, providerId } = request.params;
+        if (!(await ensureAppExists(appId, reply))) return;
         
         const integration = integrationConfigService.getIntegration(appId, providerId as IntegrationProviderId);
         
@@ -94,7 +112,7 @@ export async function registerIntegrationsRoutes(server: FastifyInstance): Promi
         return reply.send({
           success: true,
           integration: {
-            ...integration,
+            ...integrationConfigService.redact(integration),
             provider: provider ? {
               id: provider.id,
               displayName: provider.displayName,
@@ -130,6 +148,7 @@ export async function registerIntegrationsRoutes(server: FastifyInstance): Promi
     async (request: FastifyRequest<{ Params: { appId: string }; Body: { providerId: IntegrationProviderId; displayName?: string; settings: Record<string, any>; enabled?: boolean } }>, reply: FastifyReply) => {
       try {
         const { appId } = request.params;
+        if (!(await ensureAppExists(appId, reply))) return;
         const { providerId, displayName, settings, enabled = true } = request.body;
 
         if (!providerId) {
@@ -139,8 +158,11 @@ export async function registerIntegrationsRoutes(server: FastifyInstance): Promi
           });
         }
 
+        // Secrets are write-only: keep stored ones the client left out or sent redacted
+        const mergedSettings = integrationConfigService.mergeSettings(appId, providerId, settings || {});
+
         // Validate settings
-        const validation = integrationConfigService.validateSettings(providerId, settings);
+        const validation = integrationConfigService.validateSettings(providerId, mergedSettings);
         if (!validation.valid) {
           return reply.code(400).send({
             success: false,
@@ -153,17 +175,17 @@ export async function registerIntegrationsRoutes(server: FastifyInstance): Promi
           providerId,
           appId,
           displayName,
-          settings,
+          settings: mergedSettings,
           enabled,
         };
 
-        integrationConfigService.setIntegration(config);
+        const saved = await integrationConfigService.setIntegration(config);
 
         logger.info('Integration created/updated', { appId, providerId });
 
         return reply.send({
           success: true,
-          integration: config,
+          integration: integrationConfigService.redact(saved),
         });
       } catch (error: any) {
         logger.error('Create/update integration failed', error);
@@ -185,8 +207,9 @@ export async function registerIntegrationsRoutes(server: FastifyInstance): Promi
     async (request: FastifyRequest<{ Params: { appId: string; providerId: string } }>, reply: FastifyReply) => {
       try {
         const { appId, providerId } = request.params;
+        if (!(await ensureAppExists(appId, reply))) return;
         
-        const deleted = integrationConfigService.deleteIntegration(appId, providerId as IntegrationProviderId);
+        const deleted = await integrationConfigService.deleteIntegration(appId, providerId as IntegrationProviderId);
         
         if (!deleted) {
           return reply.code(404).send({
@@ -221,6 +244,7 @@ export async function registerIntegrationsRoutes(server: FastifyInstance): Promi
     async (request: FastifyRequest<{ Params: { appId: string; providerId: string } }>, reply: FastifyReply) => {
       try {
         const { appId, providerId } = request.params;
+        if (!(await ensureAppExists(appId, reply))) return;
         
         const integration = integrationConfigService.getIntegration(appId, providerId as IntegrationProviderId);
         
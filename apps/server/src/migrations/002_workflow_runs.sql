@@ -0,0 +1,20 @@
+-- Migration: 002_workflow_runs
+-- Description: Run history for server-executed workflows (scheduled, webhook, manual)
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS workflow_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  app_id VARCHAR(255) NOT NULL,
+  workflow_id VARCHAR(255) NOT NULL,
+  workflow_name VARCHAR(255),
+  trigger VARCHAR(50) NOT NULL,  -- 'schedule', 'webhook', 'manual'
+  status VARCHAR(50) NOT NULL DEFAULT 'running',  -- 'running', 'succeeded', 'failed'
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  actions_executed INTEGER NOT NULL DEFAULT 0,
+  result JSONB,
+  errors JSONB DEFAULT '[]'
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_app_id ON workflow_runs(app_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_workflow_id ON workflow_runs(app_id, workflow_id, started_at DESC);
@@ -0,0 +1,9 @@
+-- Migration: 003_app_webhook_secrets
+-- Description: Per-app signing secrets for inbound workflow webhooks
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS app_webhook_secrets (
+  app_id VARCHAR(255) PRIMARY KEY,
+  secret VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
@@ -0,0 +1,19 @@
+-- Migration: 004_workflow_waits
+-- Description: Suspended workflow runs waiting on a `wait` action (resumed by the scheduler)
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS workflow_waits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  app_id VARCHAR(255) NOT NULL,
+  workflow_id VARCHAR(255) NOT NULL,
+  run_id UUID REFERENCES workflow_runs(id) ON DELETE SET NULL,  -- run that reached the wait
+  resume_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  resume_index INTEGER NOT NULL,  -- index of the first top-level action to run on resume
+  state JSONB NOT NULL DEFAULT '{}',  -- variables, formData, recordId, user
+  status VARCHAR(50) NOT NULL DEFAULT 'pending',  -- 'pending', 'resumed', 'cancelled'
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  resumed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_waits_due ON workflow_waits(resume_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_workflow_waits_app_id ON workflow_waits(app_id, created_at DESC);
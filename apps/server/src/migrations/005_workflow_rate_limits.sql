@@ -0,0 +1,13 @@
+-- Migration: 005_workflow_rate_limits
+-- Description: Shared execution counters for workflow rateLimit (fixed windows)
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS workflow_rate_limits (
+  key VARCHAR(512) NOT NULL,  -- workflow:<appId>:<workflowId>[:user:<userId>]
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_rate_limits_expires_at ON workflow_rate_limits(expires_at);
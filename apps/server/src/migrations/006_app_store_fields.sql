@@ -0,0 +1,7 @@
+-- Migration: 006_app_store_fields
+-- Description: Keep the full app definition in the apps table (it is the app store of record)
+-- Created: 2026-10-19
+
+ALTER TABLE apps ADD COLUMN IF NOT EXISTS privacy_level VARCHAR(50);
+ALTER TABLE apps ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1;
+ALTER TABLE apps ADD COLUMN IF NOT EXISTS created_by VARCHAR(255);
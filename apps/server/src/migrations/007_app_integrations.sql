@@ -0,0 +1,14 @@
+-- Migration: 007_app_integrations
+-- Description: Per-app integration configs; secret settings are stored encrypted (enc:v1:...)
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS app_integrations (
+  app_id VARCHAR(255) NOT NULL,
+  provider_id VARCHAR(50) NOT NULL,
+  display_name VARCHAR(255),
+  settings JSONB NOT NULL DEFAULT '{}',
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (app_id, provider_id)
+);
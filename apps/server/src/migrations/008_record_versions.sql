@@ -0,0 +1,14 @@
+-- Migration: 008_record_versions
+-- Description: Immutable snapshots of versionable records (database entities and app data)
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS record_versions (
+  app_id VARCHAR(255) NOT NULL,
+  entity_id VARCHAR(255) NOT NULL,
+  record_id VARCHAR(255) NOT NULL,
+  version INTEGER NOT NULL,
+  data JSONB NOT NULL,
+  user_id VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (app_id, entity_id, record_id, version)
+);
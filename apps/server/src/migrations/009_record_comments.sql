@@ -0,0 +1,20 @@
+-- Migration: 009_record_comments
+-- Description: Threaded comments on records of commentable entities
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS record_comments (
+  id VARCHAR(255) PRIMARY KEY,
+  app_id VARCHAR(255) NOT NULL,
+  entity_id VARCHAR(255) NOT NULL,
+  record_id VARCHAR(255) NOT NULL,
+  parent_id VARCHAR(255) REFERENCES record_comments(id) ON DELETE CASCADE,
+  author_id VARCHAR(255) NOT NULL,
+  author_name VARCHAR(255),
+  body TEXT NOT NULL,
+  mentions JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  edited_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_record_comments_record ON record_comments(app_id, entity_id, record_id, created_at);
@@ -0,0 +1,19 @@
+-- Migration: 010_attachments
+-- Description: Files uploaded to records (file/image/signature fields and attachable entities)
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS attachments (
+  id VARCHAR(255) PRIMARY KEY,
+  app_id VARCHAR(255) NOT NULL,
+  entity_id VARCHAR(255) NOT NULL,
+  record_id VARCHAR(255) NOT NULL,
+  field_id VARCHAR(255),
+  file_name VARCHAR(500) NOT NULL,
+  content_type VARCHAR(255) NOT NULL,
+  size INTEGER NOT NULL,
+  storage_key VARCHAR(1000) NOT NULL,
+  uploaded_by VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_record ON attachments(app_id, entity_id, record_id, created_at);
@@ -0,0 +1,18 @@
+-- Migration: 011_discovery_conversations
+-- Description: Discovery chat conversations kept server-side so they can be resumed, forked or abandoned
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS discovery_conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR(255),  -- NULL for conversations started while signed out
+  forked_from UUID REFERENCES discovery_conversations(id) ON DELETE SET NULL,
+  title VARCHAR(500) NOT NULL,  -- the first message, shortened
+  status VARCHAR(50) NOT NULL DEFAULT 'active',  -- 'active', 'completed', 'abandoned'
+  turns JSONB NOT NULL DEFAULT '[]',  -- input, response, state and certainty ledger of each turn
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_discovery_conversations_user ON discovery_conversations(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_discovery_conversations_expires ON discovery_conversations(expires_at);
@@ -0,0 +1,26 @@
+-- Migration: 012_ai_usage
+-- Description: Usage of paid AI calls by user and app, and monthly AI quotas on plans
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR(255),  -- NULL for calls made by guests
+  app_id VARCHAR(255),
+  operation VARCHAR(100),  -- 'discovery', 'modify', ...
+  provider VARCHAR(50) NOT NULL,
+  model VARCHAR(255) NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  cost NUMERIC(12, 6) NOT NULL DEFAULT 0,  -- estimated, in dollars
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user ON ai_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created ON ai_usage(created_at);
+
+-- Monthly AI quotas (null = unlimited). 'hard' refuses AI calls past the
+-- quota; 'soft' answers them with the free fallback generator instead.
+UPDATE plans SET features = features || '{"aiQuota": {"monthlyTokens": 200000, "monthlyDollars": 0.5, "enforcement": "hard"}}' WHERE id = 'free';
+UPDATE plans SET features = features || '{"aiQuota": {"monthlyTokens": 5000000, "monthlyDollars": 20, "enforcement": "soft"}}' WHERE id = 'pro';
+UPDATE plans SET features = features || '{"aiQuota": {"monthlyTokens": null, "monthlyDollars": null, "enforcement": "soft"}}' WHERE id = 'enterprise';
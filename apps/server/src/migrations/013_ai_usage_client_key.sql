@@ -0,0 +1,7 @@
+-- Migration: 013_ai_usage_client_key
+-- Description: Charge guests' AI calls to their IP address so guests get a quota too
+-- Created: 2026-10-19
+
+ALTER TABLE ai_usage ADD COLUMN IF NOT EXISTS client_key VARCHAR(255);  -- set for guests' calls
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_client_key ON ai_usage(client_key, created_at) WHERE user_id IS NULL;
@@ -7,12 +7,81 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { logger } from './utils/logger.js';
 import { getUserFromRequest, getUserRoleForApp } from './auth-routes.js';
-import type { NeoRole, NeoAccessRule, NeoPermissions } from '@neo/blueprint-engine';
+import type { NeoRole, NeoAccessRule, NeoPermissions, UnifiedAppSchema } from '@neo/blueprint-engine';
+import { PermissionsService } from '@neo/runtime';
+import { appRepository, type App } from './repositories/app-repository.js';
+import type { User } from './types/database.js';
 
 // In-memory store (replace with database in production)
-const appPermissions = new Map<string, NeoPermissions>();
 const userAppRoles = new Map<string, Map<string, NeoRole>>(); // userId -> appId -> role
 
+const DEFAULT_PERMISSIONS: NeoPermissions = {
+  roles: ['owner', 'admin', 'editor', 'viewer', 'public'],
+  defaultRole: 'public',
+  rules: [],
+};
+
+/**
+ * Permissions stored on an app
+ * Permissions live in the app's settings, so they are kept by the app store.
+ */
+function permissionsOf(app: App): NeoPermissions | undefined {
+  return app.settings?.permissions as NeoPermissions | undefined;
+}
+
+/**
+ * Store permissions in the app's settings
+ */
+async function savePermissions(app: App, permissions: NeoPermissions): Promise<void> {
+  await appRepository.updateSettings(app.id, { ...app.settings, permissions });
+}
+
+/**
+ * Get the permissions configured for an app (undefined when none were set)
+ */
+export async function getConfiguredPermissions(appId: string): Promise<NeoPermissions | undefined> {
+  const app = await appRepository.findById(appId);
+  return app ? permissionsOf(app) : undefined;
+}
+
+/**
+ * Role assigned to a user in an app (undefined when none was assigned)
+ */
+export function getAssignedRole(userId: string, appId: string): NeoRole | undefined {
+  return userAppRoles.get(userId)?.get(appId);
+}
+
+/**
+ * Users with a role assigned in an app
+ */
+export function getAppMemberIds(appId: string): string[] {
+  return [...userAppRoles.entries()]
+    .filter(([, roles]) => roles.has(appId))
+    .map(([userId]) => userId);
+}
+
+/**
+ * Runtime permission checks for a user of an app
+ * The app owner acts as `owner`; other users get their assigned role,
+ * or the app's default role.
+ */
+export function createAppPermissions(app: App, user: User | null): PermissionsService {
+  const permissions = permissionsOf(app);
+  const defaultRole: NeoRole = permissions?.defaultRole ?? 'public';
+  const role: NeoRole = !user
+    ? 'public'
+    : app.userId === user.id
+      ? 'owner'
+      : getAssignedRole(user.id, app.id) ?? defaultRole;
+
+  return new PermissionsService({
+    userId: user?.id,
+    role,
+    appId: app.id,
+    schema: { ...app.schema, permissions } as unknown as UnifiedAppSchema,
+  });
+}
+
 /**
  * Register permissions routes
  */
@@ -27,18 +96,22 @@ export async function registerPermissionsRoutes(server: FastifyInstance): Promis
       try {
         const { appId } = request.params;
         
-        // Get permissions from store
-        const permissions = appPermissions.get(appId);
+        const app = await appRepository.findById(appId);
+        if (!app) {
+          return reply.code(404).send({
+            success: false,
+            error: 'App not found',
+          });
+        }
+        
+        // Get permissions from the app
+        const permissions = permissionsOf(app);
         
         if (!permissions) {
           // Return default permissions
           return reply.send({
             success: true,
-            permissions: {
-              roles: ['owner', 'admin', 'editor', 'viewer', 'public'],
-              defaultRole: 'public',
-              rules: [],
-            },
+            permissions: DEFAULT_PERMISSIONS,
           });
         }
         
@@ -68,12 +141,16 @@ export async function registerPermissionsRoutes(server: FastifyInstance): Promis
         const { appId } = request.params;
         const { permissions: update } = request.body;
         
+        const app = await appRepository.findById(appId);
+        if (!app) {
+          return reply.code(404).send({
+            success: false,
+            error: 'App not found',
+          });
+        }
+        
         // Get current permissions
-        const current = appPermissions.get(appId) || {
-          roles: ['owner', 'admin', 'editor', 'viewer', 'public'],
-          defaultRole: 'public',
-          rules: [],
-        };
+        const current = permissionsOf(app) || DEFAULT_PERMISSIONS;
         
         // Merge updates
         const updated: NeoPermissions = {
@@ -83,7 +160,7 @@ export async function registerPermissionsRoutes(server: FastifyInstance): Promis
         };
         
         // Save
-        appPermissions.set(appId, updated);
+        await savePermissions(app, updated);
         
         logger.info('Permissions updated', { appId });
         
@@ -123,6 +200,14 @@ export async function registerPermissionsRoutes(server: FastifyInstance): Promis
           });
         }
         
+        const app = await appRepository.findById(appId);
+        if (!app) {
+          return reply.code(404).send({
+            success: false,
+            error: 'App not found',
+          });
+        }
+        
         // Get or create user roles map
         let userRoles = userAppRoles.get(userId);
         if (!userRoles) {
@@ -194,18 +279,22 @@ export async function registerPermissionsRoutes(server: FastifyInstance): Promis
         const { appId } = request.params;
         const { rule } = request.body;
         
+        const app = await appRepository.findById(appId);
+        if (!app) {
+          return reply.code(404).send({
+            success: false,
+            error: 'App not found',
+          });
+        }
+        
         // Get current permissions
-        const permissions = appPermissions.get(appId) || {
-          roles: ['owner', 'admin', 'editor', 'viewer', 'public'],
-          defaultRole: 'public',
-          rules: [],
-        };
+        const current = permissionsOf(app) || DEFAULT_PERMISSIONS;
         
         // Add rule
-        permissions.rules = [...permissions.rules, rule];
+        const permissions = { ...current, rules: [...current.rules, rule] };
         
         // Save
-        appPermissions.set(appId, permissions);
+        await savePermissions(app, permissions);
         
         logger.info('Access rule added', { appId, ruleId: rule.id });
         
@@ -234,9 +323,17 @@ export async function registerPermissionsRoutes(server: FastifyInstance): Promis
       try {
         const { appId, ruleId } = request.params;
         
+        const app = await appRepository.findById(appId);
+        if (!app) {
+          return reply.code(404).send({
+            success: false,
+            error: 'App not found',
+          });
+        }
+        
         // Get current permissions
-        const permissions = appPermissions.get(appId);
-        if (!permissions) {
+        const current = permissionsOf(app);
+        if (!current) {
           return reply.code(404).send({
             success: false,
             error: 'Permissions not found',
@@ -244,10 +341,13 @@ export async function registerPermissionsRoutes(server: FastifyInstance): Promis
         }
         
         // Remove rule
-        permissions.rules = permissions.rules.filter((r: NeoAccessRule) => r.id !== ruleId);
+        const permissions = {
+          ...current,
+          rules: current.rules.filter((r: NeoAccessRule) => r.id !== ruleId),
+        };
         
         // Save
-        appPermissions.set(appId, permissions);
+        await savePermissions(app, permissions);
         
         logger.info('Access rule removed', { appId, ruleId });
         
@@ -7,6 +7,7 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { logger } from './utils/logger.js';
 import { getUserFromRequest } from './auth-routes.js';
+import { appRepository } from './repositories/app-repository.js';
 import {
   PublishingService,
   DeploymentService,
@@ -78,13 +79,6 @@ const storage = new InMemoryPublisherStorage();
 const publishingService = new PublishingService(storage);
 const deploymentService = new DeploymentService(storage);
 
-// In-memory app store (reference to existing app store)
-let appStore: Map<string, any> | null = null;
-
-export function setAppStore(store: Map<string, any>): void {
-  appStore = store;
-}
-
 /**
  * Register publishing routes
  */
@@ -110,15 +104,7 @@ export async function registerPublishingRoutes(server: FastifyInstance): Promise
         // Get user (optional)
         const user = await getUserFromRequest(request);
         
-        // Get app from store (would come from database in production)
-        if (!appStore) {
-          return reply.code(500).send({
-            success: false,
-            error: 'App store not initialized',
-          });
-        }
-        
-        const app = appStore.get(appId);
+        const app = await appRepository.findById(appId);
         if (!app) {
           return reply.code(404).send({
             success: false,
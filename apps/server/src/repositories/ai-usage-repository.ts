@@ -0,0 +1,222 @@
+/**
+ * AI Usage Repository
+ * Stores the tokens and estimated cost of paid AI calls, by user and app
+ * (in-memory fallback when database is not available).
+ */
+import crypto from 'crypto';
+import type { CostEntry } from '@neo/ai-engine';
+import { query, queryOne, execute, isDatabaseEnabled } from '../services/database.js';
+import type { DbAiUsage } from '../types/database.js';
+
+export interface AIUsageRecord {
+  id: string;
+  userId?: string;
+  /** Guest's IP address or session (only for calls without a user) */
+  clientKey?: string;
+  appId?: string;
+  operation?: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  createdAt: string;
+}
+
+export interface AIUsageTotals {
+  tokens: number;
+  cost: number;
+  calls: number;
+}
+
+/**
+ * Calls made in [from, to), optionally by one user or guest
+ */
+export interface AIUsageFilter {
+  userId?: string;
+  clientKey?: string;
+  from: Date;
+  to?: Date;
+}
+
+export type AIUsageGroup = 'user' | 'app' | 'operation' | 'model';
+
+const GROUP_COLUMNS: Record<AIUsageGroup, keyof DbAiUsage> = {
+  user: 'user_id',
+  app: 'app_id',
+  operation: 'operation',
+  model: 'model',
+};
+
+const GROUP_FIELDS: Record<AIUsageGroup, keyof AIUsageRecord> = {
+  user: 'userId',
+  app: 'appId',
+  operation: 'operation',
+  model: 'model',
+};
+
+/**
+ * In-memory store (fallback when database is not available)
+ */
+const memoryUsage: AIUsageRecord[] = [];
+
+function matches(record: AIUsageRecord, filter: AIUsageFilter): boolean {
+  const createdAt = new Date(record.createdAt);
+  return (!filter.userId || record.userId === filter.userId)
+    && (!filter.clientKey || record.clientKey === filter.clientKey)
+    && createdAt >= filter.from
+    && (!filter.to || createdAt < filter.to);
+}
+
+/**
+ * WHERE clause and parameters for a filter
+ */
+function whereClause(filter: AIUsageFilter): { where: string; params: unknown[] } {
+  const conditions = ['created_at >= $1'];
+  const params: unknown[] = [filter.from];
+  if (filter.to) {
+    params.push(filter.to);
+    conditions.push(`created_at < $${params.length}`);
+  }
+  if (filter.userId) {
+    params.push(filter.userId);
+    conditions.push(`user_id = $${params.length}`);
+  }
+  if (filter.clientKey) {
+    params.push(filter.clientKey);
+    conditions.push(`client_key = $${params.length}`);
+  }
+  return { where: conditions.join(' AND '), params };
+}
+
+function addTo(totals: AIUsageTotals, record: AIUsageRecord): void {
+  totals.tokens += record.totalTokens;
+  totals.cost += record.cost;
+  totals.calls += 1;
+}
+
+interface DbTotals {
+  tokens: string | null;
+  cost: string | null;
+  calls: string;
+}
+
+function dbToTotals(row: DbTotals | null): AIUsageTotals {
+  return {
+    tokens: parseInt(row?.tokens || '0', 10),
+    cost: parseFloat(row?.cost || '0'),
+    calls: parseInt(row?.calls || '0', 10),
+  };
+}
+
+/**
+ * AI Usage Repository class
+ */
+export class AIUsageRepository {
+  /**
+   * Store a paid call's usage
+   */
+  async record(entry: CostEntry): Promise<void> {
+    const record: AIUsageRecord = {
+      id: crypto.randomUUID(),
+      userId: entry.userId,
+      clientKey: entry.userId ? undefined : entry.clientKey,
+      appId: entry.appId,
+      operation: entry.operation,
+      provider: entry.provider,
+      model: entry.model,
+      promptTokens: entry.promptTokens ?? 0,
+      completionTokens: entry.completionTokens ?? 0,
+      totalTokens: entry.tokensUsed,
+      cost: entry.estimatedCost,
+      createdAt: entry.timestamp.toISOString(),
+    };
+
+    if (!isDatabaseEnabled()) {
+      memoryUsage.push(record);
+      return;
+    }
+
+    await execute(`
+      INSERT INTO ai_usage
+        (id, user_id, client_key, app_id, operation, provider, model, prompt_tokens, completion_tokens, total_tokens, cost, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    `, [
+      record.id,
+      record.userId || null,
+      record.clientKey || null,
+      record.appId || null,
+      record.operation || null,
+      record.provider,
+      record.model,
+      record.promptTokens,
+      record.completionTokens,
+      record.totalTokens,
+      record.cost,
+      record.createdAt,
+    ]);
+  }
+
+  /**
+   * Tokens, cost and number of calls matching a filter
+   */
+  async totals(filter: AIUsageFilter): Promise<AIUsageTotals> {
+    if (!isDatabaseEnabled()) {
+      const totals: AIUsageTotals = { tokens: 0, cost: 0, calls: 0 };
+      for (const record of memoryUsage) {
+        if (matches(record, filter)) addTo(totals, record);
+      }
+      return totals;
+    }
+
+    const { where, params } = whereClause(filter);
+    const row = await queryOne<DbTotals>(`
+      SELECT SUM(total_tokens) AS tokens, SUM(cost) AS cost, COUNT(*) AS calls
+      FROM ai_usage
+      WHERE ${where}
+    `, params);
+
+    return dbToTotals(row);
+  }
+
+  /**
+   * Totals matching a filter by user, app, operation or model, costliest first
+   * (`key` is null for calls without one, such as guests' calls by user)
+   */
+  async totalsBy(
+    group: AIUsageGroup,
+    filter: AIUsageFilter,
+    limit = 100
+  ): Promise<Array<AIUsageTotals & { key: string | null }>> {
+    if (!isDatabaseEnabled()) {
+      const groups = new Map<string | null, AIUsageTotals>();
+      for (const record of memoryUsage) {
+        if (!matches(record, filter)) continue;
+        const key = (record[GROUP_FIELDS[group]] as string | undefined) ?? null;
+        if (!groups.has(key)) groups.set(key, { tokens: 0, cost: 0, calls: 0 });
+        addTo(groups.get(key)!, record);
+      }
+      return Array.from(groups, ([key, totals]) => ({ key, ...totals }))
+        .sort((a, b) => b.cost - a.cost)
+        .slice(0, limit);
+    }
+
+    const column = GROUP_COLUMNS[group];
+    const { where, params } = whereClause(filter);
+    params.push(limit);
+    const rows = await query<DbTotals & { key: string | null }>(`
+      SELECT ${column} AS key, SUM(total_tokens) AS tokens, SUM(cost) AS cost, COUNT(*) AS calls
+      FROM ai_usage
+      WHERE ${where}
+      GROUP BY ${column}
+      ORDER BY SUM(cost) DESC
+      LIMIT $${params.length}
+    `, params);
+
+    return rows.map(row => ({ key: row.key, ...dbToTotals(row) }));
+  }
+}
+
+// Singleton instance
+export const aiUsageRepository = new AIUsageRepository();
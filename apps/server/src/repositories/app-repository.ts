@@ -1,10 +1,11 @@
 /**
  * App Repository
- * Handles app persistence to database or file-based storage
+ * Handles app persistence through the configured app storage (memory, SQLite file or Postgres)
  */
-import { query, queryOne, execute, isDatabaseEnabled } from '../services/database.js';
-import type { DbApp } from '../types/database.js';
-import fs from 'fs';
+import { randomUUID } from 'crypto';
+import { AppCategory, AppPrivacyLevel, type App as NeoApp } from '@neo/contracts';
+import { config } from '../config.js';
+import { createAppStorage, type AppStorage, type AppStorageDriver } from './app-storage.js';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -16,6 +17,9 @@ export interface App {
   name: string;
   description?: string;
   category?: string;
+  privacyLevel?: string;
+  version?: number;
+  createdBy?: string;
   schema: Record<string, unknown>;
   theme?: Record<string, unknown>;
   data?: Record<string, unknown>;
@@ -27,86 +31,54 @@ export interface App {
 }
 
 /**
- * File-based storage path (used when no database is configured)
+ * Default SQLite file (used when no database is configured)
  */
 const DATA_DIR = path.join(__dirname, '..', '..', 'data');
-const APPS_FILE = path.join(DATA_DIR, 'apps.json');
+const SQLITE_FILE = path.join(DATA_DIR, 'apps.sqlite');
 
-/**
- * Ensure data directory exists
- */
-function ensureDataDir(): void {
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
-  }
-}
-
-/**
- * Load apps from file
- */
-function loadAppsFromFile(): Map<string, App> {
-  try {
-    ensureDataDir();
-    if (fs.existsSync(APPS_FILE)) {
-      const data = fs.readFileSync(APPS_FILE, 'utf-8');
-      const apps = JSON.parse(data) as App[];
-      const map = new Map<string, App>();
-      for (const app of apps) {
-        map.set(app.id, app);
-      }
-      console.log(`[AppRepository] Loaded ${map.size} apps from file storage`);
-      return map;
-    }
-  } catch (err) {
-    console.error('[AppRepository] Failed to load apps from file:', err);
-  }
-  return new Map<string, App>();
-}
+const STORAGE_DRIVERS: AppStorageDriver[] = ['memory', 'sqlite', 'postgres'];
 
-/**
- * Save apps to file
- */
-function saveAppsToFile(apps: Map<string, App>): void {
-  try {
-    ensureDataDir();
-    const data = JSON.stringify(Array.from(apps.values()), null, 2);
-    fs.writeFileSync(APPS_FILE, data, 'utf-8');
-    console.log(`[AppRepository] Saved ${apps.size} apps to file storage`);
-  } catch (err) {
-    console.error('[AppRepository] Failed to save apps to file:', err);
-  }
-}
+/** Times a data change is retried when other writes keep getting in first */
+const MAX_DATA_CHANGE_ATTEMPTS = 10;
 
 /**
- * In-memory store for apps (loaded from file on startup when no database)
+ * Convert a stored app into the contracts App used by routes and generators
  */
-let memoryStore: Map<string, App> | null = null;
-
-function getMemoryStoreInstance(): Map<string, App> {
-  if (!memoryStore) {
-    // Load from file on first access
-    memoryStore = loadAppsFromFile();
-  }
-  return memoryStore;
+function toNeoApp(app: App): NeoApp {
+  return {
+    id: app.id,
+    name: app.name,
+    description: app.description,
+    category: (app.category as AppCategory) || AppCategory.PERSONAL,
+    privacyLevel: (app.privacyLevel as AppPrivacyLevel) || AppPrivacyLevel.PRIVATE,
+    version: app.version || 1,
+    createdAt: app.createdAt ? new Date(app.createdAt) : new Date(),
+    updatedAt: app.updatedAt ? new Date(app.updatedAt) : new Date(),
+    createdBy: app.createdBy || app.userId || randomUUID(),
+    schema: app.schema as any,
+    theme: app.theme as any,
+    data: app.data as any,
+    settings: app.settings as any,
+  };
 }
 
 /**
- * Convert database row to App object
+ * Convert a contracts App into a stored app
  */
-function dbToApp(row: DbApp): App {
+function fromNeoApp(app: NeoApp): App {
   return {
-    id: row.id,
-    name: row.name,
-    description: row.description || undefined,
-    category: row.category || undefined,
-    schema: row.schema,
-    theme: row.theme || undefined,
-    data: row.data || {},
-    settings: row.settings || {},
-    isPublic: row.is_public,
-    userId: row.user_id,
-    createdAt: row.created_at.toISOString(),
-    updatedAt: row.updated_at.toISOString(),
+    id: app.id,
+    name: app.name,
+    description: app.description,
+    category: app.category,
+    privacyLevel: app.privacyLevel,
+    version: app.version,
+    createdBy: app.createdBy,
+    schema: app.schema as unknown as Record<string, unknown>,
+    theme: app.theme as unknown as Record<string, unknown>,
+    data: app.data as Record<string, unknown>,
+    settings: app.settings as Record<string, unknown>,
+    createdAt: app.createdAt instanceof Date ? app.createdAt.toISOString() : app.createdAt,
   };
 }
 
@@ -114,272 +86,189 @@ function dbToApp(row: DbApp): App {
  * App Repository class
  */
 export class AppRepository {
+  private storage: AppStorage | null = null;
+
+  /**
+   * Storage backend (created on first use, after env vars are loaded)
+   */
+  private getStorage(): AppStorage {
+    if (!this.storage) {
+      const driver = config.appStoreDriver as AppStorageDriver;
+      if (!STORAGE_DRIVERS.includes(driver)) {
+        throw new Error(`Unknown APP_STORE "${driver}" (expected ${STORAGE_DRIVERS.join(', ')})`);
+      }
+      this.storage = createAppStorage(driver, config.appStorePath || SQLITE_FILE);
+      console.log(`[AppRepository] Using ${driver} app storage`);
+    }
+    return this.storage;
+  }
+
+  /**
+   * Replace the storage backend (tests)
+   */
+  useStorage(storage: AppStorage): void {
+    this.storage = storage;
+  }
+
+  /**
+   * Name of the active storage driver
+   */
+  get driver(): AppStorageDriver {
+    return this.getStorage().driver;
+  }
+
   /**
    * Save an app (create or update)
+   * The owner is kept when no userId is given.
    */
   async save(app: App, userId?: string): Promise<App> {
-    if (!isDatabaseEnabled()) {
-      // Fallback to file-based storage
-      const store = getMemoryStoreInstance();
-      const savedApp = { 
-        ...app, 
-        userId: userId || null,
-        updatedAt: new Date().toISOString(),
-        createdAt: app.createdAt || new Date().toISOString(),
-      };
-      store.set(app.id, savedApp);
-      saveAppsToFile(store); // Persist to file
-      return savedApp;
-    }
-    
-    const existing = await this.findById(app.id);
-    
-    if (existing) {
-      // Update existing app
-      const result = await queryOne<DbApp>(`
-        UPDATE apps 
-        SET name = $2, 
-            description = $3, 
-            category = $4, 
-            schema = $5, 
-            theme = $6, 
-            data = $7, 
-            settings = $8, 
-            is_public = $9,
-            user_id = COALESCE($10, user_id)
-        WHERE id = $1
-        RETURNING *
-      `, [
-        app.id,
-        app.name,
-        app.description || null,
-        app.category || null,
-        JSON.stringify(app.schema),
-        app.theme ? JSON.stringify(app.theme) : null,
-        JSON.stringify(app.data || {}),
-        JSON.stringify(app.settings || {}),
-        app.isPublic || false,
-        userId || null,
-      ]);
-      
-      return result ? dbToApp(result) : app;
-    } else {
-      // Create new app
-      const result = await queryOne<DbApp>(`
-        INSERT INTO apps (id, user_id, name, description, category, schema, theme, data, settings, is_public)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-        RETURNING *
-      `, [
-        app.id,
-        userId || null,
-        app.name,
-        app.description || null,
-        app.category || null,
-        JSON.stringify(app.schema),
-        app.theme ? JSON.stringify(app.theme) : null,
-        JSON.stringify(app.data || {}),
-        JSON.stringify(app.settings || {}),
-        app.isPublic || false,
-      ]);
-      
-      return result ? dbToApp(result) : app;
-    }
+    const storage = this.getStorage();
+    const existing = await storage.get(app.id);
+    const now = new Date().toISOString();
+
+    return storage.put({
+      ...app,
+      userId: userId || existing?.userId || app.userId || null,
+      isPublic: app.isPublic ?? existing?.isPublic ?? false,
+      createdAt: existing?.createdAt || app.createdAt || now,
+      updatedAt: now,
+    });
   }
-  
+
   /**
    * Find an app by ID
    */
   async findById(id: string): Promise<App | null> {
-    if (!isDatabaseEnabled()) {
-      return getMemoryStoreInstance().get(id) || null;
-    }
-    
-    const result = await queryOne<DbApp>(`
-      SELECT * FROM apps WHERE id = $1
-    `, [id]);
-    
-    return result ? dbToApp(result) : null;
+    return this.getStorage().get(id);
   }
-  
+
   /**
    * Find all apps for a user
    */
   async findByUserId(userId: string): Promise<App[]> {
-    if (!isDatabaseEnabled()) {
-      return Array.from(getMemoryStoreInstance().values()).filter(app => app.userId === userId);
-    }
-    
-    const results = await query<DbApp>(`
-      SELECT * FROM apps WHERE user_id = $1 ORDER BY updated_at DESC
-    `, [userId]);
-    
-    return results.map(dbToApp);
+    return this.getStorage().list({ userId });
   }
-  
+
   /**
    * Find all public apps
    */
   async findPublic(limit: number = 50): Promise<App[]> {
-    if (!isDatabaseEnabled()) {
-      return Array.from(getMemoryStoreInstance().values())
-        .filter(app => app.isPublic)
-        .slice(0, limit);
-    }
-    
-    const results = await query<DbApp>(`
-      SELECT * FROM apps WHERE is_public = true ORDER BY updated_at DESC LIMIT $1
-    `, [limit]);
-    
-    return results.map(dbToApp);
+    return this.getStorage().list({ isPublic: true, limit });
   }
-  
+
   /**
    * Find all apps (admin only, limited)
    */
   async findAll(limit: number = 100): Promise<App[]> {
-    if (!isDatabaseEnabled()) {
-      return Array.from(getMemoryStoreInstance().values()).slice(0, limit);
-    }
-    
-    const results = await query<DbApp>(`
-      SELECT * FROM apps ORDER BY updated_at DESC LIMIT $1
-    `, [limit]);
-    
-    return results.map(dbToApp);
+    return this.getStorage().list({ limit });
   }
-  
+
+  /**
+   * Count all apps
+   */
+  async count(): Promise<number> {
+    return this.getStorage().count();
+  }
+
   /**
    * Count apps for a user
    */
   async countByUserId(userId: string): Promise<number> {
-    if (!isDatabaseEnabled()) {
-      return Array.from(getMemoryStoreInstance().values()).filter(app => app.userId === userId).length;
-    }
-    
-    const result = await queryOne<{ count: string }>(`
-      SELECT COUNT(*) as count FROM apps WHERE user_id = $1
-    `, [userId]);
-    
-    return parseInt(result?.count || '0', 10);
+    return this.getStorage().count({ userId });
   }
-  
+
   /**
    * Delete an app
    */
   async delete(id: string): Promise<boolean> {
-    if (!isDatabaseEnabled()) {
-      const store = getMemoryStoreInstance();
-      const result = store.delete(id);
-      if (result) {
-        saveAppsToFile(store); // Persist deletion
-      }
-      return result;
-    }
-    
-    const result = await execute(`
-      DELETE FROM apps WHERE id = $1
-    `, [id]);
-    
-    return result.rowCount > 0;
+    return this.getStorage().delete(id);
   }
-  
+
   /**
    * Delete an app (only if owned by user)
    */
   async deleteByUser(id: string, userId: string): Promise<boolean> {
-    if (!isDatabaseEnabled()) {
-      const store = getMemoryStoreInstance();
-      const app = store.get(id);
-      if (app && app.userId === userId) {
-        const result = store.delete(id);
-        if (result) {
-          saveAppsToFile(store); // Persist deletion
-        }
-        return result;
-      }
-      return false;
-    }
-    
-    const result = await execute(`
-      DELETE FROM apps WHERE id = $1 AND user_id = $2
-    `, [id, userId]);
-    
-    return result.rowCount > 0;
+    return this.getStorage().delete(id, userId);
   }
-  
+
   /**
-   * Update app data (for CRUD operations)
+   * Change app data without losing concurrent changes to it
+   * `change` edits a copy of the current data in place. When another write
+   * got in between the read and the write, it runs again on the fresh data,
+   * so it must not have side effects. Returning null leaves the data as it is.
+   * @returns the app and what `change` returned, or null when the app does not exist
    */
-  async updateData(id: string, data: Record<string, unknown>): Promise<App | null> {
-    if (!isDatabaseEnabled()) {
-      const store = getMemoryStoreInstance();
-      const app = store.get(id);
-      if (app) {
-        app.data = data;
-        app.updatedAt = new Date().toISOString();
-        store.set(id, app);
-        saveAppsToFile(store); // Persist update
-        return app;
+  async changeData<T>(
+    id: string,
+    change: (data: Record<string, unknown>, app: App) => T | null
+  ): Promise<{ app: App; result: T | null } | null> {
+    const storage = this.getStorage();
+    for (let attempt = 0; attempt < MAX_DATA_CHANGE_ATTEMPTS; attempt++) {
+      const app = await storage.get(id);
+      if (!app) {
+        return null;
+      }
+
+      const expected = app.data || {};
+      const data = structuredClone(expected);
+      const result = change(data, app);
+      if (result === null) {
+        return { app, result };
+      }
+
+      const updatedAt = new Date().toISOString();
+      if (await storage.replaceData(id, expected, data, updatedAt)) {
+        return { app: { ...app, data, updatedAt }, result };
       }
-      return null;
     }
-    
-    const result = await queryOne<DbApp>(`
-      UPDATE apps SET data = $2 WHERE id = $1 RETURNING *
-    `, [id, JSON.stringify(data)]);
-    
-    return result ? dbToApp(result) : null;
+    throw new Error(`App ${id} data is changing too often to apply the change`);
+  }
+
+  /**
+   * Update app settings
+   */
+  async updateSettings(id: string, settings: Record<string, unknown>): Promise<App | null> {
+    return this.update(id, { settings });
   }
-  
+
   /**
    * Transfer app ownership
    */
   async transferOwnership(id: string, newUserId: string): Promise<App | null> {
-    if (!isDatabaseEnabled()) {
-      const store = getMemoryStoreInstance();
-      const app = store.get(id);
-      if (app) {
-        app.userId = newUserId;
-        app.updatedAt = new Date().toISOString();
-        store.set(id, app);
-        saveAppsToFile(store); // Persist update
-        return app;
-      }
-      return null;
-    }
-    
-    const result = await queryOne<DbApp>(`
-      UPDATE apps SET user_id = $2 WHERE id = $1 RETURNING *
-    `, [id, newUserId]);
-    
-    return result ? dbToApp(result) : null;
+    return this.update(id, { userId: newUserId });
   }
-  
+
   // ============================================
-  // Memory store access (for backward compatibility)
+  // Contracts App access (used by routes)
   // ============================================
-  
+
   /**
-   * Get memory store (for legacy code)
+   * Find an app by ID as a contracts App
    */
-  getMemoryStore(): Map<string, App> {
-    return getMemoryStoreInstance();
+  async getApp(id: string): Promise<NeoApp | null> {
+    const app = await this.findById(id);
+    return app ? toNeoApp(app) : null;
   }
-  
+
   /**
-   * Set app in memory store (for session-only storage)
+   * Save a contracts App (create or update)
    */
-  setInMemory(app: App): void {
-    const store = getMemoryStoreInstance();
-    store.set(app.id, app);
-    saveAppsToFile(store); // Also persist to file
+  async saveApp(app: NeoApp, userId?: string): Promise<NeoApp> {
+    return toNeoApp(await this.save(fromNeoApp(app), userId));
   }
-  
-  /**
-   * Get app from memory store
-   */
-  getFromMemory(id: string): App | undefined {
-    return getMemoryStoreInstance().get(id);
+
+  private async update(id: string, changes: Partial<App>): Promise<App | null> {
+    const storage = this.getStorage();
+    const existing = await storage.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    return storage.put({
+      ...existing,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    });
   }
 }
 
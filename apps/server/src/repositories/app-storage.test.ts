@@ -0,0 +1,100 @@
+import { describe, expect, test, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { MemoryAppStorage, SqliteAppStorage, type AppStorage } from "./app-storage.js";
+import type { App } from "./app-repository.js";
+
+function makeApp(id: string, overrides: Partial<App> = {}): App {
+  return {
+    id,
+    name: `App ${id}`,
+    category: "business",
+    privacyLevel: "private",
+    version: 1,
+    schema: { pages: [], dataModels: [], flows: [] },
+    data: { tasks: [{ id: "t1", title: "First" }] },
+    settings: {},
+    isPublic: false,
+    userId: null,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "neo-app-storage-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const backends: Array<[string, () => AppStorage]> = [
+  ["memory", () => new MemoryAppStorage()],
+  ["sqlite", () => new SqliteAppStorage(path.join(tempDir, "apps.sqlite"))],
+];
+
+describe.each(backends)("%s app storage", (_name, createStorage) => {
+  test("stores, lists and deletes apps", async () => {
+    const storage = createStorage();
+    await storage.put(makeApp("a", { userId: "u1", updatedAt: "2026-01-02T00:00:00.000Z" }));
+    await storage.put(makeApp("b", { userId: "u2", isPublic: true }));
+
+    expect(await storage.get("a")).toEqual(makeApp("a", { userId: "u1", updatedAt: "2026-01-02T00:00:00.000Z" }));
+    expect((await storage.list()).map(app => app.id)).toEqual(["a", "b"]);
+    expect((await storage.list({ userId: "u2" })).map(app => app.id)).toEqual(["b"]);
+    expect((await storage.list({ isPublic: true, limit: 1 })).map(app => app.id)).toEqual(["b"]);
+    expect(await storage.count({ userId: "u1" })).toBe(1);
+
+    expect(await storage.delete("a", "u2")).toBe(false);
+    expect(await storage.delete("a", "u1")).toBe(true);
+    expect(await storage.get("a")).toBeNull();
+  });
+
+  test("replaces an app on put", async () => {
+    const storage = createStorage();
+    await storage.put(makeApp("a"));
+    await storage.put(makeApp("a", { name: "Renamed", data: { tasks: [] } }));
+
+    const stored = await storage.get("a");
+    expect(stored?.name).toBe("Renamed");
+    expect(stored?.data).toEqual({ tasks: [] });
+    expect(await storage.count()).toBe(1);
+  });
+
+  test("replaces data only when it is still what the writer read", async () => {
+    const storage = createStorage();
+    await storage.put(makeApp("a"));
+    const read = (await storage.get("a"))!.data!;
+
+    const first = { tasks: [{ id: "t1", title: "First" }, { id: "t2", title: "Second" }] };
+    const second = { tasks: [{ id: "t1", title: "First" }, { id: "t3", title: "Third" }] };
+    expect(await storage.replaceData("a", read, first, "2026-01-02T00:00:00.000Z")).toBe(true);
+    expect(await storage.replaceData("a", read, second, "2026-01-03T00:00:00.000Z")).toBe(false);
+
+    const stored = await storage.get("a");
+    expect(stored?.data).toEqual(first);
+    expect(stored?.updatedAt).toBe("2026-01-02T00:00:00.000Z");
+    expect(await storage.replaceData("missing", read, second, "2026-01-03T00:00:00.000Z")).toBe(false);
+  });
+});
+
+describe("SqliteAppStorage", () => {
+  test("keeps apps across reopen", async () => {
+    const file = path.join(tempDir, "apps.sqlite");
+    await new SqliteAppStorage(file).put(makeApp("a"));
+
+    expect(await new SqliteAppStorage(file).get("a")).toEqual(makeApp("a"));
+  });
+
+  test("imports a legacy apps.json on first open", async () => {
+    fs.writeFileSync(path.join(tempDir, "apps.json"), JSON.stringify([makeApp("legacy")]));
+
+    const storage = new SqliteAppStorage(path.join(tempDir, "apps.sqlite"));
+    expect((await storage.get("legacy"))?.name).toBe("App legacy");
+  });
+});
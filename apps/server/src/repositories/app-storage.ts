@@ -0,0 +1,437 @@
+/**
+ * App Storage
+ * Storage backends behind AppRepository: in-memory, SQLite file and Postgres
+ */
+import Database from 'better-sqlite3';
+import { query, queryOne, execute } from '../services/database.js';
+import type { DbApp } from '../types/database.js';
+import type { App } from './app-repository.js';
+import fs from 'fs';
+import path from 'path';
+
+export type AppStorageDriver = 'memory' | 'sqlite' | 'postgres';
+
+export interface AppListFilter {
+  userId?: string;
+  isPublic?: boolean;
+  limit?: number;
+}
+
+/**
+ * Storage interface shared by all backends
+ * Records are stored as given; timestamps and ownership rules live in AppRepository.
+ */
+export interface AppStorage {
+  readonly driver: AppStorageDriver;
+  get(id: string): Promise<App | null>;
+  put(app: App): Promise<App>;
+  list(filter?: AppListFilter): Promise<App[]>;
+  count(filter?: AppListFilter): Promise<number>;
+  /** Delete an app (only if owned by userId, when given) */
+  delete(id: string, userId?: string): Promise<boolean>;
+  /**
+   * Replace an app's data if it still equals `expected` (compare-and-swap)
+   * @returns false when the app is gone or its data changed since it was read
+   */
+  replaceData(id: string, expected: Record<string, unknown>, data: Record<string, unknown>, updatedAt: string): Promise<boolean>;
+}
+
+/**
+ * Filter and order records like the SQL backends do (most recently updated first)
+ */
+function applyFilter(apps: App[], filter: AppListFilter = {}): App[] {
+  const matching = apps
+    .filter(app => filter.userId === undefined || app.userId === filter.userId)
+    .filter(app => filter.isPublic === undefined || !!app.isPublic === filter.isPublic)
+    .sort((a, b) => (b.updatedAt || '').localeCompare(a.updatedAt || ''));
+  return filter.limit !== undefined ? matching.slice(0, filter.limit) : matching;
+}
+
+// ============================================
+// In-memory storage
+// ============================================
+
+/**
+ * Process-local storage (lost on restart; for tests and throwaway instances)
+ */
+export class MemoryAppStorage implements AppStorage {
+  readonly driver = 'memory' as const;
+  private apps = new Map<string, App>();
+
+  async get(id: string): Promise<App | null> {
+    const app = this.apps.get(id);
+    return app ? structuredClone(app) : null;
+  }
+
+  async put(app: App): Promise<App> {
+    this.apps.set(app.id, structuredClone(app));
+    return structuredClone(app);
+  }
+
+  async list(filter?: AppListFilter): Promise<App[]> {
+    return applyFilter(Array.from(this.apps.values()), filter).map(app => structuredClone(app));
+  }
+
+  async count(filter?: AppListFilter): Promise<number> {
+    return applyFilter(Array.from(this.apps.values()), { ...filter, limit: undefined }).length;
+  }
+
+  async delete(id: string, userId?: string): Promise<boolean> {
+    const app = this.apps.get(id);
+    if (!app || (userId !== undefined && app.userId !== userId)) {
+      return false;
+    }
+    return this.apps.delete(id);
+  }
+
+  async replaceData(
+    id: string,
+    expected: Record<string, unknown>,
+    data: Record<string, unknown>,
+    updatedAt: string
+  ): Promise<boolean> {
+    const app = this.apps.get(id);
+    if (!app || JSON.stringify(app.data || {}) !== JSON.stringify(expected)) {
+      return false;
+    }
+    this.apps.set(id, { ...app, data: structuredClone(data), updatedAt });
+    return true;
+  }
+}
+
+// ============================================
+// SQLite file storage
+// ============================================
+
+interface SqliteAppRow {
+  id: string;
+  user_id: string | null;
+  name: string;
+  description: string | null;
+  category: string | null;
+  privacy_level: string | null;
+  version: number | null;
+  created_by: string | null;
+  schema: string;
+  theme: string | null;
+  data: string;
+  settings: string;
+  is_public: number;
+  created_at: string;
+  updated_at: string;
+}
+
+function sqliteRowToApp(row: SqliteAppRow): App {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || undefined,
+    category: row.category || undefined,
+    privacyLevel: row.privacy_level || undefined,
+    version: row.version ?? undefined,
+    createdBy: row.created_by || undefined,
+    schema: JSON.parse(row.schema),
+    theme: row.theme ? JSON.parse(row.theme) : undefined,
+    data: JSON.parse(row.data),
+    settings: JSON.parse(row.settings),
+    isPublic: row.is_public === 1,
+    userId: row.user_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Single-file storage for deployments without Postgres
+ * Apps from the legacy apps.json file next to the database are imported on first open.
+ */
+export class SqliteAppStorage implements AppStorage {
+  readonly driver = 'sqlite' as const;
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS apps (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        name TEXT NOT NULL,
+        description TEXT,
+        category TEXT,
+        privacy_level TEXT,
+        version INTEGER,
+        created_by TEXT,
+        schema TEXT NOT NULL,
+        theme TEXT,
+        data TEXT NOT NULL DEFAULT '{}',
+        settings TEXT NOT NULL DEFAULT '{}',
+        is_public INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_apps_user_id ON apps(user_id);
+      CREATE INDEX IF NOT EXISTS idx_apps_updated_at ON apps(updated_at);
+    `);
+    this.importLegacyFile(path.join(path.dirname(filePath), 'apps.json'));
+  }
+
+  async get(id: string): Promise<App | null> {
+    const row = this.db.prepare('SELECT * FROM apps WHERE id = ?').get(id) as SqliteAppRow | undefined;
+    return row ? sqliteRowToApp(row) : null;
+  }
+
+  async put(app: App): Promise<App> {
+    this.write(app);
+    return app;
+  }
+
+  async list(filter: AppListFilter = {}): Promise<App[]> {
+    const { where, params } = this.buildWhere(filter);
+    const limit = filter.limit !== undefined ? ' LIMIT ?' : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM apps${where} ORDER BY updated_at DESC${limit}`)
+      .all(...params, ...(filter.limit !== undefined ? [filter.limit] : [])) as SqliteAppRow[];
+    return rows.map(sqliteRowToApp);
+  }
+
+  async count(filter: AppListFilter = {}): Promise<number> {
+    const { where, params } = this.buildWhere(filter);
+    const row = this.db.prepare(`SELECT COUNT(*) AS count FROM apps${where}`).get(...params) as { count: number };
+    return row.count;
+  }
+
+  async delete(id: string, userId?: string): Promise<boolean> {
+    const result = userId !== undefined
+      ? this.db.prepare('DELETE FROM apps WHERE id = ? AND user_id = ?').run(id, userId)
+      : this.db.prepare('DELETE FROM apps WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  async replaceData(
+    id: string,
+    expected: Record<string, unknown>,
+    data: Record<string, unknown>,
+    updatedAt: string
+  ): Promise<boolean> {
+    // Stored data is the JSON.stringify of what was read, so the text compares equal
+    const result = this.db
+      .prepare('UPDATE apps SET data = ?, updated_at = ? WHERE id = ? AND data = ?')
+      .run(JSON.stringify(data), updatedAt, id, JSON.stringify(expected));
+    return result.changes > 0;
+  }
+
+  private write(app: App): void {
+    this.db.prepare(`
+      INSERT INTO apps (id, user_id, name, description, category, privacy_level, version, created_by,
+                        schema, theme, data, settings, is_public, created_at, updated_at)
+      VALUES (@id, @user_id, @name, @description, @category, @privacy_level, @version, @created_by,
+              @schema, @theme, @data, @settings, @is_public, @created_at, @updated_at)
+      ON CONFLICT(id) DO UPDATE SET
+        user_id = excluded.user_id,
+        name = excluded.name,
+        description = excluded.description,
+        category = excluded.category,
+        privacy_level = excluded.privacy_level,
+        version = excluded.version,
+        created_by = excluded.created_by,
+        schema = excluded.schema,
+        theme = excluded.theme,
+        data = excluded.data,
+        settings = excluded.settings,
+        is_public = excluded.is_public,
+        updated_at = excluded.updated_at
+    `).run({
+      id: app.id,
+      user_id: app.userId ?? null,
+      name: app.name,
+      description: app.description ?? null,
+      category: app.category ?? null,
+      privacy_level: app.privacyLevel ?? null,
+      version: app.version ?? null,
+      created_by: app.createdBy ?? null,
+      schema: JSON.stringify(app.schema),
+      theme: app.theme ? JSON.stringify(app.theme) : null,
+      data: JSON.stringify(app.data || {}),
+      settings: JSON.stringify(app.settings || {}),
+      is_public: app.isPublic ? 1 : 0,
+      created_at: app.createdAt || new Date().toISOString(),
+      updated_at: app.updatedAt || new Date().toISOString(),
+    });
+  }
+
+  private buildWhere(filter: AppListFilter): { where: string; params: unknown[] } {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (filter.userId !== undefined) {
+      clauses.push('user_id = ?');
+      params.push(filter.userId);
+    }
+    if (filter.isPublic !== undefined) {
+      clauses.push('is_public = ?');
+      params.push(filter.isPublic ? 1 : 0);
+    }
+    return { where: clauses.length > 0 ? ` WHERE ${clauses.join(' AND ')}` : '', params };
+  }
+
+  private importLegacyFile(legacyFile: string): void {
+    try {
+      const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM apps').get() as { count: number };
+      if (count > 0 || !fs.existsSync(legacyFile)) return;
+
+      const apps = JSON.parse(fs.readFileSync(legacyFile, 'utf-8')) as App[];
+      this.db.transaction((legacyApps: App[]) => {
+        for (const app of legacyApps) this.write(app);
+      })(apps);
+      console.log(`[AppStorage] Imported ${apps.length} apps from ${legacyFile}`);
+    } catch (err) {
+      console.error('[AppStorage] Failed to import legacy apps file:', err);
+    }
+  }
+}
+
+// ============================================
+// Postgres storage
+// ============================================
+
+function dbToApp(row: DbApp): App {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || undefined,
+    category: row.category || undefined,
+    privacyLevel: row.privacy_level || undefined,
+    version: row.version ?? undefined,
+    createdBy: row.created_by || undefined,
+    schema: row.schema,
+    theme: row.theme || undefined,
+    data: row.data || {},
+    settings: row.settings || {},
+    isPublic: row.is_public,
+    userId: row.user_id,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Storage in the `apps` table of the configured Postgres database
+ */
+export class PostgresAppStorage implements AppStorage {
+  readonly driver = 'postgres' as const;
+
+  async get(id: string): Promise<App | null> {
+    const result = await queryOne<DbApp>(`
+      SELECT * FROM apps WHERE id = $1
+    `, [id]);
+
+    return result ? dbToApp(result) : null;
+  }
+
+  async put(app: App): Promise<App> {
+    const result = await queryOne<DbApp>(`
+      INSERT INTO apps (id, user_id, name, description, category, privacy_level, version, created_by,
+                        schema, theme, data, settings, is_public, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, COALESCE($14::timestamptz, NOW()))
+      ON CONFLICT (id) DO UPDATE SET
+        user_id = EXCLUDED.user_id,
+        name = EXCLUDED.name,
+        description = EXCLUDED.description,
+        category = EXCLUDED.category,
+        privacy_level = EXCLUDED.privacy_level,
+        version = EXCLUDED.version,
+        created_by = EXCLUDED.created_by,
+        schema = EXCLUDED.schema,
+        theme = EXCLUDED.theme,
+        data = EXCLUDED.data,
+        settings = EXCLUDED.settings,
+        is_public = EXCLUDED.is_public
+      RETURNING *
+    `, [
+      app.id,
+      app.userId ?? null,
+      app.name,
+      app.description || null,
+      app.category || null,
+      app.privacyLevel || null,
+      app.version ?? null,
+      app.createdBy || null,
+      JSON.stringify(app.schema),
+      app.theme ? JSON.stringify(app.theme) : null,
+      JSON.stringify(app.data || {}),
+      JSON.stringify(app.settings || {}),
+      app.isPublic || false,
+      app.createdAt || null,
+    ]);
+
+    return result ? dbToApp(result) : app;
+  }
+
+  async list(filter: AppListFilter = {}): Promise<App[]> {
+    const { where, params } = this.buildWhere(filter);
+    const limit = filter.limit !== undefined ? ` LIMIT $${params.length + 1}` : '';
+    const results = await query<DbApp>(
+      `SELECT * FROM apps${where} ORDER BY updated_at DESC${limit}`,
+      filter.limit !== undefined ? [...params, filter.limit] : params
+    );
+
+    return results.map(dbToApp);
+  }
+
+  async count(filter: AppListFilter = {}): Promise<number> {
+    const { where, params } = this.buildWhere(filter);
+    const result = await queryOne<{ count: string }>(`SELECT COUNT(*) as count FROM apps${where}`, params);
+
+    return parseInt(result?.count || '0', 10);
+  }
+
+  async delete(id: string, userId?: string): Promise<boolean> {
+    const result = userId !== undefined
+      ? await execute(`DELETE FROM apps WHERE id = $1 AND user_id = $2`, [id, userId])
+      : await execute(`DELETE FROM apps WHERE id = $1`, [id]);
+
+    return result.rowCount > 0;
+  }
+
+  async replaceData(
+    id: string,
+    expected: Record<string, unknown>,
+    data: Record<string, unknown>
+  ): Promise<boolean> {
+    // updated_at is set by the apps trigger
+    const result = await execute(
+      `UPDATE apps SET data = $2 WHERE id = $1 AND data = $3::jsonb`,
+      [id, JSON.stringify(data), JSON.stringify(expected)]
+    );
+    return result.rowCount > 0;
+  }
+
+  private buildWhere(filter: AppListFilter): { where: string; params: unknown[] } {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (filter.userId !== undefined) {
+      params.push(filter.userId);
+      clauses.push(`user_id = $${params.length}`);
+    }
+    if (filter.isPublic !== undefined) {
+      params.push(filter.isPublic);
+      clauses.push(`is_public = $${params.length}`);
+    }
+    return { where: clauses.length > 0 ? ` WHERE ${clauses.join(' AND ')}` : '', params };
+  }
+}
+
+/**
+ * Create the storage backend for a driver
+ */
+export function createAppStorage(driver: AppStorageDriver, sqlitePath: string): AppStorage {
+  switch (driver) {
+    case 'memory':
+      return new MemoryAppStorage();
+    case 'sqlite':
+      return new SqliteAppStorage(sqlitePath);
+    case 'postgres':
+      return new PostgresAppStorage();
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Attachment Repository
+ * Metadata of files uploaded to records; the file contents live in a BlobStore
+ * (in-memory fallback when database is not available).
+ */
+import { query, queryOne, execute, isDatabaseEnabled } from '../services/database.js';
+import type { DbAttachment } from '../types/database.js';
+
+export interface Attachment {
+  id: string;
+  appId: string;
+  entityId: string;
+  recordId: string;
+  /** File, image or signature field the upload belongs to (null for record attachments) */
+  fieldId: string | null;
+  fileName: string;
+  contentType: string;
+  size: number;
+  storageKey: string;
+  uploadedBy: string | null;
+  createdAt: string;
+}
+
+/**
+ * In-memory store (fallback when database is not available)
+ */
+const memoryAttachments = new Map<string, Attachment>();
+
+/**
+ * Attachment Repository class
+ */
+export class AttachmentRepository {
+  /**
+   * Save the metadata of an uploaded file
+   */
+  async create(attachment: Attachment): Promise<Attachment> {
+    if (!isDatabaseEnabled()) {
+      memoryAttachments.set(attachment.id, { ...attachment });
+      return { ...attachment };
+    }
+
+    const row = await queryOne<DbAttachment>(`
+      INSERT INTO attachments
+        (id, app_id, entity_id, record_id, field_id, file_name, content_type, size, storage_key, uploaded_by, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING *
+    `, [
+      attachment.id,
+      attachment.appId,
+      attachment.entityId,
+      attachment.recordId,
+      attachment.fieldId,
+      attachment.fileName,
+      attachment.contentType,
+      attachment.size,
+      attachment.storageKey,
+      attachment.uploadedBy,
+      attachment.createdAt,
+    ]);
+
+    return this.dbToAttachment(row!);
+  }
+
+  /**
+   * Get an attachment by ID
+   */
+  async findById(appId: string, id: string): Promise<Attachment | null> {
+    if (!isDatabaseEnabled()) {
+      const attachment = memoryAttachments.get(id);
+      return attachment && attachment.appId === appId ? { ...attachment } : null;
+    }
+
+    const row = await queryOne<DbAttachment>(
+      'SELECT * FROM attachments WHERE app_id = $1 AND id = $2',
+      [appId, id]
+    );
+
+    return row ? this.dbToAttachment(row) : null;
+  }
+
+  /**
+   * Attachments of a record, oldest first
+   */
+  async listForRecord(appId: string, entityId: string, recordId: string): Promise<Attachment[]> {
+    if (!isDatabaseEnabled()) {
+      return [...memoryAttachments.values()]
+        .filter(a => a.appId === appId && a.entityId === entityId && a.recordId === recordId)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map(a => ({ ...a }));
+    }
+
+    const rows = await query<DbAttachment>(`
+      SELECT * FROM attachments
+      WHERE app_id = $1 AND entity_id = $2 AND record_id = $3
+      ORDER BY created_at, id
+    `, [appId, entityId, recordId]);
+
+    return rows.map(row => this.dbToAttachment(row));
+  }
+
+  /**
+   * Delete the metadata of an attachment
+   */
+  async delete(appId: string, id: string): Promise<boolean> {
+    if (!isDatabaseEnabled()) {
+      const attachment = memoryAttachments.get(id);
+      return attachment?.appId === appId ? memoryAttachments.delete(id) : false;
+    }
+
+    const result = await execute(
+      'DELETE FROM attachments WHERE app_id = $1 AND id = $2',
+      [appId, id]
+    );
+
+    return result.rowCount > 0;
+  }
+
+  private dbToAttachment(row: DbAttachment): Attachment {
+    return {
+      id: row.id,
+      appId: row.app_id,
+      entityId: row.entity_id,
+      recordId: row.record_id,
+      fieldId: row.field_id,
+      fileName: row.file_name,
+      contentType: row.content_type,
+      size: row.size,
+      storageKey: row.storage_key,
+      uploadedBy: row.uploaded_by,
+      createdAt: row.created_at.toISOString(),
+    };
+  }
+}
+
+// Singleton instance
+export const attachmentRepository = new AttachmentRepository();
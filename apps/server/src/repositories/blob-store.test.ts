@@ -0,0 +1,130 @@
+import { describe, expect, test, beforeEach, afterEach } from "vitest";
+import crypto from "crypto";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import { LocalBlobStore, S3BlobStore, type BlobStore } from "./blob-store.js";
+
+const credentials = { accessKeyId: "AKIATEST", secretAccessKey: "test-secret", region: "eu-west-1" };
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+/**
+ * Minimal S3 stand-in: checks Signature V4 and keeps objects in memory
+ */
+function startS3StandIn(): Promise<{ server: http.Server; endpoint: string; objects: Map<string, { data: Buffer; type: string }> }> {
+  const objects = new Map<string, { data: Buffer; type: string }>();
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", chunk => chunks.push(chunk));
+    req.on("end", () => {
+      const body = Buffer.concat(chunks);
+      const auth = String(req.headers.authorization ?? "");
+      const match = auth.match(/^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/s3\/aws4_request, SignedHeaders=([^,]+), Signature=([0-9a-f]+)$/);
+      const payloadHash = crypto.createHash("sha256").update(body).digest("hex");
+
+      let valid = !!match && match[1] === credentials.accessKeyId && req.headers["x-amz-content-sha256"] === payloadHash;
+      if (match && valid) {
+        const [, , date, region, signedHeaders, signature] = match;
+        const canonical = [
+          req.method,
+          req.url,
+          "",
+          ...signedHeaders.split(";").map(name => `${name}:${req.headers[name]}`),
+          "",
+          signedHeaders,
+          payloadHash,
+        ].join("\n");
+        const stringToSign = ["AWS4-HMAC-SHA256", req.headers["x-amz-date"], `${date}/${region}/s3/aws4_request`, crypto.createHash("sha256").update(canonical).digest("hex")].join("\n");
+        const key = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), region), "s3"), "aws4_request");
+        valid = crypto.createHmac("sha256", key).update(stringToSign).digest("hex") === signature;
+      }
+
+      if (!valid) {
+        res.writeHead(403).end("SignatureDoesNotMatch");
+        return;
+      }
+
+      const objectKey = decodeURIComponent(req.url ?? "");
+      if (req.method === "PUT") {
+        objects.set(objectKey, { data: body, type: String(req.headers["content-type"]) });
+        res.writeHead(200).end();
+      } else if (req.method === "GET") {
+        const object = objects.get(objectKey);
+        if (!object) {
+          res.writeHead(404).end("NoSuchKey");
+        } else {
+          res.writeHead(200, { "content-type": object.type }).end(object.data);
+        }
+      } else if (req.method === "DELETE") {
+        objects.delete(objectKey);
+        res.writeHead(204).end();
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, endpoint: `http://127.0.0.1:${port}`, objects });
+    });
+  });
+}
+
+async function roundTrip(store: BlobStore) {
+  const data = Buffer.from("%PDF-1.4 job sheet");
+  await store.put("app-1/att_1", data, "application/pdf");
+
+  const blob = await store.get("app-1/att_1");
+  expect(blob?.data.equals(data)).toBe(true);
+  expect(blob?.contentType).toBe("application/pdf");
+
+  await store.delete("app-1/att_1");
+  expect(await store.get("app-1/att_1")).toBeNull();
+  // Deleting again is not an error
+  await store.delete("app-1/att_1");
+}
+
+describe("LocalBlobStore", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "neo-blob-store-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("stores, reads and deletes files", async () => {
+    await roundTrip(new LocalBlobStore(tempDir));
+  });
+
+  test("rejects keys outside its directory", async () => {
+    const store = new LocalBlobStore(tempDir);
+    await expect(store.put("../escape", Buffer.from("x"), "text/plain")).rejects.toThrow("Invalid blob key");
+  });
+});
+
+describe("S3BlobStore", () => {
+  test("signs requests an S3-compatible service accepts", async () => {
+    const standIn = await startS3StandIn();
+    try {
+      await roundTrip(new S3BlobStore({ endpoint: standIn.endpoint, bucket: "uploads", ...credentials }));
+
+      await new S3BlobStore({ endpoint: standIn.endpoint, bucket: "uploads", ...credentials })
+        .put("app-1/site photo (1).png", Buffer.from("png"), "image/png");
+      expect([...standIn.objects.keys()]).toEqual(["/uploads/app-1/site photo (1).png"]);
+
+      const wrongSecret = new S3BlobStore({ endpoint: standIn.endpoint, bucket: "uploads", ...credentials, secretAccessKey: "wrong" });
+      await expect(wrongSecret.get("app-1/site photo (1).png")).rejects.toThrow("403");
+    } finally {
+      standIn.server.close();
+    }
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Blob Store
+ * Storage backends for uploaded files: local disk and S3-compatible object stores
+ */
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+export type BlobStoreDriver = 'local' | 's3';
+
+export const BLOB_STORE_DRIVERS: BlobStoreDriver[] = ['local', 's3'];
+
+export interface StoredBlob {
+  data: Buffer;
+  contentType: string;
+}
+
+/**
+ * Storage interface shared by all backends
+ * Keys are `/`-separated paths chosen by the caller.
+ */
+export interface BlobStore {
+  readonly driver: BlobStoreDriver;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredBlob | null>;
+  /** Delete a blob (missing blobs are ignored) */
+  delete(key: string): Promise<void>;
+}
+
+// ============================================
+// Local disk storage
+// ============================================
+
+/**
+ * Files under a root directory; the content type is kept in a sidecar file
+ */
+export class LocalBlobStore implements BlobStore {
+  readonly driver = 'local' as const;
+
+  constructor(private rootDir: string) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const file = this.pathFor(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+    await fs.writeFile(`${file}.meta.json`, JSON.stringify({ contentType }));
+  }
+
+  async get(key: string): Promise<StoredBlob | null> {
+    const file = this.pathFor(key);
+    try {
+      const data = await fs.readFile(file);
+      const meta = JSON.parse(await fs.readFile(`${file}.meta.json`, 'utf8').catch(() => '{}'));
+      return { data, contentType: meta.contentType || 'application/octet-stream' };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const file = this.pathFor(key);
+    await fs.rm(file, { force: true });
+    await fs.rm(`${file}.meta.json`, { force: true });
+  }
+
+  /**
+   * Resolve a key inside the root directory (keys cannot escape it)
+   */
+  private pathFor(key: string): string {
+    const root = path.resolve(this.rootDir);
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return file;
+  }
+}
+
+// ============================================
+// S3-compatible storage
+// ============================================
+
+export interface S3BlobStoreOptions {
+  /** Service URL, e.g. https://s3.eu-west-1.amazonaws.com or http://localhost:9000 */
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+function sha256Hex(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data, 'utf8').digest();
+}
+
+/**
+ * URI-encode a path segment the way Signature V4 expects (RFC 3986)
+ */
+function encodeSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Objects in a bucket of an S3-compatible service (AWS S3, MinIO, R2, ...)
+ * Uses path-style URLs and Signature V4 request signing.
+ */
+export class S3BlobStore implements BlobStore {
+  readonly driver = 's3' as const;
+
+  constructor(private options: S3BlobStoreOptions) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.send('PUT', key, data, { 'content-type': contentType });
+    if (!response.ok) {
+      throw new Error(`S3 upload failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<StoredBlob | null> {
+    const response = await this.send('GET', key);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`S3 download failed: ${response.status} ${await response.text()}`);
+    }
+    return {
+      data: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || 'application/octet-stream',
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  private async send(
+    method: string,
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> {
+    const endpoint = new URL(this.options.endpoint);
+    const url = new URL(endpoint.origin);
+    url.pathname = [
+      endpoint.pathname.replace(/\/$/, ''),
+      encodeSegment(this.options.bucket),
+      ...key.split('/').map(encodeSegment),
+    ].join('/');
+
+    const headers = this.sign(method, url, body ? sha256Hex(body) : EMPTY_PAYLOAD_HASH, extraHeaders);
+    return fetch(url, { method, headers, body });
+  }
+
+  /**
+   * Signature V4 headers for a request
+   */
+  private sign(method: string, url: URL, payloadHash: string, extraHeaders: Record<string, string>): Record<string, string> {
+    const { region, accessKeyId, secretAccessKey } = this.options;
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...signedHeaders.map(name => `${name}:${headers[name].trim()}`),
+      '',
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), 's3'), 'aws4_request');
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+    // fetch sets Host itself from the URL
+    const { host: _host, ...sent } = headers;
+    return {
+      ...sent,
+      authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+    };
+  }
+}
+
+/**
+ * Create the storage backend for a driver
+ */
+export function createBlobStore(
+  driver: BlobStoreDriver,
+  options: { localDir: string; s3?: Partial<S3BlobStoreOptions> }
+): BlobStore {
+  switch (driver) {
+    case 'local':
+      return new LocalBlobStore(options.localDir);
+    case 's3': {
+      const { endpoint, region, bucket, accessKeyId, secretAccessKey } = options.s3 ?? {};
+      if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+        throw new Error('S3 attachment storage needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+      }
+      return new S3BlobStore({ endpoint, region: region || 'us-east-1', bucket, accessKeyId, secretAccessKey });
+    }
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Comment Repository
+ * Stores comments on records of commentable entities
+ * (in-memory fallback when database is not available).
+ */
+import type { CommentStore, RecordComment } from '@neo/runtime';
+import { query, queryOne, execute, isDatabaseEnabled } from '../services/database.js';
+import type { DbRecordComment } from '../types/database.js';
+
+/**
+ * In-memory store (fallback when database is not available)
+ */
+const memoryComments = new Map<string, RecordComment>();
+
+/**
+ * Comment Repository class
+ */
+export class CommentRepository implements CommentStore {
+  /**
+   * Comments on a record, oldest first
+   */
+  async listForRecord(appId: string, entityId: string, recordId: string): Promise<RecordComment[]> {
+    if (!isDatabaseEnabled()) {
+      return [...memoryComments.values()]
+        .filter(c => c.appId === appId && c.entityId === entityId && c.recordId === recordId)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map(c => structuredClone(c));
+    }
+
+    const rows = await query<DbRecordComment>(`
+      SELECT * FROM record_comments
+      WHERE app_id = $1 AND entity_id = $2 AND record_id = $3
+      ORDER BY created_at, id
+    `, [appId, entityId, recordId]);
+
+    return rows.map(row => this.dbToComment(row));
+  }
+
+  /**
+   * Get a comment by ID
+   */
+  async get(appId: string, id: string): Promise<RecordComment | null> {
+    if (!isDatabaseEnabled()) {
+      const comment = memoryComments.get(id);
+      return comment && comment.appId === appId ? structuredClone(comment) : null;
+    }
+
+    const row = await queryOne<DbRecordComment>(
+      'SELECT * FROM record_comments WHERE app_id = $1 AND id = $2',
+      [appId, id]
+    );
+
+    return row ? this.dbToComment(row) : null;
+  }
+
+  /**
+   * Create or update a comment
+   */
+  async save(comment: RecordComment): Promise<void> {
+    if (!isDatabaseEnabled()) {
+      memoryComments.set(comment.id, structuredClone(comment));
+      return;
+    }
+
+    await execute(`
+      INSERT INTO record_comments
+        (id, app_id, entity_id, record_id, parent_id, author_id, author_name, body, mentions, created_at, updated_at, edited_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      ON CONFLICT (id) DO UPDATE SET
+        body = EXCLUDED.body,
+        mentions = EXCLUDED.mentions,
+        updated_at = EXCLUDED.updated_at,
+        edited_at = EXCLUDED.edited_at
+    `, [
+      comment.id,
+      comment.appId,
+      comment.entityId,
+      comment.recordId,
+      comment.parentId,
+      comment.authorId,
+      comment.authorName,
+      comment.body,
+      JSON.stringify(comment.mentions),
+      comment.createdAt,
+      comment.updatedAt,
+      comment.editedAt,
+    ]);
+  }
+
+  /**
+   * Delete a comment and its replies
+   */
+  async delete(appId: string, id: string): Promise<boolean> {
+    if (!isDatabaseEnabled()) {
+      const comment = memoryComments.get(id);
+      if (!comment || comment.appId !== appId) return false;
+      for (const other of [...memoryComments.values()]) {
+        if (other.parentId === id) memoryComments.delete(other.id);
+      }
+      return memoryComments.delete(id);
+    }
+
+    // Replies go with it (ON DELETE CASCADE)
+    const result = await execute(
+      'DELETE FROM record_comments WHERE app_id = $1 AND id = $2',
+      [appId, id]
+    );
+
+    return result.rowCount > 0;
+  }
+
+  private dbToComment(row: DbRecordComment): RecordComment {
+    return {
+      id: row.id,
+      appId: row.app_id,
+      entityId: row.entity_id,
+      recordId: row.record_id,
+      parentId: row.parent_id,
+      authorId: row.author_id,
+      authorName: row.author_name,
+      body: row.body,
+      mentions: row.mentions ?? [],
+      createdAt: row.created_at.toISOString(),
+      updatedAt: row.updated_at.toISOString(),
+      editedAt: row.edited_at ? row.edited_at.toISOString() : null,
+    };
+  }
+}
+
+// Singleton instance
+export const commentRepository = new CommentRepository();
@@ -0,0 +1,250 @@
+/**
+ * Discovery Conversation Repository
+ * Handles persistence of discovery chat conversations to database or
+ * file-based storage, so they can be resumed after a restart or refresh
+ */
+import type { CertaintyLedger } from '@neo/ai-engine';
+import { query, queryOne, execute, isDatabaseEnabled } from '../services/database.js';
+import type { DbDiscoveryConversation } from '../types/database.js';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export type DiscoveryConversationStatus = 'active' | 'completed' | 'abandoned';
+
+/**
+ * One exchange: the user's message, the reply, and what was known afterwards
+ */
+export interface DiscoveryTurn {
+  input: string;
+  response: Record<string, unknown>;
+  /** Conversation state the next turn continues from */
+  state: Record<string, unknown>;
+  /** Certainty ledger snapshot after this turn */
+  ledger: CertaintyLedger;
+  createdAt: string;
+}
+
+export interface DiscoveryConversation {
+  id: string;
+  userId?: string;
+  /** Conversation this one was forked from */
+  forkedFrom?: string;
+  title: string;
+  status: DiscoveryConversationStatus;
+  turns: DiscoveryTurn[];
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+}
+
+export interface CreateConversationData {
+  userId?: string;
+  forkedFrom?: string;
+  title: string;
+  turns: DiscoveryTurn[];
+  expiresAt: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * File-based storage path (used when no database is configured)
+ */
+const DATA_DIR = path.join(__dirname, '..', '..', 'data');
+const CONVERSATIONS_FILE = path.join(DATA_DIR, 'discovery-conversations.json');
+
+/**
+ * In-memory store for conversations (loaded from file on first access when no database)
+ */
+let memoryStore: Map<string, DiscoveryConversation> | null = null;
+
+function getMemoryStore(): Map<string, DiscoveryConversation> {
+  if (!memoryStore) {
+    memoryStore = new Map();
+    try {
+      if (fs.existsSync(CONVERSATIONS_FILE)) {
+        const conversations = JSON.parse(fs.readFileSync(CONVERSATIONS_FILE, 'utf-8')) as DiscoveryConversation[];
+        for (const conversation of conversations) {
+          memoryStore.set(conversation.id, conversation);
+        }
+      }
+    } catch (err) {
+      console.error('[DiscoveryConversationRepository] Failed to load conversations from file:', err);
+    }
+  }
+  return memoryStore;
+}
+
+/**
+ * Save conversations to file (expired ones are dropped)
+ */
+function saveMemoryStore(): void {
+  try {
+    if (!fs.existsSync(DATA_DIR)) {
+      fs.mkdirSync(DATA_DIR, { recursive: true });
+    }
+    const store = getMemoryStore();
+    for (const conversation of store.values()) {
+      if (isExpired(conversation)) store.delete(conversation.id);
+    }
+    fs.writeFileSync(CONVERSATIONS_FILE, JSON.stringify(Array.from(store.values()), null, 2), 'utf-8');
+  } catch (err) {
+    console.error('[DiscoveryConversationRepository] Failed to save conversations to file:', err);
+  }
+}
+
+function isExpired(conversation: DiscoveryConversation, now: Date = new Date()): boolean {
+  return new Date(conversation.expiresAt) <= now;
+}
+
+/**
+ * Convert database row to DiscoveryConversation object
+ */
+function dbToConversation(row: DbDiscoveryConversation): DiscoveryConversation {
+  return {
+    id: row.id,
+    userId: row.user_id || undefined,
+    forkedFrom: row.forked_from || undefined,
+    title: row.title,
+    status: row.status,
+    turns: (row.turns || []) as DiscoveryTurn[],
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+    expiresAt: row.expires_at.toISOString(),
+  };
+}
+
+/**
+ * Discovery Conversation Repository class
+ */
+export class DiscoveryConversationRepository {
+  /**
+   * Store a new conversation
+   */
+  async create(data: CreateConversationData): Promise<DiscoveryConversation> {
+    if (!isDatabaseEnabled()) {
+      const now = new Date().toISOString();
+      const conversation: DiscoveryConversation = {
+        id: crypto.randomUUID(),
+        ...data,
+        status: 'active',
+        createdAt: now,
+        updatedAt: now,
+      };
+      getMemoryStore().set(conversation.id, conversation);
+      saveMemoryStore();
+      return structuredClone(conversation);
+    }
+
+    // Clear out expired conversations as new ones come in
+    await execute('DELETE FROM discovery_conversations WHERE expires_at <= NOW()');
+
+    const result = await queryOne<DbDiscoveryConversation>(`
+      INSERT INTO discovery_conversations (user_id, forked_from, title, turns, expires_at)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `, [
+      data.userId || null,
+      data.forkedFrom || null,
+      data.title,
+      JSON.stringify(data.turns),
+      data.expiresAt,
+    ]);
+
+    if (!result) {
+      throw new Error('Failed to create discovery conversation');
+    }
+    return dbToConversation(result);
+  }
+
+  /**
+   * Find a conversation that has not expired
+   */
+  async findById(id: string): Promise<DiscoveryConversation | null> {
+    if (!UUID_PATTERN.test(id)) {
+      return null;
+    }
+
+    if (!isDatabaseEnabled()) {
+      const conversation = getMemoryStore().get(id);
+      return conversation && !isExpired(conversation) ? structuredClone(conversation) : null;
+    }
+
+    const result = await queryOne<DbDiscoveryConversation>(
+      'SELECT * FROM discovery_conversations WHERE id = $1 AND expires_at > NOW()',
+      [id]
+    );
+
+    return result ? dbToConversation(result) : null;
+  }
+
+  /**
+   * Find a user's conversations that have not expired (most recently active first)
+   */
+  async findByUser(userId: string, status?: DiscoveryConversationStatus, limit = 50): Promise<DiscoveryConversation[]> {
+    if (!isDatabaseEnabled()) {
+      return Array.from(getMemoryStore().values())
+        .filter(c => c.userId === userId && (!status || c.status === status) && !isExpired(c))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .slice(0, limit)
+        .map(c => structuredClone(c));
+    }
+
+    const params: unknown[] = [userId];
+    let statusFilter = '';
+    if (status) {
+      params.push(status);
+      statusFilter = `AND status = $${params.length}`;
+    }
+    params.push(limit);
+
+    const results = await query<DbDiscoveryConversation>(`
+      SELECT * FROM discovery_conversations
+      WHERE user_id = $1 AND expires_at > NOW() ${statusFilter}
+      ORDER BY updated_at DESC
+      LIMIT $${params.length}
+    `, params);
+
+    return results.map(dbToConversation);
+  }
+
+  /**
+   * Save a conversation's status, turns and expiry
+   */
+  async update(conversation: DiscoveryConversation): Promise<DiscoveryConversation> {
+    const updatedAt = new Date().toISOString();
+
+    if (!isDatabaseEnabled()) {
+      const updated = { ...structuredClone(conversation), updatedAt };
+      getMemoryStore().set(updated.id, updated);
+      saveMemoryStore();
+      return structuredClone(updated);
+    }
+
+    const result = await queryOne<DbDiscoveryConversation>(`
+      UPDATE discovery_conversations
+      SET status = $2, turns = $3, expires_at = $4, updated_at = $5
+      WHERE id = $1
+      RETURNING *
+    `, [
+      conversation.id,
+      conversation.status,
+      JSON.stringify(conversation.turns),
+      conversation.expiresAt,
+      updatedAt,
+    ]);
+
+    if (!result) {
+      throw new Error(`Discovery conversation not found: ${conversation.id}`);
+    }
+    return dbToConversation(result);
+  }
+}
+
+// Singleton instance
+export const discoveryConversationRepository = new DiscoveryConversationRepository();
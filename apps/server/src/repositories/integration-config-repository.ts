@@ -0,0 +1,95 @@
+/**
+ * Integration Config Repository
+ * Persists per-app integration configs for IntegrationConfigService.
+ * Secret settings arrive already encrypted (in-memory fallback when database is not available).
+ */
+import type { IntegrationConfig, IntegrationConfigStore, IntegrationProviderId } from '@neo/integrations';
+import { query, execute, isDatabaseEnabled } from '../services/database.js';
+import type { DbAppIntegration } from '../types/database.js';
+
+/**
+ * In-memory store (fallback when database is not available)
+ */
+const memoryConfigs = new Map<string, IntegrationConfig>();
+
+function memoryKey(appId: string, providerId: string): string {
+  return `${appId}:${providerId}`;
+}
+
+/**
+ * Integration Config Repository class
+ */
+export class IntegrationConfigRepository implements IntegrationConfigStore {
+  /**
+   * Load every stored config
+   */
+  async loadAll(): Promise<IntegrationConfig[]> {
+    if (!isDatabaseEnabled()) {
+      return [...memoryConfigs.values()].map(config => structuredClone(config));
+    }
+
+    const rows = await query<DbAppIntegration>(`
+      SELECT * FROM app_integrations ORDER BY app_id, provider_id
+    `);
+
+    return rows.map(row => this.dbToConfig(row));
+  }
+
+  /**
+   * Create or replace a config
+   */
+  async save(config: IntegrationConfig): Promise<void> {
+    if (!isDatabaseEnabled()) {
+      memoryConfigs.set(memoryKey(config.appId, config.providerId), structuredClone(config));
+      return;
+    }
+
+    await execute(`
+      INSERT INTO app_integrations (app_id, provider_id, display_name, settings, enabled, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, COALESCE($6, NOW()), COALESCE($7, NOW()))
+      ON CONFLICT (app_id, provider_id) DO UPDATE SET
+        display_name = EXCLUDED.display_name,
+        settings = EXCLUDED.settings,
+        enabled = EXCLUDED.enabled,
+        updated_at = EXCLUDED.updated_at
+    `, [
+      config.appId,
+      config.providerId,
+      config.displayName ?? null,
+      JSON.stringify(config.settings),
+      config.enabled,
+      config.createdAt ?? null,
+      config.updatedAt ?? null,
+    ]);
+  }
+
+  /**
+   * Delete a config
+   */
+  async delete(appId: string, providerId: IntegrationProviderId): Promise<boolean> {
+    if (!isDatabaseEnabled()) {
+      return memoryConfigs.delete(memoryKey(appId, providerId));
+    }
+
+    const result = await execute(`
+      DELETE FROM app_integrations WHERE app_id = $1 AND provider_id = $2
+    `, [appId, providerId]);
+
+    return result.rowCount > 0;
+  }
+
+  private dbToConfig(row: DbAppIntegration): IntegrationConfig {
+    return {
+      appId: row.app_id,
+      providerId: row.provider_id as IntegrationProviderId,
+      displayName: row.display_name ?? undefined,
+      settings: row.settings,
+      enabled: row.enabled,
+      createdAt: row.created_at.toISOString(),
+      updatedAt: row.updated_at.toISOString(),
+    };
+  }
+}
+
+// Singleton instance
+export const integrationConfigRepository = new IntegrationConfigRepository();
@@ -0,0 +1,154 @@
+/**
+ * Record Version Repository
+ * Stores version snapshots of versionable records, for both database entities
+ * and app data (in-memory fallback when database is not available).
+ */
+import type { DatabaseConnection, RecordVersion, RecordVersionInput, RecordVersionStore } from '@neo/database';
+import { query, queryOne, getClient, isDatabaseEnabled } from '../services/database.js';
+import type { DbRecordVersion } from '../types/database.js';
+
+/**
+ * In-memory store (fallback when database is not available)
+ */
+const memoryVersions = new Map<string, RecordVersion[]>();
+
+function recordKey(appId: string, entityId: string, recordId: string): string {
+  return `${appId}:${entityId}:${recordId}`;
+}
+
+type RunSql = <R>(sql: string, params: unknown[]) => Promise<R[]>;
+
+/**
+ * Run version SQL in the writer's transaction when it passes its connection,
+ * otherwise in a transaction of its own
+ */
+async function inTransaction<T>(db: DatabaseConnection | undefined, work: (run: RunSql) => Promise<T>): Promise<T> {
+  if (db) {
+    return db.transaction(client => work((sql, params) => client.query(sql, params)));
+  }
+
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    const result = await work(async (sql, params) => (await client.query(sql, params)).rows);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Record Version Repository class
+ */
+export class RecordVersionRepository implements RecordVersionStore {
+  /**
+   * Save a snapshot as the record's next version
+   * Writers of the same record take turns on an advisory lock held until commit,
+   * so two of them never read the same MAX(version).
+   */
+  async append(input: RecordVersionInput, db?: DatabaseConnection): Promise<RecordVersion> {
+    if (!isDatabaseEnabled()) {
+      const key = recordKey(input.appId, input.entityId, input.recordId);
+      const versions = memoryVersions.get(key) ?? [];
+      const version: RecordVersion = {
+        appId: input.appId,
+        entityId: input.entityId,
+        recordId: input.recordId,
+        version: versions.length + 1,
+        data: structuredClone(input.data),
+        userId: input.userId ?? null,
+        createdAt: new Date().toISOString(),
+      };
+      versions.push(version);
+      memoryVersions.set(key, versions);
+      return structuredClone(version);
+    }
+
+    const [row] = await inTransaction(db, async run => {
+      await run('SELECT pg_advisory_xact_lock(hashtext($1))', [
+        recordKey(input.appId, input.entityId, input.recordId),
+      ]);
+      return run<DbRecordVersion>(`
+        INSERT INTO record_versions (app_id, entity_id, record_id, version, data, user_id)
+        SELECT $1, $2, $3, COALESCE(MAX(version), 0) + 1, $4, $5
+        FROM record_versions
+        WHERE app_id = $1 AND entity_id = $2 AND record_id = $3
+        RETURNING *
+      `, [input.appId, input.entityId, input.recordId, JSON.stringify(input.data), input.userId ?? null]);
+    });
+
+    return this.dbToVersion(row);
+  }
+
+  /**
+   * All versions of a record, oldest first
+   */
+  async list(appId: string, entityId: string, recordId: string): Promise<RecordVersion[]> {
+    if (!isDatabaseEnabled()) {
+      return (memoryVersions.get(recordKey(appId, entityId, recordId)) ?? []).map(version => structuredClone(version));
+    }
+
+    const rows = await query<DbRecordVersion>(`
+      SELECT * FROM record_versions
+      WHERE app_id = $1 AND entity_id = $2 AND record_id = $3
+      ORDER BY version
+    `, [appId, entityId, recordId]);
+
+    return rows.map(row => this.dbToVersion(row));
+  }
+
+  /**
+   * Get one version of a record
+   */
+  async get(appId: string, entityId: string, recordId: string, version: number): Promise<RecordVersion | null> {
+    if (!isDatabaseEnabled()) {
+      const found = memoryVersions.get(recordKey(appId, entityId, recordId))?.find(v => v.version === version);
+      return found ? structuredClone(found) : null;
+    }
+
+    const row = await queryOne<DbRecordVersion>(`
+      SELECT * FROM record_versions
+      WHERE app_id = $1 AND entity_id = $2 AND record_id = $3 AND version = $4
+    `, [appId, entityId, recordId, version]);
+
+    return row ? this.dbToVersion(row) : null;
+  }
+
+  /**
+   * Highest version number of a record (0 when it has none)
+   */
+  async latestVersion(appId: string, entityId: string, recordId: string, db?: DatabaseConnection): Promise<number> {
+    if (!isDatabaseEnabled()) {
+      return memoryVersions.get(recordKey(appId, entityId, recordId))?.length ?? 0;
+    }
+
+    const sql = `
+      SELECT MAX(version) AS latest FROM record_versions
+      WHERE app_id = $1 AND entity_id = $2 AND record_id = $3
+    `;
+    const row = db
+      ? await db.queryOne<{ latest: number | null }>(sql, [appId, entityId, recordId])
+      : await queryOne<{ latest: number | null }>(sql, [appId, entityId, recordId]);
+
+    return row?.latest ?? 0;
+  }
+
+  private dbToVersion(row: DbRecordVersion): RecordVersion {
+    return {
+      appId: row.app_id,
+      entityId: row.entity_id,
+      recordId: row.record_id,
+      version: row.version,
+      data: row.data,
+      userId: row.user_id,
+      createdAt: row.created_at.toISOString(),
+    };
+  }
+}
+
+// Singleton instance
+export const recordVersionRepository = new RecordVersionRepository();
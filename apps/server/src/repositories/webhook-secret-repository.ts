@@ -0,0 +1,91 @@
+/**
+ * Webhook Secret Repository
+ * Handles persistence of per-app signing secrets for inbound webhooks
+ */
+import { queryOne, execute, isDatabaseEnabled } from '../services/database.js';
+import type { DbAppWebhookSecret } from '../types/database.js';
+import crypto from 'crypto';
+
+export interface WebhookSecret {
+  appId: string;
+  secret: string;
+  createdAt: string;
+}
+
+/**
+ * In-memory store (fallback when database is not available)
+ */
+const memorySecrets = new Map<string, WebhookSecret>();
+
+/**
+ * Generate a new signing secret
+ */
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+/**
+ * Webhook Secret Repository class
+ */
+export class WebhookSecretRepository {
+  /**
+   * Get the signing secret for an app
+   */
+  async find(appId: string): Promise<WebhookSecret | null> {
+    if (!isDatabaseEnabled()) {
+      return memorySecrets.get(appId) || null;
+    }
+
+    const result = await queryOne<DbAppWebhookSecret>(`
+      SELECT * FROM app_webhook_secrets WHERE app_id = $1
+    `, [appId]);
+
+    return result
+      ? { appId: result.app_id, secret: result.secret, createdAt: result.created_at.toISOString() }
+      : null;
+  }
+
+  /**
+   * Create or replace the signing secret for an app
+   */
+  async rotate(appId: string): Promise<WebhookSecret> {
+    const secret = generateSecret();
+
+    if (!isDatabaseEnabled()) {
+      const record = { appId, secret, createdAt: new Date().toISOString() };
+      memorySecrets.set(appId, record);
+      return record;
+    }
+
+    const result = await queryOne<DbAppWebhookSecret>(`
+      INSERT INTO app_webhook_secrets (app_id, secret)
+      VALUES ($1, $2)
+      ON CONFLICT (app_id) DO UPDATE SET secret = EXCLUDED.secret, created_at = NOW()
+      RETURNING *
+    `, [appId, secret]);
+
+    return {
+      appId,
+      secret,
+      createdAt: result ? result.created_at.toISOString() : new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Remove the signing secret (disables inbound webhooks for the app)
+   */
+  async delete(appId: string): Promise<boolean> {
+    if (!isDatabaseEnabled()) {
+      return memorySecrets.delete(appId);
+    }
+
+    const result = await execute(`
+      DELETE FROM app_webhook_secrets WHERE app_id = $1
+    `, [appId]);
+
+    return result.rowCount > 0;
+  }
+}
+
+// Singleton instance
+export const webhookSecretRepository = new WebhookSecretRepository();
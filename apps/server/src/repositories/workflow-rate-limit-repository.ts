@@ -0,0 +1,66 @@
+/**
+ * Workflow Rate Limit Repository
+ * Shared execution counters for workflow `rateLimit`, stored in the database
+ * so every server instance sees the same counts (in-memory fallback otherwise)
+ */
+import { MemoryRateLimitStore, type RateLimitStore, type RateLimitHit } from '@neo/blueprint-engine';
+import { queryOne, execute, isDatabaseEnabled } from '../services/database.js';
+
+/**
+ * How often expired windows are purged from the database
+ */
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Workflow Rate Limit Repository class
+ */
+export class WorkflowRateLimitRepository implements RateLimitStore {
+  private memoryStore = new MemoryRateLimitStore();
+  private lastPurge = 0;
+
+  /**
+   * Count an execution in the current window
+   */
+  async increment(key: string, windowSeconds: number, now: Date = new Date()): Promise<RateLimitHit> {
+    if (!isDatabaseEnabled()) {
+      return this.memoryStore.increment(key, windowSeconds, now);
+    }
+
+    const windowMs = windowSeconds * 1000;
+    const windowStart = new Date(Math.floor(now.getTime() / windowMs) * windowMs);
+    const resetAt = new Date(windowStart.getTime() + windowMs);
+
+    const result = await queryOne<{ count: number }>(`
+      INSERT INTO workflow_rate_limits (key, window_start, expires_at, count)
+      VALUES ($1, $2, $3, 1)
+      ON CONFLICT (key, window_start)
+      DO UPDATE SET count = workflow_rate_limits.count + 1
+      RETURNING count
+    `, [key, windowStart, resetAt]);
+
+    if (now.getTime() - this.lastPurge > PURGE_INTERVAL_MS) {
+      this.lastPurge = now.getTime();
+      this.deleteExpired(now).catch(() => {});
+    }
+
+    return { count: result?.count ?? 1, resetAt };
+  }
+
+  /**
+   * Delete windows that already ended
+   */
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    if (!isDatabaseEnabled()) {
+      return 0;
+    }
+
+    const result = await execute(`
+      DELETE FROM workflow_rate_limits WHERE expires_at <= $1
+    `, [now]);
+
+    return result.rowCount;
+  }
+}
+
+// Singleton instance
+export const workflowRateLimitRepository = new WorkflowRateLimitRepository();
@@ -0,0 +1,231 @@
+/**
+ * Workflow Run Repository
+ * Handles persistence of server-side workflow run history
+ */
+import { query, queryOne, execute, isDatabaseEnabled } from '../services/database.js';
+import type { DbWorkflowRun } from '../types/database.js';
+import crypto from 'crypto';
+
+export type WorkflowRunStatus = 'running' | 'succeeded' | 'failed' | 'waiting';
+
+export interface WorkflowRun {
+  id: string;
+  appId: string;
+  workflowId: string;
+  workflowName?: string;
+  trigger: string;
+  status: WorkflowRunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  actionsExecuted: number;
+  result?: Record<string, unknown>;
+  errors: string[];
+}
+
+export interface StartRunData {
+  appId: string;
+  workflowId: string;
+  workflowName?: string;
+  trigger: string;
+}
+
+export interface FinishRunData {
+  status: Exclude<WorkflowRunStatus, 'running'>;
+  actionsExecuted: number;
+  result?: Record<string, unknown>;
+  errors?: string[];
+}
+
+export interface FindRunsOptions {
+  workflowId?: string;
+  status?: WorkflowRunStatus;
+  limit?: number;
+}
+
+/**
+ * Maximum runs kept per app in memory (fallback when database is not available)
+ */
+const MAX_MEMORY_RUNS_PER_APP = 500;
+
+/**
+ * In-memory store (fallback when database is not available)
+ */
+const memoryRuns = new Map<string, WorkflowRun[]>(); // appId -> runs (newest first)
+
+/**
+ * Convert database row to WorkflowRun object
+ */
+function dbToRun(row: DbWorkflowRun): WorkflowRun {
+  return {
+    id: row.id,
+    appId: row.app_id,
+    workflowId: row.workflow_id,
+    workflowName: row.workflow_name || undefined,
+    trigger: row.trigger,
+    status: row.status,
+    startedAt: row.started_at.toISOString(),
+    finishedAt: row.finished_at ? row.finished_at.toISOString() : undefined,
+    durationMs: row.finished_at ? row.finished_at.getTime() - row.started_at.getTime() : undefined,
+    actionsExecuted: row.actions_executed,
+    result: row.result || undefined,
+    errors: row.errors || [],
+  };
+}
+
+/**
+ * Workflow Run Repository class
+ */
+export class WorkflowRunRepository {
+  /**
+   * Record the start of a run
+   */
+  async start(data: StartRunData): Promise<WorkflowRun> {
+    if (!isDatabaseEnabled()) {
+      const run: WorkflowRun = {
+        id: crypto.randomUUID(),
+        appId: data.appId,
+        workflowId: data.workflowId,
+        workflowName: data.workflowName,
+        trigger: data.trigger,
+        status: 'running',
+        startedAt: new Date().toISOString(),
+        actionsExecuted: 0,
+        errors: [],
+      };
+      const runs = memoryRuns.get(data.appId) || [];
+      runs.unshift(run);
+      if (runs.length > MAX_MEMORY_RUNS_PER_APP) {
+        runs.length = MAX_MEMORY_RUNS_PER_APP;
+      }
+      memoryRuns.set(data.appId, runs);
+      return { ...run };
+    }
+
+    const result = await queryOne<DbWorkflowRun>(`
+      INSERT INTO workflow_runs (app_id, workflow_id, workflow_name, trigger, status)
+      VALUES ($1, $2, $3, $4, 'running')
+      RETURNING *
+    `, [data.appId, data.workflowId, data.workflowName || null, data.trigger]);
+
+    if (!result) {
+      throw new Error('Failed to record workflow run');
+    }
+    return dbToRun(result);
+  }
+
+  /**
+   * Record the end of a run
+   */
+  async finish(appId: string, runId: string, data: FinishRunData): Promise<WorkflowRun | null> {
+    if (!isDatabaseEnabled()) {
+      const run = (memoryRuns.get(appId) || []).find(r => r.id === runId);
+      if (!run) return null;
+
+      const finishedAt = new Date();
+      run.status = data.status;
+      run.actionsExecuted = data.actionsExecuted;
+      run.result = data.result;
+      run.errors = data.errors || [];
+      run.finishedAt = finishedAt.toISOString();
+      run.durationMs = finishedAt.getTime() - new Date(run.startedAt).getTime();
+      return { ...run };
+    }
+
+    const result = await queryOne<DbWorkflowRun>(`
+      UPDATE workflow_runs
+      SET status = $3,
+          actions_executed = $4,
+          result = $5,
+          errors = $6,
+          finished_at = NOW()
+      WHERE id = $1 AND app_id = $2
+      RETURNING *
+    `, [
+      runId,
+      appId,
+      data.status,
+      data.actionsExecuted,
+      data.result ? JSON.stringify(data.result) : null,
+      JSON.stringify(data.errors || []),
+    ]);
+
+    return result ? dbToRun(result) : null;
+  }
+
+  /**
+   * Find a run by ID
+   */
+  async findById(appId: string, runId: string): Promise<WorkflowRun | null> {
+    if (!isDatabaseEnabled()) {
+      const run = (memoryRuns.get(appId) || []).find(r => r.id === runId);
+      return run ? { ...run } : null;
+    }
+
+    const result = await queryOne<DbWorkflowRun>(`
+      SELECT * FROM workflow_runs WHERE id = $1 AND app_id = $2
+    `, [runId, appId]);
+
+    return result ? dbToRun(result) : null;
+  }
+
+  /**
+   * Find runs for an app (newest first)
+   */
+  async findByApp(appId: string, options: FindRunsOptions = {}): Promise<WorkflowRun[]> {
+    const limit = Math.min(Math.max(options.limit || 50, 1), 500);
+
+    if (!isDatabaseEnabled()) {
+      return (memoryRuns.get(appId) || [])
+        .filter(run => !options.workflowId || run.workflowId === options.workflowId)
+        .filter(run => !options.status || run.status === options.status)
+        .slice(0, limit)
+        .map(run => ({ ...run }));
+    }
+
+    const conditions = ['app_id = $1'];
+    const params: unknown[] = [appId];
+    if (options.workflowId) {
+      params.push(options.workflowId);
+      conditions.push(`workflow_id = $${params.length}`);
+    }
+    if (options.status) {
+      params.push(options.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    params.push(limit);
+
+    const results = await query<DbWorkflowRun>(`
+      SELECT * FROM workflow_runs
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY started_at DESC
+      LIMIT $${params.length}
+    `, params);
+
+    return results.map(dbToRun);
+  }
+
+  /**
+   * Delete runs older than the given date
+   */
+  async deleteOlderThan(date: Date): Promise<number> {
+    if (!isDatabaseEnabled()) {
+      let removed = 0;
+      for (const [appId, runs] of memoryRuns) {
+        const kept = runs.filter(run => new Date(run.startedAt) >= date);
+        removed += runs.length - kept.length;
+        memoryRuns.set(appId, kept);
+      }
+      return removed;
+    }
+
+    const result = await execute(`
+      DELETE FROM workflow_runs WHERE started_at < $1
+    `, [date]);
+
+    return result.rowCount;
+  }
+}
+
+// Singleton instance
+export const workflowRunRepository = new WorkflowRunRepository();
@@ -0,0 +1,247 @@
+/**
+ * Workflow Wait Repository
+ * Handles persistence of workflow runs suspended by a `wait` action
+ * to database or file-based storage, so waits survive a server restart
+ */
+import { query, queryOne, isDatabaseEnabled } from '../services/database.js';
+import type { DbWorkflowWait } from '../types/database.js';
+import type { ResumePoint } from '@neo/blueprint-engine';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export type WorkflowWaitStatus = 'pending' | 'resumed' | 'cancelled';
+
+/**
+ * Execution state captured when the run was suspended
+ */
+export interface WorkflowWaitState {
+  trigger?: string;
+  variables?: Record<string, unknown>;
+  formData?: Record<string, unknown>;
+  recordId?: string;
+  user?: { id: string; name?: string };
+  /** Position inside nested actions when the wait was in a loop, parallel or conditional */
+  resumePoint?: ResumePoint;
+}
+
+export interface WorkflowWait {
+  id: string;
+  appId: string;
+  workflowId: string;
+  runId?: string;
+  resumeAt: string;
+  resumeIndex: number;
+  state: WorkflowWaitState;
+  status: WorkflowWaitStatus;
+  createdAt: string;
+  resumedAt?: string;
+}
+
+export interface CreateWaitData {
+  appId: string;
+  workflowId: string;
+  runId?: string;
+  resumeAt: string;
+  resumeIndex: number;
+  state: WorkflowWaitState;
+}
+
+/**
+ * File-based storage path (used when no database is configured)
+ */
+const DATA_DIR = path.join(__dirname, '..', '..', 'data');
+const WAITS_FILE = path.join(DATA_DIR, 'workflow-waits.json');
+
+/**
+ * In-memory store for waits (loaded from file on first access when no database)
+ */
+let memoryStore: Map<string, WorkflowWait> | null = null;
+
+function getMemoryStore(): Map<string, WorkflowWait> {
+  if (!memoryStore) {
+    memoryStore = new Map();
+    try {
+      if (fs.existsSync(WAITS_FILE)) {
+        const waits = JSON.parse(fs.readFileSync(WAITS_FILE, 'utf-8')) as WorkflowWait[];
+        for (const wait of waits) {
+          memoryStore.set(wait.id, wait);
+        }
+      }
+    } catch (err) {
+      console.error('[WorkflowWaitRepository] Failed to load waits from file:', err);
+    }
+  }
+  return memoryStore;
+}
+
+/**
+ * Save pending waits to file (finished waits are dropped)
+ */
+function saveMemoryStore(): void {
+  try {
+    if (!fs.existsSync(DATA_DIR)) {
+      fs.mkdirSync(DATA_DIR, { recursive: true });
+    }
+    const pending = Array.from(getMemoryStore().values()).filter(wait => wait.status === 'pending');
+    fs.writeFileSync(WAITS_FILE, JSON.stringify(pending, null, 2), 'utf-8');
+  } catch (err) {
+    console.error('[WorkflowWaitRepository] Failed to save waits to file:', err);
+  }
+}
+
+/**
+ * Convert database row to WorkflowWait object
+ */
+function dbToWait(row: DbWorkflowWait): WorkflowWait {
+  return {
+    id: row.id,
+    appId: row.app_id,
+    workflowId: row.workflow_id,
+    runId: row.run_id || undefined,
+    resumeAt: row.resume_at.toISOString(),
+    resumeIndex: row.resume_index,
+    state: (row.state || {}) as WorkflowWaitState,
+    status: row.status,
+    createdAt: row.created_at.toISOString(),
+    resumedAt: row.resumed_at ? row.resumed_at.toISOString() : undefined,
+  };
+}
+
+/**
+ * Workflow Wait Repository class
+ */
+export class WorkflowWaitRepository {
+  /**
+   * Record a suspended run
+   */
+  async create(data: CreateWaitData): Promise<WorkflowWait> {
+    if (!isDatabaseEnabled()) {
+      const wait: WorkflowWait = {
+        id: crypto.randomUUID(),
+        ...data,
+        status: 'pending',
+        createdAt: new Date().toISOString(),
+      };
+      getMemoryStore().set(wait.id, wait);
+      saveMemoryStore();
+      return { ...wait };
+    }
+
+    const result = await queryOne<DbWorkflowWait>(`
+      INSERT INTO workflow_waits (app_id, workflow_id, run_id, resume_at, resume_index, state)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `, [
+      data.appId,
+      data.workflowId,
+      data.runId || null,
+      data.resumeAt,
+      data.resumeIndex,
+      JSON.stringify(data.state),
+    ]);
+
+    if (!result) {
+      throw new Error('Failed to record workflow wait');
+    }
+    return dbToWait(result);
+  }
+
+  /**
+   * Claim waits that are due, marking them resumed so each is picked up only once
+   */
+  async claimDue(now: Date = new Date(), limit = 100): Promise<WorkflowWait[]> {
+    if (!isDatabaseEnabled()) {
+      const due = Array.from(getMemoryStore().values())
+        .filter(wait => wait.status === 'pending' && new Date(wait.resumeAt) <= now)
+        .sort((a, b) => a.resumeAt.localeCompare(b.resumeAt))
+        .slice(0, limit);
+
+      if (due.length === 0) return [];
+
+      const resumedAt = new Date().toISOString();
+      for (const wait of due) {
+        wait.status = 'resumed';
+        wait.resumedAt = resumedAt;
+      }
+      saveMemoryStore();
+      return due.map(wait => ({ ...wait }));
+    }
+
+    const results = await query<DbWorkflowWait>(`
+      UPDATE workflow_waits
+      SET status = 'resumed', resumed_at = NOW()
+      WHERE id IN (
+        SELECT id FROM workflow_waits
+        WHERE status = 'pending' AND resume_at <= $1
+        ORDER BY resume_at
+        LIMIT $2
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `, [now, limit]);
+
+    return results.map(dbToWait);
+  }
+
+  /**
+   * Find waits for an app (newest first)
+   */
+  async findByApp(appId: string, status?: WorkflowWaitStatus, limit = 100): Promise<WorkflowWait[]> {
+    if (!isDatabaseEnabled()) {
+      return Array.from(getMemoryStore().values())
+        .filter(wait => wait.appId === appId && (!status || wait.status === status))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, limit)
+        .map(wait => ({ ...wait }));
+    }
+
+    const params: unknown[] = [appId];
+    let statusFilter = '';
+    if (status) {
+      params.push(status);
+      statusFilter = `AND status = $${params.length}`;
+    }
+    params.push(limit);
+
+    const results = await query<DbWorkflowWait>(`
+      SELECT * FROM workflow_waits
+      WHERE app_id = $1 ${statusFilter}
+      ORDER BY created_at DESC
+      LIMIT $${params.length}
+    `, params);
+
+    return results.map(dbToWait);
+  }
+
+  /**
+   * Cancel a pending wait
+   */
+  async cancel(appId: string, waitId: string): Promise<boolean> {
+    if (!isDatabaseEnabled()) {
+      const wait = getMemoryStore().get(waitId);
+      if (!wait || wait.appId !== appId || wait.status !== 'pending') {
+        return false;
+      }
+      wait.status = 'cancelled';
+      saveMemoryStore();
+      return true;
+    }
+
+    const result = await queryOne<DbWorkflowWait>(`
+      UPDATE workflow_waits
+      SET status = 'cancelled'
+      WHERE id = $1 AND app_id = $2 AND status = 'pending'
+      RETURNING *
+    `, [waitId, appId]);
+
+    return result !== null;
+  }
+}
+
+// Singleton instance
+export const workflowWaitRepository = new WorkflowWaitRepository();
@@ -0,0 +1,183 @@
+/**
+ * AI Usage Service
+ * Charges paid AI calls to users and enforces the monthly AI quota of their
+ * plan (`plans.features.aiQuota`). Quota periods are calendar months (UTC).
+ * Guests' calls are charged to their IP address and get the guest quota
+ * (`config.guestAIQuota`); calls made outside any request (scheduled work)
+ * are only bounded by the global AI_DAILY_BUDGET.
+ */
+import { CostLimitError, type CostAttribution, type CostEntry, type UsageEstimate, type UsageMeter } from '@neo/ai-engine';
+import { aiUsageRepository, type AIUsageTotals } from '../repositories/ai-usage-repository.js';
+import { billingService } from './billing-service.js';
+import { config } from '../config.js';
+import type { AIQuota } from '../types/database.js';
+
+/** How long a user's plan quota is reused before it is looked up again */
+const QUOTA_CACHE_MS = 60 * 1000;
+
+export interface AIUsagePeriod {
+  start: string;
+  end: string;
+}
+
+export interface AIUsageSummary {
+  period: AIUsagePeriod;
+  planId: string;
+  used: AIUsageTotals;
+  /** null when the plan has no AI quota */
+  quota: AIQuota | null;
+  /** Left this month (null = unlimited) */
+  remaining: { tokens: number | null; dollars: number | null };
+  limitReached: boolean;
+  byApp: Array<AIUsageTotals & { appId: string | null }>;
+  byOperation: Array<AIUsageTotals & { operation: string | null }>;
+}
+
+export interface AIUsageReport {
+  period: AIUsagePeriod;
+  totals: AIUsageTotals;
+  /** userId is null for guests' calls */
+  byUser: Array<AIUsageTotals & { userId: string | null }>;
+  byOperation: Array<AIUsageTotals & { operation: string | null }>;
+  byModel: Array<AIUsageTotals & { model: string | null }>;
+}
+
+/**
+ * Calendar month (UTC) containing `date`
+ */
+export function monthOf(date: Date = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * The quota a usage goes over, if any
+ */
+function exceededMetric(quota: AIQuota, used: AIUsageTotals): { metric: 'tokens' | 'dollars'; used: number; quota: number } | null {
+  if (quota.monthlyTokens !== null && used.tokens >= quota.monthlyTokens) {
+    return { metric: 'tokens', used: used.tokens, quota: quota.monthlyTokens };
+  }
+  if (quota.monthlyDollars !== null && used.cost >= quota.monthlyDollars) {
+    return { metric: 'dollars', used: used.cost, quota: quota.monthlyDollars };
+  }
+  return null;
+}
+
+/**
+ * AI Usage Service class
+ */
+export class AIUsageService implements UsageMeter {
+  private quotas = new Map<string, { planId: string; quota: AIQuota | null; expiresAt: number }>();
+
+  /**
+   * A user's plan and its AI quota
+   */
+  async getQuota(userId: string): Promise<{ planId: string; quota: AIQuota | null }> {
+    const cached = this.quotas.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    const subscription = await billingService.getSubscription(userId);
+    const planId = subscription?.planId ?? 'free';
+    const plan = (await billingService.getPlans()).find(p => p.id === planId);
+    const quota = (plan?.features.aiQuota as AIQuota | undefined) ?? null;
+
+    this.quotas.set(userId, { planId, quota, expiresAt: Date.now() + QUOTA_CACHE_MS });
+    return { planId, quota };
+  }
+
+  /**
+   * Refuse a call that would take the attributed user (or guest) past their monthly quota
+   */
+  async checkQuota(attribution: CostAttribution, estimate: UsageEstimate): Promise<void> {
+    let quota: AIQuota | null;
+    let filter: { userId?: string; clientKey?: string };
+    if (attribution.userId) {
+      quota = (await this.getQuota(attribution.userId)).quota;
+      filter = { userId: attribution.userId };
+    } else if (attribution.clientKey) {
+      quota = config.guestAIQuota;
+      filter = { clientKey: attribution.clientKey };
+    } else {
+      return;
+    }
+    if (!quota) return;
+
+    const used = await aiUsageRepository.totals({ ...filter, from: monthOf().start });
+    const exceeded = exceededMetric(quota, {
+      tokens: used.tokens + estimate.tokens,
+      cost: used.cost + estimate.cost,
+      calls: used.calls + 1,
+    });
+    if (exceeded) {
+      throw new CostLimitError(
+        exceeded.metric === 'tokens'
+          ? `Monthly AI quota of ${exceeded.quota} tokens reached`
+          : `Monthly AI quota of $${exceeded.quota.toFixed(2)} reached`,
+        quota.enforcement,
+        exceeded.metric,
+        exceeded.metric === 'tokens' ? used.tokens : used.cost,
+        exceeded.quota
+      );
+    }
+  }
+
+  async record(entry: CostEntry): Promise<void> {
+    await aiUsageRepository.record(entry);
+  }
+
+  /**
+   * A user's AI usage this month, against their plan's quota
+   */
+  async getUsage(userId: string): Promise<AIUsageSummary> {
+    const { start, end } = monthOf();
+    const filter = { userId, from: start, to: end };
+    const [{ planId, quota }, used, byApp, byOperation] = await Promise.all([
+      this.getQuota(userId),
+      aiUsageRepository.totals(filter),
+      aiUsageRepository.totalsBy('app', filter),
+      aiUsageRepository.totalsBy('operation', filter),
+    ]);
+
+    return {
+      period: { start: start.toISOString(), end: end.toISOString() },
+      planId,
+      used,
+      quota,
+      remaining: {
+        tokens: quota?.monthlyTokens != null ? Math.max(0, quota.monthlyTokens - used.tokens) : null,
+        dollars: quota?.monthlyDollars != null ? Math.max(0, quota.monthlyDollars - used.cost) : null,
+      },
+      limitReached: quota ? exceededMetric(quota, used) !== null : false,
+      byApp: byApp.map(({ key, ...totals }) => ({ appId: key, ...totals })),
+      byOperation: byOperation.map(({ key, ...totals }) => ({ operation: key, ...totals })),
+    };
+  }
+
+  /**
+   * AI usage across all users in [from, to)
+   */
+  async getReport(from: Date, to: Date): Promise<AIUsageReport> {
+    const filter = { from, to };
+    const [totals, byUser, byOperation, byModel] = await Promise.all([
+      aiUsageRepository.totals(filter),
+      aiUsageRepository.totalsBy('user', filter),
+      aiUsageRepository.totalsBy('operation', filter),
+      aiUsageRepository.totalsBy('model', filter),
+    ]);
+
+    return {
+      period: { start: from.toISOString(), end: to.toISOString() },
+      totals,
+      byUser: byUser.map(({ key, ...rest }) => ({ userId: key, ...rest })),
+      byOperation: byOperation.map(({ key, ...rest }) => ({ operation: key, ...rest })),
+      byModel: byModel.map(({ key, ...rest }) => ({ model: key, ...rest })),
+    };
+  }
+}
+
+// Singleton instance
+export const aiUsageService = new AIUsageService();
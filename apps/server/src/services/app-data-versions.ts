@@ -0,0 +1,36 @@
+/**
+ * App Data Versions
+ * Version snapshots for records kept in an app's JSON data (/apps/:id/data),
+ * stored next to the database entity versions
+ */
+import { recordVersionedWrite } from '@neo/database';
+import { recordVersionRepository } from '../repositories/record-version-repository.js';
+import type { App } from '../repositories/app-repository.js';
+import { hasModelBehavior } from './model-behaviors.js';
+
+/**
+ * Whether a data model declares the `versionable` behavior
+ */
+export function isVersionedModel(app: App, modelId: string): boolean {
+  return hasModelBehavior(app, modelId, 'versionable');
+}
+
+/**
+ * Save the snapshot of a created or updated record of a versionable model
+ */
+export async function saveAppRecordVersion(
+  app: App,
+  modelId: string,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>,
+  userId?: string | null
+): Promise<void> {
+  await recordVersionedWrite(recordVersionRepository, {
+    appId: app.id,
+    entityId: modelId,
+    recordId: String(after.id),
+    userId,
+    before,
+    after,
+  });
+}
@@ -0,0 +1,20 @@
+/**
+ * App Entity Hooks
+ * Runs the `hooks` of an app's data models around writes to its app data,
+ * with the same rules as the CRUD service and the in-browser data store
+ */
+import { EntityHookRunner } from '@neo/contracts';
+import type { App } from '../repositories/app-repository.js';
+import { findModelHooks } from './model-behaviors.js';
+import { startHookWorkflow } from './workflow-runner.js';
+
+/**
+ * Hook runner for writes to one data model of an app
+ * After-hooks start their workflows on the server.
+ */
+export function appEntityHooks(app: App, modelId: string): EntityHookRunner {
+  const hooks = new EntityHookRunner();
+  hooks.register(modelId, findModelHooks(app, modelId));
+  hooks.setWorkflowStarter(startHookWorkflow);
+  return hooks;
+}
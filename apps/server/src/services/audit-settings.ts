@@ -0,0 +1,37 @@
+/**
+ * Audit Settings
+ * Per-app audit log settings, kept in the app's settings by the app store
+ */
+import { appRepository, type App } from '../repositories/app-repository.js';
+
+export interface AuditSettings {
+  /** Days entries are kept; null keeps them forever */
+  retentionDays: number | null;
+}
+
+const DEFAULT_AUDIT_SETTINGS: AuditSettings = {
+  retentionDays: null,
+};
+
+/**
+ * Audit settings stored on an app (defaults when none were set)
+ */
+export function auditSettingsOf(app: App): AuditSettings {
+  const stored = app.settings?.audit as Partial<AuditSettings> | undefined;
+  return { ...DEFAULT_AUDIT_SETTINGS, ...stored };
+}
+
+/**
+ * Store audit settings in the app's settings
+ */
+export async function saveAuditSettings(app: App, settings: AuditSettings): Promise<void> {
+  await appRepository.updateSettings(app.id, { ...app.settings, audit: settings });
+}
+
+/**
+ * Retention period for an app's audit log (null when entries are kept forever)
+ */
+export async function getAuditRetentionDays(appId: string): Promise<number | null> {
+  const app = await appRepository.findById(appId);
+  return app ? auditSettingsOf(app).retentionDays : null;
+}
@@ -196,9 +196,18 @@ export class BillingService {
   }>> {
     if (!isDatabaseEnabled()) {
       return [
-        { id: 'free', name: 'Free', priceMonthly: 0, priceYearly: 0, appLimit: 3, features: {} },
-        { id: 'pro', name: 'Pro', priceMonthly: 1900, priceYearly: 19000, appLimit: 25, features: {} },
-        { id: 'enterprise', name: 'Enterprise', priceMonthly: 9900, priceYearly: 99000, appLimit: null, features: {} },
+        {
+          id: 'free', name: 'Free', priceMonthly: 0, priceYearly: 0, appLimit: 3,
+          features: { aiQuota: { monthlyTokens: 200000, monthlyDollars: 0.5, enforcement: 'hard' } },
+        },
+        {
+          id: 'pro', name: 'Pro', priceMonthly: 1900, priceYearly: 19000, appLimit: 25,
+          features: { aiQuota: { monthlyTokens: 5000000, monthlyDollars: 20, enforcement: 'soft' } },
+        },
+        {
+          id: 'enterprise', name: 'Enterprise', priceMonthly: 9900, priceYearly: 99000, appLimit: null,
+          features: { aiQuota: { monthlyTokens: null, monthlyDollars: null, enforcement: 'soft' } },
+        },
       ];
     }
     
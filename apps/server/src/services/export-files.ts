@@ -0,0 +1,147 @@
+/**
+ * Export Files
+ * Files that workflows export (download_file, generate_pdf): the records of an
+ * app data model written as CSV, XLSX, JSON or PDF and kept in the blob store
+ * behind signed, expiring download URLs.
+ */
+import { randomUUID } from 'crypto';
+import {
+  exportCellValue,
+  exportColumns,
+  type ExportCell,
+  type ExportFormat,
+} from '@neo/database';
+import { config } from '../config.js';
+import type { BlobStore, StoredBlob } from '../repositories/blob-store.js';
+import type { RunnableApp } from './workflow-runner.js';
+import { createSignedUrl } from '../utils/signed-url.js';
+import { EXPORT_CONTENT_TYPES, exportFileName, writeExport } from '../utils/export-writer.js';
+
+let blobStore: BlobStore | null = null;
+
+export interface ExportFileRequest {
+  entityId: string;
+  format: ExportFormat;
+  /** Only records whose fields equal these values */
+  filter?: Record<string, unknown>;
+  sort?: { field: string; direction?: 'asc' | 'desc' };
+  select?: string[];
+  /** Heading and file name (default: the data model name) */
+  title?: string;
+}
+
+export interface ExportFile {
+  url: string;
+  fileName: string;
+  expiresAt: string;
+}
+
+interface AppModelField {
+  id: string;
+  name: string;
+  type: string;
+  enumOptions?: { value: string; label: string }[];
+  /** Blueprint entities name the target `entity`, contract data models `targetModel` */
+  reference?: { entity?: string; targetModel?: string; displayField: string };
+  access?: { visibleTo?: string[] };
+}
+
+interface AppModel {
+  id: string;
+  name: string;
+  fields: AppModelField[];
+}
+
+/**
+ * Keep exported files in this store (workflow exports fail without one)
+ */
+export function setExportFileStore(store: BlobStore | null): void {
+  blobStore = store;
+}
+
+export function exportFilePath(appId: string, exportId: string, fileName: string): string {
+  return `/api/apps/${appId}/exports/${exportId}/${encodeURIComponent(fileName)}`;
+}
+
+function exportFileKey(appId: string, exportId: string, fileName: string): string {
+  return `exports/${appId}/${exportId}/${fileName}`;
+}
+
+/**
+ * Store an exported file and sign its download URL
+ */
+export async function saveExportFile(
+  appId: string,
+  fileName: string,
+  contentType: string,
+  data: Buffer
+): Promise<ExportFile> {
+  if (!blobStore) {
+    throw new Error('File storage is not configured');
+  }
+  const exportId = randomUUID();
+  await blobStore.put(exportFileKey(appId, exportId, fileName), data, contentType);
+  const signed = createSignedUrl(
+    config.attachmentUrlSecret,
+    exportFilePath(appId, exportId, fileName),
+    config.attachmentUrlTtlSeconds
+  );
+  return { url: signed.url, fileName, expiresAt: signed.expiresAt };
+}
+
+/**
+ * Read a stored export (null when it does not exist)
+ */
+export async function readExportFile(appId: string, exportId: string, fileName: string): Promise<StoredBlob | null> {
+  if (!blobStore) return null;
+  return blobStore.get(exportFileKey(appId, exportId, fileName));
+}
+
+/**
+ * Export the records of an app data model (the app's stored data, as workflows see it)
+ * Fields with `access.visibleTo` are left out: workflow runs have no role.
+ */
+export async function exportAppRecords(app: RunnableApp, request: ExportFileRequest): Promise<ExportFile> {
+  const schema = (app.schema || {}) as { entities?: AppModel[]; dataModels?: AppModel[] };
+  const model = [...(schema.entities ?? []), ...(schema.dataModels ?? [])].find(m => m.id === request.entityId);
+  if (!model) {
+    throw new Error(`Unknown data model: ${request.entityId}`);
+  }
+  const fields = model.fields.map(field => {
+    const target = field.reference?.entity ?? field.reference?.targetModel;
+    return {
+      ...field,
+      reference: field.reference && target ? { entity: target, displayField: field.reference.displayField } : undefined,
+    };
+  });
+
+  const data = (app.data ?? {}) as Record<string, Record<string, unknown>[] | undefined>;
+  let records = (data[request.entityId] ?? []).filter(record =>
+    Object.entries(request.filter ?? {}).every(([field, value]) => String(record[field] ?? '') === String(value ?? ''))
+  );
+  if (request.sort) {
+    const { field, direction } = request.sort;
+    records = [...records].sort((a, b) =>
+      String(a[field] ?? '').localeCompare(String(b[field] ?? ''), undefined, { numeric: true }) * (direction === 'desc' ? -1 : 1)
+    );
+  }
+
+  const columns = exportColumns({ ...model, fields }, { select: request.select });
+  const columnFields = columns.map(column => fields.find(f => f.name === column.field));
+  // Referenced records by id, as their display value
+  const displayValues = columnFields.map(field => {
+    if (!field?.reference) return undefined;
+    const { entity, displayField } = field.reference;
+    return new Map((data[entity] ?? []).map(record => [String(record.id), String(record[displayField] ?? record.id)]));
+  });
+  const rows: ExportCell[][] = records.map(record =>
+    columns.map((column, i) => exportCellValue(columnFields[i], record[column.field], displayValues[i]))
+  );
+
+  const title = request.title || model.name;
+  const chunks: Buffer[] = [];
+  for await (const chunk of writeExport(request.format, { title, columns, batches: [rows] })) {
+    chunks.push(chunk);
+  }
+  return saveExportFile(app.id, exportFileName(title, request.format), EXPORT_CONTENT_TYPES[request.format], Buffer.concat(chunks));
+}
@@ -0,0 +1,64 @@
+/**
+ * Model Behaviors
+ * Behaviors (commentable, versionable, ...) and fields declared on an app's data models
+ */
+import type { EntityHooks } from '@neo/contracts';
+import type { App } from '../repositories/app-repository.js';
+
+export interface ModelField {
+  id: string;
+  type: string;
+}
+
+interface ModelWithBehaviors {
+  id: string;
+  behaviors?: string[];
+  fields?: ModelField[];
+  hooks?: EntityHooks;
+}
+
+/**
+ * Blueprint entities and contract data models of an app
+ */
+function modelsOf(app: App): ModelWithBehaviors[] {
+  return [
+    ...((app.schema.entities as ModelWithBehaviors[] | undefined) ?? []),
+    ...((app.schema.dataModels as ModelWithBehaviors[] | undefined) ?? []),
+  ];
+}
+
+/**
+ * Whether a data model declares a behavior
+ * Looks at blueprint entities and contract data models.
+ */
+export function hasModelBehavior(app: App, modelId: string, behavior: string): boolean {
+  return modelsOf(app).some(model => model.id === modelId && model.behaviors?.includes(behavior) === true);
+}
+
+/**
+ * IDs of the data models that declare a behavior
+ */
+export function modelIdsWithBehavior(app: App, behavior: string): string[] {
+  const ids = modelsOf(app)
+    .filter(model => model.behaviors?.includes(behavior) === true)
+    .map(model => model.id);
+  return [...new Set(ids)];
+}
+
+/**
+ * Find a field of a data model
+ */
+export function findModelField(app: App, modelId: string, fieldId: string): ModelField | undefined {
+  for (const model of modelsOf(app)) {
+    const field = model.id === modelId ? model.fields?.find(f => f.id === fieldId) : undefined;
+    if (field) return field;
+  }
+  return undefined;
+}
+
+/**
+ * The `hooks` a data model declares
+ */
+export function findModelHooks(app: App, modelId: string): EntityHooks | undefined {
+  return modelsOf(app).find(model => model.id === modelId && model.hooks)?.hooks;
+}
@@ -0,0 +1,426 @@
+/**
+ * Workflow Runner
+ * Executes app workflows on the server (schedules, webhooks, manual runs)
+ * against the app's persisted data and records every run
+ */
+import {
+  WorkflowEngine,
+  WorkflowRateLimiter,
+  type WorkflowAPI,
+  type WorkflowContext,
+  type WorkflowDef,
+  type WorkflowResult,
+  type ResumePoint,
+} from '@neo/blueprint-engine';
+import type { EntityHookWorkflowRequest } from '@neo/contracts';
+import { logger } from '../utils/logger.js';
+import { appRepository } from '../repositories/app-repository.js';
+import { workflowRunRepository, type WorkflowRun } from '../repositories/workflow-run-repository.js';
+import { workflowWaitRepository, type WorkflowWait } from '../repositories/workflow-wait-repository.js';
+import { workflowRateLimitRepository } from '../repositories/workflow-rate-limit-repository.js';
+import { exportAppRecords } from './export-files.js';
+
+/**
+ * Minimal app shape the runner needs (works for both the contracts App
+ * and the repository App)
+ */
+export interface RunnableApp {
+  id: string;
+  schema: unknown;
+  data?: Record<string, unknown>;
+}
+
+export interface RunWorkflowOptions {
+  /** What started the run: 'schedule', 'webhook', 'manual' */
+  trigger: string;
+  variables?: Record<string, unknown>;
+  formData?: Record<string, unknown>;
+  recordId?: string;
+  user?: { id: string; name?: string };
+  /** Index of the first top-level action to run (set when resuming a wait) */
+  startIndex?: number;
+  /** Where to resume inside nested actions (set when resuming a wait) */
+  resumeFrom?: ResumePoint;
+}
+
+export interface WorkflowRunOutcome {
+  run: WorkflowRun;
+  result: WorkflowResult;
+}
+
+/**
+ * Find an app in the app store
+ */
+export async function findRunnableApp(appId: string): Promise<RunnableApp | null> {
+  return appRepository.findById(appId);
+}
+
+/**
+ * Counts workflow runs against their rateLimit, for server runs and for
+ * flows run in the browser (see the admit route)
+ */
+export const workflowRateLimiter = new WorkflowRateLimiter(workflowRateLimitRepository);
+
+// Dedicated engine instance so server-only action handlers don't leak into the browser runtime
+export const serverWorkflowEngine = new WorkflowEngine();
+serverWorkflowEngine.setRateLimiter(workflowRateLimiter);
+
+/**
+ * Normalize a stored flow/workflow into a WorkflowDef
+ * Stored `schema.flows` keep legacy action fields (modelId, data, message...);
+ * these are folded back into `config` so the engine handlers can read them.
+ */
+function normalizeWorkflow(raw: any): WorkflowDef | null {
+  if (!raw || typeof raw !== 'object' || !raw.id || !raw.trigger) {
+    return null;
+  }
+
+  const normalizeAction = (action: any, index: number): any => {
+    const config: Record<string, unknown> = { ...(action.config || {}) };
+    if (config.entityId === undefined && (action.modelId || action.model)) {
+      config.entityId = action.modelId || action.model;
+    }
+    if (config.recordId === undefined && action.recordId) config.recordId = action.recordId;
+    if (config.pageId === undefined && action.targetPageId) config.pageId = action.targetPageId;
+    if (config.message === undefined && action.message) config.message = action.message;
+    if (config.data === undefined && action.data) config.data = action.data;
+
+    return {
+      ...action,
+      id: action.id || `${raw.id}-action-${index}`,
+      config,
+      ...(action.thenActions && { thenActions: action.thenActions.map(normalizeAction) }),
+      ...(action.elseActions && { elseActions: action.elseActions.map(normalizeAction) }),
+      ...(action.itemActions && { itemActions: action.itemActions.map(normalizeAction) }),
+      ...(action.branches && {
+        branches: action.branches.map((branch: any[]) => branch.map(normalizeAction)),
+      }),
+    };
+  };
+
+  return {
+    ...raw,
+    name: raw.name || raw.id,
+    enabled: raw.enabled ?? true,
+    trigger: { ...raw.trigger },
+    actions: Array.isArray(raw.actions) ? raw.actions.map(normalizeAction) : [],
+    ...(raw.onError?.fallbackActions && {
+      onError: { ...raw.onError, fallbackActions: raw.onError.fallbackActions.map(normalizeAction) },
+    }),
+  } as WorkflowDef;
+}
+
+/**
+ * Get all workflows declared by an app
+ * Reads unified `schema.workflows` first, then materialized `schema.flows`
+ */
+export function getAppWorkflows(app: RunnableApp): WorkflowDef[] {
+  const schema = (app.schema || {}) as { workflows?: unknown[]; flows?: unknown[] };
+  const byId = new Map<string, WorkflowDef>();
+
+  for (const raw of [...(schema.workflows || []), ...(schema.flows || [])]) {
+    const workflow = normalizeWorkflow(raw);
+    if (workflow && !byId.has(workflow.id)) {
+      byId.set(workflow.id, workflow);
+    }
+  }
+
+  return Array.from(byId.values());
+}
+
+/**
+ * Build a WorkflowAPI that reads and writes the app's JSON data
+ * UI-only operations (navigate, modals) are no-ops on the server.
+ * Transactions snapshot the data so a rolled back run leaves it untouched.
+ * Exported files go to the blob store, behind signed download URLs.
+ */
+function createServerWorkflowAPI(
+  app: RunnableApp,
+  context: WorkflowContext,
+  state: {
+    dirty: boolean;
+    notifications: Array<{ message: string; type: string }>;
+    events: Array<{ type: string; data: unknown }>;
+  }
+): WorkflowAPI {
+  const records = (entityId: string): Record<string, unknown>[] => {
+    if (!app.data) app.data = {};
+    if (!Array.isArray(app.data[entityId])) app.data[entityId] = [];
+    return app.data[entityId] as Record<string, unknown>[];
+  };
+  const snapshots: Array<Record<string, unknown>> = [];
+
+  return {
+    createRecord: async (entityId, data) => {
+      const id = `${entityId}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      const now = new Date().toISOString();
+      const record = { id, ...data, createdAt: now, updatedAt: now };
+      records(entityId).push(record);
+      state.dirty = true;
+      return { id, data: record };
+    },
+    updateRecord: async (entityId, recordId, data) => {
+      const list = records(entityId);
+      const index = list.findIndex(r => r.id === recordId);
+      if (index === -1) {
+        throw new Error(`Record ${recordId} does not exist in ${entityId}`);
+      }
+      list[index] = { ...list[index], ...data, id: recordId, updatedAt: new Date().toISOString() };
+      state.dirty = true;
+      return { data: list[index] };
+    },
+    deleteRecord: async (entityId, recordId) => {
+      const list = records(entityId);
+      const index = list.findIndex(r => r.id === recordId);
+      if (index === -1) {
+        throw new Error(`Record ${recordId} does not exist in ${entityId}`);
+      }
+      list.splice(index, 1);
+      state.dirty = true;
+    },
+    getRecord: async (entityId, recordId) => {
+      return records(entityId).find(r => r.id === recordId) || null;
+    },
+    navigate: () => {},
+    showNotification: (message, type) => {
+      state.notifications.push({ message, type });
+    },
+    showModal: () => {},
+    closeModal: () => {},
+    refreshData: async () => {},
+    setVariable: (name, value) => {
+      context.variables[name] = value;
+    },
+    getVariable: (name) => context.variables[name],
+    emitEvent: (type, data) => {
+      state.events.push({ type, data });
+      logger.debug('Workflow event', { appId: app.id, type });
+    },
+    beginTransaction: () => {
+      snapshots.push(structuredClone(app.data || {}));
+    },
+    commitTransaction: () => {
+      snapshots.pop();
+    },
+    rollbackTransaction: () => {
+      const snapshot = snapshots.pop();
+      if (snapshot) {
+        app.data = snapshot;
+      }
+    },
+    exportFile: (request) => exportAppRecords(app, request),
+  };
+}
+
+/**
+ * Apply the record changes between `before` and `after` to `data`
+ * Records are matched by id, so records other writers added, changed or
+ * removed meanwhile are kept as they are in `data`.
+ */
+function applyDataChanges(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  data: Record<string, unknown>
+): void {
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const oldValue = before[key];
+    const newValue = after[key];
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+    if (!Array.isArray(oldValue ?? []) || !Array.isArray(newValue ?? []) || !Array.isArray(data[key] ?? [])) {
+      if (newValue === undefined) delete data[key];
+      else data[key] = newValue;
+      continue;
+    }
+
+    type DataRecord = Record<string, unknown> & { id?: unknown };
+    const oldRecords = new Map(((oldValue ?? []) as DataRecord[]).map(r => [r.id, r]));
+    const newRecords = new Map(((newValue ?? []) as DataRecord[]).map(r => [r.id, r]));
+    const records = ((data[key] ?? []) as DataRecord[])
+      .filter(r => !oldRecords.has(r.id) || newRecords.has(r.id))
+      .map(r => {
+        const oldRecord = oldRecords.get(r.id);
+        const newRecord = newRecords.get(r.id);
+        return oldRecord && newRecord && JSON.stringify(oldRecord) !== JSON.stringify(newRecord) ? newRecord : r;
+      });
+    for (const [id, record] of newRecords) {
+      if (!oldRecords.has(id)) records.push(record);
+    }
+    data[key] = records;
+  }
+}
+
+/**
+ * Run a workflow for an app, persist data changes and record the run
+ * A top-level `wait` suspends the run: its state is stored and the scheduler
+ * resumes it (see resumeWorkflowWait) once the wait is over.
+ */
+export async function runAppWorkflow(
+  app: RunnableApp,
+  workflow: WorkflowDef,
+  options: RunWorkflowOptions
+): Promise<WorkflowRunOutcome> {
+  const run = await workflowRunRepository.start({
+    appId: app.id,
+    workflowId: workflow.id,
+    workflowName: workflow.name,
+    trigger: options.trigger,
+  });
+
+  const context: WorkflowContext = {
+    appId: app.id,
+    entityId: workflow.trigger.entityId,
+    recordId: options.recordId,
+    formData: options.formData,
+    variables: { ...(options.variables || {}) },
+    user: options.user,
+  };
+  const state = {
+    dirty: false,
+    notifications: [] as Array<{ message: string; type: string }>,
+    events: [] as Array<{ type: string; data: unknown }>,
+  };
+  // What the data looked like before the run, to tell its changes apart from others'
+  const dataBefore = structuredClone(app.data || {});
+  const api = createServerWorkflowAPI(app, context, state);
+
+  let result: WorkflowResult;
+  try {
+    result = await serverWorkflowEngine.executeWorkflow(workflow, context, api, {
+      startIndex: options.startIndex,
+      resumeFrom: options.resumeFrom,
+      durableWaits: true,
+    });
+  } catch (error: any) {
+    result = {
+      success: false,
+      workflowId: workflow.id,
+      actionsExecuted: 0,
+      results: [],
+      error: error?.message || 'Workflow execution failed',
+    };
+  }
+
+  if (state.dirty && app.data) {
+    try {
+      const changes = app.data;
+      await appRepository.changeData(app.id, (data) => {
+        applyDataChanges(dataBefore, changes, data);
+        return true;
+      });
+    } catch (error: any) {
+      logger.warn('Failed to persist workflow data changes', {
+        appId: app.id,
+        workflowId: workflow.id,
+        error: error?.message,
+      });
+    }
+  }
+
+  const errors = [
+    ...(result.error ? [result.error] : []),
+    ...result.results.filter(r => !r.success && r.error).map(r => r.error as string),
+    ...(result.fallbackResults || []).filter(r => !r.success && r.error).map(r => `Fallback: ${r.error}`),
+  ];
+
+  let wait: WorkflowWait | undefined;
+  if (result.suspended) {
+    wait = await workflowWaitRepository.create({
+      appId: app.id,
+      workflowId: workflow.id,
+      runId: run.id,
+      resumeAt: result.suspended.resumeAt,
+      resumeIndex: result.suspended.resumeIndex,
+      state: {
+        trigger: options.trigger,
+        variables: context.variables,
+        formData: context.formData,
+        recordId: context.recordId,
+        user: context.user,
+        resumePoint: result.suspended.resumePoint,
+      },
+    });
+  }
+
+  const finished = await workflowRunRepository.finish(app.id, run.id, {
+    status: wait ? 'waiting' : result.success ? 'succeeded' : 'failed',
+    actionsExecuted: result.actionsExecuted,
+    result: {
+      results: result.results,
+      ...(result.rolledBack !== undefined && { rolledBack: result.rolledBack }),
+      ...(result.fallbackResults && { fallbackResults: result.fallbackResults }),
+      variables: context.variables,
+      notifications: state.notifications,
+      ...(state.events.length > 0 && { events: state.events }),
+      ...(result.rateLimited && { rateLimited: result.rateLimited }),
+      ...(options.startIndex && { startIndex: options.startIndex }),
+      ...(wait && { waitId: wait.id, resumeAt: wait.resumeAt }),
+    },
+    errors,
+  });
+
+  logger.info('Workflow run finished', {
+    appId: app.id,
+    workflowId: workflow.id,
+    trigger: options.trigger,
+    success: result.success,
+    actionsExecuted: result.actionsExecuted,
+    ...(wait && { waitingUntil: wait.resumeAt }),
+  });
+
+  return { run: finished || run, result };
+}
+
+/**
+ * Resume a suspended run from the action after its wait (inside the loop,
+ * parallel or conditional when the wait was nested)
+ * Returns null if the workflow no longer exists or is disabled.
+ */
+export async function resumeWorkflowWait(
+  app: RunnableApp,
+  wait: WorkflowWait
+): Promise<WorkflowRunOutcome | null> {
+  const workflow = getAppWorkflows(app).find(w => w.id === wait.workflowId);
+  if (!workflow || !workflow.enabled) {
+    logger.warn('Dropping workflow wait: workflow missing or disabled', {
+      appId: app.id,
+      workflowId: wait.workflowId,
+      waitId: wait.id,
+    });
+    return null;
+  }
+
+  return runAppWorkflow(app, workflow, {
+    trigger: 'resume',
+    variables: { ...(wait.state.variables || {}), resumedFromRunId: wait.runId },
+    formData: wait.state.formData,
+    recordId: wait.state.recordId,
+    user: wait.state.user,
+    startIndex: wait.resumeIndex,
+    resumeFrom: wait.state.resumePoint || { index: wait.resumeIndex },
+  });
+}
+
+/**
+ * Run the app workflow an entity after-hook asked for (runWorkflow)
+ */
+export async function startHookWorkflow(request: EntityHookWorkflowRequest): Promise<void> {
+  const app = request.appId ? await findRunnableApp(request.appId) : null;
+  const workflow = app ? getAppWorkflows(app).find(w => w.id === request.workflowId) : undefined;
+  if (!app || !workflow) {
+    logger.warn('Hook workflow not found', {
+      appId: request.appId,
+      entityId: request.entityId,
+      hook: request.hook,
+      workflowId: request.workflowId,
+    });
+    return;
+  }
+
+  await runAppWorkflow(app, workflow, {
+    trigger: 'hook',
+    variables: request.input,
+    recordId: request.recordId,
+    user: request.user?.id ? { id: request.user.id } : undefined,
+  });
+}
@@ -0,0 +1,211 @@
+/**
+ * Workflow Scheduler
+ * Fires `schedule`/`scheduled` workflow triggers based on their cron expression
+ * and resumes runs whose `wait` action is over
+ */
+import type { WorkflowDef } from '@neo/blueprint-engine';
+import { logger } from '../utils/logger.js';
+import { parseCron, cronMatches, nextCronRun, type CronSchedule } from '../utils/cron.js';
+import { getAppWorkflows, runAppWorkflow, resumeWorkflowWait, type RunnableApp } from './workflow-runner.js';
+import type { WorkflowRun } from '../repositories/workflow-run-repository.js';
+import { workflowWaitRepository, type WorkflowWait } from '../repositories/workflow-wait-repository.js';
+
+const SCHEDULE_TRIGGER_TYPES = new Set(['schedule', 'scheduled']);
+
+export interface ScheduledWorkflowInfo {
+  workflowId: string;
+  name: string;
+  schedule: string;
+  enabled: boolean;
+  valid: boolean;
+  error?: string;
+  nextRunAt: string | null;
+}
+
+export interface WorkflowSchedulerOptions {
+  /** Loads every app that may own scheduled workflows */
+  loadApps: () => Promise<RunnableApp[]>;
+  /** How often to check for due workflows (must be < 60s so no minute is skipped) */
+  intervalMs?: number;
+}
+
+/**
+ * Get the scheduled workflows of an app
+ */
+export function getScheduledWorkflows(app: RunnableApp): WorkflowDef[] {
+  return getAppWorkflows(app).filter(workflow =>
+    SCHEDULE_TRIGGER_TYPES.has(workflow.trigger.type) && !!workflow.trigger.schedule
+  );
+}
+
+/**
+ * Workflow Scheduler class
+ */
+export class WorkflowScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private cronCache = new Map<string, CronSchedule | Error>();
+  private lastFired = new Map<string, number>(); // appId:workflowId -> minute timestamp
+  private inFlight = new Set<string>(); // appId:workflowId
+
+  constructor(private options: WorkflowSchedulerOptions) {}
+
+  /**
+   * Start checking for due workflows
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const intervalMs = Math.min(this.options.intervalMs || 30000, 59000);
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error('Workflow scheduler tick failed', error));
+    }, intervalMs);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+
+    logger.info('Workflow scheduler started', { intervalMs });
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Workflow scheduler stopped');
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Run every workflow due at `now` (at most once per workflow per minute)
+   * and resume waits that are over. Returns the runs that were started.
+   */
+  async tick(now: Date = new Date()): Promise<WorkflowRun[]> {
+    if (this.ticking) return [];
+    this.ticking = true;
+
+    const minute = Math.floor(now.getTime() / 60000) * 60000;
+    const runs: Promise<WorkflowRun | null>[] = [];
+
+    try {
+      const apps = await this.options.loadApps();
+
+      for (const app of apps) {
+        for (const workflow of getScheduledWorkflows(app)) {
+          if (!workflow.enabled) continue;
+
+          const schedule = this.getSchedule(workflow.trigger.schedule as string);
+          if (schedule instanceof Error) continue;
+          if (!cronMatches(schedule, now)) continue;
+
+          const key = `${app.id}:${workflow.id}`;
+          if (this.lastFired.get(key) === minute) continue;
+          this.lastFired.set(key, minute);
+
+          if (this.inFlight.has(key)) {
+            logger.warn('Skipping scheduled workflow: previous run still in progress', {
+              appId: app.id,
+              workflowId: workflow.id,
+            });
+            continue;
+          }
+
+          runs.push(this.fire(app, workflow, key));
+        }
+      }
+
+      const waits = await workflowWaitRepository.claimDue(now);
+      if (waits.length > 0) {
+        const appsById = new Map(apps.map(app => [app.id, app]));
+        for (const wait of waits) {
+          runs.push(this.resume(appsById.get(wait.appId), wait));
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+
+    const completed = await Promise.all(runs);
+    return completed.filter((run): run is WorkflowRun => run !== null);
+  }
+
+  /**
+   * Describe the scheduled workflows of an app, with their next run time
+   */
+  describe(app: RunnableApp, from: Date = new Date()): ScheduledWorkflowInfo[] {
+    return getScheduledWorkflows(app).map(workflow => {
+      const expression = workflow.trigger.schedule as string;
+      const schedule = this.getSchedule(expression);
+      const valid = !(schedule instanceof Error);
+
+      return {
+        workflowId: workflow.id,
+        name: workflow.name,
+        schedule: expression,
+        enabled: workflow.enabled,
+        valid,
+        ...(!valid && { error: (schedule as Error).message }),
+        nextRunAt: valid && workflow.enabled
+          ? nextCronRun(schedule as CronSchedule, from)?.toISOString() || null
+          : null,
+      };
+    });
+  }
+
+  private async fire(app: RunnableApp, workflow: WorkflowDef, key: string): Promise<WorkflowRun | null> {
+    this.inFlight.add(key);
+    try {
+      const { run } = await runAppWorkflow(app, workflow, {
+        trigger: 'schedule',
+        variables: { scheduledAt: new Date().toISOString() },
+      });
+      return run;
+    } catch (error: any) {
+      logger.error('Scheduled workflow failed to run', error, {
+        appId: app.id,
+        workflowId: workflow.id,
+      });
+      return null;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private async resume(app: RunnableApp | undefined, wait: WorkflowWait): Promise<WorkflowRun | null> {
+    if (!app) {
+      logger.warn('Dropping workflow wait: app not found', { appId: wait.appId, waitId: wait.id });
+      return null;
+    }
+
+    try {
+      const outcome = await resumeWorkflowWait(app, wait);
+      return outcome ? outcome.run : null;
+    } catch (error: any) {
+      logger.error('Resumed workflow failed to run', error, {
+        appId: app.id,
+        workflowId: wait.workflowId,
+        waitId: wait.id,
+      });
+      return null;
+    }
+  }
+
+  private getSchedule(expression: string): CronSchedule | Error {
+    let cached = this.cronCache.get(expression);
+    if (!cached) {
+      try {
+        cached = parseCron(expression);
+      } catch (error: any) {
+        cached = error instanceof Error ? error : new Error(String(error));
+        logger.warn('Invalid cron expression on scheduled workflow', { expression, error: (cached as Error).message });
+      }
+      this.cronCache.set(expression, cached);
+    }
+    return cached;
+  }
+}
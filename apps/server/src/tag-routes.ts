@@ -0,0 +1,393 @@
+/**
+ * Tag Routes
+ *
+ * API routes for an app's tag vocabulary and the tags on records of
+ * `taggable` entities (single records and bulk tagging from data tables).
+ *
+ * PERMISSION ENFORCEMENT:
+ * - The vocabulary is checked like an entity named `tags`
+ * - Tagging records needs update permission on the entity, and only
+ *   records visible under the permission filters and row access rules can be tagged
+ */
+
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import { logger } from './utils/logger.js';
+import { checkDbAvailable, getDbService, getRowAccessFilter } from './database-routes.js';
+import {
+  extractUserContext,
+  checkPermission,
+  mergeFilters,
+  type UserContext,
+} from './permissions-middleware.js';
+
+/** Permission rules address the vocabulary as this entity */
+const TAG_VOCABULARY_ENTITY = 'tags';
+
+const MAX_BULK_RECORDS = 500;
+
+interface TagBody {
+  name?: string;
+  color?: string;
+}
+
+/**
+ * Check the caller has an action on the tag vocabulary
+ */
+function ensureVocabularyAccess(
+  userContext: UserContext | undefined,
+  action: 'read' | 'create' | 'update' | 'delete',
+  reply: FastifyReply
+): boolean {
+  if (checkPermission(userContext, TAG_VOCABULARY_ENTITY, action).allowed) return true;
+  reply.code(403).send({
+    success: false,
+    error: 'Forbidden',
+    message: `You do not have permission to ${action} tags`,
+  });
+  return false;
+}
+
+/**
+ * Check the entity is taggable and the caller may update every given record
+ * (records hidden from the caller look the same as missing ones)
+ */
+async function ensureTaggableRecords(
+  appId: string,
+  entityId: string,
+  recordIds: string[],
+  userContext: UserContext | undefined,
+  reply: FastifyReply
+): Promise<boolean> {
+  const db = await getDbService();
+  if (!db.isTaggable(entityId)) {
+    reply.code(400).send({
+      success: false,
+      error: 'Not taggable',
+      message: `${entityId} does not have the taggable behavior`,
+    });
+    return false;
+  }
+
+  const permissionCheck = checkPermission(userContext, entityId, 'update');
+  if (!permissionCheck.allowed) {
+    reply.code(403).send({
+      success: false,
+      error: 'Forbidden',
+      message: 'You do not have permission to tag these records',
+    });
+    return false;
+  }
+
+  const { isUuid } = await import('@neo/database');
+  const ids = [...new Set(recordIds)];
+  const invalid = ids.find(id => !isUuid(id));
+  if (invalid !== undefined) {
+    reply.code(400).send({
+      success: false,
+      error: 'Invalid record id',
+      message: `Invalid record id: ${invalid}`,
+    });
+    return false;
+  }
+
+  const visible = await db.count(entityId, {
+    filters: mergeFilters([{ field: 'id', operator: 'in', value: ids }], permissionCheck.filter) as any[],
+    accessFilter: await getRowAccessFilter(appId, entityId, userContext),
+  });
+  if (visible !== ids.length) {
+    reply.code(404).send({
+      success: false,
+      error: 'Not found',
+      message: ids.length === 1 ? `Record ${ids[0]} not found` : 'Some records were not found',
+    });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Send a 400 for invalid tag input
+ */
+function sendTagRejection(reply: FastifyReply, error: Error): boolean {
+  if (error.name !== 'TagValidationError') return false;
+  reply.code(400).send({
+    success: false,
+    error: 'Invalid tags',
+    message: error.message,
+  });
+  return true;
+}
+
+/**
+ * Register tag routes
+ */
+export async function registerTagRoutes(server: FastifyInstance): Promise<void> {
+  // ============================================================
+  // VOCABULARY
+  // ============================================================
+
+  /**
+   * List an app's tags
+   * GET /db/apps/:appId/tags
+   */
+  server.get<{ Params: { appId: string } }>(
+    '/db/apps/:appId/tags',
+    async (request, reply) => {
+      if (!(await checkDbAvailable(reply))) return;
+      if (!ensureVocabularyAccess(extractUserContext(request), 'read', reply)) return;
+
+      try {
+        const db = await getDbService();
+        const tags = await db.listTags(request.params.appId);
+        return reply.send({ success: true, tags });
+      } catch (error: any) {
+        logger.error('List tags failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'List tags failed',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Add a tag
+   * POST /db/apps/:appId/tags  { name, color? }
+   */
+  server.post<{ Params: { appId: string }; Body: TagBody }>(
+    '/db/apps/:appId/tags',
+    async (request, reply) => {
+      if (!(await checkDbAvailable(reply))) return;
+      if (!ensureVocabularyAccess(extractUserContext(request), 'create', reply)) return;
+
+      try {
+        const db = await getDbService();
+        const tag = await db.createTag(request.params.appId, {
+          name: request.body?.name ?? '',
+          color: request.body?.color,
+        });
+        return reply.code(201).send({ success: true, tag });
+      } catch (error: any) {
+        if (sendTagRejection(reply, error)) return;
+        logger.error('Create tag failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Create tag failed',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Rename or recolor a tag
+   * PUT /db/apps/:appId/tags/:tagId  { name?, color? }
+   */
+  server.put<{ Params: { appId: string; tagId: string }; Body: TagBody }>(
+    '/db/apps/:appId/tags/:tagId',
+    async (request, reply) => {
+      if (!(await checkDbAvailable(reply))) return;
+      if (!ensureVocabularyAccess(extractUserContext(request), 'update', reply)) return;
+
+      try {
+        const { appId, tagId } = request.params;
+        const db = await getDbService();
+        const tag = await db.updateTag(appId, tagId, {
+          name: request.body?.name,
+          color: request.body?.color,
+        });
+        if (!tag) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Not found',
+            message: `Tag ${tagId} not found`,
+          });
+        }
+        return reply.send({ success: true, tag });
+      } catch (error: any) {
+        if (sendTagRejection(reply, error)) return;
+        logger.error('Update tag failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Update tag failed',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Delete a tag (and remove it from all records)
+   * DELETE /db/apps/:appId/tags/:tagId
+   */
+  server.delete<{ Params: { appId: string; tagId: string } }>(
+    '/db/apps/:appId/tags/:tagId',
+    async (request, reply) => {
+      if (!(await checkDbAvailable(reply))) return;
+      if (!ensureVocabularyAccess(extractUserContext(request), 'delete', reply)) return;
+
+      try {
+        const { appId, tagId } = request.params;
+        const db = await getDbService();
+        if (!(await db.deleteTag(appId, tagId))) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Not found',
+            message: `Tag ${tagId} not found`,
+          });
+        }
+        return reply.send({ success: true, deletedId: tagId });
+      } catch (error: any) {
+        logger.error('Delete tag failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Delete tag failed',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  // ============================================================
+  // RECORD TAGS
+  // ============================================================
+
+  /**
+   * Replace a record's tags
+   * PUT /db/apps/:appId/entities/:entityId/records/:recordId/tags  { tagIds }
+   */
+  server.put<{
+    Params: { appId: string; entityId: string; recordId: string };
+    Body: { tagIds?: string[] };
+  }>(
+    '/db/apps/:appId/entities/:entityId/records/:recordId/tags',
+    async (request, reply) => {
+      if (!(await checkDbAvailable(reply))) return;
+
+      try {
+        const { appId, entityId, recordId } = request.params;
+        const tagIds = request.body?.tagIds;
+        if (!Array.isArray(tagIds)) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid tags',
+            message: 'tagIds must be an array',
+          });
+        }
+
+        const userContext = extractUserContext(request);
+        if (!(await ensureTaggableRecords(appId, entityId, [recordId], userContext, reply))) return;
+
+        const db = await getDbService();
+        const tags = await db.setRecordTags(appId, entityId, recordId, tagIds);
+        return reply.send({ success: true, tags });
+      } catch (error: any) {
+        if (sendTagRejection(reply, error)) return;
+        logger.error('Set record tags failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Set record tags failed',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Add and remove tags on many records
+   * POST /db/apps/:appId/entities/:entityId/tags/bulk  { recordIds, add?, remove? }
+   */
+  server.post<{
+    Params: { appId: string; entityId: string };
+    Body: { recordIds?: string[]; add?: string[]; remove?: string[] };
+  }>(
+    '/db/apps/:appId/entities/:entityId/tags/bulk',
+    async (request, reply) => {
+      if (!(await checkDbAvailable(reply))) return;
+
+      try {
+        const { appId, entityId } = request.params;
+        const { recordIds, add = [], remove = [] } = request.body ?? {};
+        if (!Array.isArray(recordIds) || recordIds.length === 0 || !Array.isArray(add) || !Array.isArray(remove)) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid request',
+            message: 'recordIds must be a non-empty array; add and remove must be arrays',
+          });
+        }
+        if (recordIds.length > MAX_BULK_RECORDS) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Too many records',
+            message: `Tag at most ${MAX_BULK_RECORDS} records at a time`,
+          });
+        }
+
+        const userContext = extractUserContext(request);
+        if (!(await ensureTaggableRecords(appId, entityId, recordIds, userContext, reply))) return;
+
+        const db = await getDbService();
+        const result = await db.bulkTag(appId, entityId, [...new Set(recordIds)], { add, remove });
+        return reply.send({ success: true, ...result });
+      } catch (error: any) {
+        if (sendTagRejection(reply, error)) return;
+        logger.error('Bulk tag failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Bulk tag failed',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * How many visible records carry each tag (for tag clouds)
+   * GET /db/apps/:appId/entities/:entityId/tags/counts
+   */
+  server.get<{ Params: { appId: string; entityId: string } }>(
+    '/db/apps/:appId/entities/:entityId/tags/counts',
+    async (request, reply) => {
+      if (!(await checkDbAvailable(reply))) return;
+
+      try {
+        const { appId, entityId } = request.params;
+        const userContext = extractUserContext(request);
+        const permissionCheck = checkPermission(userContext, entityId, 'read');
+        if (!permissionCheck.allowed) {
+          return reply.code(403).send({
+            success: false,
+            error: 'Forbidden',
+            message: 'You do not have permission to access this data',
+          });
+        }
+
+        const db = await getDbService();
+        if (!db.isTaggable(entityId)) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Not taggable',
+            message: `${entityId} does not have the taggable behavior`,
+          });
+        }
+
+        const counts = await db.tagCounts(entityId, {
+          filters: mergeFilters(undefined, permissionCheck.filter) as any[] | undefined,
+          accessFilter: await getRowAccessFilter(appId, entityId, userContext),
+        });
+        return reply.send({ success: true, counts });
+      } catch (error: any) {
+        logger.error('Tag counts failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Tag counts failed',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  logger.info('Tag routes registered');
+}
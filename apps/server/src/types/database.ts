@@ -43,6 +43,17 @@ export interface PlanFeatures {
   analytics?: boolean;
   sso?: boolean;
   audit?: boolean;
+  aiQuota?: AIQuota;
+}
+
+/**
+ * Monthly AI allowance of a plan (null = unlimited)
+ * 'hard' refuses AI calls past it; 'soft' answers them with the free fallback generator.
+ */
+export interface AIQuota {
+  monthlyTokens: number | null;
+  monthlyDollars: number | null;
+  enforcement: 'hard' | 'soft';
 }
 
 export interface DbSubscription {
@@ -64,6 +75,9 @@ export interface DbApp {
   name: string;
   description: string | null;
   category: string | null;
+  privacy_level: string | null;
+  version: number | null;
+  created_by: string | null;
   schema: Record<string, unknown>;
   theme: Record<string, unknown> | null;
   data: Record<string, unknown>;
@@ -128,3 +142,112 @@ export function dbPlanToPlan(dbPlan: DbPlan): Plan {
     features: dbPlan.features,
   };
 }
+
+export interface DbWorkflowRun {
+  id: string;
+  app_id: string;
+  workflow_id: string;
+  workflow_name: string | null;
+  trigger: string;
+  status: 'running' | 'succeeded' | 'failed' | 'waiting';
+  started_at: Date;
+  finished_at: Date | null;
+  actions_executed: number;
+  result: Record<string, unknown> | null;
+  errors: string[];
+}
+
+export interface DbAppWebhookSecret {
+  app_id: string;
+  secret: string;
+  created_at: Date;
+}
+
+export interface DbWorkflowWait {
+  id: string;
+  app_id: string;
+  workflow_id: string;
+  run_id: string | null;
+  resume_at: Date;
+  resume_index: number;
+  state: Record<string, unknown>;
+  status: 'pending' | 'resumed' | 'cancelled';
+  created_at: Date;
+  resumed_at: Date | null;
+}
+
+export interface DbAppIntegration {
+  app_id: string;
+  provider_id: string;
+  display_name: string | null;
+  settings: Record<string, unknown>;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DbRecordVersion {
+  app_id: string;
+  entity_id: string;
+  record_id: string;
+  version: number;
+  data: Record<string, unknown>;
+  user_id: string | null;
+  created_at: Date;
+}
+
+export interface DbRecordComment {
+  id: string;
+  app_id: string;
+  entity_id: string;
+  record_id: string;
+  parent_id: string | null;
+  author_id: string;
+  author_name: string | null;
+  body: string;
+  mentions: string[];
+  created_at: Date;
+  updated_at: Date;
+  edited_at: Date | null;
+}
+
+export interface DbAttachment {
+  id: string;
+  app_id: string;
+  entity_id: string;
+  record_id: string;
+  field_id: string | null;
+  file_name: string;
+  content_type: string;
+  size: number;
+  storage_key: string;
+  uploaded_by: string | null;
+  created_at: Date;
+}
+
+export interface DbDiscoveryConversation {
+  id: string;
+  user_id: string | null;
+  forked_from: string | null;
+  title: string;
+  status: 'active' | 'completed' | 'abandoned';
+  turns: unknown[];
+  created_at: Date;
+  updated_at: Date;
+  expires_at: Date;
+}
+
+export interface DbAiUsage {
+  id: string;
+  user_id: string | null;
+  client_key: string | null;  // guests' IP address
+  app_id: string | null;
+  operation: string | null;
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: string;  // NUMERIC comes back as a string
+  created_at: Date;
+}
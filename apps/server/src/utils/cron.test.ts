@@ -0,0 +1,60 @@
+import { describe, expect, test } from "vitest";
+import { parseCron, cronMatches, nextCronRun, isValidCron, CronParseError } from "./cron.js";
+
+const at = (iso: string) => new Date(iso);
+
+describe("parseCron", () => {
+  test("parses wildcards, lists, ranges and steps", () => {
+    const schedule = parseCron("*/15 9-17 1,15 * mon-fri");
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect(schedule.hours.size).toBe(9);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test("expands macros and treats 7 as Sunday", () => {
+    expect(parseCron("@daily").expression).toBe("@daily");
+    expect(cronMatches("@daily", at("2026-03-04T00:00:00Z"))).toBe(true);
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  test("rejects malformed expressions", () => {
+    expect(() => parseCron("* * *")).toThrow(CronParseError);
+    expect(() => parseCron("60 * * * *")).toThrow(/out of range/);
+    expect(() => parseCron("*/0 * * * *")).toThrow(/invalid step/);
+    expect(() => parseCron("5-1 * * * *")).toThrow(/reversed/);
+    expect(isValidCron("0 9 * * *")).toBe(true);
+    expect(isValidCron("every day")).toBe(false);
+  });
+});
+
+describe("cronMatches", () => {
+  test("matches the configured minute in UTC", () => {
+    expect(cronMatches("0 9 * * *", at("2026-05-10T09:00:30Z"))).toBe(true);
+    expect(cronMatches("0 9 * * *", at("2026-05-10T09:01:00Z"))).toBe(false);
+  });
+
+  test("uses OR semantics when day-of-month and day-of-week are both set", () => {
+    // 2026-05-11 is a Monday, 2026-05-13 is the 13th (a Wednesday)
+    expect(cronMatches("0 0 13 * mon", at("2026-05-11T00:00:00Z"))).toBe(true);
+    expect(cronMatches("0 0 13 * mon", at("2026-05-13T00:00:00Z"))).toBe(true);
+    expect(cronMatches("0 0 13 * mon", at("2026-05-12T00:00:00Z"))).toBe(false);
+  });
+});
+
+describe("nextCronRun", () => {
+  test("finds the next matching minute strictly after the start", () => {
+    expect(nextCronRun("0 9 * * *", at("2026-05-10T09:00:00Z"))?.toISOString()).toBe("2026-05-11T09:00:00.000Z");
+    expect(nextCronRun("*/10 * * * *", at("2026-05-10T09:03:12Z"))?.toISOString()).toBe("2026-05-10T09:10:00.000Z");
+  });
+
+  test("rolls over months and finds leap days", () => {
+    expect(nextCronRun("0 0 1 * *", at("2026-12-15T12:00:00Z"))?.toISOString()).toBe("2027-01-01T00:00:00.000Z");
+    expect(nextCronRun("0 0 29 2 *", at("2026-03-01T00:00:00Z"))?.toISOString()).toBe("2028-02-29T00:00:00.000Z");
+  });
+
+  test("returns null for schedules that never fire", () => {
+    expect(nextCronRun("0 0 31 2 *", at("2026-01-01T00:00:00Z"))).toBeNull();
+  });
+});
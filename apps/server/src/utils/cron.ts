@@ -0,0 +1,241 @@
+/**
+ * Cron Expression Utilities
+ * Parses standard 5-field cron expressions used by `schedule` workflow triggers
+ *
+ * Format: minute hour day-of-month month day-of-week
+ * Supports: wildcards, lists (1,2), ranges (1-5), steps (1-30/5),
+ * month/day names (jan, mon) and macros (@hourly, @daily, @weekly, @monthly, @yearly).
+ * All times are evaluated in UTC so schedules behave the same on every deployment.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** True when the day-of-month field was restricted (not `*`) */
+  domRestricted: boolean;
+  /** True when the day-of-week field was restricted (not `*`) */
+  dowRestricted: boolean;
+}
+
+export class CronParseError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid cron expression "${expression}": ${reason}`);
+    this.name = 'CronParseError';
+  }
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Offset applied to name indexes (months are 1-based) */
+  nameOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day-of-week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+/**
+ * Parse a single value (number or name) within a field
+ */
+function parseValue(raw: string, spec: FieldSpec, expression: string): number {
+  const lower = raw.toLowerCase();
+  if (spec.names) {
+    const index = spec.names.indexOf(lower);
+    if (index !== -1) {
+      return index + (spec.nameOffset || 0);
+    }
+  }
+
+  if (!/^\d+$/.test(raw)) {
+    throw new CronParseError(expression, `"${raw}" is not a valid ${spec.name} value`);
+  }
+
+  const value = parseInt(raw, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new CronParseError(expression, `${spec.name} value ${value} is out of range ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+/**
+ * Parse one cron field into the set of values it matches
+ */
+function parseField(field: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    if (!part) {
+      throw new CronParseError(expression, `empty list item in ${spec.name}`);
+    }
+
+    const [rangePart, stepPart] = part.split('/');
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || parseInt(stepPart, 10) === 0) {
+        throw new CronParseError(expression, `invalid step "${stepPart}" in ${spec.name}`);
+      }
+      step = parseInt(stepPart, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, spec, expression);
+      end = parseValue(to, spec, expression);
+      if (start > end) {
+        throw new CronParseError(expression, `range ${rangePart} in ${spec.name} is reversed`);
+      }
+    } else {
+      start = parseValue(rangePart, spec, expression);
+      // "5/10" means "from 5, every 10"
+      end = stepPart !== undefined ? spec.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ * @throws CronParseError when the expression is malformed
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] || trimmed;
+  const parts = expanded.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new CronParseError(expression, `expected 5 fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index], expression)
+  );
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: parts[2] !== '*',
+    dowRestricted: parts[4] !== '*',
+  };
+}
+
+/**
+ * Check whether a cron expression is valid
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Day matching follows standard cron semantics: when both day-of-month and
+ * day-of-week are restricted, a date matches if EITHER field matches.
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.domRestricted && schedule.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Check whether a schedule fires at the given minute
+ */
+export function cronMatches(schedule: CronSchedule | string, date: Date): boolean {
+  const parsed = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  return (
+    parsed.minutes.has(date.getUTCMinutes()) &&
+    parsed.hours.has(date.getUTCHours()) &&
+    parsed.months.has(date.getUTCMonth() + 1) &&
+    matchesDay(parsed, date)
+  );
+}
+
+/**
+ * Find the next time (strictly after `from`) a schedule fires
+ * Returns null if nothing matches within the search horizon (e.g. "0 0 31 2 *")
+ */
+export function nextCronRun(schedule: CronSchedule | string, from: Date = new Date()): Date | null {
+  const parsed = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+
+  const candidate = new Date(from.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  // Search up to 5 years ahead (covers leap-day schedules)
+  const horizon = from.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+
+  while (candidate.getTime() <= horizon) {
+    if (!parsed.months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(parsed, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!parsed.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!parsed.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  return null;
+}
@@ -5,6 +5,7 @@
 
 import type { FastifyInstance } from 'fastify';
 import { logger } from './logger.js';
+import { appRepository } from '../repositories/app-repository.js';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -18,6 +19,7 @@ export interface DebugState {
   memory: NodeJS.MemoryUsage;
   uptime: number;
   appStore?: {
+    driver: string;
     count: number;
     appIds: string[];
   };
@@ -30,7 +32,6 @@ export interface DebugState {
  */
 export async function exportDebugState(
   server: FastifyInstance,
-  appStore?: Map<string, any>,
   config?: any
 ): Promise<string> {
   const state: DebugState = {
@@ -44,11 +45,15 @@ export async function exportDebugState(
     uptime: process.uptime(),
   };
 
-  if (appStore) {
+  try {
+    const apps = await appRepository.findAll(1000);
     state.appStore = {
-      count: appStore.size,
-      appIds: Array.from(appStore.keys()),
+      driver: appRepository.driver,
+      count: await appRepository.count(),
+      appIds: apps.map(app => app.id),
     };
+  } catch (error) {
+    logger.warn('Debug state could not read the app store', { error: (error as Error).message });
   }
 
   if (config) {
@@ -129,12 +134,11 @@ export async function exportRecentErrors(count: number = 50): Promise<string> {
  */
 export async function createDebugReport(
   server: FastifyInstance,
-  appStore?: Map<string, any>,
   config?: any
 ): Promise<string> {
   const report = {
     timestamp: new Date().toISOString(),
-    state: await exportDebugState(server, appStore, config),
+    state: await exportDebugState(server, config),
     recentErrors: getRecentErrors(20),
     system: {
       nodeVersion: process.version,
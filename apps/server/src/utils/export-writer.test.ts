@@ -0,0 +1,82 @@
+import { describe, expect, test } from "vitest";
+import { inflateSync } from "node:zlib";
+import type { ExportCell, ExportColumn, ExportFormat } from "@neo/database";
+import { crc32, exportFileName, writeExport } from "./export-writer.js";
+import { readXlsx } from "./spreadsheet.js";
+
+const columns: ExportColumn[] = [
+  { field: "title", label: "Title", type: "string" },
+  { field: "amount", label: "Amount", type: "currency" },
+  { field: "dueDate", label: "Due date", type: "date" },
+  { field: "done", label: "Done", type: "boolean" },
+];
+
+const batches: ExportCell[][][] = [
+  [["Paint, then dry", 12.5, "2024-03-04", true], ["=SUM(A1)", null, null, false]],
+  [['Say "hi" — twice', 3, "2024-12-31", null]],
+];
+
+async function render(format: ExportFormat, rows: ExportCell[][][] = batches): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of writeExport(format, { title: "Open jobs", columns, batches: rows })) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+describe("writeExport", () => {
+  test("writes CSV with quoting and neutralized formulas, and JSON keyed by field", async () => {
+    expect((await render("csv")).toString("utf8")).toBe(
+      "\uFEFFTitle,Amount,Due date,Done\r\n" +
+      '"Paint, then dry",12.5,2024-03-04,true\r\n' +
+      "'=SUM(A1),,,false\r\n" +
+      '"Say ""hi"" — twice",3,2024-12-31,\r\n'
+    );
+
+    expect(JSON.parse((await render("json")).toString("utf8"))).toEqual([
+      { title: "Paint, then dry", amount: 12.5, dueDate: "2024-03-04", done: true },
+      { title: "=SUM(A1)", amount: null, dueDate: null, done: false },
+      { title: 'Say "hi" — twice', amount: 3, dueDate: "2024-12-31", done: null },
+    ]);
+    expect(JSON.parse((await render("json", [[]])).toString("utf8"))).toEqual([]);
+    expect(exportFileName("Open jobs", "xlsx")).toBe("open-jobs.xlsx");
+  });
+
+  test("writes an XLSX workbook the import reader can read back", async () => {
+    const xlsx = await render("xlsx");
+    expect(readXlsx(xlsx)).toEqual([
+      ["Title", "Amount", "Due date", "Done"],
+      ["Paint, then dry", 12.5, "2024-03-04", true],
+      ["=SUM(A1)", null, null, false],
+      ['Say "hi" — twice', 3, "2024-12-31"],
+    ]);
+
+    // Entries carry their CRC in data descriptors and the central directory
+    const end = xlsx.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    expect(xlsx.readUInt16LE(end + 10)).toBe(6);
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+  });
+
+  test("writes a PDF whose cross-reference table points at its objects", async () => {
+    const many: ExportCell[][][] = [Array.from({ length: 90 }, (_, i) => [`Job ${i}`, i, null, null])];
+    const pdf = await render("pdf", many);
+    const text = pdf.toString("latin1");
+    expect(text.startsWith("%PDF-1.4")).toBe(true);
+    expect(text.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(text).toMatch(/\/Type \/Pages \/Kids \[6 0 R 8 0 R 10 0 R\] \/Count 3/);
+
+    const xrefOffset = Number(text.match(/startxref\n(\d+)/)![1]);
+    expect(text.slice(xrefOffset, xrefOffset + 4)).toBe("xref");
+    const offsets = [...text.slice(xrefOffset).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+    offsets.forEach((offset, i) => {
+      expect(text.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`);
+    });
+
+    const firstPage = text.match(/5 0 obj\n<< \/Length (\d+) \/Filter \/FlateDecode >>\nstream\n/)!;
+    const start = firstPage.index! + firstPage[0].length;
+    const content = inflateSync(pdf.subarray(start, start + Number(firstPage[1]))).toString("latin1");
+    expect(content).toContain("(Open jobs) Tj");
+    expect(content).toContain("(Job 0) Tj");
+    expect(content).toContain("(Page 1) Tj");
+  });
+});
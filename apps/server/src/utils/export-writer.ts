@@ -0,0 +1,519 @@
+/**
+ * Export Writing
+ * Writes exported rows as CSV, XLSX, JSON or PDF, chunk by chunk, so large
+ * exports are streamed to the client instead of being built in memory.
+ * XLSX is a zip of XML parts whose worksheet is deflated batch by batch;
+ * PDF is a landscape table in the standard Helvetica font.
+ */
+
+import { constants, deflateRawSync, deflateSync } from 'node:zlib';
+import type { ExportCell, ExportColumn, ExportFormat } from '@neo/database';
+
+export interface ExportDocument {
+  /** Sheet name, PDF heading and file name */
+  title: string;
+  columns: ExportColumn[];
+  /** Rows, a batch at a time, with a cell per column */
+  batches: AsyncIterable<ExportCell[][]> | Iterable<ExportCell[][]>;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+/** Day 0 of spreadsheet date serial numbers */
+const SPREADSHEET_EPOCH = Date.UTC(1899, 11, 30);
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_DATA_DESCRIPTOR = 0x08074b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+
+/** Sizes and CRC follow the data (bit 3); names are UTF-8 (bit 11) */
+const ZIP_FLAGS = 0x0808;
+const ZIP_DEFLATE = 8;
+
+/** Landscape A4, in points */
+const PDF_PAGE_WIDTH = 842;
+const PDF_PAGE_HEIGHT = 595;
+const PDF_MARGIN = 36;
+const PDF_FONT_SIZE = 8;
+const PDF_ROW_HEIGHT = 12;
+
+/** Cell styles of the generated workbook (see XLSX_STYLES) */
+const XLSX_HEADER_STYLE = 1;
+const XLSX_DATE_STYLE = 2;
+const XLSX_DATETIME_STYLE = 3;
+
+/**
+ * File name of an export ("Open orders" → open-orders.csv)
+ */
+export function exportFileName(title: string, format: ExportFormat): string {
+  const base = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'export';
+  return `${base}.${format}`;
+}
+
+/**
+ * Write an export in a format, as a sequence of chunks
+ */
+export function writeExport(format: ExportFormat, document: ExportDocument): AsyncGenerator<Buffer> {
+  switch (format) {
+    case 'csv':
+      return writeCsv(document);
+    case 'json':
+      return writeJson(document);
+    case 'xlsx':
+      return writeXlsx(document);
+    case 'pdf':
+      return writePdf(document);
+  }
+}
+
+// ============================================================
+// CSV and JSON
+// ============================================================
+
+async function* writeCsv({ columns, batches }: ExportDocument): AsyncGenerator<Buffer> {
+  // The byte order mark makes spreadsheet apps read the file as UTF-8
+  yield Buffer.from('\ufeff' + csvLine(columns.map(column => column.label)), 'utf8');
+  for await (const rows of batches) {
+    yield Buffer.from(rows.map(row => csvLine(row)).join(''), 'utf8');
+  }
+}
+
+/**
+ * A CSV record (RFC 4180, CRLF line ends)
+ * Text starting with a formula character is prefixed with an apostrophe so
+ * spreadsheet apps do not run it.
+ */
+function csvLine(cells: ExportCell[]): string {
+  return cells.map(cell => {
+    if (cell === null) return '';
+    let text = String(cell);
+    if (typeof cell === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',') + '\r\n';
+}
+
+async function* writeJson({ columns, batches }: ExportDocument): AsyncGenerator<Buffer> {
+  yield Buffer.from('[');
+  let first = true;
+  for await (const rows of batches) {
+    if (rows.length === 0) continue;
+    const objects = rows.map(row =>
+      JSON.stringify(Object.fromEntries(columns.map((column, i) => [column.field, row[i]])))
+    );
+    yield Buffer.from(`${first ? '\n' : ',\n'}${objects.join(',\n')}`, 'utf8');
+    first = false;
+  }
+  yield Buffer.from(first ? ']\n' : '\n]\n');
+}
+
+// ============================================================
+// XLSX
+// ============================================================
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const XLSX_CONTENT_TYPES = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+  + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+  + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+  + '</Types>';
+
+const XLSX_ROOT_RELS = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+  + `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>`
+  + '</Relationships>';
+
+const XLSX_WORKBOOK_RELS = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+  + `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet1.xml"/>`
+  + `<Relationship Id="rId2" Type="${RELATIONSHIP_NS}/styles" Target="styles.xml"/>`
+  + '</Relationships>';
+
+/** Normal, bold header, date (format 14) and date-time (format 22) cells */
+const XLSX_STYLES = `${XML_HEADER}<styleSheet xmlns="${SHEET_NS}">`
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="4">'
+  + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+  + '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '</cellXfs>'
+  + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+  + '</styleSheet>';
+
+async function* writeXlsx({ title, columns, batches }: ExportDocument): AsyncGenerator<Buffer> {
+  const zip = new ZipWriter();
+  yield* zip.file('[Content_Types].xml', [XLSX_CONTENT_TYPES]);
+  yield* zip.file('_rels/.rels', [XLSX_ROOT_RELS]);
+  yield* zip.file('xl/workbook.xml', [
+    `${XML_HEADER}<workbook xmlns="${SHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">`
+      + `<sheets><sheet name="${escapeXml(sheetName(title))}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+  ]);
+  yield* zip.file('xl/_rels/workbook.xml.rels', [XLSX_WORKBOOK_RELS]);
+  yield* zip.file('xl/styles.xml', [XLSX_STYLES]);
+  yield* zip.file('xl/worksheets/sheet1.xml', sheetParts(columns, batches));
+  yield zip.finish();
+}
+
+/**
+ * The worksheet XML: a frozen bold header row, then a row per record
+ */
+async function* sheetParts(columns: ExportColumn[], batches: ExportDocument['batches']): AsyncGenerator<string> {
+  const header = columns
+    .map((column, i) => `<c r="${cellReference(i, 1)}" t="inlineStr" s="${XLSX_HEADER_STYLE}"><is><t>${escapeXml(column.label)}</t></is></c>`)
+    .join('');
+  yield `${XML_HEADER}<worksheet xmlns="${SHEET_NS}">`
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + `<sheetData><row r="1">${header}</row>`;
+
+  let rowNumber = 1;
+  for await (const rows of batches) {
+    yield rows.map(row => {
+      rowNumber++;
+      const cells = row.map((cell, i) => xlsxCell(cell, columns[i], cellReference(i, rowNumber))).join('');
+      return `<row r="${rowNumber}">${cells}</row>`;
+    }).join('');
+  }
+  yield '</sheetData></worksheet>';
+}
+
+function xlsxCell(cell: ExportCell, column: ExportColumn, reference: string): string {
+  if (cell === null || cell === '') return '';
+  if (typeof cell === 'number') return Number.isFinite(cell) ? `<c r="${reference}"><v>${cell}</v></c>` : '';
+  if (typeof cell === 'boolean') return `<c r="${reference}" t="b"><v>${cell ? 1 : 0}</v></c>`;
+
+  // Dates are stored as serial numbers so they sort and filter as dates
+  if ((column.type === 'date' || column.type === 'datetime') && /^\d{4}-\d{2}-\d{2}/.test(cell)) {
+    const time = Date.parse(cell);
+    if (!isNaN(time)) {
+      const serial = (time - SPREADSHEET_EPOCH) / 86400000;
+      const style = cell.length > 10 ? XLSX_DATETIME_STYLE : XLSX_DATE_STYLE;
+      return `<c r="${reference}" s="${style}"><v>${serial}</v></c>`;
+    }
+  }
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+}
+
+/**
+ * Cell reference of a zero-based column and a row number (2, 7 → "C7")
+ */
+function cellReference(column: number, row: number): string {
+  let letters = '';
+  for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return `${letters}${row}`;
+}
+
+/**
+ * Worksheet names: at most 31 characters, none of []:*?/\
+ */
+function sheetName(title: string): string {
+  return title.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Export';
+}
+
+/**
+ * Escape text for XML, dropping characters XML cannot contain
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+}
+
+/**
+ * Streaming zip writer
+ * Entries are deflated part by part (sync-flushed raw deflate segments form one
+ * stream), with the CRC and sizes in a data descriptor after the data.
+ */
+class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+
+  async *file(name: string, parts: Iterable<string> | AsyncIterable<string>): AsyncGenerator<Buffer> {
+    const entry: ZipEntry = { name: Buffer.from(name, 'utf8'), offset: this.offset, crc: 0, compressedSize: 0, size: 0 };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(ZIP_LOCAL_HEADER, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(ZIP_FLAGS, 6);
+    header.writeUInt16LE(ZIP_DEFLATE, 8);
+    header.writeUInt32LE(dosDateTime(), 10);
+    header.writeUInt16LE(entry.name.length, 26);
+    yield this.written(Buffer.concat([header, entry.name]));
+
+    for await (const part of parts) {
+      const data = Buffer.from(part, 'utf8');
+      if (data.length === 0) continue;
+      entry.crc = crc32(data, entry.crc);
+      entry.size += data.length;
+      const compressed = deflateRawSync(data, { finishFlush: constants.Z_SYNC_FLUSH });
+      entry.compressedSize += compressed.length;
+      yield this.written(compressed);
+    }
+    // An empty final block ends the deflate stream
+    const end = deflateRawSync(Buffer.alloc(0));
+    entry.compressedSize += end.length;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(ZIP_DATA_DESCRIPTOR, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    yield this.written(Buffer.concat([end, descriptor]));
+    this.entries.push(entry);
+  }
+
+  /**
+   * Central directory and end record
+   */
+  finish(): Buffer {
+    const directoryOffset = this.offset;
+    const records = this.entries.map(entry => {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(ZIP_CENTRAL_HEADER, 0);
+      record.writeUInt16LE(20, 4);
+      record.writeUInt16LE(20, 6);
+      record.writeUInt16LE(ZIP_FLAGS, 8);
+      record.writeUInt16LE(ZIP_DEFLATE, 10);
+      record.writeUInt32LE(dosDateTime(), 12);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.compressedSize, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([record, entry.name]);
+    });
+    const directory = Buffer.concat(records);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(ZIP_END_OF_DIRECTORY, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    return this.written(Buffer.concat([directory, end]));
+  }
+
+  private written(chunk: Buffer): Buffer {
+    this.offset += chunk.length;
+    return chunk;
+  }
+}
+
+/**
+ * Current local time in MS-DOS format (date in the high word)
+ */
+function dosDateTime(date: Date = new Date()): number {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return ((day << 16) | time) >>> 0;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 of the data, continuing from a previous CRC
+ */
+export function crc32(data: Buffer, previous = 0): number {
+  let crc = ~previous >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+// ============================================================
+// PDF
+// ============================================================
+
+/** Relative column widths by field type */
+const PDF_COLUMN_WEIGHTS: Record<string, number> = {
+  boolean: 0.6,
+  number: 0.8,
+  integer: 0.8,
+  decimal: 0.8,
+  currency: 0.8,
+  percent: 0.6,
+  rating: 0.6,
+  date: 0.9,
+  datetime: 1.3,
+  text: 2,
+  richtext: 2,
+  relation: 2,
+};
+
+async function* writePdf({ title, columns, batches }: ExportDocument): AsyncGenerator<Buffer> {
+  const pdf = new PdfWriter();
+  yield pdf.start();
+
+  // Column widths in proportion to their weights
+  const tableWidth = PDF_PAGE_WIDTH - 2 * PDF_MARGIN;
+  const weights = columns.map(column => PDF_COLUMN_WEIGHTS[column.type] ?? 1.2);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+  const widths = weights.map(weight => (weight / totalWeight) * tableWidth);
+  const lefts = widths.map((_, i) => PDF_MARGIN + widths.slice(0, i).reduce((sum, width) => sum + width, 0));
+
+  const headerTop = PDF_PAGE_HEIGHT - PDF_MARGIN - 28;
+  const rowsPerPage = Math.floor((headerTop - PDF_ROW_HEIGHT - PDF_MARGIN - PDF_ROW_HEIGHT) / PDF_ROW_HEIGHT);
+  let pageRows: ExportCell[][] = [];
+
+  const renderPage = (rows: ExportCell[][]): string => {
+    const pageNumber = pdf.pageCount + 1;
+    const ops: string[] = [
+      pdfText('F2', 14, PDF_MARGIN, PDF_PAGE_HEIGHT - PDF_MARGIN - 14, title),
+      ...columns.map((column, i) => pdfText('F2', PDF_FONT_SIZE + 1, lefts[i], headerTop, fitText(column.label, widths[i], PDF_FONT_SIZE + 1))),
+      `0.6 G 0.5 w ${PDF_MARGIN} ${headerTop - 4} m ${PDF_MARGIN + tableWidth} ${headerTop - 4} l S 0 G`,
+    ];
+    rows.forEach((row, r) => {
+      const y = headerTop - PDF_ROW_HEIGHT * (r + 1) - 4;
+      row.forEach((cell, i) => {
+        if (cell === null || cell === '') return;
+        ops.push(pdfText('F1', PDF_FONT_SIZE, lefts[i], y, fitText(pdfCellText(cell), widths[i], PDF_FONT_SIZE)));
+      });
+    });
+    ops.push(pdfText('F1', PDF_FONT_SIZE, PDF_PAGE_WIDTH - PDF_MARGIN - 30, PDF_MARGIN - 12, `Page ${pageNumber}`));
+    return ops.join('\n');
+  };
+
+  for await (const rows of batches) {
+    for (const row of rows) {
+      pageRows.push(row);
+      if (pageRows.length === rowsPerPage) {
+        yield pdf.page(renderPage(pageRows));
+        pageRows = [];
+      }
+    }
+  }
+  if (pageRows.length > 0 || pdf.pageCount === 0) {
+    yield pdf.page(renderPage(pageRows));
+  }
+  yield pdf.finish();
+}
+
+function pdfCellText(cell: Exclude<ExportCell, null>): string {
+  if (typeof cell === 'boolean') return cell ? 'Yes' : 'No';
+  return String(cell).replace(/\s+/g, ' ');
+}
+
+/**
+ * Shorten text to a column width (Helvetica averages about half an em per character)
+ */
+function fitText(text: string, width: number, fontSize: number): string {
+  const maxChars = Math.max(1, Math.floor((width - 4) / (fontSize * 0.5)));
+  return text.length > maxChars ? `${text.slice(0, Math.max(1, maxChars - 3))}...` : text;
+}
+
+/**
+ * Text drawing operators; characters outside Latin-1 become '?'
+ */
+function pdfText(font: 'F1' | 'F2', size: number, x: number, y: number, text: string): string {
+  const escaped = text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/[\\()]/g, match => `\\${match}`);
+  return `BT /${font} ${size} Tf ${x.toFixed(1)} ${y.toFixed(1)} Td (${escaped}) Tj ET`;
+}
+
+/**
+ * Streaming PDF writer
+ * Objects are written as pages fill up; the page tree (object 2) and the
+ * cross-reference table come last.
+ */
+class PdfWriter {
+  private offset = 0;
+  /** Byte offset of each object, by object number */
+  private offsets: number[] = [];
+  private pages: number[] = [];
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  start(): Buffer {
+    return Buffer.concat([
+      this.written(Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')),
+      this.object(1, '<< /Type /Catalog /Pages 2 0 R >>'),
+      this.object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'),
+      this.object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'),
+    ]);
+  }
+
+  /**
+   * A page with its (compressed) content stream
+   */
+  page(content: string): Buffer {
+    const contentNumber = Math.max(4, this.offsets.length - 1) + 1;
+    const pageNumber = contentNumber + 1;
+    const stream = deflateSync(Buffer.from(content, 'latin1'));
+    this.pages.push(pageNumber);
+    return Buffer.concat([
+      this.object(contentNumber, Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+        stream,
+        Buffer.from('\nendstream'),
+      ])),
+      this.object(pageNumber,
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentNumber} 0 R >>`),
+    ]);
+  }
+
+  /**
+   * Page tree, cross-reference table and trailer
+   */
+  finish(): Buffer {
+    const pages = this.object(2, `<< /Type /Pages /Kids [${this.pages.map(n => `${n} 0 R`).join(' ')}] /Count ${this.pages.length} >>`);
+    const xrefOffset = this.offset;
+    const entries = ['0000000000 65535 f \n'];
+    for (let n = 1; n < this.offsets.length; n++) {
+      entries.push(`${String(this.offsets[n]).padStart(10, '0')} 00000 n \n`);
+    }
+    const trailer = `xref\n0 ${this.offsets.length}\n${entries.join('')}`
+      + `trailer\n<< /Size ${this.offsets.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return Buffer.concat([pages, this.written(Buffer.from(trailer, 'latin1'))]);
+  }
+
+  private object(number: number, body: string | Buffer): Buffer {
+    this.offsets[number] = this.offset;
+    return this.written(Buffer.concat([
+      Buffer.from(`${number} 0 obj\n`),
+      typeof body === 'string' ? Buffer.from(body, 'latin1') : body,
+      Buffer.from('\nendobj\n'),
+    ]));
+  }
+
+  private written(chunk: Buffer): Buffer {
+    this.offset += chunk.length;
+    return chunk;
+  }
+}
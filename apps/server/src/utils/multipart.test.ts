@@ -0,0 +1,36 @@
+import { describe, expect, test } from "vitest";
+import { multipartBoundary, parseMultipart } from "./multipart.js";
+
+const boundary = "----neoBoundary42";
+
+function body(parts: string[]): Buffer {
+  return Buffer.from(parts.map(part => `--${boundary}\r\n${part}\r\n`).join("") + `--${boundary}--\r\n`, "binary");
+}
+
+describe("multipartBoundary", () => {
+  test("reads quoted and bare boundaries of form-data bodies only", () => {
+    expect(multipartBoundary(`multipart/form-data; boundary=${boundary}`)).toBe(boundary);
+    expect(multipartBoundary('multipart/form-data; boundary="a b"')).toBe("a b");
+    expect(multipartBoundary("application/json")).toBeUndefined();
+  });
+});
+
+describe("parseMultipart", () => {
+  test("splits text fields from files and keeps binary content intact", () => {
+    const png = "\x89PNG\r\n\x1a\n\r\n--";
+    const form = parseMultipart(body([
+      'Content-Disposition: form-data; name="fieldId"\r\n\r\nphoto',
+      `Content-Disposition: form-data; name="file"; filename="site \\"A\\".png"\r\nContent-Type: image/png\r\n\r\n${png}`,
+    ]), boundary);
+
+    expect(form.fields).toEqual({ fieldId: "photo" });
+    expect(form.files).toHaveLength(1);
+    expect(form.files[0]).toMatchObject({ fieldName: "file", fileName: 'site "A".png', contentType: "image/png" });
+    expect(form.files[0].data.equals(Buffer.from(png, "binary"))).toBe(true);
+  });
+
+  test("rejects truncated bodies", () => {
+    const truncated = body(['Content-Disposition: form-data; name="file"; filename="a.txt"\r\n\r\nhello']).subarray(0, 60);
+    expect(() => parseMultipart(truncated, boundary)).toThrow("Malformed multipart body");
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Multipart Form Parsing
+ * Reads multipart/form-data request bodies (buffered) into fields and files
+ */
+
+export interface MultipartFile {
+  fieldName: string;
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface MultipartForm {
+  fields: Record<string, string>;
+  files: MultipartFile[];
+}
+
+/**
+ * Boundary of a multipart/form-data content type (undefined for other types)
+ */
+export function multipartBoundary(contentType: string | undefined): string | undefined {
+  if (!contentType || !/^multipart\/form-data\b/i.test(contentType)) return undefined;
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  return match ? match[1] ?? match[2] : undefined;
+}
+
+/**
+ * Parse the header block of a part into lower-cased header names
+ */
+function parsePartHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of block.split('\r\n')) {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+  }
+  return headers;
+}
+
+/**
+ * Read a parameter (name, filename) of a Content-Disposition header
+ */
+function dispositionParam(disposition: string, param: string): string | undefined {
+  const match = disposition.match(new RegExp(`(?:^|;)\\s*${param}="((?:[^"\\\\]|\\\\.)*)"`, 'i'))
+    ?? disposition.match(new RegExp(`(?:^|;)\\s*${param}=([^;\\s]+)`, 'i'));
+  return match ? match[1].replace(/\\(.)/g, '$1') : undefined;
+}
+
+/**
+ * Parse a multipart/form-data body
+ * Parts with a filename become files; other parts become text fields.
+ */
+export function parseMultipart(body: Buffer, boundary: string): MultipartForm {
+  const form: MultipartForm = { fields: {}, files: [] };
+  const delimiter = Buffer.from(`--${boundary}`);
+
+  let position = body.indexOf(delimiter);
+  if (position === -1) {
+    throw new Error('Malformed multipart body: boundary not found');
+  }
+
+  while (true) {
+    position += delimiter.length;
+    // Closing delimiter
+    if (body.subarray(position, position + 2).toString() === '--') break;
+    // Skip the CRLF after the delimiter
+    position += 2;
+
+    const headerEnd = body.indexOf('\r\n\r\n', position);
+    if (headerEnd === -1) {
+      throw new Error('Malformed multipart body: unterminated part headers');
+    }
+    const next = body.indexOf(delimiter, headerEnd + 4);
+    if (next === -1) {
+      throw new Error('Malformed multipart body: missing closing boundary');
+    }
+
+    const headers = parsePartHeaders(body.subarray(position, headerEnd).toString('utf8'));
+    // Part content ends with the CRLF before the next delimiter
+    const content = body.subarray(headerEnd + 4, next - 2);
+    const disposition = headers['content-disposition'] ?? '';
+    const fieldName = dispositionParam(disposition, 'name');
+
+    if (fieldName !== undefined) {
+      const fileName = dispositionParam(disposition, 'filename');
+      if (fileName !== undefined) {
+        form.files.push({
+          fieldName,
+          fileName,
+          contentType: headers['content-type'] || 'application/octet-stream',
+          data: Buffer.from(content),
+        });
+      } else {
+        form.fields[fieldName] = content.toString('utf8');
+      }
+    }
+
+    position = next;
+  }
+
+  return form;
+}
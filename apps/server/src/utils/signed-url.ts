@@ -0,0 +1,64 @@
+/**
+ * Signed URL Utilities
+ * Expiring HMAC-SHA256 signatures for download links
+ *
+ * A signed URL is `<path>?expires=<unix seconds>&signature=<hex>`, where the
+ * signature covers `<path>:<expires>`. Anyone holding the URL can use it until
+ * it expires.
+ */
+import crypto from 'crypto';
+
+export type SignedUrlCheck =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+export interface SignedUrl {
+  url: string;
+  expiresAt: string;
+}
+
+function signPath(secret: string, path: string, expires: number): string {
+  return crypto.createHmac('sha256', secret).update(`${path}:${expires}`, 'utf8').digest('hex');
+}
+
+/**
+ * Sign a path for the given number of seconds
+ */
+export function createSignedUrl(secret: string, path: string, ttlSeconds: number, now: number = Date.now()): SignedUrl {
+  const expires = Math.floor(now / 1000) + ttlSeconds;
+  return {
+    url: `${path}?expires=${expires}&signature=${signPath(secret, path, expires)}`,
+    expiresAt: new Date(expires * 1000).toISOString(),
+  };
+}
+
+/**
+ * Verify the expires/signature query parameters of a signed path
+ */
+export function verifySignedUrl(
+  secret: string,
+  path: string,
+  expires: string | undefined,
+  signature: string | undefined,
+  now: number = Date.now()
+): SignedUrlCheck {
+  if (!expires || !signature) {
+    return { valid: false, reason: 'Missing signature' };
+  }
+
+  const seconds = Number(expires);
+  if (!Number.isInteger(seconds)) {
+    return { valid: false, reason: 'Invalid expiry' };
+  }
+  if (seconds < now / 1000) {
+    return { valid: false, reason: 'Link has expired' };
+  }
+
+  const expected = Buffer.from(signPath(secret, path, seconds));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'Signature does not match' };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,92 @@
+import { describe, expect, test } from "vitest";
+import { deflateRawSync } from "node:zlib";
+import { parseCsv, readSpreadsheet, SpreadsheetError } from "./spreadsheet.js";
+
+/**
+ * Minimal zip archive (CRCs are not checked by the reader)
+ */
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe("parseCsv", () => {
+  test("handles quotes, line breaks in values and semicolon separators", () => {
+    expect(parseCsv('\uFEFFName,Notes\r\n"Smith, J","said ""hi""\nthen left"\r\nLee,\r\n')).toEqual([
+      ["Name", "Notes"],
+      ["Smith, J", 'said "hi"\nthen left'],
+      ["Lee", null],
+    ]);
+    expect(parseCsv("a;b\n1,5;2")).toEqual([["a", "b"], ["1,5", "2"]]);
+    expect(() => parseCsv('a\n"open')).toThrow(SpreadsheetError);
+  });
+});
+
+describe("readSpreadsheet", () => {
+  test("names blank and repeated headers and drops trailing blank rows", () => {
+    const table = readSpreadsheet({ fileName: "jobs.csv", data: Buffer.from("Title,,Title\nA,1,B\n,,\n") });
+
+    expect(table.headers).toEqual(["Title", "Column 2", "Title (2)"]);
+    expect(table.rows).toEqual([["A", "1", "B"]]);
+  });
+
+  test("reads the first worksheet of an xlsx file", () => {
+    const xlsx = zip({
+      "xl/workbook.xml": '<workbook><sheets><sheet name="Jobs" sheetId="1" r:id="rId3"/></sheets></workbook>',
+      "xl/_rels/workbook.xml.rels": '<Relationships><Relationship Id="rId3" Target="worksheets/jobs.xml"/></Relationships>',
+      "xl/sharedStrings.xml": '<sst><si><t>Title</t></si><si><t>Due</t></si><si><r><t>Roof </t></r><r><t>&amp; gutters</t></r></si></sst>',
+      "xl/styles.xml": '<styleSheet><numFmts><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/></numFmts>' +
+        '<cellXfs><xf numFmtId="0"/><xf numFmtId="164"/></cellXfs></styleSheet>',
+      "xl/worksheets/jobs.xml": '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>Paid</t></is></c></row>' +
+        '<row r="3"><c r="A3" t="s"><v>2</v></c><c r="B3" s="1"><v>45366</v></c><c r="C3"><v>12.5</v></c><c r="D3" t="b"><v>1</v></c></row>' +
+        '</sheetData></worksheet>',
+    });
+
+    const table = readSpreadsheet({ fileName: "jobs.xlsx", data: xlsx });
+
+    expect(table.headers).toEqual(["Title", "Due", "Column 3", "Paid"]);
+    expect(table.rows).toEqual([
+      [null, null, null, null],
+      ["Roof & gutters", "2024-03-15", 12.5, true],
+    ]);
+  });
+
+  test("rejects legacy and unknown formats", () => {
+    expect(() => readSpreadsheet({ fileName: "old.xls", data: Buffer.from("x") })).toThrow(/Legacy/);
+    expect(() => readSpreadsheet({ fileName: "photo.png", contentType: "image/png", data: Buffer.from("x") })).toThrow(/Unsupported/);
+  });
+});
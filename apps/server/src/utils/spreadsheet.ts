@@ -0,0 +1,370 @@
+/**
+ * Spreadsheet Reading
+ * Reads uploaded CSV and XLSX files into a header row and data rows.
+ * XLSX files are zip archives of XML parts; only the first worksheet is read.
+ */
+
+import { inflateRawSync } from 'node:zlib';
+import type { ImportCell, ImportTable } from '@neo/database';
+
+/** Largest uncompressed XLSX part that is inflated */
+const MAX_PART_BYTES = 64 * 1024 * 1024;
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+
+/** Built-in number formats that display dates and times */
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+/** Day 0 of spreadsheet date serial numbers */
+const SPREADSHEET_EPOCH = Date.UTC(1899, 11, 30);
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * Unreadable or unsupported spreadsheet
+ */
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetError';
+  }
+}
+
+/**
+ * Read a CSV or XLSX upload
+ */
+export function readSpreadsheet(file: { fileName: string; contentType?: string; data: Buffer }): ImportTable {
+  const extension = file.fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  if (file.data.length >= 4 && file.data.readUInt32LE(0) === ZIP_LOCAL_HEADER) {
+    return toTable(readXlsx(file.data));
+  }
+  if (extension === 'xls' || file.data.subarray(0, 4).equals(Buffer.from([0xd0, 0xcf, 0x11, 0xe0]))) {
+    throw new SpreadsheetError('Legacy .xls files are not supported; save the sheet as .xlsx or .csv');
+  }
+  if (extension && !['csv', 'tsv', 'txt'].includes(extension) && !file.contentType?.startsWith('text/')) {
+    throw new SpreadsheetError(`Unsupported file type: .${extension} (upload a .csv or .xlsx file)`);
+  }
+  return toTable(parseCsv(file.data.toString('utf8')));
+}
+
+/**
+ * Header row and data rows of a grid
+ * Blank headers are named after their column, repeated ones get a number,
+ * and trailing blank rows are dropped.
+ */
+function toTable(grid: ImportCell[][]): ImportTable {
+  const [headerRow = [], ...rows] = grid;
+  const width = rows.reduce((widest, row) => Math.max(widest, row.length), headerRow.length);
+  const seen = new Map<string, number>();
+  const headers = Array.from({ length: width }, (_, i) => {
+    const name = headerRow[i] === null || headerRow[i] === undefined || String(headerRow[i]).trim() === ''
+      ? `Column ${i + 1}`
+      : String(headerRow[i]).trim();
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name} (${count})`;
+  });
+
+  while (rows.length > 0 && rows[rows.length - 1].every(cell => cell === null || cell === '')) {
+    rows.pop();
+  }
+  if (headerRow.length === 0) {
+    throw new SpreadsheetError('The file has no header row');
+  }
+  return { headers, rows: rows.map(row => Array.from({ length: width }, (_, i) => row[i] ?? null)) };
+}
+
+// ============================================================
+// CSV
+// ============================================================
+
+/**
+ * Parse CSV text (RFC 4180 quoting; comma, semicolon or tab separated)
+ * Empty cells are null.
+ */
+export function parseCsv(text: string): ImportCell[][] {
+  if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+  const delimiter = detectDelimiter(text);
+
+  const rows: ImportCell[][] = [];
+  let row: ImportCell[] = [];
+  let cell = '';
+  let quoted = false;
+  let i = 0;
+
+  const endCell = () => {
+    row.push(cell === '' ? null : cell);
+    cell = '';
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i += 2;
+          continue;
+        }
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      endCell();
+      rows.push(row);
+      row = [];
+      if (char === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      cell += char;
+    }
+    i++;
+  }
+
+  if (quoted) {
+    throw new SpreadsheetError('Malformed CSV: unterminated quoted value');
+  }
+  if (cell !== '' || row.length > 0) {
+    endCell();
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * The most frequent of comma, semicolon and tab on the header line (outside quotes)
+ */
+function detectDelimiter(text: string): string {
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && char in counts) counts[char]++;
+  }
+  return Object.entries(counts).reduce((best, entry) => (entry[1] > best[1] ? entry : best), [',', 0])[0];
+}
+
+// ============================================================
+// XLSX
+// ============================================================
+
+/**
+ * Read the cells of an XLSX workbook's first worksheet
+ * Shared and inline strings become text, date-formatted numbers become ISO
+ * dates, booleans stay booleans and other numbers stay numbers.
+ */
+export function readXlsx(data: Buffer): ImportCell[][] {
+  const parts = readZip(data);
+  const part = (name: string): string | undefined => {
+    const content = parts.get(name);
+    return content ? content.toString('utf8') : undefined;
+  };
+
+  const sheetXml = part(firstSheetPath(part('xl/workbook.xml'), part('xl/_rels/workbook.xml.rels')))
+    ?? part('xl/worksheets/sheet1.xml');
+  if (!sheetXml) {
+    throw new SpreadsheetError('Malformed XLSX: no worksheet found');
+  }
+  const sharedStrings = readSharedStrings(part('xl/sharedStrings.xml'));
+  const dateStyles = readDateStyles(part('xl/styles.xml'));
+
+  const rows: ImportCell[][] = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(attribute(rowMatch[1], 'r')) || rows.length + 1;
+    while (rows.length < rowNumber - 1) rows.push([]);
+
+    const row: ImportCell[] = [];
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = attribute(cellMatch[1], 'r');
+      const column = reference ? columnIndex(reference) : row.length;
+      while (row.length < column) row.push(null);
+      row[column] = cellValue(cellMatch[1], cellMatch[2] ?? '', sharedStrings, dateStyles);
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Path of the workbook's first sheet
+ */
+function firstSheetPath(workbook: string | undefined, relationships: string | undefined): string {
+  const sheet = workbook?.match(/<sheet\b[^>]*>/)?.[0];
+  const relationshipId = sheet ? attribute(sheet, 'r:id') : undefined;
+  if (!relationshipId || !relationships) return 'xl/worksheets/sheet1.xml';
+
+  for (const match of relationships.matchAll(/<Relationship\b[^>]*>/g)) {
+    if (attribute(match[0], 'Id') !== relationshipId) continue;
+    const target = attribute(match[0], 'Target') ?? '';
+    return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+  return 'xl/worksheets/sheet1.xml';
+}
+
+function readSharedStrings(xml: string | undefined): string[] {
+  if (!xml) return [];
+  return [...xml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map(match => textOf(match[1]));
+}
+
+/**
+ * Indexes of cell styles that format numbers as dates
+ */
+function readDateStyles(xml: string | undefined): Set<number> {
+  const styles = new Set<number>();
+  if (!xml) return styles;
+
+  const dateFormats = new Set(DATE_FORMAT_IDS);
+  for (const match of xml.matchAll(/<numFmt\b[^>]*>/g)) {
+    const id = Number(attribute(match[0], 'numFmtId'));
+    // Date/time codes outside quoted text and [color]/[$-locale] sections
+    const code = decodeXml(attribute(match[0], 'formatCode') ?? '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+    if (/[dmyhs]/i.test(code)) dateFormats.add(id);
+  }
+
+  const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? '';
+  [...cellXfs.matchAll(/<xf\b[^>]*>/g)].forEach((match, index) => {
+    if (dateFormats.has(Number(attribute(match[0], 'numFmtId')))) styles.add(index);
+  });
+  return styles;
+}
+
+function cellValue(
+  attributes: string,
+  content: string,
+  sharedStrings: string[],
+  dateStyles: Set<number>
+): ImportCell {
+  const type = attribute(attributes, 't') ?? 'n';
+  if (type === 'inlineStr') {
+    const text = textOf(content.match(/<is>([\s\S]*?)<\/is>/)?.[1] ?? '');
+    return text === '' ? null : text;
+  }
+
+  const raw = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+  if (raw === undefined) return null;
+  const value = decodeXml(raw);
+
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(value)] ?? null;
+    case 'b':
+      return value === '1';
+    case 'e':
+      return null;
+    case 'str':
+      return value;
+    default: {
+      const number = Number(value);
+      if (!Number.isFinite(number)) return value;
+      if (dateStyles.has(Number(attribute(attributes, 's') ?? 0))) return serialToIso(number);
+      return number;
+    }
+  }
+}
+
+/**
+ * Date serial number as an ISO date (with the time when it has one)
+ */
+function serialToIso(serial: number): string {
+  const iso = new Date(SPREADSHEET_EPOCH + Math.round(serial * 86400000)).toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso;
+}
+
+/**
+ * Zero-based column of a cell reference ("C7" → 2)
+ */
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, '').toUpperCase()) {
+    index = index * 26 + char.charCodeAt(0) - 64;
+  }
+  return index - 1;
+}
+
+/**
+ * Text of a string item: its <t> runs, without phonetic runs
+ */
+function textOf(xml: string): string {
+  return [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)]
+    .map(match => decodeXml(match[1]))
+    .join('');
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  return tag.match(new RegExp(`(?:^|\\s)${name.replace(':', '\\:')}="([^"]*)"`))?.[1];
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      return String.fromCodePoint(code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    }
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+/**
+ * Read the files of a zip archive (stored and deflated entries)
+ */
+function readZip(data: Buffer): Map<string, Buffer> {
+  // End of central directory: 22 bytes plus a comment of up to 64 KB
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === ZIP_END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new SpreadsheetError('Malformed XLSX: not a zip archive');
+  }
+
+  const files = new Map<string, Buffer>();
+  const entries = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  for (let i = 0; i < entries; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw new SpreadsheetError('Malformed XLSX: bad zip directory');
+    }
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Only the XML parts are needed
+    if (!name.endsWith('.xml') && !name.endsWith('.rels')) continue;
+    if (localOffset + 30 > data.length || data.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) {
+      throw new SpreadsheetError('Malformed XLSX: bad zip entry');
+    }
+    const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const compressed = data.subarray(start, start + compressedSize);
+
+    if (method === 0) {
+      files.set(name, compressed);
+    } else if (method === 8) {
+      try {
+        files.set(name, inflateRawSync(compressed, { maxOutputLength: MAX_PART_BYTES }));
+      } catch {
+        throw new SpreadsheetError(`Malformed XLSX: cannot read ${name}`);
+      }
+    } else {
+      throw new SpreadsheetError(`Unsupported XLSX compression (method ${method})`);
+    }
+  }
+  return files;
+}
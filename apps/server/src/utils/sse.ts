@@ -0,0 +1,56 @@
+/**
+ * Server-Sent Events
+ * Streams named JSON events over a held-open response
+ *
+ * Each event is written as `event: <name>\ndata: <json>\n\n`. Events sent
+ * after the client has gone away are dropped.
+ */
+import type { OutgoingHttpHeaders } from 'node:http';
+import type { FastifyReply } from 'fastify';
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  readonly closed: boolean;
+}
+
+export function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Take over the reply and start an event stream
+ * Headers already set on the reply (CORS, request id) are kept.
+ */
+export function openEventStream(reply: FastifyReply): EventStream {
+  reply.hijack();
+  const raw = reply.raw;
+  raw.writeHead(200, {
+    ...(reply.getHeaders() as OutgoingHttpHeaders),
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stop proxies (nginx) from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+
+  let closed = false;
+  raw.on('close', () => {
+    closed = true;
+  });
+
+  return {
+    send(event, data) {
+      if (closed) return;
+      raw.write(formatEvent(event, data));
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      raw.end();
+    },
+    get closed() {
+      return closed;
+    },
+  };
+}
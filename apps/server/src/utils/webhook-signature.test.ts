@@ -0,0 +1,41 @@
+import { describe, expect, test } from "vitest";
+import { signWebhookPayload, verifyWebhookSignature } from "./webhook-signature.js";
+
+const secret = "whsec_test";
+const body = JSON.stringify({ orderId: "o-1", total: 42 });
+
+const now = Date.UTC(2026, 4, 10, 9, 0, 0);
+const timestamp = String(now / 1000);
+
+describe("verifyWebhookSignature", () => {
+  test("accepts a payload signed with the same secret", () => {
+    const signature = signWebhookPayload(secret, body, timestamp);
+    expect(verifyWebhookSignature(secret, body, signature, timestamp, now)).toEqual({ valid: true });
+  });
+
+  test("rejects missing, tampered or foreign signatures", () => {
+    const signature = signWebhookPayload(secret, body, timestamp);
+    expect(verifyWebhookSignature(secret, body, undefined, timestamp, now).valid).toBe(false);
+    expect(verifyWebhookSignature(secret, body.replace("42", "43"), signature, timestamp, now).valid).toBe(false);
+    expect(verifyWebhookSignature("whsec_other", body, signature, timestamp, now).valid).toBe(false);
+  });
+
+  test("rejects requests without a timestamp", () => {
+    const signature = signWebhookPayload(secret, body, timestamp);
+    expect(verifyWebhookSignature(secret, body, signature, undefined, now)).toEqual({
+      valid: false,
+      reason: "Missing x-neo-timestamp header",
+    });
+  });
+
+  test("binds the timestamp and rejects stale requests", () => {
+    const signature = signWebhookPayload(secret, body, timestamp);
+
+    expect(verifyWebhookSignature(secret, body, signature, timestamp, now).valid).toBe(true);
+    expect(verifyWebhookSignature(secret, body, signature, String(now / 1000 + 1), now).valid).toBe(false);
+    expect(verifyWebhookSignature(secret, body, signature, timestamp, now + 301_000)).toEqual({
+      valid: false,
+      reason: "Request timestamp is outside the allowed window",
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Webhook Signature Utilities
+ * HMAC-SHA256 signing for inbound workflow webhooks
+ *
+ * Senders send the current unix time (seconds) in `X-Neo-Timestamp` and
+ * `sha256=<hex>` over `<timestamp>.<body>` in `X-Neo-Signature`. Requests
+ * without a timestamp, or outside the tolerance window, are rejected so a
+ * captured request can't be replayed.
+ */
+import crypto from 'crypto';
+
+export const SIGNATURE_HEADER = 'x-neo-signature';
+export const TIMESTAMP_HEADER = 'x-neo-timestamp';
+
+/** Maximum clock difference between the request timestamp and now */
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export type SignatureCheck =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+/**
+ * Compute the signature header value for a payload sent at `timestamp`
+ */
+export function signWebhookPayload(secret: string, rawBody: string, timestamp: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`, 'utf8').digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verify a signature header against the raw body
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  rawBody: string,
+  signature: string | undefined,
+  timestamp: string | undefined,
+  now: number = Date.now()
+): SignatureCheck {
+  if (!signature) {
+    return { valid: false, reason: `Missing ${SIGNATURE_HEADER} header` };
+  }
+  if (!timestamp) {
+    return { valid: false, reason: `Missing ${TIMESTAMP_HEADER} header` };
+  }
+
+  const seconds = Number(timestamp);
+  if (!Number.isFinite(seconds)) {
+    return { valid: false, reason: `Invalid ${TIMESTAMP_HEADER} header` };
+  }
+  if (Math.abs(now / 1000 - seconds) > SIGNATURE_TOLERANCE_SECONDS) {
+    return { valid: false, reason: 'Request timestamp is outside the allowed window' };
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, rawBody, timestamp));
+  const received = Buffer.from(signature.trim());
+
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'Signature does not match' };
+  }
+
+  return { valid: true };
+}
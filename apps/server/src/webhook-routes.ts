@@ -0,0 +1,320 @@
+/**
+ * Webhook Routes
+ *
+ * Inbound webhooks that start workflows with a `webhook` trigger.
+ * External systems POST to /hooks/:appId/<webhookPath>, signed with the app's secret.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { WorkflowDef } from '@neo/blueprint-engine';
+import { logger } from './utils/logger.js';
+import { webhookSecretRepository } from './repositories/webhook-secret-repository.js';
+import { findRunnableApp, getAppWorkflows, runAppWorkflow } from './services/workflow-runner.js';
+import {
+  verifyWebhookSignature,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+} from './utils/webhook-signature.js';
+
+/**
+ * Normalize a webhook path so "/orders/paid/", "orders/paid" and "/orders/paid" match
+ */
+export function normalizeWebhookPath(path: string | undefined): string {
+  return (path || '').split('/').filter(Boolean).join('/');
+}
+
+/**
+ * Get workflows with a webhook trigger listening on the given path
+ */
+function findWebhookWorkflows(workflows: WorkflowDef[], path: string): WorkflowDef[] {
+  const normalized = normalizeWebhookPath(path);
+  return workflows.filter(workflow =>
+    workflow.enabled &&
+    workflow.trigger.type === 'webhook' &&
+    normalizeWebhookPath(workflow.trigger.webhookPath) === normalized
+  );
+}
+
+/**
+ * Map a webhook payload into workflow variables
+ * Declared variable defaults are applied first, then top-level body keys;
+ * the full body and query string stay available as `payload` and `query`.
+ */
+function mapPayloadToVariables(
+  workflow: WorkflowDef,
+  payload: unknown,
+  query: Record<string, unknown>
+): Record<string, unknown> {
+  const variables: Record<string, unknown> = {};
+  const declared = (workflow as { variables?: Record<string, { defaultValue?: unknown }> }).variables || {};
+
+  for (const [name, definition] of Object.entries(declared)) {
+    if (definition?.defaultValue !== undefined) {
+      variables[name] = definition.defaultValue;
+    }
+  }
+
+  if (payload && typeof payload === 'object' && !Array.isArray(payload)) {
+    Object.assign(variables, payload);
+  }
+
+  variables.payload = payload;
+  variables.query = query;
+  return variables;
+}
+
+/**
+ * Register webhook routes
+ */
+export async function registerWebhookRoutes(server: FastifyInstance): Promise<void> {
+  /**
+   * List webhook endpoints of an app
+   * GET /api/apps/:appId/webhooks
+   */
+  server.get<{ Params: { appId: string } }>(
+    '/api/apps/:appId/webhooks',
+    async (request: FastifyRequest<{ Params: { appId: string } }>, reply: FastifyReply) => {
+      try {
+        const { appId } = request.params;
+        const app = await findRunnableApp(appId);
+        if (!app) {
+          return reply.code(404).send({
+            success: false,
+            error: 'App not found',
+          });
+        }
+
+        const secret = await webhookSecretRepository.find(appId);
+        const endpoints = getAppWorkflows(app)
+          .filter(workflow => workflow.trigger.type === 'webhook')
+          .map(workflow => {
+            const path = normalizeWebhookPath(workflow.trigger.webhookPath);
+            return {
+              workflowId: workflow.id,
+              name: workflow.name,
+              enabled: workflow.enabled,
+              path,
+              url: `/hooks/${appId}/${path}`,
+            };
+          });
+
+        return reply.send({
+          success: true,
+          secretConfigured: !!secret,
+          secretCreatedAt: secret?.createdAt,
+          signatureHeader: SIGNATURE_HEADER,
+          timestampHeader: TIMESTAMP_HEADER,
+          endpoints,
+        });
+      } catch (error: any) {
+        logger.error('Get webhooks failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to get webhooks',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Create or rotate the app's signing secret (the secret is only returned here)
+   * POST /api/apps/:appId/webhooks/secret
+   */
+  server.post<{ Params: { appId: string } }>(
+    '/api/apps/:appId/webhooks/secret',
+    async (request, reply) => {
+      try {
+        const { appId } = request.params;
+        const app = await findRunnableApp(appId);
+        if (!app) {
+          return reply.code(404).send({
+            success: false,
+            error: 'App not found',
+          });
+        }
+
+        const secret = await webhookSecretRepository.rotate(appId);
+        logger.info('Webhook secret rotated', { appId });
+
+        return reply.send({
+          success: true,
+          secret: secret.secret,
+          createdAt: secret.createdAt,
+        });
+      } catch (error: any) {
+        logger.error('Rotate webhook secret failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to rotate webhook secret',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Remove the app's signing secret (disables inbound webhooks)
+   * DELETE /api/apps/:appId/webhooks/secret
+   */
+  server.delete<{ Params: { appId: string } }>(
+    '/api/apps/:appId/webhooks/secret',
+    async (request, reply) => {
+      try {
+        const { appId } = request.params;
+        const deleted = await webhookSecretRepository.delete(appId);
+
+        if (!deleted) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Webhook secret not found',
+          });
+        }
+
+        logger.info('Webhook secret deleted', { appId });
+
+        return reply.send({
+          success: true,
+          message: 'Webhook secret deleted',
+        });
+      } catch (error: any) {
+        logger.error('Delete webhook secret failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to delete webhook secret',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  // Inbound hooks need the raw body for signature checks, so they get their own
+  // encapsulated context where every content type is read as a string
+  await server.register(async (hooks) => {
+    hooks.removeAllContentTypeParsers();
+    hooks.addContentTypeParser('*', { parseAs: 'string' }, (_request, body, done) => {
+      done(null, body);
+    });
+
+    /**
+     * Receive a webhook and run matching workflows
+     * POST /hooks/:appId/*
+     */
+    hooks.post<{
+      Params: { appId: string; '*': string };
+      Querystring: Record<string, unknown>;
+      Body: string;
+    }>(
+      '/hooks/:appId/*',
+      async (request, reply) => {
+        const { appId } = request.params;
+        const path = normalizeWebhookPath(request.params['*']);
+
+        try {
+          const app = await findRunnableApp(appId);
+          if (!app) {
+            return reply.code(404).send({
+              success: false,
+              error: 'App not found',
+            });
+          }
+
+          const secret = await webhookSecretRepository.find(appId);
+          if (!secret) {
+            return reply.code(403).send({
+              success: false,
+              error: 'Webhooks not enabled',
+              message: 'Create a webhook secret for this app before sending webhooks',
+            });
+          }
+
+          const rawBody = typeof request.body === 'string' ? request.body : '';
+          const signatureHeader = request.headers[SIGNATURE_HEADER];
+          const timestampHeader = request.headers[TIMESTAMP_HEADER];
+          const check = verifyWebhookSignature(
+            secret.secret,
+            rawBody,
+            Array.isArray(signatureHeader) ? signatureHeader[0] : signatureHeader,
+            Array.isArray(timestampHeader) ? timestampHeader[0] : timestampHeader
+          );
+
+          if (!check.valid) {
+            logger.warn('Webhook signature rejected', { appId, path, reason: check.reason });
+            return reply.code(401).send({
+              success: false,
+              error: 'Invalid signature',
+              message: check.reason,
+            });
+          }
+
+          const workflows = findWebhookWorkflows(getAppWorkflows(app), path);
+          if (workflows.length === 0) {
+            return reply.code(404).send({
+              success: false,
+              error: 'No workflow listens on this webhook path',
+              path,
+            });
+          }
+
+          let payload: unknown = {};
+          if (rawBody.trim()) {
+            try {
+              payload = JSON.parse(rawBody);
+            } catch {
+              return reply.code(400).send({
+                success: false,
+                error: 'Invalid JSON body',
+              });
+            }
+          }
+
+          const runs = [];
+          for (const workflow of workflows) {
+            const { run, result } = await runAppWorkflow(app, workflow, {
+              trigger: 'webhook',
+              variables: mapPayloadToVariables(workflow, payload, request.query || {}),
+              formData: payload && typeof payload === 'object' && !Array.isArray(payload)
+                ? payload as Record<string, unknown>
+                : undefined,
+            });
+            runs.push({
+              workflowId: workflow.id,
+              runId: run.id,
+              status: run.status,
+              success: result.success,
+              ...(result.rateLimited && { retryAfterSeconds: result.rateLimited.retryAfterSeconds }),
+            });
+          }
+
+          logger.info('Webhook handled', { appId, path, workflows: runs.length });
+
+          // Throttled senders should back off and retry later
+          if (runs.every(run => run.retryAfterSeconds !== undefined)) {
+            const retryAfter = Math.max(...runs.map(run => run.retryAfterSeconds as number));
+            return reply
+              .code(429)
+              .header('Retry-After', String(retryAfter))
+              .send({
+                success: false,
+                error: 'Rate limit exceeded',
+                retryAfterSeconds: retryAfter,
+                runs,
+              });
+          }
+
+          return reply.send({
+            success: runs.every(run => run.success),
+            runs,
+          });
+        } catch (error: any) {
+          logger.error('Webhook handling failed', error, { appId, path });
+          return reply.code(500).send({
+            success: false,
+            error: 'Webhook handling failed',
+            message: error.message,
+          });
+        }
+      }
+    );
+  });
+}
@@ -0,0 +1,320 @@
+/**
+ * Workflow Routes
+ *
+ * API routes for server-executed workflows: schedules, manual runs, run history and waits,
+ * and rate limiting of flows run in the browser
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { rateLimitMessage } from '@neo/blueprint-engine';
+import { logger } from './utils/logger.js';
+import { getUserFromRequest } from './auth-routes.js';
+import { workflowRunRepository, type WorkflowRunStatus } from './repositories/workflow-run-repository.js';
+import { workflowWaitRepository, type WorkflowWaitStatus } from './repositories/workflow-wait-repository.js';
+import { findRunnableApp, getAppWorkflows, runAppWorkflow, workflowRateLimiter } from './services/workflow-runner.js';
+import type { WorkflowScheduler } from './services/workflow-scheduler.js';
+
+let scheduler: WorkflowScheduler;
+
+/**
+ * Register workflow routes
+ */
+export async function registerWorkflowRoutes(
+  server: FastifyInstance,
+  dependencies: {
+    scheduler: WorkflowScheduler;
+  }
+): Promise<void> {
+  scheduler = dependencies.scheduler;
+
+  /**
+   * List scheduled workflows with their next run time
+   * GET /api/apps/:appId/workflows/schedules
+   */
+  server.get<{ Params: { appId: string } }>(
+    '/api/apps/:appId/workflows/schedules',
+    async (request: FastifyRequest<{ Params: { appId: string } }>, reply: FastifyReply) => {
+      try {
+        const { appId } = request.params;
+        const app = await findRunnableApp(appId);
+        if (!app) {
+          return reply.code(404).send({
+            success: false,
+            error: 'App not found',
+          });
+        }
+
+        return reply.send({
+          success: true,
+          schedulerRunning: scheduler.isRunning(),
+          schedules: scheduler.describe(app),
+        });
+      } catch (error: any) {
+        logger.error('Get workflow schedules failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to get workflow schedules',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Get run history for an app
+   * GET /api/apps/:appId/workflows/runs?workflowId=&status=&limit=
+   */
+  server.get<{
+    Params: { appId: string };
+    Querystring: { workflowId?: string; status?: WorkflowRunStatus; limit?: string };
+  }>(
+    '/api/apps/:appId/workflows/runs',
+    async (request, reply) => {
+      try {
+        const { appId } = request.params;
+        const { workflowId, status, limit } = request.query;
+
+        const runs = await workflowRunRepository.findByApp(appId, {
+          workflowId,
+          status,
+          limit: limit ? parseInt(limit, 10) : undefined,
+        });
+
+        return reply.send({
+          success: true,
+          runs,
+          count: runs.length,
+        });
+      } catch (error: any) {
+        logger.error('Get workflow runs failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to get workflow runs',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Get a single run
+   * GET /api/apps/:appId/workflows/runs/:runId
+   */
+  server.get<{ Params: { appId: string; runId: string } }>(
+    '/api/apps/:appId/workflows/runs/:runId',
+    async (request, reply) => {
+      try {
+        const { appId, runId } = request.params;
+        const run = await workflowRunRepository.findById(appId, runId);
+
+        if (!run) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Run not found',
+          });
+        }
+
+        return reply.send({
+          success: true,
+          run,
+        });
+      } catch (error: any) {
+        logger.error('Get workflow run failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to get workflow run',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * List suspended runs waiting to resume
+   * GET /api/apps/:appId/workflows/waits?status=
+   */
+  server.get<{
+    Params: { appId: string };
+    Querystring: { status?: WorkflowWaitStatus };
+  }>(
+    '/api/apps/:appId/workflows/waits',
+    async (request, reply) => {
+      try {
+        const { appId } = request.params;
+        const waits = await workflowWaitRepository.findByApp(appId, request.query.status || 'pending');
+
+        return reply.send({
+          success: true,
+          waits,
+          count: waits.length,
+        });
+      } catch (error: any) {
+        logger.error('Get workflow waits failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to get workflow waits',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Cancel a pending wait (the suspended run never resumes)
+   * DELETE /api/apps/:appId/workflows/waits/:waitId
+   */
+  server.delete<{ Params: { appId: string; waitId: string } }>(
+    '/api/apps/:appId/workflows/waits/:waitId',
+    async (request, reply) => {
+      try {
+        const { appId, waitId } = request.params;
+        const cancelled = await workflowWaitRepository.cancel(appId, waitId);
+
+        if (!cancelled) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Pending wait not found',
+          });
+        }
+
+        return reply.send({
+          success: true,
+          message: 'Wait cancelled',
+        });
+      } catch (error: any) {
+        logger.error('Cancel workflow wait failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to cancel workflow wait',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Run a workflow now (e.g. to test a schedule)
+   * POST /api/apps/:appId/workflows/:workflowId/run
+   */
+  server.post<{
+    Params: { appId: string; workflowId: string };
+    Body: { variables?: Record<string, unknown>; recordId?: string } | undefined;
+  }>(
+    '/api/apps/:appId/workflows/:workflowId/run',
+    async (request, reply) => {
+      try {
+        const { appId, workflowId } = request.params;
+        const { variables, recordId } = request.body || {};
+
+        const app = await findRunnableApp(appId);
+        if (!app) {
+          return reply.code(404).send({
+            success: false,
+            error: 'App not found',
+          });
+        }
+
+        const workflow = getAppWorkflows(app).find(w => w.id === workflowId);
+        if (!workflow) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Workflow not found',
+          });
+        }
+
+        const user = await getUserFromRequest(request);
+        const { run, result } = await runAppWorkflow(app, workflow, {
+          trigger: 'manual',
+          variables,
+          recordId,
+          user: user ? { id: user.id, name: user.name || undefined } : undefined,
+        });
+
+        if (result.rateLimited) {
+          return reply
+            .code(429)
+            .header('Retry-After', String(result.rateLimited.retryAfterSeconds))
+            .send({
+              success: false,
+              error: 'Rate limit exceeded',
+              message: result.error,
+              retryAfterSeconds: result.rateLimited.retryAfterSeconds,
+              run,
+            });
+        }
+
+        return reply.send({
+          success: result.success,
+          run,
+        });
+      } catch (error: any) {
+        logger.error('Run workflow failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to run workflow',
+          message: error.message,
+        });
+      }
+    }
+  );
+
+  /**
+   * Count a run of a flow the browser is about to execute (button clicks, form
+   * submits) against the flow's rateLimit, like server runs are counted
+   * POST /api/apps/:appId/workflows/:workflowId/admit
+   */
+  server.post<{ Params: { appId: string; workflowId: string } }>(
+    '/api/apps/:appId/workflows/:workflowId/admit',
+    async (request, reply) => {
+      try {
+        const { appId, workflowId } = request.params;
+
+        const app = await findRunnableApp(appId);
+        if (!app) {
+          return reply.code(404).send({
+            success: false,
+            error: 'App not found',
+          });
+        }
+
+        const workflow = getAppWorkflows(app).find(w => w.id === workflowId);
+        if (!workflow) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Workflow not found',
+          });
+        }
+
+        const user = await getUserFromRequest(request);
+        const decision = await workflowRateLimiter.check(workflow, { appId, userId: user?.id });
+
+        if (decision && !decision.allowed) {
+          return reply
+            .code(429)
+            .header('Retry-After', String(decision.retryAfterSeconds))
+            .send({
+              success: false,
+              error: 'Rate limit exceeded',
+              message: rateLimitMessage(decision),
+              retryAfterSeconds: decision.retryAfterSeconds,
+              resetAt: decision.resetAt,
+              limit: decision.limit,
+              windowSeconds: decision.windowSeconds,
+            });
+        }
+
+        return reply.send({
+          success: true,
+          remaining: decision?.remaining ?? null,
+        });
+      } catch (error: any) {
+        logger.error('Admit workflow run failed', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to admit workflow run',
+          message: error.message,
+        });
+      }
+    }
+  );
+}
@@ -8,10 +8,11 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Separator } from '@/components/ui/separator';
-import { ChatDiscovery } from '@/components/ChatDiscovery';
+import { ChatDiscovery, DISCOVERY_CONVERSATION_KEY } from '@/components/ChatDiscovery';
 import { AuthModal } from '@/components/AuthModal';
 import { SettingsModal } from '@/components/SettingsModal';
 import { useAuth } from '@/context/AuthContext';
+import { postEventStream } from '@/lib/event-stream';
 
 // Type definitions for Web Speech API
 interface SpeechRecognition extends EventTarget {
@@ -64,6 +65,8 @@ declare global {
 function App() {
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
+  // Generation stage of the app being created
+  const [createProgress, setCreateProgress] = useState<string | null>(null);
   const [app, setApp] = useState<App | null>(null);
   const [savedApps, setSavedApps] = useState<App[]>([]);
   const [error, setError] = useState<string | null>(null);
@@ -74,6 +77,10 @@ function App() {
   // Chat discovery state
   const [showChatDiscovery, setShowChatDiscovery] = useState(false);
   const [pendingInput, setPendingInput] = useState('');
+  // Unfinished discovery conversation the user can pick up again
+  const [resumeConversationId, setResumeConversationId] = useState<string | null>(
+    () => window.localStorage.getItem(DISCOVERY_CONVERSATION_KEY)
+  );
   
   // Auth state
   const { user, isAuthenticated, loading: authLoading } = useAuth();
@@ -186,11 +193,32 @@ function App() {
     if (!input.trim()) return;
     setError(null);
     setPendingInput(input.trim());
+    setResumeConversationId(null);
+    setShowChatDiscovery(true);
+  };
+
+  const handleResumeConversation = () => {
+    setPendingInput('');
     setShowChatDiscovery(true);
   };
 
+  const handleDismissConversation = () => {
+    if (resumeConversationId) {
+      fetch(`/api/apps/discover/conversations/${encodeURIComponent(resumeConversationId)}/abandon`, { method: 'POST' })
+        .catch(err => console.warn('Failed to abandon conversation:', err));
+    }
+    window.localStorage.removeItem(DISCOVERY_CONVERSATION_KEY);
+    setResumeConversationId(null);
+  };
+
+  const handleChatDiscoveryClose = () => {
+    setShowChatDiscovery(false);
+    setResumeConversationId(window.localStorage.getItem(DISCOVERY_CONVERSATION_KEY));
+  };
+
   const handleChatDiscoveryComplete = async (appConfig: Record<string, unknown>) => {
     setShowChatDiscovery(false);
+    setResumeConversationId(null);
     await handleCreateApp(appConfig);
   };
 
@@ -199,25 +227,34 @@ function App() {
     setError(null);
 
     try {
-      const response = await fetch('/api/apps/create', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          input: input.trim(),
-          appConfig: appConfig,
-        }),
+      let data: any = null;
+      let streamError: any = null;
+      const response = await postEventStream('/api/apps/create/stream', {
+        input: input.trim(),
+        appConfig: appConfig,
+      }, ({ event, data: payload }) => {
+        if (event === 'stage') setCreateProgress(payload.message);
+        else if (event === 'done') data = payload;
+        else if (event === 'error') streamError = payload;
       });
 
-      const responseText = await response.text();
-      
-      if (!responseText || responseText.trim().length === 0) {
-        throw new Error('Empty response from server');
+      if (streamError) {
+        throw new Error(streamError.message || streamError.error || 'Failed to create app');
       }
 
-      const data = JSON.parse(responseText);
+      // Requests refused before generation starts get a plain JSON response
+      if (!data) {
+        const responseText = await response.text();
+
+        if (!responseText || responseText.trim().length === 0) {
+          throw new Error('Empty response from server');
+        }
+
+        data = JSON.parse(responseText);
 
-      if (!response.ok) {
-        throw new Error(data.message || data.error || 'Failed to create app');
+        if (!response.ok) {
+          throw new Error(data.message || data.error || 'Failed to create app');
+        }
       }
 
       if (!data.app || !data.app.id) {
@@ -245,6 +282,7 @@ function App() {
       setError(err.message || 'Something went wrong');
     } finally {
       setLoading(false);
+      setCreateProgress(null);
     }
   };
 
@@ -324,9 +362,10 @@ function App() {
       {/* Chat Discovery */}
       <ChatDiscovery
         isOpen={showChatDiscovery}
-        onClose={() => setShowChatDiscovery(false)}
+        onClose={handleChatDiscoveryClose}
         onComplete={handleChatDiscoveryComplete}
         initialInput={pendingInput}
+        resumeConversationId={resumeConversationId}
         isLoading={loading}
       />
 
@@ -349,6 +388,26 @@ function App() {
           </Alert>
         )}
         
+        {/* Unfinished discovery conversation */}
+        {resumeConversationId && !showChatDiscovery && (
+          <Alert className="mb-6">
+            <AlertDescription className="flex items-center justify-between w-full">
+              <div>
+                <span className="font-medium">You have an unfinished app conversation.</span>{' '}
+                <span className="text-muted-foreground">Pick up where you left off.</span>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleDismissConversation} size="sm" variant="ghost">
+                  Dismiss
+                </Button>
+                <Button onClick={handleResumeConversation} size="sm" variant="outline">
+                  Continue
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Hero */}
         <div className="text-center mb-10">
           <h1 className="text-4xl md:text-5xl font-bold tracking-tight mb-3">
@@ -427,7 +486,7 @@ function App() {
               className="w-full"
               size="lg"
             >
-              {loading ? 'Creating your app...' : 'Create App'}
+              {loading ? (createProgress || 'Creating your app...') : 'Create App'}
             </Button>
           </CardContent>
         </Card>
@@ -11,6 +11,9 @@ import { AppSidebar } from './components/AppSidebar.js';
 import { Separator } from './components/ui/separator.js';
 import { AppConfigurationProvider, type AppConfiguration } from './context/AppConfigurationContext.js';
 import { SetupSummary } from './components/SetupSummary.js';
+import { GlobalSearch, type GlobalSearchEntity, type GlobalSearchHit } from './components/GlobalSearch.js';
+import { RECORD_MOVE_EVENT, type RecordMoveDetail } from './lib/record-order.js';
+import { admitFlowRun } from './lib/flow-rate-limit.js';
 import type { App } from './types.js';
 
 interface PreviewProps {
@@ -341,7 +344,14 @@ export default function Preview({ id: propId }: PreviewProps) {
 
     // Execute matching flows if found
     if (matchingFlows.length > 0) {
-      for (const flow of matchingFlows as Array<{ id: string; name?: string; actions?: Array<{ type: string; modelId?: string; model?: string; recordId?: string; data?: Record<string, unknown>; targetPageId?: string; message?: string; componentId?: string; config?: Record<string, unknown> }> }>) {
+      for (const flow of matchingFlows as Array<{ id: string; name?: string; rateLimit?: unknown; actions?: Array<{ type: string; modelId?: string; model?: string; recordId?: string; data?: Record<string, unknown>; targetPageId?: string; message?: string; componentId?: string; config?: Record<string, unknown> }> }>) {
+        const throttled = id ? await admitFlowRun(id, flow) : null;
+        if (throttled) {
+          console.warn('⏳ Flow rate limited:', flow.id, throttled);
+          setNotification({ message: throttled, type: 'error' });
+          setTimeout(() => setNotification(null), 3000);
+          continue;
+        }
         console.log('▶️ Executing flow:', flow.id, flow.name);
         if (flow.actions && Array.isArray(flow.actions)) {
           for (const action of flow.actions) {
@@ -566,7 +576,7 @@ export default function Preview({ id: propId }: PreviewProps) {
     console.warn('⚠️ No handler found for:', { componentId, eventType });
     setNotification({ message: `Button "${componentId}" clicked`, type: 'success' });
     setTimeout(() => setNotification(null), 2000);
-  }, [app, dispatchAction, currentPageId]);
+  }, [id, app, dispatchAction, currentPageId]);
 
   useEffect(() => {
     const currentId = propId || getIdFromUrl();
@@ -840,6 +850,49 @@ export default function Preview({ id: propId }: PreviewProps) {
     };
   }, [app?.schema?.pages]);
 
+  // Persist drag-and-drop moves of records of sortable data models
+  useEffect(() => {
+    if (!id) return;
+
+    const handleRecordMove = async (e: Event) => {
+      const { entityId, recordId, previousId, nextId, changes } = (e as CustomEvent<RecordMoveDetail>).detail;
+      const recordUrl = `/api/apps/${id}/data/${entityId}/${recordId}`;
+      try {
+        if (changes) {
+          const response = await fetch(recordUrl, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(changes),
+          });
+          if (!response.ok) {
+            const result = await response.json();
+            throw new Error(result.message || result.error || 'Failed to update record');
+          }
+        }
+
+        const response = await fetch(`${recordUrl}/move`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ previousId, nextId }),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.message || result.error || 'Failed to move record');
+        }
+      } catch (err: any) {
+        console.error('Error moving record:', err);
+        setNotification({ message: err.message || 'Failed to move record', type: 'error' });
+        setTimeout(() => setNotification(null), 3000);
+      }
+
+      // Show the saved order (or put the record back when the move failed)
+      await refreshAppData();
+    };
+
+    window.addEventListener(RECORD_MOVE_EVENT, handleRecordMove);
+    return () => window.removeEventListener(RECORD_MOVE_EVENT, handleRecordMove);
+  }, [id, refreshAppData]);
+
   // Early returns must come AFTER all hooks
   if (loading) {
     return (
@@ -928,6 +981,25 @@ export default function Preview({ id: propId }: PreviewProps) {
 
   const industry = extendedSchema?.industry as { id: string; name: string; dashboardType: string } | undefined;
 
+  // Ranked record search across searchable entities (features.search); otherwise the box filters pages
+  const searchableEntities = extendedSchema?.features?.search
+    ? ([...(extendedSchema?.entities || []), ...(extendedSchema?.dataModels || [])] as Array<GlobalSearchEntity & { behaviors?: string[] }>)
+        .filter(entity => entity.behaviors?.includes('searchable'))
+    : [];
+
+  const openSearchHit = (hit: GlobalSearchHit) => {
+    const detailPage = allPages.find((page: any) => page.id === `${hit.entityId}-detail`);
+    if (!detailPage) {
+      setNotification({ message: `No detail page for ${hit.entityId}`, type: 'error' });
+      setTimeout(() => setNotification(null), 3000);
+      return;
+    }
+    const url = new URL(window.location.href);
+    url.searchParams.set('recordId', hit.id);
+    window.history.pushState({}, '', url);
+    setCurrentPageId(detailPage.id);
+  };
+
   // Dynamic layout classes based on shell configuration
   const getSidebarClasses = () => {
     // Use surface-section for sidebar to create visual depth
@@ -1072,7 +1144,16 @@ export default function Preview({ id: propId }: PreviewProps) {
               )}
               
               {/* Search */}
-              {shell.features?.showSearch && (
+              {shell.features?.showSearch && id && searchableEntities.length > 0 && (
+                <GlobalSearch
+                  appId={id}
+                  entities={searchableEntities}
+                  onSelect={openSearchHit}
+                  placeholder="Search records..."
+                  className="hidden md:block w-64"
+                />
+              )}
+              {shell.features?.showSearch && searchableEntities.length === 0 && (
                 <div className="hidden md:block w-64">
                   <label className="sr-only" htmlFor="preview-global-search">
                     Search app
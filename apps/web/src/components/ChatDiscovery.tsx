@@ -7,6 +7,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { postEventStream } from '@/lib/event-stream';
 
 export interface ChatMessage {
   id: string;
@@ -22,9 +23,14 @@ export interface ChatDiscoveryProps {
   onClose: () => void;
   onComplete: (appConfig: Record<string, unknown>) => void;
   initialInput: string;
+  /** Stored conversation to pick up instead of starting from initialInput */
+  resumeConversationId?: string | null;
   isLoading?: boolean;
 }
 
+/** localStorage key of the unfinished conversation, kept so it can be resumed after a refresh */
+export const DISCOVERY_CONVERSATION_KEY = 'neo.discoveryConversation';
+
 // Friendly AI personality messages
 const AI_GREETINGS = [
   "Hey there! 👋",
@@ -53,11 +59,16 @@ export const ChatDiscovery: React.FC<ChatDiscoveryProps> = ({
   onClose,
   onComplete,
   initialInput,
+  resumeConversationId,
   isLoading = false,
 }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isAiTyping, setIsAiTyping] = useState(false);
+  // Server-side conversation this chat is recorded on
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  // Progress and AI reply text of the request in flight (streamed from the server)
+  const [liveReply, setLiveReply] = useState<{ stage: string; text: string } | null>(null);
   const [conversationState, setConversationState] = useState<{
     step: number;
     collectedInfo: Record<string, unknown>;
@@ -99,6 +110,7 @@ export const ChatDiscovery: React.FC<ChatDiscoveryProps> = ({
   useEffect(() => {
     if (!isOpen) {
       setMessages([]);
+      setConversationId(null);
       setConversationState({ 
         step: 0, 
         collectedInfo: {}, 
@@ -113,13 +125,15 @@ export const ChatDiscovery: React.FC<ChatDiscoveryProps> = ({
     }
   }, [isOpen]);
 
-  // Start conversation when opened with initial input
+  // Start conversation when opened with initial input, or pick up a stored one
   useEffect(() => {
-    if (isOpen && initialInput && messages.length === 0) {
+    if (isOpen && resumeConversationId && messages.length === 0) {
+      resumeConversation(resumeConversationId);
+    } else if (isOpen && initialInput && messages.length === 0) {
       console.log('🚀 Starting chat discovery with:', initialInput);
       startConversation(initialInput);
     }
-  }, [isOpen, initialInput]);
+  }, [isOpen, initialInput, resumeConversationId]);
 
   const addMessage = (message: Omit<ChatMessage, 'id' | 'timestamp'>) => {
     const newMessage: ChatMessage = {
@@ -139,6 +153,78 @@ export const ChatDiscovery: React.FC<ChatDiscoveryProps> = ({
 
   const getRandomItem = <T,>(arr: T[]): T => arr[Math.floor(Math.random() * arr.length)];
 
+  // Keep the id of the stored conversation a reply belongs to
+  const rememberConversation = (data: any) => {
+    if (!data?.conversationId) return;
+    setConversationId(data.conversationId);
+    if (data.complete) {
+      window.localStorage.removeItem(DISCOVERY_CONVERSATION_KEY);
+    } else {
+      window.localStorage.setItem(DISCOVERY_CONVERSATION_KEY, data.conversationId);
+    }
+  };
+
+  // Replay a stored conversation and continue from its saved state
+  const resumeConversation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/apps/discover/conversations/${encodeURIComponent(id)}`);
+      if (!response.ok) {
+        throw new Error('Conversation not found');
+      }
+      const { conversation, state } = await response.json();
+      setMessages(conversation.turns.flatMap((turn: any, index: number) => {
+        const replies = [turn.response.acknowledgment, turn.response.message, turn.response.question].filter(Boolean);
+        return [turn.input, ...replies].map((content: string, position: number) => ({
+          id: `msg-${conversation.id}-${index}-${position}`,
+          type: position === 0 ? 'user' : 'ai',
+          content,
+          timestamp: new Date(turn.createdAt),
+        } satisfies ChatMessage));
+      }));
+      setConversationState(prev => ({ ...prev, ...state }));
+      setConversationId(conversation.id);
+    } catch (error) {
+      console.error('Resume discovery error:', error);
+      window.localStorage.removeItem(DISCOVERY_CONVERSATION_KEY);
+      if (initialInput) {
+        startConversation(initialInput);
+      } else {
+        addMessage({
+          type: 'ai',
+          content: "I couldn't find our earlier conversation - it may have expired. What would you like to build?",
+        });
+      }
+    }
+  };
+
+  // Send a chat turn, showing its progress and AI output while it streams in
+  const requestChat = async (body: Record<string, unknown>): Promise<any> => {
+    let result: any = null;
+    setLiveReply({ stage: '', text: '' });
+    setIsAiTyping(true);
+    try {
+      const response = await postEventStream('/api/apps/discover/chat/stream', body, ({ event, data }) => {
+        if (event === 'stage') {
+          setLiveReply(prev => ({ stage: data.message, text: prev?.text ?? '' }));
+        } else if (event === 'reply') {
+          setLiveReply(prev => ({ stage: prev?.stage ?? '', text: data.text }));
+        } else if (event === 'done') {
+          result = data;
+        }
+      });
+      if (!response.ok) {
+        throw new Error('Discovery request failed');
+      }
+    } finally {
+      setIsAiTyping(false);
+      setLiveReply(null);
+    }
+    if (!result) {
+      throw new Error('Discovery ended without a reply');
+    }
+    return result;
+  };
+
   const startConversation = async (userInput: string) => {
     // Add user's initial message
     addMessage({ type: 'user', content: userInput });
@@ -150,20 +236,10 @@ export const ChatDiscovery: React.FC<ChatDiscoveryProps> = ({
     
     // Call backend to start discovery
     try {
-      const response = await fetch('/api/apps/discover/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          input: userInput,
-          action: 'start',
-        }),
+      const data = await requestChat({
+        input: userInput,
+        action: 'start',
       });
-
-      if (!response.ok) {
-        throw new Error('Failed to start discovery');
-      }
-
-      const data = await response.json();
       
       // Show AI's friendly response
       addMessage({
@@ -194,6 +270,7 @@ export const ChatDiscovery: React.FC<ChatDiscoveryProps> = ({
         // IMPORTANT: Preserve answers for vibe/businessName to work
         answers: data.answers || prev.answers || {},
       }));
+      rememberConversation(data);
 
       // If discovery is complete
       if (data.complete && data.appConfig) {
@@ -225,6 +302,13 @@ export const ChatDiscovery: React.FC<ChatDiscoveryProps> = ({
     const content = message || inputValue.trim();
     if (!content || isAiTyping || isLoading) return;
 
+    // Nothing to continue (e.g. a stored conversation had expired): start over with this message
+    if (!conversationId && !conversationState.originalInput) {
+      setInputValue('');
+      await startConversation(content);
+      return;
+    }
+
     // Add user message
     addMessage({ type: 'user', content });
     setInputValue('');
@@ -233,23 +317,14 @@ export const ChatDiscovery: React.FC<ChatDiscoveryProps> = ({
     await simulateTyping(600 + Math.random() * 400);
 
     try {
-      const response = await fetch('/api/apps/discover/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          input: content,
-          action: 'continue',
-          state: conversationState,
-          originalInput: conversationState.originalInput,
-        }),
+      const data = await requestChat({
+        input: content,
+        action: 'continue',
+        state: conversationState,
+        originalInput: conversationState.originalInput,
+        ...(conversationId ? { conversationId } : {}),
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to continue discovery');
-      }
-
-      const data = await response.json();
-
       // Show acknowledgment first
       if (data.acknowledgment) {
         addMessage({ type: 'ai', content: data.acknowledgment });
@@ -277,6 +352,7 @@ export const ChatDiscovery: React.FC<ChatDiscoveryProps> = ({
         // IMPORTANT: Preserve answers for vibe/businessName to work
         answers: data.answers || prev.answers || {},
       }));
+      rememberConversation(data);
 
       // If discovery is complete
       if (data.complete && data.appConfig) {
@@ -382,6 +458,14 @@ export const ChatDiscovery: React.FC<ChatDiscoveryProps> = ({
                   <span className="w-2 h-2 bg-primary/40 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
                   <span className="w-2 h-2 bg-primary/40 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
                 </div>
+                {liveReply?.stage && (
+                  <p className="mt-2 text-xs text-muted-foreground">{liveReply.stage}</p>
+                )}
+                {liveReply?.text && (
+                  <p className="mt-1 max-w-[16rem] line-clamp-3 break-words text-xs text-muted-foreground/80">
+                    {liveReply.text}
+                  </p>
+                )}
               </div>
             </div>
           )}
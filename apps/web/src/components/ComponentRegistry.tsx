@@ -38,6 +38,7 @@ import {
   PaginationNext,
   PaginationPrevious,
 } from './ui/pagination';
+import { applyMove, dropOnto, neighborsIn, requestRecordMove } from '../lib/record-order';
 
 // Lucide icons for dynamic icon mapping
 import {
@@ -126,6 +127,7 @@ const ListComponent: React.FC<ComponentProps> = ({
   entityName,
   compact,
   limit,
+  sortable,
   ...otherProps
 }) => {
   console.log('📋 ListComponent received:', {
@@ -243,6 +245,25 @@ const ListComponent: React.FC<ComponentProps> = ({
     return hasContent;
   });
 
+  // Drag-and-drop order (sortable lists): dragged item, and the order after a drop until the saved data comes back
+  const [draggedId, setDraggedId] = React.useState<string | null>(null);
+  const [localOrder, setLocalOrder] = React.useState<string[] | null>(null);
+  const itemsKey = validItems.map((item: any) => String(item.id)).join(',');
+  React.useEffect(() => {
+    setLocalOrder(null);
+  }, [itemsKey]);
+
+  const dropItem = (targetId: string) => {
+    const recordId = draggedId;
+    setDraggedId(null);
+    if (!recordId || recordId === targetId) return;
+
+    const ids = localOrder ?? validItems.map((item: any) => String(item.id));
+    const move = { recordId, ...neighborsIn(dropOnto(ids, recordId, targetId), recordId) };
+    setLocalOrder(applyMove(ids, move));
+    requestRecordMove({ entityId: sourceStr, ...move });
+  };
+
   if (validItems.length === 0) {
     return (
       <div className="text-muted-foreground text-sm italic py-4 bg-muted/50 border border-solid border-border rounded p-4" style={style as React.CSSProperties} {...restProps}>
@@ -589,20 +610,44 @@ const ListComponent: React.FC<ComponentProps> = ({
       : 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4'
     : 'space-y-3';
 
-  // Apply limit if specified
-  const displayItems = limit ? validItems.slice(0, Number(limit)) : validItems;
+  // Apply local order and limit if specified
+  const itemById = new Map(validItems.map((item: any) => [String(item.id), item]));
+  const orderedItems = localOrder
+    ? localOrder.map(itemId => itemById.get(itemId)).filter(item => item !== undefined)
+    : validItems;
+  const displayItems = limit ? orderedItems.slice(0, Number(limit)) : orderedItems;
+
+  const renderCard = (item: any, index: number) => {
+    if (cardType === 'personCard') {
+      return renderPersonCard(item, index);
+    }
+    if (cardType === 'itemCard') {
+      return renderItemCard(item, index);
+    }
+    return renderDefaultCard(item, index);
+  };
 
   return (
     <div className={gridClass} style={style as React.CSSProperties} {...restProps}>
-      {displayItems.map((item: any, index: number) => {
-        if (cardType === 'personCard') {
-          return renderPersonCard(item, index);
-        }
-        if (cardType === 'itemCard') {
-          return renderItemCard(item, index);
-        }
-        return renderDefaultCard(item, index);
-      })}
+      {displayItems.map((item: any, index: number) => sortable ? (
+        <div
+          key={String(item?.id || index)}
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            setDraggedId(String(item.id));
+          }}
+          onDragEnd={() => setDraggedId(null)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            dropItem(String(item.id));
+          }}
+          className={`cursor-grab active:cursor-grabbing${draggedId === String(item.id) ? ' opacity-50' : ''}`}
+        >
+          {renderCard(item, index)}
+        </div>
+      ) : renderCard(item, index))}
     </div>
   );
 };
@@ -696,19 +741,36 @@ const CalendarComponent: React.FC<ComponentProps> = ({
 };
 
 // Kanban Component (simple grouped columns)
+// With `sortable`, cards can be dragged within and between columns; moves are persisted for sortable entities
 const KanbanComponent: React.FC<ComponentProps> = ({
   source,
   data,
   columnField = 'status',
   columns = [],
   titleField = 'name',
+  sortable,
   ...otherProps
 }) => {
   const dataObj = data && typeof data === 'object' && !Array.isArray(data)
     ? (data as Record<string, unknown[]>)
     : undefined;
   const sourceStr = String(source || '').trim();
-  const items = dataObj && sourceStr ? (dataObj[sourceStr] || []) : [];
+  const items = (dataObj && sourceStr ? (dataObj[sourceStr] || []) : []) as Array<Record<string, unknown>>;
+
+  // Dragged card, and card order/columns after a drop until the saved data comes back
+  const [draggedId, setDraggedId] = React.useState<string | null>(null);
+  const [localOrder, setLocalOrder] = React.useState<{ ids: string[]; columns: Record<string, string> } | null>(null);
+  const itemsKey = items.map(item => `${item.id}:${item[columnField as string]}`).join(',');
+  React.useEffect(() => {
+    setLocalOrder(null);
+  }, [itemsKey]);
+
+  const itemById = new Map(items.map(item => [String(item.id), item]));
+  const orderedItems = localOrder
+    ? localOrder.ids.map(itemId => itemById.get(itemId)).filter((item): item is Record<string, unknown> => item !== undefined)
+    : items;
+  const columnOf = (item: Record<string, unknown>) =>
+    localOrder?.columns[String(item.id)] ?? String(item[columnField as string] || '');
 
   const columnDefs = Array.isArray(columns) ? columns : [];
   const columnMap = new Map<string, Array<Record<string, unknown>>>();
@@ -718,12 +780,36 @@ const KanbanComponent: React.FC<ComponentProps> = ({
     if (id) columnMap.set(id, []);
   }
 
-  for (const item of items as Array<Record<string, unknown>>) {
-    const columnId = String(item[columnField as string] || '');
+  for (const item of orderedItems) {
+    const columnId = columnOf(item);
     if (!columnMap.has(columnId)) columnMap.set(columnId, []);
     columnMap.get(columnId)?.push(item);
   }
 
+  // Drop the dragged card onto a card of a column (targetId null: at the column's end)
+  const dropCard = (columnId: string, targetId: string | null) => {
+    const recordId = draggedId;
+    setDraggedId(null);
+    if (!recordId || recordId === targetId) return;
+
+    const columnIds = (columnMap.get(columnId) || []).map(item => String(item.id));
+    const newColumnIds = dropOnto(columnIds, recordId, targetId);
+    const dragged = itemById.get(recordId);
+    const movedColumn = dragged !== undefined && columnOf(dragged) !== columnId;
+    if (!movedColumn && newColumnIds.join(',') === columnIds.join(',')) return;
+
+    const move = { recordId, ...neighborsIn(newColumnIds, recordId) };
+    setLocalOrder({
+      ids: applyMove(orderedItems.map(item => String(item.id)), move),
+      columns: { ...localOrder?.columns, [recordId]: columnId },
+    });
+    requestRecordMove({
+      entityId: sourceStr,
+      ...move,
+      changes: movedColumn ? { [String(columnField)]: columnId } : undefined,
+    });
+  };
+
   const { id, style, ...restProps } = otherProps;
 
   if (items.length === 0) {
@@ -739,13 +825,35 @@ const KanbanComponent: React.FC<ComponentProps> = ({
       {[...columnMap.entries()].map(([columnId, columnItems]) => {
         const columnMeta = columnDefs.find((col: any) => String(col.id || col.value) === columnId);
         return (
-          <div key={columnId} className="bg-card border rounded-lg p-3">
+          <div
+            key={columnId}
+            className="bg-card border rounded-lg p-3"
+            onDragOver={sortable ? (e) => e.preventDefault() : undefined}
+            onDrop={sortable ? (e) => {
+              e.preventDefault();
+              dropCard(columnId, null);
+            } : undefined}
+          >
             <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">
               {String(columnMeta?.title || columnMeta?.label || columnId || 'Column')}
             </div>
-            <div className="space-y-2">
+            <div className="space-y-2 min-h-[2rem]">
               {columnItems.map((item, index) => (
-                <div key={String(item.id || index)} className="border border-solid border-border rounded-md p-2 text-sm">
+                <div
+                  key={String(item.id || index)}
+                  className={`border border-solid border-border rounded-md p-2 text-sm${sortable ? ' cursor-grab active:cursor-grabbing' : ''}${draggedId === String(item.id) ? ' opacity-50' : ''}`}
+                  draggable={Boolean(sortable)}
+                  onDragStart={sortable ? (e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggedId(String(item.id));
+                  } : undefined}
+                  onDragEnd={sortable ? () => setDraggedId(null) : undefined}
+                  onDrop={sortable ? (e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    dropCard(columnId, String(item.id));
+                  } : undefined}
+                >
                   <div className="font-semibold text-foreground">
                     {String(item[titleField as string] || 'Item')}
                   </div>
@@ -2102,6 +2210,59 @@ const AreaChartComponent: React.FC<ComponentProps> = ({
   );
 };
 
+// Export Menu - downloads the records of a database entity as CSV, XLSX, JSON or PDF
+const EXPORT_FORMATS = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'json', label: 'JSON' },
+  { format: 'pdf', label: 'PDF' },
+];
+
+const ExportMenu: React.FC<{
+  appId: string;
+  entityId: string;
+  title?: string;
+  /** Record list parameters (filter, sort, select, tags...) */
+  query?: Record<string, string>;
+}> = ({ appId, entityId, title, query }) => {
+  const [open, setOpen] = React.useState(false);
+  const exportUrl = (format: string) => {
+    const params = new URLSearchParams({ ...query, format });
+    if (title) params.set('title', title);
+    return `/db/apps/${appId}/entities/${encodeURIComponent(entityId)}/export?${params}`;
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        className="h-8 px-3 text-sm border border-input rounded-md hover:bg-accent"
+      >
+        Export
+      </button>
+      {open && (
+        <div role="menu" className="absolute right-0 z-10 mt-1 w-40 rounded-md border bg-popover py-1 shadow-md">
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <a
+              key={format}
+              role="menuitem"
+              href={exportUrl(format)}
+              download
+              onClick={() => setOpen(false)}
+              className="block px-3 py-1.5 text-sm hover:bg-accent"
+            >
+              {label}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Data Table Component (using SimpleDataTable)
 // ENHANCED: Supports format hints for dates, currency, phone, email, badges
 const DataTableComponent: React.FC<ComponentProps> = ({
@@ -2115,9 +2276,37 @@ const DataTableComponent: React.FC<ComponentProps> = ({
   onRowClick,
   emptyMessage,
   compact,
+  taggable,
+  selectable,
+  selectedRows,
+  onSelectedRowsChange,
+  selectionActions,
+  exportable,
+  exportTitle,
+  exportQuery,
   ...otherProps
 }) => {
   const { id, style, className, ...restProps } = otherProps;
+
+  // Tagged records are loaded from the app database (with tag filters and bulk tagging)
+  if (taggable) {
+    return (
+      <TaggableDataTable
+        source={source}
+        columns={columns}
+        searchable={searchable}
+        searchPlaceholder={searchPlaceholder}
+        paginated={paginated}
+        pageSize={pageSize}
+        onRowClick={onRowClick}
+        emptyMessage={emptyMessage}
+        compact={compact}
+        exportable={exportable}
+        exportTitle={exportTitle}
+        {...otherProps}
+      />
+    );
+  }
   
   // Handle data from source
   let tableData: Record<string, unknown>[] = [];
@@ -2139,6 +2328,24 @@ const DataTableComponent: React.FC<ComponentProps> = ({
       if (value === null || value === undefined || value === '') {
         return <span className="text-muted-foreground">-</span>;
       }
+
+      // Tags format - colored chips
+      if (Array.isArray(value) && value.every(tag => tag && typeof tag === 'object' && 'name' in tag)) {
+        if (value.length === 0) return <span className="text-muted-foreground">-</span>;
+        return (
+          <span className="flex flex-wrap gap-1">
+            {(value as { id?: string; name: string; color?: string }[]).map((tag) => (
+              <span
+                key={tag.id || tag.name}
+                className="px-2 py-0.5 rounded-full text-xs font-medium text-white"
+                style={{ backgroundColor: tag.color || '#64748b' }}
+              >
+                {tag.name}
+              </span>
+            ))}
+          </span>
+        );
+      }
       
       const strValue = String(value);
       const fieldLower = (fieldName || '').toLowerCase();
@@ -2245,9 +2452,12 @@ const DataTableComponent: React.FC<ComponentProps> = ({
       });
   } else if (tableData.length > 0) {
     // Auto-generate columns from first data item - exclude hidden fields
-    tableColumns = Object.keys(tableData[0])
-      .filter(key => !hiddenFields.has(key) && !key.startsWith('_'))
-      .slice(0, 6) // Limit to 6 columns
+    const keys = Object.keys(tableData[0]).filter(key => !hiddenFields.has(key) && !key.startsWith('_'));
+    const shownKeys = keys.slice(0, 6); // Limit to 6 columns
+    if (keys.includes('tags') && !shownKeys.includes('tags')) {
+      shownKeys[shownKeys.length - 1] = 'tags';
+    }
+    tableColumns = shownKeys
       .map(key => ({
         id: key,
         header: key
@@ -2256,7 +2466,7 @@ const DataTableComponent: React.FC<ComponentProps> = ({
           .trim()
           .replace(/^\w/, c => c.toUpperCase()),
         accessor: key as keyof Record<string, unknown>,
-        sortable: true,
+        sortable: key !== 'tags',
         cell: createCellRenderer(undefined, key),
       }));
   }
@@ -2280,7 +2490,10 @@ const DataTableComponent: React.FC<ComponentProps> = ({
     }
   };
   
-  return (
+  // Exports come from the app database, with the same columns the user may see there
+  const exportAppId = exportable && source ? resolveAppId(otherProps.appId) : '';
+
+  const table = (
     <SimpleDataTable
       data={tableData}
       columns={tableColumns}
@@ -2292,9 +2505,29 @@ const DataTableComponent: React.FC<ComponentProps> = ({
       onRowClick={handleRowClick}
       emptyMessage={emptyMessage as string | undefined}
       compact={Boolean(compact)}
+      selectable={Boolean(selectable)}
+      selectedRows={selectedRows as (string | number)[] | undefined}
+      onSelectedRowsChange={onSelectedRowsChange as ((rowKeys: (string | number)[]) => void) | undefined}
+      selectionActions={selectionActions as React.ReactNode}
       className={className as string | undefined}
     />
   );
+
+  if (!exportAppId) return table;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <ExportMenu
+          appId={exportAppId}
+          entityId={String(source)}
+          title={exportTitle as string | undefined}
+          query={exportQuery as Record<string, string> | undefined}
+        />
+      </div>
+      {table}
+    </div>
+  );
 };
 
 // Login Form Component
@@ -2668,6 +2901,593 @@ const MasterDetailLayoutComponent: React.FC<ComponentProps> = ({
   );
 };
 
+// Comments Component - Threaded discussion on a record of a commentable entity
+interface RecordCommentData {
+  id: string;
+  parentId: string | null;
+  authorId: string;
+  authorName: string | null;
+  body: string;
+  createdAt: string;
+  editedAt: string | null;
+  replies?: RecordCommentData[];
+}
+
+const renderCommentBody = (body: string) =>
+  body.split(/(@[\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g).map((part, index) =>
+    part.startsWith('@') ? (
+      <span key={index} className="text-primary font-medium">{part}</span>
+    ) : (
+      <React.Fragment key={index}>{part}</React.Fragment>
+    )
+  );
+
+const CommentsComponent: React.FC<ComponentProps> = ({
+  appId,
+  entityId,
+  source,
+  recordId,
+  title = 'Comments',
+  placeholder = 'Write a comment... Use @name to mention someone',
+  ...otherProps
+}) => {
+  const resolvedAppId = String(appId || window.location.pathname.match(/\/preview\/([^/]+)/)?.[1] || '');
+  const resolvedEntityId = String(entityId || source || '');
+  const resolvedRecordId = String(recordId || new URLSearchParams(window.location.search).get('recordId') || '');
+
+  const [threads, setThreads] = React.useState<RecordCommentData[]>([]);
+  const [userId, setUserId] = React.useState<string | null>(null);
+  const [canComment, setCanComment] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [draft, setDraft] = React.useState('');
+  const [replyTo, setReplyTo] = React.useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = React.useState('');
+  const [editing, setEditing] = React.useState<string | null>(null);
+  const [editDraft, setEditDraft] = React.useState('');
+
+  const ready = Boolean(resolvedAppId && resolvedEntityId && resolvedRecordId);
+  const threadUrl = `/api/apps/${resolvedAppId}/entities/${encodeURIComponent(resolvedEntityId)}/records/${encodeURIComponent(resolvedRecordId)}/comments`;
+
+  const loadComments = React.useCallback(async () => {
+    if (!ready) return;
+    try {
+      const response = await fetch(threadUrl, { credentials: 'include' });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        setError(result.message || result.error || 'Failed to load comments');
+        return;
+      }
+      setThreads(result.threads);
+      setUserId(result.userId);
+      setCanComment(result.canComment);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  }, [ready, threadUrl]);
+
+  React.useEffect(() => {
+    loadComments();
+  }, [loadComments]);
+
+  const send = async (url: string, method: string, body?: Record<string, unknown>) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        credentials: 'include',
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        setError(result.message || result.error || 'Request failed');
+        return false;
+      }
+      await loadComments();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return false;
+    }
+  };
+
+  const addComment = async (body: string, parentId?: string) => {
+    if (!body.trim()) return false;
+    return send(threadUrl, 'POST', { body, parentId });
+  };
+
+  const commentUrl = (commentId: string) => `/api/apps/${resolvedAppId}/comments/${commentId}`;
+
+  const { id, style, ...restProps } = otherProps;
+
+  const renderComment = (comment: RecordCommentData, isReply: boolean) => (
+    <div key={comment.id} className={isReply ? 'ml-8 mt-3' : ''}>
+      <div className="flex items-baseline gap-2">
+        <span className="text-sm font-medium text-foreground">{comment.authorName || 'Unknown'}</span>
+        <span className="text-xs text-muted-foreground">
+          {new Date(comment.createdAt).toLocaleString()}
+          {comment.editedAt && ' (edited)'}
+        </span>
+      </div>
+      {editing === comment.id ? (
+        <div className="mt-1 flex gap-2">
+          <input
+            type="text"
+            value={editDraft}
+            onChange={(e) => setEditDraft(e.target.value)}
+            className="flex-1 px-3 py-1.5 border border-input rounded-md text-sm focus-visible:ring-2 focus-visible:ring-ring"
+          />
+          <button
+            type="button"
+            onClick={async () => {
+              if (await send(commentUrl(comment.id), 'PUT', { body: editDraft })) setEditing(null);
+            }}
+            className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => setEditing(null)}
+            className="px-3 py-1.5 text-sm text-muted-foreground hover:text-foreground"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <p className="mt-1 text-sm text-foreground whitespace-pre-wrap">{renderCommentBody(comment.body)}</p>
+      )}
+      <div className="mt-1 flex gap-3 text-xs text-muted-foreground">
+        {canComment && !isReply && (
+          <button type="button" className="hover:text-foreground" onClick={() => setReplyTo(comment.id)}>
+            Reply
+          </button>
+        )}
+        {comment.authorId === userId && editing !== comment.id && (
+          <button
+            type="button"
+            className="hover:text-foreground"
+            onClick={() => {
+              setEditing(comment.id);
+              setEditDraft(comment.body);
+            }}
+          >
+            Edit
+          </button>
+        )}
+        {comment.authorId === userId && (
+          <button
+            type="button"
+            className="hover:text-destructive"
+            onClick={() => {
+              if (window.confirm('Delete this comment and its replies?')) send(commentUrl(comment.id), 'DELETE');
+            }}
+          >
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div
+      className="bg-card border rounded-lg p-4 space-y-4"
+      style={style as React.CSSProperties}
+      {...restProps}
+    >
+      <h3 className="text-sm font-semibold text-foreground">{String(title)}</h3>
+
+      {!ready ? (
+        <div className="text-muted-foreground text-center text-sm py-6">Open a record to see its comments</div>
+      ) : loading ? (
+        <div className="text-muted-foreground text-center text-sm py-6">Loading comments...</div>
+      ) : (
+        <>
+          {error && <div className="text-sm text-destructive">{error}</div>}
+
+          {threads.length === 0 ? (
+            <div className="text-muted-foreground text-center text-sm py-6">No comments yet</div>
+          ) : (
+            <div className="space-y-4">
+              {threads.map((thread) => (
+                <div key={thread.id} className="border-b border-border pb-4 last:border-0 last:pb-0">
+                  {renderComment(thread, false)}
+                  {thread.replies?.map((reply) => renderComment(reply, true))}
+                  {replyTo === thread.id && (
+                    <div className="ml-8 mt-3 flex gap-2">
+                      <input
+                        type="text"
+                        value={replyDraft}
+                        onChange={(e) => setReplyDraft(e.target.value)}
+                        placeholder="Write a reply..."
+                        className="flex-1 px-3 py-1.5 border border-input rounded-md text-sm focus-visible:ring-2 focus-visible:ring-ring"
+                      />
+                      <button
+                        type="button"
+                        disabled={!replyDraft.trim()}
+                        onClick={async () => {
+                          if (await addComment(replyDraft, thread.id)) {
+                            setReplyDraft('');
+                            setReplyTo(null);
+                          }
+                        }}
+                        className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50"
+                      >
+                        Reply
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {canComment && (
+            <div className="flex gap-2 border-t border-border pt-4">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder={String(placeholder)}
+                rows={2}
+                className="flex-1 px-3 py-2 border border-input rounded-md text-sm resize-none focus-visible:ring-2 focus-visible:ring-ring"
+              />
+              <button
+                type="button"
+                disabled={!draft.trim()}
+                onClick={async () => {
+                  if (await addComment(draft)) setDraft('');
+                }}
+                className="self-end px-4 py-2 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Comment
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+// Tags - shared vocabulary of an app, filtered through the tag cloud and applied in bulk from data tables
+interface AppTagData {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface TagFilterDetail {
+  entityId: string;
+  tagIds: string[];
+  match: 'any' | 'all';
+}
+
+const resolveAppId = (appId: unknown) =>
+  String(appId || window.location.pathname.match(/\/preview\/([^/]+)/)?.[1] || '');
+
+// Taggable Data Table - records of a taggable entity with tag filtering and bulk tagging
+const TaggableDataTable: React.FC<ComponentProps> = ({
+  appId,
+  entityId,
+  source,
+  ...tableProps
+}) => {
+  const resolvedAppId = resolveAppId(appId);
+  const resolvedEntityId = String(entityId || source || '');
+
+  const [rows, setRows] = React.useState<Record<string, unknown>[]>([]);
+  const [tags, setTags] = React.useState<AppTagData[]>([]);
+  const [filter, setFilter] = React.useState<{ tagIds: string[]; match: 'any' | 'all' }>({ tagIds: [], match: 'any' });
+  const [selected, setSelected] = React.useState<(string | number)[]>([]);
+  const [bulkTagId, setBulkTagId] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+
+  const ready = Boolean(resolvedAppId && resolvedEntityId);
+
+  const loadRecords = React.useCallback(async () => {
+    if (!ready) return;
+    const params = new URLSearchParams({ limit: '100' });
+    if (filter.tagIds.length > 0) {
+      params.set('tags', filter.tagIds.join(','));
+      params.set('tagMatch', filter.match);
+    }
+    try {
+      const response = await fetch(
+        `/db/apps/${resolvedAppId}/entities/${encodeURIComponent(resolvedEntityId)}/records?${params}`,
+        { credentials: 'include' }
+      );
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        setError(result.message || result.error || 'Failed to load records');
+        return;
+      }
+      setRows(result.records);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load records');
+    }
+  }, [ready, resolvedAppId, resolvedEntityId, filter]);
+
+  const loadTags = React.useCallback(async () => {
+    if (!ready) return;
+    try {
+      const response = await fetch(`/db/apps/${resolvedAppId}/tags`, { credentials: 'include' });
+      const result = await response.json();
+      if (response.ok && result.success) setTags(result.tags);
+    } catch {
+      // The table still works without the vocabulary; only bulk tagging needs it
+    }
+  }, [ready, resolvedAppId]);
+
+  React.useEffect(() => {
+    loadRecords();
+  }, [loadRecords]);
+
+  React.useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  // Follow the tag cloud for this entity, and refresh when tags change elsewhere
+  React.useEffect(() => {
+    const handleFilter = (event: Event) => {
+      const detail = (event as CustomEvent<TagFilterDetail>).detail;
+      if (detail?.entityId !== resolvedEntityId) return;
+      setFilter({ tagIds: detail.tagIds, match: detail.match });
+      setSelected([]);
+    };
+    const handleChanged = () => {
+      loadTags();
+      loadRecords();
+    };
+    window.addEventListener('neo-tag-filter', handleFilter);
+    window.addEventListener('neo-tags-changed', handleChanged);
+    return () => {
+      window.removeEventListener('neo-tag-filter', handleFilter);
+      window.removeEventListener('neo-tags-changed', handleChanged);
+    };
+  }, [resolvedEntityId, loadTags, loadRecords]);
+
+  const bulkTag = async (change: 'add' | 'remove') => {
+    if (!bulkTagId || selected.length === 0) return;
+    try {
+      const response = await fetch(
+        `/db/apps/${resolvedAppId}/entities/${encodeURIComponent(resolvedEntityId)}/tags/bulk`,
+        {
+          method: 'POST',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ recordIds: selected, [change]: [bulkTagId] }),
+        }
+      );
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        setError(result.message || result.error || 'Tagging failed');
+        return;
+      }
+      setError(null);
+      window.dispatchEvent(new CustomEvent('neo-tags-changed', { detail: { entityId: resolvedEntityId } }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Tagging failed');
+    }
+  };
+
+  if (!ready) {
+    return <p className="text-sm text-muted-foreground">Tagged records need an app and an entity</p>;
+  }
+
+  const selectionActions = (
+    <>
+      <select
+        value={bulkTagId}
+        onChange={(e) => setBulkTagId(e.target.value)}
+        aria-label="Tag"
+        className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+      >
+        <option value="">Choose a tag...</option>
+        {tags.map((tag) => (
+          <option key={tag.id} value={tag.id}>{tag.name}</option>
+        ))}
+      </select>
+      <button
+        type="button"
+        disabled={!bulkTagId}
+        onClick={() => bulkTag('add')}
+        className="h-8 px-3 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Add tag
+      </button>
+      <button
+        type="button"
+        disabled={!bulkTagId}
+        onClick={() => bulkTag('remove')}
+        className="h-8 px-3 text-sm border border-input rounded-md hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Remove tag
+      </button>
+    </>
+  );
+
+  return (
+    <div className="space-y-2">
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <DataTableComponent
+        {...tableProps}
+        appId={resolvedAppId}
+        source={resolvedEntityId}
+        data={rows}
+        exportQuery={filter.tagIds.length > 0 ? { tags: filter.tagIds.join(','), tagMatch: filter.match } : undefined}
+        selectable
+        selectedRows={selected}
+        onSelectedRowsChange={setSelected}
+        selectionActions={selectionActions}
+      />
+    </div>
+  );
+};
+
+// Tag Cloud Component - an app's tags sized by use; picking tags filters taggable tables of the entity
+const TagCloudComponent: React.FC<ComponentProps> = ({
+  appId,
+  entityId,
+  source,
+  title = 'Tags',
+  match = 'any',
+  editable,
+  ...otherProps
+}) => {
+  const resolvedAppId = resolveAppId(appId);
+  const resolvedEntityId = String(entityId || source || '');
+  const matchMode: 'any' | 'all' = match === 'all' ? 'all' : 'any';
+
+  const [tags, setTags] = React.useState<AppTagData[]>([]);
+  const [counts, setCounts] = React.useState<Record<string, number>>({});
+  const [selected, setSelected] = React.useState<string[]>([]);
+  const [newName, setNewName] = React.useState('');
+  const [newColor, setNewColor] = React.useState('#64748b');
+  const [error, setError] = React.useState<string | null>(null);
+
+  const loadTags = React.useCallback(async () => {
+    if (!resolvedAppId) return;
+    try {
+      const [tagsResponse, countsResponse] = await Promise.all([
+        fetch(`/db/apps/${resolvedAppId}/tags`, { credentials: 'include' }),
+        resolvedEntityId
+          ? fetch(`/db/apps/${resolvedAppId}/entities/${encodeURIComponent(resolvedEntityId)}/tags/counts`, { credentials: 'include' })
+          : Promise.resolve(null),
+      ]);
+      const tagsResult = await tagsResponse.json();
+      if (!tagsResponse.ok || !tagsResult.success) {
+        setError(tagsResult.message || tagsResult.error || 'Failed to load tags');
+        return;
+      }
+      setTags(tagsResult.tags);
+      if (countsResponse) {
+        const countsResult = await countsResponse.json();
+        if (countsResponse.ok && countsResult.success) {
+          setCounts(Object.fromEntries(
+            (countsResult.counts as { tagId: string; count: number }[]).map(c => [c.tagId, c.count])
+          ));
+        }
+      }
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tags');
+    }
+  }, [resolvedAppId, resolvedEntityId]);
+
+  React.useEffect(() => {
+    loadTags();
+    window.addEventListener('neo-tags-changed', loadTags);
+    return () => window.removeEventListener('neo-tags-changed', loadTags);
+  }, [loadTags]);
+
+  const applyFilter = (tagIds: string[]) => {
+    setSelected(tagIds);
+    window.dispatchEvent(new CustomEvent<TagFilterDetail>('neo-tag-filter', {
+      detail: { entityId: resolvedEntityId, tagIds, match: matchMode },
+    }));
+  };
+
+  const toggle = (tagId: string) => {
+    applyFilter(selected.includes(tagId) ? selected.filter(t => t !== tagId) : [...selected, tagId]);
+  };
+
+  const createTag = async () => {
+    if (!newName.trim()) return;
+    try {
+      const response = await fetch(`/db/apps/${resolvedAppId}/tags`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName.trim(), color: newColor }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        setError(result.message || result.error || 'Failed to add tag');
+        return;
+      }
+      setNewName('');
+      window.dispatchEvent(new CustomEvent('neo-tags-changed', { detail: { tagId: result.tag.id } }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add tag');
+    }
+  };
+
+  const { id, style, className } = otherProps;
+  const maxCount = Math.max(1, ...Object.values(counts));
+
+  return (
+    <div id={id as string | undefined} style={style as React.CSSProperties | undefined} className={`space-y-3 ${className || ''}`}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-foreground">{String(title)}</h3>
+        {selected.length > 0 && (
+          <button type="button" onClick={() => applyFilter([])} className="text-xs text-primary hover:underline">
+            Clear
+          </button>
+        )}
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {tags.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No tags yet</p>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          {tags.map((tag) => {
+            const count = counts[tag.id] ?? 0;
+            const isSelected = selected.includes(tag.id);
+            return (
+              <button
+                key={tag.id}
+                type="button"
+                aria-pressed={isSelected}
+                onClick={() => toggle(tag.id)}
+                className={`rounded-full px-3 py-1 font-medium text-white transition-opacity ${isSelected ? 'ring-2 ring-ring ring-offset-1' : 'opacity-80 hover:opacity-100'}`}
+                style={{ backgroundColor: tag.color, fontSize: `${0.75 + (count / maxCount) * 0.375}rem` }}
+              >
+                {tag.name}
+                {resolvedEntityId && <span className="ml-1 opacity-75">{count}</span>}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {Boolean(editable) && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') createTag();
+            }}
+            placeholder="New tag"
+            maxLength={100}
+            className="flex-1 px-3 py-1.5 border border-input rounded-md text-sm focus-visible:ring-2 focus-visible:ring-ring"
+          />
+          <input
+            type="color"
+            value={newColor}
+            onChange={(e) => setNewColor(e.target.value)}
+            aria-label="Tag color"
+            className="h-9 w-10 rounded-md border border-input"
+          />
+          <button
+            type="button"
+            disabled={!newName.trim()}
+            onClick={createTag}
+            className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Component Registry Map
 export const COMPONENT_REGISTRY: Record<string, React.FC<ComponentProps>> = {
   // Basic components
@@ -2697,6 +3517,8 @@ export const COMPONENT_REGISTRY: Record<string, React.FC<ComponentProps>> = {
   form: FormComponent,
   chat: ChatComponent,
   map: MapComponent,
+  comments: CommentsComponent,
+  tagCloud: TagCloudComponent,
   
   // Layout components
   container: ContainerComponent,
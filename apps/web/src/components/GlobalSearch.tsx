@@ -0,0 +1,151 @@
+/**
+ * Global Search Component
+ *
+ * Search box for the generated app's navigation. Queries the ranked
+ * full-text search across the app's searchable entities and lists the
+ * best matches; picking one hands the hit to the caller.
+ */
+import React, { useEffect, useState } from 'react';
+
+export interface GlobalSearchHit {
+  entityId: string;
+  id: string;
+  rank: number;
+  record: Record<string, unknown>;
+}
+
+export interface GlobalSearchEntity {
+  id: string;
+  name: string;
+  display?: { titleField?: string; subtitleField?: string };
+}
+
+interface GlobalSearchProps {
+  appId: string;
+  /** Searchable entities, used for result labels */
+  entities: GlobalSearchEntity[];
+  onSelect: (hit: GlobalSearchHit) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+const SEARCH_DELAY_MS = 250;
+
+function hitTitle(hit: GlobalSearchHit, entity: GlobalSearchEntity | undefined): string {
+  const titleField = entity?.display?.titleField;
+  const value = (titleField && hit.record[titleField]) ?? hit.record.name ?? hit.record.title;
+  return value ? String(value) : hit.id;
+}
+
+export const GlobalSearch: React.FC<GlobalSearchProps> = ({
+  appId,
+  entities,
+  onSelect,
+  placeholder = 'Search...',
+  className,
+}) => {
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<GlobalSearchHit[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const text = query.trim();
+    if (!text) {
+      setHits([]);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/db/apps/${appId}/search?q=${encodeURIComponent(text)}`, {
+          credentials: 'include',
+          signal: controller.signal,
+        });
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          setError(result.message || result.error || 'Search failed');
+          setHits([]);
+          return;
+        }
+        setHits(result.results);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Search failed');
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [appId, query]);
+
+  const select = (hit: GlobalSearchHit) => {
+    onSelect(hit);
+    setOpen(false);
+    setQuery('');
+  };
+
+  const entityById = new Map(entities.map(entity => [entity.id, entity]));
+
+  return (
+    <div className={`relative ${className || ''}`}>
+      <label className="sr-only" htmlFor="app-global-search">
+        Search records
+      </label>
+      <input
+        id="app-global-search"
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setOpen(false);
+          if (e.key === 'Enter' && hits.length > 0) select(hits[0]);
+        }}
+        placeholder={placeholder}
+        className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      />
+      {open && query.trim() && (
+        <div className="absolute left-0 right-0 top-full z-50 mt-1 max-h-80 overflow-y-auto rounded-md border bg-background shadow-md">
+          {error ? (
+            <p className="px-3 py-2 text-sm text-destructive">{error}</p>
+          ) : hits.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-muted-foreground">No matches</p>
+          ) : (
+            <ul role="listbox">
+              {hits.map((hit) => {
+                const entity = entityById.get(hit.entityId);
+                const subtitleField = entity?.display?.subtitleField;
+                return (
+                  <li key={`${hit.entityId}:${hit.id}`}>
+                    <button
+                      type="button"
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => select(hit)}
+                      className="flex w-full flex-col items-start px-3 py-2 text-left hover:bg-accent"
+                    >
+                      <span className="text-sm font-medium text-foreground">{hitTitle(hit, entity)}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {entity?.name || hit.entityId}
+                        {subtitleField && hit.record[subtitleField] ? ` · ${String(hit.record[subtitleField])}` : ''}
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
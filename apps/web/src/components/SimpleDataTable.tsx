@@ -32,6 +32,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { cn } from '@/lib/utils';
 
 export interface ColumnDef<T> {
@@ -74,6 +75,12 @@ export interface SimpleDataTableProps<T extends Record<string, unknown>> {
   onRowClick?: (row: T) => void;
   /** Selected row IDs */
   selectedRows?: (string | number)[];
+  /** Show a checkbox column; selection changes are reported through onSelectedRowsChange */
+  selectable?: boolean;
+  /** Called with the new selection when a checkbox is toggled */
+  onSelectedRowsChange?: (rowKeys: (string | number)[]) => void;
+  /** Shown above the table while rows are selected (bulk actions) */
+  selectionActions?: React.ReactNode;
   /** Empty state message */
   emptyMessage?: string;
   /** Additional CSS classes */
@@ -94,6 +101,9 @@ export function SimpleDataTable<T extends Record<string, unknown>>({
   defaultPageSize = 10,
   onRowClick,
   selectedRows = [],
+  selectable = false,
+  onSelectedRowsChange,
+  selectionActions,
   emptyMessage = 'No data to display',
   className,
   compact = false,
@@ -175,8 +185,32 @@ export function SimpleDataTable<T extends Record<string, unknown>>({
     }
   };
 
+  // Toggle one row, or every row on the current page
+  const pageRowKeys = paginatedData.map((row, index) => getRowKey(row, index));
+  const allPageRowsSelected = pageRowKeys.length > 0 && pageRowKeys.every(key => selectedRows.includes(key));
+  const toggleRow = (rowKey: string | number) => {
+    onSelectedRowsChange?.(
+      selectedRows.includes(rowKey) ? selectedRows.filter(key => key !== rowKey) : [...selectedRows, rowKey]
+    );
+  };
+  const togglePage = () => {
+    onSelectedRowsChange?.(
+      allPageRowsSelected
+        ? selectedRows.filter(key => !pageRowKeys.includes(key))
+        : [...new Set([...selectedRows, ...pageRowKeys])]
+    );
+  };
+
   return (
     <div className={cn('space-y-4', className)}>
+      {/* Bulk actions */}
+      {selectable && selectedRows.length > 0 && selectionActions && (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/50 px-3 py-2 text-sm">
+          <span className="font-medium">{selectedRows.length} selected</span>
+          {selectionActions}
+        </div>
+      )}
+
       {/* Search */}
       {searchable && (
         <div className="flex items-center gap-2">
@@ -205,6 +239,15 @@ export function SimpleDataTable<T extends Record<string, unknown>>({
         <Table>
           <TableHeader>
             <TableRow className="bg-muted/50">
+              {selectable && (
+                <TableHead className={cn('w-10', compact && 'py-2')}>
+                  <Checkbox
+                    checked={allPageRowsSelected}
+                    onCheckedChange={togglePage}
+                    aria-label="Select all rows on this page"
+                  />
+                </TableHead>
+              )}
               {columns.map((column) => (
                 <TableHead
                   key={column.id}
@@ -233,7 +276,7 @@ export function SimpleDataTable<T extends Record<string, unknown>>({
             {paginatedData.length === 0 ? (
               <TableRow>
                 <TableCell 
-                  colSpan={columns.length} 
+                  colSpan={columns.length + (selectable ? 1 : 0)} 
                   className="h-24 text-center text-muted-foreground"
                 >
                   {emptyMessage}
@@ -254,6 +297,15 @@ export function SimpleDataTable<T extends Record<string, unknown>>({
                     onClick={() => onRowClick?.(row)}
                     data-state={isSelected ? 'selected' : undefined}
                   >
+                    {selectable && (
+                      <TableCell className={cn(compact && 'py-2')} onClick={(e) => e.stopPropagation()}>
+                        <Checkbox
+                          checked={isSelected}
+                          onCheckedChange={() => toggleRow(rowKey)}
+                          aria-label="Select row"
+                        />
+                      </TableCell>
+                    )}
                     {columns.map((column) => {
                       const value = getValue(row, column.accessor);
                       const rendered = column.cell 
@@ -55,6 +55,7 @@ import { toast } from "sonner"
 import { z } from "zod"
 
 import { useIsMobile } from "@/hooks/use-mobile"
+import { neighborsIn, requestRecordMove } from "@/lib/record-order"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import {
@@ -341,8 +342,11 @@ function DraggableRow({ row }: { row: Row<z.infer<typeof schema>> }) {
 
 export function DataTable({
   data: initialData,
+  entityId,
 }: {
   data: z.infer<typeof schema>[]
+  /** Sortable entity of the rows: drag-and-drop moves are persisted for it */
+  entityId?: string
 }) {
   const [data, setData] = React.useState(() => initialData)
   const [rowSelection, setRowSelection] = React.useState({})
@@ -396,11 +400,18 @@ export function DataTable({
   function handleDragEnd(event: DragEndEvent) {
     const { active, over } = event
     if (active && over && active.id !== over.id) {
-      setData((data) => {
-        const oldIndex = dataIds.indexOf(active.id)
-        const newIndex = dataIds.indexOf(over.id)
-        return arrayMove(data, oldIndex, newIndex)
-      })
+      const oldIndex = dataIds.indexOf(active.id)
+      const newIndex = dataIds.indexOf(over.id)
+      setData((data) => arrayMove(data, oldIndex, newIndex))
+
+      if (entityId) {
+        const ids = arrayMove(dataIds, oldIndex, newIndex).map(String)
+        requestRecordMove({
+          entityId,
+          recordId: String(active.id),
+          ...neighborsIn(ids, String(active.id)),
+        })
+      }
     }
   }
 
@@ -0,0 +1,67 @@
+/**
+ * Event Stream Utility
+ * POST a JSON body to a Server-Sent Events endpoint and read its events.
+ * (EventSource only supports GET, so the stream is read from fetch.)
+ */
+
+export interface StreamEvent {
+  event: string;
+  data: any;
+}
+
+/**
+ * Parse complete events out of buffered stream text
+ * Returns the events and the unfinished remainder to keep buffering.
+ */
+export function parseEvents(buffer: string): { events: StreamEvent[]; rest: string } {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const rest = blocks.pop() ?? '';
+  const events: StreamEvent[] = [];
+  for (const block of blocks) {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    }
+    if (data.length === 0) continue;
+    try {
+      events.push({ event, data: JSON.parse(data.join('\n')) });
+    } catch {
+      events.push({ event, data: data.join('\n') });
+    }
+  }
+  return { events, rest };
+}
+
+/**
+ * POST to a streaming endpoint, calling `onEvent` for each event as it arrives
+ * Resolves with the response once the stream ends. Responses that are not
+ * event streams (e.g. JSON errors sent before streaming) are left unread.
+ */
+export async function postEventStream(
+  url: string,
+  body: unknown,
+  onEvent: (event: StreamEvent) => void
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: JSON.stringify(body),
+  });
+  if (!response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const parsed = parseEvents(done ? `${buffer}\n\n` : buffer);
+    parsed.events.forEach(onEvent);
+    buffer = parsed.rest;
+    if (done) return response;
+  }
+}
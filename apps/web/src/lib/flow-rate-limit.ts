@@ -0,0 +1,19 @@
+/**
+ * Flow Rate Limit Utility
+ * Flows run in the browser count against their `rateLimit` on the server,
+ * the same counter server runs of the flow use.
+ */
+
+/**
+ * Count a run of a flow about to execute
+ * @returns the reason it may not run now, or null (also when the server cannot be reached)
+ */
+export async function admitFlowRun(appId: string, flow: { id: string; rateLimit?: unknown }): Promise<string | null> {
+  if (!flow.rateLimit) return null;
+
+  const response = await fetch(`/api/apps/${appId}/workflows/${flow.id}/admit`, { method: 'POST' }).catch(() => null);
+  if (response?.status !== 429) return null;
+
+  const result = await response.json().catch(() => ({}));
+  return result.message || 'Rate limit exceeded';
+}
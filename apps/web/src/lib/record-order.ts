@@ -0,0 +1,66 @@
+/**
+ * Record Order Utility
+ * Drag-and-drop order of records of sortable entities.
+ * Components reorder their items locally and request the move with a
+ * window event; the app preview persists it through the move API.
+ */
+
+/** Window event carrying a RecordMoveDetail */
+export const RECORD_MOVE_EVENT = 'neo-record-move';
+
+export interface RecordMoveDetail {
+  entityId: string;
+  recordId: string;
+  /** Record the moved one now follows (null: it comes first) */
+  previousId: string | null;
+  /** Record the moved one now precedes (null: it comes last) */
+  nextId: string | null;
+  /** Field changes that go with the move (e.g. the status of a kanban column) */
+  changes?: Record<string, unknown>;
+}
+
+/**
+ * Order after dropping an id onto another one: it takes that item's place
+ * (landing after it when dragged down, before it when dragged up or in from elsewhere;
+ * targetId null: at the end)
+ */
+export function dropOnto(ids: string[], id: string, targetId: string | null): string[] {
+  const rest = ids.filter(other => other !== id);
+  const targetIndex = targetId === null ? -1 : ids.indexOf(targetId);
+  rest.splice(targetIndex === -1 ? rest.length : targetIndex, 0, id);
+  return rest;
+}
+
+/**
+ * Apply a move to an order the way the server does: the record goes right after
+ * its previous neighbor, else right before its next one, else last
+ */
+export function applyMove(
+  ids: string[],
+  move: { recordId: string; previousId: string | null; nextId: string | null }
+): string[] {
+  const rest = ids.filter(other => other !== move.recordId);
+  const previousIndex = move.previousId ? rest.indexOf(move.previousId) : -1;
+  const nextIndex = move.nextId ? rest.indexOf(move.nextId) : -1;
+  const index = previousIndex !== -1 ? previousIndex + 1 : nextIndex !== -1 ? nextIndex : rest.length;
+  rest.splice(index, 0, move.recordId);
+  return rest;
+}
+
+/**
+ * The records on either side of an id
+ */
+export function neighborsIn(ids: string[], id: string): { previousId: string | null; nextId: string | null } {
+  const index = ids.indexOf(id);
+  return {
+    previousId: index > 0 ? ids[index - 1] : null,
+    nextId: index >= 0 && index < ids.length - 1 ? ids[index + 1] : null,
+  };
+}
+
+/**
+ * Ask the app to persist a move
+ */
+export function requestRecordMove(detail: RecordMoveDetail): void {
+  window.dispatchEvent(new CustomEvent<RecordMoveDetail>(RECORD_MOVE_EVENT, { detail }));
+}
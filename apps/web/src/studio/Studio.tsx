@@ -17,9 +17,12 @@ import { DataInspector } from './panels/DataInspector.js';
 import { WorkflowInspector } from './panels/WorkflowInspector.js';
 import { PublishPanel } from './panels/PublishPanel.js';
 import { IntegrationsPanel } from './panels/IntegrationsPanel.js';
+import { AuditLogPanel } from './panels/AuditLogPanel.js';
+import { ImportPanel } from './panels/ImportPanel.js';
 import { AISuggestionsPanel } from './panels/AISuggestionsPanel.js';
 import { SchemaRenderer } from '../components/SchemaRenderer.js';
 import type { SelectionContext, ExecutionResult } from '../lib/intent';
+import { admitFlowRun } from '../lib/flow-rate-limit.js';
 
 interface StudioProps {
   appId: string;
@@ -353,7 +356,14 @@ export const Studio: React.FC<StudioProps> = ({ appId }) => {
     }
 
     // Execute all matching flows
-    for (const flow of matchingFlows as Array<{ id: string; name?: string; actions?: Array<{ type: string; modelId?: string; model?: string; recordId?: string; data?: Record<string, unknown>; targetPageId?: string; message?: string; componentId?: string }> }>) {
+    for (const flow of matchingFlows as Array<{ id: string; name?: string; rateLimit?: unknown; actions?: Array<{ type: string; modelId?: string; model?: string; recordId?: string; data?: Record<string, unknown>; targetPageId?: string; message?: string; componentId?: string }> }>) {
+      const throttled = await admitFlowRun(app.id, flow);
+      if (throttled) {
+        console.warn('⏳ Flow rate limited:', flow.id, throttled);
+        setNotification({ message: throttled, type: 'error' });
+        setTimeout(() => setNotification(null), 3000);
+        continue;
+      }
       console.log('▶️ Executing flow:', flow.id, flow.name);
       if (flow.actions && Array.isArray(flow.actions)) {
         for (const action of flow.actions) {
@@ -563,6 +573,10 @@ export const Studio: React.FC<StudioProps> = ({ appId }) => {
         return <PublishPanel appId={app.id} />;
       case 'integrations':
         return <IntegrationsPanel appId={app.id} />;
+      case 'import':
+        return <ImportPanel appId={app.id} dataModels={app.schema.dataModels} />;
+      case 'audit':
+        return <AuditLogPanel appId={app.id} dataModels={app.schema.dataModels} />;
       case 'ai-suggestions':
         return <AISuggestionsPanel appId={app.id} app={app} />;
     }
@@ -26,6 +26,8 @@ const panelConfig: Record<InspectorPanel, { icon: string; label: string }> = {
   data: { icon: '📊', label: 'Data' },
   workflows: { icon: '⚡', label: 'Workflows' },
   integrations: { icon: '🔌', label: 'Integrations' },
+  import: { icon: '📥', label: 'Import' },
+  audit: { icon: '📜', label: 'Audit Log' },
   'ai-suggestions': { icon: '🤖', label: 'AI Suggestions' },
   publish: { icon: '🚀', label: 'Publish' },
 };
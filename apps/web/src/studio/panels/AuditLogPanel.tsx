@@ -0,0 +1,300 @@
+/**
+ * Audit Log Panel
+ * Browse who changed what in auditable entities, and set how long entries are kept
+ */
+
+import React, { useState, useEffect } from 'react';
+import type { DataModelData } from '../types.js';
+
+interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface AuditEntry {
+  id: string;
+  entityId: string;
+  recordId: string;
+  action: 'create' | 'update' | 'delete' | 'restore';
+  userId: string | null;
+  userRole: string | null;
+  changes: AuditFieldChange[];
+  createdAt: string;
+}
+
+interface AuditFilters {
+  entityId: string;
+  recordId: string;
+  userId: string;
+  action: string;
+  from: string;
+  to: string;
+}
+
+interface AuditLogPanelProps {
+  appId: string;
+  dataModels: DataModelData[];
+}
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS: AuditFilters = { entityId: '', recordId: '', userId: '', action: '', from: '', to: '' };
+
+const actionStyles: Record<AuditEntry['action'], string> = {
+  create: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  delete: 'bg-red-100 text-red-700',
+  restore: 'bg-yellow-100 text-yellow-700',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ appId, dataModels }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [retentionDays, setRetentionDays] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [appId]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [appId, offset]);
+
+  const fetchEntries = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      for (const [key, value] of Object.entries(filters)) {
+        if (!value) continue;
+        // Date inputs are local days; the "to" day is included
+        if (key === 'from') params.set(key, new Date(`${value}T00:00:00`).toISOString());
+        else if (key === 'to') params.set(key, new Date(new Date(`${value}T00:00:00`).getTime() + 86400000).toISOString());
+        else params.set(key, value);
+      }
+
+      const response = await fetch(`/api/apps/${appId}/audit?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || data.error || 'Failed to fetch audit log');
+      setEntries(data.entries || []);
+      setTotal(data.total || 0);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch(`/api/apps/${appId}/audit/settings`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setRetentionDays(data.settings?.retentionDays ? String(data.settings.retentionDays) : '');
+    } catch {
+      // Settings are optional; the log itself reports errors
+    }
+  };
+
+  const handleSearch = () => {
+    if (offset === 0) {
+      fetchEntries();
+    } else {
+      setOffset(0);
+    }
+  };
+
+  const handleSaveRetention = async () => {
+    try {
+      const response = await fetch(`/api/apps/${appId}/audit/settings`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ retentionDays: retentionDays ? parseInt(retentionDays, 10) : null }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to save retention');
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const entityName = (entityId: string) => dataModels.find(m => m.id === entityId)?.name || entityId;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Audit Log</h2>
+        <div className="flex items-center gap-2 text-sm">
+          <label className="text-gray-700">Keep entries for</label>
+          <input
+            type="number"
+            min={1}
+            value={retentionDays}
+            onChange={e => setRetentionDays(e.target.value)}
+            className="w-20 px-2 py-1 border border-gray-300 rounded"
+            placeholder="∞"
+          />
+          <span className="text-gray-700">days</span>
+          <button
+            onClick={handleSaveRetention}
+            className="px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+          {error}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="p-4 bg-gray-50 rounded-lg border grid grid-cols-2 md:grid-cols-3 gap-3">
+        <select
+          value={filters.entityId}
+          onChange={e => setFilters({ ...filters, entityId: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded"
+        >
+          <option value="">All entities</option>
+          {dataModels.map(model => (
+            <option key={model.id} value={model.id}>{model.name}</option>
+          ))}
+        </select>
+        <input
+          value={filters.recordId}
+          onChange={e => setFilters({ ...filters, recordId: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded"
+          placeholder="Record ID"
+        />
+        <input
+          value={filters.userId}
+          onChange={e => setFilters({ ...filters, userId: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded"
+          placeholder="User ID"
+        />
+        <select
+          value={filters.action}
+          onChange={e => setFilters({ ...filters, action: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded"
+        >
+          <option value="">All actions</option>
+          <option value="create">Create</option>
+          <option value="update">Update</option>
+          <option value="delete">Delete</option>
+          <option value="restore">Restore</option>
+        </select>
+        <input
+          type="date"
+          value={filters.from}
+          onChange={e => setFilters({ ...filters, from: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded"
+          title="From"
+        />
+        <input
+          type="date"
+          value={filters.to}
+          onChange={e => setFilters({ ...filters, to: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded"
+          title="To"
+        />
+        <div className="col-span-full flex gap-2">
+          <button
+            onClick={handleSearch}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Search
+          </button>
+          <button
+            onClick={() => setFilters(EMPTY_FILTERS)}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded hover:bg-gray-400"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {/* Entries */}
+      {loading ? (
+        <div className="text-gray-500">Loading audit log...</div>
+      ) : entries.length === 0 ? (
+        <div className="text-gray-500 p-4 bg-gray-50 rounded">
+          No audit entries. Writes to entities with the auditable behavior show up here.
+        </div>
+      ) : (
+        <div className="border rounded-lg divide-y bg-white">
+          {entries.map(entry => (
+            <div key={entry.id}>
+              <button
+                onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                className="w-full p-3 flex items-center gap-3 text-left text-sm hover:bg-gray-50"
+              >
+                <span className={`px-2 py-0.5 rounded text-xs ${actionStyles[entry.action]}`}>{entry.action}</span>
+                <span className="font-medium">{entityName(entry.entityId)}</span>
+                <span className="text-gray-500 font-mono truncate">{entry.recordId}</span>
+                <span className="ml-auto text-gray-600">{entry.userId || 'anonymous'}</span>
+                <span className="text-gray-500">{new Date(entry.createdAt).toLocaleString()}</span>
+              </button>
+              {expanded === entry.id && (
+                <table className="w-full text-sm mb-3">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="px-3 py-1">Field</th>
+                      <th className="px-3 py-1">Before</th>
+                      <th className="px-3 py-1">After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entry.changes.map(change => (
+                      <tr key={change.field} className="border-t">
+                        <td className="px-3 py-1 font-medium">{change.field}</td>
+                        <td className="px-3 py-1 text-red-700 break-all">{formatValue(change.before)}</td>
+                        <td className="px-3 py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between text-sm text-gray-600">
+          <span>{offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}</span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+              disabled={offset === 0}
+              className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= total}
+              className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
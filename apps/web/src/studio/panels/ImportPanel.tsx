@@ -0,0 +1,304 @@
+/**
+ * Import Panel
+ * Load CSV or XLSX spreadsheets into a data model: map columns to fields,
+ * review row errors, then import every row at once
+ */
+
+import React, { useState } from 'react';
+import type { DataModelData } from '../types.js';
+
+interface ImportRowError {
+  row: number;
+  field?: string;
+  column?: string;
+  message: string;
+}
+
+interface ImportPreview {
+  mapping: Record<string, string>;
+  totalRows: number;
+  validRows: number;
+  rows: { row: number; data: Record<string, unknown>; errors: ImportRowError[] }[];
+  errors: ImportRowError[];
+  errorCount: number;
+  missingRequired: string[];
+}
+
+interface MappingSuggestion {
+  column: string;
+  field: string | null;
+  score: number;
+}
+
+interface ImportPanelProps {
+  appId: string;
+  dataModels: DataModelData[];
+}
+
+type DateOrder = 'mdy' | 'dmy';
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export const ImportPanel: React.FC<ImportPanelProps> = ({ appId, dataModels }) => {
+  const [entityId, setEntityId] = useState(dataModels[0]?.id ?? '');
+  const [file, setFile] = useState<File | null>(null);
+  const [dateOrder, setDateOrder] = useState<DateOrder>('mdy');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<MappingSuggestion[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  const model = dataModels.find(m => m.id === entityId);
+  const importUrl = `/db/apps/${appId}/entities/${encodeURIComponent(entityId)}/import`;
+
+  const upload = async (url: string, withMapping: Record<string, string> | null) => {
+    if (!file) throw new Error('Choose a file first');
+    const form = new FormData();
+    form.append('file', file);
+    form.append('dateOrder', dateOrder);
+    if (withMapping) form.append('mapping', JSON.stringify(withMapping));
+    const response = await fetch(url, { method: 'POST', body: form, credentials: 'include' });
+    return { response, data: await response.json() };
+  };
+
+  const handlePreview = async (withMapping: Record<string, string> | null) => {
+    try {
+      setLoading(true);
+      setResult(null);
+      const { response, data } = await upload(`${importUrl}/preview`, withMapping);
+      if (!response.ok) throw new Error(data.message || data.error || 'Failed to read the file');
+      setHeaders(data.headers);
+      setSuggestions(data.suggestions);
+      setMapping(data.preview.mapping);
+      setPreview(data.preview);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      setLoading(true);
+      const { response, data } = await upload(importUrl, mapping);
+      if (response.status === 422 && data.preview) {
+        setPreview(data.preview);
+        throw new Error(data.message);
+      }
+      if (!response.ok) throw new Error(data.message || data.error || 'Import failed');
+      setResult(`Imported ${data.inserted} ${model?.name ?? entityId} records`);
+      setPreview(null);
+      setHeaders([]);
+      setFile(null);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reset = () => {
+    setHeaders([]);
+    setSuggestions([]);
+    setMapping({});
+    setPreview(null);
+    setResult(null);
+  };
+
+  const setColumnField = (column: string, field: string) => {
+    const next = { ...mapping };
+    // A field takes one column: unmap it elsewhere
+    for (const [other, mapped] of Object.entries(next)) {
+      if (mapped === field) delete next[other];
+    }
+    if (field) next[column] = field;
+    else delete next[column];
+    setMapping(next);
+    // Rows are checked again with the new mapping before importing
+    setPreview(null);
+  };
+
+  const mappedFields = Object.values(mapping);
+  const canImport = preview !== null && preview.errorCount === 0 && preview.missingRequired.length === 0 && preview.totalRows > 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <h2 className="text-2xl font-bold">Import Data</h2>
+
+      {error && (
+        <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+          {error}
+        </div>
+      )}
+      {result && (
+        <div className="p-4 bg-green-100 border border-green-400 text-green-700 rounded">
+          {result}
+        </div>
+      )}
+
+      {/* File */}
+      <div className="p-4 bg-gray-50 rounded-lg border grid grid-cols-1 md:grid-cols-3 gap-3">
+        <select
+          value={entityId}
+          onChange={e => { setEntityId(e.target.value); reset(); }}
+          className="px-3 py-2 border border-gray-300 rounded"
+        >
+          {dataModels.map(m => (
+            <option key={m.id} value={m.id}>{m.name}</option>
+          ))}
+        </select>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          onChange={e => { setFile(e.target.files?.[0] ?? null); reset(); }}
+          className="px-3 py-1.5 border border-gray-300 rounded bg-white text-sm"
+        />
+        <select
+          value={dateOrder}
+          onChange={e => { setDateOrder(e.target.value as DateOrder); setPreview(null); }}
+          className="px-3 py-2 border border-gray-300 rounded"
+          title="How to read dates like 03/04/2024"
+        >
+          <option value="mdy">Dates are month/day/year</option>
+          <option value="dmy">Dates are day/month/year</option>
+        </select>
+        <div className="col-span-full flex gap-2">
+          <button
+            onClick={() => handlePreview(headers.length > 0 ? mapping : null)}
+            disabled={!file || !entityId || loading}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {headers.length > 0 ? 'Check again' : 'Read file'}
+          </button>
+          {preview && (
+            <button
+              onClick={handleImport}
+              disabled={!canImport || loading}
+              className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+            >
+              Import {preview.totalRows} rows
+            </button>
+          )}
+        </div>
+      </div>
+
+      {loading && <div className="text-gray-500">Working...</div>}
+
+      {/* Column mapping */}
+      {headers.length > 0 && model && (
+        <div className="border rounded-lg bg-white">
+          <div className="p-3 border-b font-medium">Columns</div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="px-3 py-1">Column</th>
+                <th className="px-3 py-1">Field</th>
+                <th className="px-3 py-1">Match</th>
+              </tr>
+            </thead>
+            <tbody>
+              {headers.map(column => {
+                const suggestion = suggestions.find(s => s.column === column);
+                return (
+                  <tr key={column} className="border-t">
+                    <td className="px-3 py-1 font-medium">{column}</td>
+                    <td className="px-3 py-1">
+                      <select
+                        value={mapping[column] ?? ''}
+                        onChange={e => setColumnField(column, e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded"
+                      >
+                        <option value="">Don't import</option>
+                        {model.fields.map(field => (
+                          <option key={field.id} value={field.name}>
+                            {field.name}{field.required ? ' *' : ''} ({field.type})
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-1 text-gray-500">
+                      {suggestion?.field && suggestion.field === mapping[column]
+                        ? `${Math.round(suggestion.score * 100)}%`
+                        : ''}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {model.fields.some(f => f.required && !mappedFields.includes(f.name)) && (
+            <div className="p-3 border-t text-sm text-amber-700">
+              Required fields without a column: {model.fields.filter(f => f.required && !mappedFields.includes(f.name)).map(f => f.name).join(', ')}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Preview */}
+      {preview && (
+        <div className="space-y-3">
+          <div className="text-sm text-gray-700">
+            {preview.validRows} of {preview.totalRows} rows are ready to import
+            {preview.errorCount > 0 && `; ${preview.errorCount} problems to fix in the file or the mapping`}
+          </div>
+
+          {preview.errors.length > 0 && (
+            <div className="border rounded-lg bg-white divide-y max-h-64 overflow-auto">
+              {preview.errors.map((e, i) => (
+                <div key={i} className="p-2 text-sm flex gap-3">
+                  <span className="text-gray-500 w-16 shrink-0">Row {e.row}</span>
+                  {e.column && <span className="font-medium">{e.column}</span>}
+                  <span className="text-red-700">{e.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="border rounded-lg bg-white overflow-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="px-3 py-1">Row</th>
+                  {mappedFields.map(field => (
+                    <th key={field} className="px-3 py-1">{field}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map(row => (
+                  <tr key={row.row} className={`border-t ${row.errors.length > 0 ? 'bg-red-50' : ''}`}>
+                    <td className="px-3 py-1 text-gray-500">{row.row}</td>
+                    {mappedFields.map(field => (
+                      <td
+                        key={field}
+                        className={`px-3 py-1 ${row.errors.some(e => e.field === field) ? 'text-red-700' : ''}`}
+                        title={row.errors.filter(e => e.field === field).map(e => e.message).join('\n') || undefined}
+                      >
+                        {formatValue(row.data[field])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {dataModels.length === 0 && (
+        <div className="text-gray-500 p-4 bg-gray-50 rounded">
+          This app has no data models to import into.
+        </div>
+      )}
+    </div>
+  );
+};
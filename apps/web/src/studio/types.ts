@@ -51,7 +51,7 @@ export interface VoiceContext {
   speak: (text: string) => void;
 }
 
-export type InspectorPanel = 'pages' | 'components' | 'app' | 'data' | 'workflows' | 'publish' | 'integrations' | 'ai-suggestions';
+export type InspectorPanel = 'pages' | 'components' | 'app' | 'data' | 'workflows' | 'publish' | 'integrations' | 'import' | 'audit' | 'ai-suggestions';
 
 // App data structure for studio
 export interface AppData {
@@ -36,6 +36,10 @@ export default defineConfig({
         target: 'http://localhost:3000',
         changeOrigin: true,
       },
+      '/db': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+      },
     },
   },
 });
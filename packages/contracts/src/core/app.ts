@@ -161,6 +161,8 @@ export const FlowTriggerSchema = z.object({
   componentId: z.string().optional(),
   modelId: z.string().optional(),
   event: z.string().optional(),
+  schedule: z.string().optional(), // Cron expression for scheduled flows
+  webhookPath: z.string().optional(), // Path under /hooks/:appId/ for webhook flows
 });
 
 export const FlowActionSchema = z.object({
@@ -171,6 +173,17 @@ export const FlowActionSchema = z.object({
   targetPageId: z.string().optional(),
   message: z.string().optional(),
   blocking: z.boolean().optional().default(true),
+  config: z.record(z.unknown()).optional(), // Raw action config for server-side execution
+  // Logic actions (nested actions are kept raw for server-side execution)
+  condition: z.string().optional(),
+  thenActions: z.array(z.record(z.unknown())).optional(),
+  elseActions: z.array(z.record(z.unknown())).optional(),
+  items: z.unknown().optional(),
+  itemActions: z.array(z.record(z.unknown())).optional(),
+  branches: z.array(z.array(z.record(z.unknown()))).optional(),
+  // Error handling
+  onError: z.enum(['stop', 'continue', 'retry', 'rollback']).optional(),
+  retryCount: z.number().optional(),
 });
 
 export const FlowSchema = z.object({
@@ -180,6 +193,16 @@ export const FlowSchema = z.object({
   trigger: FlowTriggerSchema,
   actions: z.array(FlowActionSchema).min(1).max(10),
   enabled: z.boolean().default(true),
+  onError: z.object({
+    action: z.enum(['stop', 'continue', 'rollback', 'notify']),
+    notification: z.string().optional(),
+    fallbackActions: z.array(z.record(z.unknown())).optional(),
+  }).optional(),
+  rateLimit: z.object({
+    maxExecutions: z.number(),
+    windowSeconds: z.number(),
+    perUser: z.boolean().optional(),
+  }).optional(),
 });
 
 export const AppSchemaSchema = z.object({
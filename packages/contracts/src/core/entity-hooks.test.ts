@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EntityHookRunner, type EntityHookWorkflowRequest } from './entity-hooks.js';
+import { EntityHookRejectedError, ExpressionError } from './errors.js';
+
+describe('EntityHookRunner - before hooks', () => {
+  it('rejects writes with the hook message', () => {
+    const runner = new EntityHookRunner();
+    runner.register('order', {
+      beforeCreate: "new.quantity > 10 ? reject('Orders are limited to 10 items') : null",
+      beforeDelete: "old.status == 'shipped' && reject('Shipped orders cannot be deleted')",
+    });
+
+    expect(runner.runBefore('order', 'beforeCreate', { new: { quantity: 3 } })).toEqual({});
+    expect(() => runner.runBefore('order', 'beforeCreate', { new: { quantity: 11 } }))
+      .toThrow(new EntityHookRejectedError('Orders are limited to 10 items', 'order', 'beforeCreate'));
+    expect(() => runner.runBefore('order', 'beforeDelete', { old: { status: 'shipped' } }))
+      .toThrow(EntityHookRejectedError);
+  });
+
+  it('changes field values and sees earlier changes', () => {
+    const runner = new EntityHookRunner();
+    runner.register('order', {
+      beforeUpdate: "[set('total', new.quantity * new.price), new.total > 100 ? set('tier', 'large') : null, changed('status') ? set('statusChangedBy', user.id) : null]",
+    });
+
+    const changes = runner.runBefore(
+      'order',
+      'beforeUpdate',
+      { old: { quantity: 1, price: 30, status: 'new' }, new: { quantity: 4, price: 30, status: 'paid' } },
+      { user: { id: 'u1' } }
+    );
+
+    expect(changes).toEqual({ total: 120, tier: 'large', statusChangedBy: 'u1' });
+  });
+
+  it('only offers functions that fit the hook', () => {
+    const runner = new EntityHookRunner();
+    runner.register('order', {
+      beforeCreate: "runWorkflow('notify')",
+      beforeDelete: "set('status', 'gone')",
+    });
+
+    expect(() => runner.runBefore('order', 'beforeCreate', { new: {} })).toThrow(ExpressionError);
+    expect(() => runner.runBefore('order', 'beforeDelete', { old: {} })).toThrow(/Unknown function 'set'/);
+  });
+});
+
+describe('EntityHookRunner - after hooks', () => {
+  it('starts workflows with the record and write context', () => {
+    const started: EntityHookWorkflowRequest[] = [];
+    const runner = new EntityHookRunner();
+    runner.setWorkflowStarter(request => { started.push(request); });
+    runner.register('order', {
+      afterUpdate: "changed('status') && new.status == 'paid' ? runWorkflow('send-receipt') : null",
+    });
+
+    runner.runAfter('order', 'afterUpdate', { old: { id: 'o1', status: 'paid' }, new: { id: 'o1', status: 'paid' } });
+    expect(started).toHaveLength(0);
+
+    runner.runAfter(
+      'order',
+      'afterUpdate',
+      { old: { id: 'o1', status: 'new' }, new: { id: 'o1', status: 'paid' } },
+      { appId: 'app-1', user: { id: 'u1' } }
+    );
+    expect(started).toEqual([{
+      appId: 'app-1',
+      entityId: 'order',
+      hook: 'afterUpdate',
+      workflowId: 'send-receipt',
+      recordId: 'o1',
+      input: { record: { id: 'o1', status: 'paid' }, previous: { id: 'o1', status: 'new' } },
+      user: { id: 'u1' },
+    }]);
+  });
+
+  it('logs failing after hooks instead of throwing', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const runner = new EntityHookRunner();
+    runner.register('order', { afterDelete: 'unknownFn()' });
+
+    expect(() => runner.runAfter('order', 'afterDelete', { old: { id: 'o1' } })).not.toThrow();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
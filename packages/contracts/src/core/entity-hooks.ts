@@ -0,0 +1,205 @@
+/**
+ * Entity Hooks
+ *
+ * Runs the `hooks` expressions an entity declares around record writes. The
+ * same runner backs the server CRUD service and the in-browser data store so
+ * both apply identical rules.
+ *
+ * Hooks are expressions in the sandboxed expression language. They see `new`
+ * (the record being written, null on delete), `old` (the stored record on
+ * update/delete), `record` (new, or old on delete), `user` and `entity`, and can call:
+ *   reject(message)           before* hooks: abort the write with a message
+ *   set(field, value)         beforeCreate/beforeUpdate: change a field value
+ *   runWorkflow(id)           after* hooks: start a workflow with the record
+ *   changed(field), isEmpty(value), now()
+ * Several calls can be combined in an array: `[set('a', 1), runWorkflow('w')]`.
+ */
+
+import { EntityHookRejectedError } from './errors.js';
+import { evaluateExpression, type ExpressionFunction } from './expressions.js';
+
+export type EntityHookEvent =
+  | 'beforeCreate'
+  | 'afterCreate'
+  | 'beforeUpdate'
+  | 'afterUpdate'
+  | 'beforeDelete'
+  | 'afterDelete';
+
+export type EntityHooks = Partial<Record<EntityHookEvent, string>>;
+
+/**
+ * Who is writing, passed through to hooks and the workflows they start
+ */
+export interface EntityWriteContext {
+  appId?: string;
+  user?: { id?: string; role?: string; [key: string]: unknown };
+}
+
+export interface EntityHookWorkflowRequest {
+  appId?: string;
+  entityId: string;
+  hook: EntityHookEvent;
+  workflowId: string;
+  recordId?: string;
+  /** `record` (and `previous` on update/delete) */
+  input: Record<string, unknown>;
+  user?: EntityWriteContext['user'];
+}
+
+export type EntityHookWorkflowStarter = (request: EntityHookWorkflowRequest) => unknown;
+
+type RecordValues = Record<string, unknown>;
+
+export class EntityHookRunner {
+  private hooks = new Map<string, EntityHooks>();
+  private workflowStarter: EntityHookWorkflowStarter | null = null;
+
+  /**
+   * Register (or clear, when empty) the hooks of an entity
+   */
+  register(entityId: string, hooks: EntityHooks | undefined): void {
+    if (hooks && Object.values(hooks).some(Boolean)) {
+      this.hooks.set(entityId, hooks);
+    } else {
+      this.hooks.delete(entityId);
+    }
+  }
+
+  has(entityId: string, ...events: EntityHookEvent[]): boolean {
+    const hooks = this.hooks.get(entityId);
+    return !!hooks && events.some(event => !!hooks[event]);
+  }
+
+  /**
+   * Where runWorkflow() requests go; without a starter they are dropped with a warning
+   */
+  setWorkflowStarter(starter: EntityHookWorkflowStarter | null): void {
+    this.workflowStarter = starter;
+  }
+
+  /**
+   * Run a before* hook
+   * @returns field values changed with set() (empty when nothing changed)
+   * @throws EntityHookRejectedError when the hook calls reject()
+   */
+  runBefore(
+    entityId: string,
+    hook: 'beforeCreate' | 'beforeUpdate' | 'beforeDelete',
+    records: { old?: RecordValues | null; new?: RecordValues | null },
+    context: EntityWriteContext = {}
+  ): RecordValues {
+    const expression = this.hooks.get(entityId)?.[hook];
+    const changes: RecordValues = {};
+    if (!expression) return changes;
+
+    const draft = { ...(records.new ?? records.old ?? {}) };
+    const functions = new Map<string, ExpressionFunction>(this.commonFunctions(records.old, draft));
+    functions.set('reject', (message) => {
+      throw new EntityHookRejectedError(
+        typeof message === 'string' && message ? message : `${hook} rejected the change`,
+        entityId,
+        hook
+      );
+    });
+    if (hook !== 'beforeDelete') {
+      functions.set('set', (field, value) => {
+        const name = String(field);
+        if (name === 'id' || name === '__proto__') return undefined;
+        draft[name] = value;
+        changes[name] = value;
+        return value;
+      });
+    }
+
+    this.evaluate(expression, { old: records.old, new: records.new ? draft : null, record: draft }, context, entityId, functions);
+    return changes;
+  }
+
+  /**
+   * Run an after* hook and start the workflows it asks for
+   * The write already happened, so failures are logged rather than thrown.
+   */
+  runAfter(
+    entityId: string,
+    hook: 'afterCreate' | 'afterUpdate' | 'afterDelete',
+    records: { old?: RecordValues | null; new?: RecordValues | null },
+    context: EntityWriteContext = {}
+  ): void {
+    const expression = this.hooks.get(entityId)?.[hook];
+    if (!expression) return;
+
+    const current = records.new ?? records.old ?? {};
+    const requests: EntityHookWorkflowRequest[] = [];
+    const functions = new Map<string, ExpressionFunction>(this.commonFunctions(records.old, current));
+    functions.set('runWorkflow', (workflowId) => {
+      requests.push({
+        appId: context.appId,
+        entityId,
+        hook,
+        workflowId: String(workflowId),
+        recordId: current.id === undefined ? undefined : String(current.id),
+        input: {
+          record: current,
+          ...(records.old && { previous: records.old }),
+        },
+        user: context.user,
+      });
+      return true;
+    });
+
+    try {
+      this.evaluate(expression, { old: records.old, new: records.new, record: current }, context, entityId, functions);
+    } catch (error) {
+      console.error(`[EntityHooks] ${entityId}.${hook} failed:`, error);
+      return;
+    }
+
+    for (const request of requests) {
+      this.startWorkflow(request);
+    }
+  }
+
+  private startWorkflow(request: EntityHookWorkflowRequest): void {
+    if (!this.workflowStarter) {
+      console.warn(`[EntityHooks] No workflow starter configured; ${request.entityId}.${request.hook} skipped workflow ${request.workflowId}`);
+      return;
+    }
+
+    try {
+      Promise.resolve(this.workflowStarter(request)).catch(error => {
+        console.error(`[EntityHooks] Workflow ${request.workflowId} from ${request.entityId}.${request.hook} failed:`, error);
+      });
+    } catch (error) {
+      console.error(`[EntityHooks] Workflow ${request.workflowId} from ${request.entityId}.${request.hook} failed:`, error);
+    }
+  }
+
+  private commonFunctions(old: RecordValues | null | undefined, current: RecordValues): Array<[string, ExpressionFunction]> {
+    return [
+      ['changed', (field) => !!old && old[String(field)] !== current[String(field)]],
+      ['isEmpty', (value) => value === null || value === undefined || value === '' ||
+        (Array.isArray(value) && value.length === 0)],
+      ['now', () => new Date().toISOString()],
+    ];
+  }
+
+  private evaluate(
+    expression: string,
+    records: { old?: RecordValues | null; new?: RecordValues | null; record: RecordValues },
+    context: EntityWriteContext,
+    entityId: string,
+    functions: Map<string, ExpressionFunction>
+  ): void {
+    evaluateExpression(expression, {
+      variables: {
+        new: records.new ?? null,
+        record: records.record,
+        old: records.old ?? null,
+        user: context.user ?? null,
+        entity: entityId,
+      },
+      functions: (name) => functions.get(name),
+    });
+  }
+}
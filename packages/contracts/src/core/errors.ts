@@ -45,3 +45,24 @@ export class CostLimitError extends Error {
     this.name = 'CostLimitError';
   }
 }
+
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    public readonly position?: number
+  ) {
+    super(position === undefined ? message : `${message} at position ${position}`);
+    this.name = 'ExpressionError';
+  }
+}
+
+export class EntityHookRejectedError extends Error {
+  constructor(
+    message: string,
+    public readonly entityId: string,
+    public readonly hook: string
+  ) {
+    super(message);
+    this.name = 'EntityHookRejectedError';
+  }
+}
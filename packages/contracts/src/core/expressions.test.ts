@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateCondition, evaluateExpression } from './expressions.js';
+import { ExpressionError } from './errors.js';
+import type { ExpressionScope } from './expressions.js';
+
+function scope(variables: Record<string, unknown>, functions: Record<string, (...args: unknown[]) => unknown> = {}): ExpressionScope {
+  return {
+    variables,
+    functions: (name) => Object.prototype.hasOwnProperty.call(functions, name) ? functions[name] : undefined,
+  };
+}
+
+describe('Expressions - grammar', () => {
+  it('evaluates comparisons and boolean logic', () => {
+    const vars = scope({ status: 'active', assigned_to: 'u1', current_user: 'u1', amount: 250 });
+    expect(evaluateCondition("assigned_to == current_user && status == 'active'", vars)).toBe(true);
+    expect(evaluateCondition("status != 'active' || amount >= 250", vars)).toBe(true);
+    expect(evaluateCondition('not (amount > 100 and amount < 200)', vars)).toBe(true);
+    expect(evaluateCondition("'5' == 5 && '5' !== 5", vars)).toBe(true);
+  });
+
+  it('supports in, not in, members and arithmetic', () => {
+    const vars = scope({ status: 'open', tags: ['vip', 'new'], record: { owner: { id: 'u2' } }, qty: 3, price: 2.5 });
+    expect(evaluateCondition("status in ['open', 'pending']", vars)).toBe(true);
+    expect(evaluateCondition("'vip' in tags && 'old' not in tags", vars)).toBe(true);
+    expect(evaluateExpression('record.owner.id', vars)).toBe('u2');
+    expect(evaluateExpression("tags[0] + '-' + tags.length", vars)).toBe('vip-2');
+    expect(evaluateExpression('qty * price + 1', vars)).toBe(8.5);
+    expect(evaluateExpression("qty > 2 ? 'many' : 'few'", vars)).toBe('many');
+  });
+
+  it('calls only registered functions', () => {
+    const vars = scope({ role: 'editor' }, { has_role: (role) => role === 'editor' });
+    expect(evaluateCondition("has_role('editor')", vars)).toBe(true);
+    expect(() => evaluateExpression("eval('1')", vars)).toThrow(ExpressionError);
+  });
+});
+
+describe('Expressions - hostile input', () => {
+  const hostileValue = "' || true || '";
+
+  it('treats record data as values, never as source', () => {
+    const vars = scope({ status: hostileValue, owner: "x' || process.exit(1) || '", current_user: 'u1' });
+    expect(evaluateCondition("status == 'active'", vars)).toBe(false);
+    expect(evaluateCondition('owner == current_user', vars)).toBe(false);
+  });
+
+  const rejected = [
+    'constructor',
+    "constructor.constructor('return process')()",
+    'record.constructor',
+    'record.__proto__',
+    "record['__proto__']",
+    'tags.prototype',
+    "''.constructor.constructor('return this')()",
+    'toString.call(1)',
+    'process.exit(1)',
+    "require('child_process')",
+    'globalThis',
+    'a = 1',
+    'a; b',
+    '`template`',
+    'x => x',
+    'new Date()',
+    "'unterminated",
+    '(((1)',
+    '1 +',
+    '@',
+    '('.repeat(100) + '1' + ')'.repeat(100),
+    '!'.repeat(100) + 'true',
+    'a + '.repeat(1000) + 'a',
+  ];
+
+  it.each(rejected)('rejects or neutralizes %s', (source) => {
+    const vars = scope({ record: { id: '1' }, tags: ['a'], a: 1 });
+    let result: unknown;
+    try {
+      result = evaluateExpression(source, vars);
+    } catch (error) {
+      expect(error).toBeInstanceOf(ExpressionError);
+      return;
+    }
+    expect(result).toBeUndefined();
+  });
+
+  it('does not resolve globals or inherited members', () => {
+    const vars = scope({ record: { id: '1' }, list: [1, 2] });
+    for (const name of ['process', 'globalThis', 'window', 'Function', 'Object', 'require', 'hasOwnProperty', 'toString']) {
+      expect(evaluateExpression(name, vars)).toBeUndefined();
+    }
+    expect(evaluateExpression('record.toString', vars)).toBeUndefined();
+    expect(evaluateExpression("list['map']", vars)).toBeUndefined();
+    expect(evaluateExpression("record[['__proto__']]", vars)).toBeUndefined();
+  });
+
+  it('blocks computed access to prototype properties', () => {
+    const vars = scope({ key: '__proto__', record: { id: '1' } });
+    expect(() => evaluateExpression('record[key]', vars)).toThrow(ExpressionError);
+    expect(() => evaluateExpression("record['con' + 'structor']", vars)).toThrow(ExpressionError);
+  });
+
+  it('never hands back functions from the scope', () => {
+    const vars = scope({ fn: () => 'called', record: { fn: () => 'called' } });
+    expect(evaluateExpression('fn', vars)).toBeUndefined();
+    expect(evaluateExpression('record.fn', vars)).toBeUndefined();
+    expect(() => evaluateExpression('fn()', vars)).toThrow(ExpressionError);
+  });
+});
@@ -0,0 +1,614 @@
+/**
+ * Expression Language
+ *
+ * A small, sandboxed expression language shared by row-level access rules
+ * and computed fields. Expressions are parsed into an AST and interpreted;
+ * nothing is ever handed to `eval`/`new Function`, identifiers only resolve
+ * against the variables passed in, and only registered functions can be called.
+ *
+ * Grammar (lowest to highest precedence):
+ *   ternary     := or ('?' ternary ':' ternary)?
+ *   or          := and (('||' | 'or') and)*
+ *   and         := equality (('&&' | 'and') equality)*
+ *   equality    := relational (('==' | '!=' | '===' | '!==') relational)*
+ *   relational  := additive (('<' | '<=' | '>' | '>=' | 'in' | 'not in') additive)*
+ *   additive    := term (('+' | '-') term)*
+ *   term        := unary (('*' | '/' | '%') unary)*
+ *   unary       := ('!' | 'not' | '-') unary | postfix
+ *   postfix     := primary ('.' name | '[' ternary ']')*
+ *   primary     := number | string | true | false | null
+ *                | name | name '(' args ')' | '(' ternary ')' | '[' args ']'
+ */
+
+import { ExpressionError } from './errors.js';
+
+// ============================================================
+// AST
+// ============================================================
+
+export type ExpressionBinaryOperator =
+  | '==' | '!=' | '===' | '!=='
+  | '<' | '<=' | '>' | '>='
+  | 'in' | 'not in'
+  | '+' | '-' | '*' | '/' | '%';
+
+export type ExpressionNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] }
+  | { type: 'array'; items: ExpressionNode[] }
+  | { type: 'unary'; operator: '!' | '-'; argument: ExpressionNode }
+  | { type: 'binary'; operator: ExpressionBinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'logical'; operator: '&&' | '||'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode };
+
+export type ExpressionFunction = (...args: unknown[]) => unknown;
+
+/**
+ * What an expression can see while it is evaluated
+ */
+export interface ExpressionScope {
+  /** Values bare identifiers resolve to (only own properties are visible) */
+  variables: Record<string, unknown>;
+  /** Look up a callable function by name; unknown names are an error */
+  functions?: (name: string) => ExpressionFunction | undefined;
+}
+
+/** Longest expression source accepted */
+export const MAX_EXPRESSION_LENGTH = 2000;
+
+/** Deepest nesting accepted */
+export const MAX_EXPRESSION_DEPTH = 32;
+
+/** Property names that could reach an object's prototype chain */
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+// ============================================================
+// TOKENIZER
+// ============================================================
+
+type TokenType = 'number' | 'string' | 'name' | 'operator' | 'punctuation' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '+', '-', '*', '/', '%', '?', ':'];
+const PUNCTUATION = new Set(['(', ')', '[', ']', ',', '.']);
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Numbers
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^(\d+(\.\d+)?|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    // Strings
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\') {
+          const next = source[i + 1];
+          if (next === undefined) break;
+          value += ESCAPES[next] ?? next;
+          i += 2;
+        } else {
+          value += source[i];
+          i++;
+        }
+      }
+      if (source[i] !== char) {
+        throw new ExpressionError('Unterminated string', start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    // Names
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'name', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    if (PUNCTUATION.has(char)) {
+      tokens.push({ type: 'punctuation', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}'`, i);
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+// ============================================================
+// PARSER
+// ============================================================
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseTernary();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new ExpressionError(`Unexpected '${token.value}'`, token.position);
+    }
+    return node;
+  }
+
+  private parseTernary(): ExpressionNode {
+    this.enter();
+    const test = this.parseOr();
+    let node = test;
+    if (this.matchOperator('?')) {
+      const consequent = this.parseTernary();
+      this.expectOperator(':');
+      const alternate = this.parseTernary();
+      node = { type: 'conditional', test, consequent, alternate };
+    }
+    this.depth--;
+    return node;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchOperator('||') || this.matchKeyword('or')) {
+      left = { type: 'logical', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseEquality();
+    while (this.matchOperator('&&') || this.matchKeyword('and')) {
+      left = { type: 'logical', operator: '&&', left, right: this.parseEquality() };
+    }
+    return left;
+  }
+
+  private parseEquality(): ExpressionNode {
+    let left = this.parseRelational();
+    for (;;) {
+      const operator = this.matchOperator('===', '!==', '==', '!=');
+      if (!operator) return left;
+      left = { type: 'binary', operator: operator as ExpressionBinaryOperator, left, right: this.parseRelational() };
+    }
+  }
+
+  private parseRelational(): ExpressionNode {
+    let left = this.parseAdditive();
+    for (;;) {
+      let operator: ExpressionBinaryOperator | null = this.matchOperator('<=', '>=', '<', '>') as ExpressionBinaryOperator | null;
+      if (!operator && this.matchKeyword('in')) {
+        operator = 'in';
+      }
+      if (!operator && this.peekKeyword('not') && this.peekKeyword('in', 1)) {
+        this.index += 2;
+        operator = 'not in';
+      }
+      if (!operator) return left;
+      left = { type: 'binary', operator, left, right: this.parseAdditive() };
+    }
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseTerm();
+    for (;;) {
+      const operator = this.matchOperator('+', '-');
+      if (!operator) return left;
+      left = { type: 'binary', operator: operator as ExpressionBinaryOperator, left, right: this.parseTerm() };
+    }
+  }
+
+  private parseTerm(): ExpressionNode {
+    let left = this.parseUnary();
+    for (;;) {
+      const operator = this.matchOperator('*', '/', '%');
+      if (!operator) return left;
+      left = { type: 'binary', operator: operator as ExpressionBinaryOperator, left, right: this.parseUnary() };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOperator('!') || this.matchKeyword('not')) {
+      this.enter();
+      const argument = this.parseUnary();
+      this.depth--;
+      return { type: 'unary', operator: '!', argument };
+    }
+    if (this.matchOperator('-')) {
+      this.enter();
+      const argument = this.parseUnary();
+      this.depth--;
+      return { type: 'unary', operator: '-', argument };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+    for (;;) {
+      if (this.matchPunctuation('.')) {
+        const token = this.next();
+        if (token.type !== 'name') {
+          throw new ExpressionError('Expected a property name', token.position);
+        }
+        node = { type: 'member', object: node, property: { type: 'literal', value: checkProperty(token.value, token.position) } };
+      } else if (this.matchPunctuation('[')) {
+        const property = this.parseTernary();
+        this.expectPunctuation(']');
+        if (property.type === 'literal' && typeof property.value === 'string') {
+          checkProperty(property.value, this.peek().position);
+        }
+        node = { type: 'member', object: node, property };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'name': {
+        if (token.value === 'true') return { type: 'literal', value: true };
+        if (token.value === 'false') return { type: 'literal', value: false };
+        if (token.value === 'null') return { type: 'literal', value: null };
+
+        if (this.matchPunctuation('(')) {
+          this.enter();
+          const args = this.parseList(')');
+          this.depth--;
+          return { type: 'call', name: token.value, args };
+        }
+        return { type: 'identifier', name: checkProperty(token.value, token.position) };
+      }
+      case 'punctuation':
+        if (token.value === '(') {
+          const node = this.parseTernary();
+          this.expectPunctuation(')');
+          return node;
+        }
+        if (token.value === '[') {
+          this.enter();
+          const items = this.parseList(']');
+          this.depth--;
+          return { type: 'array', items };
+        }
+        break;
+    }
+
+    throw new ExpressionError(
+      token.type === 'end' ? 'Unexpected end of expression' : `Unexpected '${token.value}'`,
+      token.position
+    );
+  }
+
+  private parseList(close: ')' | ']'): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    if (this.matchPunctuation(close)) return items;
+    do {
+      items.push(this.parseTernary());
+    } while (this.matchPunctuation(','));
+    this.expectPunctuation(close);
+    return items;
+  }
+
+  private enter(): void {
+    this.depth++;
+    if (this.depth > MAX_EXPRESSION_DEPTH) {
+      throw new ExpressionError('Expression is nested too deeply', this.peek().position);
+    }
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private peekKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'name' && token.value === keyword;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    if (!this.peekKeyword(keyword)) return false;
+    this.index++;
+    return true;
+  }
+
+  private matchOperator(...operators: string[]): string | null {
+    const token = this.peek();
+    if (token.type === 'operator' && operators.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuation' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(value: string): void {
+    if (!this.matchOperator(value)) {
+      const token = this.peek();
+      throw new ExpressionError(`Expected '${value}'`, token.position);
+    }
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.matchPunctuation(value)) {
+      const token = this.peek();
+      throw new ExpressionError(`Expected '${value}'`, token.position);
+    }
+  }
+}
+
+function checkProperty(name: string, position: number): string {
+  if (FORBIDDEN_PROPERTIES.has(name)) {
+    throw new ExpressionError(`Access to '${name}' is not allowed`, position);
+  }
+  return name;
+}
+
+const parseCache = new Map<string, ExpressionNode>();
+const PARSE_CACHE_SIZE = 500;
+
+/**
+ * Parse an expression into an AST (results are cached by source)
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const node = new Parser(tokenize(source)).parse();
+
+  if (parseCache.size >= PARSE_CACHE_SIZE) {
+    parseCache.delete(parseCache.keys().next().value as string);
+  }
+  parseCache.set(source, node);
+  return node;
+}
+
+// ============================================================
+// EVALUATOR
+// ============================================================
+
+/**
+ * Evaluate an expression (source or parsed AST) against a scope
+ */
+export function evaluateExpression(expression: string | ExpressionNode, scope: ExpressionScope): unknown {
+  const node = typeof expression === 'string' ? parseExpression(expression) : expression;
+  return evaluateNode(node, scope);
+}
+
+/**
+ * Evaluate an expression and coerce the result to a boolean
+ */
+export function evaluateCondition(expression: string | ExpressionNode, scope: ExpressionScope): boolean {
+  return Boolean(evaluateExpression(expression, scope));
+}
+
+function evaluateNode(node: ExpressionNode, scope: ExpressionScope): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      return readProperty(scope.variables, node.name);
+
+    case 'member': {
+      const object = evaluateNode(node.object, scope);
+      const property = evaluateNode(node.property, scope);
+      if (typeof property !== 'string' && typeof property !== 'number') {
+        return undefined;
+      }
+      return readProperty(object, String(property));
+    }
+
+    case 'array':
+      return node.items.map(item => evaluateNode(item, scope));
+
+    case 'call': {
+      const fn = scope.functions?.(node.name);
+      if (!fn) {
+        throw new ExpressionError(`Unknown function '${node.name}'`);
+      }
+      return toSafeValue(fn(...node.args.map(arg => evaluateNode(arg, scope))));
+    }
+
+    case 'unary': {
+      const value = evaluateNode(node.argument, scope);
+      return node.operator === '!' ? !value : -toNumber(value);
+    }
+
+    case 'logical': {
+      const left = evaluateNode(node.left, scope);
+      if (node.operator === '&&') {
+        return left ? evaluateNode(node.right, scope) : left;
+      }
+      return left ? left : evaluateNode(node.right, scope);
+    }
+
+    case 'conditional':
+      return evaluateNode(node.test, scope)
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+
+    case 'binary':
+      return applyBinary(node.operator, evaluateNode(node.left, scope), evaluateNode(node.right, scope));
+  }
+}
+
+/**
+ * Read an own, data property of a plain object, array or string
+ * Prototype members (methods, constructors, getters) are never visible.
+ */
+function readProperty(object: unknown, name: string): unknown {
+  if (FORBIDDEN_PROPERTIES.has(name)) {
+    throw new ExpressionError(`Access to '${name}' is not allowed`);
+  }
+
+  if (typeof object === 'string') {
+    if (name === 'length') return object.length;
+    return /^\d+$/.test(name) ? object[Number(name)] : undefined;
+  }
+
+  if (object === null || typeof object !== 'object') {
+    return undefined;
+  }
+
+  if (Array.isArray(object)) {
+    if (name === 'length') return object.length;
+    return /^\d+$/.test(name) ? toSafeValue(object[Number(name)]) : undefined;
+  }
+
+  const proto = Object.getPrototypeOf(object);
+  if (proto !== Object.prototype && proto !== null) {
+    return undefined;
+  }
+
+  const descriptor = Object.getOwnPropertyDescriptor(object, name);
+  if (!descriptor || !('value' in descriptor)) {
+    return undefined;
+  }
+  return toSafeValue(descriptor.value);
+}
+
+/**
+ * Functions never escape into an expression, so they cannot be called indirectly
+ */
+function toSafeValue(value: unknown): unknown {
+  return typeof value === 'function' ? undefined : value;
+}
+
+function toNumber(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  const number = Number(value ?? 0);
+  return Number.isNaN(number) ? 0 : number;
+}
+
+function isNumeric(value: unknown): boolean {
+  if (typeof value === 'number') return !Number.isNaN(value);
+  return typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value));
+}
+
+/**
+ * Loose equality without JavaScript's coercion surprises:
+ * null and undefined are equal, numeric strings equal their numbers, everything else is strict
+ */
+function looseEquals(left: unknown, right: unknown): boolean {
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return (left ?? null) === (right ?? null);
+  }
+  if (typeof left !== typeof right && isNumeric(left) && isNumeric(right)) {
+    return Number(left) === Number(right);
+  }
+  if (left instanceof Date || right instanceof Date) {
+    return String(left instanceof Date ? left.toISOString() : left) ===
+      String(right instanceof Date ? right.toISOString() : right);
+  }
+  return left === right;
+}
+
+function compare(left: unknown, right: unknown): number {
+  if (typeof left === 'string' && typeof right === 'string' && !(isNumeric(left) && isNumeric(right))) {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  return toNumber(left) - toNumber(right);
+}
+
+function contains(collection: unknown, value: unknown): boolean {
+  if (Array.isArray(collection)) {
+    return collection.some(item => looseEquals(item, value));
+  }
+  if (typeof collection === 'string') {
+    return value !== null && value !== undefined && collection.includes(String(value));
+  }
+  return false;
+}
+
+function applyBinary(operator: ExpressionBinaryOperator, left: unknown, right: unknown): unknown {
+  switch (operator) {
+    case '==': return looseEquals(left, right);
+    case '!=': return !looseEquals(left, right);
+    case '===': return left === right;
+    case '!==': return left !== right;
+    case '<': return compare(left, right) < 0;
+    case '<=': return compare(left, right) <= 0;
+    case '>': return compare(left, right) > 0;
+    case '>=': return compare(left, right) >= 0;
+    case 'in': return contains(right, left);
+    case 'not in': return !contains(right, left);
+    case '+':
+      if (typeof left === 'string' || typeof right === 'string') {
+        return `${left ?? ''}${right ?? ''}`;
+      }
+      return toNumber(left) + toNumber(right);
+    case '-': return toNumber(left) - toNumber(right);
+    case '*': return toNumber(left) * toNumber(right);
+    case '/': {
+      const divisor = toNumber(right);
+      return divisor === 0 ? 0 : toNumber(left) / divisor;
+    }
+    case '%': {
+      const divisor = toNumber(right);
+      return divisor === 0 ? 0 : toNumber(left) % divisor;
+    }
+  }
+}
@@ -1,2 +1,4 @@
 export * from './core/app.js';
 export * from './core/errors.js';
+export * from './core/expressions.js';
+export * from './core/entity-hooks.js';
@@ -4,12 +4,14 @@
  */
 
 import type { AIProvider } from './providers/types.js';
+import { completeStructured } from './providers/structured-output.js';
 import type { UnderstandingResult, PrimaryIntent, ExtractedContext } from './ai-understanding-service.js';
 import { 
   CustomizationWhitelist, 
   createWhitelist,
   type CustomizationSpec,
   type FilteredCustomizationSpec,
+  CustomizationSpecSchema,
   CUSTOMIZATION_WHITELIST,
 } from './customization-whitelist.js';
 
@@ -123,16 +125,18 @@ export class AICustomizationService {
     const systemPrompt = this.buildSystemPrompt(input);
     const userPrompt = this.buildUserPrompt(input);
 
-    const response = await this.aiProvider.complete({
+    const result = await completeStructured(this.aiProvider, {
       prompt: userPrompt,
       systemPrompt,
       maxTokens: 3000,
       temperature: 0.4,
       timeout: 30000,
-      schema: this.getCustomizationSchema(),
-    });
+    }, CustomizationSpecSchema);
 
-    return response as CustomizationSpec;
+    if (!result.success) {
+      throw result.error;
+    }
+    return result.data;
   }
 
   private buildSystemPrompt(input: CustomizationInput): string {
@@ -226,106 +230,6 @@ Focus on:
     return prompt;
   }
 
-  private getCustomizationSchema(): object {
-    return {
-      type: 'object',
-      properties: {
-        entityModifications: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              entityId: { type: 'string' },
-              operation: { type: 'string' },
-              data: { type: 'object' },
-            },
-            required: ['entityId', 'operation', 'data'],
-          },
-        },
-        addEntities: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              id: { type: 'string' },
-              name: { type: 'string' },
-              fields: {
-                type: 'array',
-                items: {
-                  type: 'object',
-                  properties: {
-                    id: { type: 'string' },
-                    name: { type: 'string' },
-                    type: { type: 'string' },
-                    required: { type: 'boolean' },
-                    enumOptions: {
-                      type: 'array',
-                      items: {
-                        type: 'object',
-                        properties: {
-                          value: { type: 'string' },
-                          label: { type: 'string' },
-                        },
-                      },
-                    },
-                  },
-                  required: ['id', 'name', 'type'],
-                },
-              },
-            },
-            required: ['id', 'name', 'fields'],
-          },
-        },
-        pageCustomizations: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              pageId: { type: 'string' },
-              operation: { type: 'string' },
-              data: { type: 'object' },
-            },
-            required: ['pageId', 'operation', 'data'],
-          },
-        },
-        workflowAdditions: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              id: { type: 'string' },
-              name: { type: 'string' },
-              trigger: { type: 'string' },
-              actions: {
-                type: 'array',
-                items: {
-                  type: 'object',
-                  properties: {
-                    type: { type: 'string' },
-                    config: { type: 'object' },
-                  },
-                  required: ['type', 'config'],
-                },
-              },
-            },
-            required: ['id', 'name', 'trigger', 'actions'],
-          },
-        },
-        themeAdjustments: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              customization: { type: 'string' },
-              value: {},
-            },
-            required: ['customization', 'value'],
-          },
-        },
-      },
-    };
-  }
-
   private summarizeCustomizations(
     spec: FilteredCustomizationSpec,
     input: CustomizationInput
@@ -3,7 +3,9 @@
  * Extracts industry, primary intent, and confidence from user input
  */
 
+import { z } from 'zod';
 import type { AIProvider } from './providers/types.js';
+import { completeStructured } from './providers/structured-output.js';
 
 /**
  * Primary intent types for app creation
@@ -50,6 +52,32 @@ export interface UnderstandingResult {
   interpretation?: string;
 }
 
+/**
+ * Shape of the AI's understanding result
+ * Unknown industries and out-of-range confidence are corrected afterwards
+ * rather than rejected.
+ */
+export const UnderstandingResultSchema: z.ZodType<UnderstandingResult, z.ZodTypeDef, unknown> = z.object({
+  industry: z.string(),
+  primaryIntent: z.enum(['operations', 'customer-facing', 'internal', 'hybrid']),
+  confidence: z.number(),
+  context: z.object({
+    teamSize: z.enum(['solo', 'small', 'medium', 'large']).optional(),
+    features: z.array(z.string()).optional(),
+    preferences: z.array(z.string()).optional(),
+    businessModel: z.string().optional(),
+    targetAudience: z.string().optional(),
+    customDetails: z.record(z.unknown()).optional(),
+  }),
+  suggestedQuestions: z.array(z.object({
+    id: z.string(),
+    text: z.string(),
+    options: z.array(z.string()).optional(),
+    type: z.enum(['single', 'multiple', 'freeform']),
+  })),
+  interpretation: z.string().optional(),
+});
+
 /**
  * Industry keywords for matching
  */
@@ -135,48 +163,18 @@ export class AIUnderstandingService {
     const systemPrompt = this.buildSystemPrompt();
     const userPrompt = this.buildUserPrompt(input, previousAnswers);
 
-    const response = await this.aiProvider.complete({
+    const result = await completeStructured(this.aiProvider, {
       prompt: userPrompt,
       systemPrompt,
       maxTokens: 1500,
       temperature: 0.3,
       timeout: 20000,
-      schema: {
-        type: 'object',
-        properties: {
-          industry: { type: 'string' },
-          primaryIntent: { type: 'string', enum: ['operations', 'customer-facing', 'internal', 'hybrid'] },
-          confidence: { type: 'number', minimum: 0, maximum: 1 },
-          context: {
-            type: 'object',
-            properties: {
-              teamSize: { type: 'string', enum: ['solo', 'small', 'medium', 'large'] },
-              features: { type: 'array', items: { type: 'string' } },
-              preferences: { type: 'array', items: { type: 'string' } },
-              businessModel: { type: 'string' },
-              targetAudience: { type: 'string' },
-            },
-          },
-          suggestedQuestions: {
-            type: 'array',
-            items: {
-              type: 'object',
-              properties: {
-                id: { type: 'string' },
-                text: { type: 'string' },
-                options: { type: 'array', items: { type: 'string' } },
-                type: { type: 'string', enum: ['single', 'multiple', 'freeform'] },
-              },
-            },
-            maxItems: 3,
-          },
-          interpretation: { type: 'string' },
-        },
-        required: ['industry', 'primaryIntent', 'confidence', 'context', 'suggestedQuestions'],
-      },
-    });
+    }, UnderstandingResultSchema);
 
-    return response as UnderstandingResult;
+    if (!result.success) {
+      throw result.error;
+    }
+    return result.data;
   }
 
   private buildSystemPrompt(): string {
@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Who AI calls made in the current async context are charged to
+ */
+export interface CostAttribution {
+  userId?: string;
+  /** Caller's IP address or session, for calls made without a signed-in user */
+  clientKey?: string;
+  appId?: string;
+  /** What the calls are for ('discovery', 'modify', ...) */
+  operation?: string;
+}
+
+const attributionStorage = new AsyncLocalStorage<CostAttribution>();
+
+/**
+ * Run `fn` with AI calls charged to `attribution`
+ * Nested calls add to (and override) the attribution around them.
+ */
+export function withCostAttribution<T>(attribution: CostAttribution, fn: () => T): T {
+  return attributionStorage.run({ ...getCostAttribution(), ...attribution }, fn);
+}
+
+/**
+ * Attribution of the current async context (empty outside `withCostAttribution`)
+ */
+export function getCostAttribution(): CostAttribution {
+  return attributionStorage.getStore() ?? {};
+}
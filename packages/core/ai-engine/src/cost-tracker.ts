@@ -1,3 +1,5 @@
+import type { CostAttribution } from './cost-attribution.js';
+
 /**
  * Cost tracking for AI API usage
  */
@@ -7,6 +9,54 @@ export interface CostEntry {
   tokensUsed: number;
   estimatedCost: number;
   timestamp: Date;
+  promptTokens?: number;
+  completionTokens?: number;
+  /** Who the call was made for (see `withCostAttribution`) */
+  userId?: string;
+  clientKey?: string;
+  appId?: string;
+  operation?: string;
+}
+
+/**
+ * Expected size of a call, checked against quotas before it is made
+ */
+export interface UsageEstimate {
+  tokens: number;
+  cost: number;
+}
+
+/**
+ * An AI call refused by a spending quota
+ * A 'hard' limit refuses the call outright; past a 'soft' limit paid
+ * providers are skipped and free fallbacks may still answer.
+ */
+export class CostLimitError extends Error {
+  constructor(
+    message: string,
+    public limit: 'soft' | 'hard',
+    public metric: 'tokens' | 'dollars',
+    /** Usage so far in the quota period */
+    public used: number,
+    public quota: number
+  ) {
+    super(message);
+    this.name = 'CostLimitError';
+  }
+}
+
+/**
+ * Per-user usage accounting for paid AI calls
+ */
+export interface UsageMeter {
+  /**
+   * Throw a CostLimitError when the call would go over the attributed user's quota
+   */
+  checkQuota(attribution: CostAttribution, estimate: UsageEstimate): Promise<void>;
+  /**
+   * Store a paid call's usage (unattributed calls included)
+   */
+  record(entry: CostEntry): Promise<void>;
 }
 
 export class CostTracker {
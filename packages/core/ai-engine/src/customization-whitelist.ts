@@ -3,6 +3,8 @@
  * Defines allowed operations for AI customization to ensure safety and Studio compatibility
  */
 
+import { z } from 'zod';
+
 /**
  * Entity operation types
  */
@@ -231,6 +233,48 @@ export interface CustomizationSpec {
   themeAdjustments?: ThemeAdjustment[];
 }
 
+/**
+ * Shape of the AI's customization spec
+ * Checks structure only: operations, triggers and types are strings here and
+ * are checked against the whitelist by `CustomizationWhitelist.filter`.
+ */
+export const CustomizationSpecSchema: z.ZodType<CustomizationSpec, z.ZodTypeDef, unknown> = z.object({
+  entityModifications: z.array(z.object({
+    entityId: z.string(),
+    operation: z.string(),
+    data: z.record(z.unknown()),
+  })).optional(),
+  addEntities: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    fields: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      type: z.string(),
+      required: z.boolean().optional(),
+      enumOptions: z.array(z.object({ value: z.string(), label: z.string() })).optional(),
+    })),
+  })).optional(),
+  pageCustomizations: z.array(z.object({
+    pageId: z.string(),
+    operation: z.string(),
+    data: z.record(z.unknown()),
+  })).optional(),
+  workflowAdditions: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    trigger: z.string(),
+    actions: z.array(z.object({
+      type: z.string(),
+      config: z.record(z.unknown()),
+    })),
+  })).optional(),
+  themeAdjustments: z.array(z.object({
+    customization: z.string(),
+    value: z.union([z.string(), z.number(), z.boolean()]),
+  })).optional(),
+});
+
 /**
  * Filtered customization spec (all invalid operations removed)
  */
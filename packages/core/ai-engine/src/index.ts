@@ -2,6 +2,7 @@ export * from './intent-processor.js';
 export * from './providers/index.js';
 export * from './providers/factory.js';
 export * from './cost-tracker.js';
+export * from './cost-attribution.js';
 
 // AI Pipeline Services
 export * from './ai-understanding-service.js';
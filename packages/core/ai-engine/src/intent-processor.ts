@@ -119,15 +119,8 @@ export class IntentProcessor {
             maxTokens: 1000,
             temperature: 0.3, // Lower = more deterministic
             timeout: 15000, // 15s timeout
-            schema: {
-              type: 'object',
-              properties: {
-                type: { type: 'string', enum: ['create_app', 'modify_app', 'add_feature', 'change_design', 'add_data', 'create_flow', 'add_integration'] },
-                input: { type: 'string' },
-                confidence: { type: 'number', minimum: 0, maximum: 1 },
-              },
-              required: ['type', 'input'],
-            },
+            // The AI only classifies; context is attached by the caller
+            schema: UserIntentSchema.omit({ context: true }),
           },
           undefined // No cost callback for intent processing
         ),
@@ -1,5 +1,7 @@
 import Anthropic from '@anthropic-ai/sdk';
-import type { AIProvider } from './types.js';
+import { AppSchemaSchema, type AppSchemaType } from '@neo/contracts';
+import { completeStructured } from './structured-output.js';
+import type { AICompletionParams, AICostCallback, AIProvider } from './types.js';
 
 export interface AnthropicProviderConfig {
   apiKey: string;
@@ -25,17 +27,7 @@ export class AnthropicProvider implements AIProvider {
     });
   }
 
-  async complete(
-    params: {
-      prompt: string;
-      maxTokens: number;
-      temperature: number;
-      timeout: number;
-      schema?: any;
-      systemPrompt?: string;
-    },
-    onCostCalculated?: (totalTokens: number, breakdown: { prompt: number; completion: number }) => void
-  ): Promise<unknown> {
+  async complete(params: AICompletionParams, onCostCalculated?: AICostCallback): Promise<unknown> {
     try {
       const system = params.systemPrompt || 'You are a helpful assistant.';
 
@@ -88,24 +80,74 @@ export class AnthropicProvider implements AIProvider {
 
       return text;
     } catch (error: any) {
-      // Check for authentication errors
-      if (error?.status === 401 || error?.message?.includes('API key') || error?.message?.includes('authentication') || error?.message?.includes('Invalid API key')) {
-        throw new Error('Invalid or missing API key. Please check your ANTHROPIC_API_KEY environment variable.');
-      }
-      // Check for rate limit errors
-      if (error?.status === 429 || error?.message?.includes('rate limit')) {
-        throw new Error('API rate limit exceeded. Please try again later.');
-      }
-      // Check for timeout
-      if (error instanceof Error && error.message.includes('timeout')) {
-        throw new Error('AI request timeout');
+      throw this.toProviderError(error);
+    }
+  }
+
+  async *stream(
+    params: AICompletionParams,
+    onCostCalculated?: AICostCallback
+  ): AsyncGenerator<string> {
+    let promptTokens = 0;
+    let completionTokens = 0;
+    try {
+      const events = await this.client.messages.create(
+        {
+          model: this.config.model,
+          max_tokens: params.maxTokens,
+          temperature: params.temperature,
+          system: params.systemPrompt || 'You are a helpful assistant.',
+          messages: [
+            {
+              role: 'user',
+              content: params.prompt,
+            },
+          ],
+          stream: true,
+        },
+        { timeout: params.timeout }
+      );
+
+      for await (const event of events) {
+        if (event.type === 'message_start') {
+          promptTokens = event.message.usage.input_tokens;
+        } else if (event.type === 'message_delta') {
+          completionTokens = event.usage.output_tokens;
+        } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          yield event.delta.text;
+        }
       }
-      // Generic error
-      throw new Error(`Anthropic API error: ${error?.message || 'Unknown error'}`);
+    } catch (error: any) {
+      throw this.toProviderError(error);
     }
+
+    onCostCalculated?.(promptTokens + completionTokens, {
+      prompt: promptTokens,
+      completion: completionTokens,
+    });
   }
 
-  async generateAppSchema(userInput: string, category: string, context?: Record<string, unknown>): Promise<any> {
+  /**
+   * Map SDK failures to the messages callers (and the API routes) check for
+   */
+  private toProviderError(error: any): Error {
+    // Check for authentication errors
+    if (error?.status === 401 || error?.message?.includes('API key') || error?.message?.includes('authentication') || error?.message?.includes('Invalid API key')) {
+      return new Error('Invalid or missing API key. Please check your ANTHROPIC_API_KEY environment variable.');
+    }
+    // Check for rate limit errors
+    if (error?.status === 429 || error?.message?.includes('rate limit')) {
+      return new Error('API rate limit exceeded. Please try again later.');
+    }
+    // Check for timeout (our own race, or the SDK's "Request timed out.")
+    if (error instanceof Error && (error.message.includes('timeout') || error.message.includes('timed out'))) {
+      return new Error('AI request timeout');
+    }
+    // Generic error
+    return new Error(`Anthropic API error: ${error?.message || 'Unknown error'}`);
+  }
+
+  async generateAppSchema(userInput: string, category: string, context?: Record<string, unknown>): Promise<AppSchemaType> {
     const systemPrompt = `You are an expert app designer and developer. Generate complete, production-ready app schemas as JSON.
 
 Return ONLY valid JSON matching this structure:
@@ -244,16 +286,18 @@ ${context ? `Context: ${JSON.stringify(context, null, 2)}` : ''}
 
 Generate the complete app schema as JSON only:`;
 
-    const response = await this.complete({
+    const result = await completeStructured(this, {
       prompt: userPrompt,
       systemPrompt,
       maxTokens: 4000,
       temperature: 0.7,
       timeout: 60000,
-      schema: true,
-    });
+    }, AppSchemaSchema, { maxRepairs: 1 });
 
-    return typeof response === 'object' ? response : JSON.parse(String(response));
+    if (!result.success) {
+      throw result.error;
+    }
+    return result.data;
   }
 
   async generateAppName(userInput: string, category: string): Promise<string> {
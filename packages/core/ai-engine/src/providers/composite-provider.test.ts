@@ -0,0 +1,190 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { withCostAttribution, type CostAttribution } from '../cost-attribution.js';
+import { CostLimitError, CostTracker, type CostEntry, type UsageMeter } from '../cost-tracker.js';
+import { CircuitBreaker, CompositeAIProvider, type FallbackProvider } from './composite-provider.js';
+import { DiskResponseCache, MemoryResponseCache, responseCacheKey } from './response-cache.js';
+import type { AIProvider } from './types.js';
+
+const params = { prompt: 'Name my bakery app', maxTokens: 1000, temperature: 0, timeout: 1000 };
+
+/** Provider answering with the given results in turn (Errors are thrown) */
+function scripted(...results: Array<string | Error>): AIProvider & { calls: number } {
+  const provider = {
+    calls: 0,
+    async complete(_params: unknown, onCost?: (total: number, breakdown: { prompt: number; completion: number }) => void) {
+      const result = results[Math.min(provider.calls++, results.length - 1)];
+      if (result instanceof Error) throw result;
+      onCost?.(1_000_000, { prompt: 500_000, completion: 500_000 });
+      return result;
+    },
+  };
+  return provider;
+}
+
+function composite(providers: FallbackProvider[], options: Partial<ConstructorParameters<typeof CompositeAIProvider>[0]> = {}) {
+  const delays: number[] = [];
+  const provider = new CompositeAIProvider({
+    providers,
+    sleep: async (ms) => { delays.push(ms); },
+    ...options,
+  });
+  return { provider, delays };
+}
+
+describe('CompositeAIProvider', () => {
+  it('retries with exponential backoff, then falls back to the next provider', async () => {
+    const openai = scripted(new Error('API rate limit exceeded. Please try again later.'));
+    const anthropic = scripted('Crumb');
+    const { provider, delays } = composite(
+      [{ name: 'openai', provider: openai }, { name: 'anthropic', provider: anthropic }],
+      { retries: 2, backoffMs: 100 }
+    );
+
+    expect(await provider.complete(params)).toBe('Crumb');
+    expect(openai.calls).toBe(3);
+    expect(delays).toEqual([100, 200]);
+
+    // Errors a retry cannot fix move on at once
+    const badKey = scripted(new Error('Invalid or missing API key.'));
+    const { provider: second } = composite([{ name: 'openai', provider: badKey }, { name: 'mock', provider: scripted('Mock') }]);
+    expect(await second.complete(params)).toBe('Mock');
+    expect(badKey.calls).toBe(1);
+
+    const { provider: none } = composite([{ name: 'openai', provider: scripted(new Error('AI request timeout')) }], { retries: 0 });
+    await expect(none.complete(params)).rejects.toThrow('AI request timeout');
+  });
+
+  it('skips a provider while its circuit is open and tries it again after the reset time', async () => {
+    let now = 0;
+    const openai = scripted(new Error('down'), new Error('down'), 'Back');
+    const { provider } = composite(
+      [{ name: 'openai', provider: openai }, { name: 'mock', provider: scripted('Mock') }],
+      { retries: 0, circuitBreaker: { failureThreshold: 2, resetMs: 1000 }, now: () => now }
+    );
+
+    await provider.complete(params);
+    await provider.complete(params);
+    expect(provider.circuitStates()).toEqual({ openai: 'open', mock: 'closed' });
+    expect(await provider.complete(params)).toBe('Mock');
+    expect(openai.calls).toBe(2);
+
+    now = 1000;
+    expect(provider.circuitStates().openai).toBe('half-open');
+    expect(await provider.complete(params)).toBe('Back');
+    expect(provider.circuitStates().openai).toBe('closed');
+
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetMs: 10 }, () => now);
+    breaker.recordFailure();
+    now += 10;
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false); // one trial call at a time
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+  });
+
+  it('records costs on the budget, skips paid providers over it, and serves cache hits for free', async () => {
+    const tracker = new CostTracker(1.5);
+    const openai = scripted('Crumb');
+    const mock = scripted('Mock');
+    const costs: number[] = [];
+    const { provider } = composite(
+      [
+        { name: 'openai', model: 'gpt-4o-mini', provider: openai, pricing: (p, c) => tracker.calculateOpenAICost('gpt-4o', p, c) },
+        { name: 'mock', provider: mock, cacheable: false },
+      ],
+      { cache: new MemoryResponseCache(), costTracker: tracker }
+    );
+
+    expect(await provider.complete(params, total => costs.push(total))).toBe('Crumb');
+    expect(tracker.getTodaySpending()).toBeCloseTo(6.25);
+    expect(costs).toEqual([1_000_000]);
+
+    // Same request: from the cache, though the budget is spent
+    expect(await provider.complete({ ...params, temperature: 0.9 }, total => costs.push(total))).toBe('Crumb');
+    expect(openai.calls).toBe(1);
+    expect(costs).toEqual([1_000_000]);
+    expect(tracker.getSummary().entryCount).toBe(1);
+
+    // New request: the paid provider is over budget, the mock answers and is not cached
+    const other = { ...params, prompt: 'Name my florist app' };
+    expect(await provider.complete(other)).toBe('Mock');
+    expect(await provider.complete(other)).toBe('Mock');
+    expect(openai.calls).toBe(1);
+    expect(mock.calls).toBe(2);
+
+    const tokens: string[] = [];
+    for await (const token of provider.stream!(params)) tokens.push(token);
+    expect(tokens).toEqual(['Crumb']);
+  });
+
+  it('charges calls to the attributed user and enforces their quota', async () => {
+    const recorded: CostEntry[] = [];
+    const limits: Record<string, 'soft' | 'hard'> = {};
+    const meter: UsageMeter = {
+      async checkQuota(attribution: CostAttribution) {
+        const limit = attribution.userId && limits[attribution.userId];
+        if (limit) throw new CostLimitError('Monthly AI token quota reached', limit, 'tokens', 210_000, 200_000);
+      },
+      async record(entry) {
+        recorded.push(entry);
+      },
+    };
+    const openai = scripted('Crumb');
+    const mock = scripted('Mock');
+    const { provider } = composite(
+      [
+        { name: 'openai', model: 'gpt-4o-mini', provider: openai, pricing: () => 0.5 },
+        { name: 'mock', provider: mock },
+      ],
+      { usageMeter: meter }
+    );
+
+    const answer = await withCostAttribution({ userId: 'u1' }, () =>
+      withCostAttribution({ appId: 'app-1', operation: 'modify' }, () => provider.complete(params))
+    );
+    expect(answer).toBe('Crumb');
+    expect(recorded).toEqual([expect.objectContaining({
+      provider: 'openai',
+      userId: 'u1',
+      appId: 'app-1',
+      operation: 'modify',
+      promptTokens: 500_000,
+      completionTokens: 500_000,
+      estimatedCost: 0.5,
+    })]);
+
+    // Past a soft limit the free fallback answers; past a hard one nothing is called
+    limits.u1 = 'soft';
+    expect(await withCostAttribution({ userId: 'u1' }, () => provider.complete(params))).toBe('Mock');
+    limits.u1 = 'hard';
+    const refused = withCostAttribution({ userId: 'u1' }, () => provider.complete(params));
+    await expect(refused).rejects.toBeInstanceOf(CostLimitError);
+    await expect(refused).rejects.toMatchObject({ name: 'CostLimitError', limit: 'hard', metric: 'tokens' });
+    expect(openai.calls).toBe(1);
+    expect(mock.calls).toBe(1);
+    expect(recorded).toHaveLength(1);
+  });
+});
+
+describe('DiskResponseCache', () => {
+  it('keeps responses by prompt, system prompt and schema until they expire', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'ai-cache-'));
+    try {
+      const key = responseCacheKey({ prompt: 'p', systemPrompt: 's', schema: z.object({ name: z.string() }) });
+      expect(key).not.toBe(responseCacheKey({ prompt: 'p', systemPrompt: 's' }));
+      expect(key).not.toBe(responseCacheKey({ prompt: 'p', systemPrompt: 's', schema: z.object({ title: z.string() }) }));
+      expect(key).toBe(responseCacheKey({ prompt: 'p', systemPrompt: 's', schema: z.object({ name: z.string() }) }));
+
+      await new DiskResponseCache({ directory }).set(key, { name: 'Crumb' });
+      expect(await new DiskResponseCache({ directory }).get(key)).toEqual({ name: 'Crumb' });
+      expect(await new DiskResponseCache({ directory, ttlMs: -1 }).get(key)).toBeUndefined();
+      expect(await new DiskResponseCache({ directory }).get(key)).toBeUndefined();
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,396 @@
+import { getCostAttribution, type CostAttribution } from '../cost-attribution.js';
+import { CostLimitError, type CostTracker, type UsageMeter } from '../cost-tracker.js';
+import { responseCacheKey, type ResponseCache } from './response-cache.js';
+import { parseCompletionText } from './streaming.js';
+import type { AICompletionParams, AICostCallback, AIProvider } from './types.js';
+
+/**
+ * A provider in the fallback chain
+ */
+export interface FallbackProvider {
+  /** Name for logs and cost entries ('openai', 'anthropic', 'mock') */
+  name: string;
+  provider: AIProvider;
+  model?: string;
+  /** Cost in dollars of a call's tokens (omit for free providers, which skip the budget check) */
+  pricing?: (promptTokens: number, completionTokens: number) => number;
+  /** Whether responses may be cached (false for stand-ins like the mock provider) */
+  cacheable?: boolean;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default 5) */
+  failureThreshold?: number;
+  /** How long an open circuit rejects calls before letting one trial call through (default 30s) */
+  resetMs?: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Per-provider circuit breaker
+ * After `failureThreshold` consecutive failures the provider is skipped for
+ * `resetMs`; then a single trial call decides whether it is back.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private failureThreshold: number;
+  private resetMs: number;
+
+  constructor(options: CircuitBreakerOptions = {}, private now: () => number = Date.now) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetMs = options.resetMs ?? 30000;
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return this.now() - this.openedAt < this.resetMs ? 'open' : 'half-open';
+  }
+
+  /**
+   * Whether a call may go ahead (claims the trial call of a half-open circuit)
+   */
+  canRequest(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'open' || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures += 1;
+    // A failed trial call reopens the circuit straight away
+    if (this.openedAt !== null || this.failures >= this.failureThreshold) {
+      this.openedAt = this.now();
+    }
+    this.trialInFlight = false;
+  }
+}
+
+export interface CompositeAIProviderOptions {
+  /** Providers in the order they are tried */
+  providers: FallbackProvider[];
+  /** Retries of a provider after its first attempt, before moving on (default 2) */
+  retries?: number;
+  /** Delay before the first retry, doubled for each one after (default 500ms) */
+  backoffMs?: number;
+  maxBackoffMs?: number;
+  circuitBreaker?: CircuitBreakerOptions;
+  cache?: ResponseCache;
+  /** Daily budget checked before paid calls; their usage is recorded on it */
+  costTracker?: CostTracker;
+  /** Per-user quotas checked before paid calls; their usage is recorded on it with its attribution */
+  usageMeter?: UsageMeter;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Errors that another attempt will not fix
+ */
+function isRetryable(error: Error): boolean {
+  return !/API key|authentication|budget/i.test(error.message);
+}
+
+async function* completionAsStream(
+  provider: AIProvider,
+  params: AICompletionParams,
+  onCostCalculated: AICostCallback
+): AsyncGenerator<string> {
+  const result = await provider.complete(params, onCostCalculated);
+  yield typeof result === 'string' ? result : JSON.stringify(result);
+}
+
+/**
+ * AI provider that tries an ordered list of providers
+ *
+ * Each provider is retried with exponential backoff, then the next one is
+ * tried. Providers whose circuit is open are skipped, as are paid providers
+ * once the daily budget would be exceeded. Calls are charged to the
+ * attribution of the async context they are made in (`withCostAttribution`):
+ * past a hard quota they are refused with a CostLimitError, past a soft one
+ * paid providers are skipped. Responses are cached by content: a cache hit
+ * makes no call and costs nothing.
+ */
+export class CompositeAIProvider implements AIProvider {
+  private providers: FallbackProvider[];
+  private breakers = new Map<string, CircuitBreaker>();
+  private retries: number;
+  private backoffMs: number;
+  private maxBackoffMs: number;
+  private cache?: ResponseCache;
+  private costTracker?: CostTracker;
+  private usageMeter?: UsageMeter;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(options: CompositeAIProviderOptions) {
+    this.providers = options.providers;
+    this.retries = options.retries ?? 2;
+    this.backoffMs = options.backoffMs ?? 500;
+    this.maxBackoffMs = options.maxBackoffMs ?? 8000;
+    this.cache = options.cache;
+    this.costTracker = options.costTracker;
+    this.usageMeter = options.usageMeter;
+    this.sleep = options.sleep ?? sleep;
+    for (const entry of this.providers) {
+      this.breakers.set(entry.name, new CircuitBreaker(options.circuitBreaker, options.now));
+    }
+  }
+
+  /**
+   * Circuit state of each provider, by name
+   */
+  circuitStates(): Record<string, CircuitState> {
+    return Object.fromEntries(this.providers.map(entry => [entry.name, this.breakers.get(entry.name)!.state]));
+  }
+
+  async complete(
+    params: AICompletionParams,
+    onCostCalculated?: AICostCallback
+  ): Promise<unknown> {
+    const key = this.cache ? responseCacheKey(params) : undefined;
+    const cached = key ? await this.readCache(key) : undefined;
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const attribution = getCostAttribution();
+    const { value, entry } = await this.attempt(this.providers, params, attribution, (entry) =>
+      entry.provider.complete(params, this.costCallback(entry, attribution, onCostCalculated))
+    );
+    if (key && entry.cacheable !== false) {
+      await this.writeCache(key, value);
+    }
+    return value;
+  }
+
+  /**
+   * Stream from the first provider that starts answering
+   * Falling back is only possible until the first token has been sent.
+   */
+  async *stream(
+    params: AICompletionParams,
+    onCostCalculated?: AICostCallback
+  ): AsyncGenerator<string> {
+    const key = this.cache ? responseCacheKey(params) : undefined;
+    const cached = key ? await this.readCache(key) : undefined;
+    if (cached !== undefined) {
+      yield typeof cached === 'string' ? cached : JSON.stringify(cached);
+      return;
+    }
+
+    const attribution = getCostAttribution();
+    const { value: opened, entry } = await this.attempt(this.providers, params, attribution, async (entry) => {
+      const onCost = this.costCallback(entry, attribution, onCostCalculated);
+      const source = entry.provider.stream
+        ? entry.provider.stream(params, onCost)
+        : completionAsStream(entry.provider, params, onCost);
+      const iterator = source[Symbol.asyncIterator]();
+      return { iterator, first: await iterator.next() };
+    });
+
+    let text = '';
+    let next = opened.first;
+    try {
+      while (!next.done) {
+        text += next.value;
+        yield next.value;
+        next = await opened.iterator.next();
+      }
+    } catch (error) {
+      this.breakers.get(entry.name)!.recordFailure();
+      throw error;
+    } finally {
+      // Stop the provider's stream when the reader gave up early
+      if (!next.done) await opened.iterator.return?.();
+    }
+
+    if (key && entry.cacheable !== false) {
+      await this.writeCache(key, parseCompletionText(text, params.schema));
+    }
+  }
+
+  async generateAppSchema(userInput: string, category: string, context?: Record<string, unknown>): Promise<any> {
+    const candidates = this.providers.filter(entry => entry.provider.generateAppSchema);
+    const { value } = await this.attempt(candidates, null, getCostAttribution(), (entry) =>
+      entry.provider.generateAppSchema!(userInput, category, context)
+    );
+    return value;
+  }
+
+  async generateAppName(userInput: string, category: string): Promise<string> {
+    const candidates = this.providers.filter(entry => entry.provider.generateAppName);
+    const { value } = await this.attempt(candidates, null, getCostAttribution(), (entry) =>
+      entry.provider.generateAppName!(userInput, category)
+    );
+    return value;
+  }
+
+  async generateDescription(userInput: string): Promise<string> {
+    const candidates = this.providers.filter(entry => entry.provider.generateDescription);
+    const { value } = await this.attempt(candidates, null, getCostAttribution(), (entry) =>
+      entry.provider.generateDescription!(userInput)
+    );
+    return value;
+  }
+
+  /**
+   * Run `call` against each candidate in turn until one succeeds
+   * Throws the last failure when none does, and a hard quota's CostLimitError
+   * before any paid call.
+   */
+  private async attempt<T>(
+    candidates: FallbackProvider[],
+    params: AICompletionParams | null,
+    attribution: CostAttribution,
+    call: (entry: FallbackProvider) => Promise<T>
+  ): Promise<{ value: T; entry: FallbackProvider }> {
+    let lastError: Error | undefined;
+    let skipped: Error | undefined;
+    let quotaChecked = false;
+    let softLimit: CostLimitError | undefined;
+
+    for (const entry of candidates) {
+      if (this.exceedsBudget(entry, params)) {
+        skipped ??= new Error('AI daily budget exceeded');
+        continue;
+      }
+
+      // The quota is checked once, against the first paid provider's estimate
+      if (entry.pricing && this.usageMeter && !quotaChecked) {
+        quotaChecked = true;
+        softLimit = await this.checkQuota(entry, params, attribution);
+      }
+      if (entry.pricing && softLimit) {
+        skipped ??= softLimit;
+        continue;
+      }
+
+      const breaker = this.breakers.get(entry.name)!;
+      for (let attempt = 0; attempt <= this.retries; attempt++) {
+        if (!breaker.canRequest()) {
+          skipped ??= new Error(`AI provider ${entry.name} is unavailable`);
+          break;
+        }
+        try {
+          const value = await call(entry);
+          breaker.recordSuccess();
+          return { value, entry };
+        } catch (error: any) {
+          breaker.recordFailure();
+          lastError = error instanceof Error ? error : new Error(String(error));
+          if (!isRetryable(lastError) || attempt === this.retries) {
+            console.warn(`AI provider ${entry.name} failed: ${lastError.message}`);
+            break;
+          }
+          await this.sleep(Math.min(this.backoffMs * 2 ** attempt, this.maxBackoffMs));
+        }
+      }
+    }
+
+    throw lastError ?? skipped ?? new Error('No AI provider available');
+  }
+
+  /**
+   * Estimated tokens of a call: its prompt (about 4 characters a token) plus its token limit
+   */
+  private estimateTokens(params: AICompletionParams | null): { prompt: number; completion: number } {
+    if (!params) return { prompt: 0, completion: 0 };
+    return {
+      prompt: Math.ceil((params.prompt.length + (params.systemPrompt?.length ?? 0)) / 4),
+      completion: params.maxTokens,
+    };
+  }
+
+  /**
+   * Whether a paid provider's call (estimated at its token limit) would go over the daily budget
+   */
+  private exceedsBudget(entry: FallbackProvider, params: AICompletionParams | null): boolean {
+    if (!this.costTracker || !entry.pricing) return false;
+    const tokens = this.estimateTokens(params);
+    const estimate = params ? entry.pricing(tokens.prompt, tokens.completion) : 0;
+    return this.costTracker.wouldExceedBudget(estimate);
+  }
+
+  /**
+   * Check the attributed user's quota for a paid call
+   * Throws for a hard limit and returns the error for a soft one. The meter
+   * failing lets the call through: quotas should not take AI down with them.
+   */
+  private async checkQuota(
+    entry: FallbackProvider,
+    params: AICompletionParams | null,
+    attribution: CostAttribution
+  ): Promise<CostLimitError | undefined> {
+    const tokens = this.estimateTokens(params);
+    try {
+      await this.usageMeter!.checkQuota(attribution, {
+        tokens: tokens.prompt + tokens.completion,
+        cost: entry.pricing!(tokens.prompt, tokens.completion),
+      });
+      return undefined;
+    } catch (error: any) {
+      if (error instanceof CostLimitError) {
+        if (error.limit === 'hard') throw error;
+        return error;
+      }
+      console.warn(`AI usage quota check failed: ${error?.message}`);
+      return undefined;
+    }
+  }
+
+  private costCallback(
+    entry: FallbackProvider,
+    attribution: CostAttribution,
+    onCostCalculated?: AICostCallback
+  ): AICostCallback {
+    return (totalTokens, breakdown) => {
+      if (entry.pricing && (this.costTracker || this.usageMeter)) {
+        const cost = {
+          provider: entry.name,
+          model: entry.model ?? entry.name,
+          tokensUsed: totalTokens,
+          estimatedCost: entry.pricing(breakdown.prompt, breakdown.completion),
+          timestamp: new Date(),
+          promptTokens: breakdown.prompt,
+          completionTokens: breakdown.completion,
+          ...attribution,
+        };
+        this.costTracker?.recordCost(cost);
+        this.usageMeter?.record(cost).catch((error: any) => {
+          console.warn(`AI usage could not be recorded: ${error?.message}`);
+        });
+      }
+      onCostCalculated?.(totalTokens, breakdown);
+    };
+  }
+
+  private async readCache(key: string): Promise<unknown | undefined> {
+    try {
+      return await this.cache!.get(key);
+    } catch (error: any) {
+      console.warn(`AI response cache read failed: ${error?.message}`);
+      return undefined;
+    }
+  }
+
+  private async writeCache(key: string, value: unknown): Promise<void> {
+    if (value === undefined || value === null) return;
+    try {
+      await this.cache!.set(key, value);
+    } catch (error: any) {
+      console.warn(`AI response cache write failed: ${error?.message}`);
+    }
+  }
+}
@@ -2,6 +2,9 @@ import type { AIProvider, AIProviderConfig, AIProviderType } from './types.js';
 import { OpenAIProvider } from './openai-provider.js';
 import { AnthropicProvider } from './anthropic-provider.js';
 import { MockAIProvider } from './mock-provider.js';
+import { CompositeAIProvider, type FallbackProvider } from './composite-provider.js';
+import { DiskResponseCache, MemoryResponseCache, type ResponseCache } from './response-cache.js';
+import { CostTracker, type UsageMeter } from '../cost-tracker.js';
 
 export function createAIProvider(config: AIProviderConfig): AIProvider {
   switch (config.type) {
@@ -30,62 +33,112 @@ export function createAIProvider(config: AIProviderConfig): AIProvider {
   }
 }
 
-export function createAIProviderFromEnv(): AIProvider {
-  const explicitProvider = process.env.AI_PROVIDER as AIProviderType | undefined;
-  const openaiKey = process.env.OPENAI_API_KEY;
+export interface AIProviderFromEnvOptions {
+  /** Budget to check and record usage on (default: AI_DAILY_BUDGET dollars, 100) */
+  costTracker?: CostTracker;
+  /** Per-user quotas and usage records for paid calls */
+  usageMeter?: UsageMeter;
+}
 
-  // If explicit provider specified, use that
-  if (explicitProvider === 'openai' && process.env.OPENAI_API_KEY) {
-    return createAIProvider({
-      type: 'openai',
-      openai: {
-        apiKey: process.env.OPENAI_API_KEY,
-        model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
-        baseURL: process.env.OPENAI_BASE_URL,
-      },
-    });
-  }
+function envNumber(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : undefined;
+}
 
-  if (explicitProvider === 'anthropic' && process.env.ANTHROPIC_API_KEY) {
-    return createAIProvider({
-      type: 'anthropic',
-      anthropic: {
-        apiKey: process.env.ANTHROPIC_API_KEY,
-        model: process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022',
-      },
-    });
+/**
+ * Response cache chosen by AI_CACHE: 'memory' (default), 'disk' (AI_CACHE_DIR) or 'off'
+ */
+function createResponseCacheFromEnv(): ResponseCache | undefined {
+  const ttlSeconds = envNumber('AI_CACHE_TTL_SECONDS') ?? 24 * 60 * 60;
+  switch (process.env.AI_CACHE || 'memory') {
+    case 'off':
+      return undefined;
+    case 'disk':
+      return new DiskResponseCache({
+        directory: process.env.AI_CACHE_DIR || '.cache/ai-responses',
+        ttlMs: ttlSeconds * 1000,
+      });
+    default:
+      return new MemoryResponseCache({ ttlMs: ttlSeconds * 1000 });
   }
+}
 
-  // Auto-detect from API keys if no explicit provider
-  if (!explicitProvider || explicitProvider === 'mock') {
-    // Check OpenAI key first
-    if (process.env.OPENAI_API_KEY) {
-      console.log('🤖 Auto-detected OpenAI API key, using OpenAI provider');
-      return createAIProvider({
+/**
+ * Provider built from environment variables
+ *
+ * Every provider with an API key is used, AI_PROVIDER's first, and the mock
+ * provider is the last resort. Calls are retried (AI_RETRIES), failing
+ * providers are skipped for a while (AI_CIRCUIT_FAILURES, AI_CIRCUIT_RESET_MS)
+ * and responses are cached (AI_CACHE).
+ */
+export function createAIProviderFromEnv(options: AIProviderFromEnvOptions = {}): AIProvider {
+  const explicitProvider = process.env.AI_PROVIDER as AIProviderType | undefined;
+  const costTracker = options.costTracker ?? new CostTracker(envNumber('AI_DAILY_BUDGET'));
+  const chain: FallbackProvider[] = [];
+
+  const addOpenAI = () => {
+    if (!process.env.OPENAI_API_KEY) return;
+    const model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+    chain.push({
+      name: 'openai',
+      model,
+      provider: createAIProvider({
         type: 'openai',
         openai: {
           apiKey: process.env.OPENAI_API_KEY,
-          model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+          model,
           baseURL: process.env.OPENAI_BASE_URL,
         },
-      });
-    }
-    
-    // Check Anthropic key
-    if (process.env.ANTHROPIC_API_KEY) {
-      console.log('🤖 Auto-detected Anthropic API key, using Anthropic provider');
-      return createAIProvider({
+      }),
+      pricing: (prompt, completion) => costTracker.calculateOpenAICost(model, prompt, completion),
+    });
+  };
+
+  const addAnthropic = () => {
+    if (!process.env.ANTHROPIC_API_KEY) return;
+    const model = process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022';
+    chain.push({
+      name: 'anthropic',
+      model,
+      provider: createAIProvider({
         type: 'anthropic',
         anthropic: {
           apiKey: process.env.ANTHROPIC_API_KEY,
-          model: process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022',
+          model,
         },
-      });
-    }
+      }),
+      pricing: (prompt, completion) => costTracker.calculateAnthropicCost(model, prompt, completion),
+    });
+  };
+
+  // The explicitly chosen provider first, OpenAI before Anthropic otherwise
+  if (explicitProvider === 'anthropic') {
+    addAnthropic();
+    addOpenAI();
+  } else {
+    addOpenAI();
+    addAnthropic();
+  }
+
+  const mock = createAIProvider({ type: 'mock' });
+  if (chain.length === 0) {
+    return mock;
   }
+  console.log(`🤖 AI providers: ${chain.map(entry => entry.name).join(' → ')} → mock`);
+  chain.push({ name: 'mock', provider: mock, cacheable: false });
 
-  // Fallback to mock
-  return createAIProvider({ type: 'mock' });
+  return new CompositeAIProvider({
+    providers: chain,
+    retries: envNumber('AI_RETRIES'),
+    backoffMs: envNumber('AI_BACKOFF_MS'),
+    circuitBreaker: {
+      failureThreshold: envNumber('AI_CIRCUIT_FAILURES'),
+      resetMs: envNumber('AI_CIRCUIT_RESET_MS'),
+    },
+    cache: createResponseCacheFromEnv(),
+    costTracker,
+    usageMeter: options.usageMeter,
+  });
 }
 
 /**
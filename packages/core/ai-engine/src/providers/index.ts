@@ -2,3 +2,8 @@ export * from './openai-provider.js';
 export * from './anthropic-provider.js';
 export * from './mock-provider.js';
 export * from './types.js';
+export * from './streaming.js';
+export * from './composite-provider.js';
+export * from './response-cache.js';
+export * from './structured-output.js';
+export * from './json-schema.js';
@@ -0,0 +1,130 @@
+import type { ZodTypeAny } from 'zod';
+
+/**
+ * A JSON Schema document (the subset `zodToJsonSchema` produces)
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Whether a value is a Zod schema (as opposed to `true` or a plain object)
+ */
+export function isZodSchema(value: unknown): value is ZodTypeAny {
+  return typeof value === 'object'
+    && value !== null
+    && typeof (value as ZodTypeAny).safeParse === 'function'
+    && typeof (value as ZodTypeAny)._def?.typeName === 'string';
+}
+
+/**
+ * Describe a Zod schema as JSON Schema, for providers that constrain output to one
+ *
+ * Covers the types AI output schemas use. Refinements and transforms are not
+ * expressible and are left to validation; recursive (lazy) schemas are cut off
+ * with `{}` after their first level. Anything unknown also becomes `{}`.
+ */
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  return convert(schema, new Set());
+}
+
+function convert(schema: ZodTypeAny, seen: Set<ZodTypeAny>): JsonSchema {
+  const def = schema._def;
+  const described = (json: JsonSchema): JsonSchema =>
+    def.description ? { ...json, description: def.description } : json;
+
+  switch (def.typeName) {
+    case 'ZodString': {
+      const json: JsonSchema = { type: 'string' };
+      for (const check of def.checks) {
+        if (check.kind === 'min') json.minLength = check.value;
+        else if (check.kind === 'max') json.maxLength = check.value;
+        else if (check.kind === 'length') json.minLength = json.maxLength = check.value;
+        else if (check.kind === 'email' || check.kind === 'url' || check.kind === 'uuid') json.format = check.kind === 'url' ? 'uri' : check.kind;
+        else if (check.kind === 'datetime') json.format = 'date-time';
+        else if (check.kind === 'regex') json.pattern = check.regex.source;
+      }
+      return described(json);
+    }
+    case 'ZodNumber': {
+      const json: JsonSchema = { type: 'number' };
+      for (const check of def.checks) {
+        if (check.kind === 'int') json.type = 'integer';
+        else if (check.kind === 'min') json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        else if (check.kind === 'max') json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+      return described(json);
+    }
+    case 'ZodBoolean':
+      return described({ type: 'boolean' });
+    case 'ZodDate':
+      return described({ type: 'string', format: 'date-time' });
+    case 'ZodNull':
+      return described({ type: 'null' });
+    case 'ZodLiteral':
+      return described({ const: def.value });
+    case 'ZodEnum':
+      return described({ type: 'string', enum: [...def.values] });
+    case 'ZodNativeEnum': {
+      // Numeric enums map values back to their names; keep only the values
+      const values = Object.entries(def.values as Record<string, string | number>)
+        .filter(([key]) => typeof def.values[def.values[key]] !== 'number')
+        .map(([, value]) => value);
+      return described({ enum: values });
+    }
+    case 'ZodArray': {
+      const json: JsonSchema = { type: 'array', items: convert(def.type, seen) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      if (def.exactLength) json.minItems = json.maxItems = def.exactLength.value;
+      return described(json);
+    }
+    case 'ZodObject': {
+      const shape: Record<string, ZodTypeAny> = def.shape();
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = convert(value, seen);
+        if (!value.isOptional()) {
+          required.push(key);
+        }
+      }
+      const json: JsonSchema = { type: 'object', properties };
+      if (required.length > 0) json.required = required;
+      if (def.unknownKeys === 'strict') json.additionalProperties = false;
+      return described(json);
+    }
+    case 'ZodRecord':
+      return described({ type: 'object', additionalProperties: convert(def.valueType, seen) });
+    case 'ZodOptional':
+      return convert(def.innerType, seen);
+    case 'ZodNullable':
+      return described({ anyOf: [convert(def.innerType, seen), { type: 'null' }] });
+    case 'ZodDefault':
+      return { ...convert(def.innerType, seen), default: def.defaultValue() };
+    case 'ZodCatch':
+    case 'ZodReadonly':
+    case 'ZodBranded':
+      return convert(def.innerType ?? def.type, seen);
+    case 'ZodEffects':
+      return convert(def.schema, seen);
+    case 'ZodPipeline':
+      return convert(def.in, seen);
+    case 'ZodLazy': {
+      if (seen.has(schema)) {
+        return {};
+      }
+      seen.add(schema);
+      const json = convert(def.getter(), seen);
+      seen.delete(schema);
+      return json;
+    }
+    case 'ZodUnion':
+    case 'ZodDiscriminatedUnion':
+      return described({ anyOf: [...def.options].map((option: ZodTypeAny) => convert(option, seen)) });
+    case 'ZodIntersection':
+      return described({ allOf: [convert(def.left, seen), convert(def.right, seen)] });
+    case 'ZodTuple':
+      return described({ type: 'array', items: def.items.map((item: ZodTypeAny) => convert(item, seen)) });
+    default:
+      return described({});
+  }
+}
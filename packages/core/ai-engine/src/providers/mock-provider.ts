@@ -1,21 +1,11 @@
-import type { AIProvider } from './types.js';
+import type { AICompletionParams, AICostCallback, AIProvider } from './types.js';
 
 /**
  * Mock AI provider for development and testing
  * Falls back to keyword-based classification
  */
 export class MockAIProvider implements AIProvider {
-  async complete(
-    params: {
-      prompt: string;
-      maxTokens: number;
-      temperature: number;
-      timeout: number;
-      schema?: any;
-      systemPrompt?: string;
-    },
-    onCostCalculated?: (totalTokens: number, breakdown: { prompt: number; completion: number }) => void
-  ): Promise<unknown> {
+  async complete(params: AICompletionParams, onCostCalculated?: AICostCallback): Promise<unknown> {
     // Simulate network delay
     await new Promise((resolve) => setTimeout(resolve, 500));
 
@@ -32,6 +22,18 @@ export class MockAIProvider implements AIProvider {
     };
   }
 
+  /**
+   * Simulated streaming: the completion, sent a word at a time
+   */
+  async *stream(params: AICompletionParams): AsyncGenerator<string> {
+    const result = await this.complete(params);
+    const text = typeof result === 'string' ? result : JSON.stringify(result);
+    for (const token of text.match(/\S+\s*|\s+/g) ?? []) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      yield token;
+    }
+  }
+
   async generateAppSchema(userInput: string, category: string): Promise<any> {
     // Mock provider doesn't generate schemas - let the generator handle it
     // Return null to trigger fallback to enhanced generateBasicSchema
@@ -1,5 +1,8 @@
 import OpenAI from 'openai';
-import type { AIProvider } from './types.js';
+import { AppSchemaSchema, type AppSchemaType } from '@neo/contracts';
+import { isZodSchema, zodToJsonSchema, type JsonSchema } from './json-schema.js';
+import { completeStructured } from './structured-output.js';
+import type { AICompletionParams, AICostCallback, AIProvider } from './types.js';
 
 export interface OpenAIProviderConfig {
   apiKey: string;
@@ -9,6 +12,16 @@ export interface OpenAIProviderConfig {
   timeout?: number;
 }
 
+/**
+ * Structured Outputs response format (newer than this SDK version's typings)
+ */
+type JsonSchemaResponseFormat = {
+  type: 'json_schema';
+  json_schema: { name: string; schema: JsonSchema; strict: boolean };
+};
+
+type ResponseFormat = OpenAI.Chat.Completions.ChatCompletionCreateParams.ResponseFormat;
+
 export class OpenAIProvider implements AIProvider {
   private client: OpenAI;
   private config: {
@@ -36,47 +49,17 @@ export class OpenAIProvider implements AIProvider {
     });
   }
 
-  async complete(
-    params: {
-      prompt: string;
-      maxTokens: number;
-      temperature: number;
-      timeout: number;
-      schema?: any;
-      systemPrompt?: string;
-    },
-    onCostCalculated?: (totalTokens: number, breakdown: { prompt: number; completion: number }) => void
-  ): Promise<unknown> {
+  async complete(params: AICompletionParams, onCostCalculated?: AICostCallback): Promise<unknown> {
     try {
-      const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
-
-      if (params.systemPrompt) {
-        messages.push({
-          role: 'system',
-          content: params.systemPrompt,
-        });
-      }
-
-      messages.push({
-        role: 'user',
-        content: params.prompt,
-      });
-
-      const completionParams: OpenAI.Chat.Completions.ChatCompletionCreateParams = {
+      const completionParams: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming = {
         model: this.config.model,
-        messages,
+        messages: this.buildMessages(params),
         temperature: params.temperature,
         max_tokens: params.maxTokens,
+        // Add structured output if schema provided
+        response_format: this.responseFormat(params),
       };
 
-      // Add structured output if schema provided (OpenAI function calling or response_format)
-      if (params.schema) {
-        // Use JSON mode for structured output (available in newer models)
-        if (this.config.model.includes('gpt-4') || this.config.model.includes('gpt-3.5')) {
-          completionParams.response_format = { type: 'json_object' };
-        }
-      }
-
       const response = await Promise.race([
         this.client.chat.completions.create(completionParams),
         new Promise<never>((_, reject) =>
@@ -107,24 +90,108 @@ export class OpenAIProvider implements AIProvider {
         return content;
       }
     } catch (error: any) {
-      // Check for authentication errors
-      if (error?.status === 401 || error?.message?.includes('API key') || error?.message?.includes('authentication') || error?.message?.includes('Invalid API key')) {
-        throw new Error('Invalid or missing API key. Please check your OPENAI_API_KEY environment variable.');
-      }
-      // Check for rate limit errors
-      if (error?.status === 429 || error?.message?.includes('rate limit')) {
-        throw new Error('API rate limit exceeded. Please try again later.');
-      }
-      // Check for timeout
-      if (error instanceof Error && error.message.includes('timeout')) {
-        throw new Error('AI request timeout');
+      throw this.toProviderError(error);
+    }
+  }
+
+  async *stream(
+    params: AICompletionParams,
+    onCostCalculated?: AICostCallback
+  ): AsyncGenerator<string> {
+    let usage: OpenAI.CompletionUsage | undefined;
+    try {
+      const chunks = await this.client.chat.completions.create(
+        {
+          model: this.config.model,
+          messages: this.buildMessages(params),
+          temperature: params.temperature,
+          max_tokens: params.maxTokens,
+          response_format: this.responseFormat(params),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { timeout: params.timeout }
+      );
+
+      for await (const chunk of chunks) {
+        // The last chunk carries the usage and no choices
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
       }
-      // Generic error
-      throw new Error(`OpenAI API error: ${error?.message || 'Unknown error'}`);
+    } catch (error: any) {
+      throw this.toProviderError(error);
+    }
+
+    if (usage && onCostCalculated) {
+      onCostCalculated(usage.total_tokens, {
+        prompt: usage.prompt_tokens || 0,
+        completion: usage.completion_tokens || 0,
+      });
     }
   }
 
-  async generateAppSchema(userInput: string, category: string, context?: Record<string, unknown>): Promise<any> {
+  private buildMessages(params: AICompletionParams): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
+    if (params.systemPrompt) {
+      messages.push({
+        role: 'system',
+        content: params.systemPrompt,
+      });
+    }
+    messages.push({
+      role: 'user',
+      content: params.prompt,
+    });
+    return messages;
+  }
+
+  /**
+   * Output format for a schema: Structured Outputs with the schema's JSON Schema
+   * where the model supports it, JSON mode otherwise
+   */
+  private responseFormat(params: AICompletionParams): ResponseFormat | undefined {
+    const model = this.config.model;
+    if (isZodSchema(params.schema) && /gpt-4o|gpt-4\.1|^o\d/.test(model)) {
+      const format: JsonSchemaResponseFormat = {
+        type: 'json_schema',
+        // Not strict: strict mode rejects optional properties and open records
+        json_schema: { name: 'response', schema: zodToJsonSchema(params.schema), strict: false },
+      };
+      // The API takes it as-is; the SDK only types 'text' and 'json_object'
+      return format as unknown as ResponseFormat;
+    }
+    if (params.schema && (model.includes('gpt-4') || model.includes('gpt-3.5'))) {
+      return { type: 'json_object' };
+    }
+    return undefined;
+  }
+
+  /**
+   * Map SDK failures to the messages callers (and the API routes) check for
+   */
+  private toProviderError(error: any): Error {
+    // Check for authentication errors
+    if (error?.status === 401 || error?.message?.includes('API key') || error?.message?.includes('authentication') || error?.message?.includes('Invalid API key')) {
+      return new Error('Invalid or missing API key. Please check your OPENAI_API_KEY environment variable.');
+    }
+    // Check for rate limit errors
+    if (error?.status === 429 || error?.message?.includes('rate limit')) {
+      return new Error('API rate limit exceeded. Please try again later.');
+    }
+    // Check for timeout (our own race, or the SDK's "Request timed out.")
+    if (error instanceof Error && (error.message.includes('timeout') || error.message.includes('timed out'))) {
+      return new Error('AI request timeout');
+    }
+    // Generic error
+    return new Error(`OpenAI API error: ${error?.message || 'Unknown error'}`);
+  }
+
+  async generateAppSchema(userInput: string, category: string, context?: Record<string, unknown>): Promise<AppSchemaType> {
     const systemPrompt = `You are an expert app designer and developer. Your job is to generate complete, production-ready app schemas based on user descriptions.
 
 CRITICAL RULES:
@@ -263,16 +330,18 @@ ${context ? `\nContext: ${JSON.stringify(context, null, 2)}` : ''}
 
 Generate a complete app schema as JSON.`;
 
-    const response = await this.complete({
+    const result = await completeStructured(this, {
       prompt: userPrompt,
       systemPrompt,
       maxTokens: 4000,
       temperature: 0.7, // Slightly creative for better schema generation
       timeout: 60000, // 60 seconds for schema generation
-      schema: true, // Enable JSON mode
-    });
+    }, AppSchemaSchema, { maxRepairs: 1 });
 
-    return response;
+    if (!result.success) {
+      throw result.error;
+    }
+    return result.data;
   }
 
   async generateAppName(userInput: string, category: string): Promise<string> {
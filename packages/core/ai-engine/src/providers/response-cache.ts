@@ -0,0 +1,113 @@
+/**
+ * AI response cache
+ * Completions stored by a hash of what determines them: the prompt, the
+ * system prompt and the requested schema.
+ */
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { isZodSchema, zodToJsonSchema } from './json-schema.js';
+import type { AICompletionParams } from './types.js';
+
+export interface ResponseCache {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown): Promise<void>;
+}
+
+export interface ResponseCacheOptions {
+  /** How long a response stays usable (default: no expiry) */
+  ttlMs?: number;
+}
+
+interface CachedResponse {
+  storedAt: number;
+  value: unknown;
+}
+
+/**
+ * Content address of a completion request
+ */
+export function responseCacheKey(params: Pick<AICompletionParams, 'prompt' | 'systemPrompt' | 'schema'>): string {
+  // Zod schemas are keyed by the JSON Schema they describe
+  const schema = isZodSchema(params.schema) ? zodToJsonSchema(params.schema) : params.schema ?? null;
+  return createHash('sha256')
+    .update(JSON.stringify([params.prompt, params.systemPrompt ?? null, schema]))
+    .digest('hex');
+}
+
+function isFresh(entry: CachedResponse, ttlMs: number | undefined): boolean {
+  return ttlMs === undefined || Date.now() - entry.storedAt < ttlMs;
+}
+
+/**
+ * In-process cache, dropping the least recently used responses past `maxEntries`
+ */
+export class MemoryResponseCache implements ResponseCache {
+  private entries = new Map<string, CachedResponse>();
+  private maxEntries: number;
+  private ttlMs?: number;
+
+  constructor(options: ResponseCacheOptions & { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? 500;
+    this.ttlMs = options.ttlMs;
+  }
+
+  async get(key: string): Promise<unknown | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (!isFresh(entry, this.ttlMs)) return undefined;
+    // Re-insert to mark as most recently used
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { storedAt: Date.now(), value });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Cache kept as JSON files (`<directory>/<key prefix>/<key>.json`), shared across restarts
+ */
+export class DiskResponseCache implements ResponseCache {
+  private directory: string;
+  private ttlMs?: number;
+
+  constructor(options: ResponseCacheOptions & { directory: string }) {
+    this.directory = options.directory;
+    this.ttlMs = options.ttlMs;
+  }
+
+  async get(key: string): Promise<unknown | undefined> {
+    let entry: CachedResponse;
+    try {
+      entry = JSON.parse(await readFile(this.pathOf(key), 'utf8'));
+    } catch {
+      return undefined;
+    }
+    if (!isFresh(entry, this.ttlMs)) {
+      await rm(this.pathOf(key), { force: true });
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    const path = this.pathOf(key);
+    await mkdir(join(this.directory, key.slice(0, 2)), { recursive: true });
+    // Write aside and rename, so readers never see a partly written file
+    const temp = `${path}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(temp, JSON.stringify({ storedAt: Date.now(), value } satisfies CachedResponse));
+    await rename(temp, path);
+  }
+
+  private pathOf(key: string): string {
+    return join(this.directory, key.slice(0, 2), `${key}.json`);
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { MockAIProvider } from './mock-provider.js';
+import { completeWithStream, jsonStringFieldReader, parseCompletionText } from './streaming.js';
+import type { AIProvider } from './types.js';
+
+const params = { prompt: 'USER REQUEST: a darker theme\n', maxTokens: 100, temperature: 0, timeout: 1000 };
+
+describe('completeWithStream', () => {
+  it('passes streamed text on as it arrives and returns the parsed completion', async () => {
+    const tokens: string[] = [];
+    const result = await completeWithStream(new MockAIProvider(), { ...params, schema: true }, token => tokens.push(token));
+
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(JSON.parse(tokens.join(''))).toEqual(result);
+    expect(result).toEqual({ type: 'change_design', input: 'a darker theme', confidence: 0.7 });
+  });
+
+  it('falls back to complete for providers that cannot stream', async () => {
+    const tokens: string[] = [];
+    const costs: number[] = [];
+    const provider: AIProvider = {
+      complete: async (_params, onCost) => {
+        onCost?.(12, { prompt: 10, completion: 2 });
+        return 'Hello';
+      },
+    };
+
+    expect(await completeWithStream(provider, params, token => tokens.push(token), total => costs.push(total))).toBe('Hello');
+    expect(tokens).toEqual([]);
+    expect(costs).toEqual([12]);
+  });
+
+  it('parses JSON only when a schema was asked for', () => {
+    expect(parseCompletionText('{"a":1}')).toBe('{"a":1}');
+    expect(parseCompletionText('{"a":1}', true)).toEqual({ a: 1 });
+    expect(parseCompletionText('Sure:\n```json\n{"a":1}\n```', true)).toEqual({ a: 1 });
+    expect(parseCompletionText('not json', true)).toBe('not json');
+  });
+
+  it('picks one top-level string field out of streamed JSON', () => {
+    const read = jsonStringFieldReader('question');
+    const json = '```json\n{"extracted":{"question":"no"},"tags":["question"],"question":"What\'s \\"next\\"?\\nCaf\\u00e9 hours","id":"q1"}\n```';
+    const chunks = json.match(/.{1,5}/gs)!;
+
+    expect(chunks.map(read).join('')).toBe('What\'s "next"?\nCafé hours');
+  });
+});
@@ -0,0 +1,117 @@
+import type { AICompletionParams, AICostCallback, AIProvider } from './types.js';
+
+/**
+ * Parse streamed completion text the way providers parse complete responses:
+ * JSON when a schema was asked for (also inside a markdown code block), text otherwise
+ */
+export function parseCompletionText(text: string, schema?: unknown): unknown {
+  if (!schema) {
+    return text;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    const jsonMatch = text.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+    if (jsonMatch) {
+      try {
+        return JSON.parse(jsonMatch[1]);
+      } catch {
+        // Fall through to the raw text
+      }
+    }
+    return text;
+  }
+}
+
+/**
+ * Run a completion, passing text to `onToken` as it is generated
+ * Providers without `stream` answer in one piece and send no tokens.
+ */
+export async function completeWithStream(
+  provider: AIProvider,
+  params: AICompletionParams,
+  onToken: (text: string) => void,
+  onCostCalculated?: AICostCallback
+): Promise<unknown> {
+  if (!provider.stream) {
+    return provider.complete(params, onCostCalculated);
+  }
+
+  let text = '';
+  for await (const delta of provider.stream(params, onCostCalculated)) {
+    text += delta;
+    onToken(delta);
+  }
+  return parseCompletionText(text, params.schema);
+}
+
+const JSON_ESCAPES: Record<string, string> = { b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+/**
+ * Follow a JSON object as it streams in and pick out one top-level string field
+ * Returns a function to feed the streamed text to; each call returns the
+ * field's (decoded) characters that text completed, '' when there are none.
+ */
+export function jsonStringFieldReader(field: string): (text: string) => string {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let unicode: string | null = null;
+  let expectingKey = false;
+  let readingKey = false;
+  let readingField = false;
+  let key = '';
+  let lastKey: string | null = null;
+
+  return (text: string): string => {
+    let out = '';
+    const take = (char: string) => {
+      if (readingKey) key += char;
+      else if (readingField) out += char;
+    };
+
+    for (const char of text) {
+      if (inString) {
+        if (unicode !== null) {
+          unicode += char;
+          if (unicode.length === 4) {
+            take(String.fromCharCode(parseInt(unicode, 16)));
+            unicode = null;
+          }
+        } else if (escaped) {
+          escaped = false;
+          if (char === 'u') unicode = '';
+          else take(JSON_ESCAPES[char] ?? char);
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (readingKey) lastKey = key;
+          readingKey = false;
+          readingField = false;
+        } else {
+          take(char);
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+        readingKey = depth === 1 && expectingKey;
+        readingField = depth === 1 && !expectingKey && lastKey === field;
+        key = '';
+      } else if (char === '{' || char === '[') {
+        depth++;
+        expectingKey = depth === 1 && char === '{';
+      } else if (char === '}' || char === ']') {
+        depth--;
+      } else if (depth === 1 && char === ':') {
+        expectingKey = false;
+      } else if (depth === 1 && char === ',') {
+        expectingKey = true;
+        lastKey = null;
+      }
+    }
+    return out;
+  };
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { AICustomizationService } from '../ai-customization-service.js';
+import { AIUnderstandingService } from '../ai-understanding-service.js';
+import { zodToJsonSchema } from './json-schema.js';
+import { OpenAIProvider } from './openai-provider.js';
+import { completeStructured, StructuredOutputError } from './structured-output.js';
+import type { AIProvider } from './types.js';
+
+const params = { prompt: 'Describe my bakery', maxTokens: 500, temperature: 0, timeout: 1000 };
+
+const BakerySchema = z.object({ name: z.string(), staff: z.number().int() });
+
+/** Provider answering with the given responses in turn, recording the prompts it was sent */
+function scripted(...responses: unknown[]): AIProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+  return {
+    prompts,
+    async complete(completion) {
+      prompts.push(completion.prompt);
+      return responses[Math.min(prompts.length - 1, responses.length - 1)];
+    },
+  };
+}
+
+describe('completeStructured', () => {
+  it('returns valid output from the first call', async () => {
+    const provider = scripted('```json\n{"name":"Crumb","staff":3}\n```');
+
+    expect(await completeStructured(provider, params, BakerySchema)).toEqual({
+      success: true,
+      data: { name: 'Crumb', staff: 3 },
+      attempts: 1,
+    });
+  });
+
+  it('sends the validation errors back to the model until the output is fixed', async () => {
+    const provider = scripted('Sure! Here it is: name=Crumb', { name: 'Crumb', staff: 'three' }, { name: 'Crumb', staff: 3 });
+
+    const result = await completeStructured(provider, params, BakerySchema);
+
+    expect(result).toEqual({ success: true, data: { name: 'Crumb', staff: 3 }, attempts: 3 });
+    expect(provider.prompts[1]).toContain('Sure! Here it is: name=Crumb');
+    expect(provider.prompts[1]).toContain('- (root): Response is not valid JSON');
+    expect(provider.prompts[2]).toContain('{"name":"Crumb","staff":"three"}');
+    expect(provider.prompts[2]).toContain('- staff: Expected number, received string');
+    expect(provider.prompts.every(prompt => prompt.startsWith(params.prompt))).toBe(true);
+  });
+
+  it('gives up after the repair attempts with the last issues and response', async () => {
+    const provider = scripted({ name: 'Crumb' });
+
+    const result = await completeStructured(provider, params, BakerySchema, { maxRepairs: 1 });
+
+    expect(provider.prompts).toHaveLength(2);
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.attempts).toBe(2);
+    expect(result.error).toBeInstanceOf(StructuredOutputError);
+    expect(result.error.name).toBe('StructuredOutputError');
+    expect(result.error.issues).toEqual([{ path: 'staff', message: 'Required' }]);
+    expect(result.error.raw).toEqual({ name: 'Crumb' });
+  });
+
+  it('asks OpenAI for output matching the JSON Schema derived from the Zod schema', async () => {
+    const requests: Record<string, unknown>[] = [];
+    const provider = new OpenAIProvider({ apiKey: 'sk-test', model: 'gpt-4o-mini' });
+    (provider as unknown as { client: unknown }).client = {
+      chat: {
+        completions: {
+          async create(request: Record<string, unknown>) {
+            requests.push(request);
+            return { choices: [{ message: { content: '{"name":"Crumb","staff":3}' } }] };
+          },
+        },
+      },
+    };
+
+    const result = await completeStructured(provider, params, BakerySchema.extend({ tagline: z.string().max(80).optional() }));
+
+    expect(result).toEqual({ success: true, data: { name: 'Crumb', staff: 3 }, attempts: 1 });
+    expect(requests[0].response_format).toEqual({
+      type: 'json_schema',
+      json_schema: {
+        name: 'response',
+        strict: false,
+        schema: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            staff: { type: 'integer' },
+            tagline: { type: 'string', maxLength: 80 },
+          },
+          required: ['name', 'staff'],
+        },
+      },
+    });
+  });
+
+  it('describes enums, defaults, nullables and recursive schemas as JSON Schema', () => {
+    type Node = { label: string; children: Node[] };
+    const NodeSchema: z.ZodType<Node> = z.lazy(() => z.object({ label: z.string(), children: z.array(NodeSchema) }));
+
+    expect(zodToJsonSchema(z.object({
+      kind: z.enum(['shop', 'cafe']).default('shop'),
+      note: z.string().nullable(),
+      tree: NodeSchema,
+    }))).toEqual({
+      type: 'object',
+      properties: {
+        kind: { type: 'string', enum: ['shop', 'cafe'], default: 'shop' },
+        note: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+        tree: {
+          type: 'object',
+          properties: { label: { type: 'string' }, children: { type: 'array', items: {} } },
+          required: ['label', 'children'],
+        },
+      },
+      required: ['note', 'tree'],
+    });
+  });
+
+  it('lets the pipeline services repair or fall back on malformed output', async () => {
+    const understanding = new AIUnderstandingService(scripted(
+      { industry: 'bakery', primaryIntent: 'storefront', confidence: 0.9, context: {}, suggestedQuestions: [] },
+      { industry: 'bakery', primaryIntent: 'customer-facing', confidence: 0.9, context: {}, suggestedQuestions: [] }
+    ));
+    const result = await understanding.understand('An online bakery storefront');
+    expect(result.primaryIntent).toBe('customer-facing');
+    expect(result.confidence).toBe(0.9);
+
+    const customization = new AICustomizationService(scripted({ workflowAdditions: 'none' }));
+    const output = await customization.customize({
+      kit: { id: 'bakery', name: 'Bakery', entities: [], pageTypes: [], workflows: [] },
+      understanding: result,
+      originalInput: 'An online bakery storefront',
+    });
+    expect(output.warnings).toEqual(['AI customization unavailable - using preset customizations']);
+  });
+});
@@ -0,0 +1,116 @@
+import type { ZodIssue, ZodType, ZodTypeDef } from 'zod';
+import { parseCompletionText } from './streaming.js';
+import type { AICompletionParams, AICostCallback, AIProvider } from './types.js';
+
+/**
+ * A reason the AI output was rejected (`path` is dotted, empty for the whole value)
+ */
+export interface StructuredOutputIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * AI output that still did not match the schema after the repair attempts
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public issues: StructuredOutputIssue[],
+    /** The last response, as the provider returned it */
+    public raw: unknown
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export type StructuredOutput<T> =
+  | { success: true; data: T; attempts: number }
+  | { success: false; error: StructuredOutputError; attempts: number };
+
+export interface StructuredCompletionOptions {
+  /** Follow-up calls asking the model to fix invalid output (default 2) */
+  maxRepairs?: number;
+  onCostCalculated?: AICostCallback;
+}
+
+const MAX_LISTED_ISSUES = 20;
+const MAX_ECHOED_RESPONSE_LENGTH = 6000;
+
+function toIssue(issue: ZodIssue): StructuredOutputIssue {
+  return { path: issue.path.join('.'), message: issue.message };
+}
+
+function responseText(raw: unknown): string {
+  const text = typeof raw === 'string' ? raw : JSON.stringify(raw);
+  return text.length > MAX_ECHOED_RESPONSE_LENGTH ? `${text.slice(0, MAX_ECHOED_RESPONSE_LENGTH)}…` : text;
+}
+
+/**
+ * Prompt for a repair call: the original request, the rejected response and what was wrong with it
+ */
+function buildRepairPrompt(prompt: string, raw: unknown, issues: StructuredOutputIssue[]): string {
+  const listed = issues
+    .slice(0, MAX_LISTED_ISSUES)
+    .map(issue => `- ${issue.path || '(root)'}: ${issue.message}`);
+  if (issues.length > MAX_LISTED_ISSUES) {
+    listed.push(`- …and ${issues.length - MAX_LISTED_ISSUES} more`);
+  }
+
+  return `${prompt}
+
+YOUR PREVIOUS RESPONSE:
+${responseText(raw)}
+
+IT WAS REJECTED FOR THESE VALIDATION ERRORS:
+${listed.join('\n')}
+
+Return the complete corrected JSON only, with no explanation.`;
+}
+
+/**
+ * Run a completion whose output must match a Zod schema
+ *
+ * Output that is not JSON or fails validation is sent back to the model with
+ * the validation errors, up to `maxRepairs` times. Provider errors (timeouts,
+ * rate limits) are thrown as usual; output that never validates comes back as
+ * a failure carrying the last issues and response.
+ */
+export async function completeStructured<T>(
+  provider: AIProvider,
+  params: AICompletionParams,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  options: StructuredCompletionOptions = {}
+): Promise<StructuredOutput<T>> {
+  const maxRepairs = options.maxRepairs ?? 2;
+  // Providers that can constrain output to a JSON Schema derive it from this one
+  const request: AICompletionParams = { ...params, schema };
+
+  let prompt = params.prompt;
+  let raw: unknown;
+  let issues: StructuredOutputIssue[] = [];
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    raw = await provider.complete({ ...request, prompt }, options.onCostCalculated);
+    const value = typeof raw === 'string' ? parseCompletionText(raw, true) : raw;
+
+    const result = schema.safeParse(value);
+    if (result.success) {
+      return { success: true, data: result.data, attempts: attempt };
+    }
+    issues = typeof value === 'string'
+      ? [{ path: '', message: 'Response is not valid JSON' }]
+      : result.error.issues.map(toIssue);
+    prompt = buildRepairPrompt(params.prompt, raw, issues);
+  }
+
+  return {
+    success: false,
+    error: new StructuredOutputError(
+      `AI output did not match the expected format after ${maxRepairs + 1} attempt(s)`,
+      issues,
+      raw
+    ),
+    attempts: maxRepairs + 1,
+  };
+}
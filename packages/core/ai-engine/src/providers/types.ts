@@ -1,15 +1,31 @@
+import type { ZodTypeAny } from 'zod';
+
+/**
+ * Asks for JSON output: a Zod schema the output must match (providers that can
+ * constrain output to a JSON Schema derive one from it), or `true` for any JSON
+ */
+export type AIOutputSchema = ZodTypeAny | boolean;
+
+export interface AICompletionParams {
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+  timeout: number;
+  schema?: AIOutputSchema;
+  systemPrompt?: string;
+}
+
+export type AICostCallback = (totalTokens: number, breakdown: { prompt: number; completion: number }) => void;
+
 export interface AIProvider {
-  complete(
-    params: {
-      prompt: string;
-      maxTokens: number;
-      temperature: number;
-      timeout: number;
-      schema?: any;
-      systemPrompt?: string;
-    },
-    onCostCalculated?: (totalTokens: number, breakdown: { prompt: number; completion: number }) => void
-  ): Promise<unknown>;
+  complete(params: AICompletionParams, onCostCalculated?: AICostCallback): Promise<unknown>;
+
+  /**
+   * Stream the completion text as it is generated
+   * Yields text deltas; joined, they are the text `complete` would have parsed.
+   * Cost is reported once the stream has finished.
+   */
+  stream?(params: AICompletionParams, onCostCalculated?: AICostCallback): AsyncIterable<string>;
 
   generateAppSchema?(userInput: string, category: string, context?: Record<string, unknown>): Promise<any>;
   generateAppName?(userInput: string, category: string): Promise<string>;
@@ -585,6 +585,9 @@ export class NeoBlueprintEngine {
         if (f.id === 'analytics' || f.id === 'reports') {
           features.analytics = true;
         }
+        if (f.id === 'imports') {
+          features.imports = true;
+        }
       }
     }
 
@@ -527,6 +527,9 @@ export const UnifiedWorkflowActionSchema: z.ZodTypeAny = z.lazy(() =>
     items: z.string().optional(),
     itemActions: z.array(UnifiedWorkflowActionSchema).optional(),
     
+    // For parallel actions
+    branches: z.array(z.array(UnifiedWorkflowActionSchema)).optional(),
+    
     // Error handling
     onError: z.enum(['stop', 'continue', 'retry', 'rollback']).optional(),
     retryCount: z.number().optional(),
@@ -587,6 +590,7 @@ export const UnifiedWorkflowSchema = z.object({
   rateLimit: z.object({
     maxExecutions: z.number(),
     windowSeconds: z.number(),
+    perUser: z.boolean().optional(), // Count executions per user instead of per workflow
   }).optional(),
 });
 
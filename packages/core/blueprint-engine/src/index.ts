@@ -39,7 +39,22 @@ export {
   type WorkflowAPI,
   type ActionResult,
   type WorkflowResult,
+  type ExecuteWorkflowOptions,
+  type ResumePoint,
+  type NestedResumePoint,
+  type PendingBody,
+  type WorkflowExportRequest,
+  type WorkflowExportFormat,
 } from './workflow-engine.js';
+export {
+  WorkflowRateLimiter,
+  MemoryRateLimitStore,
+  rateLimitMessage,
+  type RateLimitStore,
+  type RateLimitHit,
+  type RateLimitSubject,
+  type RateLimitDecision,
+} from './workflow-rate-limiter.js';
 
 // Voice Workflow Parser (Phase 6)
 export {
@@ -385,6 +400,21 @@ export interface GeneratedAppResult {
   sampleData: GeneratedData;
 }
 
+/**
+ * Stages of app generation, in order (`validation` is the caller's safety check)
+ */
+export type GenerationStage = 'understanding' | 'entities' | 'pages' | 'theme' | 'validation';
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  message: string;
+}
+
+export interface GenerateAppOptions {
+  /** Called as each stage starts */
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
 /**
  * AI Pipeline generation result with explanation
  */
@@ -442,9 +472,16 @@ export class NeoEngine {
   /**
    * Generate a complete app from processed intent
    */
-  async generateApp(intent: ProcessedIntent): Promise<GeneratedAppResult> {
+  async generateApp(intent: ProcessedIntent, options: GenerateAppOptions = {}): Promise<GeneratedAppResult> {
+    const { onProgress } = options;
+
     // Step 1: Generate blueprint
+    onProgress?.({ stage: 'understanding', message: 'Understanding what you need' });
     const blueprint = this.appBlueprintEngine.generate(intent);
+    onProgress?.({
+      stage: 'entities',
+      message: `Setting up ${blueprint.entities.map(entity => entity.name).join(', ') || 'your data'}`,
+    });
 
     // Extract industry context from intent for visual blocks
     const discoveredInfo = intent.discoveredInfo as {
@@ -458,9 +495,11 @@ export class NeoEngine {
     const materializationContext = this.buildMaterializationContext(discoveredInfo);
 
     // Step 2: Materialize into renderable format with context
+    onProgress?.({ stage: 'pages', message: `Building ${blueprint.pages.length} pages` });
     const materializedApp = this.pageMaterializer.materialize(blueprint, materializationContext);
 
     // Step 3: Generate sample data with enhanced templates
+    onProgress?.({ stage: 'theme', message: 'Applying your theme and sample data' });
     const sampleData = this.dataGenerator.generateSampleData(blueprint);
 
     return {
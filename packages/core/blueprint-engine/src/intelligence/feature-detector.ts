@@ -286,6 +286,14 @@ const FEATURES: FeatureDefinition[] = [
     defaultPriority: 'nice_to_have',
     description: 'Export data to various formats',
   },
+  {
+    id: 'imports',
+    name: 'Data Import',
+    keywords: ['import', 'upload spreadsheet', 'spreadsheet', 'migrate data', 'bulk upload', 'from excel'],
+    intents: ['managing'],
+    defaultPriority: 'nice_to_have',
+    description: 'Import records from CSV and Excel files',
+  },
 
   // WORKFLOW
   {
@@ -284,6 +284,7 @@ export type FeatureId =
   | 'reports'            // Generate reports
   | 'analytics'          // Analytics tracking
   | 'exports'            // Export data
+  | 'imports'            // Import spreadsheets
   
   // Workflow
   | 'workflow'           // Workflow automation
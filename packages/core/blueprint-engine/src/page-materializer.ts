@@ -202,13 +202,34 @@ export interface MaterializedApp {
     trigger: {
       type: string;
       componentId?: string;
+      schedule?: string;
+      webhookPath?: string;
     };
     actions: Array<{
       type: string;
       modelId?: string;
       model?: string;
       config?: Record<string, unknown>;
+      // Logic and error handling, kept as-is for server-side execution
+      condition?: string;
+      thenActions?: unknown[];
+      elseActions?: unknown[];
+      items?: unknown;
+      itemActions?: unknown[];
+      branches?: unknown[][];
+      onError?: string;
+      retryCount?: number;
     }>;
+    onError?: {
+      action: string;
+      notification?: string;
+      fallbackActions?: unknown[];
+    };
+    rateLimit?: {
+      maxExecutions: number;
+      windowSeconds: number;
+      perUser?: boolean;
+    };
   }>;
 }
 
@@ -2407,13 +2428,25 @@ export class PageMaterializer {
       trigger: {
         type: workflow.trigger.type,
         componentId: workflow.trigger.componentId,
+        schedule: workflow.trigger.schedule,
+        webhookPath: workflow.trigger.webhookPath,
       },
       actions: workflow.actions.map(action => ({
         type: action.type,
         modelId: action.config.entityId as string | undefined,
         model: action.config.entityId as string | undefined,
         config: action.config,
+        ...(action.condition && { condition: action.condition }),
+        ...(action.thenActions && { thenActions: action.thenActions }),
+        ...(action.elseActions && { elseActions: action.elseActions }),
+        ...(action.items !== undefined && { items: action.items }),
+        ...(action.itemActions && { itemActions: action.itemActions }),
+        ...(action.branches && { branches: action.branches }),
+        ...(action.onError && { onError: action.onError }),
+        ...(action.retryCount !== undefined && { retryCount: action.retryCount }),
       })),
+      ...(workflow.onError && { onError: workflow.onError }),
+      ...(workflow.rateLimit && { rateLimit: workflow.rateLimit }),
     }));
   }
 }
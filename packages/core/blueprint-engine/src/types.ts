@@ -369,6 +369,8 @@ export const WorkflowTriggerSchema = z.object({
   componentId: z.string().optional(),
   entityId: z.string().optional(),
   fieldId: z.string().optional(),
+  schedule: z.string().optional(), // Cron expression (schedule triggers)
+  webhookPath: z.string().optional(), // Path under /hooks/:appId/ (webhook triggers)
   condition: z.string().optional(), // Expression
 });
 
@@ -391,6 +393,9 @@ export const WorkflowActionSchema: z.ZodTypeAny = z.lazy(() =>
       'call_api',
       'validate',
       'conditional',
+      'loop',
+      'parallel',
+      'wait',
     ]),
     
     // Action-specific config
@@ -400,6 +405,17 @@ export const WorkflowActionSchema: z.ZodTypeAny = z.lazy(() =>
     condition: z.string().optional(),
     thenActions: z.array(WorkflowActionSchema).optional(),
     elseActions: z.array(WorkflowActionSchema).optional(),
+    
+    // Loop actions (runs itemActions once per item)
+    items: z.union([z.string(), z.array(z.unknown())]).optional(),
+    itemActions: z.array(WorkflowActionSchema).optional(),
+    
+    // Parallel actions (each branch is a sequence of actions)
+    branches: z.array(z.array(WorkflowActionSchema)).optional(),
+    
+    // Error handling (retryCount also applies without onError: 'retry')
+    onError: z.enum(['stop', 'continue', 'retry', 'rollback']).optional(),
+    retryCount: z.number().optional(),
   })
 );
 
@@ -419,8 +435,16 @@ export const WorkflowDefSchema = z.object({
   
   // Error handling
   onError: z.object({
-    action: z.enum(['stop', 'continue', 'rollback']),
+    action: z.enum(['stop', 'continue', 'rollback', 'notify']),
     notification: z.string().optional(),
+    fallbackActions: z.array(WorkflowActionSchema).optional(),
+  }).optional(),
+  
+  // Rate limiting (per app + workflow, or per user when perUser is set)
+  rateLimit: z.object({
+    maxExecutions: z.number(),
+    windowSeconds: z.number(),
+    perUser: z.boolean().optional(),
   }).optional(),
   
   // Validation rules (for form submissions)
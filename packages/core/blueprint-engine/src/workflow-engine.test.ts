@@ -0,0 +1,447 @@
+/**
+ * Workflow Engine Test
+ *
+ * Covers the logic actions: loop (item scoping), parallel (concurrency limit)
+ * and wait (inline sleep vs. durable suspend/resume), plus error handling:
+ * retries, per-action onError policies, rollback and fallback actions,
+ * and rateLimit enforcement.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WorkflowEngine, type WorkflowAPI, type WorkflowContext } from './workflow-engine.js';
+import { WorkflowRateLimiter, MemoryRateLimitStore } from './workflow-rate-limiter.js';
+import type { WorkflowDef } from './types.js';
+
+function createApi() {
+  const created: Array<{ entityId: string; data: Record<string, unknown> }> = [];
+  const deleted: string[] = [];
+  const notifications: string[] = [];
+  const records = new Map<string, Record<string, unknown>>(); // entityId/recordId -> record
+
+  const api: WorkflowAPI = {
+    createRecord: async (entityId, data) => {
+      created.push({ entityId, data });
+      const id = (data.id as string) || `r${created.length}`;
+      records.set(`${entityId}/${id}`, { ...data, id });
+      return { id, data };
+    },
+    updateRecord: async (entityId, recordId, data) => {
+      const record = { ...records.get(`${entityId}/${recordId}`), ...data };
+      records.set(`${entityId}/${recordId}`, record);
+      return { data: record };
+    },
+    deleteRecord: async (entityId, recordId) => {
+      deleted.push(recordId);
+      records.delete(`${entityId}/${recordId}`);
+    },
+    getRecord: async (entityId, recordId) => records.get(`${entityId}/${recordId}`) || null,
+    navigate: () => {},
+    showNotification: (message) => {
+      notifications.push(message);
+    },
+    showModal: () => {},
+    closeModal: () => {},
+    refreshData: async () => {},
+    setVariable: () => {},
+    getVariable: () => undefined,
+  };
+
+  return { api, created, deleted, notifications, records };
+}
+
+function workflow(actions: unknown[]): WorkflowDef {
+  return {
+    id: 'wf',
+    name: 'Test workflow',
+    enabled: true,
+    trigger: { type: 'button_click' },
+    actions,
+  } as WorkflowDef;
+}
+
+const context = (variables: Record<string, unknown> = {}): WorkflowContext => ({
+  appId: 'app',
+  variables,
+});
+
+describe('WorkflowEngine', () => {
+  describe('loop', () => {
+    it('runs itemActions per item with the item in scope', async () => {
+      const engine = new WorkflowEngine();
+      const { api, notifications, deleted } = createApi();
+      const ctx = context({
+        customers: [{ id: 'c1', name: 'Ada' }, { id: 'c2', name: 'Linus' }],
+      });
+
+      const result = await engine.executeWorkflow(workflow([
+        {
+          id: 'notify-all',
+          type: 'loop',
+          config: {},
+          items: '$customers',
+          itemActions: [
+            { id: 'notify', type: 'show_notification', config: { message: 'Hi $item.name (#{variables.index})' } },
+            { id: 'remove', type: 'delete_record', config: { entityId: 'customers' } },
+          ],
+        },
+      ]), ctx, api);
+
+      expect(result.success).toBe(true);
+      expect(notifications).toEqual(['Hi Ada (#0)', 'Hi Linus (#1)']);
+      expect(deleted).toEqual(['c1', 'c2']);
+      // The loop item does not leak into the outer scope
+      expect(ctx.variables.item).toBeUndefined();
+    });
+
+    it('keeps variables set inside iterations and reports failed items', async () => {
+      const engine = new WorkflowEngine();
+      const { api } = createApi();
+      const ctx = context({ ids: ['a', 'b'] });
+
+      const result = await engine.executeWorkflow(workflow([
+        {
+          id: 'loop',
+          type: 'loop',
+          config: {},
+          items: 'ids',
+          itemActions: [
+            { id: 'last', type: 'set_variable', config: { name: 'lastId', value: '$item' } },
+            { id: 'unknown', type: 'not_an_action', config: {}, condition: "item === 'b'" },
+          ],
+        },
+      ]), ctx, api);
+
+      expect(ctx.variables.lastId).toBe('b');
+      expect(result.success).toBe(false);
+      expect(result.results[0].data).toEqual({ count: 2, failed: 1 });
+    });
+
+    it('only substitutes $names the workflow declares', async () => {
+      const engine = new WorkflowEngine();
+      const { api, notifications } = createApi();
+      const ctx = context({ price: 10, total: 42 });
+
+      await engine.executeWorkflow(workflow([
+        { id: 'set', type: 'set_variable', config: { name: 'total', value: 42 } },
+        { id: 'notify', type: 'show_notification', config: { message: 'Pay $total, not $price or {variables.price}' } },
+      ]), ctx, api);
+
+      expect(notifications).toEqual(['Pay 42, not $price or 10']);
+    });
+
+    it('substitutes variables declared in the variables block', async () => {
+      const engine = new WorkflowEngine();
+      const { api, notifications } = createApi();
+
+      await engine.executeWorkflow({
+        ...workflow([
+          { id: 'notify', type: 'show_notification', config: { message: 'Order $orderId received' } },
+        ]),
+        variables: { orderId: { type: 'string' } },
+      } as WorkflowDef, context({ orderId: 'o-17' }), api);
+
+      expect(notifications).toEqual(['Order o-17 received']);
+    });
+
+    it('substitutes variables a responseMapping assigns', async () => {
+      const engine = new WorkflowEngine();
+      const { api, notifications } = createApi();
+      // Stands in for the HTTP call: assigns what the mapping names
+      engine.registerActionHandler('call_api', async (_action, context) => {
+        context.variables.trackingNumber = 'TRK-9';
+        return { success: true };
+      });
+
+      await engine.executeWorkflow(workflow([
+        { id: 'ship', type: 'call_api', config: { url: 'https://carrier.example.com/ship', responseMapping: { trackingNumber: 'body.tracking' } } },
+        { id: 'notify', type: 'show_notification', config: { message: 'Ships as $trackingNumber' } },
+      ]), context(), api);
+
+      expect(notifications).toEqual(['Ships as TRK-9']);
+    });
+
+    it('fails when items do not resolve to an array', async () => {
+      const engine = new WorkflowEngine();
+      const { api } = createApi();
+
+      const result = await engine.executeWorkflow(workflow([
+        { id: 'loop', type: 'loop', config: {}, items: '$missing', itemActions: [] },
+      ]), context(), api);
+
+      expect(result.success).toBe(false);
+      expect(result.results[0].error).toMatch(/array/);
+    });
+  });
+
+  describe('parallel', () => {
+    it('runs branches with at most config.concurrency in flight', async () => {
+      const engine = new WorkflowEngine();
+      const { api } = createApi();
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      engine.registerActionHandler('slow', async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return { success: true };
+      });
+
+      const branch = (id: string) => [{ id, type: 'slow', config: {} }];
+      const result = await engine.executeWorkflow(workflow([
+        {
+          id: 'fan-out',
+          type: 'parallel',
+          config: { concurrency: 2 },
+          branches: [branch('a'), branch('b'), branch('c'), branch('d'), branch('e')],
+        },
+      ]), context(), api);
+
+      expect(result.success).toBe(true);
+      expect(result.results[0].data).toEqual({ branches: 5, failed: 0 });
+      expect(maxInFlight).toBe(2);
+    });
+  });
+
+  describe('wait', () => {
+    it('sleeps inline when durable waits are off', async () => {
+      const engine = new WorkflowEngine();
+      const { api, notifications } = createApi();
+      const started = Date.now();
+
+      const result = await engine.executeWorkflow(workflow([
+        { id: 'wait', type: 'wait', config: { duration: '20ms' } },
+        { id: 'notify', type: 'show_notification', config: { message: 'done' } },
+      ]), context(), api);
+
+      expect(result.success).toBe(true);
+      expect(result.suspended).toBeUndefined();
+      expect(notifications).toEqual(['done']);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+    });
+
+    it('suspends with durable waits and resumes from the next action', async () => {
+      const engine = new WorkflowEngine();
+      const { api, notifications } = createApi();
+      const def = workflow([
+        { id: 'first', type: 'show_notification', config: { message: 'first' } },
+        { id: 'wait', type: 'wait', config: { duration: '24h' } },
+        { id: 'follow-up', type: 'show_notification', config: { message: 'follow up' } },
+      ]);
+
+      const suspended = await engine.executeWorkflow(def, context(), api, { durableWaits: true });
+      expect(suspended.suspended?.resumeIndex).toBe(2);
+      expect(new Date(suspended.suspended!.resumeAt).getTime()).toBeGreaterThan(Date.now() + 23 * 3600000);
+      expect(notifications).toEqual(['first']);
+
+      const resumed = await engine.executeWorkflow(def, context(), api, { startIndex: 2 });
+      expect(resumed.success).toBe(true);
+      expect(notifications).toEqual(['first', 'follow up']);
+    });
+
+    it('suspends waits inside loops and resumes the waiting iterations', async () => {
+      const engine = new WorkflowEngine();
+      const { api, notifications } = createApi();
+      const def = workflow([
+        {
+          id: 'remind',
+          type: 'loop',
+          config: { items: ['a', 'b'] },
+          itemActions: [
+            { id: 'wait', type: 'wait', config: { duration: '30d' } },
+            { id: 'notify', type: 'show_notification', config: { message: 'remind $item' } },
+          ],
+        },
+        { id: 'done', type: 'show_notification', config: { message: 'done' } },
+      ]);
+
+      const suspended = await engine.executeWorkflow(def, context(), api, { durableWaits: true });
+      expect(suspended.suspended?.resumeIndex).toBe(0);
+      expect(new Date(suspended.suspended!.resumeAt).getTime()).toBeGreaterThan(Date.now() + 29 * 86400000);
+      expect(notifications).toEqual([]);
+
+      // Persisted as JSON and resumed once the wait is due
+      const resumePoint = JSON.parse(JSON.stringify(suspended.suspended!.resumePoint));
+      for (const body of resumePoint.nested.pending) body.resumeAt = new Date(Date.now() - 1000).toISOString();
+
+      const resumed = await engine.executeWorkflow(def, context(), api, { resumeFrom: resumePoint, durableWaits: true });
+      expect(resumed.success).toBe(true);
+      expect(resumed.suspended).toBeUndefined();
+      expect(notifications).toEqual(['remind a', 'remind b', 'done']);
+    });
+
+    it('resumes waits inside conditionals in the branch that was taken', async () => {
+      const engine = new WorkflowEngine();
+      const { api, notifications } = createApi();
+      const def = workflow([
+        {
+          id: 'check',
+          type: 'conditional',
+          config: {},
+          condition: 'flag === true',
+          thenActions: [
+            { id: 'wait', type: 'wait', config: { duration: '24h' } },
+            { id: 'then', type: 'show_notification', config: { message: 'then' } },
+          ],
+          elseActions: [{ id: 'else', type: 'show_notification', config: { message: 'else' } }],
+        },
+      ]);
+
+      const suspended = await engine.executeWorkflow(def, context({ flag: true }), api, { durableWaits: true });
+      expect(suspended.suspended?.resumePoint).toEqual({
+        index: 0,
+        nested: { type: 'conditional', branch: 'then', at: { index: 1 }, errors: [] },
+      });
+
+      // The branch is not re-evaluated against the changed variables
+      const resumed = await engine.executeWorkflow(def, context({ flag: false }), api, {
+        resumeFrom: suspended.suspended!.resumePoint,
+        durableWaits: true,
+      });
+      expect(resumed.success).toBe(true);
+      expect(notifications).toEqual(['then']);
+    });
+
+    it('rejects waits without a valid duration', async () => {
+      const engine = new WorkflowEngine();
+      const { api } = createApi();
+
+      const result = await engine.executeWorkflow(workflow([
+        { id: 'wait', type: 'wait', config: { duration: 'tomorrow-ish' } },
+      ]), context(), api);
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('error handling', () => {
+    const failing = (failures: number) => {
+      let calls = 0;
+      return async () => {
+        calls++;
+        return calls <= failures ? { success: false, error: `attempt ${calls} failed` } : { success: true };
+      };
+    };
+
+    it('retries failed actions with backoff', async () => {
+      const engine = new WorkflowEngine();
+      const { api } = createApi();
+      engine.registerActionHandler('flaky', failing(2));
+
+      const result = await engine.executeWorkflow(workflow([
+        { id: 'flaky', type: 'flaky', config: { retryDelayMs: 1 }, onError: 'retry', retryCount: 3 },
+      ]), context(), api);
+
+      expect(result.success).toBe(true);
+      expect(result.results[0].attempts).toBe(3);
+    });
+
+    it('compensates applied data changes when an action rolls back', async () => {
+      const engine = new WorkflowEngine();
+      const { api, records } = createApi();
+      records.set('customers/c1', { id: 'c1', name: 'Ada' });
+      engine.registerActionHandler('send_email', failing(Infinity));
+
+      const result = await engine.executeWorkflow(workflow([
+        { id: 'create', type: 'create_record', config: { entityId: 'orders', data: { total: 10 } } },
+        { id: 'update', type: 'update_record', config: { entityId: 'customers', recordId: 'c1', data: { vip: true } } },
+        { id: 'email', type: 'send_email', config: {}, onError: 'rollback' },
+        { id: 'never', type: 'show_notification', config: { message: 'not reached' } },
+      ]), context(), api);
+
+      expect(result.success).toBe(false);
+      expect(result.rolledBack).toBe(true);
+      expect(result.actionsExecuted).toBe(3);
+      expect(records.has('orders/r1')).toBe(false);
+      expect(records.get('customers/c1')).toEqual({ id: 'c1', name: 'Ada', vip: null });
+    });
+
+    it('uses API transactions for workflow-level rollback and runs fallback actions', async () => {
+      const engine = new WorkflowEngine();
+      const { api, notifications } = createApi();
+      const calls: string[] = [];
+      api.beginTransaction = () => { calls.push('begin'); };
+      api.commitTransaction = () => { calls.push('commit'); };
+      api.rollbackTransaction = () => { calls.push('rollback'); };
+      engine.registerActionHandler('send_email', failing(Infinity));
+
+      const result = await engine.executeWorkflow({
+        ...workflow([
+          { id: 'create', type: 'create_record', config: { entityId: 'orders', data: {} } },
+          { id: 'email', type: 'send_email', config: {} },
+        ]),
+        onError: {
+          action: 'rollback',
+          fallbackActions: [
+            { id: 'alert', type: 'show_notification', config: { message: 'Failed: {variables.error}' } },
+          ],
+        },
+      } as WorkflowDef, context(), api);
+
+      expect(calls).toEqual(['begin', 'rollback']);
+      expect(result.rolledBack).toBe(true);
+      expect(notifications).toEqual(['Failed: attempt 1 failed']);
+      expect(result.fallbackResults).toHaveLength(1);
+    });
+
+    it('lets onError: continue override a stopping workflow policy', async () => {
+      const engine = new WorkflowEngine();
+      const { api, notifications } = createApi();
+      engine.registerActionHandler('optional', failing(Infinity));
+
+      const result = await engine.executeWorkflow({
+        ...workflow([
+          { id: 'optional', type: 'optional', config: {}, onError: 'continue' },
+          { id: 'required', type: 'optional', config: {} },
+          { id: 'never', type: 'show_notification', config: { message: 'not reached' } },
+        ]),
+        onError: { action: 'stop' },
+      } as WorkflowDef, context(), api);
+
+      expect(result.actionsExecuted).toBe(2);
+      expect(notifications).toEqual([]);
+    });
+  });
+
+  describe('rate limiting', () => {
+    const limited = (perUser?: boolean) => ({
+      ...workflow([{ id: 'sms', type: 'show_notification', config: { message: 'sent' } }]),
+      rateLimit: { maxExecutions: 2, windowSeconds: 60, perUser },
+    } as WorkflowDef);
+
+    it('rejects executions over the limit and emits flow:error with retry-after', async () => {
+      const engine = new WorkflowEngine();
+      engine.setRateLimiter(new WorkflowRateLimiter(new MemoryRateLimitStore()));
+      const { api, notifications } = createApi();
+      const events: Array<{ type: string; data: any }> = [];
+      api.emitEvent = (type, data) => events.push({ type, data });
+
+      const def = limited();
+      await engine.executeWorkflow(def, context(), api);
+      await engine.executeWorkflow(def, context(), api);
+      const throttled = await engine.executeWorkflow(def, context(), api);
+
+      expect(notifications).toEqual(['sent', 'sent']);
+      expect(throttled.success).toBe(false);
+      expect(throttled.rateLimited?.retryAfterSeconds).toBeGreaterThan(0);
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe('flow:error');
+      expect(events[0].data).toMatchObject({ code: 'RATE_LIMITED', workflowId: 'wf', limit: 2 });
+    });
+
+    it('counts per user when perUser is set and resets with the window', async () => {
+      const limiter = new WorkflowRateLimiter(new MemoryRateLimitStore());
+      const def = limited(true);
+      const now = new Date('2026-05-10T09:00:10Z');
+
+      await limiter.check(def, { appId: 'app', userId: 'u1' }, now);
+      await limiter.check(def, { appId: 'app', userId: 'u1' }, now);
+      expect((await limiter.check(def, { appId: 'app', userId: 'u1' }, now))?.allowed).toBe(false);
+      expect((await limiter.check(def, { appId: 'app', userId: 'u2' }, now))?.allowed).toBe(true);
+
+      const nextWindow = new Date('2026-05-10T09:01:00Z');
+      expect((await limiter.check(def, { appId: 'app', userId: 'u1' }, nextWindow))?.allowed).toBe(true);
+    });
+  });
+});
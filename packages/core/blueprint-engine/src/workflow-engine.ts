@@ -5,7 +5,8 @@
  */
 
 import type { WorkflowDef, WorkflowAction, WorkflowTrigger, EntityDef } from './types.js';
-import { integrationRegistry } from '@neo/integrations';
+import { rateLimitMessage, type WorkflowRateLimiter, type RateLimitDecision } from './workflow-rate-limiter.js';
+import { integrationRegistry, integrationConfigService, integrationHttpClient, mapResponse } from '@neo/integrations';
 
 // ============================================================
 // WORKFLOW EXECUTION CONTEXT
@@ -19,13 +20,70 @@ export interface WorkflowContext {
   currentData?: Record<string, unknown>;
   variables: Record<string, unknown>;
   user?: { id: string; name?: string };
+  // Data changes applied during the run, used to compensate on rollback (managed by the engine)
+  appliedChanges?: AppliedChange[];
+  // Set while waits suspend the run instead of sleeping (managed by the engine)
+  durableWaits?: boolean;
+  // Variables the workflow declares, the only ones `$name` substitutes (managed by the engine)
+  declaredVariables?: string[];
+}
+
+/**
+ * A data change made by a workflow action, with what is needed to undo it
+ */
+export interface AppliedChange {
+  type: 'create' | 'update' | 'delete';
+  entityId: string;
+  recordId: string;
+  before?: Record<string, unknown>; // Record state before update/delete
+  changedFields?: string[]; // Fields written by an update
 }
 
 export interface ActionResult {
   success: boolean;
   data?: unknown;
   error?: string;
-  nextAction?: 'continue' | 'stop' | 'skip';
+  // 'rollback' stops the run and undoes its data changes
+  nextAction?: 'continue' | 'stop' | 'skip' | 'suspend' | 'rollback';
+  resumeAt?: string; // ISO date, set with nextAction 'suspend'
+  resume?: NestedResumePoint; // Set with 'suspend' when the wait was inside the action's body
+  attempts?: number; // Set when the action was retried
+}
+
+/**
+ * Where a suspended run picks up: the action at `index`, or inside its body
+ * when `nested` is set
+ */
+export interface ResumePoint {
+  index: number;
+  nested?: NestedResumePoint;
+}
+
+/**
+ * Where a suspended run picks up inside a conditional, loop or parallel body
+ * `errors` holds the failures from before the run was suspended.
+ */
+export type NestedResumePoint =
+  | { type: 'conditional'; branch: 'then' | 'else'; at: ResumePoint; errors: string[] }
+  | { type: 'loop'; items: unknown[]; pending: PendingBody[]; errors: string[] }
+  | { type: 'parallel'; pending: PendingBody[]; errors: string[] };
+
+/**
+ * A loop iteration or parallel branch waiting to resume
+ */
+export interface PendingBody {
+  index: number;
+  resumeAt: string;
+  at: ResumePoint;
+}
+
+/**
+ * Outcome of a nested sequence of actions; `suspended` is set when a durable
+ * wait ended it early
+ */
+interface SequenceOutcome {
+  results: ActionResult[];
+  suspended?: { resumeAt: string; at: ResumePoint };
 }
 
 export interface WorkflowResult {
@@ -34,8 +92,47 @@ export interface WorkflowResult {
   actionsExecuted: number;
   results: ActionResult[];
   error?: string;
+  rolledBack?: boolean;
+  fallbackResults?: ActionResult[];
+  // Set when the run was rejected by the workflow's rateLimit
+  rateLimited?: RateLimitDecision;
+  // Set when a wait suspended the run (durable waits only)
+  suspended?: {
+    resumeAt: string;
+    resumeIndex: number; // Top-level action to resume at (resumePoint.index)
+    resumePoint: ResumePoint;
+  };
 }
 
+export interface ExecuteWorkflowOptions {
+  /** Index of the first top-level action to run (used when resuming a wait) */
+  startIndex?: number;
+  /** Where to resume a suspended run, including nested bodies (takes precedence over startIndex) */
+  resumeFrom?: ResumePoint;
+  /**
+   * Return instead of sleeping when a wait is reached, including waits inside
+   * loops, parallels and conditionals, so the caller can persist the run and
+   * resume it later (server-side)
+   */
+  durableWaits?: boolean;
+}
+
+/** Default number of loop iterations / parallel branches running at once */
+const DEFAULT_CONCURRENCY = 5;
+
+/** Upper bound on loop items to protect against runaway workflows */
+const MAX_LOOP_ITEMS = 10000;
+
+/** Longest delay setTimeout accepts (longer inline waits sleep in chunks) */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/** Retries used by onError: 'retry' when retryCount is not set */
+const DEFAULT_RETRY_COUNT = 3;
+
+/** First retry delay (doubled on each attempt, see config.retryDelayMs) */
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 30000;
+
 // ============================================================
 // ACTION HANDLERS
 // ============================================================
@@ -43,7 +140,8 @@ export interface WorkflowResult {
 export type ActionHandler = (
   action: WorkflowAction,
   context: WorkflowContext,
-  api: WorkflowAPI
+  api: WorkflowAPI,
+  resume?: NestedResumePoint // Set when resuming inside the action's body
 ) => Promise<ActionResult>;
 
 export interface WorkflowAPI {
@@ -67,19 +165,61 @@ export interface WorkflowAPI {
   // Variables
   setVariable: (name: string, value: unknown) => void;
   getVariable: (name: string) => unknown;
+  
+  // Transactions (optional) - used for rollback when available,
+  // otherwise applied data changes are compensated one by one
+  beginTransaction?: () => void | Promise<void>;
+  commitTransaction?: () => void | Promise<void>;
+  rollbackTransaction?: () => void | Promise<void>;
+  
+  // Runtime events (optional) - e.g. 'flow:error' when a run is throttled
+  emitEvent?: (eventType: string, data: unknown) => void;
+
+  // Files (optional) - records exported to a stored file with a download URL
+  // (download_file, generate_pdf)
+  exportFile?: (request: WorkflowExportRequest) => Promise<{ url: string; fileName: string }>;
 }
 
+/** Records to export from a download_file or generate_pdf action */
+export interface WorkflowExportRequest {
+  entityId: string;
+  format: WorkflowExportFormat;
+  /** Only records whose fields equal these values */
+  filter?: Record<string, unknown>;
+  sort?: { field: string; direction?: 'asc' | 'desc' };
+  select?: string[];
+  title?: string;
+}
+
+export type WorkflowExportFormat = 'csv' | 'xlsx' | 'json' | 'pdf';
+
+const EXPORT_FILE_FORMATS: WorkflowExportFormat[] = ['csv', 'xlsx', 'json', 'pdf'];
+
+/** Variable that receives the download URL when the action does not name one */
+const DEFAULT_FILE_VARIABLE = 'fileUrl';
+
+/** Matches RuntimeEventType.FLOW_ERROR in @neo/runtime */
+const FLOW_ERROR_EVENT = 'flow:error';
+
 // ============================================================
 // WORKFLOW ENGINE
 // ============================================================
 
 export class WorkflowEngine {
   private actionHandlers: Map<string, ActionHandler> = new Map();
+  private rateLimiter: WorkflowRateLimiter | null = null;
 
   constructor() {
     this.registerDefaultHandlers();
   }
 
+  /**
+   * Enforce workflow `rateLimit` with the given limiter (disabled by default)
+   */
+  setRateLimiter(rateLimiter: WorkflowRateLimiter | null): void {
+    this.rateLimiter = rateLimiter;
+  }
+
   /**
    * Register default action handlers
    */
@@ -88,8 +228,9 @@ export class WorkflowEngine {
     this.actionHandlers.set('create_record', async (action, context, api) => {
       try {
         const entityId = action.config.entityId as string;
-        const data = this.resolveData(action.config.source as string, context);
+        const data = this.resolveActionData(action, context);
         const result = await api.createRecord(entityId, data);
+        context.appliedChanges?.push({ type: 'create', entityId, recordId: result.id });
         return { success: true, data: result };
       } catch (error: any) {
         return { success: false, error: error.message };
@@ -101,8 +242,12 @@ export class WorkflowEngine {
       try {
         const entityId = action.config.entityId as string;
         const recordId = context.recordId || action.config.recordId as string;
-        const data = this.resolveData(action.config.source as string, context);
+        const data = this.resolveActionData(action, context);
+        const before = context.appliedChanges ? await api.getRecord(entityId, recordId) : null;
         const result = await api.updateRecord(entityId, recordId, data);
+        if (before) {
+          context.appliedChanges?.push({ type: 'update', entityId, recordId, before, changedFields: Object.keys(data) });
+        }
         return { success: true, data: result };
       } catch (error: any) {
         return { success: false, error: error.message };
@@ -114,7 +259,11 @@ export class WorkflowEngine {
       try {
         const entityId = action.config.entityId as string;
         const recordId = context.recordId || action.config.recordId as string;
+        const before = context.appliedChanges ? await api.getRecord(entityId, recordId) : null;
         await api.deleteRecord(entityId, recordId);
+        if (before) {
+          context.appliedChanges?.push({ type: 'delete', entityId, recordId, before });
+        }
         return { success: true };
       } catch (error: any) {
         return { success: false, error: error.message };
@@ -190,21 +339,152 @@ export class WorkflowEngine {
     });
 
     // Conditional
-    this.actionHandlers.set('conditional', async (action, context, api) => {
+    this.actionHandlers.set('conditional', async (action, context, api, resume) => {
+      const resumed = resume?.type === 'conditional' ? resume : undefined;
       const condition = action.condition;
-      const result = condition ? this.evaluateCondition(condition, context) : true;
+      const branchName = resumed?.branch
+        ?? ((condition ? this.evaluateCondition(condition, context) : true) ? 'then' : 'else');
+
+      const branch: WorkflowAction[] | undefined = branchName === 'then' ? action.thenActions : action.elseActions;
+      if (!branch) {
+        return { success: true };
+      }
+
+      const { results, suspended } = await this.executeActions(branch, context, api, resumed?.at);
+      const errors = [
+        ...(resumed?.errors || []),
+        ...results.filter(r => !r.success).map(r => r.error || 'action failed'),
+      ];
+      if (suspended) {
+        return this.suspendBody(suspended.resumeAt, { type: 'conditional', branch: branchName, at: suspended.at, errors });
+      }
+
+      return {
+        success: errors.length === 0,
+        ...(errors.length > 0 && { error: errors.join(', ') }),
+        ...this.propagateControl(results),
+      };
+    });
+
+    // Loop - run itemActions once per item, each iteration with its own variable scope
+    // Resumed loops only continue the iterations that were waiting, over the items they started with
+    this.actionHandlers.set('loop', async (action, context, api, resume) => {
+      const resumed = resume?.type === 'loop' ? resume : undefined;
+      const items = resumed ? resumed.items : this.resolveItems(action.items ?? action.config.items, context);
+      if (!items) {
+        return { success: false, error: 'Loop items must resolve to an array' };
+      }
+      if (items.length > MAX_LOOP_ITEMS) {
+        return { success: false, error: `Loop exceeds ${MAX_LOOP_ITEMS} items` };
+      }
+
+      const itemActions: WorkflowAction[] = action.itemActions || [];
+      const itemVariable = (action.config.itemVariable as string) || 'item';
+      const indexVariable = (action.config.indexVariable as string) || 'index';
+      const concurrency = Math.max(1, Number(action.config.concurrency) || 1);
+      const errors: string[] = [...(resumed?.errors || [])];
+      const control: ActionResult[] = [];
+      const [due, pending] = this.splitDue(resumed?.pending || []);
+      let stopped = false;
+
+      const runIteration = async (item: unknown, index: number, from?: ResumePoint): Promise<void> => {
+        if (stopped) return;
+
+        const scoped = this.createItemContext(context, item, { [itemVariable]: item, [indexVariable]: index });
+        const { results, suspended } = await this.executeActions(itemActions, scoped, api, from);
+
+        // Variables set inside the iteration (other than the item itself) stay visible afterwards
+        for (const [name, value] of Object.entries(scoped.variables)) {
+          if (name !== itemVariable && name !== indexVariable && context.variables[name] !== value) {
+            context.variables[name] = value;
+          }
+        }
 
-      if (result && action.thenActions) {
-        for (const thenAction of action.thenActions) {
-          await this.executeAction(thenAction, context, api);
+        for (const result of results) {
+          if (!result.success) errors.push(`Item ${index}: ${result.error || 'action failed'}`);
+          if (result.nextAction === 'stop' || result.nextAction === 'rollback') {
+            stopped = true;
+            control.push(result);
+          }
         }
-      } else if (!result && action.elseActions) {
-        for (const elseAction of action.elseActions) {
-          await this.executeAction(elseAction, context, api);
+        if (suspended) {
+          pending.push({ index, ...suspended });
         }
+      };
+
+      const iterations = resumed
+        ? due.map(body => () => runIteration(items[body.index], body.index, body.at))
+        : items.map((item, index) => () => runIteration(item, index));
+      await this.runWithConcurrency(iterations, concurrency);
+
+      if (pending.length > 0 && control.length === 0) {
+        return this.suspendBody(this.earliest(pending), { type: 'loop', items, pending, errors });
       }
 
-      return { success: true };
+      return {
+        success: errors.length === 0,
+        data: { count: items.length, failed: errors.length },
+        ...(errors.length > 0 && { error: errors.join('; ') }),
+        ...this.propagateControl(control),
+      };
+    });
+
+    // Parallel - run branches concurrently (bounded by config.concurrency)
+    // Resumed parallels only continue the branches that were waiting
+    this.actionHandlers.set('parallel', async (action, context, api, resume) => {
+      const resumed = resume?.type === 'parallel' ? resume : undefined;
+      const branches: WorkflowAction[][] = action.branches || [];
+      const concurrency = Math.max(1, Number(action.config.concurrency) || DEFAULT_CONCURRENCY);
+      const [due, pending] = this.splitDue(resumed?.pending || []);
+
+      const runBranch = async (index: number, from?: ResumePoint) => {
+        const { results, suspended } = await this.executeActions(branches[index] || [], context, api, from);
+        if (suspended) {
+          pending.push({ index, ...suspended });
+        }
+        return { index, results };
+      };
+
+      const branchResults = await this.runWithConcurrency(
+        resumed
+          ? due.map(body => () => runBranch(body.index, body.at))
+          : branches.map((_, index) => () => runBranch(index)),
+        concurrency
+      );
+
+      const errors = [
+        ...(resumed?.errors || []),
+        ...branchResults
+          .map(({ index, results }) => {
+            const failed = results.filter(r => !r.success);
+            return failed.length > 0
+              ? `Branch ${index}: ${failed.map(r => r.error || 'action failed').join(', ')}`
+              : null;
+          })
+          .filter((error): error is string => error !== null),
+      ];
+      const control = this.propagateControl(branchResults.flatMap(branch => branch.results));
+
+      if (pending.length > 0 && !control.nextAction) {
+        return this.suspendBody(this.earliest(pending), { type: 'parallel', pending, errors });
+      }
+
+      return {
+        success: errors.length === 0,
+        data: { branches: branches.length, failed: errors.length },
+        ...(errors.length > 0 && { error: errors.join('; ') }),
+        ...control,
+      };
+    });
+
+    // Wait - pause until config.until or for config.duration ('30s', '15m', '24h', '2d' or ms)
+    // The engine decides whether to sleep inline or suspend the run (see executeWorkflow)
+    this.actionHandlers.set('wait', async (action, context) => {
+      const resumeAt = this.resolveWaitUntil(action, context);
+      if (!resumeAt) {
+        return { success: false, error: 'Wait requires a valid duration or until date' };
+      }
+      return { success: true, nextAction: 'suspend', resumeAt: resumeAt.toISOString() };
     });
 
     // Call API (external - via integrations engine)
@@ -214,35 +494,33 @@ export class WorkflowEngine {
         const method = (action.config.method as string) || 'GET';
         const headers = action.config.headers as Record<string, string> | undefined;
         const body = action.config.body ? this.resolveData('body', { ...context, currentData: action.config.body as Record<string, unknown> }) : undefined;
-
-        // Try to use REST API integration if baseUrl matches
-        const restResult = await integrationRegistry.executeAction('rest_api', method.toLowerCase() as 'get' | 'post' | 'put' | 'delete', {
-          appId: context.appId,
-          userId: context.user?.id,
-          payload: { path: url, body, headers },
-          variables: context.variables,
-        });
-
-        if (restResult.success) {
+        const responseMapping = action.config.responseMapping as Record<string, string> | undefined;
+
+        // Use the REST API integration (base URL and auth) when the app has one
+        if (integrationConfigService.getIntegration(context.appId, 'rest_api')?.enabled) {
+          const restResult = await integrationRegistry.executeAction('rest_api', method.toLowerCase() as 'get' | 'post' | 'put' | 'delete', {
+            appId: context.appId,
+            userId: context.user?.id,
+            payload: { path: url, body, headers, responseMapping },
+            variables: context.variables,
+          });
+          if (!restResult.success) {
+            return { success: false, error: restResult.error, data: restResult.data };
+          }
+          this.assignVariables(restResult.data?.variables, context, api);
           return { success: true, data: restResult.data };
         }
 
-        // Fallback to direct fetch
-        const response = await fetch(url, {
-          method,
-          headers: {
-            'Content-Type': 'application/json',
-            ...headers,
-          },
-          body: body ? JSON.stringify(body) : undefined,
-        });
-
-        if (!response.ok) {
-          throw new Error(`API call failed: ${response.statusText}`);
+        // Direct request (same timeout, size and private-address limits as the integrations)
+        const response = await integrationHttpClient.request({ url, method, headers, body });
+        if (response.statusCode < 200 || response.statusCode >= 300) {
+          throw new Error(`API call failed: HTTP ${response.statusCode}`);
         }
 
-        const data = await response.json();
-        return { success: true, data };
+        if (responseMapping) {
+          this.assignVariables(mapResponse(response, responseMapping), context, api);
+        }
+        return { success: true, data: response.body };
       } catch (error: any) {
         return { success: false, error: error.message };
       }
@@ -425,30 +703,36 @@ export class WorkflowEngine {
             )
           : payload;
 
-        // Try to use webhook integration if configured (requires URL in config)
-        // For now, fallback to direct fetch since webhook integration needs URL in settings
-        // In future, we can check if webhook integration exists and use it
+        const responseMapping = action.config.responseMapping as Record<string, string> | undefined;
 
-        // Fallback to direct fetch if integration not configured
+        // Without a URL on the action, send through the app's webhook integration
         if (!url) {
-          return { success: false, error: 'Webhook URL not configured' };
+          if (!integrationConfigService.getIntegration(context.appId, 'webhook')?.enabled) {
+            return { success: false, error: 'Webhook URL not configured' };
+          }
+          const result = await integrationRegistry.executeAction('webhook', 'trigger', {
+            appId: context.appId,
+            userId: context.user?.id,
+            payload: { method, headers, body: processedPayload, responseMapping },
+            variables: context.variables,
+          });
+          if (!result.success) {
+            return { success: false, error: result.error, data: result.data };
+          }
+          this.assignVariables(result.data?.variables, context, api);
+          return { success: true, data: result.data };
         }
 
-        const response = await fetch(url, {
-          method,
-          headers: {
-            'Content-Type': 'application/json',
-            ...headers,
-          },
-          body: JSON.stringify(processedPayload),
-        });
-
-        if (!response.ok) {
-          throw new Error(`Webhook call failed: ${response.statusText}`);
+        // Direct request (same timeout, size and private-address limits as the integrations)
+        const response = await integrationHttpClient.request({ url, method, headers, body: processedPayload });
+        if (response.statusCode < 200 || response.statusCode >= 300) {
+          throw new Error(`Webhook call failed: HTTP ${response.statusCode}`);
         }
 
-        const data = await response.json().catch(() => ({}));
-        return { success: true, data };
+        if (responseMapping) {
+          this.assignVariables(mapResponse(response, responseMapping), context, api);
+        }
+        return { success: true, data: response.body ?? {} };
       } catch (error: any) {
         return { success: false, error: error.message };
       }
@@ -458,6 +742,30 @@ export class WorkflowEngine {
     this.actionHandlers.set('webhook', async (action, context, api) => {
       return this.actionHandlers.get('trigger_webhook')!(action, context, api);
     });
+
+    // Generate a PDF table of records
+    this.actionHandlers.set('generate_pdf', async (action, context, api) => {
+      return this.exportFile(action, context, api, 'pdf');
+    });
+
+    // Download file: an existing URL, or records exported as CSV, XLSX, JSON or PDF
+    this.actionHandlers.set('download_file', async (action, context, api) => {
+      const variable = (action.config.variable as string) || DEFAULT_FILE_VARIABLE;
+      if (action.config.url) {
+        const url = this.interpolate(action.config.url as string, context);
+        const fileName = action.config.fileName
+          ? this.interpolate(action.config.fileName as string, context)
+          : decodeURIComponent(url.split('?')[0].split('/').pop() || 'download');
+        this.assignVariables({ [variable]: url }, context, api);
+        return { success: true, data: { url, fileName } };
+      }
+
+      const format = (action.config.format as WorkflowExportFormat | undefined) || 'csv';
+      if (!EXPORT_FILE_FORMATS.includes(format)) {
+        return { success: false, error: `Unsupported file format: ${format}` };
+      }
+      return this.exportFile(action, context, api, format);
+    });
   }
 
   /**
@@ -473,7 +781,8 @@ export class WorkflowEngine {
   async executeWorkflow(
     workflow: WorkflowDef,
     context: WorkflowContext,
-    api: WorkflowAPI
+    api: WorkflowAPI,
+    options: ExecuteWorkflowOptions = {}
   ): Promise<WorkflowResult> {
     if (!workflow.enabled) {
       return {
@@ -485,66 +794,501 @@ export class WorkflowEngine {
       };
     }
 
+    // Resumed runs were already counted when they started
+    if (this.rateLimiter && !options.startIndex && !options.resumeFrom) {
+      const decision = await this.rateLimiter.check(workflow, {
+        appId: context.appId,
+        userId: context.user?.id,
+      });
+
+      if (decision && !decision.allowed) {
+        const error = rateLimitMessage(decision);
+        api.emitEvent?.(FLOW_ERROR_EVENT, {
+          code: 'RATE_LIMITED',
+          workflowId: workflow.id,
+          appId: context.appId,
+          userId: context.user?.id,
+          error,
+          retryAfterSeconds: decision.retryAfterSeconds,
+          resetAt: decision.resetAt,
+          limit: decision.limit,
+          windowSeconds: decision.windowSeconds,
+        });
+
+        return {
+          success: false,
+          workflowId: workflow.id,
+          actionsExecuted: 0,
+          results: [],
+          error,
+          rateLimited: decision,
+        };
+      }
+    }
+
     const results: ActionResult[] = [];
     let actionsExecuted = 0;
+    let error: string | undefined;
+    let rollbackRequested = false;
+
+    // Rollback uses the API's transaction when it has one, otherwise a journal of applied changes
+    const canRollBack = workflow.onError?.action === 'rollback' || this.hasRollbackAction(workflow.actions);
+    const useTransaction = canRollBack && !!api.beginTransaction && !!api.rollbackTransaction;
+    context.appliedChanges = canRollBack && !useTransaction ? [] : undefined;
+    context.durableWaits = options.durableWaits || undefined;
+    context.declaredVariables = this.collectDeclaredVariables(workflow);
+    const from = options.resumeFrom || (options.startIndex ? { index: options.startIndex } : undefined);
 
     try {
-      for (const action of workflow.actions) {
-        const result = await this.executeAction(action, context, api);
+      if (useTransaction) {
+        await api.beginTransaction!();
+      }
+
+      for (let index = from?.index || 0; index < workflow.actions.length; index++) {
+        const resume = index === from?.index ? from.nested : undefined;
+        const result = await this.executeAction(workflow.actions[index], context, api, resume);
         results.push(result);
         actionsExecuted++;
 
-        if (!result.success && workflow.onError?.action === 'stop') {
+        if (result.nextAction === 'rollback') {
+          rollbackRequested = true;
           break;
         }
 
+        // Actions without their own policy fall back to the workflow's onError
+        if (!result.success && result.nextAction !== 'continue') {
+          const policy = workflow.onError?.action;
+          if (policy === 'rollback') {
+            rollbackRequested = true;
+            break;
+          }
+          if (policy === 'stop' || policy === 'notify') {
+            break;
+          }
+        }
+
         if (result.nextAction === 'stop') {
           break;
         }
+
+        if (result.nextAction === 'suspend' && result.resumeAt) {
+          if (options.durableWaits) {
+            // A suspended run can't hold a transaction open until it resumes
+            if (useTransaction) {
+              await api.commitTransaction?.();
+            }
+            context.appliedChanges = undefined;
+            context.durableWaits = undefined;
+            const resumePoint = this.resumePointAfter(index, result);
+            return {
+              success: results.every(r => r.success),
+              workflowId: workflow.id,
+              actionsExecuted,
+              results,
+              suspended: { resumeAt: result.resumeAt, resumeIndex: resumePoint.index, resumePoint },
+            };
+          }
+          await this.sleepUntil(result.resumeAt);
+        }
       }
+    } catch (err: any) {
+      error = err.message;
+      rollbackRequested = canRollBack;
+    }
 
-      const success = results.every(r => r.success);
+    const success = !error && !rollbackRequested && results.every(r => r.success);
 
-      return {
-        success,
-        workflowId: workflow.id,
-        actionsExecuted,
-        results,
-      };
-    } catch (error: any) {
+    let rolledBack = false;
+    if (rollbackRequested) {
+      const rollbackErrors = await this.rollback(context, api, useTransaction);
+      rolledBack = rollbackErrors.length === 0;
+      if (!rolledBack) {
+        error = [error, `Rollback incomplete: ${rollbackErrors.join('; ')}`].filter(Boolean).join('. ');
+      }
+    } else if (useTransaction) {
+      await api.commitTransaction?.();
+    }
+    context.appliedChanges = undefined;
+    context.durableWaits = undefined;
+
+    let fallbackResults: ActionResult[] | undefined;
+    if (!success) {
       if (workflow.onError?.notification) {
         api.showNotification(workflow.onError.notification, 'error');
       }
 
-      return {
-        success: false,
-        workflowId: workflow.id,
-        actionsExecuted,
-        results,
-        error: error.message,
-      };
+      const fallbackActions: WorkflowAction[] | undefined = workflow.onError?.fallbackActions;
+      if (fallbackActions?.length) {
+        context.variables.error = error || results.find(r => !r.success)?.error;
+        fallbackResults = (await this.executeActions(fallbackActions, context, api)).results;
+      }
     }
+
+    return {
+      success,
+      workflowId: workflow.id,
+      actionsExecuted,
+      results,
+      ...(error && { error }),
+      ...(rollbackRequested && { rolledBack }),
+      ...(fallbackResults && { fallbackResults }),
+    };
   }
 
   /**
    * Execute a single action
+   * Failed actions are retried (retryCount, exponential backoff), then their
+   * onError policy decides whether the run continues, stops or rolls back.
    */
   private async executeAction(
     action: WorkflowAction,
     context: WorkflowContext,
-    api: WorkflowAPI
+    api: WorkflowAPI,
+    resume?: NestedResumePoint
   ): Promise<ActionResult> {
-    // Check condition
-    if (action.condition && !this.evaluateCondition(action.condition, context)) {
+    // Check condition (a resumed action already passed it)
+    if (!resume && action.condition && !this.evaluateCondition(action.condition, context)) {
       return { success: true, nextAction: 'skip' };
     }
 
     const handler = this.actionHandlers.get(action.type);
     if (!handler) {
-      return { success: false, error: `Unknown action type: ${action.type}` };
+      return this.applyErrorPolicy(action, { success: false, error: `Unknown action type: ${action.type}` });
+    }
+
+    const retries = action.retryCount ?? (action.onError === 'retry' ? DEFAULT_RETRY_COUNT : 0);
+    const baseDelay = Number(action.config?.retryDelayMs) || RETRY_BASE_DELAY_MS;
+
+    let result = await this.runHandler(handler, action, context, api, resume);
+    let attempts = 1;
+    while (!result.success && attempts <= retries) {
+      await this.delay(Math.min(baseDelay * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS));
+      result = await this.runHandler(handler, action, context, api, resume);
+      attempts++;
+    }
+
+    if (attempts > 1) {
+      result = { ...result, attempts };
+    }
+
+    return result.success ? result : this.applyErrorPolicy(action, result);
+  }
+
+  /**
+   * Run a handler, turning thrown errors into failed results
+   */
+  private async runHandler(
+    handler: ActionHandler,
+    action: WorkflowAction,
+    context: WorkflowContext,
+    api: WorkflowAPI,
+    resume?: NestedResumePoint
+  ): Promise<ActionResult> {
+    try {
+      return await handler(action, context, api, resume);
+    } catch (error: any) {
+      return { success: false, error: error?.message || 'Action failed' };
+    }
+  }
+
+  /**
+   * Apply an action's onError policy to its failed result
+   */
+  private applyErrorPolicy(action: WorkflowAction, result: ActionResult): ActionResult {
+    switch (action.onError) {
+      case 'stop':
+        return { ...result, nextAction: 'stop' };
+      case 'continue':
+        return { ...result, nextAction: 'continue' };
+      case 'rollback':
+        return { ...result, nextAction: 'rollback' };
+      default:
+        return result;
     }
+  }
 
-    return handler(action, context, api);
+  /**
+   * Carry stop/rollback requests from nested actions up to the parent action
+   */
+  private propagateControl(results: ActionResult[]): Pick<ActionResult, 'nextAction'> {
+    if (results.some(r => r.nextAction === 'rollback')) return { nextAction: 'rollback' };
+    if (results.some(r => r.nextAction === 'stop')) return { nextAction: 'stop' };
+    return {};
+  }
+
+  /**
+   * Check whether any action (including nested ones) rolls back on error
+   */
+  private hasRollbackAction(actions: WorkflowAction[] = []): boolean {
+    return actions.some((action: WorkflowAction) =>
+      action.onError === 'rollback' ||
+      this.hasRollbackAction(action.thenActions) ||
+      this.hasRollbackAction(action.elseActions) ||
+      this.hasRollbackAction(action.itemActions) ||
+      (action.branches || []).some((branch: WorkflowAction[]) => this.hasRollbackAction(branch))
+    );
+  }
+
+  /**
+   * Variables a workflow declares itself: its `variables` block (filled from
+   * webhook payloads), set_variable names, responseMapping targets, loop
+   * item/index variables and `error` (set for fallback actions)
+   */
+  private collectDeclaredVariables(workflow: WorkflowDef): string[] {
+    const declared = (workflow as { variables?: Record<string, unknown> }).variables;
+    const names = new Set<string>(['error', ...Object.keys(declared ?? {})]);
+    const visit = (actions: WorkflowAction[] = []): void => {
+      for (const action of actions) {
+        if (action.type === 'set_variable' && typeof action.config.name === 'string') {
+          names.add(action.config.name);
+        }
+        const responseMapping = action.config?.responseMapping;
+        if (responseMapping && typeof responseMapping === 'object') {
+          Object.keys(responseMapping).forEach(name => names.add(name));
+        }
+        if (action.type === 'loop') {
+          names.add((action.config.itemVariable as string) || 'item');
+          names.add((action.config.indexVariable as string) || 'index');
+        }
+        visit(action.thenActions);
+        visit(action.elseActions);
+        visit(action.itemActions);
+        (action.branches || []).forEach(visit);
+      }
+    };
+
+    visit(workflow.actions);
+    visit(workflow.onError?.fallbackActions);
+    return [...names];
+  }
+
+  /**
+   * Undo the data changes of the run
+   * Returns the changes that could not be undone.
+   */
+  private async rollback(context: WorkflowContext, api: WorkflowAPI, useTransaction: boolean): Promise<string[]> {
+    if (useTransaction) {
+      try {
+        await api.rollbackTransaction!();
+        return [];
+      } catch (error: any) {
+        return [error?.message || 'Transaction rollback failed'];
+      }
+    }
+
+    const errors: string[] = [];
+    const changes = (context.appliedChanges || []).splice(0).reverse();
+
+    for (const change of changes) {
+      try {
+        switch (change.type) {
+          case 'create':
+            await api.deleteRecord(change.entityId, change.recordId);
+            break;
+          case 'update': {
+            const restore: Record<string, unknown> = { ...change.before };
+            for (const field of change.changedFields || []) {
+              if (!(field in restore)) restore[field] = null;
+            }
+            await api.updateRecord(change.entityId, change.recordId, restore);
+            break;
+          }
+          case 'delete':
+            await api.createRecord(change.entityId, { ...change.before });
+            break;
+        }
+      } catch (error: any) {
+        errors.push(`${change.type} ${change.entityId}/${change.recordId}: ${error?.message || 'undo failed'}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Execute a nested sequence of actions (conditional, loop and parallel bodies)
+   * Waits sleep inline, or with durable waits end the sequence so the parent
+   * action can suspend the run (see suspendBody).
+   */
+  private async executeActions(
+    actions: WorkflowAction[],
+    context: WorkflowContext,
+    api: WorkflowAPI,
+    from?: ResumePoint
+  ): Promise<SequenceOutcome> {
+    const results: ActionResult[] = [];
+
+    for (let index = from?.index || 0; index < actions.length; index++) {
+      const resume = index === from?.index ? from.nested : undefined;
+      const result = await this.executeAction(actions[index], context, api, resume);
+      results.push(result);
+
+      if (result.nextAction === 'stop' || result.nextAction === 'rollback') {
+        break;
+      }
+      if (result.nextAction === 'suspend' && result.resumeAt) {
+        if (context.durableWaits) {
+          return { results, suspended: { resumeAt: result.resumeAt, at: this.resumePointAfter(index, result) } };
+        }
+        await this.sleepUntil(result.resumeAt);
+      }
+    }
+
+    return { results };
+  }
+
+  /**
+   * Where to pick up after the action at `index` suspended: inside its body
+   * when the wait was nested, otherwise at the next action
+   */
+  private resumePointAfter(index: number, result: ActionResult): ResumePoint {
+    return result.resume ? { index, nested: result.resume } : { index: index + 1 };
+  }
+
+  /**
+   * Result of a conditional, loop or parallel whose body suspended the run
+   */
+  private suspendBody(resumeAt: string, resume: NestedResumePoint): ActionResult {
+    return { success: true, nextAction: 'suspend', resumeAt, resume };
+  }
+
+  /**
+   * Split waiting iterations/branches into those due now and those still waiting
+   */
+  private splitDue(bodies: PendingBody[]): [PendingBody[], PendingBody[]] {
+    const now = Date.now();
+    return [
+      bodies.filter(body => new Date(body.resumeAt).getTime() <= now),
+      bodies.filter(body => new Date(body.resumeAt).getTime() > now),
+    ];
+  }
+
+  /**
+   * Earliest resume date of waiting iterations/branches
+   */
+  private earliest(bodies: PendingBody[]): string {
+    return bodies.reduce((min, body) => (body.resumeAt < min ? body.resumeAt : min), bodies[0].resumeAt);
+  }
+
+  /**
+   * Run async tasks with at most `limit` in flight, preserving result order
+   */
+  private async runWithConcurrency<T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T[]> {
+    const results: T[] = new Array(tasks.length);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < tasks.length) {
+        const index = next++;
+        results[index] = await tasks[index]();
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, () => worker()));
+    return results;
+  }
+
+  /**
+   * Build the context for a single loop iteration
+   * The item is exposed as a variable; record items also become the current record.
+   */
+  private createItemContext(
+    context: WorkflowContext,
+    item: unknown,
+    scope: Record<string, unknown>
+  ): WorkflowContext {
+    const record = item && typeof item === 'object' && !Array.isArray(item)
+      ? item as Record<string, unknown>
+      : undefined;
+    const itemId = record?.id ?? (typeof item === 'string' || typeof item === 'number' ? item : undefined);
+
+    return {
+      ...context,
+      recordId: itemId !== undefined ? String(itemId) : context.recordId,
+      currentData: record || context.currentData,
+      variables: { ...context.variables, ...scope },
+    };
+  }
+
+  /**
+   * Resolve loop items from an array, `$name.path`, `{path}` or a variable name
+   */
+  private resolveItems(source: unknown, context: WorkflowContext): unknown[] | null {
+    if (Array.isArray(source)) return source;
+    if (typeof source !== 'string' || !source.trim()) return null;
+
+    const reference = source.trim().replace(/^\{(.*)\}$/, '$1');
+    let value: unknown;
+
+    if (reference.startsWith('$')) {
+      value = this.getPath(context.variables, reference.slice(1));
+    } else {
+      value = this.getPath(context, reference);
+      if (value === undefined) {
+        value = this.getPath(context.variables, reference);
+      }
+    }
+
+    return Array.isArray(value) ? value : null;
+  }
+
+  /**
+   * Resolve when a wait action should resume
+   */
+  private resolveWaitUntil(action: WorkflowAction, context: WorkflowContext): Date | null {
+    const until = action.config.until;
+    if (until !== undefined) {
+      const date = new Date(this.resolveValue(until, context) as string);
+      return isNaN(date.getTime()) ? null : date;
+    }
+
+    const duration = action.config.duration;
+    const ms = typeof duration === 'number'
+      ? duration
+      : this.parseDuration(String(this.resolveValue(duration, context) ?? ''));
+
+    return ms === null || ms < 0 ? null : new Date(Date.now() + ms);
+  }
+
+  /**
+   * Parse a duration like '30s', '15m', '24h', '2d' (bare numbers are milliseconds)
+   */
+  private parseDuration(duration: string): number | null {
+    const match = duration.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/);
+    if (!match) return null;
+
+    const units: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000, d: 86400000 };
+    return Math.round(Number(match[1]) * units[match[2] || 'ms']);
+  }
+
+  /**
+   * Sleep until the given ISO date (no-op if it already passed)
+   */
+  private async sleepUntil(resumeAt: string): Promise<void> {
+    await this.delay(new Date(resumeAt).getTime() - Date.now());
+  }
+
+  private async delay(ms: number): Promise<void> {
+    while (ms > 0) {
+      const chunk = Math.min(ms, MAX_TIMEOUT_MS);
+      await new Promise(resolve => setTimeout(resolve, chunk));
+      ms -= chunk;
+    }
+  }
+
+  /**
+   * Read a dotted path from an object
+   */
+  private getPath(source: unknown, path: string): unknown {
+    let value: unknown = source;
+    for (const part of path.split('.')) {
+      if (value && typeof value === 'object') {
+        value = (value as Record<string, unknown>)[part];
+      } else {
+        return undefined;
+      }
+    }
+    return value;
   }
 
   /**
@@ -610,6 +1354,21 @@ export class WorkflowEngine {
     }
   }
 
+  /**
+   * Resolve the record data for a data action
+   * Inline `config.data` (interpolated) takes precedence over `config.source`,
+   * so workflows that run without a form (schedules, webhooks) can write records
+   */
+  private resolveActionData(action: WorkflowAction, context: WorkflowContext): Record<string, unknown> {
+    const inline = action.config.data as Record<string, unknown> | undefined;
+    if (inline && typeof inline === 'object') {
+      return Object.fromEntries(
+        Object.entries(inline).map(([key, value]) => [key, this.resolveValue(value, context)])
+      );
+    }
+    return this.resolveData(action.config.source as string, context);
+  }
+
   /**
    * Resolve a value with interpolation
    */
@@ -621,23 +1380,73 @@ export class WorkflowEngine {
   }
 
   /**
-   * Interpolate template strings
+   * Copy mapped response values into workflow variables
    */
-  private interpolate(template: string, context: WorkflowContext): string {
-    return template.replace(/\{(\w+(?:\.\w+)*)\}/g, (match, path) => {
-      const parts = path.split('.');
-      let value: unknown = context;
+  private assignVariables(
+    variables: Record<string, unknown> | undefined,
+    context: WorkflowContext,
+    api: WorkflowAPI
+  ): void {
+    for (const [name, value] of Object.entries(variables || {})) {
+      api.setVariable(name, value);
+      context.variables[name] = value;
+    }
+  }
 
-      for (const part of parts) {
-        if (value && typeof value === 'object') {
-          value = (value as Record<string, unknown>)[part];
-        } else {
-          return match;
-        }
-      }
+  /**
+   * Export the records an action names to a file and keep its URL in a variable
+   */
+  private async exportFile(
+    action: WorkflowAction,
+    context: WorkflowContext,
+    api: WorkflowAPI,
+    format: WorkflowExportFormat
+  ): Promise<ActionResult> {
+    if (!api.exportFile) {
+      return { success: false, error: 'File exports are not available here' };
+    }
+    const entityId = (action.config.entityId as string | undefined) || context.entityId;
+    if (!entityId) {
+      return { success: false, error: `${action.type} requires an entityId` };
+    }
 
-      return value !== undefined ? String(value) : match;
-    });
+    const filter = action.config.filter as Record<string, unknown> | undefined;
+    try {
+      const file = await api.exportFile({
+        entityId,
+        format,
+        filter: filter && Object.fromEntries(
+          Object.entries(filter).map(([field, value]) => [field, typeof value === 'string' ? this.interpolate(value, context) : value])
+        ),
+        sort: action.config.sort as WorkflowExportRequest['sort'],
+        select: action.config.select as string[] | undefined,
+        title: action.config.title ? this.interpolate(action.config.title as string, context) : undefined,
+      });
+      this.assignVariables({ [(action.config.variable as string) || DEFAULT_FILE_VARIABLE]: file.url }, context, api);
+      api.showNotification(`${file.fileName} is ready`, 'success');
+      return { success: true, data: file };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Interpolate template strings
+   * `{path}` reads from the context, `$name.path` reads from variables the workflow
+   * declares (e.g. `$item.email` in loops)
+   */
+  private interpolate(template: string, context: WorkflowContext): string {
+    return template
+      .replace(/\{(\w+(?:\.\w+)*)\}/g, (match, path) => {
+        const value = this.getPath(context, path);
+        return value !== undefined ? String(value) : match;
+      })
+      .replace(/\$([A-Za-z_]\w*)((?:\.\w+)*)/g, (match, name, path) => {
+        // Other `$word`s are literal text (prices, template syntax, ...)
+        if (!context.declaredVariables?.includes(name)) return match;
+        const value = this.getPath(context.variables, name + path);
+        return value !== undefined && value !== null && typeof value !== 'object' ? String(value) : match;
+      });
   }
 
   /**
@@ -0,0 +1,130 @@
+/**
+ * Workflow Rate Limiter
+ * Enforces a workflow's `rateLimit` (maxExecutions per windowSeconds)
+ * using fixed windows counted in a pluggable store
+ */
+
+import type { WorkflowDef } from './types.js';
+
+// ============================================================
+// STORE
+// ============================================================
+
+export interface RateLimitHit {
+  /** Executions counted in the current window, including this one */
+  count: number;
+  /** When the current window ends */
+  resetAt: Date;
+}
+
+/**
+ * Shared execution counter
+ * Implementations must increment atomically so concurrent callers see distinct counts.
+ */
+export interface RateLimitStore {
+  increment(key: string, windowSeconds: number, now?: Date): Promise<RateLimitHit>;
+}
+
+/**
+ * In-memory store (single process)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, { resetAt: number; count: number }>();
+
+  async increment(key: string, windowSeconds: number, now: Date = new Date()): Promise<RateLimitHit> {
+    const windowMs = windowSeconds * 1000;
+    const resetAt = (Math.floor(now.getTime() / windowMs) + 1) * windowMs;
+
+    const current = this.windows.get(key);
+    const entry = current && current.resetAt === resetAt ? current : { resetAt, count: 0 };
+    entry.count++;
+    this.windows.set(key, entry);
+
+    if (this.windows.size > 10000) {
+      this.prune(now);
+    }
+
+    return { count: entry.count, resetAt: new Date(resetAt) };
+  }
+
+  /**
+   * Drop windows that already ended
+   */
+  private prune(now: Date): void {
+    for (const [key, entry] of this.windows) {
+      if (entry.resetAt <= now.getTime()) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+// ============================================================
+// LIMITER
+// ============================================================
+
+/**
+ * Error message for a run the limiter refused
+ */
+export function rateLimitMessage(decision: RateLimitDecision): string {
+  return `Rate limit exceeded: ${decision.limit} executions per ${decision.windowSeconds}s. Retry in ${decision.retryAfterSeconds}s`;
+}
+
+export interface RateLimitSubject {
+  appId: string;
+  userId?: string;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  windowSeconds: number;
+  resetAt: string;
+  /** Seconds until the window resets (0 when allowed) */
+  retryAfterSeconds: number;
+  key: string;
+}
+
+/**
+ * Workflow Rate Limiter class
+ */
+export class WorkflowRateLimiter {
+  constructor(private store: RateLimitStore = new MemoryRateLimitStore()) {}
+
+  /**
+   * Count an execution of the workflow and decide whether it may run
+   * Returns null when the workflow has no (valid) rate limit.
+   */
+  async check(workflow: WorkflowDef, subject: RateLimitSubject, now: Date = new Date()): Promise<RateLimitDecision | null> {
+    const rateLimit = workflow.rateLimit;
+    if (!rateLimit || !(rateLimit.maxExecutions > 0) || !(rateLimit.windowSeconds > 0)) {
+      return null;
+    }
+
+    const key = this.getKey(workflow, subject);
+    const hit = await this.store.increment(key, rateLimit.windowSeconds, now);
+    const allowed = hit.count <= rateLimit.maxExecutions;
+
+    return {
+      allowed,
+      limit: rateLimit.maxExecutions,
+      remaining: Math.max(0, rateLimit.maxExecutions - hit.count),
+      windowSeconds: rateLimit.windowSeconds,
+      resetAt: hit.resetAt.toISOString(),
+      retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((hit.resetAt.getTime() - now.getTime()) / 1000)),
+      key,
+    };
+  }
+
+  /**
+   * Counter key: app + workflow, plus the user when the limit is per user
+   */
+  private getKey(workflow: WorkflowDef, subject: RateLimitSubject): string {
+    const base = `workflow:${subject.appId}:${workflow.id}`;
+    if (!workflow.rateLimit?.perUser) {
+      return base;
+    }
+    return `${base}:user:${subject.userId || 'anonymous'}`;
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { AccessFilterCompiler, type RowAccessRule } from './access-filter.js';
+import { QueryBuilder } from './query-builder.js';
+
+const compiler = new AccessFilterCompiler();
+const hierarchy: Record<string, number> = { owner: 100, admin: 90, editor: 50, viewer: 10, public: 0 };
+const context = (role: string, userId?: string) => ({
+  userId,
+  role,
+  hasRole: (ruleRole: string) => (hierarchy[role] ?? -1) >= (hierarchy[ruleRole] ?? Infinity),
+});
+
+function toSql(rules: RowAccessRule[], role: string, userId?: string) {
+  const filter = compiler.compileRules(rules, 'task', context(role, userId));
+  const qb = new QueryBuilder('tasks').where({ field: 'status', operator: 'eq', value: 'open' });
+  if (filter) qb.whereGroup(filter);
+  return qb.buildCount();
+}
+
+describe('AccessFilterCompiler', () => {
+  const ownRows: RowAccessRule = {
+    type: 'row_access',
+    entityId: 'task',
+    roles: ['viewer'],
+    condition: "assignedTo == current_user || status in ['public', 'shared']",
+    allow: { read: true },
+  };
+
+  it('compiles conditions into parameterized filters', () => {
+    const { sql, params } = toSql([ownRows], 'viewer', "u1' OR 1=1 --");
+    expect(sql).toContain('WHERE "status" = $1 AND (("assigned_to" = $2 OR ("status" = ANY($3))))');
+    expect(params).toEqual(['open', "u1' OR 1=1 --", ['public', 'shared']]);
+  });
+
+  it('hides every row when no rule grants the role', () => {
+    const { sql } = toSql([{ ...ownRows, roles: ['editor'] }], 'viewer', 'u1');
+    expect(sql).toContain('AND FALSE');
+  });
+
+  it('resolves role checks before querying', () => {
+    const rule: RowAccessRule = { ...ownRows, condition: "has_role('admin') || ownerId == current_user" };
+    expect(toSql([rule], 'owner', 'u1').sql).toContain('AND ((TRUE OR "owner_id" = $2))');
+  });
+
+  it('keeps NULL semantics of the expression language', () => {
+    const filter = compiler.compileCondition("status != 'done'", context('viewer'));
+    expect(filter).toEqual({
+      logic: 'or',
+      filters: [
+        { field: 'status', operator: 'isNull', value: null },
+        { field: 'status', operator: 'neq', value: 'done' },
+      ],
+    });
+  });
+
+  it('grants nothing for conditions that cannot be compiled', () => {
+    const rule: RowAccessRule = { ...ownRows, condition: 'price * qty > 100' };
+    expect(compiler.compileRules([rule], 'task', context('viewer'))).toEqual({ logic: 'or', filters: [] });
+  });
+
+  it('returns null when the entity has no row rules', () => {
+    expect(compiler.compileRules([ownRows], 'project', context('viewer'))).toBeNull();
+  });
+
+  it('quotes field names taken from filters', () => {
+    const { sql } = new QueryBuilder('tasks')
+      .where({ field: 'x" = \'a\' or 1=1 --', operator: 'eq', value: 1 })
+      .buildCount();
+    expect(sql).toContain('WHERE "x"" = \'a\' or 1=1 --" = $1');
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Access Filter Compiler
+ * Compiles row-level access rule conditions into parameterized query filters,
+ * so rows a user may not see are never fetched (and never counted)
+ */
+
+import { evaluateExpression, parseExpression, ExpressionError, type ExpressionNode } from '@neo/contracts';
+import type { QueryCondition, FilterOperator } from './types.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Row access rule (matches the `row_access` rules of blueprint-engine permissions)
+ */
+export interface RowAccessRule {
+  type: string;
+  entityId?: string;
+  roles: string[];
+  condition?: string;
+  allow?: { read?: boolean };
+  enabled?: boolean;
+}
+
+export interface AccessFilterContext {
+  userId?: string;
+  role: string;
+  /** Whether the user's role grants the given role (role hierarchy) */
+  hasRole: (role: string) => boolean;
+}
+
+/** Matches every row */
+const MATCH_ALL: QueryCondition = { logic: 'and', filters: [] };
+
+/** Matches no row */
+const MATCH_NONE: QueryCondition = { logic: 'or', filters: [] };
+
+const FLIPPED: Partial<Record<FilterOperator, FilterOperator>> = {
+  gt: 'lt',
+  gte: 'lte',
+  lt: 'gt',
+  lte: 'gte',
+};
+
+const COMPARISONS: Record<string, FilterOperator> = {
+  '==': 'eq',
+  '===': 'eq',
+  '!=': 'neq',
+  '!==': 'neq',
+  '<': 'lt',
+  '<=': 'lte',
+  '>': 'gt',
+  '>=': 'gte',
+};
+
+// ============================================================
+// ACCESS FILTER COMPILER
+// ============================================================
+
+export class AccessFilterCompiler {
+  /**
+   * Compile the row rules of an entity into a single access filter
+   * A row is visible when any rule for the user's role allows read and its condition holds
+   * (the same semantics as PermissionsService.filterRows). Returns null when the entity
+   * has no row rules. Conditions that cannot be compiled grant nothing.
+   */
+  compileRules(rules: RowAccessRule[], entityId: string, context: AccessFilterContext): QueryCondition | null {
+    const rowRules = rules.filter(rule =>
+      rule.type === 'row_access' &&
+      rule.entityId === entityId &&
+      rule.enabled !== false
+    );
+    if (rowRules.length === 0) return null;
+
+    const grants: QueryCondition[] = [];
+    for (const rule of rowRules) {
+      const roleMatches = rule.roles.includes(context.role) ||
+        rule.roles.some(role => context.hasRole(role));
+      if (!roleMatches || !rule.allow?.read) continue;
+
+      if (!rule.condition) {
+        return MATCH_ALL;
+      }
+
+      try {
+        grants.push(this.compileCondition(rule.condition, context));
+      } catch (error) {
+        console.warn(`[AccessFilter] Rule condition not compiled: ${rule.condition}`, error);
+      }
+    }
+
+    return { logic: 'or', filters: grants };
+  }
+
+  /**
+   * Compile one condition expression into a filter
+   * Bare identifiers and `record.<field>` are columns; `current_user`, `current_role`
+   * and `has_role(...)` are resolved up front and bound as parameters.
+   */
+  compileCondition(condition: string, context: AccessFilterContext): QueryCondition {
+    return this.compileNode(parseExpression(condition), context);
+  }
+
+  private compileNode(node: ExpressionNode, context: AccessFilterContext): QueryCondition {
+    if (!this.referencesFields(node)) {
+      return this.evaluateConstant(node, context) ? MATCH_ALL : MATCH_NONE;
+    }
+
+    switch (node.type) {
+      case 'logical':
+        return {
+          logic: node.operator === '&&' ? 'and' : 'or',
+          filters: [this.compileNode(node.left, context), this.compileNode(node.right, context)],
+        };
+
+      case 'unary':
+        if (node.operator === '!') {
+          return { logic: 'not', filters: [this.compileNode(node.argument, context)] };
+        }
+        break;
+
+      case 'identifier':
+      case 'member': {
+        // Truthiness of a boolean column
+        const field = this.getField(node);
+        if (field) {
+          return { field, operator: 'eq', value: true };
+        }
+        break;
+      }
+
+      case 'binary':
+        return this.compileBinary(node, context);
+    }
+
+    throw new ExpressionError('Condition cannot be compiled to a query filter');
+  }
+
+  private compileBinary(
+    node: Extract<ExpressionNode, { type: 'binary' }>,
+    context: AccessFilterContext
+  ): QueryCondition {
+    const leftField = this.getField(node.left);
+    const rightField = this.getField(node.right);
+
+    if (node.operator === 'in' || node.operator === 'not in') {
+      if (!leftField || this.referencesFields(node.right)) {
+        throw new ExpressionError('Only `field in [values]` can be compiled to a query filter');
+      }
+      const values = this.evaluateConstant(node.right, context);
+      if (!Array.isArray(values)) {
+        throw new ExpressionError('`in` needs a list of values');
+      }
+      return this.compileMembership(leftField, values, node.operator === 'not in');
+    }
+
+    const operator = COMPARISONS[node.operator];
+    if (!operator) {
+      throw new ExpressionError(`Operator '${node.operator}' cannot be compiled to a query filter`);
+    }
+
+    let field: string;
+    let valueNode: ExpressionNode;
+    let fieldOperator = operator;
+    if (leftField && !this.referencesFields(node.right)) {
+      field = leftField;
+      valueNode = node.right;
+    } else if (rightField && !this.referencesFields(node.left)) {
+      field = rightField;
+      valueNode = node.left;
+      fieldOperator = FLIPPED[operator] ?? operator;
+    } else {
+      throw new ExpressionError('Comparisons must be between a field and a value');
+    }
+
+    const value = this.evaluateConstant(valueNode, context);
+    if (value !== null && value !== undefined && typeof value === 'object') {
+      throw new ExpressionError('Fields can only be compared with scalar values');
+    }
+
+    if (value === null || value === undefined) {
+      if (fieldOperator === 'eq') return { field, operator: 'isNull', value: null };
+      if (fieldOperator === 'neq') return { field, operator: 'isNotNull', value: null };
+      return MATCH_NONE;
+    }
+
+    if (fieldOperator === 'neq') {
+      // NULL != 'x' is true for the expression evaluator but unknown in SQL
+      return {
+        logic: 'or',
+        filters: [
+          { field, operator: 'isNull', value: null },
+          { field, operator: 'neq', value },
+        ],
+      };
+    }
+
+    return { field, operator: fieldOperator, value };
+  }
+
+  private compileMembership(field: string, values: unknown[], negate: boolean): QueryCondition {
+    const scalars = values.filter(value => value !== null && value !== undefined);
+    if (scalars.some(value => typeof value === 'object')) {
+      throw new ExpressionError('`in` lists can only hold scalar values');
+    }
+    const includesNull = scalars.length !== values.length;
+
+    if (negate) {
+      const notListed: QueryCondition = scalars.length > 0
+        ? { field, operator: 'nin', value: scalars }
+        : MATCH_ALL;
+      return includesNull
+        ? { logic: 'and', filters: [{ field, operator: 'isNotNull', value: null }, notListed] }
+        : { logic: 'or', filters: [{ field, operator: 'isNull', value: null }, notListed] };
+    }
+
+    const filters: QueryCondition[] = [];
+    if (scalars.length > 0) filters.push({ field, operator: 'in', value: scalars });
+    if (includesNull) filters.push({ field, operator: 'isNull', value: null });
+    return { logic: 'or', filters };
+  }
+
+  /**
+   * Column referenced by a node: `field` or `record.field`
+   */
+  private getField(node: ExpressionNode): string | null {
+    if (node.type === 'identifier') {
+      return this.isContextVariable(node.name) || node.name === 'record' ? null : node.name;
+    }
+    if (
+      node.type === 'member' &&
+      node.object.type === 'identifier' &&
+      node.object.name === 'record' &&
+      node.property.type === 'literal' &&
+      typeof node.property.value === 'string'
+    ) {
+      return node.property.value;
+    }
+    return null;
+  }
+
+  private referencesFields(node: ExpressionNode): boolean {
+    switch (node.type) {
+      case 'literal':
+        return false;
+      case 'identifier':
+        return !this.isContextVariable(node.name);
+      case 'member':
+        return this.referencesFields(node.object) || this.referencesFields(node.property);
+      case 'call':
+        return node.args.some(arg => this.referencesFields(arg));
+      case 'array':
+        return node.items.some(item => this.referencesFields(item));
+      case 'unary':
+        return this.referencesFields(node.argument);
+      case 'binary':
+      case 'logical':
+        return this.referencesFields(node.left) || this.referencesFields(node.right);
+      case 'conditional':
+        return this.referencesFields(node.test) ||
+          this.referencesFields(node.consequent) ||
+          this.referencesFields(node.alternate);
+    }
+  }
+
+  private isContextVariable(name: string): boolean {
+    return name === 'current_user' || name === 'current_role';
+  }
+
+  private evaluateConstant(node: ExpressionNode, context: AccessFilterContext): unknown {
+    return evaluateExpression(node, {
+      variables: {
+        current_user: context.userId ?? null,
+        current_role: context.role,
+      },
+      functions: (name) => name === 'has_role'
+        ? (role: unknown) => typeof role === 'string' && context.hasRole(role)
+        : undefined,
+    });
+  }
+}
+
+// Export singleton
+export const accessFilterCompiler = new AccessFilterCompiler();
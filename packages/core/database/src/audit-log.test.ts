@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { AuditLogService, diffRecords } from './audit-log.js';
+import { CrudService } from './crud-service.js';
+import type { DatabaseConnection } from './connection.js';
+
+/**
+ * Connection double that records statements (and whether they ran in a transaction)
+ * and answers inserts with RETURNING rows
+ */
+function recordingConnection() {
+  const statements: { sql: string; params: unknown[]; inTransaction: boolean }[] = [];
+  let inTransaction = false;
+  const answer = (sql: string, params: unknown[] = []) => {
+    statements.push({ sql, params, inTransaction });
+    if (/^\s*INSERT INTO "public"."_neo_audit_/.test(sql)) {
+      return [{ id: 'a1', entity_id: params[0], record_id: params[1], action: params[2], user_id: params[3], user_role: params[4], changes: JSON.parse(params[5] as string), created_at: new Date() }];
+    }
+    if (/^\s*INSERT INTO/.test(sql)) {
+      return [{ id: 'p1', name: 'Ann', updated_at: new Date() }];
+    }
+    return [];
+  };
+  const db = {
+    query: async (sql: string, params?: unknown[]) => answer(sql, params),
+    queryOne: async (sql: string, params?: unknown[]) => answer(sql, params)[0] ?? null,
+    execute: async (sql: string, params?: unknown[]) => { answer(sql, params); return { affectedRows: 0 }; },
+    transaction: async <T>(fn: () => Promise<T>) => {
+      inTransaction = true;
+      try {
+        return await fn();
+      } finally {
+        inTransaction = false;
+      }
+    },
+  } as unknown as DatabaseConnection;
+  return { db, statements };
+}
+
+describe('diffRecords', () => {
+  it('reports changed fields and skips updatedAt', () => {
+    expect(diffRecords(
+      { id: 'p1', name: 'Ann', tags: ['a'], updatedAt: '2026-01-01' },
+      { id: 'p1', name: 'Anna', tags: ['a'], updatedAt: '2026-01-02', phone: '555' }
+    )).toEqual([
+      { field: 'name', before: 'Ann', after: 'Anna' },
+      { field: 'phone', before: null, after: '555' },
+    ]);
+    expect(diffRecords(null, { id: 'p1' })).toEqual([{ field: 'id', before: null, after: 'p1' }]);
+  });
+});
+
+describe('AuditLogService', () => {
+  it('keeps each app in its own table', () => {
+    const audit = new AuditLogService(recordingConnection().db);
+    expect(audit.tableName('clinic-1')).toMatch(/^_neo_audit_clinic_1_[0-9a-f]{8}$/);
+    expect(audit.tableName('Clinic 1')).not.toBe(audit.tableName('clinic-1'));
+  });
+
+  it('skips updates without changes and parameterizes query filters', async () => {
+    const { db, statements } = recordingConnection();
+    const audit = new AuditLogService(db);
+
+    expect(await audit.record({ appId: 'app', entityId: 'patient', recordId: 'p1', action: 'update', before: { a: 1 }, after: { a: 1 } })).toBeNull();
+
+    await audit.query('app', { entityId: 'patient', userId: "u1' --", from: '2026-01-01T00:00:00Z' });
+    const select = statements.find(s => s.sql.startsWith('SELECT *'))!;
+    expect(select.sql).toContain('WHERE entity_id = $1 AND user_id = $2 AND created_at >= $3');
+    expect(select.params).toEqual(['patient', "u1' --", new Date('2026-01-01T00:00:00Z')]);
+  });
+});
+
+describe('CrudService - auditable entities', () => {
+  it('records creates with the writing user', async () => {
+    const { db, statements } = recordingConnection();
+    const crud = new CrudService(db);
+    crud.setAuditLog(new AuditLogService(db));
+    crud.registerEntity({
+      id: 'patient',
+      name: 'Patient',
+      pluralName: 'Patients',
+      fields: [{ id: 'name', name: 'name', type: 'string' }],
+      behaviors: ['auditable'],
+    });
+
+    await crud.create('patient', { name: 'Ann' }, {
+      skipValidation: true,
+      context: { appId: 'clinic', user: { id: 'u1', role: 'admin' } },
+    });
+
+    const insert = statements.find(s => s.sql.includes('INSERT INTO "public"."_neo_audit_clinic_'))!;
+    expect(insert.params.slice(0, 5)).toEqual(['patient', 'p1', 'create', 'u1', 'admin']);
+    expect(JSON.parse(insert.params[5] as string)).toEqual([
+      { field: 'id', before: null, after: 'p1' },
+      { field: 'name', before: null, after: 'Ann' },
+    ]);
+    // The record and its audit entry are written together
+    expect(statements.filter(s => s.sql.includes('INSERT INTO')).every(s => s.inTransaction)).toBe(true);
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Audit Log
+ * Field-level audit trail for entities with the `auditable` behavior.
+ * Every app gets its own table (`_neo_audit_<app>`) in the data schema.
+ */
+
+import crypto from 'node:crypto';
+import type { DatabaseConnection } from './connection.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  appId: string;
+  entityId: string;
+  recordId: string;
+  action: AuditAction;
+  userId: string | null;
+  userRole: string | null;
+  changes: AuditFieldChange[];
+  createdAt: string;
+}
+
+export interface AuditEntryInput {
+  appId: string;
+  entityId: string;
+  recordId: string;
+  action: AuditAction;
+  userId?: string;
+  userRole?: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+export interface AuditQuery {
+  entityId?: string;
+  recordId?: string;
+  userId?: string;
+  action?: AuditAction;
+  /** Inclusive lower bound (ISO date or Date) */
+  from?: string | Date;
+  /** Exclusive upper bound (ISO date or Date) */
+  to?: string | Date;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Days to keep entries for an app (null/undefined keeps them forever)
+ */
+export type AuditRetentionResolver = (appId: string) => Promise<number | null | undefined>;
+
+/** App id used for writes made without an app context */
+export const DEFAULT_AUDIT_APP_ID = 'default';
+
+/** Fields that change on every write and would only add noise to diffs */
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+/** How often expired entries are purged per app */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const MAX_QUERY_LIMIT = 500;
+
+interface AuditRow {
+  id: string;
+  entity_id: string;
+  record_id: string;
+  action: AuditAction;
+  user_id: string | null;
+  user_role: string | null;
+  changes: AuditFieldChange[];
+  created_at: Date;
+}
+
+// ============================================================
+// DIFF
+// ============================================================
+
+/**
+ * Field-level differences between two versions of a record
+ * A missing side (create/delete) reports every field as added or removed.
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditFieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: AuditFieldChange[] = [];
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const oldValue = before?.[field] ?? null;
+    const newValue = after?.[field] ?? null;
+    if (!sameValue(oldValue, newValue)) {
+      changes.push({ field, before: oldValue, after: newValue });
+    }
+  }
+
+  return changes;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as string).getTime() === new Date(b as string).getTime();
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// ============================================================
+// AUDIT LOG SERVICE
+// ============================================================
+
+export class AuditLogService {
+  private db: DatabaseConnection;
+  private schema: string;
+  private ensuredTables = new Set<string>();
+  private lastPurge = new Map<string, number>();
+  private retentionResolver: AuditRetentionResolver | null = null;
+
+  constructor(db: DatabaseConnection, schema = 'public') {
+    this.db = db;
+    this.schema = schema;
+  }
+
+  /**
+   * Per-app retention; expired entries are purged at most hourly while recording
+   */
+  setRetentionResolver(resolver: AuditRetentionResolver | null): void {
+    this.retentionResolver = resolver;
+  }
+
+  /**
+   * Table holding an app's audit entries
+   * Readable prefix of the app id plus a hash, so different ids never share a table.
+   */
+  tableName(appId: string): string {
+    const readable = appId.toLowerCase().replace(/[^a-z0-9]+/g, '_').slice(0, 32);
+    const hash = crypto.createHash('sha256').update(appId).digest('hex').slice(0, 8);
+    return `_neo_audit_${readable}_${hash}`;
+  }
+
+  /**
+   * Record a write
+   * @returns the entry, or null for an update that changed nothing
+   */
+  async record(input: AuditEntryInput): Promise<AuditEntry | null> {
+    const changes = diffRecords(input.before, input.after);
+    if (input.action === 'update' && changes.length === 0) {
+      return null;
+    }
+
+    const table = await this.ensureTable(input.appId);
+    const row = await this.db.queryOne<AuditRow>(`
+      INSERT INTO ${table} (entity_id, record_id, action, user_id, user_role, changes)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `, [
+      input.entityId,
+      input.recordId,
+      input.action,
+      input.userId ?? null,
+      input.userRole ?? null,
+      JSON.stringify(changes),
+    ]);
+
+    this.purgeIfDue(input.appId);
+
+    return row ? this.rowToEntry(input.appId, row) : null;
+  }
+
+  /**
+   * Query an app's audit entries, newest first
+   */
+  async query(appId: string, options: AuditQuery = {}): Promise<{ entries: AuditEntry[]; total: number }> {
+    const table = await this.ensureTable(appId);
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const add = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql.replace('?', `$${params.length}`));
+    };
+
+    if (options.entityId) add('entity_id = ?', options.entityId);
+    if (options.recordId) add('record_id = ?', options.recordId);
+    if (options.userId) add('user_id = ?', options.userId);
+    if (options.action) add('action = ?', options.action);
+    if (options.from) add('created_at >= ?', new Date(options.from));
+    if (options.to) add('created_at < ?', new Date(options.to));
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = Math.min(Math.max(options.limit ?? 50, 1), MAX_QUERY_LIMIT);
+    const offset = Math.max(options.offset ?? 0, 0);
+
+    const countRow = await this.db.queryOne<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM ${table} ${where}`,
+      params
+    );
+    const rows = await this.db.query<AuditRow>(
+      `SELECT * FROM ${table} ${where} ORDER BY created_at DESC, id DESC LIMIT ${limit} OFFSET ${offset}`,
+      params
+    );
+
+    return {
+      entries: rows.map(row => this.rowToEntry(appId, row)),
+      total: parseInt(countRow?.count || '0', 10),
+    };
+  }
+
+  /**
+   * Delete entries older than the retention period
+   */
+  async purge(appId: string, retentionDays: number): Promise<number> {
+    const table = await this.ensureTable(appId);
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    const result = await this.db.execute(`DELETE FROM ${table} WHERE created_at < $1`, [cutoff]);
+    return result.affectedRows;
+  }
+
+  private purgeIfDue(appId: string): void {
+    const now = Date.now();
+    if (!this.retentionResolver || now - (this.lastPurge.get(appId) ?? 0) < PURGE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPurge.set(appId, now);
+
+    // Runs after the write's transaction may have ended, so not in it
+    const resolver = this.retentionResolver;
+    this.db.outsideTransaction(() => resolver(appId)
+      .then(days => (days && days > 0 ? this.purge(appId, days) : 0))
+      .catch(error => console.error(`[AuditLog] Purge failed for app ${appId}:`, error)));
+  }
+
+  private async ensureTable(appId: string): Promise<string> {
+    const name = this.tableName(appId);
+    const table = `"${this.schema}"."${name}"`;
+    if (this.ensuredTables.has(name)) {
+      return table;
+    }
+
+    await this.db.execute(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "entity_id" VARCHAR(255) NOT NULL,
+        "record_id" VARCHAR(255) NOT NULL,
+        "action" VARCHAR(20) NOT NULL,
+        "user_id" VARCHAR(255),
+        "user_role" VARCHAR(50),
+        "changes" JSONB NOT NULL DEFAULT '[]',
+        "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await this.db.execute(`CREATE INDEX IF NOT EXISTS "${name}_record_idx" ON ${table} (entity_id, record_id)`);
+    await this.db.execute(`CREATE INDEX IF NOT EXISTS "${name}_user_idx" ON ${table} (user_id)`);
+    await this.db.execute(`CREATE INDEX IF NOT EXISTS "${name}_created_idx" ON ${table} (created_at)`);
+
+    this.ensuredTables.add(name);
+    return table;
+  }
+
+  private rowToEntry(appId: string, row: AuditRow): AuditEntry {
+    return {
+      id: row.id,
+      appId,
+      entityId: row.entity_id,
+      recordId: row.record_id,
+      action: row.action,
+      userId: row.user_id,
+      userRole: row.user_role,
+      changes: row.changes,
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+}
@@ -3,16 +3,17 @@
  * Evaluates computed/derived fields at runtime
  */
 
+import { evaluateExpression, type ExpressionFunction } from '@neo/contracts';
 import type { ComputedFieldDef, ComputedFieldContext } from './types.js';
 
 // ============================================================
-// EXPRESSION PARSER & EVALUATOR
+// EXPRESSION EVALUATOR
 // ============================================================
 
 type ExpressionValue = string | number | boolean | null | undefined | Record<string, unknown> | ExpressionValue[];
 
 /**
- * Parse and evaluate expressions for computed fields
+ * Evaluate computed field expressions with the shared sandboxed expression language
  */
 export class ExpressionEvaluator {
   private functions: Map<string, (...args: ExpressionValue[]) => ExpressionValue>;
@@ -24,251 +25,26 @@ export class ExpressionEvaluator {
 
   /**
    * Evaluate an expression against a record
+   * Bare identifiers resolve to record fields; `record`, `entity` and `relatedData`
+   * reach the rest of the context. Only registered functions can be called.
    */
   evaluate(expression: string, context: ComputedFieldContext): ExpressionValue {
     try {
-      // Simple expression parser for common patterns
-      // Supports: field references, arithmetic, string concat, functions
-      return this.parseAndEvaluate(expression, context);
+      return evaluateExpression(expression, {
+        variables: {
+          ...context.record,
+          record: context.record,
+          entity: context.entity,
+          relatedData: context.relatedData,
+        },
+        functions: (name) => this.functions.get(name.toUpperCase()) as ExpressionFunction | undefined,
+      }) as ExpressionValue;
     } catch (error) {
       console.error(`[ComputedFields] Error evaluating expression: ${expression}`, error);
       return null;
     }
   }
 
-  /**
-   * Parse and evaluate the expression
-   */
-  private parseAndEvaluate(expression: string, context: ComputedFieldContext): ExpressionValue {
-    const trimmed = expression.trim();
-
-    // Handle string literals
-    if ((trimmed.startsWith('"') && trimmed.endsWith('"')) ||
-        (trimmed.startsWith("'") && trimmed.endsWith("'"))) {
-      return trimmed.slice(1, -1);
-    }
-
-    // Handle numeric literals
-    if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
-      return parseFloat(trimmed);
-    }
-
-    // Handle boolean literals
-    if (trimmed === 'true') return true;
-    if (trimmed === 'false') return false;
-    if (trimmed === 'null') return null;
-
-    // Handle function calls: FUNCTION_NAME(args)
-    const funcMatch = trimmed.match(/^(\w+)\((.*)\)$/);
-    if (funcMatch) {
-      const funcName = funcMatch[1].toUpperCase();
-      const argsStr = funcMatch[2];
-      const args = this.parseArguments(argsStr, context);
-      return this.callFunction(funcName, args);
-    }
-
-    // Handle arithmetic expressions
-    if (/[+\-*/%]/.test(trimmed) && !trimmed.includes('(')) {
-      return this.evaluateArithmetic(trimmed, context);
-    }
-
-    // Handle ternary: condition ? trueVal : falseVal
-    const ternaryMatch = trimmed.match(/^(.+?)\s*\?\s*(.+?)\s*:\s*(.+)$/);
-    if (ternaryMatch) {
-      const condition = this.parseAndEvaluate(ternaryMatch[1], context);
-      return condition
-        ? this.parseAndEvaluate(ternaryMatch[2], context)
-        : this.parseAndEvaluate(ternaryMatch[3], context);
-    }
-
-    // Handle comparison operators
-    if (/[<>=!]/.test(trimmed)) {
-      return this.evaluateComparison(trimmed, context);
-    }
-
-    // Handle field reference (path like "record.field" or just "field")
-    return this.resolveFieldPath(trimmed, context);
-  }
-
-  /**
-   * Parse function arguments
-   */
-  private parseArguments(argsStr: string, context: ComputedFieldContext): ExpressionValue[] {
-    const args: ExpressionValue[] = [];
-    let current = '';
-    let depth = 0;
-    let inString = false;
-    let stringChar = '';
-
-    for (let i = 0; i < argsStr.length; i++) {
-      const char = argsStr[i];
-      
-      if ((char === '"' || char === "'") && argsStr[i - 1] !== '\\') {
-        if (!inString) {
-          inString = true;
-          stringChar = char;
-        } else if (char === stringChar) {
-          inString = false;
-        }
-      }
-      
-      if (!inString) {
-        if (char === '(') depth++;
-        if (char === ')') depth--;
-        if (char === ',' && depth === 0) {
-          args.push(this.parseAndEvaluate(current.trim(), context));
-          current = '';
-          continue;
-        }
-      }
-      
-      current += char;
-    }
-
-    if (current.trim()) {
-      args.push(this.parseAndEvaluate(current.trim(), context));
-    }
-
-    return args;
-  }
-
-  /**
-   * Call a built-in function
-   */
-  private callFunction(name: string, args: ExpressionValue[]): ExpressionValue {
-    const func = this.functions.get(name);
-    if (!func) {
-      console.warn(`[ComputedFields] Unknown function: ${name}`);
-      return null;
-    }
-    return func(...args);
-  }
-
-  /**
-   * Evaluate arithmetic expression
-   */
-  private evaluateArithmetic(expression: string, context: ComputedFieldContext): number {
-    // Tokenize
-    const tokens: (string | number)[] = [];
-    let current = '';
-    
-    for (const char of expression) {
-      if ('+-*/%'.includes(char)) {
-        if (current.trim()) {
-          const val = this.parseAndEvaluate(current.trim(), context);
-          tokens.push(Number(val) || 0);
-        }
-        tokens.push(char);
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    
-    if (current.trim()) {
-      const val = this.parseAndEvaluate(current.trim(), context);
-      tokens.push(Number(val) || 0);
-    }
-
-    // Evaluate with precedence (* / % before + -)
-    // First pass: * / %
-    let i = 1;
-    while (i < tokens.length) {
-      const op = tokens[i];
-      if (op === '*' || op === '/' || op === '%') {
-        const left = tokens[i - 1] as number;
-        const right = tokens[i + 1] as number;
-        let result: number;
-        
-        if (op === '*') result = left * right;
-        else if (op === '/') result = right !== 0 ? left / right : 0;
-        else result = left % right;
-        
-        tokens.splice(i - 1, 3, result);
-      } else {
-        i += 2;
-      }
-    }
-
-    // Second pass: + -
-    let result = tokens[0] as number;
-    for (let j = 1; j < tokens.length; j += 2) {
-      const op = tokens[j];
-      const val = tokens[j + 1] as number;
-      if (op === '+') result += val;
-      else if (op === '-') result -= val;
-    }
-
-    return result;
-  }
-
-  /**
-   * Evaluate comparison expression
-   */
-  private evaluateComparison(expression: string, context: ComputedFieldContext): boolean {
-    const operators = ['===', '!==', '==', '!=', '>=', '<=', '>', '<'];
-    
-    for (const op of operators) {
-      const idx = expression.indexOf(op);
-      if (idx !== -1) {
-        const left = this.parseAndEvaluate(expression.slice(0, idx).trim(), context);
-        const right = this.parseAndEvaluate(expression.slice(idx + op.length).trim(), context);
-        
-        switch (op) {
-          case '===': return left === right;
-          case '!==': return left !== right;
-          case '==': return left == right;
-          case '!=': return left != right;
-          case '>=': return Number(left) >= Number(right);
-          case '<=': return Number(left) <= Number(right);
-          case '>': return Number(left) > Number(right);
-          case '<': return Number(left) < Number(right);
-        }
-      }
-    }
-
-    // Logical operators
-    if (expression.includes('&&')) {
-      const parts = expression.split('&&');
-      return parts.every(p => Boolean(this.parseAndEvaluate(p.trim(), context)));
-    }
-    if (expression.includes('||')) {
-      const parts = expression.split('||');
-      return parts.some(p => Boolean(this.parseAndEvaluate(p.trim(), context)));
-    }
-
-    return Boolean(this.parseAndEvaluate(expression, context));
-  }
-
-  /**
-   * Resolve a field path (e.g., "record.field" or "relatedData.entity.field")
-   */
-  private resolveFieldPath(path: string, context: ComputedFieldContext): ExpressionValue {
-    const parts = path.split('.');
-    let current: unknown = context;
-
-    for (const part of parts) {
-      if (current === null || current === undefined) return null;
-      
-      // Handle array access: field[0]
-      const arrayMatch = part.match(/^(\w+)\[(\d+)\]$/);
-      if (arrayMatch) {
-        const field = arrayMatch[1];
-        const index = parseInt(arrayMatch[2], 10);
-        current = (current as Record<string, unknown>)[field];
-        if (Array.isArray(current)) {
-          current = current[index];
-        } else {
-          return null;
-        }
-      } else {
-        current = (current as Record<string, unknown>)[part];
-      }
-    }
-
-    return current as ExpressionValue;
-  }
-
   /**
    * Register built-in functions
    */
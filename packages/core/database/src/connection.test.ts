@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { DatabaseConnection } from './connection.js';
+
+/**
+ * Connection over a fake pool that records which client ran each statement
+ */
+function fakeConnection() {
+  const statements: Array<{ sql: string; on: string }> = [];
+  let clients = 0;
+  const pool = {
+    async query(sql: string) {
+      statements.push({ sql, on: 'pool' });
+      return { rows: [], rowCount: 0 };
+    },
+    async connect() {
+      const name = `client-${++clients}`;
+      let released = false;
+      return {
+        async query(sql: string) {
+          if (released) throw new Error(`${name} used after release`);
+          statements.push({ sql, on: name });
+          return { rows: [], rowCount: 0 };
+        },
+        release() {
+          released = true;
+        },
+      };
+    },
+  };
+  const db = new DatabaseConnection({ provider: 'postgres' });
+  (db as unknown as { pool: unknown }).pool = pool;
+  return { db, statements };
+}
+
+describe('DatabaseConnection.transaction', () => {
+  it('runs work left running after the commit on the pool, not the released client', async () => {
+    const { db, statements } = fakeConnection();
+    let leaked!: Promise<unknown>;
+    let release!: () => void;
+    const committed = new Promise<void>(resolve => { release = resolve; });
+
+    await db.transaction(async () => {
+      await db.execute('INSERT inside');
+      // Started in the transaction, runs after it has committed
+      leaked = committed.then(() => db.execute('DELETE later'));
+      await db.outsideTransaction(() => db.execute('SELECT outside'));
+    });
+    release();
+    await leaked;
+
+    expect(statements).toEqual([
+      { sql: 'BEGIN', on: 'client-1' },
+      { sql: 'INSERT inside', on: 'client-1' },
+      { sql: 'SELECT outside', on: 'pool' },
+      { sql: 'COMMIT', on: 'client-1' },
+      { sql: 'DELETE later', on: 'pool' },
+    ]);
+    expect(db.inTransaction()).toBe(false);
+  });
+
+  it('starts a new transaction from work that outlived the one it was started in', async () => {
+    const { db, statements } = fakeConnection();
+    let leaked!: Promise<unknown>;
+    let release!: () => void;
+    const committed = new Promise<void>(resolve => { release = resolve; });
+
+    await db.transaction(async () => {
+      leaked = committed.then(() => db.transaction(() => db.execute('UPDATE later')));
+    });
+    release();
+    await leaked;
+
+    expect(statements.slice(-3)).toEqual([
+      { sql: 'BEGIN', on: 'client-2' },
+      { sql: 'UPDATE later', on: 'client-2' },
+      { sql: 'COMMIT', on: 'client-2' },
+    ]);
+  });
+
+  it('runs after-commit callbacks once the transaction commits, and drops them on rollback', async () => {
+    const { db, statements } = fakeConnection();
+    const ran: string[] = [];
+
+    await db.transaction(async () => {
+      db.afterCommit(() => ran.push(`committed, then ${statements.at(-1)?.sql}`));
+      await db.transaction(async () => db.afterCommit(() => ran.push('joined')));
+      expect(ran).toEqual([]);
+    });
+    await expect(db.transaction(async () => {
+      db.afterCommit(() => ran.push('rolled back'));
+      throw new Error('Roll back');
+    })).rejects.toThrow('Roll back');
+    db.afterCommit(() => ran.push('outside'));
+
+    expect(ran).toEqual(['committed, then COMMIT', 'joined', 'outside']);
+  });
+});
@@ -3,6 +3,7 @@
  * Handles connection pooling for Postgres/Supabase/Neon
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import pg from 'pg';
 import type { DatabaseConfig, ConnectionPoolConfig, TransactionClient } from './types.js';
 
@@ -17,6 +18,16 @@ export class DatabaseConnection {
   private config: DatabaseConfig;
   private poolConfig: ConnectionPoolConfig;
   private isConnected = false;
+  /**
+   * Transaction the current async call chain runs in
+   * Work started inside a transaction and left running inherits it; `open`
+   * turns false when it ends so that work falls back to the pool.
+   */
+  private transactionClient = new AsyncLocalStorage<{
+    client: pg.PoolClient;
+    open: boolean;
+    afterCommit: Array<() => void>;
+  }>();
 
   constructor(config: DatabaseConfig, poolConfig?: Partial<ConnectionPoolConfig>) {
     this.config = config;
@@ -72,12 +83,8 @@ export class DatabaseConnection {
     sql: string,
     params?: unknown[]
   ): Promise<T[]> {
-    if (!this.pool) {
-      throw new Error('Database not connected. Call connect() first.');
-    }
-
     const start = Date.now();
-    const result = await this.pool.query(sql, params);
+    const result = await this.executor().query(sql, params);
     const duration = Date.now() - start;
 
     if (duration > 1000) {
@@ -102,11 +109,7 @@ export class DatabaseConnection {
    * Execute a mutation (INSERT, UPDATE, DELETE)
    */
   async execute(sql: string, params?: unknown[]): Promise<{ affectedRows: number }> {
-    if (!this.pool) {
-      throw new Error('Database not connected. Call connect() first.');
-    }
-
-    const result = await this.pool.query(sql, params);
+    const result = await this.executor().query(sql, params);
     return { affectedRows: result.rowCount ?? 0 };
   }
 
@@ -117,11 +120,7 @@ export class DatabaseConnection {
     sql: string,
     params?: unknown[]
   ): Promise<{ data: T[]; affectedRows: number }> {
-    if (!this.pool) {
-      throw new Error('Database not connected. Call connect() first.');
-    }
-
-    const result = await this.pool.query(sql, params);
+    const result = await this.executor().query(sql, params);
     return {
       data: result.rows as T[],
       affectedRows: result.rowCount ?? 0,
@@ -157,17 +156,109 @@ export class DatabaseConnection {
 
   /**
    * Execute multiple statements in a transaction
+   * Queries made through this connection while `fn` runs use the transaction,
+   * and a transaction started inside another one joins it.
    */
   async transaction<T>(fn: (client: TransactionClient) => Promise<T>): Promise<T> {
-    const client = await this.beginTransaction();
+    const current = this.currentTransaction();
+    if (current) {
+      return fn(this.joinedTransaction(current));
+    }
+
+    if (!this.pool) {
+      throw new Error('Database not connected. Call connect() first.');
+    }
+
+    const client = await this.pool.connect();
+    const store = { client, open: true, afterCommit: [] as Array<() => void> };
+    const transaction = this.joinedTransaction(client);
+    let result: T;
     try {
-      const result = await fn(client);
-      await client.commit();
-      return result;
+      await client.query('BEGIN');
+      result = await this.transactionClient.run(store, () => fn(transaction));
+      await client.query('COMMIT');
     } catch (error) {
-      await client.rollback();
+      await client.query('ROLLBACK').catch(() => undefined);
       throw error;
+    } finally {
+      store.open = false;
+      client.release();
     }
+
+    for (const callback of store.afterCommit) {
+      try {
+        callback();
+      } catch (error) {
+        console.error('[Database] After-commit callback failed:', error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Run `fn` once the current transaction has committed (never, if it rolls
+   * back), or right away outside a transaction
+   */
+  afterCommit(fn: () => void): void {
+    const store = this.transactionClient.getStore();
+    if (store?.open) {
+      store.afterCommit.push(fn);
+    } else {
+      fn();
+    }
+  }
+
+  /**
+   * Whether the current async call chain runs in a transaction
+   */
+  inTransaction(): boolean {
+    return this.currentTransaction() !== undefined;
+  }
+
+  /**
+   * Run `fn` outside the current transaction, on the pool
+   * For work started in a transaction that may outlive it (background
+   * purges, workflows started by hooks).
+   */
+  outsideTransaction<T>(fn: () => T): T {
+    return this.transactionClient.exit(fn);
+  }
+
+  /**
+   * Client of the transaction the current async call chain runs in, while it is open
+   */
+  private currentTransaction(): pg.PoolClient | undefined {
+    const store = this.transactionClient.getStore();
+    return store?.open ? store.client : undefined;
+  }
+
+  /**
+   * Where queries go: the current transaction's client, else the pool
+   */
+  private executor(): pg.Pool | pg.PoolClient {
+    const client = this.currentTransaction();
+    if (client) return client;
+    if (!this.pool) {
+      throw new Error('Database not connected. Call connect() first.');
+    }
+    return this.pool;
+  }
+
+  /**
+   * Transaction handle passed to transaction callbacks; commit and rollback are
+   * left to transaction(), which ends the transaction when the callback settles
+   */
+  private joinedTransaction(client: pg.PoolClient): TransactionClient {
+    return {
+      async query<T = unknown>(sql: string, params?: unknown[]): Promise<T[]> {
+        const result = await client.query(sql, params);
+        return result.rows as T[];
+      },
+      async commit(): Promise<void> {},
+      async rollback(): Promise<void> {
+        throw new Error('Throw from the transaction callback to roll it back');
+      },
+    };
   }
 
   /**
@@ -3,8 +3,32 @@
  * Provides high-level CRUD operations for entities
  */
 
+import { EntityHookRunner, type EntityHooks, type EntityHookWorkflowStarter, type EntityWriteContext } from '@neo/contracts';
 import type { DatabaseConnection } from './connection.js';
+import { AuditLogService, DEFAULT_AUDIT_APP_ID, type AuditAction } from './audit-log.js';
+import {
+  recordVersionedWrite,
+  versionRestoreData,
+  type RecordVersion,
+  type RecordVersionStore,
+} from './record-versions.js';
 import { QueryBuilder, query } from './query-builder.js';
+import {
+  SEARCH_TEXT_CONFIG,
+  SEARCH_VECTOR_COLUMN,
+  isSearchableEntity,
+  toSearchQuery,
+  type SearchHit,
+} from './search.js';
+import {
+  SORT_POSITION_COLUMN,
+  SortOrderError,
+  fillMissingPositions,
+  isSortableEntity,
+  positionBetween,
+  positionsAfter,
+} from './sortable.js';
+import { isTaggableEntity, tagFilterSql, tagJunction, type TagCount } from './tags.js';
 import { ValidationEngine, validationEngine } from './validation.js';
 import type {
   QueryResult,
@@ -12,6 +36,7 @@ import type {
   MutationResult,
   BulkMutationResult,
   QueryOptions,
+  QueryCondition,
   ValidationResult,
 } from './types.js';
 
@@ -44,8 +69,26 @@ interface Entity {
     delete?: { enabled: boolean; softDelete?: boolean };
   };
   timestamps?: {
+    createdAt?: boolean;
     deletedAt?: boolean;
   };
+  hooks?: EntityHooks;
+  behaviors?: string[];
+  display?: {
+    searchFields?: string[];
+  };
+}
+
+/** Tries at giving a record a position before a concurrent write's clash on the same rank is an error */
+const MAX_POSITION_ATTEMPTS = 3;
+
+/**
+ * Options shared by the write operations
+ */
+export interface CrudWriteOptions {
+  skipValidation?: boolean;
+  /** Passed to entity hooks and the workflows they start; also the app and user of audit entries and versions */
+  context?: EntityWriteContext;
 }
 
 // ============================================================
@@ -57,6 +100,9 @@ export class CrudService {
   private schema: string;
   private validator: ValidationEngine;
   private entityCache: Map<string, Entity> = new Map();
+  private hooks = new EntityHookRunner();
+  private auditLog: AuditLogService | null = null;
+  private versionStore: RecordVersionStore | null = null;
 
   constructor(db: DatabaseConnection, schema = 'public') {
     this.db = db;
@@ -71,6 +117,36 @@ export class CrudService {
     this.entityCache.set(entity.id, entity);
     this.entityCache.set(entity.name.toLowerCase(), entity);
     this.entityCache.set(this.toTableName(entity), entity);
+    this.hooks.register(entity.id, entity.hooks);
+  }
+
+  /**
+   * Start workflows requested by after-hooks (runWorkflow)
+   * Workflows outlive the write, so they start once its transaction has
+   * committed and run outside it.
+   */
+  setHookWorkflowStarter(starter: EntityHookWorkflowStarter | null): void {
+    this.hooks.setWorkflowStarter(starter && ((request) => {
+      this.db.afterCommit(() => {
+        Promise.resolve(this.db.outsideTransaction(() => starter(request))).catch(error => {
+          console.error(`[EntityHooks] Workflow ${request.workflowId} from ${request.entityId}.${request.hook} failed:`, error);
+        });
+      });
+    }));
+  }
+
+  /**
+   * Record writes to auditable entities in this audit log
+   */
+  setAuditLog(auditLog: AuditLogService | null): void {
+    this.auditLog = auditLog;
+  }
+
+  /**
+   * Keep version snapshots of versionable entities in this store
+   */
+  setVersionStore(store: RecordVersionStore | null): void {
+    this.versionStore = store;
   }
 
   /**
@@ -95,7 +171,7 @@ export class CrudService {
   async create<T = Record<string, unknown>>(
     entityId: string,
     data: Record<string, unknown>,
-    options: { skipValidation?: boolean } = {}
+    options: CrudWriteOptions = {}
   ): Promise<MutationResult<T>> {
     const entity = this.getEntity(entityId);
     const tableName = this.toTableName(entity);
@@ -105,6 +181,9 @@ export class CrudService {
       throw new Error(`Create operation is disabled for ${entity.name}`);
     }
 
+    // Before hook may reject the write or change values (validated like the rest)
+    data = { ...data, ...this.hooks.runBefore(entity.id, 'beforeCreate', { new: data }, options.context) };
+
     // Validate
     if (!options.skipValidation) {
       const validation = await this.validateForCreate(entity, data);
@@ -116,15 +195,21 @@ export class CrudService {
     // Sanitize data
     const sanitized = this.validator.sanitize(entity, data);
 
-    // Convert to snake_case and build query
+    // Convert to snake_case and execute (sortable records go last)
     const snakeCaseData = this.toSnakeCaseKeys(sanitized);
-    const { sql, params } = query(tableName, this.schema).buildInsert(snakeCaseData);
-
-    // Execute
-    const rows = await this.db.query<T>(sql, params);
+    const created = await this.withHistory(entity, async () => {
+      const rows = await this.insertRanked<T>(entity, [snakeCaseData], ([row]) =>
+        query(tableName, this.schema).buildInsert(row)
+      );
+      const record = this.toCamelCaseKeys(rows[0]) as Record<string, unknown>;
+      await this.recordAudit(entity, 'create', null, record, options.context);
+      await this.recordVersion(entity, null, record, options.context);
+      return record;
+    });
+    this.hooks.runAfter(entity.id, 'afterCreate', { new: created }, options.context);
     
     return {
-      data: this.toCamelCaseKeys(rows[0]) as T,
+      data: created as T,
       success: true,
       affectedRows: 1,
     };
@@ -136,11 +221,27 @@ export class CrudService {
   async createMany<T = Record<string, unknown>>(
     entityId: string,
     records: Record<string, unknown>[],
-    options: { skipValidation?: boolean } = {}
+    options: CrudWriteOptions = {}
   ): Promise<BulkMutationResult & { data: T[] }> {
     const entity = this.getEntity(entityId);
     const tableName = this.toTableName(entity);
 
+    // Run before hooks per record; a rejection fails the batch like a validation error
+    if (this.hooks.has(entity.id, 'beforeCreate')) {
+      const errors: { row: number; error: string }[] = [];
+      records = records.map((record, row) => {
+        try {
+          return { ...record, ...this.hooks.runBefore(entity.id, 'beforeCreate', { new: record }, options.context) };
+        } catch (error: any) {
+          errors.push({ row, error: error.message });
+          return record;
+        }
+      });
+      if (errors.length > 0) {
+        return { success: false, errors, data: [] };
+      }
+    }
+
     // Validate all records
     if (!options.skipValidation) {
       const errors: { row: number; error: string }[] = [];
@@ -160,15 +261,28 @@ export class CrudService {
 
     // Sanitize and convert
     const sanitizedRecords = records.map(r => this.toSnakeCaseKeys(this.validator.sanitize(entity, r)));
-    const { sql, params } = query(tableName, this.schema).buildBulkInsert(sanitizedRecords);
 
-    // Execute
-    const rows = await this.db.query<T>(sql, params);
+    // Execute (sortable records go last, in the given order)
+    const created = await this.withHistory(entity, async () => {
+      const rows = await this.insertRanked<T>(entity, sanitizedRecords, ranked =>
+        query(tableName, this.schema).buildBulkInsert(ranked)
+      );
+      const records = rows.map(r => this.toCamelCaseKeys(r) as Record<string, unknown>);
+      for (const record of records) {
+        await this.recordAudit(entity, 'create', null, record, options.context);
+        await this.recordVersion(entity, null, record, options.context);
+      }
+      return records;
+    });
+
+    for (const record of created) {
+      this.hooks.runAfter(entity.id, 'afterCreate', { new: record }, options.context);
+    }
     
     return {
       success: true,
-      inserted: rows.length,
-      data: rows.map(r => this.toCamelCaseKeys(r) as T),
+      inserted: created.length,
+      data: created as T[],
     };
   }
 
@@ -203,19 +317,17 @@ export class CrudService {
       qb.distinct();
     }
 
-    // Apply filters
-    if (options.filters) {
-      qb.whereAll(options.filters);
-    }
-
-    // Exclude soft-deleted records
-    if (entity.timestamps?.deletedAt) {
-      qb.where({ field: 'deleted_at', operator: 'isNull', value: null });
-    }
+    // Apply filters, access scope and soft-delete exclusion
+    this.applyScope(qb, entity, options);
 
-    // Apply sorting
+    // Apply sorting (the manual order of sortable entities comes before their default sort)
     if (options.sorts && options.sorts.length > 0) {
       qb.orderBy(options.sorts);
+    } else if (isSortableEntity(entity)) {
+      qb.orderBy([
+        { field: SORT_POSITION_COLUMN, direction: 'asc', nulls: 'last' },
+        { field: 'id', direction: 'asc' },
+      ]);
     } else if (entity.crud?.read?.defaultSort) {
       qb.orderBy(entity.crud.read.defaultSort);
     } else {
@@ -235,18 +347,12 @@ export class CrudService {
     const rows = await this.db.query<T>(sql, params);
     const queryMs = Date.now() - start;
 
-    // Get total count if paginated
+    // Get total count if paginated (same scope as the rows, so hidden rows are never counted)
     let totalCount: number | undefined;
     if (options.pagination) {
-      const { sql: countSql, params: countParams } = qb.reset()
-        .whereAll(options.filters || [])
+      const { sql: countSql, params: countParams } = this.applyScope(qb.reset(), entity, options)
         .buildCount();
       
-      if (entity.timestamps?.deletedAt) {
-        // Need to add deleted_at filter for count too
-        // This is simplified - in production, preserve the original filters
-      }
-      
       const countResult = await this.db.queryOne<{ count: string }>(countSql, countParams);
       totalCount = parseInt(countResult?.count || '0', 10);
     }
@@ -263,11 +369,12 @@ export class CrudService {
   }
 
   /**
-   * Find a single record by ID
+   * Find a single record by ID (`withDeleted` also finds soft-deleted records)
    */
   async findById<T = Record<string, unknown>>(
     entityId: string,
-    id: string
+    id: string,
+    options: { accessFilter?: QueryCondition; withDeleted?: boolean } = {}
   ): Promise<SingleResult<T>> {
     const entity = this.getEntity(entityId);
     const tableName = this.toTableName(entity);
@@ -275,10 +382,8 @@ export class CrudService {
     const qb = query(tableName, this.schema)
       .where({ field: 'id', operator: 'eq', value: id });
 
-    // Exclude soft-deleted records
-    if (entity.timestamps?.deletedAt) {
-      qb.where({ field: 'deleted_at', operator: 'isNull', value: null });
-    }
+    // Apply access scope and exclude soft-deleted records unless asked for
+    this.applyScope(qb, entity, options);
 
     const { sql, params } = qb.limit(1).buildSelect();
     const row = await this.db.queryOne<T>(sql, params);
@@ -308,20 +413,12 @@ export class CrudService {
    */
   async count(
     entityId: string,
-    options: { filters?: QueryOptions['filters'] } = {}
+    options: Pick<QueryOptions, 'filters' | 'accessFilter' | 'tags'> = {}
   ): Promise<number> {
     const entity = this.getEntity(entityId);
     const tableName = this.toTableName(entity);
 
-    const qb = query(tableName, this.schema);
-    
-    if (options.filters) {
-      qb.whereAll(options.filters);
-    }
-
-    if (entity.timestamps?.deletedAt) {
-      qb.where({ field: 'deleted_at', operator: 'isNull', value: null });
-    }
+    const qb = this.applyScope(query(tableName, this.schema), entity, options);
 
     const { sql, params } = qb.buildCount();
     const result = await this.db.queryOne<{ count: string }>(sql, params);
@@ -340,6 +437,229 @@ export class CrudService {
     return result.found;
   }
 
+  // ============================================================
+  // TAGS
+  // ============================================================
+
+  /**
+   * How many records in scope carry each tag (tags on no record are left out)
+   */
+  async tagCounts(
+    entityId: string,
+    options: Pick<QueryOptions, 'filters' | 'accessFilter' | 'tags'> = {}
+  ): Promise<TagCount[]> {
+    const entity = this.getEntity(entityId);
+    if (!isTaggableEntity(entity)) {
+      throw new Error(`${entity.name} is not taggable`);
+    }
+
+    const qb = query(this.toTableName(entity), this.schema).select('id');
+    const { sql, params } = this.applyScope(qb, entity, options).buildSelect();
+    const rows = await this.db.query<{ tag_id: string; count: string }>(`
+      SELECT "tag_id", COUNT(*) AS count
+      FROM "${this.schema}"."${tagJunction(entity).table}"
+      WHERE "record_id" IN (${sql})
+      GROUP BY "tag_id"
+    `, params);
+
+    return rows.map(row => ({ tagId: row.tag_id, count: parseInt(row.count, 10) }));
+  }
+
+  // ============================================================
+  // MANUAL ORDER
+  // ============================================================
+
+  /**
+   * Whether an entity is registered and sortable
+   */
+  isSortable(entityId: string): boolean {
+    const entity = this.entityCache.get(entityId);
+    return entity !== undefined && isSortableEntity(entity);
+  }
+
+  /**
+   * Move a record of a sortable entity between two neighbors
+   * Only the moved record gets a new position. With one neighbor the record goes right next
+   * to it; with none it goes last.
+   * @returns the moved record, or null when it or a neighbor does not exist
+   */
+  async move<T = Record<string, unknown>>(
+    entityId: string,
+    id: string,
+    neighbors: { previousId?: string | null; nextId?: string | null } = {}
+  ): Promise<T | null> {
+    const entity = this.getEntity(entityId);
+    if (!isSortableEntity(entity)) {
+      throw new Error(`${entity.name} is not sortable`);
+    }
+
+    const previousId = neighbors.previousId || null;
+    const nextId = neighbors.nextId || null;
+    if (id === previousId || id === nextId) {
+      throw new SortOrderError('A record cannot be its own neighbor');
+    }
+
+    const table = `"${this.schema}"."${this.toTableName(entity)}"`;
+    const ids = [id, previousId, nextId].filter((value): value is string => value !== null);
+    const notDeleted = entity.timestamps?.deletedAt ? ' AND "deleted_at" IS NULL' : '';
+
+    for (let attempt = 1; ; attempt++) {
+      const rows = await this.db.query<{ id: string; position: string | null }>(
+        `SELECT "id", "${SORT_POSITION_COLUMN}" AS "position" FROM ${table} WHERE "id" = ANY($1::uuid[])${notDeleted}`,
+        [ids]
+      );
+      const positions = new Map(rows.map(row => [String(row.id), row.position]));
+      if (ids.some(rowId => !positions.has(rowId))) return null;
+      if (rows.some(row => row.position === null)) {
+        if (attempt >= MAX_POSITION_ATTEMPTS) throw new SortOrderError('Records could not be ranked');
+        await fillMissingPositions(this.db, table, this.positionFillOrder(entity));
+        continue;
+      }
+
+      // A missing neighbor is the record right beside the given one (any record, so ranks stay unique)
+      let before = previousId ? positions.get(previousId)! : null;
+      let after = nextId ? positions.get(nextId)! : null;
+      if (before !== null && after === null) {
+        after = await this.adjacentPosition(table, id, '>', before);
+      } else if (before === null && after !== null) {
+        before = await this.adjacentPosition(table, id, '<', after);
+      } else if (before === null) {
+        before = await this.adjacentPosition(table, id, '<', null);
+      }
+      if (before !== null && after !== null && before >= after) {
+        throw new SortOrderError('The previous record must come before the next record');
+      }
+
+      try {
+        const moved = await this.db.queryOne<T>(
+          `UPDATE ${table} SET "${SORT_POSITION_COLUMN}" = $1 WHERE "id" = $2 RETURNING *`,
+          [positionBetween(before, after), id]
+        );
+        return moved ? this.toCamelCaseKeys(moved) as T : null;
+      } catch (error: any) {
+        if (attempt >= MAX_POSITION_ATTEMPTS || !this.isPositionClash(entity, error)) throw error;
+      }
+    }
+  }
+
+  /**
+   * Insert rows; rows of sortable entities get positions after the last record
+   * (a concurrent insert or move that took the same positions makes it try again)
+   */
+  private async insertRanked<T>(
+    entity: Entity,
+    rows: Record<string, unknown>[],
+    build: (rows: Record<string, unknown>[]) => { sql: string; params: unknown[] }
+  ): Promise<T[]> {
+    if (!isSortableEntity(entity)) {
+      const { sql, params } = build(rows);
+      return this.db.query<T>(sql, params);
+    }
+
+    const table = `"${this.schema}"."${this.toTableName(entity)}"`;
+    for (let attempt = 1; ; attempt++) {
+      const last = await this.adjacentPosition(table, null, '<', null);
+      const positions = positionsAfter(last, rows.length);
+      const { sql, params } = build(rows.map((row, i) => ({ ...row, [SORT_POSITION_COLUMN]: positions[i] })));
+      try {
+        return await this.db.query<T>(sql, params);
+      } catch (error: any) {
+        if (attempt >= MAX_POSITION_ATTEMPTS || !this.isPositionClash(entity, error)) throw error;
+      }
+    }
+  }
+
+  /**
+   * The closest position below (or above) a bound, skipping one record; no bound: the last position
+   */
+  private async adjacentPosition(
+    table: string,
+    excludeId: string | null,
+    direction: '<' | '>',
+    bound: string | null
+  ): Promise<string | null> {
+    const conditions = [`"${SORT_POSITION_COLUMN}" IS NOT NULL`];
+    const params: unknown[] = [];
+    if (bound !== null) {
+      params.push(bound);
+      conditions.push(`"${SORT_POSITION_COLUMN}" ${direction} $${params.length}`);
+    }
+    if (excludeId !== null) {
+      params.push(excludeId);
+      conditions.push(`"id" <> $${params.length}`);
+    }
+
+    const row = await this.db.queryOne<{ position: string | null }>(
+      `SELECT ${direction === '<' ? 'max' : 'min'}("${SORT_POSITION_COLUMN}") AS "position" FROM ${table} WHERE ${conditions.join(' AND ')}`,
+      params
+    );
+    return row?.position ?? null;
+  }
+
+  private positionFillOrder(entity: Entity): string {
+    return entity.timestamps?.createdAt !== false ? '"created_at", "id"' : '"id"';
+  }
+
+  private isPositionClash(entity: Entity, error: { code?: string; constraint?: string }): boolean {
+    return error.code === '23505' && error.constraint === `idx_${this.toTableName(entity)}_sort_position`;
+  }
+
+  // ============================================================
+  // SEARCH
+  // ============================================================
+
+  /**
+   * Whether an entity is registered and has a search vector
+   */
+  isSearchable(entityId: string): boolean {
+    const entity = this.entityCache.get(entityId);
+    return entity !== undefined && isSearchableEntity(entity);
+  }
+
+  /**
+   * Full-text search in a searchable entity, best matches first
+   * Uses the same filters, access scope and soft-delete exclusion as findMany.
+   */
+  async search<T = Record<string, unknown>>(
+    entityId: string,
+    text: string,
+    options: Pick<QueryOptions, 'filters' | 'accessFilter' | 'tags'> & { limit?: number } = {}
+  ): Promise<SearchHit<T>[]> {
+    const entity = this.getEntity(entityId);
+
+    if (entity.crud?.read?.enabled === false) {
+      throw new Error(`Read operation is disabled for ${entity.name}`);
+    }
+    if (!isSearchableEntity(entity)) {
+      throw new Error(`${entity.name} is not searchable`);
+    }
+
+    const tsQuery = toSearchQuery(text);
+    if (!tsQuery) return [];
+
+    // The search text is always $1: it is the first parameter of the inner query
+    const match = `to_tsquery('${SEARCH_TEXT_CONFIG}', $1)`;
+    const qb = query(this.toTableName(entity), this.schema)
+      .whereRaw(`"${SEARCH_VECTOR_COLUMN}" @@ ${match}`, [tsQuery]);
+    this.applyScope(qb, entity, options);
+
+    const { sql, params } = qb.buildSelect();
+    const limit = Math.max(1, Math.min(options.limit ?? 20, 100));
+    const rows = await this.db.query<Record<string, unknown>>(`
+      SELECT matched.*, ts_rank(matched."${SEARCH_VECTOR_COLUMN}", ${match}) AS "_rank"
+      FROM (${sql}) matched
+      ORDER BY "_rank" DESC, matched."id"
+      LIMIT ${limit}
+    `, params);
+
+    return rows.map(({ _rank, ...row }) => ({
+      entityId: entity.id,
+      id: String(row.id),
+      rank: Number(_rank),
+      record: this.toCamelCaseKeys(row) as T,
+    }));
+  }
+
   // ============================================================
   // UPDATE
   // ============================================================
@@ -351,7 +671,7 @@ export class CrudService {
     entityId: string,
     id: string,
     data: Record<string, unknown>,
-    options: { skipValidation?: boolean } = {}
+    options: CrudWriteOptions = {}
   ): Promise<MutationResult<T>> {
     const entity = this.getEntity(entityId);
     const tableName = this.toTableName(entity);
@@ -366,6 +686,13 @@ export class CrudService {
     if (!existing.found) {
       throw new Error(`Record not found: ${id}`);
     }
+    const previous = existing.data as Record<string, unknown>;
+
+    // Before hook sees the merged record and may reject or change values
+    data = {
+      ...data,
+      ...this.hooks.runBefore(entity.id, 'beforeUpdate', { old: previous, new: { ...previous, ...data } }, options.context),
+    };
 
     // Validate
     if (!options.skipValidation) {
@@ -383,10 +710,17 @@ export class CrudService {
       .where({ field: 'id', operator: 'eq', value: id })
       .buildUpdate(snakeCaseData);
 
-    const rows = await this.db.query<T>(sql, params);
+    const updated = await this.withHistory(entity, async () => {
+      const rows = await this.db.query<T>(sql, params);
+      const record = this.toCamelCaseKeys(rows[0]) as Record<string, unknown>;
+      await this.recordAudit(entity, 'update', previous, record, options.context);
+      await this.recordVersion(entity, previous, record, options.context);
+      return record;
+    });
+    this.hooks.runAfter(entity.id, 'afterUpdate', { old: previous, new: updated }, options.context);
 
     return {
-      data: this.toCamelCaseKeys(rows[0]) as T,
+      data: updated as T,
       success: true,
       affectedRows: 1,
     };
@@ -398,7 +732,8 @@ export class CrudService {
   async updateMany<T = Record<string, unknown>>(
     entityId: string,
     filters: QueryOptions['filters'],
-    data: Record<string, unknown>
+    data: Record<string, unknown>,
+    options: Pick<CrudWriteOptions, 'context'> = {}
   ): Promise<BulkMutationResult & { data: T[] }> {
     const entity = this.getEntity(entityId);
     const tableName = this.toTableName(entity);
@@ -407,6 +742,20 @@ export class CrudService {
       throw new Error('Filters are required for bulk update');
     }
 
+    // Hooks, the audit log and versions need each old record, so those entities are updated one
+    // record at a time, all or none
+    if (this.hooks.has(entity.id, 'beforeUpdate', 'afterUpdate') || this.isAudited(entity) || this.isVersioned(entity)) {
+      const updated = await this.db.transaction(async () => {
+        const records: T[] = [];
+        for (const id of await this.findIds(entity, filters)) {
+          const result = await this.update<T>(entity.id, id, data, { context: options.context });
+          records.push(result.data);
+        }
+        return records;
+      });
+      return { success: true, updated: updated.length, data: updated };
+    }
+
     const snakeCaseData = this.toSnakeCaseKeys(this.validator.sanitize(entity, data));
 
     const qb = query(tableName, this.schema).whereAll(filters);
@@ -427,7 +776,8 @@ export class CrudService {
   async upsert<T = Record<string, unknown>>(
     entityId: string,
     data: Record<string, unknown>,
-    uniqueFields: string[]
+    uniqueFields: string[],
+    options: CrudWriteOptions = {}
   ): Promise<MutationResult<T>> {
     const entity = this.getEntity(entityId);
     const tableName = this.toTableName(entity);
@@ -442,12 +792,47 @@ export class CrudService {
     const existing = await this.findOne(entityId, { filters });
 
     if (existing.found && existing.data) {
-      return this.update(entityId, (existing.data as any).id, data);
+      return this.update(entityId, (existing.data as any).id, data, options);
     } else {
-      return this.create(entityId, data);
+      return this.create(entityId, data, options);
     }
   }
 
+  /**
+   * Write a saved version back to its record (as a new update, so it becomes the latest version)
+   */
+  async restoreVersion<T = Record<string, unknown>>(
+    entityId: string,
+    id: string,
+    version: number,
+    options: CrudWriteOptions = {}
+  ): Promise<MutationResult<T>> {
+    const entity = this.getEntity(entityId);
+    const snapshot = await this.getVersion(entity.id, id, version, options.context?.appId);
+    if (!snapshot) {
+      throw new Error(`Version not found: ${id} v${version}`);
+    }
+    return this.update<T>(entity.id, id, versionRestoreData(snapshot), options);
+  }
+
+  /**
+   * Saved versions of a record, oldest first
+   */
+  async listVersions(entityId: string, id: string, appId?: string): Promise<RecordVersion[]> {
+    const entity = this.getEntity(entityId);
+    if (!this.versionStore) return [];
+    return this.versionStore.list(appId ?? DEFAULT_AUDIT_APP_ID, entity.id, id);
+  }
+
+  /**
+   * One saved version of a record
+   */
+  async getVersion(entityId: string, id: string, version: number, appId?: string): Promise<RecordVersion | null> {
+    const entity = this.getEntity(entityId);
+    if (!this.versionStore) return null;
+    return this.versionStore.get(appId ?? DEFAULT_AUDIT_APP_ID, entity.id, id, version);
+  }
+
   // ============================================================
   // DELETE
   // ============================================================
@@ -457,7 +842,8 @@ export class CrudService {
    */
   async delete(
     entityId: string,
-    id: string
+    id: string,
+    options: Pick<CrudWriteOptions, 'context'> = {}
   ): Promise<{ success: boolean; deletedId: string }> {
     const entity = this.getEntity(entityId);
     const tableName = this.toTableName(entity);
@@ -472,6 +858,9 @@ export class CrudService {
     if (!existing.found) {
       throw new Error(`Record not found: ${id}`);
     }
+    const previous = existing.data as Record<string, unknown>;
+
+    this.hooks.runBefore(entity.id, 'beforeDelete', { old: previous }, options.context);
 
     const qb = query(tableName, this.schema)
       .where({ field: 'id', operator: 'eq', value: id });
@@ -485,7 +874,11 @@ export class CrudService {
       ({ sql, params } = qb.buildDelete());
     }
 
-    await this.db.query(sql, params);
+    await this.withHistory(entity, async () => {
+      await this.db.query(sql, params);
+      await this.recordAudit(entity, 'delete', previous, null, options.context);
+    });
+    this.hooks.runAfter(entity.id, 'afterDelete', { old: previous }, options.context);
 
     return { success: true, deletedId: id };
   }
@@ -495,7 +888,8 @@ export class CrudService {
    */
   async deleteMany(
     entityId: string,
-    filters: QueryOptions['filters']
+    filters: QueryOptions['filters'],
+    options: Pick<CrudWriteOptions, 'context'> = {}
   ): Promise<{ success: boolean; deletedCount: number }> {
     const entity = this.getEntity(entityId);
     const tableName = this.toTableName(entity);
@@ -504,6 +898,20 @@ export class CrudService {
       throw new Error('Filters are required for bulk delete');
     }
 
+    // Hooks and the audit log need each old record, so those entities are deleted one record at a
+    // time, all or none
+    if (this.hooks.has(entity.id, 'beforeDelete', 'afterDelete') || this.isAudited(entity)) {
+      const deletedCount = await this.db.transaction(async () => {
+        let count = 0;
+        for (const id of await this.findIds(entity, filters)) {
+          await this.delete(entity.id, id, options);
+          count++;
+        }
+        return count;
+      });
+      return { success: true, deletedCount };
+    }
+
     const qb = query(tableName, this.schema).whereAll(filters);
 
     let sql: string, params: unknown[];
@@ -524,7 +932,8 @@ export class CrudService {
    */
   async restore(
     entityId: string,
-    id: string
+    id: string,
+    options: Pick<CrudWriteOptions, 'context'> = {}
   ): Promise<{ success: boolean }> {
     const entity = this.getEntity(entityId);
     
@@ -535,8 +944,31 @@ export class CrudService {
     const tableName = this.toTableName(entity);
     const qualifiedTable = `"${this.schema}"."${tableName}"`;
 
-    const sql = `UPDATE ${qualifiedTable} SET "deleted_at" = NULL WHERE "id" = $1`;
-    await this.db.execute(sql, [id]);
+    if (!this.isAudited(entity)) {
+      const sql = `UPDATE ${qualifiedTable} SET "deleted_at" = NULL WHERE "id" = $1`;
+      await this.db.execute(sql, [id]);
+      return { success: true };
+    }
+
+    // Audited restores keep the deletion time for the diff
+    await this.withHistory(entity, async () => {
+      const deleted = await this.db.queryOne(
+        `SELECT * FROM ${qualifiedTable} WHERE "id" = $1 AND "deleted_at" IS NOT NULL`,
+        [id]
+      );
+      if (!deleted) return;
+      const rows = await this.db.query(
+        `UPDATE ${qualifiedTable} SET "deleted_at" = NULL WHERE "id" = $1 RETURNING *`,
+        [id]
+      );
+      await this.recordAudit(
+        entity,
+        'restore',
+        this.toCamelCaseKeys(deleted) as Record<string, unknown>,
+        this.toCamelCaseKeys(rows[0]) as Record<string, unknown>,
+        options.context
+      );
+    });
 
     return { success: true };
   }
@@ -586,10 +1018,122 @@ export class CrudService {
     });
   }
 
+  // ============================================================
+  // AUDIT & VERSION HELPERS
+  // ============================================================
+
+  private isAudited(entity: Entity): boolean {
+    return this.auditLog !== null && entity.behaviors?.includes('auditable') === true;
+  }
+
+  /**
+   * Run a write of an auditable or versionable entity in one transaction with
+   * its audit entry and version, so a failing history insert undoes the write
+   */
+  private async withHistory<R>(entity: Entity, write: () => Promise<R>): Promise<R> {
+    if (!this.isAudited(entity) && !this.isVersioned(entity)) {
+      return write();
+    }
+    return this.db.transaction(() => write());
+  }
+
+  /**
+   * Record a completed write to an auditable entity
+   * Runs in the write's transaction (see withHistory), before after-hooks.
+   */
+  private async recordAudit(
+    entity: Entity,
+    action: AuditAction,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null,
+    context: EntityWriteContext | undefined
+  ): Promise<void> {
+    if (!this.auditLog || !this.isAudited(entity)) return;
+
+    await this.auditLog.record({
+      appId: context?.appId ?? DEFAULT_AUDIT_APP_ID,
+      entityId: entity.id,
+      recordId: String((after ?? before)?.id),
+      action,
+      userId: context?.user?.id,
+      userRole: context?.user?.role,
+      before,
+      after,
+    });
+  }
+
+  private isVersioned(entity: Entity): boolean {
+    return this.versionStore !== null && entity.behaviors?.includes('versionable') === true;
+  }
+
+  /**
+   * Save the version snapshot of a completed create or update
+   * Runs on this connection so the version joins the write's transaction.
+   */
+  private async recordVersion(
+    entity: Entity,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown>,
+    context: EntityWriteContext | undefined
+  ): Promise<void> {
+    if (!this.versionStore || !this.isVersioned(entity)) return;
+
+    await recordVersionedWrite(this.versionStore, {
+      appId: context?.appId ?? DEFAULT_AUDIT_APP_ID,
+      entityId: entity.id,
+      recordId: String(after.id),
+      userId: context?.user?.id,
+      before,
+      after,
+    }, this.db);
+  }
+
   // ============================================================
   // UTILITY METHODS
   // ============================================================
 
+  /**
+   * IDs of the (non-deleted) records matching filters
+   */
+  private async findIds(entity: Entity, filters: QueryOptions['filters']): Promise<string[]> {
+    const { sql, params } = this.applyScope(query(this.toTableName(entity), this.schema), entity, { filters })
+      .select('id')
+      .buildSelect();
+    const rows = await this.db.query<{ id: string }>(sql, params);
+    return rows.map(row => String(row.id));
+  }
+
+  /**
+   * Apply filters, the row-level access scope and soft-delete exclusion
+   */
+  private applyScope(
+    qb: QueryBuilder,
+    entity: Entity,
+    options: Pick<QueryOptions, 'filters' | 'accessFilter' | 'tags'> & { withDeleted?: boolean }
+  ): QueryBuilder {
+    if (options.filters) {
+      qb.whereAll(options.filters);
+    }
+
+    if (options.accessFilter) {
+      qb.whereGroup(options.accessFilter);
+    }
+
+    if (options.tags && options.tags.tagIds.length > 0) {
+      if (!isTaggableEntity(entity)) {
+        throw new Error(`${entity.name} is not taggable`);
+      }
+      const { sql, params } = tagFilterSql(entity, options.tags, `"${this.schema}"."${this.toTableName(entity)}"."id"`, this.schema);
+      qb.whereRaw(sql, params);
+    }
+
+    if (entity.timestamps?.deletedAt && !options.withDeleted) {
+      qb.where({ field: 'deleted_at', operator: 'isNull', value: null });
+    }
+
+    return qb;
+  }
+
   private toTableName(entity: Entity): string {
     const name = entity.pluralName || entity.name + 's';
     return this.toSnakeCase(name);
@@ -622,6 +1166,8 @@ export class CrudService {
 
     const result: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
+      // The search vector is an index, not record data
+      if (key === SEARCH_VECTOR_COLUMN) continue;
       result[this.toCamelCase(key)] = value;
     }
     return result;
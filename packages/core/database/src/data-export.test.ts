@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { CrudService } from './crud-service.js';
+import { DataExportService, ExportError, exportCellValue, exportColumns } from './data-export.js';
+import type { DatabaseConnection } from './connection.js';
+import type { QueryOptions } from './types.js';
+
+const ACME = '11111111-1111-4111-8111-111111111111';
+
+const customer = {
+  id: 'customer',
+  name: 'Customer',
+  pluralName: 'Customers',
+  fields: [{ id: 'name', name: 'name', type: 'string' }],
+};
+
+const job = {
+  id: 'job',
+  name: 'Job',
+  pluralName: 'Jobs',
+  fields: [
+    { id: 'title', name: 'title', type: 'string' },
+    { id: 'amount', name: 'amount', type: 'currency' },
+    { id: 'dueDate', name: 'dueDate', type: 'date' },
+    { id: 'status', name: 'status', type: 'enum', enumOptions: [{ value: 'open', label: 'Open' }] },
+    { id: 'customerId', name: 'customerId', type: 'reference', reference: { entity: 'customer', displayField: 'name' } },
+    { id: 'margin', name: 'margin', type: 'percent', access: { visibleTo: ['owner', 'admin'] } },
+  ],
+};
+
+describe('exportColumns', () => {
+  it('leaves out fields hidden from the role and keeps the selected order', () => {
+    expect(exportColumns(job, { role: 'viewer' }).map(c => c.field))
+      .toEqual(['title', 'amount', 'dueDate', 'status', 'customerId']);
+    expect(exportColumns(job, { role: 'admin' }).map(c => c.field)).toContain('margin');
+    expect(exportColumns(job).map(c => c.field)).not.toContain('margin');
+
+    const selected = exportColumns(job, { select: ['status', 'id', 'margin'], role: 'viewer' });
+    expect(selected).toEqual([
+      { field: 'status', label: 'Status', type: 'enum' },
+      { field: 'id', label: 'Id', type: 'text' },
+    ]);
+    expect(exportColumns(job, { include: [{ relation: 'tasks' }] }).at(-1))
+      .toEqual({ field: 'tasks', label: 'Tasks', type: 'relation' });
+    expect(() => exportColumns(job, { select: ['title', 'nope'] })).toThrow(ExportError);
+  });
+});
+
+describe('exportCellValue', () => {
+  it('renders references, enums, dates, numbers and related records for display', () => {
+    const [, amount, dueDate, status, customerId] = job.fields;
+    expect(exportCellValue(customerId, ACME, new Map([[ACME, 'Acme Corp']]))).toBe('Acme Corp');
+    expect(exportCellValue(customerId, 'gone', new Map())).toBe('gone');
+    expect(exportCellValue(status, 'open')).toBe('Open');
+    expect(exportCellValue(dueDate, new Date('2024-03-04T00:00:00Z'))).toBe('2024-03-04');
+    expect(exportCellValue(amount, '12.50')).toBe(12.5);
+    expect(exportCellValue({ id: 'tasks', name: 'tasks', type: 'relation' }, [{ id: 't1', title: 'Paint' }, { id: 't2' }]))
+      .toBe('Paint, t2');
+    expect(exportCellValue(undefined, { a: 1 })).toBe('{"a":1}');
+    expect(exportCellValue(amount, null)).toBeNull();
+  });
+});
+
+describe('DataExportService', () => {
+  it('loads the query in batches and names referenced records', async () => {
+    const jobs = Array.from({ length: 5 }, (_, i) => ({
+      id: `j${i}`, title: `Job ${i}`, amount: '10', status: 'open', customerId: ACME, margin: 0.3,
+    }));
+    const pages: QueryOptions[] = [];
+    const db = {
+      query: async (sql: string) => sql.includes('"customers"') ? [{ id: ACME, name: 'Acme Corp' }] : [],
+      queryOne: async () => null,
+    } as unknown as DatabaseConnection;
+    const crud = new CrudService(db);
+    crud.registerEntity(customer);
+    const exports = new DataExportService(crud, async (_entityId, options) => {
+      pages.push(options);
+      const { offset, limit } = options.pagination!;
+      const data = jobs.slice(offset, offset + limit);
+      return { data, count: data.length, totalCount: jobs.length, hasMore: offset + data.length < jobs.length };
+    });
+    exports.registerEntity(job);
+
+    const columns = exports.columns('job', { select: ['title', 'customerId', 'margin'], role: 'viewer' });
+    const batches: unknown[][][] = [];
+    for await (const rows of exports.rows('job', columns, {
+      filters: [{ field: 'status', operator: 'eq', value: 'open' }],
+      sorts: [{ field: 'title', direction: 'desc' }],
+      select: ['title'],
+      pagination: { offset: 40, limit: 1 },
+    }, { batchSize: 2 })) {
+      batches.push(rows);
+    }
+
+    expect(batches).toEqual([
+      [['Job 0', 'Acme Corp'], ['Job 1', 'Acme Corp']],
+      [['Job 2', 'Acme Corp'], ['Job 3', 'Acme Corp']],
+      [['Job 4', 'Acme Corp']],
+    ]);
+    expect(pages.map(p => p.pagination)).toEqual([
+      { offset: 0, limit: 2 },
+      { offset: 2, limit: 2 },
+      { offset: 4, limit: 2 },
+    ]);
+    expect(pages[0].sorts).toEqual([{ field: 'title', direction: 'desc' }, { field: 'id', direction: 'asc' }]);
+    expect(pages[0].filters).toEqual([{ field: 'status', operator: 'eq', value: 'open' }]);
+    expect(pages[0].select).toBeUndefined();
+
+    const tooMany = exports.rows('job', columns, {}, { maxRows: 3 });
+    await expect(tooMany.next()).rejects.toThrow(ExportError);
+  });
+});
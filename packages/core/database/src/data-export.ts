@@ -0,0 +1,329 @@
+/**
+ * Data Export
+ * Turns the records of a query (the same QueryOptions as findMany) into rows of
+ * display values, batch by batch, for the file writers (CSV, XLSX, JSON, PDF).
+ * Fields whose `access.visibleTo` leaves out the viewer's role are not exported,
+ * and reference fields are rendered by the display field of the record they point to.
+ */
+
+import type { CrudService } from './crud-service.js';
+import type { IncludeRelation, QueryOptions, QueryResult, QuerySort } from './types.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'pdf';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json', 'pdf'];
+
+/** Exported value: dates are ISO strings, references their display value */
+export type ExportCell = string | number | boolean | null;
+
+export interface ExportColumn {
+  /** Field (or included relation) name; the key of JSON exports */
+  field: string;
+  label: string;
+  /** Field type ('relation' for included relations) */
+  type: string;
+}
+
+export interface ExportColumnOptions {
+  /** Exported fields, in order (default: every field the viewer may see) */
+  select?: string[];
+  /** Included relations become extra columns listing the related records */
+  include?: IncludeRelation[];
+  /** Role of the viewer, checked against `access.visibleTo` */
+  role?: string;
+}
+
+export interface ExportRecordsOptions {
+  /** Refuse exports of more rows than this */
+  maxRows?: number;
+  /** Records loaded per query (default EXPORT_BATCH_SIZE) */
+  batchSize?: number;
+}
+
+interface ExportField {
+  id: string;
+  name: string;
+  type: string;
+  enumOptions?: { value: string; label: string }[];
+  reference?: {
+    entity: string;
+    displayField: string;
+  };
+  access?: {
+    visibleTo?: string[];
+  };
+}
+
+interface ExportEntity {
+  id: string;
+  name: string;
+  fields: ExportField[];
+  crud?: {
+    read?: { enabled: boolean };
+  };
+}
+
+/** Loads one page of records, with computed fields, tags and includes (DatabaseService.findMany) */
+export type ExportPageLoader = (entityId: string, options: QueryOptions) => Promise<QueryResult>;
+
+/** Reference field name → (record id → display value) */
+type DisplayValues = Map<string, Map<string, string>>;
+
+export const EXPORT_BATCH_SIZE = 500;
+
+const NUMERIC_TYPES = new Set(['number', 'integer', 'decimal', 'currency', 'percent', 'rating']);
+
+/** Columns every record has; exported only when selected */
+const SYSTEM_FIELDS: ExportField[] = [
+  { id: 'id', name: 'id', type: 'text' },
+  { id: 'createdAt', name: 'createdAt', type: 'datetime' },
+  { id: 'updatedAt', name: 'updatedAt', type: 'datetime' },
+];
+
+/** Fields tried, in order, to name a related record of an included relation */
+const RELATED_DISPLAY_FIELDS = ['name', 'title', 'label', 'displayName', 'email'];
+
+/**
+ * An export that cannot be produced: unknown fields, or too many rows
+ */
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+// ============================================================
+// COLUMNS AND CELLS
+// ============================================================
+
+/**
+ * Whether a role may see a field (fields without `access.visibleTo` are visible to everyone)
+ */
+export function isFieldVisibleTo(field: { access?: { visibleTo?: string[] } }, role?: string): boolean {
+  const visibleTo = field.access?.visibleTo;
+  if (!visibleTo || visibleTo.length === 0) return true;
+  return role !== undefined && visibleTo.includes(role);
+}
+
+/**
+ * Columns of an export: the selected (or all) fields the role may see, then included relations
+ * Selected fields hidden from the role are left out; unknown ones are an error.
+ */
+export function exportColumns(entity: ExportEntity, options: ExportColumnOptions = {}): ExportColumn[] {
+  let fields = entity.fields;
+  if (options.select && options.select.length > 0) {
+    const unknown = options.select.filter(name => !fieldOf(entity, name));
+    if (unknown.length > 0) {
+      throw new ExportError(`Unknown fields on ${entity.name}: ${unknown.join(', ')}`);
+    }
+    fields = options.select.map(name => fieldOf(entity, name)!);
+  }
+
+  const columns: ExportColumn[] = fields
+    .filter(field => isFieldVisibleTo(field, options.role))
+    .map(field => ({ field: field.name, label: labelOf(field.name), type: field.type }));
+
+  for (const include of options.include ?? []) {
+    const referenceField = entity.fields.find(f => f.name === include.relation && f.reference);
+    if (referenceField) {
+      // The reference column already shows the related record
+      if (!isFieldVisibleTo(referenceField, options.role) || columns.some(c => c.field === include.relation)) continue;
+    }
+    columns.push({ field: include.relation, label: labelOf(include.relation), type: 'relation' });
+  }
+
+  return columns;
+}
+
+/**
+ * Exported value of a field
+ * References are looked up in `displayValues` (falling back to the id), enum values
+ * become their labels and dates ISO strings.
+ */
+export function exportCellValue(
+  field: ExportField | undefined,
+  value: unknown,
+  displayValues?: Map<string, string>
+): ExportCell {
+  if (value === null || value === undefined) return null;
+
+  if (field?.reference && (typeof value === 'string' || typeof value === 'number')) {
+    return displayValues?.get(String(value)) ?? String(value);
+  }
+
+  if (Array.isArray(value)) {
+    // Included relations and tags: the names of the related records
+    const names = value.map(item => relatedDisplayValue(item)).filter(name => name !== '');
+    return names.join(', ');
+  }
+
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    return field?.type === 'date' ? value.toISOString().slice(0, 10) : value.toISOString();
+  }
+
+  if (field?.enumOptions && typeof value === 'string') {
+    return field.enumOptions.find(option => option.value === value)?.label ?? value;
+  }
+
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+
+  if (typeof value === 'object') {
+    const related = relatedDisplayValue(value);
+    return related !== '' && field?.type === 'relation' ? related : JSON.stringify(value);
+  }
+
+  // Postgres returns NUMERIC columns as strings
+  if (field && NUMERIC_TYPES.has(field.type) && value !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+
+  return String(value);
+}
+
+function fieldOf(entity: ExportEntity, name: string): ExportField | undefined {
+  return entity.fields.find(f => f.name === name) ?? SYSTEM_FIELDS.find(f => f.name === name);
+}
+
+/**
+ * Name of a related record (or tag) for display
+ */
+function relatedDisplayValue(item: unknown): string {
+  if (item === null || item === undefined) return '';
+  if (typeof item !== 'object') return String(item);
+  const record = item as Record<string, unknown>;
+  for (const key of RELATED_DISPLAY_FIELDS) {
+    if (record[key] !== null && record[key] !== undefined && record[key] !== '') return String(record[key]);
+  }
+  return record.id !== undefined ? String(record.id) : '';
+}
+
+/**
+ * Column heading for a field name: firstName → First name
+ */
+function labelOf(name: string): string {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// ============================================================
+// EXPORT SERVICE
+// ============================================================
+
+export class DataExportService {
+  private crud: CrudService;
+  private loadPage: ExportPageLoader;
+  private entities: Map<string, ExportEntity> = new Map();
+
+  constructor(crud: CrudService, loadPage: ExportPageLoader) {
+    this.crud = crud;
+    this.loadPage = loadPage;
+  }
+
+  /**
+   * Register an entity that can be exported
+   */
+  registerEntity(entity: ExportEntity): void {
+    this.entities.set(entity.id, entity);
+  }
+
+  /**
+   * Whether an entity can be exported (registered, with read enabled)
+   */
+  isExportable(entityId: string): boolean {
+    const entity = this.entities.get(entityId);
+    return entity !== undefined && entity.crud?.read?.enabled !== false;
+  }
+
+  /**
+   * Columns of an export of the entity
+   */
+  columns(entityId: string, options: ExportColumnOptions = {}): ExportColumn[] {
+    return exportColumns(this.getEntity(entityId), options);
+  }
+
+  /**
+   * Rows of the query, one batch of records at a time, with a cell per column
+   * The query's pagination is replaced by batches; `select` only picks columns.
+   */
+  async *rows(
+    entityId: string,
+    columns: ExportColumn[],
+    query: QueryOptions = {},
+    options: ExportRecordsOptions = {}
+  ): AsyncGenerator<ExportCell[][]> {
+    const entity = this.getEntity(entityId);
+    const batchSize = options.batchSize ?? EXPORT_BATCH_SIZE;
+    const fields = columns.map(column =>
+      column.type === 'relation'
+        ? { id: column.field, name: column.field, type: 'relation' }
+        : fieldOf(entity, column.field)
+    );
+    const { select: _select, pagination: _pagination, ...rest } = query;
+    // Ties are broken by id so records do not move between batches
+    const sorts = query.sorts && query.sorts.length > 0 && !query.sorts.some(sort => sort.field === 'id')
+      ? [...query.sorts, { field: 'id', direction: 'asc' } as QuerySort]
+      : query.sorts;
+
+    for (let offset = 0; ; offset += batchSize) {
+      const page = await this.loadPage(entityId, { ...rest, sorts, pagination: { offset, limit: batchSize } });
+      if (offset === 0 && options.maxRows !== undefined && (page.totalCount ?? 0) > options.maxRows) {
+        throw new ExportError(`The export has ${page.totalCount} rows; exports are limited to ${options.maxRows}`);
+      }
+
+      const records = page.data as Record<string, unknown>[];
+      const displayValues = await this.displayValues(fields, records);
+      yield records.map(record =>
+        fields.map((field, i) => exportCellValue(field, record[columns[i].field], displayValues.get(columns[i].field)))
+      );
+
+      if (records.length < batchSize || page.hasMore === false) return;
+    }
+  }
+
+  /**
+   * Display values of the records the reference fields of a batch point to
+   */
+  private async displayValues(
+    fields: (ExportField | undefined)[],
+    records: Record<string, unknown>[]
+  ): Promise<DisplayValues> {
+    const values: DisplayValues = new Map();
+    for (const field of fields) {
+      if (!field?.reference) continue;
+      const ids = [...new Set(
+        records.map(record => record[field.name]).filter(id => id !== null && id !== undefined && id !== '').map(String)
+      )];
+      const byId = new Map<string, string>();
+      if (ids.length > 0) {
+        const { entity, displayField } = field.reference;
+        const found = await this.crud.findMany<Record<string, unknown>>(entity, {
+          filters: [{ field: 'id', operator: 'in', value: ids }],
+          select: ['id', displayField],
+        });
+        for (const record of found.data) {
+          byId.set(String(record.id), String(record[displayField] ?? record.id));
+        }
+      }
+      values.set(field.name, byId);
+    }
+    return values;
+  }
+
+  private getEntity(entityId: string): ExportEntity {
+    const entity = this.entities.get(entityId);
+    if (!entity) {
+      throw new Error(`Entity not found: ${entityId}`);
+    }
+    return entity;
+  }
+}
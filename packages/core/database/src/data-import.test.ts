@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { CrudService } from './crud-service.js';
+import {
+  DataImportService,
+  ImportValidationError,
+  coerceImportValue,
+  mappingFromSuggestions,
+  suggestImportMapping,
+} from './data-import.js';
+import type { DatabaseConnection } from './connection.js';
+
+const ACME = '11111111-1111-4111-8111-111111111111';
+
+const customer = {
+  id: 'customer',
+  name: 'Customer',
+  pluralName: 'Customers',
+  fields: [{ id: 'name', name: 'name', type: 'string', required: true }],
+};
+
+const job = {
+  id: 'job',
+  name: 'Job',
+  pluralName: 'Jobs',
+  fields: [
+    { id: 'title', name: 'title', type: 'string', required: true },
+    { id: 'amount', name: 'amount', type: 'currency' },
+    { id: 'dueDate', name: 'dueDate', type: 'date' },
+    { id: 'status', name: 'status', type: 'enum', enumOptions: [{ value: 'open', label: 'Open' }, { value: 'done', label: 'Done' }] },
+    { id: 'customerId', name: 'customerId', type: 'reference', reference: { entity: 'customer', displayField: 'name' } },
+    { id: 'total', name: 'total', type: 'number', computed: { expression: 'amount', dependencies: ['amount'] } },
+  ],
+};
+
+/**
+ * Connection double that knows one customer and records statements and transactions
+ */
+function recordingConnection() {
+  const statements: string[] = [];
+  let transactions = 0;
+  const answer = (sql: string, params: unknown[] = []): Record<string, unknown>[] => {
+    statements.push(sql);
+    if (sql.includes('FROM "public"."customers"')) {
+      const values = (params as string[][]).flat();
+      return values.includes('Acme Corp') || values.includes(ACME) ? [{ id: ACME, name: 'Acme Corp' }] : [];
+    }
+    if (sql.startsWith('INSERT')) {
+      return [{ id: 'j1' }, { id: 'j2' }];
+    }
+    return [];
+  };
+  const db = {
+    query: async (sql: string, params?: unknown[]) => answer(sql, params),
+    queryOne: async (sql: string, params?: unknown[]) => answer(sql, params)[0] ?? null,
+    transaction: async <T>(fn: () => Promise<T>) => { transactions++; return fn(); },
+  } as unknown as DatabaseConnection;
+  const crud = new CrudService(db);
+  const imports = new DataImportService(db, crud);
+  for (const entity of [customer, job]) {
+    crud.registerEntity(entity);
+    imports.registerEntity(entity);
+  }
+  return { imports, statements, transactions: () => transactions };
+}
+
+describe('suggestImportMapping', () => {
+  it('matches headers to fields despite case, spacing and typos', () => {
+    const suggestions = suggestImportMapping(['Job Title', 'Amount ($)', 'Due date', 'Customer', 'Stauts', 'Notes', 'Total'], job);
+
+    expect(mappingFromSuggestions(suggestions)).toEqual({
+      'Amount ($)': 'amount',
+      'Due date': 'dueDate',
+      Customer: 'customerId',
+      Stauts: 'status',
+      'Job Title': 'title',
+    });
+    expect(suggestions.find(s => s.column === 'Due date')?.score).toBe(1);
+  });
+});
+
+describe('coerceImportValue', () => {
+  const field = (type: string) => ({ id: 'f', name: 'f', type });
+
+  it('reads spreadsheet formats of numbers, dates and booleans', () => {
+    expect(coerceImportValue(field('currency'), '$1,234.50')).toEqual({ value: 1234.5 });
+    expect(coerceImportValue(field('currency'), '(1.234,50 €)')).toEqual({ value: -1234.5 });
+    expect(coerceImportValue(field('number'), 'lots')).toEqual({ error: 'f must be a number' });
+    expect(coerceImportValue(field('date'), '3/4/2024')).toEqual({ value: '2024-03-04' });
+    expect(coerceImportValue(field('date'), '3/4/2024', { dateOrder: 'dmy' })).toEqual({ value: '2024-04-03' });
+    expect(coerceImportValue(field('date'), '14.03.24')).toEqual({ value: '2024-03-14' });
+    expect(coerceImportValue(field('date'), 45366)).toEqual({ value: '2024-03-15' });
+    expect(coerceImportValue(field('date'), '2/30/2024')).toEqual({ error: 'f must be a date' });
+    expect(coerceImportValue(field('boolean'), 'Yes')).toEqual({ value: true });
+    expect(coerceImportValue(field('time'), '2:30 PM')).toEqual({ value: '14:30' });
+    expect(coerceImportValue(field('string'), '  ')).toEqual({ value: undefined });
+  });
+});
+
+describe('DataImportService', () => {
+  const table = {
+    headers: ['Title', 'Amount', 'Status', 'Customer'],
+    rows: [
+      ['Roof repair', '$1,200', 'open', 'Acme Corp'],
+      [null, 'abc', 'Closed', 'Nobody Inc'],
+      [null, null, null, null],
+    ],
+  };
+
+  it('reports row errors with spreadsheet row numbers and writes nothing', async () => {
+    const { imports, statements } = recordingConnection();
+
+    const preview = await imports.preview('job', table);
+
+    expect(preview.mapping).toEqual({ Title: 'title', Amount: 'amount', Status: 'status', Customer: 'customerId' });
+    expect(preview.totalRows).toBe(2);
+    expect(preview.validRows).toBe(1);
+    expect(preview.rows[0].data).toEqual({ title: 'Roof repair', amount: 1200, status: 'open', customerId: ACME });
+    expect(preview.errors.map(e => [e.row, e.field])).toEqual([
+      [3, 'amount'],
+      [3, 'status'],
+      [3, 'customerId'],
+      [3, 'title'],
+    ]);
+
+    await expect(imports.commit('job', table, undefined)).rejects.toBeInstanceOf(ImportValidationError);
+    expect(statements.some(sql => sql.startsWith('INSERT'))).toBe(false);
+  });
+
+  it('creates all valid rows in one transaction', async () => {
+    const { imports, statements, transactions } = recordingConnection();
+    const valid = { ...table, rows: [table.rows[0], ['Gutters', '80', 'Done', ACME]] };
+
+    const result = await imports.commit('job', valid, undefined);
+
+    expect(result.inserted).toBe(2);
+    expect(transactions()).toBe(1);
+    expect(statements.filter(sql => sql.startsWith('INSERT'))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,650 @@
+/**
+ * Data Import
+ * Loads spreadsheet rows (CSV/XLSX, parsed by the caller) into an entity.
+ * Columns are mapped to fields by fuzzy header matching, cells are coerced to
+ * the field types, and every row is validated before anything is written;
+ * the rows are then created in one transaction.
+ */
+
+import type { DatabaseConnection } from './connection.js';
+import type { CrudService, CrudWriteOptions } from './crud-service.js';
+import { isUuid } from './tags.js';
+import { validationEngine } from './validation.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/** Spreadsheet cell as read from the file (empty cells are null) */
+export type ImportCell = string | number | boolean | null;
+
+export interface ImportTable {
+  headers: string[];
+  rows: ImportCell[][];
+}
+
+/** Column header → field name; columns left out are not imported */
+export type ImportMapping = Record<string, string>;
+
+export interface ImportMappingSuggestion {
+  column: string;
+  /** Best matching field (null: no field is close enough) */
+  field: string | null;
+  /** Header similarity, 0 to 1 */
+  score: number;
+}
+
+export interface ImportOptions {
+  /** How to read ambiguous dates like 03/04/2024 (default 'mdy') */
+  dateOrder?: 'mdy' | 'dmy';
+}
+
+export interface ImportRowError {
+  /** Spreadsheet row number (the header is row 1) */
+  row: number;
+  /** Field of the error (none for errors about the whole row) */
+  field?: string;
+  column?: string;
+  message: string;
+  value?: unknown;
+}
+
+export interface ImportPreviewRow {
+  row: number;
+  data: Record<string, unknown>;
+  errors: ImportRowError[];
+}
+
+export interface ImportPreview {
+  mapping: ImportMapping;
+  totalRows: number;
+  validRows: number;
+  /** The first rows, coerced as they would be imported */
+  rows: ImportPreviewRow[];
+  /** Errors of all rows, in row order (capped at MAX_REPORTED_IMPORT_ERRORS) */
+  errors: ImportRowError[];
+  errorCount: number;
+  /** Required fields no column is mapped to */
+  missingRequired: string[];
+}
+
+interface ImportField {
+  id: string;
+  name: string;
+  type: string;
+  required?: boolean;
+  enumOptions?: { value: string; label: string }[];
+  reference?: {
+    entity: string;
+    displayField: string;
+  };
+  computed?: unknown;
+  validation?: Record<string, unknown>;
+}
+
+interface ImportEntity {
+  id: string;
+  name: string;
+  fields: ImportField[];
+  crud?: {
+    create?: { enabled: boolean };
+  };
+}
+
+type Coerced = { value: unknown } | { error: string };
+
+/** Display value (lower case) → record id; null when several records share the value */
+type ReferenceLookup = Map<string, string | null>;
+
+export const MAX_IMPORT_ROWS = 10000;
+
+export const MAX_REPORTED_IMPORT_ERRORS = 200;
+
+const PREVIEW_ROWS = 20;
+
+/** Rows per INSERT statement when committing */
+const IMPORT_BATCH_SIZE = 500;
+
+/** Header similarity below which a column is left unmapped */
+const MIN_MAPPING_SCORE = 0.7;
+
+/** Day 0 of spreadsheet date serial numbers (1900 date system) */
+const SPREADSHEET_EPOCH = Date.UTC(1899, 11, 30);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const TRUE_WORDS = new Set(['true', 'yes', 'y', '1', 'x', 'on', 'checked', '✓']);
+const FALSE_WORDS = new Set(['false', 'no', 'n', '0', 'off', 'unchecked', '']);
+
+/**
+ * Rows that cannot be imported; nothing was written
+ */
+export class ImportValidationError extends Error {
+  preview: ImportPreview;
+
+  constructor(preview: ImportPreview) {
+    super(`${preview.errorCount} import error${preview.errorCount === 1 ? '' : 's'} in ${preview.totalRows - preview.validRows} rows`);
+    this.name = 'ImportValidationError';
+    this.preview = preview;
+  }
+}
+
+/**
+ * Mapping that names unknown columns or fields, or a table that is too large
+ */
+export class ImportMappingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportMappingError';
+  }
+}
+
+// ============================================================
+// COLUMN MAPPING
+// ============================================================
+
+/**
+ * Suggest a field for each column by fuzzy header matching
+ * Each field is suggested for at most one column, the closest one.
+ */
+export function suggestImportMapping(
+  headers: string[],
+  entity: { fields: ImportField[] }
+): ImportMappingSuggestion[] {
+  const fields = importableFields(entity);
+  const candidates: { column: number; field: string; score: number }[] = [];
+  headers.forEach((header, column) => {
+    for (const field of fields) {
+      const score = headerSimilarity(header, field);
+      if (score >= MIN_MAPPING_SCORE) candidates.push({ column, field: field.name, score });
+    }
+  });
+  candidates.sort((a, b) => b.score - a.score || a.column - b.column);
+
+  const suggestions: ImportMappingSuggestion[] = headers.map(column => ({ column, field: null, score: 0 }));
+  const taken = new Set<string>();
+  for (const candidate of candidates) {
+    const suggestion = suggestions[candidate.column];
+    if (suggestion.field !== null || taken.has(candidate.field)) continue;
+    suggestion.field = candidate.field;
+    suggestion.score = Math.round(candidate.score * 100) / 100;
+    taken.add(candidate.field);
+  }
+  return suggestions;
+}
+
+/**
+ * Mapping from suggestions, keeping the matched columns
+ */
+export function mappingFromSuggestions(suggestions: ImportMappingSuggestion[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  for (const suggestion of suggestions) {
+    if (suggestion.field) mapping[suggestion.column] = suggestion.field;
+  }
+  return mapping;
+}
+
+/**
+ * Fields a column can be mapped to (computed fields are derived, not imported)
+ */
+function importableFields(entity: { fields: ImportField[] }): ImportField[] {
+  return entity.fields.filter(field => !field.computed);
+}
+
+function headerSimilarity(header: string, field: ImportField): number {
+  const headerWords = words(header);
+  const compactHeader = headerWords.join('');
+  if (!compactHeader) return 0;
+
+  let best = 0;
+  for (const name of [field.name, field.id]) {
+    let fieldWords = words(name);
+    // A customerId reference is named "Customer" or "Customer name" in spreadsheets
+    if (field.type === 'reference' && fieldWords.length > 1 && fieldWords[fieldWords.length - 1] === 'id') {
+      fieldWords = fieldWords.slice(0, -1);
+    }
+    const compactField = fieldWords.join('');
+    if (compactHeader === compactField) return 1;
+
+    // "Job title" for title, "Email" for emailAddress
+    const shared = fieldWords.filter(word => headerWords.includes(word)).length;
+    if (shared === fieldWords.length || shared === headerWords.length) {
+      best = Math.max(best, 0.85);
+    }
+    best = Math.max(best, shared / new Set([...headerWords, ...fieldWords]).size);
+
+    const distance = editDistance(compactHeader, compactField);
+    best = Math.max(best, 1 - distance / Math.max(compactHeader.length, compactField.length));
+  }
+  return best;
+}
+
+/**
+ * Lower-case words of a header or camelCase name ("First name", "first_name", "firstName")
+ */
+function words(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Edits (insert, delete, substitute, swap neighbors) turning one string into another
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// ============================================================
+// COERCION
+// ============================================================
+
+/**
+ * Convert a spreadsheet cell to a field's type
+ * Empty cells become undefined, so required checks apply to them.
+ * @param references lookup of a reference field's target records by display value
+ */
+export function coerceImportValue(
+  field: ImportField,
+  cell: ImportCell | undefined,
+  options: ImportOptions & { references?: ReferenceLookup } = {}
+): Coerced {
+  if (cell === null || cell === undefined) return { value: undefined };
+  const text = typeof cell === 'string' ? cell.trim() : String(cell);
+  if (text === '' && field.type !== 'boolean') return { value: undefined };
+
+  switch (field.type) {
+    case 'number':
+    case 'integer':
+    case 'decimal':
+    case 'currency':
+    case 'percentage':
+    case 'rating':
+    case 'duration': {
+      const value = typeof cell === 'number' ? cell : parseNumber(text);
+      if (value === null) return { error: `${field.name} must be a number` };
+      if (field.type === 'integer' && !Number.isInteger(value)) {
+        return { error: `${field.name} must be a whole number` };
+      }
+      return { value };
+    }
+
+    case 'boolean': {
+      if (typeof cell === 'boolean') return { value: cell };
+      const word = text.toLowerCase();
+      if (TRUE_WORDS.has(word)) return { value: true };
+      if (FALSE_WORDS.has(word)) return { value: false };
+      return { error: `${field.name} must be yes or no` };
+    }
+
+    case 'date':
+    case 'datetime': {
+      const date = typeof cell === 'number' ? fromSerialDate(cell) : parseDate(text, options.dateOrder ?? 'mdy');
+      if (!date) return { error: `${field.name} must be a date` };
+      return { value: field.type === 'date' ? date.toISOString().slice(0, 10) : date.toISOString() };
+    }
+
+    case 'time': {
+      if (typeof cell === 'number' && cell >= 0 && cell < 1) {
+        const minutes = Math.round(cell * 24 * 60);
+        return { value: `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}` };
+      }
+      const match = text.match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?$/i);
+      if (!match) return { error: `${field.name} must be a time` };
+      let hours = parseInt(match[1], 10);
+      const meridiem = match[3]?.charAt(0).toLowerCase();
+      if (meridiem === 'p' && hours < 12) hours += 12;
+      if (meridiem === 'a' && hours === 12) hours = 0;
+      if (hours > 23 || parseInt(match[2], 10) > 59) return { error: `${field.name} must be a time` };
+      return { value: `${pad(hours)}:${match[2]}` };
+    }
+
+    case 'enum': {
+      const options = field.enumOptions ?? [];
+      if (options.length === 0) return { value: text };
+      const key = text.toLowerCase();
+      const option = options.find(o => o.value.toLowerCase() === key || o.label.toLowerCase() === key);
+      if (!option) {
+        return { error: `${field.name} must be one of: ${options.map(o => o.label).join(', ')}` };
+      }
+      return { value: option.value };
+    }
+
+    case 'reference': {
+      const lookup = options.references;
+      if (!lookup) return { value: text };
+      const id = lookup.get(text.toLowerCase());
+      if (id === undefined) return { error: `No ${field.reference?.entity ?? 'record'} matches "${text}"` };
+      if (id === null) return { error: `Several ${field.reference?.entity ?? 'record'} records match "${text}"` };
+      return { value: id };
+    }
+
+    case 'json':
+    case 'address':
+    case 'geolocation': {
+      if (typeof cell !== 'string') return { error: `${field.name} must be JSON` };
+      try {
+        const value = JSON.parse(text);
+        return typeof value === 'object' && value !== null ? { value } : { error: `${field.name} must be a JSON object` };
+      } catch {
+        return { error: `${field.name} must be JSON` };
+      }
+    }
+
+    default:
+      return { value: text };
+  }
+}
+
+/**
+ * Parse a number written with currency symbols, thousands separators,
+ * a percent sign, accounting parentheses or a decimal comma
+ */
+function parseNumber(text: string): number | null {
+  let cleaned = text.replace(/[\s '$€£¥%]|[A-Z]{3}$|^[A-Z]{3}/g, '');
+  let negative = false;
+  if (/^\(.*\)$/.test(cleaned)) {
+    negative = true;
+    cleaned = cleaned.slice(1, -1);
+  }
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma > lastDot && (lastDot !== -1 || !/^[-+]?\d{1,3}(,\d{3})+$/.test(cleaned))) {
+    // Decimal comma: 1.234,56 or 12,5
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) return null;
+  const value = Number(cleaned);
+  return negative ? -value : value;
+}
+
+/**
+ * Parse ISO dates, numeric dates (3/14/2024, 14.03.2024) and written dates (Mar 14, 2024)
+ */
+function parseDate(text: string, order: 'mdy' | 'dmy'): Date | null {
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00:00Z` : text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const numeric = text.match(/^(\d{1,2})([/.-])(\d{1,2})\2(\d{2}|\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (numeric) {
+    const [, first, separator, second, yearText, hours, minutes, seconds] = numeric;
+    const a = parseInt(first, 10);
+    const b = parseInt(second, 10);
+    // Day first: dotted dates, a first part above 12, or the configured order
+    const dayFirst = separator === '.' || a > 12 || (order === 'dmy' && b <= 12);
+    const [month, day] = dayFirst ? [b, a] : [a, b];
+    let year = parseInt(yearText, 10);
+    if (yearText.length === 2) year += year < 70 ? 2000 : 1900;
+    const date = new Date(Date.UTC(year, month - 1, day, Number(hours ?? 0), Number(minutes ?? 0), Number(seconds ?? 0)));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date;
+  }
+
+  const written = Date.parse(`${text} UTC`);
+  if (!isNaN(written) && /[a-z]/i.test(text)) return new Date(written);
+  return null;
+}
+
+/**
+ * Spreadsheet date serial number (days since 1899-12-30, fraction = time of day)
+ */
+function fromSerialDate(serial: number): Date | null {
+  if (!Number.isFinite(serial) || serial < 1) return null;
+  return new Date(SPREADSHEET_EPOCH + Math.round(serial * MS_PER_DAY));
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// ============================================================
+// IMPORT SERVICE
+// ============================================================
+
+export class DataImportService {
+  private db: DatabaseConnection;
+  private crud: CrudService;
+  private entities: Map<string, ImportEntity> = new Map();
+
+  constructor(db: DatabaseConnection, crud: CrudService) {
+    this.db = db;
+    this.crud = crud;
+  }
+
+  /**
+   * Register an entity that can be imported into
+   */
+  registerEntity(entity: ImportEntity): void {
+    this.entities.set(entity.id, entity);
+  }
+
+  /**
+   * Whether records can be imported into an entity (registered, with create enabled)
+   */
+  isImportable(entityId: string): boolean {
+    const entity = this.entities.get(entityId);
+    return entity !== undefined && entity.crud?.create?.enabled !== false;
+  }
+
+  /**
+   * Suggest a field for each column of a table
+   */
+  suggestMapping(entityId: string, headers: string[]): ImportMappingSuggestion[] {
+    return suggestImportMapping(headers, this.getEntity(entityId));
+  }
+
+  /**
+   * Coerce and validate every row without writing anything
+   * Without a mapping, the suggested one is used.
+   */
+  async preview(
+    entityId: string,
+    table: ImportTable,
+    mapping?: ImportMapping,
+    options: ImportOptions = {}
+  ): Promise<ImportPreview> {
+    return (await this.prepare(entityId, table, mapping, options)).preview;
+  }
+
+  /**
+   * Create all rows in one transaction
+   * @throws ImportValidationError when any row is invalid (nothing is written)
+   */
+  async commit(
+    entityId: string,
+    table: ImportTable,
+    mapping: ImportMapping | undefined,
+    options: ImportOptions & Pick<CrudWriteOptions, 'context'> = {}
+  ): Promise<{ inserted: number }> {
+    const { preview, records, rowNumbers } = await this.prepare(entityId, table, mapping, options);
+    if (preview.errorCount > 0 || preview.missingRequired.length > 0) {
+      throw new ImportValidationError(preview);
+    }
+
+    return this.db.transaction(async () => {
+      let inserted = 0;
+      for (let start = 0; start < records.length; start += IMPORT_BATCH_SIZE) {
+        const result = await this.crud.createMany(entityId, records.slice(start, start + IMPORT_BATCH_SIZE), {
+          // Rows were validated by prepare()
+          skipValidation: true,
+          context: options.context,
+        });
+        if (!result.success) {
+          // A before-create hook rejected a row: roll the whole import back
+          const errors = (result.errors ?? []).map(error => ({
+            row: rowNumbers[start + error.row],
+            message: error.error,
+          }));
+          throw new ImportValidationError({
+            ...preview,
+            validRows: preview.totalRows - errors.length,
+            errors,
+            errorCount: errors.length,
+          });
+        }
+        inserted += result.inserted ?? 0;
+      }
+      return { inserted };
+    });
+  }
+
+  /**
+   * Coerce and validate all rows
+   */
+  private async prepare(
+    entityId: string,
+    table: ImportTable,
+    mapping: ImportMapping | undefined,
+    options: ImportOptions
+  ): Promise<{ preview: ImportPreview; records: Record<string, unknown>[]; rowNumbers: number[] }> {
+    const entity = this.getEntity(entityId);
+    if (table.rows.length > MAX_IMPORT_ROWS) {
+      throw new ImportMappingError(`Import at most ${MAX_IMPORT_ROWS} rows at a time`);
+    }
+
+    const fields = new Map(importableFields(entity).map(field => [field.name, field]));
+    mapping = mapping ?? mappingFromSuggestions(suggestImportMapping(table.headers, entity));
+    const columns: { index: number; column: string; field: ImportField }[] = [];
+    for (const [column, fieldName] of Object.entries(mapping)) {
+      const index = table.headers.indexOf(column);
+      const field = fields.get(fieldName);
+      if (index === -1) throw new ImportMappingError(`Unknown column: ${column}`);
+      if (!field) throw new ImportMappingError(`Unknown field: ${fieldName}`);
+      if (columns.some(c => c.field === field)) throw new ImportMappingError(`${fieldName} is mapped to more than one column`);
+      columns.push({ index, column, field });
+    }
+
+    const mappedFields = new Set(columns.map(c => c.field.name));
+    const missingRequired = [...fields.values()]
+      .filter(field => field.required && !mappedFields.has(field.name))
+      .map(field => field.name);
+
+    const references = new Map<string, ReferenceLookup>();
+    for (const { index, field } of columns) {
+      if (field.type === 'reference' && field.reference) {
+        references.set(field.name, await this.referenceLookup(field.reference, table.rows.map(row => row[index])));
+      }
+    }
+
+    const rows: ImportPreviewRow[] = [];
+    const records: Record<string, unknown>[] = [];
+    const rowNumbers: number[] = [];
+    const errors: ImportRowError[] = [];
+    let errorCount = 0;
+    let validRows = 0;
+
+    for (let i = 0; i < table.rows.length; i++) {
+      const cells = table.rows[i];
+      const row = i + 2;
+      if (cells.every(cell => cell === null || cell === '')) continue;
+
+      const data: Record<string, unknown> = {};
+      const rowErrors: ImportRowError[] = [];
+      for (const { index, column, field } of columns) {
+        const coerced = coerceImportValue(field, cells[index], { ...options, references: references.get(field.name) });
+        if ('error' in coerced) {
+          rowErrors.push({ row, field: field.name, column, message: coerced.error, value: cells[index] });
+        } else if (coerced.value !== undefined) {
+          data[field.name] = coerced.value;
+        }
+      }
+
+      // Fields with a coercion error are already reported; check the rest with the entity's rules
+      const failed = new Set(rowErrors.map(e => e.field));
+      const validation = await validationEngine.validate(entity, data, { isCreate: true });
+      for (const error of validation.errors) {
+        if (failed.has(error.field) || !mappedFields.has(error.field)) continue;
+        const column = columns.find(c => c.field.name === error.field)?.column;
+        rowErrors.push({ row, field: error.field, column, message: error.message, value: error.value });
+      }
+
+      if (rowErrors.length === 0) validRows++;
+      errorCount += rowErrors.length;
+      for (const error of rowErrors) {
+        if (errors.length < MAX_REPORTED_IMPORT_ERRORS) errors.push(error);
+      }
+      if (rows.length < PREVIEW_ROWS) rows.push({ row, data, errors: rowErrors });
+      records.push(data);
+      rowNumbers.push(row);
+    }
+
+    return {
+      preview: {
+        mapping,
+        totalRows: records.length,
+        validRows,
+        rows,
+        errors,
+        errorCount,
+        missingRequired,
+      },
+      records,
+      rowNumbers,
+    };
+  }
+
+  /**
+   * Look up the target records a reference column names, by display value or id
+   */
+  private async referenceLookup(
+    reference: { entity: string; displayField: string },
+    cells: ImportCell[]
+  ): Promise<ReferenceLookup> {
+    const values = [...new Set(
+      cells.filter(cell => cell !== null && cell !== '').map(cell => String(cell).trim())
+    )];
+    const lookup: ReferenceLookup = new Map();
+    if (values.length === 0) return lookup;
+
+    const ids = values.filter(value => isUuid(value));
+    const found = await this.crud.findMany<Record<string, unknown>>(reference.entity, {
+      filters: [{ field: reference.displayField, operator: 'in', value: values }],
+      select: ['id', reference.displayField],
+    });
+    const byId = ids.length > 0
+      ? await this.crud.findMany<Record<string, unknown>>(reference.entity, {
+          filters: [{ field: 'id', operator: 'in', value: ids }],
+          select: ['id'],
+        })
+      : { data: [] };
+
+    for (const record of found.data) {
+      const key = String(record[reference.displayField]).trim().toLowerCase();
+      lookup.set(key, lookup.has(key) ? null : String(record.id));
+    }
+    for (const record of byId.data) {
+      lookup.set(String(record.id).toLowerCase(), String(record.id));
+    }
+    return lookup;
+  }
+
+  private getEntity(entityId: string): ImportEntity {
+    const entity = this.entities.get(entityId);
+    if (!entity) {
+      throw new Error(`Entity not found: ${entityId}`);
+    }
+    return entity;
+  }
+}
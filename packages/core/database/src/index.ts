@@ -42,6 +42,103 @@ export {
   CrudService,
   ValidationError,
 } from './crud-service.js';
+export type { CrudWriteOptions } from './crud-service.js';
+
+// Audit Log
+export {
+  AuditLogService,
+  DEFAULT_AUDIT_APP_ID,
+  diffRecords,
+} from './audit-log.js';
+export type {
+  AuditAction,
+  AuditEntry,
+  AuditEntryInput,
+  AuditFieldChange,
+  AuditQuery,
+  AuditRetentionResolver,
+} from './audit-log.js';
+
+// Record Versions
+export {
+  recordVersionedWrite,
+  versionRestoreData,
+} from './record-versions.js';
+export type {
+  RecordVersion,
+  RecordVersionInput,
+  RecordVersionStore,
+  VersionedWrite,
+} from './record-versions.js';
+
+// Full-Text Search
+export {
+  SEARCH_VECTOR_COLUMN,
+  isSearchableEntity,
+  searchFieldsOf,
+  toSearchQuery,
+} from './search.js';
+export type { SearchHit } from './search.js';
+
+// Manual Order
+export {
+  SORT_POSITION_COLUMN,
+  SortOrderError,
+  isSortableEntity,
+  positionBetween,
+} from './sortable.js';
+
+// Data Import
+export {
+  DataImportService,
+  ImportMappingError,
+  ImportValidationError,
+  MAX_IMPORT_ROWS,
+  coerceImportValue,
+  mappingFromSuggestions,
+  suggestImportMapping,
+} from './data-import.js';
+export type {
+  ImportCell,
+  ImportMapping,
+  ImportMappingSuggestion,
+  ImportOptions,
+  ImportPreview,
+  ImportPreviewRow,
+  ImportRowError,
+  ImportTable,
+} from './data-import.js';
+
+// Data Export
+export {
+  DataExportService,
+  EXPORT_BATCH_SIZE,
+  EXPORT_FORMATS,
+  ExportError,
+  exportCellValue,
+  exportColumns,
+  isFieldVisibleTo,
+} from './data-export.js';
+export type {
+  ExportCell,
+  ExportColumn,
+  ExportColumnOptions,
+  ExportFormat,
+  ExportPageLoader,
+  ExportRecordsOptions,
+} from './data-export.js';
+
+// Tags
+export {
+  TagService,
+  TagValidationError,
+  TAG_TABLE,
+  DEFAULT_TAG_COLOR,
+  isTaggableEntity,
+  isUuid,
+  tagJunction,
+} from './tags.js';
+export type { Tag, TagInput, TagCount, TagJunction } from './tags.js';
 
 // Relation Resolver
 export {
@@ -49,6 +146,13 @@ export {
   relationResolver,
 } from './relation-resolver.js';
 
+// Access Filters
+export {
+  AccessFilterCompiler,
+  accessFilterCompiler,
+} from './access-filter.js';
+export type { RowAccessRule, AccessFilterContext } from './access-filter.js';
+
 // Computed Fields
 export {
   ComputedFieldsEngine,
@@ -66,11 +170,31 @@ export {
 // ============================================================
 
 import { DatabaseConnection, createConnectionFromEnv } from './connection.js';
-import { CrudService } from './crud-service.js';
+import { CrudService, type CrudWriteOptions } from './crud-service.js';
 import { RelationResolver } from './relation-resolver.js';
 import { ComputedFieldsEngine, computedFieldsEngine } from './computed-fields.js';
 import { SchemaManager } from './schema-manager.js';
-import type { QueryOptions, QueryResult, SingleResult, MutationResult, DatabaseConfig } from './types.js';
+import { AuditLogService, type AuditEntry, type AuditQuery, type AuditRetentionResolver } from './audit-log.js';
+import type { RecordVersion, RecordVersionStore } from './record-versions.js';
+import type { SearchHit } from './search.js';
+import { TagService, type Tag, type TagCount, type TagInput } from './tags.js';
+import {
+  DataImportService,
+  type ImportMapping,
+  type ImportMappingSuggestion,
+  type ImportOptions,
+  type ImportPreview,
+  type ImportTable,
+} from './data-import.js';
+import {
+  DataExportService,
+  type ExportCell,
+  type ExportColumn,
+  type ExportColumnOptions,
+  type ExportRecordsOptions,
+} from './data-export.js';
+import type { QueryOptions, QueryCondition, QueryResult, SingleResult, MutationResult, DatabaseConfig } from './types.js';
+import type { EntityHooks, EntityHookWorkflowStarter } from '@neo/contracts';
 
 /**
  * Entity definition interface (matches blueprint-engine)
@@ -105,6 +229,10 @@ export interface EntityDefinition {
       expression: string;
       dependencies: string[];
     };
+    access?: {
+      visibleTo?: string[];
+      editableBy?: string[];
+    };
   }[];
   crud?: {
     create?: { enabled: boolean };
@@ -117,6 +245,16 @@ export interface EntityDefinition {
     updatedAt?: boolean;
     deletedAt?: boolean;
   };
+  hooks?: EntityHooks;
+  /**
+   * Blueprint behaviors; 'auditable' records every write in the app's audit log, 'versionable' keeps snapshots,
+   * 'searchable' adds a full-text search vector over display.searchFields, 'taggable' links records to the app's tags,
+   * 'sortable' keeps a manual (drag-and-drop) order
+   */
+  behaviors?: string[];
+  display?: {
+    searchFields?: string[];
+  };
 }
 
 /**
@@ -129,6 +267,10 @@ export class DatabaseService {
   private relations: RelationResolver;
   private computed: ComputedFieldsEngine;
   private schemaManager: SchemaManager;
+  private auditLog: AuditLogService;
+  private tags: TagService;
+  private imports: DataImportService;
+  private exports: DataExportService;
   private schema: string;
   private isInitialized = false;
 
@@ -145,6 +287,11 @@ export class DatabaseService {
     this.relations = new RelationResolver(this.connection, this.schema);
     this.computed = computedFieldsEngine;
     this.schemaManager = new SchemaManager(this.connection, this.schema);
+    this.auditLog = new AuditLogService(this.connection, this.schema);
+    this.tags = new TagService(this.connection, this.schema);
+    this.imports = new DataImportService(this.connection, this.crud);
+    this.exports = new DataExportService(this.crud, (entityId, options) => this.findMany(entityId, options));
+    this.crud.setAuditLog(this.auditLog);
   }
 
   /**
@@ -165,6 +312,9 @@ export class DatabaseService {
     for (const entity of entities) {
       this.crud.registerEntity(entity);
       this.relations.registerEntity(entity);
+      this.tags.registerEntity(entity);
+      this.imports.registerEntity(entity);
+      this.exports.registerEntity(entity);
       
       // Register computed fields
       const computedFields = entity.fields
@@ -183,6 +333,27 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Start workflows requested by entity after-hooks (runWorkflow)
+   */
+  setHookWorkflowStarter(starter: EntityHookWorkflowStarter | null): void {
+    this.crud.setHookWorkflowStarter(starter);
+  }
+
+  /**
+   * Per-app audit retention in days (entries are kept forever when it returns nothing)
+   */
+  setAuditRetentionResolver(resolver: AuditRetentionResolver | null): void {
+    this.auditLog.setRetentionResolver(resolver);
+  }
+
+  /**
+   * Keep version snapshots of versionable entities in this store (versioning is off without one)
+   */
+  setVersionStore(store: RecordVersionStore | null): void {
+    this.crud.setVersionStore(store);
+  }
+
   /**
    * Synchronize database schema with entity definitions
    */
@@ -199,9 +370,10 @@ export class DatabaseService {
    */
   async create<T = Record<string, unknown>>(
     entityId: string,
-    data: Record<string, unknown>
+    data: Record<string, unknown>,
+    options?: CrudWriteOptions
   ): Promise<MutationResult<T>> {
-    const result = await this.crud.create<T>(entityId, data);
+    const result = await this.crud.create<T>(entityId, data, options);
     
     // Apply computed fields
     result.data = this.computed.computeForRecord(entityId, result.data as Record<string, unknown>) as T;
@@ -214,9 +386,10 @@ export class DatabaseService {
    */
   async createMany<T = Record<string, unknown>>(
     entityId: string,
-    records: Record<string, unknown>[]
+    records: Record<string, unknown>[],
+    options?: CrudWriteOptions
   ): Promise<{ success: boolean; data: T[]; inserted?: number; errors?: { row: number; error: string }[] }> {
-    const result = await this.crud.createMany<T>(entityId, records);
+    const result = await this.crud.createMany<T>(entityId, records, options);
     
     // Apply computed fields
     result.data = this.computed.computeForRecords(entityId, result.data as Record<string, unknown>[]) as T[];
@@ -235,6 +408,7 @@ export class DatabaseService {
     
     // Apply computed fields
     result.data = this.computed.computeForRecords(entityId, result.data as Record<string, unknown>[]) as T[];
+    await this.attachTags(entityId, result.data);
     
     // Resolve relations if requested
     if (options?.include && result.data.length > 0) {
@@ -256,18 +430,22 @@ export class DatabaseService {
   }
 
   /**
-   * Find a single record by ID
+   * Find a single record by ID (`withDeleted` also finds soft-deleted records)
    */
   async findById<T = Record<string, unknown>>(
     entityId: string,
     id: string,
-    options?: { include?: { relation: string }[] }
+    options?: { include?: { relation: string }[]; accessFilter?: QueryCondition; withDeleted?: boolean }
   ): Promise<SingleResult<T>> {
-    const result = await this.crud.findById<T>(entityId, id);
+    const result = await this.crud.findById<T>(entityId, id, {
+      accessFilter: options?.accessFilter,
+      withDeleted: options?.withDeleted,
+    });
     
     if (result.data) {
       // Apply computed fields
       result.data = this.computed.computeForRecord(entityId, result.data as Record<string, unknown>) as T;
+      await this.attachTags(entityId, [result.data]);
       
       // Resolve relations if requested
       if (options?.include) {
@@ -300,7 +478,7 @@ export class DatabaseService {
   /**
    * Count records
    */
-  async count(entityId: string, options?: { filters?: QueryOptions['filters'] }): Promise<number> {
+  async count(entityId: string, options?: Pick<QueryOptions, 'filters' | 'accessFilter' | 'tags'>): Promise<number> {
     return this.crud.count(entityId, options);
   }
 
@@ -317,9 +495,10 @@ export class DatabaseService {
   async update<T = Record<string, unknown>>(
     entityId: string,
     id: string,
-    data: Record<string, unknown>
+    data: Record<string, unknown>,
+    options?: CrudWriteOptions
   ): Promise<MutationResult<T>> {
-    const result = await this.crud.update<T>(entityId, id, data);
+    const result = await this.crud.update<T>(entityId, id, data, options);
     
     result.data = this.computed.computeForRecord(entityId, result.data as Record<string, unknown>) as T;
     
@@ -332,9 +511,10 @@ export class DatabaseService {
   async updateMany<T = Record<string, unknown>>(
     entityId: string,
     filters: QueryOptions['filters'],
-    data: Record<string, unknown>
+    data: Record<string, unknown>,
+    options?: Pick<CrudWriteOptions, 'context'>
   ): Promise<{ success: boolean; data: T[]; updated?: number }> {
-    return this.crud.updateMany<T>(entityId, filters, data);
+    return this.crud.updateMany<T>(entityId, filters, data, options);
   }
 
   /**
@@ -343,9 +523,10 @@ export class DatabaseService {
   async upsert<T = Record<string, unknown>>(
     entityId: string,
     data: Record<string, unknown>,
-    uniqueFields: string[]
+    uniqueFields: string[],
+    options?: CrudWriteOptions
   ): Promise<MutationResult<T>> {
-    const result = await this.crud.upsert<T>(entityId, data, uniqueFields);
+    const result = await this.crud.upsert<T>(entityId, data, uniqueFields, options);
     
     result.data = this.computed.computeForRecord(entityId, result.data as Record<string, unknown>) as T;
     
@@ -355,8 +536,12 @@ export class DatabaseService {
   /**
    * Delete a record
    */
-  async delete(entityId: string, id: string): Promise<{ success: boolean; deletedId: string }> {
-    return this.crud.delete(entityId, id);
+  async delete(
+    entityId: string,
+    id: string,
+    options?: Pick<CrudWriteOptions, 'context'>
+  ): Promise<{ success: boolean; deletedId: string }> {
+    return this.crud.delete(entityId, id, options);
   }
 
   /**
@@ -364,16 +549,274 @@ export class DatabaseService {
    */
   async deleteMany(
     entityId: string,
-    filters: QueryOptions['filters']
+    filters: QueryOptions['filters'],
+    options?: Pick<CrudWriteOptions, 'context'>
   ): Promise<{ success: boolean; deletedCount: number }> {
-    return this.crud.deleteMany(entityId, filters);
+    return this.crud.deleteMany(entityId, filters, options);
   }
 
   /**
    * Restore a soft-deleted record
    */
-  async restore(entityId: string, id: string): Promise<{ success: boolean }> {
-    return this.crud.restore(entityId, id);
+  async restore(
+    entityId: string,
+    id: string,
+    options?: Pick<CrudWriteOptions, 'context'>
+  ): Promise<{ success: boolean }> {
+    return this.crud.restore(entityId, id, options);
+  }
+
+  // ============================================================
+  // TAGS
+  // ============================================================
+
+  /**
+   * Whether an entity is registered and taggable
+   */
+  isTaggable(entityId: string): boolean {
+    return this.tags.isTaggable(entityId);
+  }
+
+  /**
+   * An app's tag vocabulary, by name
+   */
+  async listTags(appId: string): Promise<Tag[]> {
+    return this.tags.list(appId);
+  }
+
+  /**
+   * Add a tag to an app's vocabulary
+   */
+  async createTag(appId: string, input: TagInput): Promise<Tag> {
+    return this.tags.create(appId, input);
+  }
+
+  /**
+   * Rename or recolor a tag (null when the app has no such tag)
+   */
+  async updateTag(appId: string, tagId: string, input: Partial<TagInput>): Promise<Tag | null> {
+    return this.tags.update(appId, tagId, input);
+  }
+
+  /**
+   * Delete a tag and its links to records
+   */
+  async deleteTag(appId: string, tagId: string): Promise<boolean> {
+    return this.tags.delete(appId, tagId);
+  }
+
+  /**
+   * Replace a record's tags
+   */
+  async setRecordTags(appId: string, entityId: string, recordId: string, tagIds: string[]): Promise<Tag[]> {
+    return this.tags.setRecordTags(appId, entityId, recordId, tagIds);
+  }
+
+  /**
+   * Add and remove tags on many records at once
+   */
+  async bulkTag(
+    appId: string,
+    entityId: string,
+    recordIds: string[],
+    changes: { add?: string[]; remove?: string[] }
+  ): Promise<{ added: number; removed: number }> {
+    return this.tags.bulkTag(appId, entityId, recordIds, changes);
+  }
+
+  /**
+   * How many records in scope carry each tag
+   */
+  async tagCounts(entityId: string, options?: Pick<QueryOptions, 'filters' | 'accessFilter' | 'tags'>): Promise<TagCount[]> {
+    return this.crud.tagCounts(entityId, options);
+  }
+
+  /**
+   * Put each record's tags on it (taggable entities only)
+   */
+  private async attachTags(entityId: string, records: unknown[]): Promise<void> {
+    if (!this.tags.isTaggable(entityId) || records.length === 0) return;
+
+    const rows = records as Record<string, unknown>[];
+    const tagsById = await this.tags.tagsForRecords(entityId, rows.map(r => String(r.id)));
+    for (const row of rows) {
+      row.tags = tagsById.get(String(row.id)) ?? [];
+    }
+  }
+
+  // ============================================================
+  // MANUAL ORDER
+  // ============================================================
+
+  /**
+   * Whether an entity is registered and sortable
+   */
+  isSortable(entityId: string): boolean {
+    return this.crud.isSortable(entityId);
+  }
+
+  /**
+   * Move a record between two neighbors (null when it or a neighbor does not exist)
+   */
+  async move<T = Record<string, unknown>>(
+    entityId: string,
+    id: string,
+    neighbors: { previousId?: string | null; nextId?: string | null }
+  ): Promise<T | null> {
+    return this.crud.move<T>(entityId, id, neighbors);
+  }
+
+  // ============================================================
+  // IMPORT
+  // ============================================================
+
+  /**
+   * Whether spreadsheet rows can be imported into an entity
+   */
+  isImportable(entityId: string): boolean {
+    return this.imports.isImportable(entityId);
+  }
+
+  /**
+   * Suggest a field for each spreadsheet column
+   */
+  suggestImportMapping(entityId: string, headers: string[]): ImportMappingSuggestion[] {
+    return this.imports.suggestMapping(entityId, headers);
+  }
+
+  /**
+   * Coerce and validate spreadsheet rows without writing them
+   */
+  async previewImport(
+    entityId: string,
+    table: ImportTable,
+    mapping?: ImportMapping,
+    options?: ImportOptions
+  ): Promise<ImportPreview> {
+    return this.imports.preview(entityId, table, mapping, options);
+  }
+
+  /**
+   * Create spreadsheet rows in one transaction (throws ImportValidationError, writing nothing, when a row is invalid)
+   */
+  async importRecords(
+    entityId: string,
+    table: ImportTable,
+    mapping?: ImportMapping,
+    options: ImportOptions & Pick<CrudWriteOptions, 'context'> = {}
+  ): Promise<{ inserted: number }> {
+    return this.imports.commit(entityId, table, mapping, options);
+  }
+
+  // ============================================================
+  // EXPORT
+  // ============================================================
+
+  /**
+   * Whether the records of an entity can be exported
+   */
+  isExportable(entityId: string): boolean {
+    return this.exports.isExportable(entityId);
+  }
+
+  /**
+   * Columns of an export (fields hidden from the role by `access.visibleTo` are left out)
+   */
+  exportColumns(entityId: string, options?: ExportColumnOptions): ExportColumn[] {
+    return this.exports.columns(entityId, options);
+  }
+
+  /**
+   * Rows of a query with a display value per column, loaded in batches
+   */
+  exportRows(
+    entityId: string,
+    columns: ExportColumn[],
+    query?: QueryOptions,
+    options?: ExportRecordsOptions
+  ): AsyncGenerator<ExportCell[][]> {
+    return this.exports.rows(entityId, columns, query, options);
+  }
+
+  // ============================================================
+  // SEARCH
+  // ============================================================
+
+  /**
+   * Full-text search across searchable entities, best matches first
+   * Each entity is searched with its own filters and access filter; entities that are not
+   * registered or not searchable are skipped.
+   */
+  async search<T = Record<string, unknown>>(
+    text: string,
+    entities: ({ entityId: string } & Pick<QueryOptions, 'filters' | 'accessFilter' | 'tags'>)[],
+    options: { limit?: number } = {}
+  ): Promise<SearchHit<T>[]> {
+    const limit = options.limit ?? 20;
+    const hits: SearchHit<T>[] = [];
+
+    for (const { entityId, ...scope } of entities) {
+      if (!this.crud.isSearchable(entityId)) continue;
+      const entityHits = await this.crud.search<T>(entityId, text, { ...scope, limit });
+      for (const hit of entityHits) {
+        hit.record = this.computed.computeForRecord(entityId, hit.record as Record<string, unknown>) as T;
+        hits.push(hit);
+      }
+    }
+
+    return hits.sort((a, b) => b.rank - a.rank).slice(0, limit);
+  }
+
+  // ============================================================
+  // VERSIONS
+  // ============================================================
+
+  /**
+   * Saved versions of a record, oldest first
+   */
+  async listVersions(appId: string, entityId: string, id: string): Promise<RecordVersion[]> {
+    return this.crud.listVersions(entityId, id, appId);
+  }
+
+  /**
+   * One saved version of a record
+   */
+  async getVersion(appId: string, entityId: string, id: string, version: number): Promise<RecordVersion | null> {
+    return this.crud.getVersion(entityId, id, version, appId);
+  }
+
+  /**
+   * Restore a saved version as a new update of the record
+   */
+  async restoreVersion<T = Record<string, unknown>>(
+    entityId: string,
+    id: string,
+    version: number,
+    options?: CrudWriteOptions
+  ): Promise<MutationResult<T>> {
+    const result = await this.crud.restoreVersion<T>(entityId, id, version, options);
+
+    result.data = this.computed.computeForRecord(entityId, result.data as Record<string, unknown>) as T;
+
+    return result;
+  }
+
+  // ============================================================
+  // AUDIT LOG
+  // ============================================================
+
+  /**
+   * Query an app's audit log, newest first
+   */
+  async queryAuditLog(appId: string, options?: AuditQuery): Promise<{ entries: AuditEntry[]; total: number }> {
+    return this.auditLog.query(appId, options);
+  }
+
+  /**
+   * Delete audit entries older than the retention period
+   */
+  async purgeAuditLog(appId: string, retentionDays: number): Promise<number> {
+    return this.auditLog.purge(appId, retentionDays);
   }
 
   // ============================================================
@@ -3,7 +3,7 @@
  * Builds SQL queries with filters, sorting, pagination
  */
 
-import type { QueryFilter, QuerySort, QueryPagination, FilterOperator } from './types.js';
+import type { QueryFilter, QueryFilterGroup, QueryCondition, QuerySort, QueryPagination, FilterOperator } from './types.js';
 
 // ============================================================
 // QUERY BUILDER
@@ -108,6 +108,16 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Add a nested AND / OR / NOT condition
+   */
+  whereGroup(condition: QueryCondition): this {
+    const built = this.buildCondition(condition);
+    this.whereConditions.push(built.sql);
+    this.whereParams.push(...built.params);
+    return this;
+  }
+
   /**
    * Add raw where clause
    */
@@ -147,8 +157,9 @@ export class QueryBuilder {
   orderBy(sort: QuerySort | QuerySort[]): this {
     const sorts = Array.isArray(sort) ? sort : [sort];
     for (const s of sorts) {
-      const nullsOrder = s.nulls ? ` NULLS ${s.nulls.toUpperCase()}` : '';
-      this.orderByClause.push(`"${this.toSnakeCase(s.field)}" ${s.direction.toUpperCase()}${nullsOrder}`);
+      const nullsOrder = s.nulls === 'first' || s.nulls === 'last' ? ` NULLS ${s.nulls.toUpperCase()}` : '';
+      const direction = s.direction === 'desc' ? 'DESC' : 'ASC';
+      this.orderByClause.push(`${this.quoteIdentifier(s.field)} ${direction}${nullsOrder}`);
     }
     return this;
   }
@@ -158,7 +169,7 @@ export class QueryBuilder {
    */
   groupBy(fields: string | string[]): this {
     const fieldsArr = Array.isArray(fields) ? fields : [fields];
-    this.groupByClause.push(...fieldsArr.map(f => `"${this.toSnakeCase(f)}"`));
+    this.groupByClause.push(...fieldsArr.map(f => this.quoteIdentifier(f)));
     return this;
   }
 
@@ -205,11 +216,11 @@ export class QueryBuilder {
 
     // SELECT
     const selectStr = this.selectFields
-      .map(f => f === '*' ? `${qualifiedTable}.*` : `"${this.toSnakeCase(f)}"`)
+      .map(f => f === '*' ? `${qualifiedTable}.*` : this.quoteIdentifier(f))
       .join(', ');
     
     if (this.distinctOn && this.distinctOn.length > 0) {
-      const distinctFields = this.distinctOn.map(f => `"${this.toSnakeCase(f)}"`).join(', ');
+      const distinctFields = this.distinctOn.map(f => this.quoteIdentifier(f)).join(', ');
       parts.push(`SELECT DISTINCT ON (${distinctFields}) ${selectStr}`);
     } else {
       parts.push(`SELECT ${selectStr}`);
@@ -295,7 +306,7 @@ export class QueryBuilder {
 
     for (const [key, value] of Object.entries(data)) {
       if (value !== undefined) {
-        columns.push(`"${this.toSnakeCase(key)}"`);
+        columns.push(this.quoteIdentifier(key));
         placeholders.push(`$${paramIndex++}`);
         params.push(this.serializeValue(value));
       }
@@ -328,7 +339,7 @@ RETURNING *
       }
     }
     const columns = Array.from(columnSet);
-    const columnsSql = columns.map(c => `"${this.toSnakeCase(c)}"`).join(', ');
+    const columnsSql = columns.map(c => this.quoteIdentifier(c)).join(', ');
 
     const params: unknown[] = [];
     const valueRows: string[] = [];
@@ -368,7 +379,7 @@ RETURNING *
 
     for (const [key, value] of Object.entries(data)) {
       if (key !== 'id' && value !== undefined) {
-        setClauses.push(`"${this.toSnakeCase(key)}" = $${paramIndex++}`);
+        setClauses.push(`${this.quoteIdentifier(key)} = $${paramIndex++}`);
         params.push(this.serializeValue(value));
       }
     }
@@ -424,11 +435,38 @@ RETURNING *
     return { sql, params: this.whereParams };
   }
 
+  /**
+   * Build a filter or filter group
+   * Groups never collapse to "no condition": an empty OR is FALSE and NOT treats NULL as false,
+   * so an access scope can only ever narrow the result.
+   */
+  private buildCondition(condition: QueryCondition): { sql: string; params: unknown[] } {
+    if (!('logic' in condition)) {
+      return this.buildFilterCondition(condition) ?? { sql: 'TRUE', params: [] };
+    }
+
+    const group = condition as QueryFilterGroup;
+    const parts = group.filters.map(filter => this.buildCondition(filter));
+    const params = parts.flatMap(part => part.params);
+
+    if (group.logic === 'not') {
+      const inner = parts.length > 0 ? parts.map(part => part.sql).join(' AND ') : 'TRUE';
+      return { sql: `NOT COALESCE((${inner}), FALSE)`, params };
+    }
+
+    if (parts.length === 0) {
+      return { sql: group.logic === 'and' ? 'TRUE' : 'FALSE', params };
+    }
+
+    const joiner = group.logic === 'and' ? ' AND ' : ' OR ';
+    return { sql: `(${parts.map(part => part.sql).join(joiner)})`, params };
+  }
+
   /**
    * Build a filter condition
    */
   private buildFilterCondition(filter: QueryFilter): { sql: string; params: unknown[] } | null {
-    const column = `"${this.toSnakeCase(filter.field)}"`;
+    const column = this.quoteIdentifier(filter.field);
     const paramNum = ++this.paramCounter;
 
     switch (filter.operator) {
@@ -451,11 +489,17 @@ RETURNING *
         return { sql: `${column} <= $${paramNum}`, params: [filter.value] };
       
       case 'in':
-        if (!Array.isArray(filter.value) || filter.value.length === 0) return null;
+        if (!Array.isArray(filter.value) || filter.value.length === 0) {
+          this.paramCounter--;
+          return Array.isArray(filter.value) ? { sql: 'FALSE', params: [] } : null;
+        }
         return { sql: `${column} = ANY($${paramNum})`, params: [filter.value] };
       
       case 'nin':
-        if (!Array.isArray(filter.value) || filter.value.length === 0) return null;
+        if (!Array.isArray(filter.value) || filter.value.length === 0) {
+          this.paramCounter--;
+          return null;
+        }
         return { sql: `${column} != ALL($${paramNum})`, params: [filter.value] };
       
       case 'like':
@@ -482,7 +526,10 @@ RETURNING *
         return { sql: `${column} IS NOT NULL`, params: [] };
       
       case 'between':
-        if (!Array.isArray(filter.value) || filter.value.length !== 2) return null;
+        if (!Array.isArray(filter.value) || filter.value.length !== 2) {
+          this.paramCounter--;
+          return null;
+        }
         const paramNum2 = ++this.paramCounter;
         return { 
           sql: `${column} BETWEEN $${paramNum} AND $${paramNum2}`, 
@@ -493,6 +540,7 @@ RETURNING *
         return { sql: `${column} @> $${paramNum}::jsonb`, params: [JSON.stringify(filter.value)] };
       
       default:
+        this.paramCounter--;
         return null;
     }
   }
@@ -507,6 +555,13 @@ RETURNING *
     return value;
   }
 
+  /**
+   * Quote a field as a snake_case column identifier
+   */
+  private quoteIdentifier(field: string): string {
+    return `"${this.toSnakeCase(field).replace(/"/g, '""')}"`;
+  }
+
   /**
    * Convert camelCase to snake_case
    */
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { DatabaseConnection } from './connection.js';
+import {
+  recordVersionedWrite,
+  versionRestoreData,
+  type RecordVersion,
+  type RecordVersionInput,
+  type RecordVersionStore,
+} from './record-versions.js';
+
+class MemoryVersionStore implements RecordVersionStore {
+  versions: RecordVersion[] = [];
+  connections: Array<DatabaseConnection | undefined> = [];
+
+  async append(input: RecordVersionInput, db?: DatabaseConnection): Promise<RecordVersion> {
+    this.connections.push(db);
+    const version: RecordVersion = {
+      ...input,
+      userId: input.userId ?? null,
+      version: (await this.latestVersion(input.appId, input.entityId, input.recordId)) + 1,
+      createdAt: new Date().toISOString(),
+    };
+    this.versions.push(version);
+    return version;
+  }
+
+  async list(appId: string, entityId: string, recordId: string): Promise<RecordVersion[]> {
+    return this.versions.filter(v => v.appId === appId && v.entityId === entityId && v.recordId === recordId);
+  }
+
+  async get(appId: string, entityId: string, recordId: string, version: number): Promise<RecordVersion | null> {
+    return (await this.list(appId, entityId, recordId)).find(v => v.version === version) ?? null;
+  }
+
+  async latestVersion(appId: string, entityId: string, recordId: string): Promise<number> {
+    return (await this.list(appId, entityId, recordId)).length;
+  }
+}
+
+describe('recordVersionedWrite', () => {
+  it('numbers snapshots per record and saves the prior state of unversioned records first', async () => {
+    const store = new MemoryVersionStore();
+    const write = { appId: 'app', entityId: 'lease', recordId: 'l1' };
+
+    // Record created before versioning was enabled
+    const saved = await recordVersionedWrite(store, { ...write, userId: 'u1', before: { id: 'l1', rent: 900 }, after: { id: 'l1', rent: 950 } });
+    expect(saved.version).toBe(2);
+    expect(store.versions.map(v => [v.version, v.data.rent, v.userId])).toEqual([[1, 900, null], [2, 950, 'u1']]);
+
+    await recordVersionedWrite(store, { ...write, before: { id: 'l1', rent: 950 }, after: { id: 'l1', rent: 1000 } });
+    await recordVersionedWrite(store, { ...write, recordId: 'l2', after: { id: 'l2', rent: 700 } });
+    expect((await store.list('app', 'lease', 'l1')).map(v => v.version)).toEqual([1, 2, 3]);
+    expect((await store.list('app', 'lease', 'l2')).map(v => v.version)).toEqual([1]);
+  });
+
+  it("saves snapshots through the writer's connection", async () => {
+    const store = new MemoryVersionStore();
+    const db = {} as DatabaseConnection;
+
+    await recordVersionedWrite(store, { appId: 'app', entityId: 'lease', recordId: 'l1', before: { id: 'l1' }, after: { id: 'l1', rent: 1 } }, db);
+    expect(store.connections).toEqual([db, db]);
+  });
+});
+
+describe('versionRestoreData', () => {
+  it('copies field values but not record metadata', () => {
+    expect(versionRestoreData({
+      appId: 'app',
+      entityId: 'lease',
+      recordId: 'l1',
+      version: 1,
+      userId: null,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      data: { id: 'l1', rent: 900, tenant: 'Ann', createdAt: 'x', updatedAt: 'y', deletedAt: null },
+    })).toEqual({ rent: 900, tenant: 'Ann' });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Record Versions
+ * Immutable snapshots of records for entities with the `versionable` behavior.
+ * Version N is the record as it was after its N-th saved write; records written
+ * before versioning was enabled get their prior state saved as version 1.
+ */
+
+import type { DatabaseConnection } from './connection.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface RecordVersion {
+  appId: string;
+  entityId: string;
+  recordId: string;
+  version: number;
+  data: Record<string, unknown>;
+  userId: string | null;
+  createdAt: string;
+}
+
+export interface RecordVersionInput {
+  appId: string;
+  entityId: string;
+  recordId: string;
+  data: Record<string, unknown>;
+  userId?: string | null;
+}
+
+/**
+ * Storage for version snapshots (implemented by the host; versions are never changed)
+ * Writers pass their connection so the version is saved in the write's transaction.
+ */
+export interface RecordVersionStore {
+  /** Save a snapshot as the record's next version (numbered under a per-record lock) */
+  append(input: RecordVersionInput, db?: DatabaseConnection): Promise<RecordVersion>;
+  /** All versions of a record, oldest first */
+  list(appId: string, entityId: string, recordId: string): Promise<RecordVersion[]>;
+  get(appId: string, entityId: string, recordId: string, version: number): Promise<RecordVersion | null>;
+  /** Highest version number of a record (0 when it has none) */
+  latestVersion(appId: string, entityId: string, recordId: string, db?: DatabaseConnection): Promise<number>;
+}
+
+export interface VersionedWrite {
+  appId: string;
+  entityId: string;
+  recordId: string;
+  userId?: string | null;
+  /** Record before the write (omitted for creates) */
+  before?: Record<string, unknown> | null;
+  after: Record<string, unknown>;
+}
+
+/** Fields a restore never copies back; they belong to the live record */
+const RECORD_METADATA_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'deletedAt']);
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Save the snapshot for a completed write
+ */
+export async function recordVersionedWrite(
+  store: RecordVersionStore,
+  write: VersionedWrite,
+  db?: DatabaseConnection
+): Promise<RecordVersion> {
+  const { appId, entityId, recordId } = write;
+
+  if (write.before && (await store.latestVersion(appId, entityId, recordId, db)) === 0) {
+    await store.append({ appId, entityId, recordId, data: write.before, userId: null }, db);
+  }
+
+  return store.append({ appId, entityId, recordId, data: write.after, userId: write.userId ?? null }, db);
+}
+
+/**
+ * Field values to write back when restoring a version
+ * Fields added since the snapshot are not cleared.
+ */
+export function versionRestoreData(version: RecordVersion): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(version.data)) {
+    if (!RECORD_METADATA_FIELDS.has(field)) {
+      data[field] = value;
+    }
+  }
+  return data;
+}
@@ -4,7 +4,9 @@
  */
 
 import type { DatabaseConnection } from './connection.js';
-import { SqlCompiler } from './sql-compiler.js';
+import { SqlCompiler, type JunctionTableOverrides } from './sql-compiler.js';
+import { fillMissingPositions, isSortableEntity } from './sortable.js';
+import { TAG_TABLE, isTaggableEntity, tagJunction } from './tags.js';
 import type { SchemaMigration, MigrationPlan, TableDefinition } from './types.js';
 
 // Entity interface
@@ -48,6 +50,10 @@ interface Entity {
     updatedAt?: boolean;
     deletedAt?: boolean;
   };
+  behaviors?: string[];
+  display?: {
+    searchFields?: string[];
+  };
 }
 
 // ============================================================
@@ -90,6 +96,21 @@ export class SchemaManager {
         "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
       )
     `);
+
+    // Tag vocabularies of all apps (records link to them through per-entity junction tables)
+    await this.db.execute(`
+      CREATE TABLE IF NOT EXISTS "${this.schema}"."${TAG_TABLE}" (
+        "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "app_id" VARCHAR(255) NOT NULL,
+        "name" VARCHAR(100) NOT NULL,
+        "color" VARCHAR(7) NOT NULL,
+        "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await this.db.execute(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "${TAG_TABLE}_app_name_idx"
+      ON "${this.schema}"."${TAG_TABLE}" ("app_id", lower("name"))
+    `);
   }
 
   /**
@@ -118,6 +139,11 @@ export class SchemaManager {
           }
         }
 
+        // Rank rows that predate the sortable behavior
+        if (isSortableEntity(entity)) {
+          await this.fillSortPositions(entity);
+        }
+
         // Store entity metadata
         await this.storeEntityMetadata(entity);
       } catch (error: any) {
@@ -141,6 +167,23 @@ export class SchemaManager {
       }
     }
 
+    // Link taggable entities to the tag vocabulary
+    for (const entity of entities) {
+      if (!isTaggableEntity(entity)) continue;
+      const junction = tagJunction(entity);
+      try {
+        await this.createJunctionTable(entity.name, 'Tag', {
+          name: junction.table,
+          table1: this.toTableName(entity),
+          table2: TAG_TABLE,
+          column1: junction.recordColumn,
+          column2: junction.tagColumn,
+        });
+      } catch (error: any) {
+        errors.push({ entity: `${entity.name}_tags`, error: error.message });
+      }
+    }
+
     return { created, updated, errors };
   }
 
@@ -182,11 +225,19 @@ export class SchemaManager {
     }
   }
 
+  /**
+   * Give unranked rows of a sortable entity positions after the last one, oldest first
+   */
+  async fillSortPositions(entity: Entity): Promise<number> {
+    const orderBy = entity.timestamps?.createdAt !== false ? '"created_at", "id"' : '"id"';
+    return fillMissingPositions(this.db, `"${this.schema}"."${this.toTableName(entity)}"`, orderBy);
+  }
+
   /**
    * Create a junction table for many-to-many relationships
    */
-  async createJunctionTable(entity1: string, entity2: string): Promise<void> {
-    const sql = this.compiler.generateJunctionTableSql(entity1, entity2, 'id', 'id');
+  async createJunctionTable(entity1: string, entity2: string, overrides?: JunctionTableOverrides): Promise<void> {
+    const sql = this.compiler.generateJunctionTableSql(entity1, entity2, 'id', 'id', overrides);
     const statements = sql.split(';').filter(s => s.trim());
     for (const stmt of statements) {
       await this.db.execute(stmt);
@@ -250,6 +301,13 @@ export class SchemaManager {
       if (storedField.unique !== field.unique) return true;
     }
 
+    // Compare the search vector configuration
+    if (stored.behaviors?.includes('searchable') !== entity.behaviors?.includes('searchable')) return true;
+    if (JSON.stringify(stored.display?.searchFields ?? []) !== JSON.stringify(entity.display?.searchFields ?? [])) return true;
+
+    // Compare the manual order rank
+    if (isSortableEntity(stored) !== isSortableEntity(entity)) return true;
+
     return false;
   }
 
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { SqlCompiler } from './sql-compiler.js';
+import { CrudService } from './crud-service.js';
+import { toSearchQuery } from './search.js';
+import type { DatabaseConnection } from './connection.js';
+
+const customer = {
+  id: 'customer',
+  name: 'Customer',
+  pluralName: 'Customers',
+  fields: [
+    { id: 'name', name: 'name', type: 'string' },
+    { id: 'email', name: 'email', type: 'email' },
+    { id: 'companyName', name: 'companyName', type: 'string' },
+    { id: 'since', name: 'since', type: 'date' },
+  ],
+  timestamps: { deletedAt: true },
+  behaviors: ['searchable'],
+  display: { searchFields: ['name', 'companyName', 'since'] },
+};
+
+describe('toSearchQuery', () => {
+  it('matches every word as a prefix and drops query syntax', () => {
+    expect(toSearchQuery('  Ann  O\'Brien ')).toBe('ann:* & o:* & brien:*');
+    expect(toSearchQuery('!(a | b)')).toBe('a:* & b:*');
+    expect(toSearchQuery('&|!')).toBeNull();
+  });
+});
+
+describe('SqlCompiler search vector', () => {
+  const compiler = new SqlCompiler();
+
+  it('adds a weighted generated tsvector column with a GIN index', () => {
+    const table = compiler.compileEntity(customer);
+    const sql = compiler.generateCreateTableSql(table);
+
+    expect(sql).toContain(
+      `"search_vector" TSVECTOR GENERATED ALWAYS AS (setweight(to_tsvector('simple', coalesce("name"::text, '')), 'A') || ` +
+      `setweight(to_tsvector('simple', coalesce("company_name"::text, '')), 'B')) STORED`
+    );
+    expect(sql).toContain('CREATE INDEX IF NOT EXISTS "idx_customers_search" ON "public"."customers" USING gin ("search_vector");');
+    expect(compiler.compileEntity({ ...customer, behaviors: [] }).columns.map(c => c.name)).not.toContain('search_vector');
+  });
+
+  it('rebuilds the vector around field changes when the search fields change', () => {
+    const { up, down } = compiler.generateMigrationSql(customer, {
+      ...customer,
+      fields: customer.fields.filter(f => f.id !== 'companyName'),
+      display: { searchFields: ['name', 'email'] },
+    });
+
+    expect(up[0]).toBe('ALTER TABLE "public"."customers" DROP COLUMN IF EXISTS "search_vector";');
+    expect(up[1]).toBe('ALTER TABLE "public"."customers" DROP COLUMN IF EXISTS "company_name";');
+    expect(up[2]).toContain(`coalesce("email"::text, '')), 'B')) STORED;`);
+    expect(up[3]).toContain('"idx_customers_search"');
+    expect(down[0]).toBe(up[0]);
+  });
+});
+
+describe('CrudService.search', () => {
+  it('ranks scoped matches and keeps the vector out of records', async () => {
+    const statements: { sql: string; params: unknown[] }[] = [];
+    const db = {
+      query: async (sql: string, params: unknown[] = []) => {
+        statements.push({ sql, params });
+        return [{ id: 'c1', company_name: 'Acme', search_vector: "'acme':2B", _rank: '0.6' }];
+      },
+    } as unknown as DatabaseConnection;
+    const crud = new CrudService(db);
+    crud.registerEntity(customer);
+
+    const hits = await crud.search('customer', 'acme', {
+      accessFilter: { field: 'owner_id', operator: 'eq', value: 'u1' },
+      limit: 5,
+    });
+
+    expect(hits).toEqual([{ entityId: 'customer', id: 'c1', rank: 0.6, record: { id: 'c1', companyName: 'Acme' } }]);
+    const [{ sql, params }] = statements;
+    expect(sql).toContain(`WHERE "search_vector" @@ to_tsquery('simple', $1) AND`);
+    expect(sql).toContain('"deleted_at" IS NULL');
+    expect(sql).toContain(`ts_rank(matched."search_vector", to_tsquery('simple', $1)) AS "_rank"`);
+    expect(sql).toContain('LIMIT 5');
+    expect(params).toEqual(['acme:*', 'u1']);
+    expect(crud.isSearchable('customer')).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Full-Text Search
+ * Search vectors for entities with the `searchable` behavior and the queries that use them
+ */
+
+/** Generated tsvector column on tables of searchable entities */
+export const SEARCH_VECTOR_COLUMN = 'search_vector';
+
+/** Text search configuration (language neutral: no stemming or stop words) */
+export const SEARCH_TEXT_CONFIG = 'simple';
+
+/** Field types indexed when an entity lists no display.searchFields */
+const TEXT_FIELD_TYPES = new Set(['string', 'text', 'richtext', 'email']);
+
+/**
+ * Field types never indexed: their text form is not immutable (dates, JSON) or not worth searching
+ * (a generated column may only use immutable expressions)
+ */
+const UNSEARCHABLE_FIELD_TYPES = new Set([
+  'boolean', 'date', 'datetime', 'timestamp', 'time', 'reference', 'json', 'address', 'geolocation',
+]);
+
+/** Weights by search field position: the first field ranks highest */
+const SEARCH_WEIGHTS = ['A', 'B', 'C'] as const;
+
+interface SearchableField {
+  id: string;
+  name: string;
+  type: string;
+  computed?: { expression: string };
+}
+
+interface SearchableEntity {
+  fields: SearchableField[];
+  behaviors?: string[];
+  display?: { searchFields?: string[] };
+}
+
+/**
+ * One search result
+ */
+export interface SearchHit<T = Record<string, unknown>> {
+  entityId: string;
+  id: string;
+  rank: number;
+  record: T;
+}
+
+/**
+ * Whether an entity has a search vector
+ */
+export function isSearchableEntity(entity: SearchableEntity): boolean {
+  return entity.behaviors?.includes('searchable') === true && searchFieldsOf(entity).length > 0;
+}
+
+/**
+ * Stored fields that feed the search vector
+ * The entity's display.searchFields (field ids) in order, else its text fields.
+ */
+export function searchFieldsOf<F extends SearchableField>(entity: { fields: F[]; display?: { searchFields?: string[] } }): F[] {
+  const stored = entity.fields.filter(f => !f.computed?.expression && !UNSEARCHABLE_FIELD_TYPES.has(f.type));
+  const listed = entity.display?.searchFields;
+
+  if (listed && listed.length > 0) {
+    return listed
+      .map(id => stored.find(f => f.id === id))
+      .filter((f): f is F => f !== undefined);
+  }
+
+  return stored.filter(f => TEXT_FIELD_TYPES.has(f.type));
+}
+
+/**
+ * Generated column expression of the search vector (no semicolons, so it survives statement splitting)
+ */
+export function searchVectorExpression(columns: string[]): string {
+  return columns
+    .map((column, i) => {
+      const weight = SEARCH_WEIGHTS[Math.min(i, SEARCH_WEIGHTS.length - 1)];
+      return `setweight(to_tsvector('${SEARCH_TEXT_CONFIG}', coalesce("${column}"::text, '')), '${weight}')`;
+    })
+    .join(' || ');
+}
+
+/**
+ * Turn user input into a to_tsquery() argument
+ * Every word must match as a prefix, so results show while typing.
+ * Returns null when the input has no words.
+ */
+export function toSearchQuery(text: string): string | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu);
+  if (!words) return null;
+
+  return words
+    .slice(0, 16)
+    .map(word => `${word}:*`)
+    .join(' & ');
+}
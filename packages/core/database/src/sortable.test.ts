@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { SqlCompiler } from './sql-compiler.js';
+import { CrudService } from './crud-service.js';
+import { SortOrderError, positionBetween, positionsAfter } from './sortable.js';
+import type { DatabaseConnection } from './connection.js';
+
+const CARD = '11111111-1111-4111-8111-111111111111';
+const FIRST = '22222222-2222-4222-8222-222222222222';
+const SECOND = '33333333-3333-4333-8333-333333333333';
+
+const card = {
+  id: 'card',
+  name: 'Card',
+  pluralName: 'Cards',
+  fields: [{ id: 'title', name: 'title', type: 'string' }],
+  behaviors: ['sortable'],
+};
+
+describe('positionBetween', () => {
+  it('keeps ranks ordered and short', () => {
+    const appended = positionsAfter(null, 200);
+    expect(appended[0]).toBe('a0');
+    expect([...appended].sort()).toEqual(appended);
+    expect(Math.max(...appended.map(p => p.length))).toBeLessThanOrEqual(3);
+
+    expect(positionBetween(null, 'a0')).toBe('Zz');
+    const middle = positionBetween('a0', 'a1');
+    expect(middle > 'a0' && middle < 'a1').toBe(true);
+  });
+
+  it('always finds room between two ranks', () => {
+    let low = 'a0';
+    let high = 'a1';
+    for (let i = 0; i < 50; i++) {
+      const mid = positionBetween(low, high);
+      expect(mid > low && mid < high).toBe(true);
+      if (i % 2 === 0) low = mid; else high = mid;
+    }
+  });
+
+  it('rejects ranks out of order', () => {
+    expect(() => positionBetween('a1', 'a0')).toThrow(SortOrderError);
+    expect(() => positionBetween('a1', 'a1')).toThrow(SortOrderError);
+  });
+});
+
+describe('SqlCompiler sort position', () => {
+  it('adds a byte-ordered rank with a unique index', () => {
+    const compiler = new SqlCompiler();
+    const sql = compiler.generateCreateTableSql(compiler.compileEntity(card));
+
+    expect(sql).toContain('"sort_position" TEXT COLLATE "C"');
+    expect(sql).toContain('CREATE UNIQUE INDEX IF NOT EXISTS "idx_cards_sort_position" ON "public"."cards" ("sort_position");');
+
+    const { up } = compiler.generateMigrationSql({ ...card, behaviors: [] }, card);
+    expect(up).toEqual([
+      'ALTER TABLE "public"."cards" ADD COLUMN "sort_position" TEXT COLLATE "C";',
+      'CREATE UNIQUE INDEX IF NOT EXISTS "idx_cards_sort_position" ON "public"."cards" ("sort_position");',
+    ]);
+  });
+});
+
+describe('CrudService manual order', () => {
+  /**
+   * Connection double with two ranked cards (a0, a1) and the card being moved (a2)
+   */
+  function rankedConnection() {
+    const positions: Record<string, string> = { [FIRST]: 'a0', [SECOND]: 'a1', [CARD]: 'a2' };
+    const statements: { sql: string; params: unknown[] }[] = [];
+    const answer = (sql: string, params: unknown[] = []): Record<string, unknown>[] => {
+      statements.push({ sql, params });
+      if (sql.includes('= ANY($1::uuid[])')) {
+        return (params[0] as string[]).map(id => ({ id, position: positions[id] }));
+      }
+      if (sql.startsWith('SELECT min("sort_position")')) {
+        const above = Object.entries(positions).filter(([id, p]) => p > (params[0] as string) && id !== params[1]);
+        return [{ position: above.map(([, p]) => p).sort()[0] ?? null }];
+      }
+      if (sql.startsWith('SELECT max("sort_position")')) {
+        return [{ position: Object.values(positions).sort().pop() ?? null }];
+      }
+      if (sql.startsWith('UPDATE')) {
+        positions[params[1] as string] = params[0] as string;
+        return [{ id: params[1], title: 'Card', sort_position: params[0] }];
+      }
+      if (sql.startsWith('INSERT')) {
+        return [{ id: CARD, title: 'New', sort_position: params[params.length - 1] }];
+      }
+      return [];
+    };
+    const db = {
+      query: async (sql: string, params?: unknown[]) => answer(sql, params),
+      queryOne: async (sql: string, params?: unknown[]) => answer(sql, params)[0] ?? null,
+    } as unknown as DatabaseConnection;
+    const crud = new CrudService(db);
+    crud.registerEntity(card);
+    return { crud, positions, statements };
+  }
+
+  it('moves a record right after its previous neighbor without touching others', async () => {
+    const { crud, positions, statements } = rankedConnection();
+
+    const moved = await crud.move<{ sortPosition: string }>('card', CARD, { previousId: FIRST });
+
+    const position = moved?.sortPosition ?? '';
+    expect(position > 'a0' && position < 'a1').toBe(true);
+    expect(positions[FIRST]).toBe('a0');
+    expect(positions[SECOND]).toBe('a1');
+    expect(statements.filter(s => s.sql.startsWith('UPDATE'))).toHaveLength(1);
+  });
+
+  it('appends new records and lists in manual order', async () => {
+    const { crud, statements } = rankedConnection();
+
+    const created = await crud.create<{ sortPosition: string }>('card', { title: 'New' }, { skipValidation: true });
+    expect(created.data.sortPosition).toBe('a3');
+
+    await crud.findMany('card');
+    expect(statements[statements.length - 1].sql).toContain('ORDER BY "sort_position" ASC NULLS LAST, "id" ASC');
+  });
+
+  it('refuses to make a record its own neighbor', async () => {
+    const { crud, statements } = rankedConnection();
+
+    await expect(crud.move('card', CARD, { previousId: CARD })).rejects.toBeInstanceOf(SortOrderError);
+    expect(statements.some(s => s.sql.startsWith('UPDATE'))).toBe(false);
+  });
+});
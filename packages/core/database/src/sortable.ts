@@ -0,0 +1,199 @@
+/**
+ * Manual Order
+ * Drag-and-drop order of entities with the `sortable` behavior.
+ * Each record has a lexicographic rank in `sort_position`; moving a record
+ * gives it a rank between its new neighbors, so no other record is renumbered.
+ */
+
+import type { DatabaseConnection } from './connection.js';
+
+/** Rank column on tables of sortable entities (compared byte-wise: COLLATE "C") */
+export const SORT_POSITION_COLUMN = 'sort_position';
+
+/** Rank digits in ascending byte order */
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+/** Smallest integer part; ranks never equal it, so there is always room before the first record */
+const SMALLEST_INTEGER = 'A' + '0'.repeat(26);
+
+/**
+ * Invalid move: the neighbors are not in order, or a rank is malformed
+ */
+export class SortOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SortOrderError';
+  }
+}
+
+/**
+ * Whether an entity declares the `sortable` behavior
+ */
+export function isSortableEntity(entity: { behaviors?: string[] }): boolean {
+  return entity.behaviors?.includes('sortable') === true;
+}
+
+/**
+ * A rank strictly between two ranks (null: no neighbor on that side)
+ *
+ * Ranks are an integer part (its first character gives its length) followed by
+ * a base-62 fraction without trailing zeros. Appending increments the integer
+ * part, so ranks stay short however many records are added at the end.
+ */
+export function positionBetween(before: string | null, after: string | null): string {
+  if (before !== null) validatePosition(before);
+  if (after !== null) validatePosition(after);
+  if (before !== null && after !== null && before >= after) {
+    throw new SortOrderError(`Position ${before} is not before ${after}`);
+  }
+
+  if (before === null) {
+    if (after === null) return 'a0';
+    const integer = integerPart(after);
+    if (integer === SMALLEST_INTEGER) return integer + midpoint('', after.slice(integer.length));
+    if (integer < after) return integer;
+    const decremented = decrementInteger(integer);
+    if (decremented === null) throw new SortOrderError('No position left before the first record');
+    return decremented;
+  }
+
+  const integer = integerPart(before);
+  const fraction = before.slice(integer.length);
+  if (after === null) {
+    const incremented = incrementInteger(integer);
+    return incremented === null ? integer + midpoint(fraction, null) : incremented;
+  }
+
+  const afterInteger = integerPart(after);
+  if (integer === afterInteger) {
+    return integer + midpoint(fraction, after.slice(afterInteger.length));
+  }
+  const incremented = incrementInteger(integer);
+  if (incremented !== null && incremented < after) return incremented;
+  return integer + midpoint(fraction, null);
+}
+
+/**
+ * Ranks for records appended after `last`, in order
+ */
+export function positionsAfter(last: string | null, count: number): string[] {
+  const positions: string[] = [];
+  let previous = last;
+  for (let i = 0; i < count; i++) {
+    previous = positionBetween(previous, null);
+    positions.push(previous);
+  }
+  return positions;
+}
+
+/**
+ * Give rows without a rank one after the last rank, oldest first
+ * (rows created before the entity became sortable, or written around the CRUD service)
+ * @returns how many rows were ranked
+ */
+export async function fillMissingPositions(
+  db: DatabaseConnection,
+  qualifiedTable: string,
+  orderBy = '"created_at", "id"'
+): Promise<number> {
+  const unranked = await db.query<{ id: string }>(
+    `SELECT "id" FROM ${qualifiedTable} WHERE "${SORT_POSITION_COLUMN}" IS NULL ORDER BY ${orderBy}`
+  );
+  if (unranked.length === 0) return 0;
+
+  const last = await db.queryOne<{ position: string | null }>(
+    `SELECT max("${SORT_POSITION_COLUMN}") AS "position" FROM ${qualifiedTable}`
+  );
+  const result = await db.execute(`
+    UPDATE ${qualifiedTable} AS t SET "${SORT_POSITION_COLUMN}" = v.position
+    FROM unnest($1::uuid[], $2::text[]) AS v(id, position)
+    WHERE t."id" = v.id
+  `, [unranked.map(row => row.id), positionsAfter(last?.position ?? null, unranked.length)]);
+  return result.affectedRows;
+}
+
+function integerLength(head: string): number {
+  if (head >= 'a' && head <= 'z') return head.charCodeAt(0) - 'a'.charCodeAt(0) + 2;
+  if (head >= 'A' && head <= 'Z') return 'Z'.charCodeAt(0) - head.charCodeAt(0) + 2;
+  throw new SortOrderError(`Invalid position head: ${head}`);
+}
+
+function integerPart(position: string): string {
+  const length = integerLength(position.charAt(0));
+  if (length > position.length) throw new SortOrderError(`Invalid position: ${position}`);
+  return position.slice(0, length);
+}
+
+function validatePosition(position: string): void {
+  if (position === SMALLEST_INTEGER) throw new SortOrderError(`Invalid position: ${position}`);
+  const integer = integerPart(position);
+  if (position.length > integer.length && position.endsWith(DIGITS[0])) {
+    throw new SortOrderError(`Invalid position: ${position}`);
+  }
+  if ([...position.slice(1)].some(digit => !DIGITS.includes(digit))) {
+    throw new SortOrderError(`Invalid position: ${position}`);
+  }
+}
+
+/**
+ * A fraction strictly between two fractions (b null: no upper bound)
+ */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Keep the common prefix and split the rest
+    let n = 0;
+    while ((a.charAt(n) || DIGITS[0]) === b.charAt(n)) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a.charAt(0)) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b.charAt(0)) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+function incrementInteger(integer: string): string | null {
+  const head = integer.charAt(0);
+  const digits = [...integer.slice(1)];
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const next = DIGITS.indexOf(digits[i]) + 1;
+    if (next < DIGITS.length) {
+      digits[i] = DIGITS[next];
+      return head + digits.join('');
+    }
+    digits[i] = DIGITS[0];
+  }
+
+  // Carried out of every digit: the integer part grows by one digit
+  if (head === 'Z') return 'a' + DIGITS[0];
+  if (head === 'z') return null;
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (nextHead > 'a') digits.push(DIGITS[0]);
+  else digits.pop();
+  return nextHead + digits.join('');
+}
+
+function decrementInteger(integer: string): string | null {
+  const head = integer.charAt(0);
+  const digits = [...integer.slice(1)];
+  const largest = DIGITS[DIGITS.length - 1];
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const previous = DIGITS.indexOf(digits[i]) - 1;
+    if (previous >= 0) {
+      digits[i] = DIGITS[previous];
+      return head + digits.join('');
+    }
+    digits[i] = largest;
+  }
+
+  // Borrowed out of every digit: the integer part shrinks (positive) or grows (negative)
+  if (head === 'a') return 'Z' + largest;
+  if (head === 'A') return null;
+  const previousHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (previousHead < 'Z') digits.push(largest);
+  else digits.pop();
+  return previousHead + digits.join('');
+}
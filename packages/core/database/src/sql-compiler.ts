@@ -10,6 +10,8 @@ import type {
   SqlColumnType,
   ConstraintDefinition,
 } from './types.js';
+import { SEARCH_VECTOR_COLUMN, isSearchableEntity, searchFieldsOf, searchVectorExpression } from './search.js';
+import { SORT_POSITION_COLUMN, isSortableEntity } from './sortable.js';
 
 // Entity types from blueprint engine
 interface EntityField {
@@ -48,6 +50,22 @@ interface Entity {
     updatedAt?: boolean;
     deletedAt?: boolean;
   };
+  /** Blueprint behaviors; 'searchable' adds a full-text search vector, 'sortable' a manual order rank */
+  behaviors?: string[];
+  display?: {
+    searchFields?: string[];
+  };
+}
+
+/**
+ * Names of a junction table and its columns
+ */
+export interface JunctionTableOverrides {
+  name?: string;
+  table1?: string;
+  table2?: string;
+  column1?: string;
+  column2?: string;
 }
 
 // ============================================================
@@ -131,6 +149,20 @@ export class SqlCompiler {
       });
     }
 
+    // Full-text search vector
+    const search = this.compileSearchVector(entity, tableName);
+    if (search) {
+      columns.push(search.column);
+      indexes.push(search.index);
+    }
+
+    // Manual (drag-and-drop) order
+    const sortPosition = this.compileSortPosition(entity, tableName);
+    if (sortPosition) {
+      columns.push(sortPosition.column);
+      indexes.push(sortPosition.index);
+    }
+
     return {
       name: tableName,
       schema: this.schema,
@@ -201,6 +233,50 @@ export class SqlCompiler {
     return column;
   }
 
+  /**
+   * Compile the search vector of a searchable entity: a generated tsvector column with a GIN index
+   */
+  private compileSearchVector(entity: Entity, tableName: string): { column: ColumnDefinition; index: IndexDefinition } | null {
+    if (!isSearchableEntity(entity)) return null;
+
+    const columns = searchFieldsOf(entity).map(f => this.toSnakeCase(f.name));
+    return {
+      column: {
+        name: SEARCH_VECTOR_COLUMN,
+        type: 'TSVECTOR',
+        nullable: true,
+        generated: searchVectorExpression(columns),
+      },
+      index: {
+        name: `idx_${tableName}_search`,
+        columns: [SEARCH_VECTOR_COLUMN],
+        type: 'gin',
+      },
+    };
+  }
+
+  /**
+   * Compile the manual order rank of a sortable entity: a byte-ordered text column with a unique index
+   * (nullable, so it can be added to tables that already have rows)
+   */
+  private compileSortPosition(entity: Entity, tableName: string): { column: ColumnDefinition; index: IndexDefinition } | null {
+    if (!isSortableEntity(entity)) return null;
+
+    return {
+      column: {
+        name: SORT_POSITION_COLUMN,
+        type: 'TEXT',
+        nullable: true,
+        collation: 'C',
+      },
+      index: {
+        name: `idx_${tableName}_sort_position`,
+        columns: [SORT_POSITION_COLUMN],
+        unique: true,
+      },
+    };
+  }
+
   /**
    * Map Neo field type to SQL column type
    */
@@ -343,6 +419,14 @@ export class SqlCompiler {
   private generateColumnSql(column: ColumnDefinition): string {
     const parts: string[] = [`"${column.name}"`, column.type];
     
+    if (column.collation) {
+      parts.push(`COLLATE "${column.collation}"`);
+    }
+    
+    if (column.generated) {
+      parts.push(`GENERATED ALWAYS AS (${column.generated}) STORED`);
+    }
+    
     if (column.primaryKey) {
       parts.push('PRIMARY KEY');
     }
@@ -449,6 +533,15 @@ CREATE TRIGGER trigger_${tableName}_updated_at
       
       const oldFields = new Map(oldEntity.fields.map(f => [f.id, f]));
       const newFields = new Map(newEntity.fields.map(f => [f.id, f]));
+
+      // The search vector depends on field columns: drop it before they change, re-add it after
+      const oldSearch = this.compileSearchVector(oldEntity, tableName);
+      const newSearch = this.compileSearchVector(newEntity, tableName);
+      const searchChanged = oldSearch?.column.generated !== newSearch?.column.generated;
+      const dropSearchSql = `ALTER TABLE ${qualifiedTable} DROP COLUMN IF EXISTS "${SEARCH_VECTOR_COLUMN}";`;
+      if (searchChanged && oldSearch) {
+        up.push(dropSearchSql);
+      }
       
       // Find added fields
       for (const [id, field] of newFields) {
@@ -498,6 +591,31 @@ CREATE TRIGGER trigger_${tableName}_updated_at
           }
         }
       }
+
+      const oldSortPosition = this.compileSortPosition(oldEntity, tableName);
+      const newSortPosition = this.compileSortPosition(newEntity, tableName);
+      const dropSortPositionSql = `ALTER TABLE ${qualifiedTable} DROP COLUMN IF EXISTS "${SORT_POSITION_COLUMN}";`;
+      if (newSortPosition && !oldSortPosition) {
+        up.push(this.generateAddColumnSql(tableName, newSortPosition.column));
+        up.push(this.generateIndexSql(tableName, newSortPosition.index, this.schema));
+        down.push(dropSortPositionSql);
+      } else if (oldSortPosition && !newSortPosition) {
+        up.push(dropSortPositionSql);
+        down.push(this.generateAddColumnSql(tableName, oldSortPosition.column));
+        down.push(this.generateIndexSql(tableName, oldSortPosition.index, this.schema));
+      }
+
+      if (searchChanged) {
+        if (newSearch) {
+          up.push(this.generateAddColumnSql(tableName, newSearch.column));
+          up.push(this.generateIndexSql(tableName, newSearch.index, this.schema));
+          down.unshift(dropSearchSql);
+        }
+        if (oldSearch) {
+          down.push(this.generateAddColumnSql(tableName, oldSearch.column));
+          down.push(this.generateIndexSql(tableName, oldSearch.index, this.schema));
+        }
+      }
     }
     
     return { up, down };
@@ -505,18 +623,20 @@ CREATE TRIGGER trigger_${tableName}_updated_at
 
   /**
    * Generate many-to-many junction table
+   * Table and column names derive from the entity names unless overridden.
    */
   generateJunctionTableSql(
     entity1: string,
     entity2: string,
     field1: string,
-    field2: string
+    field2: string,
+    overrides: JunctionTableOverrides = {}
   ): string {
-    const table1 = this.toSnakeCase(entity1 + 's');
-    const table2 = this.toSnakeCase(entity2 + 's');
-    const junctionName = `${table1}_${table2}`;
-    const col1 = `${this.toSnakeCase(entity1)}_id`;
-    const col2 = `${this.toSnakeCase(entity2)}_id`;
+    const table1 = overrides.table1 ?? this.toSnakeCase(entity1 + 's');
+    const table2 = overrides.table2 ?? this.toSnakeCase(entity2 + 's');
+    const junctionName = overrides.name ?? `${table1}_${table2}`;
+    const col1 = overrides.column1 ?? `${this.toSnakeCase(entity1)}_id`;
+    const col2 = overrides.column2 ?? `${this.toSnakeCase(entity2)}_id`;
     
     return `
 CREATE TABLE IF NOT EXISTS "${this.schema}"."${junctionName}" (
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { SqlCompiler } from './sql-compiler.js';
+import { CrudService } from './crud-service.js';
+import { TagService, TagValidationError, tagFilterSql, tagJunction } from './tags.js';
+import type { DatabaseConnection } from './connection.js';
+
+const TAG_A = '11111111-1111-4111-8111-111111111111';
+const TAG_B = '22222222-2222-4222-8222-222222222222';
+const LISTING = '33333333-3333-4333-8333-333333333333';
+
+const listing = {
+  id: 'listing',
+  name: 'Listing',
+  pluralName: 'PropertyListings',
+  fields: [{ id: 'title', name: 'title', type: 'string' }],
+  behaviors: ['taggable'],
+};
+
+/**
+ * Connection double that records statements (and whether they ran in a transaction)
+ * and knows the tags of app a1
+ */
+function recordingConnection() {
+  const statements: { sql: string; params: unknown[]; inTransaction: boolean }[] = [];
+  let inTransaction = false;
+  const tags = [TAG_A, TAG_B].map(id => ({ id, app_id: 'a1', name: id === TAG_A ? 'Waterfront' : 'Reduced', color: '#64748b', created_at: new Date() }));
+  const answer = (sql: string, params: unknown[] = []) => {
+    statements.push({ sql, params, inTransaction });
+    if (/FROM "public"."_neo_tags" WHERE "app_id" = \$1 AND "id" = ANY/.test(sql)) {
+      return tags.filter(tag => params[0] === tag.app_id && (params[1] as string[]).includes(tag.id));
+    }
+    return [];
+  };
+  const db = {
+    query: async (sql: string, params?: unknown[]) => answer(sql, params),
+    queryOne: async (sql: string, params?: unknown[]) => answer(sql, params)[0] ?? null,
+    execute: async (sql: string, params?: unknown[]) => { answer(sql, params); return { affectedRows: 1 }; },
+    transaction: async <T>(fn: () => Promise<T>) => {
+      inTransaction = true;
+      try {
+        return await fn();
+      } finally {
+        inTransaction = false;
+      }
+    },
+  } as unknown as DatabaseConnection;
+  return { db, statements };
+}
+
+describe('tagFilterSql', () => {
+  it('matches any or all of the valid tag ids', () => {
+    expect(tagJunction(listing).table).toBe('_neo_tags_property_listings');
+
+    const any = tagFilterSql(listing, { tagIds: [TAG_A, TAG_A, 'nope'] }, '"id"');
+    expect(any.sql).toBe('"id" IN (SELECT "record_id" FROM "public"."_neo_tags_property_listings" WHERE "tag_id" = ANY($1::uuid[]))');
+    expect(any.params).toEqual([[TAG_A]]);
+
+    const all = tagFilterSql(listing, { tagIds: [TAG_A, TAG_B], match: 'all' }, '"id"');
+    expect(all.sql).toContain('GROUP BY "record_id" HAVING COUNT(DISTINCT "tag_id") = $2)');
+    expect(all.params).toEqual([[TAG_A, TAG_B], 2]);
+
+    expect(tagFilterSql(listing, { tagIds: ['nope'] }, '"id"').sql).toBe('FALSE');
+  });
+
+  it('is compiled into scoped record queries', async () => {
+    const { db, statements } = recordingConnection();
+    const crud = new CrudService(db);
+    crud.registerEntity(listing);
+
+    await crud.tagCounts('listing', { tags: { tagIds: [TAG_A] } });
+    expect(statements[0].sql).toContain('"id" IN (SELECT "record_id" FROM "public"."_neo_tags_property_listings"');
+    expect(statements[0].params).toContainEqual([TAG_A]);
+
+    crud.registerEntity({ ...listing, behaviors: [] });
+    await expect(crud.findMany('listing', { tags: { tagIds: [TAG_A] } })).rejects.toThrow('not taggable');
+  });
+});
+
+describe('SqlCompiler junction overrides', () => {
+  it('names the tag junction table and its columns', () => {
+    const sql = new SqlCompiler().generateJunctionTableSql('Listing', 'Tag', 'id', 'id', {
+      name: '_neo_tags_property_listings',
+      table1: 'property_listings',
+      table2: '_neo_tags',
+      column1: 'record_id',
+      column2: 'tag_id',
+    });
+
+    expect(sql).toContain('CREATE TABLE IF NOT EXISTS "public"."_neo_tags_property_listings"');
+    expect(sql).toContain('"record_id" UUID NOT NULL REFERENCES "public"."property_listings"("id") ON DELETE CASCADE');
+    expect(sql).toContain('"tag_id" UUID NOT NULL REFERENCES "public"."_neo_tags"("id") ON DELETE CASCADE');
+  });
+});
+
+describe('TagService', () => {
+  it('adds and removes tags of the app on many records', async () => {
+    const { db, statements } = recordingConnection();
+    const tags = new TagService(db);
+    tags.registerEntity(listing);
+
+    const result = await tags.bulkTag('a1', 'listing', [LISTING], { add: [TAG_A], remove: [TAG_B] });
+
+    expect(result).toEqual({ added: 1, removed: 1 });
+    const remove = statements.find(s => s.sql.startsWith('DELETE FROM "public"."_neo_tags_property_listings"'));
+    expect(remove?.params).toEqual([[LISTING], [TAG_B]]);
+    const add = statements.find(s => s.sql.includes('INSERT INTO "public"."_neo_tags_property_listings"'));
+    expect(add?.sql).toContain('ON CONFLICT DO NOTHING');
+    expect(add?.params).toEqual([[LISTING], [TAG_A]]);
+    expect([remove?.inTransaction, add?.inTransaction]).toEqual([true, true]);
+  });
+
+  it('rejects tags of other apps and entities that are not taggable', async () => {
+    const { db } = recordingConnection();
+    const tags = new TagService(db);
+    tags.registerEntity(listing);
+    tags.registerEntity({ ...listing, id: 'agent', behaviors: [] });
+
+    await expect(tags.bulkTag('a2', 'listing', [LISTING], { add: [TAG_A] })).rejects.toThrow(`Unknown tag: ${TAG_A}`);
+    await expect(tags.setRecordTags('a1', 'listing', 'nope', [])).rejects.toBeInstanceOf(TagValidationError);
+    await expect(tags.bulkTag('a1', 'agent', [LISTING], { add: [TAG_A] })).rejects.toThrow('Entity is not taggable: agent');
+    expect(tags.isTaggable('agent')).toBe(false);
+  });
+});
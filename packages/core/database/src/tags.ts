@@ -0,0 +1,403 @@
+/**
+ * Tags
+ * Per-app tag vocabularies for entities with the `taggable` behavior.
+ * Tags live in `_neo_tags`; every taggable entity links its records to them
+ * through its own junction table (`_neo_tags_<table>`).
+ */
+
+import type { DatabaseConnection } from './connection.js';
+import type { TagFilter } from './types.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface Tag {
+  id: string;
+  appId: string;
+  name: string;
+  color: string;
+  createdAt: string;
+}
+
+export interface TagInput {
+  name: string;
+  /** Hex color (#rgb or #rrggbb) */
+  color?: string;
+}
+
+/** Tag usage among the records of an entity */
+export interface TagCount {
+  tagId: string;
+  count: number;
+}
+
+/**
+ * Junction table linking a taggable entity's records to tags
+ */
+export interface TagJunction {
+  table: string;
+  recordColumn: 'record_id';
+  tagColumn: 'tag_id';
+}
+
+interface TaggableEntity {
+  id: string;
+  name: string;
+  pluralName: string;
+  behaviors?: string[];
+}
+
+interface TagRow {
+  id: string;
+  app_id: string;
+  name: string;
+  color: string;
+  created_at: Date;
+}
+
+/** Vocabulary table shared by all apps */
+export const TAG_TABLE = '_neo_tags';
+
+export const DEFAULT_TAG_COLOR = '#64748b';
+
+const MAX_TAG_NAME_LENGTH = 100;
+
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Invalid tag input: bad name or color, duplicate name, unknown tag or record id
+ */
+export class TagValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TagValidationError';
+  }
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Whether an entity declares the `taggable` behavior
+ */
+export function isTaggableEntity(entity: { behaviors?: string[] }): boolean {
+  return entity.behaviors?.includes('taggable') === true;
+}
+
+/**
+ * Whether a value is a UUID (tag ids and ids of taggable records)
+ */
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+/**
+ * Junction table of a taggable entity
+ */
+export function tagJunction(entity: { name: string; pluralName: string }): TagJunction {
+  return {
+    table: `${TAG_TABLE}_${toSnakeCase(entity.pluralName || entity.name + 's')}`,
+    recordColumn: 'record_id',
+    tagColumn: 'tag_id',
+  };
+}
+
+/**
+ * WHERE condition keeping the records that carry the filter's tags
+ * @param idColumn qualified id column of the entity's table
+ */
+export function tagFilterSql(
+  entity: { name: string; pluralName: string },
+  filter: TagFilter,
+  idColumn: string,
+  schema = 'public'
+): { sql: string; params: unknown[] } {
+  const tagIds = [...new Set(filter.tagIds)].filter(id => isUuid(id));
+  if (tagIds.length === 0) {
+    return { sql: 'FALSE', params: [] };
+  }
+
+  const junction = `"${schema}"."${tagJunction(entity).table}"`;
+  if (filter.match === 'all') {
+    return {
+      sql: `${idColumn} IN (SELECT "record_id" FROM ${junction} WHERE "tag_id" = ANY($1::uuid[]) GROUP BY "record_id" HAVING COUNT(DISTINCT "tag_id") = $2)`,
+      params: [tagIds, tagIds.length],
+    };
+  }
+
+  return {
+    sql: `${idColumn} IN (SELECT "record_id" FROM ${junction} WHERE "tag_id" = ANY($1::uuid[]))`,
+    params: [tagIds],
+  };
+}
+
+function toSnakeCase(str: string): string {
+  return str
+    .replace(/([A-Z])/g, '_$1')
+    .toLowerCase()
+    .replace(/^_/, '')
+    .replace(/\s+/g, '_');
+}
+
+// ============================================================
+// TAG SERVICE
+// ============================================================
+
+export class TagService {
+  private db: DatabaseConnection;
+  private schema: string;
+  private entities = new Map<string, TaggableEntity>();
+
+  constructor(db: DatabaseConnection, schema = 'public') {
+    this.db = db;
+    this.schema = schema;
+  }
+
+  /**
+   * Register an entity (only taggable entities are kept)
+   */
+  registerEntity(entity: TaggableEntity): void {
+    if (isTaggableEntity(entity)) {
+      this.entities.set(entity.id, entity);
+    } else {
+      this.entities.delete(entity.id);
+    }
+  }
+
+  /**
+   * Whether an entity is registered and taggable
+   */
+  isTaggable(entityId: string): boolean {
+    return this.entities.has(entityId);
+  }
+
+  // ============================================================
+  // VOCABULARY
+  // ============================================================
+
+  /**
+   * An app's tags, by name
+   */
+  async list(appId: string): Promise<Tag[]> {
+    const rows = await this.db.query<TagRow>(
+      `SELECT * FROM ${this.tagTable()} WHERE "app_id" = $1 ORDER BY lower("name"), "id"`,
+      [appId]
+    );
+    return rows.map(row => this.rowToTag(row));
+  }
+
+  /**
+   * Add a tag to an app's vocabulary (names are unique per app, ignoring case)
+   */
+  async create(appId: string, input: TagInput): Promise<Tag> {
+    const name = this.validName(input.name);
+    const color = this.validColor(input.color ?? DEFAULT_TAG_COLOR);
+
+    const row = await this.withUniqueName(name, () => this.db.queryOne<TagRow>(
+      `INSERT INTO ${this.tagTable()} ("app_id", "name", "color") VALUES ($1, $2, $3) RETURNING *`,
+      [appId, name, color]
+    ));
+    return this.rowToTag(row!);
+  }
+
+  /**
+   * Rename or recolor a tag
+   * @returns the tag, or null when the app has no such tag
+   */
+  async update(appId: string, tagId: string, input: Partial<TagInput>): Promise<Tag | null> {
+    if (!isUuid(tagId)) return null;
+    const name = input.name !== undefined ? this.validName(input.name) : null;
+    const color = input.color !== undefined ? this.validColor(input.color) : null;
+
+    const row = await this.withUniqueName(name ?? '', () => this.db.queryOne<TagRow>(`
+      UPDATE ${this.tagTable()}
+      SET "name" = COALESCE($3, "name"), "color" = COALESCE($4, "color")
+      WHERE "app_id" = $1 AND "id" = $2
+      RETURNING *
+    `, [appId, tagId, name, color]));
+    return row ? this.rowToTag(row) : null;
+  }
+
+  /**
+   * Delete a tag; its links to records go with it (ON DELETE CASCADE)
+   */
+  async delete(appId: string, tagId: string): Promise<boolean> {
+    if (!isUuid(tagId)) return false;
+    const result = await this.db.execute(
+      `DELETE FROM ${this.tagTable()} WHERE "app_id" = $1 AND "id" = $2`,
+      [appId, tagId]
+    );
+    return result.affectedRows > 0;
+  }
+
+  // ============================================================
+  // RECORD TAGS
+  // ============================================================
+
+  /**
+   * Tags of each record, by name (records without tags get an empty list)
+   */
+  async tagsForRecords(entityId: string, recordIds: string[]): Promise<Map<string, Tag[]>> {
+    const result = new Map<string, Tag[]>(recordIds.map(id => [id, []]));
+    const ids = recordIds.filter(id => isUuid(id));
+    if (ids.length === 0) return result;
+
+    const rows = await this.db.query<TagRow & { record_id: string }>(`
+      SELECT j."record_id", t.*
+      FROM ${this.junctionTable(entityId)} j
+      JOIN ${this.tagTable()} t ON t."id" = j."tag_id"
+      WHERE j."record_id" = ANY($1::uuid[])
+      ORDER BY lower(t."name"), t."id"
+    `, [ids]);
+
+    for (const row of rows) {
+      result.get(String(row.record_id))?.push(this.rowToTag(row));
+    }
+    return result;
+  }
+
+  /**
+   * Replace a record's tags from an app's vocabulary
+   */
+  async setRecordTags(appId: string, entityId: string, recordId: string, tagIds: string[]): Promise<Tag[]> {
+    this.requireIds([recordId], 'record');
+    const tags = await this.requireTags(appId, tagIds);
+    const junction = this.junctionTable(entityId);
+
+    await this.db.transaction(async () => {
+      await this.db.execute(`
+        DELETE FROM ${junction}
+        WHERE "record_id" = $1
+          AND "tag_id" IN (SELECT "id" FROM ${this.tagTable()} WHERE "app_id" = $2)
+          AND NOT ("tag_id" = ANY($3::uuid[]))
+      `, [recordId, appId, tags.map(t => t.id)]);
+      await this.link(junction, [recordId], tags.map(t => t.id));
+    });
+
+    return tags.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Add and remove tags on many records at once
+   */
+  async bulkTag(
+    appId: string,
+    entityId: string,
+    recordIds: string[],
+    changes: { add?: string[]; remove?: string[] }
+  ): Promise<{ added: number; removed: number }> {
+    this.requireIds(recordIds, 'record');
+    const add = await this.requireTags(appId, changes.add ?? []);
+    const remove = await this.requireTags(appId, changes.remove ?? []);
+    const junction = this.junctionTable(entityId);
+
+    return this.db.transaction(async () => {
+      let removed = 0;
+      if (remove.length > 0 && recordIds.length > 0) {
+        const result = await this.db.execute(
+          `DELETE FROM ${junction} WHERE "record_id" = ANY($1::uuid[]) AND "tag_id" = ANY($2::uuid[])`,
+          [recordIds, remove.map(t => t.id)]
+        );
+        removed = result.affectedRows;
+      }
+
+      const added = await this.link(junction, recordIds, add.map(t => t.id));
+      return { added, removed };
+    });
+  }
+
+  /**
+   * Link every record to every tag (existing links are kept)
+   */
+  private async link(junction: string, recordIds: string[], tagIds: string[]): Promise<number> {
+    if (recordIds.length === 0 || tagIds.length === 0) return 0;
+    const result = await this.db.execute(`
+      INSERT INTO ${junction} ("record_id", "tag_id")
+      SELECT r.id, t.id FROM unnest($1::uuid[]) AS r(id) CROSS JOIN unnest($2::uuid[]) AS t(id)
+      ON CONFLICT DO NOTHING
+    `, [recordIds, tagIds]);
+    return result.affectedRows;
+  }
+
+  /**
+   * Load tags of an app, failing on ids it does not have
+   */
+  private async requireTags(appId: string, tagIds: string[]): Promise<Tag[]> {
+    const ids = [...new Set(tagIds)];
+    if (ids.length === 0) return [];
+    this.requireIds(ids, 'tag');
+
+    const rows = await this.db.query<TagRow>(
+      `SELECT * FROM ${this.tagTable()} WHERE "app_id" = $1 AND "id" = ANY($2::uuid[])`,
+      [appId, ids]
+    );
+    const found = new Set(rows.map(row => row.id));
+    const missing = ids.find(id => !found.has(id));
+    if (missing) {
+      throw new TagValidationError(`Unknown tag: ${missing}`);
+    }
+    return rows.map(row => this.rowToTag(row));
+  }
+
+  private requireIds(ids: string[], kind: 'tag' | 'record'): void {
+    const invalid = ids.find(id => !isUuid(id));
+    if (invalid !== undefined) {
+      throw new TagValidationError(`Invalid ${kind} id: ${invalid}`);
+    }
+  }
+
+  private validName(name: unknown): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > MAX_TAG_NAME_LENGTH) {
+      throw new TagValidationError(`Tag names must be 1-${MAX_TAG_NAME_LENGTH} characters`);
+    }
+    return trimmed;
+  }
+
+  private validColor(color: unknown): string {
+    if (typeof color !== 'string' || !COLOR_PATTERN.test(color)) {
+      throw new TagValidationError('Tag colors must be hex colors like #3b82f6');
+    }
+    return color.toLowerCase();
+  }
+
+  /**
+   * Run a write, reporting a clash with another tag's name as a validation error
+   */
+  private async withUniqueName<T>(name: string, write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error: any) {
+      if (error.code === '23505') {
+        throw new TagValidationError(`A tag named "${name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  private tagTable(): string {
+    return `"${this.schema}"."${TAG_TABLE}"`;
+  }
+
+  private junctionTable(entityId: string): string {
+    const entity = this.entities.get(entityId);
+    if (!entity) {
+      throw new TagValidationError(`Entity is not taggable: ${entityId}`);
+    }
+    return `"${this.schema}"."${tagJunction(entity).table}"`;
+  }
+
+  private rowToTag(row: TagRow): Tag {
+    return {
+      id: row.id,
+      appId: row.app_id,
+      name: row.name,
+      color: row.color,
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+}
@@ -49,7 +49,8 @@ export type SqlColumnType =
   | 'TIME'
   | 'UUID'
   | 'JSONB'
-  | 'BYTEA';
+  | 'BYTEA'
+  | 'TSVECTOR';
 
 export interface ColumnDefinition {
   name: string;
@@ -65,6 +66,10 @@ export interface ColumnDefinition {
     onUpdate?: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION';
   };
   check?: string;
+  /** Expression for a stored generated column (GENERATED ALWAYS AS (...) STORED) */
+  generated?: string;
+  /** Collation of a text column (e.g. "C" for byte-wise ordering) */
+  collation?: string;
 }
 
 export interface IndexDefinition {
@@ -124,6 +129,17 @@ export type FilterOperator =
   | 'between'
   | 'jsonContains';
 
+/**
+ * Boolean combination of filters
+ * An empty `and` group matches every row; an empty `or` group matches none.
+ */
+export interface QueryFilterGroup {
+  logic: 'and' | 'or' | 'not';
+  filters: QueryCondition[];
+}
+
+export type QueryCondition = QueryFilter | QueryFilterGroup;
+
 export interface QuerySort {
   field: string;
   direction: 'asc' | 'desc';
@@ -137,6 +153,10 @@ export interface QueryPagination {
 
 export interface QueryOptions {
   filters?: QueryFilter[];
+  /** Row-level access scope, ANDed with the filters for both rows and counts */
+  accessFilter?: QueryCondition;
+  /** Only records of a taggable entity carrying these tags */
+  tags?: TagFilter;
   sorts?: QuerySort[];
   pagination?: QueryPagination;
   select?: string[];
@@ -144,6 +164,14 @@ export interface QueryOptions {
   distinct?: boolean;
 }
 
+/**
+ * Tag filter: records with any (default) or all of the tags
+ */
+export interface TagFilter {
+  tagIds: string[];
+  match?: 'any' | 'all';
+}
+
 export interface IncludeRelation {
   relation: string;
   select?: string[];
@@ -11,6 +11,7 @@
  * - No arbitrary question limits that force early completion
  */
 
+import { z } from 'zod';
 import type { ClarificationQuestion } from './discovery-service.js';
 import type { AppConfig } from './mandatory-discovery-service.js';
 import type { IndustryKit } from '@neo/blueprint-engine';
@@ -37,7 +38,7 @@ import {
   getSubVerticalOptions,
   shouldAskSubVertical,
 } from '@neo/ai-engine';
-import type { TelemetryLogger } from '@neo/ai-engine';
+import { completeStructured, type AIOutputSchema, type StructuredOutput, type TelemetryLogger } from '@neo/ai-engine';
 
 /**
  * AI Provider interface (minimal for discovery)
@@ -49,6 +50,10 @@ export interface AIProviderForDiscovery {
     maxTokens?: number;
     temperature?: number;
     timeout?: number;
+    /** Output the response must match, for providers that can constrain it */
+    schema?: AIOutputSchema;
+    /** String field of the JSON response to show the user while it streams in */
+    replyField?: string;
   }): Promise<string>;
 }
 
@@ -81,17 +86,50 @@ export interface EnhancedDiscoveryResponse {
   ledger: CertaintyLedger;
 }
 
+const DiscoveryIntentSchema = z.enum(['operations', 'customer-facing', 'internal', 'hybrid']);
+
 /**
  * AI-generated question
  */
-interface AIGeneratedQuestion {
-  id: string;
-  question: string;
-  type: 'choice' | 'text' | 'boolean';
-  options?: string[];
-  required: boolean;
-  category: string;
-}
+const AIGeneratedQuestionSchema = z.object({
+  id: z.string().optional(),
+  question: z.string(),
+  type: z.enum(['choice', 'text', 'boolean']).default('text'),
+  options: z.array(z.string()).optional(),
+});
+
+type AIGeneratedQuestion = z.infer<typeof AIGeneratedQuestionSchema>;
+
+/**
+ * AI analysis of the initial request
+ */
+const AIAnalysisSchema = z.object({
+  industry: z.string().default('general_business'),
+  matchedKit: z.string().nullish(),
+  kitMatchConfidence: z.enum(['exact', 'close', 'fallback']).nullish(),
+  primaryIntent: DiscoveryIntentSchema.default('operations'),
+  confidence: z.number().min(0).max(1).default(0.5),
+  interpretation: z.string().optional(),
+  unavailableFeatures: z.array(z.string()).optional(),
+  suggestedAlternatives: z.record(z.string()).optional(),
+  questions: z.array(AIGeneratedQuestionSchema).default([]),
+});
+
+type AIAnalysis = z.infer<typeof AIAnalysisSchema>;
+
+/**
+ * AI decision after the user answered
+ */
+const AIFollowUpSchema = z.object({
+  readyToBuild: z.boolean().default(true),
+  updatedIndustry: z.string().nullish(),
+  updatedIntent: DiscoveryIntentSchema.nullish(),
+  confidence: z.number().min(0).max(1).default(0.75),
+  interpretation: z.string().optional(),
+  questions: z.array(AIGeneratedQuestionSchema).optional(),
+});
+
+type AIFollowUp = z.infer<typeof AIFollowUpSchema>;
 
 /**
  * Minimum confidence threshold for auto-build without confirmation
@@ -768,16 +806,15 @@ Be transparent about kit matching - if using a kit that isn't a perfect match, m
 
 Analyze this and respond with JSON.`;
 
-    const response = await this.aiProvider!.complete({
+    const output = await completeStructured(this.aiProvider!, {
       prompt: userPrompt,
       systemPrompt,
       maxTokens: 1000,
       temperature: 0.3,
       timeout: 15000,
-    });
+    }, AIAnalysisSchema, { maxRepairs: 1 });
 
-    // Parse AI response
-    const parsed = this.parseAIResponse(response);
+    const parsed = this.parseAIResponse(output);
     
     const state: AIDiscoveryState = {
       currentStep: 0,
@@ -895,15 +932,15 @@ User's answers: ${JSON.stringify(newAnswers, null, 2)}
 
 Should we proceed to build, or do you need more information?`;
 
-    const response = await this.aiProvider!.complete({
+    const output = await completeStructured(this.aiProvider!, {
       prompt: userPrompt,
       systemPrompt,
       maxTokens: 800,
       temperature: 0.3,
       timeout: 15000,
-    });
+    }, AIFollowUpSchema, { maxRepairs: 1 });
 
-    const parsed = this.parseFollowUpResponse(response);
+    const parsed = this.parseFollowUpResponse(output);
     
     const updatedState: AIDiscoveryState = {
       ...state,
@@ -931,53 +968,22 @@ Should we proceed to build, or do you need more information?`;
   }
 
   /**
-   * Parse AI response JSON
+   * The AI analysis, or defaults when the response never matched its schema
    */
-  private parseAIResponse(response: string): {
-    industry: string;
-    matchedKit?: string;
-    kitMatchConfidence?: 'exact' | 'close' | 'fallback';
-    primaryIntent: 'operations' | 'customer-facing' | 'internal' | 'hybrid';
-    confidence: number;
-    interpretation?: string;
-    unavailableFeatures?: string[];
-    suggestedAlternatives?: Record<string, string>;
-    questions: AIGeneratedQuestion[];
-  } {
-    try {
-      // Try to extract JSON from response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        
-        const result = {
-          industry: parsed.industry || 'general_business',
-          matchedKit: parsed.matchedKit,
-          kitMatchConfidence: parsed.kitMatchConfidence,
-          primaryIntent: parsed.primaryIntent || 'operations',
-          confidence: Math.max(0, Math.min(1, parsed.confidence || 0.5)),
-          interpretation: parsed.interpretation,
-          unavailableFeatures: parsed.unavailableFeatures,
-          suggestedAlternatives: parsed.suggestedAlternatives,
-          questions: Array.isArray(parsed.questions) ? parsed.questions : [],
-        };
-
-        // Log unmet requests from AI analysis
-        this.processAIUnmetRequests(result);
-
-        return result;
-      }
-    } catch (error) {
-      console.error('Failed to parse AI response:', error);
+  private parseAIResponse(output: StructuredOutput<AIAnalysis>): AIAnalysis {
+    if (!output.success) {
+      console.error('Failed to parse AI response:', output.error.issues);
+      return {
+        industry: 'general_business',
+        primaryIntent: 'operations',
+        confidence: 0.5,
+        questions: [],
+      };
     }
 
-    // Fallback defaults
-    return {
-      industry: 'general_business',
-      primaryIntent: 'operations',
-      confidence: 0.5,
-      questions: [],
-    };
+    // Log unmet requests from AI analysis
+    this.processAIUnmetRequests(output.data);
+    return output.data;
   }
 
   /**
@@ -985,8 +991,8 @@ Should we proceed to build, or do you need more information?`;
    */
   private processAIUnmetRequests(result: {
     industry: string;
-    matchedKit?: string;
-    kitMatchConfidence?: string;
+    matchedKit?: string | null;
+    kitMatchConfidence?: string | null;
     unavailableFeatures?: string[];
     suggestedAlternatives?: Record<string, string>;
   }): void {
@@ -1019,34 +1025,14 @@ Should we proceed to build, or do you need more information?`;
   }
 
   /**
-   * Parse follow-up AI response
+   * The follow-up decision, or "ready to build" when the response never matched its schema
    */
-  private parseFollowUpResponse(response: string): {
-    readyToBuild: boolean;
-    updatedIndustry?: string;
-    updatedIntent?: 'operations' | 'customer-facing' | 'internal' | 'hybrid';
-    confidence: number;
-    interpretation?: string;
-    questions?: AIGeneratedQuestion[];
-  } {
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          readyToBuild: parsed.readyToBuild ?? true,
-          updatedIndustry: parsed.updatedIndustry,
-          updatedIntent: parsed.updatedIntent,
-          confidence: Math.max(0, Math.min(1, parsed.confidence || 0.75)),
-          interpretation: parsed.interpretation,
-          questions: parsed.questions,
-        };
-      }
-    } catch (error) {
-      console.error('Failed to parse follow-up response:', error);
+  private parseFollowUpResponse(output: StructuredOutput<AIFollowUp>): AIFollowUp {
+    if (!output.success) {
+      console.error('Failed to parse follow-up response:', output.error.issues);
+      return { readyToBuild: true, confidence: 0.75 };
     }
-
-    return { readyToBuild: true, confidence: 0.75 };
+    return output.data;
   }
 
   /**
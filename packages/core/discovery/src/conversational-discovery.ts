@@ -14,8 +14,40 @@
  * - Then get confirmation
  */
 
+import { z } from 'zod';
+import { completeStructured } from '@neo/ai-engine';
 import type { AIProviderForDiscovery } from './ai-discovery-handler.js';
 
+/**
+ * AI analysis of the user's first message
+ */
+const AIInputAnalysisSchema = z.object({
+  industry: z.string().optional(),
+  intent: z.string().optional(),
+  confidence: z.number().min(0).max(1).default(0.5),
+  extracted: z.record(z.unknown()).default({}),
+  interpretation: z.string().optional(),
+});
+
+/**
+ * AI-generated follow-up question
+ */
+const AIFollowUpQuestionSchema = z.object({
+  question: z.string().min(1),
+  id: z.string().optional(),
+  targetingUncertainty: z.string().optional(),
+});
+
+/**
+ * Information the AI extracted from a user's answer
+ */
+const AIResponseExtractionSchema = z.object({
+  extracted: z.record(z.unknown()).default({}),
+  confidenceBoost: z.number().min(0).max(1).default(0.15),
+  needsClarification: z.boolean().default(false),
+  summary: z.string().optional(),
+});
+
 /**
  * Question limits for discovery
  */
@@ -1503,6 +1535,14 @@ export class ConversationalDiscoveryHandler {
     };
   }
 
+  /**
+   * The AI provider, streaming `field` of its JSON responses as the reply preview
+   */
+  private replyingProvider(field: string): AIProviderForDiscovery {
+    const provider = this.aiProvider!;
+    return { complete: options => provider.complete({ ...options, replyField: field }) };
+  }
+
   /**
    * AI-powered input analysis
    */
@@ -1553,42 +1593,38 @@ IMPORTANT:
 - Fix common typos (plumer -> plumber)
 - Even short inputs like "app for plumber" should extract industry`;
 
-    const response = await this.aiProvider!.complete({
+    const output = await completeStructured(this.replyingProvider('interpretation'), {
       prompt: `User input: "${input}"\n\nAnalyze and respond with JSON only.`,
       systemPrompt,
       maxTokens: 600,
       temperature: 0.2,
       timeout: 15000,
-    });
+    }, AIInputAnalysisSchema, { maxRepairs: 1 });
 
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        
-        // Ensure industry is in extracted
-        const extracted = parsed.extracted || {};
-        if (parsed.industry && !extracted.industry) {
-          extracted.industry = parsed.industry;
-        }
-        
-        console.log('🤖 AI analysis result:', {
-          industry: parsed.industry,
-          confidence: parsed.confidence,
-          interpretation: parsed.interpretation,
-        });
-        
-        return {
-          industry: parsed.industry,
-          intent: parsed.intent,
-          confidence: Math.min(parsed.confidence || 0.5, 0.85),
-          extracted,
-          aiInterpretation: parsed.interpretation,
-        };
+    if (output.success) {
+      const parsed = output.data;
+
+      // Ensure industry is in extracted
+      const extracted = parsed.extracted;
+      if (parsed.industry && !extracted.industry) {
+        extracted.industry = parsed.industry;
       }
-    } catch (error) {
-      console.error('Failed to parse AI response:', error);
+
+      console.log('🤖 AI analysis result:', {
+        industry: parsed.industry,
+        confidence: parsed.confidence,
+        interpretation: parsed.interpretation,
+      });
+
+      return {
+        industry: parsed.industry,
+        intent: parsed.intent,
+        confidence: Math.min(parsed.confidence, 0.85),
+        extracted,
+        aiInterpretation: parsed.interpretation,
+      };
     }
+    console.error('Failed to parse AI response:', output.error.issues);
 
     // Fallback: try keyword detection for common industries with typo patterns
     const lower = input.toLowerCase();
@@ -1749,22 +1785,21 @@ IMPORTANT: Review what we already know above. DO NOT ask about things we already
 If we have enough info to build (industry + some features/problems), ask if they're ready to build instead of more questions.
 `;
 
-      const response = await this.aiProvider.complete({
+      const output = await completeStructured(this.replyingProvider('question'), {
         prompt: `${contextSummary}\n\nGenerate the next follow-up question. Respond with JSON.`,
         systemPrompt,
         maxTokens: 400,
         temperature: 0.5,
         timeout: 10000,
-      });
+      }, AIFollowUpQuestionSchema, { maxRepairs: 1 });
 
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
+      if (output.success) {
         return {
-          id: parsed.id || `ai_followup_${state.step}`,
-          question: parsed.question,
+          id: output.data.id || `ai_followup_${state.step}`,
+          question: output.data.question,
         };
       }
+      console.error('AI follow-up question did not match the expected format:', output.error.issues);
     } catch (error) {
       console.error('AI follow-up generation failed:', error);
     }
@@ -1891,29 +1926,28 @@ Respond in JSON:
 
 EXTRACT EVERYTHING USEFUL. The user gave you information - capture it!`;
 
-        const response = await this.aiProvider.complete({
+        const output = await completeStructured(this.replyingProvider('summary'), {
           prompt: `User's latest response: "${message}"\n\nAnalyze and extract information. Respond with JSON only.`,
           systemPrompt,
           maxTokens: 800,
           temperature: 0.2,
           timeout: 15000,
-        });
+        }, AIResponseExtractionSchema, { maxRepairs: 1 });
+
+        if (output.success) {
+          const parsed = output.data;
 
-        const jsonMatch = response.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          const parsed = JSON.parse(jsonMatch[0]);
-          const extracted = parsed.extracted || {};
-          
           // Log what we extracted for debugging
-          console.log('AI extracted from user response:', parsed.summary || 'no summary', extracted);
-          
+          console.log('AI extracted from user response:', parsed.summary || 'no summary', parsed.extracted);
+
           return {
-            extracted,
+            extracted: parsed.extracted,
             // Allow higher confidence boost when user gives good info
-            confidenceBoost: Math.min(parsed.confidenceBoost || 0.15, 0.35),
-            needsClarification: parsed.needsClarification === true,
+            confidenceBoost: Math.min(parsed.confidenceBoost, 0.35),
+            needsClarification: parsed.needsClarification,
           };
         }
+        console.error('AI response processing did not match the expected format:', output.error.issues);
       } catch (error) {
         console.error('AI response processing failed:', error);
       }
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { IntegrationConfigService, REDACTED_SECRET, type IntegrationConfigStore } from './config-service.js';
+import { SecretCipher, SecretCipherError } from './secret-cipher.js';
+import type { IntegrationConfig, IntegrationProviderId } from './types.js';
+
+class MemoryConfigStore implements IntegrationConfigStore {
+  records = new Map<string, IntegrationConfig>();
+
+  async loadAll(): Promise<IntegrationConfig[]> {
+    return [...this.records.values()].map(record => structuredClone(record));
+  }
+
+  async save(config: IntegrationConfig): Promise<void> {
+    this.records.set(`${config.appId}:${config.providerId}`, structuredClone(config));
+  }
+
+  async delete(appId: string, providerId: IntegrationProviderId): Promise<boolean> {
+    return this.records.delete(`${appId}:${providerId}`);
+  }
+}
+
+describe('SecretCipher', () => {
+  it('round-trips values and rejects tampering or unknown keys', () => {
+    const cipher = new SecretCipher('key-1');
+    const sealed = cipher.encrypt('sk_live_123');
+
+    expect(sealed).toMatch(/^enc:v1:/);
+    expect(sealed).not.toContain('sk_live_123');
+    expect(cipher.decrypt(sealed)).toBe('sk_live_123');
+
+    const tampered = sealed.slice(0, -4) + (sealed.endsWith('AAAA') ? 'BBBB' : 'AAAA');
+    expect(() => cipher.decrypt(tampered)).toThrow(SecretCipherError);
+    const [keyId, iv, tag, ciphertext] = sealed.slice('enc:v1:'.length).split(':');
+    const shortTag = Buffer.from(tag, 'base64').subarray(0, 4).toString('base64');
+    expect(() => cipher.decrypt(`enc:v1:${keyId}:${iv}:${shortTag}:${ciphertext}`)).toThrow(SecretCipherError);
+    expect(() => new SecretCipher('key-2').decrypt(sealed)).toThrow(/unknown key/);
+  });
+
+  it('decrypts with previous keys and flags values for rotation', () => {
+    const sealed = new SecretCipher('old').encrypt('token');
+    const rotated = new SecretCipher('new', ['old']);
+
+    expect(rotated.decrypt(sealed)).toBe('token');
+    expect(rotated.needsRotation(sealed)).toBe(true);
+    expect(rotated.needsRotation(rotated.encrypt('token'))).toBe(false);
+  });
+});
+
+describe('IntegrationConfigService - secrets', () => {
+  it('persists secrets encrypted and reloads them decrypted', async () => {
+    const store = new MemoryConfigStore();
+    const service = new IntegrationConfigService();
+    service.setStore(store, new SecretCipher('key-1'));
+
+    await service.setIntegration({
+      providerId: 'stripe',
+      appId: 'app-secrets',
+      settings: { apiKey: 'sk_live_123', currency: 'usd' },
+      enabled: true,
+    });
+
+    const stored = store.records.get('app-secrets:stripe')!;
+    expect(stored.settings.apiKey).toMatch(/^enc:v1:/);
+    expect(stored.settings.currency).toBe('usd');
+
+    await service.load();
+    expect(service.getIntegration('app-secrets', 'stripe')?.settings.apiKey).toBe('sk_live_123');
+  });
+
+  it('re-encrypts secrets under the current key on load', async () => {
+    const store = new MemoryConfigStore();
+    const service = new IntegrationConfigService();
+    service.setStore(store, new SecretCipher('old'));
+    await service.setIntegration({ providerId: 'twilio', appId: 'app-rotate', settings: { authToken: 'tw_1' }, enabled: true });
+
+    const cipher = new SecretCipher('new', ['old']);
+    service.setStore(store, cipher);
+
+    expect(await service.load()).toBe(1);
+    expect(cipher.needsRotation(store.records.get('app-rotate:twilio')!.settings.authToken)).toBe(false);
+    expect(service.getIntegration('app-rotate', 'twilio')?.settings.authToken).toBe('tw_1');
+    expect(await service.load()).toBe(0);
+  });
+
+  it('keeps webhook headers secret, encrypted as JSON', async () => {
+    const store = new MemoryConfigStore();
+    const service = new IntegrationConfigService();
+    const cipher = new SecretCipher('key-1');
+    service.setStore(store, cipher);
+    const headers = { Authorization: 'Bearer tok_123', 'X-Tenant': 'acme' };
+
+    await service.setIntegration({
+      providerId: 'webhook',
+      appId: 'app-headers',
+      settings: { url: 'https://hooks.example.com', headers },
+      enabled: true,
+    });
+
+    const stored = store.records.get('app-headers:webhook')!;
+    expect(stored.settings.headers).toMatch(/^json:enc:v1:/);
+    expect(stored.settings.headers).not.toContain('tok_123');
+    expect(service.redact(service.getIntegration('app-headers', 'webhook')!).settings.headers).toBe(REDACTED_SECRET);
+
+    await service.load();
+    expect(service.getIntegration('app-headers', 'webhook')?.settings.headers).toEqual(headers);
+
+    // Headers stored before they were secret are encrypted on load
+    await store.save({ ...stored, settings: { url: 'https://hooks.example.com', headers } });
+    expect(await service.load()).toBe(1);
+    expect(store.records.get('app-headers:webhook')!.settings.headers).toMatch(/^json:enc:v1:/);
+    expect(service.getIntegration('app-headers', 'webhook')?.settings.headers).toEqual(headers);
+    expect(await service.load()).toBe(0);
+  });
+
+  it('redacts secrets and keeps them on write-only updates', async () => {
+    const service = new IntegrationConfigService();
+    await service.setIntegration({
+      providerId: 'rest_api',
+      appId: 'app-redact',
+      settings: { baseUrl: 'https://api.example.com', apiKey: 'k1', password: 'p1' },
+      enabled: true,
+    });
+
+    const redacted = service.redact(service.getIntegration('app-redact', 'rest_api')!);
+    expect(redacted.settings).toEqual({ baseUrl: 'https://api.example.com', apiKey: REDACTED_SECRET, password: REDACTED_SECRET });
+    expect(redacted.secretSettings).toEqual(['apiKey', 'password']);
+
+    const merged = service.mergeSettings('app-redact', 'rest_api', {
+      baseUrl: 'https://api2.example.com',
+      apiKey: REDACTED_SECRET,
+      password: null,
+    });
+    expect(merged).toEqual({ baseUrl: 'https://api2.example.com', apiKey: 'k1' });
+  });
+});
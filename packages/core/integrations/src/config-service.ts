@@ -1,14 +1,93 @@
 /**
  * Integration Config Service
  * Manages integration configurations per app
+ *
+ * Configs are cached decrypted in memory for the providers. When a store is
+ * attached, secret settings are written to it encrypted with the server master key.
  */
 
 import type { IntegrationConfig, IntegrationProviderId } from './types.js';
+import type { SecretCipher } from './secret-cipher.js';
 
-// In-memory store (replace with database in production)
+// Decrypted cache, hydrated from the store by load()
 const integrationConfigs = new Map<string, IntegrationConfig[]>(); // appId -> configs[]
 
+/**
+ * Placeholder returned instead of a stored secret
+ */
+export const REDACTED_SECRET = '********';
+
+/**
+ * Prefix of sealed secret settings that hold an object (such as headers):
+ * json:enc:v1:... is the encrypted JSON of the object
+ */
+const SEALED_JSON_PREFIX = 'json:';
+
+/**
+ * Settings that hold credentials: encrypted at rest and never returned by the API
+ * Headers carry auth tokens (Authorization, X-Api-Key, ...), so they are secret as a whole.
+ */
+const secretSettings: Record<IntegrationProviderId, string[]> = {
+  stripe: ['apiKey'],
+  twilio: ['authToken'],
+  email: ['smtpPassword'],
+  webhook: ['apiKey', 'password', 'headers'],
+  rest_api: ['apiKey', 'password', 'headers'],
+  google_sheets: ['apiKey'],
+  google_calendar: ['apiKey'],
+  notion: ['apiKey'],
+  airtable: ['apiKey'],
+  zapier: ['webhookUrl'],
+};
+
+/**
+ * Persistence for integration configs (secret settings arrive encrypted)
+ */
+export interface IntegrationConfigStore {
+  loadAll(): Promise<IntegrationConfig[]>;
+  save(config: IntegrationConfig): Promise<void>;
+  delete(appId: string, providerId: IntegrationProviderId): Promise<boolean>;
+}
+
 export class IntegrationConfigService {
+  private store: IntegrationConfigStore | null = null;
+  private cipher: SecretCipher | null = null;
+
+  /**
+   * Attach a persistent store and the cipher used for its secret settings
+   */
+  setStore(store: IntegrationConfigStore, cipher: SecretCipher): void {
+    this.store = store;
+    this.cipher = cipher;
+  }
+
+  /**
+   * Load all configs from the store into the cache
+   * Secrets sealed with a previous master key are re-encrypted with the current one.
+   * @returns number of configs that were re-encrypted
+   */
+  async load(): Promise<number> {
+    if (!this.store || !this.cipher) {
+      return 0;
+    }
+
+    integrationConfigs.clear();
+    let rotated = 0;
+    for (const stored of await this.store.loadAll()) {
+      const configs = integrationConfigs.get(stored.appId) || [];
+      configs.push({ ...stored, settings: this.decryptSettings(stored) });
+      integrationConfigs.set(stored.appId, configs);
+
+      const secrets = this.getSecretSettings(stored.providerId);
+      if (secrets.some(key => this.needsSealing(stored.settings[key]))) {
+        await this.store.save(this.encryptConfig(configs[configs.length - 1]));
+        rotated++;
+      }
+    }
+
+    return rotated;
+  }
+
   /**
    * Get all integrations for an app
    */
@@ -26,8 +105,9 @@ export class IntegrationConfigService {
 
   /**
    * Create or update an integration config
+   * The cache is updated immediately; the returned promise resolves once it is persisted.
    */
-  setIntegration(config: IntegrationConfig): void {
+  async setIntegration(config: IntegrationConfig): Promise<IntegrationConfig> {
     const configs = this.getIntegrations(config.appId);
     const existingIndex = configs.findIndex(c => c.providerId === config.providerId);
     
@@ -45,18 +125,23 @@ export class IntegrationConfigService {
     }
 
     integrationConfigs.set(config.appId, configs);
+    await this.persist(updatedConfig);
+    return updatedConfig;
   }
 
   /**
    * Delete/disable an integration
    */
-  deleteIntegration(appId: string, providerId: IntegrationProviderId): boolean {
+  async deleteIntegration(appId: string, providerId: IntegrationProviderId): Promise<boolean> {
     const configs = this.getIntegrations(appId);
     const index = configs.findIndex(c => c.providerId === providerId);
     
     if (index >= 0) {
       configs.splice(index, 1);
       integrationConfigs.set(appId, configs);
+      if (this.store) {
+        await this.store.delete(appId, providerId);
+      }
       return true;
     }
     
@@ -66,13 +151,14 @@ export class IntegrationConfigService {
   /**
    * Disable an integration (keep config but mark as disabled)
    */
-  disableIntegration(appId: string, providerId: IntegrationProviderId): boolean {
+  async disableIntegration(appId: string, providerId: IntegrationProviderId): Promise<boolean> {
     const configs = this.getIntegrations(appId);
     const config = configs.find(c => c.providerId === providerId);
     
     if (config) {
       config.enabled = false;
       config.updatedAt = new Date().toISOString();
+      await this.persist(config);
       return true;
     }
     
@@ -82,19 +168,65 @@ export class IntegrationConfigService {
   /**
    * Enable an integration
    */
-  enableIntegration(appId: string, providerId: IntegrationProviderId): boolean {
+  async enableIntegration(appId: string, providerId: IntegrationProviderId): Promise<boolean> {
     const configs = this.getIntegrations(appId);
     const config = configs.find(c => c.providerId === providerId);
     
     if (config) {
       config.enabled = true;
       config.updatedAt = new Date().toISOString();
+      await this.persist(config);
       return true;
     }
     
     return false;
   }
 
+  /**
+   * Names of the write-only secret settings of a provider
+   */
+  getSecretSettings(providerId: IntegrationProviderId): string[] {
+    return secretSettings[providerId] || [];
+  }
+
+  /**
+   * Copy of a config that is safe to return from the API
+   * Secret settings are replaced by REDACTED_SECRET and listed in `secretSettings`.
+   */
+  redact(config: IntegrationConfig): IntegrationConfig & { secretSettings: string[] } {
+    const settings = { ...config.settings };
+    const configured: string[] = [];
+    for (const key of this.getSecretSettings(config.providerId)) {
+      if (hasValue(settings[key])) {
+        settings[key] = REDACTED_SECRET;
+        configured.push(key);
+      }
+    }
+    return { ...config, settings, secretSettings: configured };
+  }
+
+  /**
+   * Apply incoming settings on top of the stored config
+   * Secrets are write-only: omitting one or sending REDACTED_SECRET keeps the stored
+   * value, and null clears it. Non-secret settings are replaced as sent.
+   */
+  mergeSettings(appId: string, providerId: IntegrationProviderId, settings: Record<string, any>): Record<string, any> {
+    const existing = this.getIntegrations(appId).find(c => c.providerId === providerId);
+    const merged = { ...settings };
+
+    for (const key of this.getSecretSettings(providerId)) {
+      if (merged[key] === null) {
+        delete merged[key];
+      } else if ((merged[key] === undefined || merged[key] === REDACTED_SECRET) && existing?.settings[key] !== undefined) {
+        merged[key] = existing.settings[key];
+      } else if (merged[key] === REDACTED_SECRET) {
+        delete merged[key];
+      }
+    }
+
+    return merged;
+  }
+
   /**
    * Validate required settings for a provider
    */
@@ -124,6 +256,63 @@ export class IntegrationConfigService {
       missing,
     };
   }
+
+  private async persist(config: IntegrationConfig): Promise<void> {
+    if (this.store) {
+      await this.store.save(this.encryptConfig(config));
+    }
+  }
+
+  /**
+   * Whether a stored secret setting is still in plaintext or sealed with a previous key
+   */
+  private needsSealing(value: unknown): boolean {
+    if (typeof value === 'string' && value.startsWith(SEALED_JSON_PREFIX)) {
+      value = value.slice(SEALED_JSON_PREFIX.length);
+    }
+    if (this.cipher!.isEncrypted(value)) {
+      return this.cipher!.needsRotation(value);
+    }
+    return hasValue(value);
+  }
+
+  /**
+   * Copy of a config with its secret settings encrypted for the store
+   * (objects are encrypted as JSON)
+   */
+  private encryptConfig(config: IntegrationConfig): IntegrationConfig {
+    const settings = { ...config.settings };
+    for (const key of this.getSecretSettings(config.providerId)) {
+      if (typeof settings[key] === 'string' && settings[key] !== '') {
+        settings[key] = this.cipher!.encrypt(settings[key]);
+      } else if (hasValue(settings[key])) {
+        settings[key] = SEALED_JSON_PREFIX + this.cipher!.encrypt(JSON.stringify(settings[key]));
+      }
+    }
+    return { ...config, settings };
+  }
+
+  private decryptSettings(config: IntegrationConfig): Record<string, any> {
+    const settings = { ...config.settings };
+    for (const key of this.getSecretSettings(config.providerId)) {
+      const value = settings[key];
+      if (this.cipher!.isEncrypted(value)) {
+        settings[key] = this.cipher!.decrypt(value);
+      } else if (typeof value === 'string' && value.startsWith(SEALED_JSON_PREFIX)
+        && this.cipher!.isEncrypted(value.slice(SEALED_JSON_PREFIX.length))) {
+        settings[key] = JSON.parse(this.cipher!.decrypt(value.slice(SEALED_JSON_PREFIX.length)));
+      }
+    }
+    return settings;
+  }
+}
+
+/**
+ * Whether a setting is set (an empty string or object counts as unset)
+ */
+function hasValue(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return false;
+  return typeof value !== 'object' || Object.keys(value).length > 0;
 }
 
 export const integrationConfigService = new IntegrationConfigService();
@@ -0,0 +1,204 @@
+import { describe, expect, it, beforeAll, afterAll, afterEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { IntegrationHttpClient, HttpRequestError, buildAuthHeaders, isPrivateAddress } from './http-client.js';
+import { integrationRegistry, integrationConfigService } from './index.js';
+
+// Local echo server: replies with the request it received
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      if (url.pathname === '/redirect') {
+        res.writeHead(302, { Location: url.searchParams.get('to') || '/echo' });
+        res.end();
+        return;
+      }
+      if (url.pathname === '/large') {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('x'.repeat(10_000));
+        return;
+      }
+      if (url.pathname === '/slow') {
+        setTimeout(() => res.end('late'), 500);
+        return;
+      }
+      res.writeHead(url.pathname === '/fail' ? 500 : 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        method: req.method,
+        path: url.pathname,
+        headers: req.headers,
+        body: Buffer.concat(chunks).toString('utf-8'),
+        data: { id: 'ord_1', tags: ['new'] },
+      }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('IntegrationHttpClient - SSRF protection', () => {
+  it('classifies private and public addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', 'not-an-ip']) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+    for (const address of ['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111']) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+
+  it('refuses private IP literals and hostnames resolving to them', async () => {
+    const client = new IntegrationHttpClient({ allowPrivateNetworks: false });
+    for (const url of [`${baseUrl}/echo`, 'http://[::1]/', 'http://0x7f.1/', 'http://169.254.169.254/latest/meta-data', 'http://localhost/']) {
+      await expect(client.request({ url }), url).rejects.toMatchObject({ code: 'blocked_address' });
+    }
+  });
+
+  it('refuses mapped IPv6 literals and non-HTTP protocols', async () => {
+    const client = new IntegrationHttpClient({ allowPrivateNetworks: false });
+    await expect(client.request({ url: 'http://[::ffff:7f00:1]/' })).rejects.toBeInstanceOf(HttpRequestError);
+    await expect(client.request({ url: 'file:///etc/passwd' })).rejects.toMatchObject({ code: 'invalid_url' });
+  });
+});
+
+describe('IntegrationHttpClient - requests', () => {
+  const client = new IntegrationHttpClient({ allowPrivateNetworks: true });
+
+  it('sends JSON bodies with auth headers and parses JSON responses', async () => {
+    const response = await client.request({
+      url: `${baseUrl}/echo`,
+      method: 'POST',
+      headers: buildAuthHeaders({ authType: 'api_key', apiKey: 'k1', apiKeyHeader: 'X-Key' }),
+      body: { hello: 'world' },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.body as any;
+    expect(body.method).toBe('POST');
+    expect(body.headers['x-key']).toBe('k1');
+    expect(body.headers['content-type']).toBe('application/json');
+    expect(JSON.parse(body.body)).toEqual({ hello: 'world' });
+  });
+
+  it('builds bearer and basic auth headers', () => {
+    expect(buildAuthHeaders({ apiKey: 't1' })).toEqual({ Authorization: 'Bearer t1' });
+    expect(buildAuthHeaders({ authType: 'basic', username: 'u', password: 'p' })).toEqual({ Authorization: 'Basic dTpw' });
+    expect(buildAuthHeaders({ authType: 'none', apiKey: 't1' })).toEqual({});
+  });
+
+  it('follows redirects within the limit and drops credentials across origins', async () => {
+    const followed = await client.request({ url: `${baseUrl}/redirect`, headers: { Authorization: 'Bearer t1' } });
+    expect(followed.redirects).toBe(1);
+    expect((followed.body as any).headers.authorization).toBe('Bearer t1');
+
+    const crossOrigin = await client.request({
+      url: `${baseUrl}/redirect?to=${encodeURIComponent(baseUrl.replace('127.0.0.1', 'localhost') + '/echo')}`,
+      headers: { Authorization: 'Bearer t1' },
+    });
+    expect((crossOrigin.body as any).headers.authorization).toBeUndefined();
+
+    const apiKey = buildAuthHeaders({ authType: 'api_key', apiKey: 'k1' });
+    const crossOriginApiKey = await client.request({
+      url: `${baseUrl}/redirect?to=${encodeURIComponent(baseUrl.replace('127.0.0.1', 'localhost') + '/echo')}`,
+      headers: { ...apiKey, 'X-Tenant-Secret': 's1', Accept: 'application/json' },
+      credentialHeaders: [...Object.keys(apiKey), 'X-Tenant-Secret'],
+    });
+    const received = (crossOriginApiKey.body as any).headers;
+    expect(received['x-api-key']).toBeUndefined();
+    expect(received['x-tenant-secret']).toBeUndefined();
+    expect(received.accept).toBe('application/json');
+
+    await expect(client.request({ url: `${baseUrl}/redirect?to=/redirect`, maxRedirects: 1 }))
+      .rejects.toMatchObject({ code: 'too_many_redirects' });
+  });
+
+  it('enforces response size and timeout limits', async () => {
+    await expect(client.request({ url: `${baseUrl}/large`, maxResponseBytes: 1000 }))
+      .rejects.toMatchObject({ code: 'response_too_large' });
+    await expect(client.request({ url: `${baseUrl}/slow`, timeoutMs: 50 }))
+      .rejects.toMatchObject({ code: 'timeout' });
+  });
+});
+
+describe('REST and webhook providers', () => {
+  afterEach(async () => {
+    delete process.env.INTEGRATIONS_ALLOW_PRIVATE_NETWORKS;
+    await integrationConfigService.deleteIntegration('app-http', 'rest_api');
+    await integrationConfigService.deleteIntegration('app-http', 'webhook');
+  });
+
+  it('maps REST responses into variables', async () => {
+    process.env.INTEGRATIONS_ALLOW_PRIVATE_NETWORKS = 'true';
+    await integrationConfigService.setIntegration({
+      providerId: 'rest_api',
+      appId: 'app-http',
+      settings: { baseUrl: `${baseUrl}/api`, apiKey: 'secret' },
+      enabled: true,
+    });
+
+    const result = await integrationRegistry.executeAction('rest_api', 'get', {
+      appId: 'app-http',
+      payload: { path: '/orders', responseMapping: { orderId: 'body.data.id', firstTag: 'body.data.tags[0]', status: 'status' } },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.body.path).toBe('/api/orders');
+    expect(result.data.body.headers.authorization).toBe('Bearer secret');
+    expect(result.data.variables).toEqual({ orderId: 'ord_1', firstTag: 'new', status: 200 });
+
+    const outside = await integrationRegistry.executeAction('rest_api', 'get', {
+      appId: 'app-http',
+      payload: { path: `${baseUrl}/apix` },
+    });
+    expect(outside.success).toBe(false);
+  });
+
+  it('reports webhook failures and blocks private targets by default', async () => {
+    await integrationConfigService.setIntegration({
+      providerId: 'webhook',
+      appId: 'app-http',
+      settings: { url: `${baseUrl}/fail` },
+      enabled: true,
+    });
+
+    const blocked = await integrationRegistry.executeAction('webhook', 'trigger', { appId: 'app-http', payload: {} });
+    expect(blocked.success).toBe(false);
+    expect(blocked.error).toMatch(/not allowed/);
+
+    process.env.INTEGRATIONS_ALLOW_PRIVATE_NETWORKS = 'true';
+    const failed = await integrationRegistry.executeAction('webhook', 'trigger', { appId: 'app-http', payload: { body: { a: 1 } } });
+    expect(failed.success).toBe(false);
+    expect(failed.statusCode).toBe(500);
+  });
+
+  it('keeps configured credentials off other origins a webhook redirects to', async () => {
+    process.env.INTEGRATIONS_ALLOW_PRIVATE_NETWORKS = 'true';
+    const elsewhere = baseUrl.replace('127.0.0.1', 'localhost') + '/echo';
+    await integrationConfigService.setIntegration({
+      providerId: 'webhook',
+      appId: 'app-http',
+      settings: {
+        url: `${baseUrl}/redirect?to=${encodeURIComponent(elsewhere)}`,
+        authType: 'api_key',
+        apiKey: 'k1',
+        apiKeyHeader: 'X-Hook-Key',
+        headers: { 'X-Signing-Secret': 's1' },
+      },
+      enabled: true,
+    });
+
+    const result = await integrationRegistry.executeAction('webhook', 'trigger', { appId: 'app-http', payload: {} });
+    expect(result.success).toBe(true);
+    expect(result.data.body.headers['x-hook-key']).toBeUndefined();
+    expect(result.data.body.headers['x-signing-secret']).toBeUndefined();
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * Integration HTTP Client
+ * Outbound HTTP for integration providers: timeouts, auth, redirect and size
+ * limits, and SSRF protection (private address ranges are refused at connect time)
+ */
+
+import http from 'node:http';
+import https from 'node:https';
+import dns from 'node:dns';
+import net, { BlockList, type LookupFunction } from 'node:net';
+import { evaluateExpression } from '@neo/contracts';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD';
+
+export type HttpAuthType = 'none' | 'bearer' | 'basic' | 'api_key';
+
+export interface HttpRequestOptions {
+  url: string;
+  method?: HttpMethod | string;
+  headers?: Record<string, string>;
+  /**
+   * Names of headers carrying credentials (auth and configured secret headers);
+   * like Authorization and Cookie they are dropped on cross-origin redirects
+   */
+  credentialHeaders?: string[];
+  /** Objects are sent as JSON, strings as-is */
+  body?: unknown;
+  timeoutMs?: number;
+  maxRedirects?: number;
+  maxResponseBytes?: number;
+}
+
+export interface HttpResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  /** Parsed JSON when the response is JSON, text otherwise (null when empty) */
+  body: unknown;
+  /** Final URL after redirects */
+  url: string;
+  redirects: number;
+}
+
+export interface IntegrationHttpClientOptions {
+  timeoutMs?: number;
+  maxRedirects?: number;
+  maxResponseBytes?: number;
+  /**
+   * Allow loopback and private addresses (local development and tests only).
+   * Defaults to the INTEGRATIONS_ALLOW_PRIVATE_NETWORKS env var.
+   */
+  allowPrivateNetworks?: boolean;
+}
+
+export type HttpRequestErrorCode =
+  | 'invalid_url'
+  | 'blocked_address'
+  | 'timeout'
+  | 'too_many_redirects'
+  | 'response_too_large'
+  | 'network';
+
+export class HttpRequestError extends Error {
+  constructor(message: string, public code: HttpRequestErrorCode) {
+    super(message);
+    this.name = 'HttpRequestError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_REDIRECTS = 3;
+const DEFAULT_MAX_RESPONSE_BYTES = 1024 * 1024;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// ============================================================
+// SSRF PROTECTION
+// ============================================================
+
+/**
+ * Address ranges that never leave the host or the private network
+ * (IPv4-mapped IPv6 addresses are matched against the IPv4 ranges)
+ */
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],        // "this" network
+  ['10.0.0.0', 8],       // private
+  ['100.64.0.0', 10],    // carrier-grade NAT
+  ['127.0.0.0', 8],      // loopback
+  ['169.254.0.0', 16],   // link-local (cloud metadata)
+  ['172.16.0.0', 12],    // private
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.0.2.0', 24],     // documentation
+  ['192.168.0.0', 16],   // private
+  ['198.18.0.0', 15],    // benchmarking
+  ['198.51.100.0', 24],  // documentation
+  ['203.0.113.0', 24],   // documentation
+  ['224.0.0.0', 4],      // multicast
+  ['240.0.0.0', 4],      // reserved and broadcast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],           // unspecified
+  ['::1', 128],          // loopback
+  ['fc00::', 7],         // unique local
+  ['fe80::', 10],        // link-local
+  ['ff00::', 8],         // multicast
+  ['2001:db8::', 32],    // documentation
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not public
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * DNS lookup that refuses hostnames resolving to blocked addresses
+ * Runs when the socket connects, so a second lookup cannot swap in a private address.
+ */
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      callback(
+        new HttpRequestError(`Requests to ${hostname} are not allowed (private address)`, 'blocked_address'),
+        '',
+        0
+      );
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// ============================================================
+// AUTH AND RESPONSE MAPPING
+// ============================================================
+
+/**
+ * Build auth headers from integration settings
+ * Settings: authType ('bearer' | 'basic' | 'api_key' | 'none'), apiKey, username,
+ * password, apiKeyHeader. An apiKey without authType is sent as a bearer token.
+ */
+export function buildAuthHeaders(settings: Record<string, any>): Record<string, string> {
+  const authType: HttpAuthType = settings.authType || (settings.apiKey ? 'bearer' : 'none');
+
+  switch (authType) {
+    case 'bearer':
+      return settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {};
+    case 'basic': {
+      const credentials = Buffer.from(`${settings.username ?? ''}:${settings.password ?? ''}`).toString('base64');
+      return { Authorization: `Basic ${credentials}` };
+    }
+    case 'api_key':
+      return settings.apiKey ? { [settings.apiKeyHeader || 'X-API-Key']: String(settings.apiKey) } : {};
+    default:
+      return {};
+  }
+}
+
+/**
+ * Map a response into variables
+ * Each mapping value is an expression over `body`, `status` and `headers`,
+ * e.g. { orderId: 'body.data.id', firstTag: 'body.tags[0]' }. Failed expressions map to undefined.
+ */
+export function mapResponse(response: HttpResponse, mapping: Record<string, string>): Record<string, unknown> {
+  const variables: Record<string, unknown> = {};
+  for (const [name, expression] of Object.entries(mapping)) {
+    try {
+      variables[name] = evaluateExpression(expression, {
+        variables: { body: response.body, status: response.statusCode, headers: response.headers },
+      });
+    } catch {
+      variables[name] = undefined;
+    }
+  }
+  return variables;
+}
+
+// ============================================================
+// HTTP CLIENT
+// ============================================================
+
+export class IntegrationHttpClient {
+  constructor(private options: IntegrationHttpClientOptions = {}) {}
+
+  /**
+   * Send a request, following redirects within the limits
+   */
+  async request(options: HttpRequestOptions): Promise<HttpResponse> {
+    const timeoutMs = options.timeoutMs ?? this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const maxRedirects = options.maxRedirects ?? this.options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+    const maxResponseBytes = options.maxResponseBytes ?? this.options.maxResponseBytes ?? DEFAULT_MAX_RESPONSE_BYTES;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    let url = this.parseUrl(options.url);
+    let method = (options.method || 'GET').toUpperCase();
+    let headers: Record<string, string> = { ...options.headers };
+    let body = this.encodeBody(options.body, headers);
+    const credentialHeaders = new Set(
+      ['authorization', 'cookie', ...(options.credentialHeaders ?? [])].map(name => name.toLowerCase())
+    );
+
+    try {
+      for (let redirects = 0; ; redirects++) {
+        const response = await this.send(url, method, headers, body, controller.signal, maxResponseBytes);
+        const location = response.headers.location;
+
+        if (!REDIRECT_STATUSES.has(response.statusCode) || !location) {
+          return {
+            statusCode: response.statusCode,
+            headers: response.headers,
+            body: this.decodeBody(response.body, response.headers['content-type']),
+            url: url.toString(),
+            redirects,
+          };
+        }
+
+        if (redirects >= maxRedirects) {
+          throw new HttpRequestError(`Too many redirects (limit ${maxRedirects})`, 'too_many_redirects');
+        }
+
+        const next = this.parseUrl(new URL(location, url).toString());
+        if (next.origin !== url.origin) {
+          // Credentials are only sent to the origin they were configured for
+          headers = Object.fromEntries(
+            Object.entries(headers).filter(([name]) => !credentialHeaders.has(name.toLowerCase()))
+          );
+        }
+        if (response.statusCode === 303 || ((response.statusCode === 301 || response.statusCode === 302) && method === 'POST')) {
+          method = 'GET';
+          body = undefined;
+        }
+        url = next;
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new HttpRequestError(`Request timed out after ${timeoutMs}ms`, 'timeout');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private parseUrl(value: string): URL {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      throw new HttpRequestError(`Invalid URL: ${value}`, 'invalid_url');
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new HttpRequestError(`Unsupported protocol: ${url.protocol}`, 'invalid_url');
+    }
+    if (url.username || url.password) {
+      throw new HttpRequestError('Credentials in URLs are not allowed; use the auth settings', 'invalid_url');
+    }
+
+    // IP literals skip DNS lookup, so they are checked here
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (!this.allowPrivateNetworks() && net.isIP(hostname) && isPrivateAddress(hostname)) {
+      throw new HttpRequestError(`Requests to ${hostname} are not allowed (private address)`, 'blocked_address');
+    }
+    return url;
+  }
+
+  private allowPrivateNetworks(): boolean {
+    return this.options.allowPrivateNetworks ?? process.env.INTEGRATIONS_ALLOW_PRIVATE_NETWORKS === 'true';
+  }
+
+  private encodeBody(body: unknown, headers: Record<string, string>): Buffer | undefined {
+    if (body === undefined || body === null) return undefined;
+    if (typeof body === 'string') return Buffer.from(body);
+
+    if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = 'application/json';
+    }
+    return Buffer.from(JSON.stringify(body));
+  }
+
+  private decodeBody(raw: Buffer, contentType: string | undefined): unknown {
+    if (raw.length === 0) return null;
+    const text = raw.toString('utf-8');
+    if (contentType && /[/+]json\b/i.test(contentType)) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    }
+    return text;
+  }
+
+  private send(
+    url: URL,
+    method: string,
+    headers: Record<string, string>,
+    body: Buffer | undefined,
+    signal: AbortSignal,
+    maxResponseBytes: number
+  ): Promise<{ statusCode: number; headers: Record<string, string>; body: Buffer }> {
+    return new Promise((resolve, reject) => {
+      const transport = url.protocol === 'https:' ? https : http;
+      const request = transport.request(url, {
+        method,
+        headers: body ? { ...headers, 'Content-Length': String(body.length) } : headers,
+        signal,
+        lookup: this.allowPrivateNetworks() ? undefined : guardedLookup,
+      }, (response) => {
+        const responseHeaders: Record<string, string> = {};
+        for (const [name, value] of Object.entries(response.headers)) {
+          if (value !== undefined) responseHeaders[name] = Array.isArray(value) ? value.join(', ') : value;
+        }
+
+        const tooLarge = () => {
+          response.destroy();
+          reject(new HttpRequestError(`Response exceeds ${maxResponseBytes} bytes`, 'response_too_large'));
+        };
+        if (Number(responseHeaders['content-length']) > maxResponseBytes) {
+          tooLarge();
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        response.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > maxResponseBytes) {
+            tooLarge();
+            return;
+          }
+          chunks.push(chunk);
+        });
+        response.on('end', () => {
+          resolve({ statusCode: response.statusCode || 0, headers: responseHeaders, body: Buffer.concat(chunks) });
+        });
+        response.on('error', reject);
+      });
+
+      request.on('error', (error) => {
+        reject(error instanceof HttpRequestError || signal.aborted
+          ? error
+          : new HttpRequestError(`Request failed: ${error.message}`, 'network'));
+      });
+      if (body) request.write(body);
+      request.end();
+    });
+  }
+}
+
+// Shared client used by the webhook and REST providers
+export const integrationHttpClient = new IntegrationHttpClient();
@@ -5,7 +5,27 @@
 
 export * from './types.js';
 export { IntegrationRegistry, integrationRegistry } from './registry.js';
-export { IntegrationConfigService, integrationConfigService } from './config-service.js';
+export {
+  IntegrationConfigService,
+  integrationConfigService,
+  REDACTED_SECRET,
+  type IntegrationConfigStore,
+} from './config-service.js';
+export { SecretCipher, SecretCipherError } from './secret-cipher.js';
+export {
+  IntegrationHttpClient,
+  integrationHttpClient,
+  HttpRequestError,
+  buildAuthHeaders,
+  mapResponse,
+  isPrivateAddress,
+  type HttpMethod,
+  type HttpAuthType,
+  type HttpRequestOptions,
+  type HttpResponse,
+  type HttpRequestErrorCode,
+  type IntegrationHttpClientOptions,
+} from './http-client.js';
 
 // Register all providers
 import { registerStripeProvider } from './providers/stripe.js';
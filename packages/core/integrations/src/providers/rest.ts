@@ -5,104 +5,75 @@
 import type { IntegrationActionHandler, IntegrationActionContext, IntegrationActionResult, IntegrationConfig } from '../types.js';
 import { integrationRegistry } from '../registry.js';
 import type { IntegrationProvider } from '../types.js';
+import { integrationHttpClient, buildAuthHeaders, mapResponse, type HttpMethod } from '../http-client.js';
 
-async function restGet(
-  actionId: string,
-  ctx: IntegrationActionContext,
-  config: IntegrationConfig
-): Promise<IntegrationActionResult> {
-  const { path, headers = {} } = ctx.payload;
-  const baseUrl = config.settings.baseUrl;
-  const url = `${baseUrl}${path || ''}`;
-
-  // Mock implementation
-  // const response = await fetch(url, {
-  //   method: 'GET',
-  //   headers: {
-  //     'Authorization': `Bearer ${config.settings.apiKey}`,
-  //     ...headers,
-  //   },
-  // });
-
-  return {
-    success: true,
-    data: {
-      url,
-      method: 'GET',
-      statusCode: 200,
-    },
-  };
+/**
+ * Resolve the request URL against the configured base URL
+ * Absolute URLs are only accepted when they stay under the base URL.
+ */
+function resolveUrl(baseUrl: string, path: string | undefined): string {
+  if (!path) return baseUrl;
+  if (/^[a-z][a-z0-9+.-]*:/i.test(path)) {
+    const base = new URL(baseUrl);
+    const target = new URL(path);
+    const basePath = base.pathname.endsWith('/') ? base.pathname : `${base.pathname}/`;
+    if (target.origin !== base.origin || !(target.pathname === base.pathname || target.pathname.startsWith(basePath))) {
+      throw new Error(`URL ${path} is outside the configured base URL`);
+    }
+    return path;
+  }
+  return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
 }
 
-async function restPost(
-  actionId: string,
+async function restRequest(
+  method: HttpMethod,
   ctx: IntegrationActionContext,
   config: IntegrationConfig
 ): Promise<IntegrationActionResult> {
-  const { path, body, headers = {} } = ctx.payload;
-  const baseUrl = config.settings.baseUrl;
-  const url = `${baseUrl}${path || ''}`;
+  const { path, body, headers = {}, responseMapping } = ctx.payload;
 
-  // Mock implementation
-  // const response = await fetch(url, {
-  //   method: 'POST',
-  //   headers: {
-  //     'Content-Type': 'application/json',
-  //     'Authorization': `Bearer ${config.settings.apiKey}`,
-  //     ...headers,
-  //   },
-  //   body: JSON.stringify(body),
-  // });
-
-  return {
-    success: true,
-    data: {
+  try {
+    const url = resolveUrl(config.settings.baseUrl, path);
+    const authHeaders = buildAuthHeaders(config.settings);
+    const response = await integrationHttpClient.request({
       url,
-      method: 'POST',
-      statusCode: 200,
-    },
-  };
-}
-
-async function restPut(
-  actionId: string,
-  ctx: IntegrationActionContext,
-  config: IntegrationConfig
-): Promise<IntegrationActionResult> {
-  const { path, body, headers = {} } = ctx.payload;
-  const baseUrl = config.settings.baseUrl;
-  const url = `${baseUrl}${path || ''}`;
+      method,
+      headers: {
+        Accept: 'application/json',
+        ...config.settings.headers,
+        ...authHeaders,
+        ...headers,
+      },
+      credentialHeaders: [...Object.keys(config.settings.headers ?? {}), ...Object.keys(authHeaders)],
+      body: method === 'GET' || method === 'DELETE' ? undefined : body,
+      timeoutMs: config.settings.timeoutMs,
+    });
+    const ok = response.statusCode >= 200 && response.statusCode < 300;
 
-  // Mock implementation
-  return {
-    success: true,
-    data: {
-      url,
-      method: 'PUT',
-      statusCode: 200,
-    },
-  };
+    return {
+      success: ok,
+      statusCode: response.statusCode,
+      error: ok ? undefined : `${method} ${url} returned HTTP ${response.statusCode}`,
+      data: {
+        url: response.url,
+        method,
+        statusCode: response.statusCode,
+        body: response.body,
+        ...(responseMapping && { variables: mapResponse(response, responseMapping) }),
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || `${method} request failed`,
+    };
+  }
 }
 
-async function restDelete(
-  actionId: string,
-  ctx: IntegrationActionContext,
-  config: IntegrationConfig
-): Promise<IntegrationActionResult> {
-  const { path, headers = {} } = ctx.payload;
-  const baseUrl = config.settings.baseUrl;
-  const url = `${baseUrl}${path || ''}`;
-
-  // Mock implementation
-  return {
-    success: true,
-    data: {
-      url,
-      method: 'DELETE',
-      statusCode: 200,
-    },
-  };
-}
+const restGet: IntegrationActionHandler = (actionId, ctx, config) => restRequest('GET', ctx, config);
+const restPost: IntegrationActionHandler = (actionId, ctx, config) => restRequest('POST', ctx, config);
+const restPut: IntegrationActionHandler = (actionId, ctx, config) => restRequest('PUT', ctx, config);
+const restDelete: IntegrationActionHandler = (actionId, ctx, config) => restRequest('DELETE', ctx, config);
 
 export function registerRestProvider(): void {
   const provider: IntegrationProvider = {
@@ -110,35 +81,35 @@ export function registerRestProvider(): void {
     displayName: 'REST API',
     description: 'Generic REST API connector',
     requiredSettings: ['baseUrl'],
-    optionalSettings: ['apiKey', 'authType', 'headers'],
+    optionalSettings: ['apiKey', 'authType', 'apiKeyHeader', 'username', 'password', 'headers', 'timeoutMs'],
     actions: [
       {
         id: 'get',
         displayName: 'GET Request',
         description: 'Make a GET request',
         handler: restGet,
-        optionalParams: ['path', 'headers'],
+        optionalParams: ['path', 'headers', 'responseMapping'],
       },
       {
         id: 'post',
         displayName: 'POST Request',
         description: 'Make a POST request',
         handler: restPost,
-        optionalParams: ['path', 'body', 'headers'],
+        optionalParams: ['path', 'body', 'headers', 'responseMapping'],
       },
       {
         id: 'put',
         displayName: 'PUT Request',
         description: 'Make a PUT request',
         handler: restPut,
-        optionalParams: ['path', 'body', 'headers'],
+        optionalParams: ['path', 'body', 'headers', 'responseMapping'],
       },
       {
         id: 'delete',
         displayName: 'DELETE Request',
         description: 'Make a DELETE request',
         handler: restDelete,
-        optionalParams: ['path', 'headers'],
+        optionalParams: ['path', 'headers', 'responseMapping'],
       },
     ],
   };
@@ -5,13 +5,15 @@
 import type { IntegrationActionHandler, IntegrationActionContext, IntegrationActionResult, IntegrationConfig } from '../types.js';
 import { integrationRegistry } from '../registry.js';
 import type { IntegrationProvider } from '../types.js';
+import { integrationHttpClient, buildAuthHeaders, mapResponse } from '../http-client.js';
 
 async function triggerWebhook(
   actionId: string,
   ctx: IntegrationActionContext,
   config: IntegrationConfig
 ): Promise<IntegrationActionResult> {
-  const { method = 'POST', headers = {}, body } = ctx.payload;
+  const { headers = {}, body, responseMapping } = ctx.payload;
+  const method = ctx.payload.method || config.settings.method || 'POST';
   const url = config.settings.url;
 
   if (!url) {
@@ -21,25 +23,41 @@ async function triggerWebhook(
     };
   }
 
-  // Mock implementation - replace with actual HTTP request
-  // const response = await fetch(url, {
-  //   method,
-  //   headers: {
-  //     'Content-Type': 'application/json',
-  //     ...headers,
-  //   },
-  //   body: body ? JSON.stringify(body) : undefined,
-  // });
-
-  return {
-    success: true,
-    data: {
+  try {
+    const authHeaders = buildAuthHeaders(config.settings);
+    const response = await integrationHttpClient.request({
       url,
       method,
-      statusCode: 200,
-      timestamp: new Date().toISOString(),
-    },
-  };
+      headers: {
+        ...config.settings.headers,
+        ...authHeaders,
+        ...headers,
+      },
+      credentialHeaders: [...Object.keys(config.settings.headers ?? {}), ...Object.keys(authHeaders)],
+      body,
+      timeoutMs: config.settings.timeoutMs,
+    });
+    const ok = response.statusCode >= 200 && response.statusCode < 300;
+
+    return {
+      success: ok,
+      statusCode: response.statusCode,
+      error: ok ? undefined : `Webhook returned HTTP ${response.statusCode}`,
+      data: {
+        url: response.url,
+        method,
+        statusCode: response.statusCode,
+        body: response.body,
+        ...(responseMapping && { variables: mapResponse(response, responseMapping) }),
+        timestamp: new Date().toISOString(),
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || 'Webhook request failed',
+    };
+  }
 }
 
 export function registerWebhookProvider(): void {
@@ -48,14 +66,14 @@ export function registerWebhookProvider(): void {
     displayName: 'Webhook',
     description: 'Trigger webhooks',
     requiredSettings: ['url'],
-    optionalSettings: ['method', 'headers', 'auth'],
+    optionalSettings: ['method', 'headers', 'authType', 'apiKey', 'apiKeyHeader', 'username', 'password', 'timeoutMs'],
     actions: [
       {
         id: 'trigger',
         displayName: 'Trigger Webhook',
         description: 'Send a webhook request',
         handler: triggerWebhook,
-        optionalParams: ['method', 'headers', 'body'],
+        optionalParams: ['method', 'headers', 'body', 'responseMapping'],
       },
     ],
   };
@@ -0,0 +1,102 @@
+/**
+ * Secret Cipher
+ * AES-256-GCM encryption of integration secrets with a server master key.
+ * Values carry the id of the key that sealed them, so old keys can stay
+ * configured for decryption while everything is re-encrypted under the new one.
+ */
+
+import crypto from 'node:crypto';
+
+/** Prefix of encrypted values: enc:v1:<keyId>:<iv>:<tag>:<ciphertext> */
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+/** GCM tag length; shorter tags would otherwise be accepted */
+const AUTH_TAG_LENGTH = 16;
+
+export class SecretCipherError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretCipherError';
+  }
+}
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Derive a 256-bit key and a short stable id from a configured master key
+ */
+function deriveKey(secret: string): MasterKey {
+  const key = crypto.createHash('sha256').update(secret, 'utf-8').digest();
+  const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return { id, key };
+}
+
+export class SecretCipher {
+  private current: MasterKey;
+  private keys = new Map<string, MasterKey>();
+
+  /**
+   * @param currentKey - key used for new encryptions
+   * @param previousKeys - retired keys, only used to decrypt
+   */
+  constructor(currentKey: string, previousKeys: string[] = []) {
+    if (!currentKey) {
+      throw new SecretCipherError('A master key is required to encrypt secrets');
+    }
+    this.current = deriveKey(currentKey);
+    for (const secret of [currentKey, ...previousKeys].filter(Boolean)) {
+      const masterKey = deriveKey(secret);
+      this.keys.set(masterKey.id, masterKey);
+    }
+  }
+
+  /**
+   * Id of the key new values are encrypted with
+   */
+  get currentKeyId(): string {
+    return this.current.id;
+  }
+
+  isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.current.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return `${ENCRYPTED_PREFIX}${this.current.id}:${iv.toString('base64')}:${tag.toString('base64')}:${ciphertext.toString('base64')}`;
+  }
+
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) {
+      throw new SecretCipherError('Value is not encrypted');
+    }
+    const [keyId, iv, tag, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+    const masterKey = this.keys.get(keyId);
+    if (!masterKey) {
+      throw new SecretCipherError(`Secret was encrypted with unknown key ${keyId}`);
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', masterKey.key, Buffer.from(iv, 'base64'), {
+        authTagLength: AUTH_TAG_LENGTH,
+      });
+      decipher.setAuthTag(Buffer.from(tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf-8');
+    } catch {
+      throw new SecretCipherError('Secret could not be decrypted (tampered or wrong key)');
+    }
+  }
+
+  /**
+   * Whether a value is encrypted with a key other than the current one
+   */
+  needsRotation(value: string): boolean {
+    return this.isEncrypted(value) && !value.startsWith(`${ENCRYPTED_PREFIX}${this.current.id}:`);
+  }
+}
@@ -289,10 +289,11 @@ export class ActionExecutor {
       return { success: false, actionType: 'create_record', error: 'modelId is required' };
     }
 
-    const recordData = { ...action.data, ...context.formData };
-    
     // API call to persist
     try {
+      // Entity hooks run before the server sees the record and may reject or change it
+      const recordData = this.dataStore.prepareCreate(modelId, { ...action.data, ...context.formData });
+
       const response = await fetch(`${this.apiBaseUrl}/apps/${this.appId}/data/${modelId}/create`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -308,7 +309,7 @@ export class ActionExecutor {
       
       // Update local store
       if (result.record) {
-        this.dataStore.createRecord(modelId, result.record);
+        this.dataStore.createRecord(modelId, result.record, { skipBeforeHook: true });
       }
 
       return {
@@ -328,9 +329,9 @@ export class ActionExecutor {
       return { success: false, actionType: 'update_record', error: 'modelId and recordId are required' };
     }
 
-    const updates = { ...action.data, ...context.formData };
-
     try {
+      const updates = this.dataStore.prepareUpdate(modelId, action.recordId, { ...action.data, ...context.formData });
+
       const response = await fetch(`${this.apiBaseUrl}/apps/${this.appId}/data/${modelId}/${action.recordId}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
@@ -343,7 +344,7 @@ export class ActionExecutor {
       }
 
       // Update local store
-      this.dataStore.updateRecord(modelId, action.recordId, updates);
+      this.dataStore.updateRecord(modelId, action.recordId, updates, { skipBeforeHook: true });
 
       return {
         success: true,
@@ -363,6 +364,8 @@ export class ActionExecutor {
     }
 
     try {
+      this.dataStore.prepareDelete(modelId, action.recordId);
+
       const response = await fetch(`${this.apiBaseUrl}/apps/${this.appId}/data/${modelId}/${action.recordId}`, {
         method: 'DELETE',
       });
@@ -373,7 +376,7 @@ export class ActionExecutor {
       }
 
       // Update local store
-      this.dataStore.deleteRecord(modelId, action.recordId);
+      this.dataStore.deleteRecord(modelId, action.recordId, { skipBeforeHook: true });
 
       return {
         success: true,
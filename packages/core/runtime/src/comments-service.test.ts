@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { UnifiedAppSchema } from '@neo/blueprint-engine';
+import {
+  CommentNotFoundError,
+  CommentPermissionError,
+  CommentsService,
+  extractMentionHandles,
+  type CommentActivity,
+  type CommentStore,
+  type RecordComment,
+} from './comments-service.js';
+import { EventBus, RuntimeEventType } from './event-system.js';
+import { PermissionsService } from './permissions-service.js';
+
+class MemoryCommentStore implements CommentStore {
+  comments = new Map<string, RecordComment>();
+
+  async listForRecord(appId: string, entityId: string, recordId: string): Promise<RecordComment[]> {
+    return [...this.comments.values()].filter(
+      c => c.appId === appId && c.entityId === entityId && c.recordId === recordId
+    );
+  }
+
+  async get(appId: string, id: string): Promise<RecordComment | null> {
+    const comment = this.comments.get(id);
+    return comment?.appId === appId ? comment : null;
+  }
+
+  async save(comment: RecordComment): Promise<void> {
+    this.comments.set(comment.id, comment);
+  }
+
+  async delete(appId: string, id: string): Promise<boolean> {
+    for (const comment of [...this.comments.values()]) {
+      if (comment.appId === appId && (comment.id === id || comment.parentId === id)) {
+        this.comments.delete(comment.id);
+      }
+    }
+    return true;
+  }
+}
+
+const schema = { id: 'field-service', entities: [], pages: [] } as unknown as UnifiedAppSchema;
+
+function serviceFor(userId: string, role: 'viewer' | 'admin' | 'public', store: CommentStore, eventBus: EventBus) {
+  return new CommentsService(store, {
+    appId: 'app',
+    permissions: new PermissionsService({ userId, role, appId: 'app', schema }),
+    eventBus,
+    resolveMentions: async handles => handles.filter(h => h === 'dana').map(() => 'user-dana'),
+  });
+}
+
+describe('extractMentionHandles', () => {
+  it('finds usernames and emails but not addresses inside words', () => {
+    expect(extractMentionHandles('@dana can you check? cc @sam@acme.io, not me@home. Thanks @dana.'))
+      .toEqual(['dana', 'sam@acme.io']);
+  });
+});
+
+describe('CommentsService', () => {
+  it('threads replies under their root and announces mentions', async () => {
+    const store = new MemoryCommentStore();
+    const eventBus = new EventBus();
+    const added: CommentActivity[] = [];
+    eventBus.on<CommentActivity>(RuntimeEventType.COMMENT_ADDED, activity => {
+      added.push(activity);
+    });
+
+    const tech = serviceFor('u1', 'viewer', store, eventBus);
+    const root = await tech.add({ id: 'u1', name: 'Tech' }, { entityId: 'job', recordId: 'j1', body: 'Parts arrive Monday' });
+    const reply = await tech.add({ id: 'u1' }, { entityId: 'job', recordId: 'j1', body: '@dana please confirm', parentId: root.id });
+    await tech.add({ id: 'u1' }, { entityId: 'job', recordId: 'j1', body: 'Follow-up', parentId: reply.id });
+
+    const threads = await tech.listThreads('job', 'j1');
+    expect(threads).toHaveLength(1);
+    expect(threads[0].replies.map(r => r.body)).toEqual(['@dana please confirm', 'Follow-up']);
+    expect(reply.mentions).toEqual(['user-dana']);
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(added.map(a => a.mentions)).toEqual([[], ['user-dana'], []]);
+  });
+
+  it('lets only the author or an admin change a comment', async () => {
+    const store = new MemoryCommentStore();
+    const eventBus = new EventBus();
+    const author = serviceFor('u1', 'viewer', store, eventBus);
+    const other = serviceFor('u2', 'viewer', store, eventBus);
+    const admin = serviceFor('u3', 'admin', store, eventBus);
+
+    const comment = await author.add({ id: 'u1' }, { entityId: 'job', recordId: 'j1', body: 'First' });
+    await expect(other.edit({ id: 'u2' }, comment.id, 'Changed')).rejects.toBeInstanceOf(CommentPermissionError);
+    expect((await author.edit({ id: 'u1' }, comment.id, 'Edited')).editedAt).not.toBeNull();
+
+    await admin.delete({ id: 'u3' }, comment.id);
+    expect(await author.listThreads('job', 'j1')).toEqual([]);
+    await expect(author.edit({ id: 'u1' }, comment.id, 'Again')).rejects.toBeInstanceOf(CommentNotFoundError);
+
+    const anonymous = serviceFor('', 'public', store, eventBus);
+    await expect(anonymous.add({ id: '' }, { entityId: 'job', recordId: 'j1', body: 'Hi' }))
+      .rejects.toBeInstanceOf(CommentPermissionError);
+  });
+});
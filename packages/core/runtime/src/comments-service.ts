@@ -0,0 +1,284 @@
+/**
+ * Comments Service
+ *
+ * Threaded discussions on records of `commentable` entities, with @mentions.
+ * Storage is provided by the host (CommentStore); who may write, edit and
+ * delete is decided by the PermissionsService, and every change is announced
+ * on the EventBus.
+ */
+
+import { EventBus, getEventBus, RuntimeEventType } from './event-system.js';
+import type { PermissionsService } from './permissions-service.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface RecordComment {
+  id: string;
+  appId: string;
+  entityId: string;
+  recordId: string;
+  /** Thread root this comment replies to (null for a new thread) */
+  parentId: string | null;
+  authorId: string;
+  authorName: string | null;
+  body: string;
+  /** Ids of mentioned app users */
+  mentions: string[];
+  createdAt: string;
+  updatedAt: string;
+  editedAt: string | null;
+}
+
+export interface CommentThread extends RecordComment {
+  replies: RecordComment[];
+}
+
+export interface CommentAuthor {
+  id: string;
+  name?: string | null;
+}
+
+export interface NewComment {
+  entityId: string;
+  recordId: string;
+  body: string;
+  parentId?: string | null;
+}
+
+/**
+ * Storage for comments (implemented by the host)
+ */
+export interface CommentStore {
+  /** Comments on a record, oldest first */
+  listForRecord(appId: string, entityId: string, recordId: string): Promise<RecordComment[]>;
+  get(appId: string, id: string): Promise<RecordComment | null>;
+  save(comment: RecordComment): Promise<void>;
+  /** Delete a comment and its replies */
+  delete(appId: string, id: string): Promise<boolean>;
+}
+
+/**
+ * Resolve @handles to the ids of app users (unknown handles are dropped)
+ */
+export type MentionResolver = (handles: string[]) => Promise<string[]>;
+
+/**
+ * Payload of the comment events on the EventBus
+ */
+export interface CommentActivity {
+  appId: string;
+  entityId: string;
+  recordId: string;
+  commentId: string;
+  parentId: string | null;
+  authorId: string;
+  mentions: string[];
+}
+
+export interface CommentsServiceOptions {
+  appId: string;
+  permissions: PermissionsService;
+  eventBus?: EventBus;
+  resolveMentions?: MentionResolver;
+}
+
+export class CommentPermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommentPermissionError';
+  }
+}
+
+export class CommentNotFoundError extends Error {
+  constructor(public commentId: string) {
+    super(`Comment not found: ${commentId}`);
+    this.name = 'CommentNotFoundError';
+  }
+}
+
+export class CommentValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommentValidationError';
+  }
+}
+
+const MAX_COMMENT_LENGTH = 10000;
+
+/** @handle, where a handle is a username or an email address */
+const MENTION_PATTERN = /(^|[^\w@])@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g;
+
+/**
+ * Distinct @handles in a comment body
+ */
+export function extractMentionHandles(body: string): string[] {
+  const handles = new Set<string>();
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    handles.add(match[2].replace(/\.+$/, ''));
+  }
+  return [...handles];
+}
+
+// ============================================================
+// COMMENTS SERVICE
+// ============================================================
+
+export class CommentsService {
+  private store: CommentStore;
+  private appId: string;
+  private permissions: PermissionsService;
+  private eventBus: EventBus;
+  private resolveMentions: MentionResolver;
+
+  constructor(store: CommentStore, options: CommentsServiceOptions) {
+    this.store = store;
+    this.appId = options.appId;
+    this.permissions = options.permissions;
+    this.eventBus = options.eventBus ?? getEventBus();
+    this.resolveMentions = options.resolveMentions ?? (async () => []);
+  }
+
+  /**
+   * Whether the current user may comment on records of an entity
+   */
+  canComment(entityId: string): boolean {
+    return this.permissions.canComment(entityId);
+  }
+
+  /**
+   * Threads on a record, oldest first, each with its replies
+   */
+  async listThreads(entityId: string, recordId: string): Promise<CommentThread[]> {
+    const comments = await this.store.listForRecord(this.appId, entityId, recordId);
+    const threads = new Map<string, CommentThread>();
+
+    for (const comment of comments) {
+      if (!comment.parentId) {
+        threads.set(comment.id, { ...comment, replies: [] });
+      }
+    }
+    for (const comment of comments) {
+      if (comment.parentId) {
+        threads.get(comment.parentId)?.replies.push(comment);
+      }
+    }
+
+    return [...threads.values()];
+  }
+
+  /**
+   * Add a comment, or a reply to a thread (replies to replies join the thread)
+   */
+  async add(author: CommentAuthor, input: NewComment): Promise<RecordComment> {
+    if (!this.canComment(input.entityId)) {
+      throw new CommentPermissionError('You do not have permission to comment on this record');
+    }
+    const body = this.validateBody(input.body);
+
+    let parentId: string | null = null;
+    if (input.parentId) {
+      const parent = await this.store.get(this.appId, input.parentId);
+      if (!parent || parent.entityId !== input.entityId || parent.recordId !== input.recordId) {
+        throw new CommentNotFoundError(input.parentId);
+      }
+      parentId = parent.parentId ?? parent.id;
+    }
+
+    const now = new Date().toISOString();
+    const comment: RecordComment = {
+      id: `comment_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      appId: this.appId,
+      entityId: input.entityId,
+      recordId: input.recordId,
+      parentId,
+      authorId: author.id,
+      authorName: author.name ?? null,
+      body,
+      mentions: await this.mentionsIn(body),
+      createdAt: now,
+      updatedAt: now,
+      editedAt: null,
+    };
+
+    await this.store.save(comment);
+    this.announce(RuntimeEventType.COMMENT_ADDED, comment, comment.mentions);
+    return comment;
+  }
+
+  /**
+   * Change the text of a comment (its author, or admins)
+   */
+  async edit(author: CommentAuthor, commentId: string, body: string): Promise<RecordComment> {
+    const comment = await this.getComment(commentId);
+    if (!this.permissions.canModifyComment(comment.authorId)) {
+      throw new CommentPermissionError('You can only edit your own comments');
+    }
+
+    const text = this.validateBody(body);
+    const mentions = await this.mentionsIn(text);
+    const now = new Date().toISOString();
+    const updated: RecordComment = { ...comment, body: text, mentions, updatedAt: now, editedAt: now };
+
+    await this.store.save(updated);
+    // Only users mentioned by this edit are new mentions
+    this.announce(
+      RuntimeEventType.COMMENT_EDITED,
+      updated,
+      mentions.filter(id => !comment.mentions.includes(id)),
+      author.id
+    );
+    return updated;
+  }
+
+  /**
+   * Delete a comment and its replies (its author, or admins)
+   */
+  async delete(author: CommentAuthor, commentId: string): Promise<void> {
+    const comment = await this.getComment(commentId);
+    if (!this.permissions.canModifyComment(comment.authorId)) {
+      throw new CommentPermissionError('You can only delete your own comments');
+    }
+
+    await this.store.delete(this.appId, commentId);
+    this.announce(RuntimeEventType.COMMENT_DELETED, comment, [], author.id);
+  }
+
+  private async getComment(commentId: string): Promise<RecordComment> {
+    const comment = await this.store.get(this.appId, commentId);
+    if (!comment) {
+      throw new CommentNotFoundError(commentId);
+    }
+    return comment;
+  }
+
+  private validateBody(body: unknown): string {
+    const text = typeof body === 'string' ? body.trim() : '';
+    if (!text) {
+      throw new CommentValidationError('Comment body is required');
+    }
+    if (text.length > MAX_COMMENT_LENGTH) {
+      throw new CommentValidationError(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+    }
+    return text;
+  }
+
+  private async mentionsIn(body: string): Promise<string[]> {
+    const handles = extractMentionHandles(body);
+    return handles.length > 0 ? [...new Set(await this.resolveMentions(handles))] : [];
+  }
+
+  private announce(type: RuntimeEventType, comment: RecordComment, mentions: string[], actorId = comment.authorId): void {
+    const activity: CommentActivity = {
+      appId: comment.appId,
+      entityId: comment.entityId,
+      recordId: comment.recordId,
+      commentId: comment.id,
+      parentId: comment.parentId,
+      authorId: actorId,
+      mentions,
+    };
+    this.eventBus.emitSync(type, activity, 'comments');
+  }
+}
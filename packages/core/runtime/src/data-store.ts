@@ -3,6 +3,12 @@
  * Manages app data with subscriptions and change notifications
  */
 
+import {
+  EntityHookRunner,
+  type EntityHooks,
+  type EntityHookWorkflowStarter,
+  type EntityWriteContext,
+} from '@neo/contracts';
 import { EventBus, RuntimeEventType, getEventBus } from './event-system.js';
 
 export type DataChangeListener<T = unknown> = (
@@ -26,6 +32,11 @@ export interface DataQuery {
   offset?: number;
 }
 
+export interface DataWriteOptions {
+  /** Set when the before hook already ran (see prepareCreate/prepareUpdate/prepareDelete) */
+  skipBeforeHook?: boolean;
+}
+
 export interface DataRecord {
   id: string;
   createdAt?: string;
@@ -43,6 +54,8 @@ export class RuntimeDataStore {
   private eventBus: EventBus;
   private transactionStack: Map<string, DataRecord[]>[];
   private idCounter: number;
+  private hooks: EntityHookRunner;
+  private writeContext: EntityWriteContext = {};
 
   constructor(initialData?: Record<string, unknown[]>, eventBus?: EventBus) {
     this.data = new Map();
@@ -51,6 +64,7 @@ export class RuntimeDataStore {
     this.eventBus = eventBus ?? getEventBus();
     this.transactionStack = [];
     this.idCounter = 0;
+    this.hooks = new EntityHookRunner();
 
     // Initialize with initial data
     if (initialData) {
@@ -168,10 +182,73 @@ export class RuntimeDataStore {
     return records;
   }
 
+  // ============================================================
+  // ENTITY HOOKS
+  // ============================================================
+
+  /**
+   * Register the `hooks` of an entity (same rules as the server CRUD service)
+   */
+  registerEntityHooks(modelId: string, hooks: EntityHooks | undefined): void {
+    this.hooks.register(modelId, hooks);
+  }
+
+  /**
+   * Start workflows requested by after-hooks (runWorkflow)
+   */
+  setHookWorkflowStarter(starter: EntityHookWorkflowStarter | null): void {
+    this.hooks.setWorkflowStarter(starter);
+  }
+
+  /**
+   * Who is writing (app and current user), as seen by hooks
+   */
+  setWriteContext(context: EntityWriteContext): void {
+    this.writeContext = context;
+  }
+
+  /**
+   * Run the beforeCreate hook without writing
+   * @returns the data with the hook's changes applied
+   * @throws EntityHookRejectedError when the hook rejects the write
+   */
+  prepareCreate(modelId: string, data: Record<string, unknown>): Record<string, unknown> {
+    return { ...data, ...this.hooks.runBefore(modelId, 'beforeCreate', { new: data }, this.writeContext) };
+  }
+
+  /**
+   * Run the beforeUpdate hook without writing
+   * @returns the updates with the hook's changes applied
+   * @throws EntityHookRejectedError when the hook rejects the write
+   */
+  prepareUpdate(modelId: string, recordId: string, updates: Record<string, unknown>): Record<string, unknown> {
+    const existing = this.getRecord(modelId, recordId);
+    if (!existing) return updates;
+    return {
+      ...updates,
+      ...this.hooks.runBefore(modelId, 'beforeUpdate', { old: existing, new: { ...existing, ...updates } }, this.writeContext),
+    };
+  }
+
+  /**
+   * Run the beforeDelete hook without writing
+   * @throws EntityHookRejectedError when the hook rejects the delete
+   */
+  prepareDelete(modelId: string, recordId: string): void {
+    const existing = this.getRecord(modelId, recordId);
+    if (existing) {
+      this.hooks.runBefore(modelId, 'beforeDelete', { old: existing }, this.writeContext);
+    }
+  }
+
   /**
    * Create a new record
    */
-  createRecord(modelId: string, data: Record<string, unknown>): DataRecord {
+  createRecord(modelId: string, data: Record<string, unknown>, options: DataWriteOptions = {}): DataRecord {
+    if (!options.skipBeforeHook) {
+      data = this.prepareCreate(modelId, data);
+    }
+
     const record: DataRecord = {
       ...data,
       id: data.id ? String(data.id) : this.generateId(),
@@ -194,6 +271,7 @@ export class RuntimeDataStore {
       modelId,
       record,
     });
+    this.hooks.runAfter(modelId, 'afterCreate', { new: record }, this.writeContext);
 
     return record;
   }
@@ -204,7 +282,8 @@ export class RuntimeDataStore {
   updateRecord(
     modelId: string,
     recordId: string,
-    updates: Record<string, unknown>
+    updates: Record<string, unknown>,
+    options: DataWriteOptions = {}
   ): DataRecord | undefined {
     const records = this.data.get(modelId);
     if (!records) return undefined;
@@ -212,6 +291,10 @@ export class RuntimeDataStore {
     const index = records.findIndex(r => r.id === recordId);
     if (index === -1) return undefined;
 
+    if (!options.skipBeforeHook) {
+      updates = this.prepareUpdate(modelId, recordId, updates);
+    }
+
     const previousValue = { ...records[index] };
     const updatedRecord: DataRecord = {
       ...records[index],
@@ -234,6 +317,7 @@ export class RuntimeDataStore {
       record: updatedRecord,
       previousValue,
     });
+    this.hooks.runAfter(modelId, 'afterUpdate', { old: previousValue, new: updatedRecord }, this.writeContext);
 
     return updatedRecord;
   }
@@ -241,13 +325,17 @@ export class RuntimeDataStore {
   /**
    * Delete a record
    */
-  deleteRecord(modelId: string, recordId: string): boolean {
+  deleteRecord(modelId: string, recordId: string, options: DataWriteOptions = {}): boolean {
     const records = this.data.get(modelId);
     if (!records) return false;
 
     const index = records.findIndex(r => r.id === recordId);
     if (index === -1) return false;
 
+    if (!options.skipBeforeHook) {
+      this.prepareDelete(modelId, recordId);
+    }
+
     const deletedRecord = records[index];
     records.splice(index, 1);
 
@@ -263,6 +351,7 @@ export class RuntimeDataStore {
       recordId,
       deletedRecord,
     });
+    this.hooks.runAfter(modelId, 'afterDelete', { old: deletedRecord }, this.writeContext);
 
     return true;
   }
@@ -53,6 +53,11 @@ export enum RuntimeEventType {
   FLOW_COMPLETED = 'flow:completed',
   FLOW_ERROR = 'flow:error',
   
+  // Comment events
+  COMMENT_ADDED = 'comment:added',
+  COMMENT_EDITED = 'comment:edited',
+  COMMENT_DELETED = 'comment:deleted',
+  
   // Error events
   ERROR_OCCURRED = 'error:occurred',
 }
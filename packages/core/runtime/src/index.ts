@@ -30,6 +30,7 @@ export {
   type DataChange,
   type DataQuery,
   type DataRecord,
+  type DataWriteOptions,
 } from './data-store.js';
 
 // State Manager
@@ -107,4 +108,21 @@ export {
   PermissionsService,
   type PermissionContext,
   type RowContext,
-} from './permissions-service.js';
\ No newline at end of file
+} from './permissions-service.js';
+
+// Comments Service
+export {
+  CommentsService,
+  CommentPermissionError,
+  CommentNotFoundError,
+  CommentValidationError,
+  extractMentionHandles,
+  type RecordComment,
+  type CommentThread,
+  type CommentAuthor,
+  type NewComment,
+  type CommentStore,
+  type MentionResolver,
+  type CommentActivity,
+  type CommentsServiceOptions,
+} from './comments-service.js';
\ No newline at end of file
@@ -11,6 +11,7 @@ import type {
   NeoPermissions,
 } from '@neo/blueprint-engine';
 import { hasRolePermission, ROLE_HIERARCHY } from '@neo/blueprint-engine';
+import { evaluateCondition, type ExpressionFunction } from '@neo/contracts';
 
 export interface PermissionContext {
   userId?: string;
@@ -25,47 +26,39 @@ export interface RowContext {
 }
 
 /**
- * Simple expression evaluator for row-level conditions
- * Supports basic expressions like: assigned_to == current_user, status == 'active', etc.
+ * Evaluates row-level conditions with the sandboxed expression language
+ * Supports expressions like: assigned_to == current_user, status in ['open', 'active'], has_role('editor')
+ * Record fields are read as values, never spliced into the expression source.
  */
-class SimpleExpressionEvaluator {
-  private context: Record<string, unknown>;
-
-  constructor(context: Record<string, unknown>) {
-    this.context = context;
+class RowConditionEvaluator {
+  private functions: Record<string, ExpressionFunction>;
+
+  constructor(private context: { userId?: string; role: NeoRole }) {
+    this.functions = {
+      has_role: (role) => typeof role === 'string' &&
+        Object.prototype.hasOwnProperty.call(ROLE_HIERARCHY, role) &&
+        hasRolePermission(this.context.role, role as NeoRole),
+    };
   }
 
   /**
-   * Evaluate a simple expression
+   * Evaluate a condition against a record (invalid conditions deny access)
    */
-  evaluate(expression: string): boolean {
+  evaluate(condition: string, record: Record<string, unknown>): boolean {
     try {
-      // Replace common variables
-      let expr = expression.trim();
-      
-      // Replace current_user with userId
-      if (this.context.userId) {
-        expr = expr.replace(/\bcurrent_user\b/g, `'${this.context.userId}'`);
-      }
-      
-      // Replace field references with values
-      if (this.context.record) {
-        for (const [key, value] of Object.entries(this.context.record)) {
-          const regex = new RegExp(`\\b${key}\\b`, 'g');
-          if (typeof value === 'string') {
-            expr = expr.replace(regex, `'${value}'`);
-          } else if (typeof value === 'number' || typeof value === 'boolean') {
-            expr = expr.replace(regex, String(value));
-          }
-        }
-      }
-
-      // Simple evaluation using Function (in production, use a proper expression parser)
-      // This is a simplified version - for production, use a library like expr-eval
-      const result = new Function(`return ${expr}`)();
-      return Boolean(result);
+      return evaluateCondition(condition, {
+        variables: {
+          ...record,
+          record,
+          current_user: this.context.userId ?? null,
+          current_role: this.context.role,
+        },
+        functions: (name) => Object.prototype.hasOwnProperty.call(this.functions, name)
+          ? this.functions[name]
+          : undefined,
+      });
     } catch (error) {
-      console.warn('[PermissionsService] Expression evaluation failed:', expression, error);
+      console.warn('[PermissionsService] Expression evaluation failed:', condition, error);
       return false;
     }
   }
@@ -192,6 +185,11 @@ export class PermissionsService {
     const rowRules = this.getRowRules(entityId);
     if (rowRules.length === 0) return records;
 
+    const evaluator = new RowConditionEvaluator({
+      userId: this.context.userId,
+      role: this.context.role,
+    });
+
     // Filter records based on row rules
     return records.filter(record => {
       for (const rule of rowRules) {
@@ -203,13 +201,7 @@ export class PermissionsService {
 
         // Evaluate condition if present
         if (rule.condition) {
-          const evaluator = new SimpleExpressionEvaluator({
-            userId: this.context.userId,
-            record,
-            entityId,
-          });
-          
-          if (!evaluator.evaluate(rule.condition)) {
+          if (!evaluator.evaluate(rule.condition, record)) {
             continue; // Condition not met
           }
         }
@@ -255,6 +247,29 @@ export class PermissionsService {
     return false;
   }
 
+  /**
+   * Check if user can comment on records of an entity
+   * Governed by the `comment:<entityId>` action rules; viewers and up by default.
+   */
+  canComment(entityId: string): boolean {
+    if (!this.context.userId) return false;
+
+    const actionRules = this.getActionRules(`comment:${entityId}`);
+    if (actionRules.length === 0) {
+      return ROLE_HIERARCHY[this.context.role] >= ROLE_HIERARCHY.viewer;
+    }
+    return this.canPerformAction(`comment:${entityId}`);
+  }
+
+  /**
+   * Check if user can edit or delete a comment (its author, or admins)
+   */
+  canModifyComment(authorId: string): boolean {
+    if (!this.context.userId) return false;
+    return this.context.userId === authorId ||
+      ROLE_HIERARCHY[this.context.role] >= ROLE_HIERARCHY.admin;
+  }
+
   /**
    * Get page access rules
    */
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { App } from '@neo/contracts';
+import { RuntimeEngine } from './runtime-engine.js';
+import { RuntimeEventType } from './event-system.js';
+
+function appWithLimitedFlow(): App {
+  return {
+    id: 'app-1',
+    name: 'Limited',
+    category: 'business',
+    schema: {
+      pages: [],
+      components: [],
+      dataModels: [],
+      flows: [{
+        id: 'save',
+        name: 'Save',
+        enabled: true,
+        trigger: { type: 'button_click', componentId: 'save-button' },
+        actions: [{ type: 'refresh_data' }],
+        rateLimit: { maxExecutions: 1, windowSeconds: 60 },
+      }],
+    },
+    data: {},
+  } as unknown as App;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('RuntimeEngine - flow rate limits', () => {
+  it('asks the server to admit rate-limited flows and emits FLOW_ERROR when throttled', async () => {
+    const fetch = vi.fn(async (url: string) => url.endsWith('/admit')
+      ? new Response(JSON.stringify({ message: 'Rate limit exceeded: 1 executions per 60s. Retry in 42s', retryAfterSeconds: 42 }), { status: 429 })
+      : new Response(JSON.stringify({ app: appWithLimitedFlow() })));
+    vi.stubGlobal('fetch', fetch);
+
+    const engine = new RuntimeEngine({ app: appWithLimitedFlow(), apiBaseUrl: '/api' });
+    const errors: unknown[] = [];
+    engine.eventBus.on(RuntimeEventType.FLOW_ERROR, error => { errors.push(error); });
+
+    const results = await engine.handleAction('save-button', 'button_click');
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0][0]).toBe('/api/apps/app-1/workflows/save/admit');
+    expect(results).toEqual([{ success: false, actionType: 'flow', error: 'Rate limit exceeded: 1 executions per 60s. Retry in 42s' }]);
+    expect(errors).toEqual([expect.objectContaining({ code: 'RATE_LIMITED', workflowId: 'save', appId: 'app-1', retryAfterSeconds: 42 })]);
+  });
+});
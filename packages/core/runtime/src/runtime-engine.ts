@@ -3,7 +3,7 @@
  * This is what powers the preview AND future real apps
  */
 
-import type { App, Flow, ComponentInstance, Page, DataModel } from '@neo/contracts';
+import type { App, Flow, ComponentInstance, Page, DataModel, EntityHookWorkflowRequest } from '@neo/contracts';
 import { FlowTriggerType } from '@neo/contracts';
 
 import { EventBus, RuntimeEventType, getEventBus, resetEventBus } from './event-system.js';
@@ -100,6 +100,11 @@ export class RuntimeEngine {
       schema,
     });
 
+    // Entity hooks run in the data store, like they do in the server CRUD service
+    this.registerEntityHooks(schema);
+    this.dataStore.setWriteContext({ appId: config.app.id, user: { role: this.currentRole } });
+    this.dataStore.setHookWorkflowStarter(request => this.runHookWorkflow(request));
+
     // Set up event listeners
     this.setupEventListeners();
   }
@@ -151,6 +156,33 @@ export class RuntimeEngine {
     });
   }
 
+  /**
+   * Register the `hooks` of every schema entity with the data store
+   */
+  private registerEntityHooks(schema: UnifiedAppSchema): void {
+    for (const entity of schema.entities ?? []) {
+      this.dataStore.registerEntityHooks(entity.id, entity.hooks);
+    }
+  }
+
+  /**
+   * Run the flow an entity after-hook asked for (runWorkflow)
+   */
+  private async runHookWorkflow(request: EntityHookWorkflowRequest): Promise<void> {
+    const flow = this.getFlows().find(f => f.id === request.workflowId);
+    if (!flow || flow.enabled === false || !flow.actions?.length) {
+      console.warn(`[RuntimeEngine] Hook workflow not found: ${request.workflowId}`);
+      return;
+    }
+    if (await this.admitFlow(flow)) return;
+
+    await this.actionExecutor.executeSequence(flow.actions as ActionConfig[], {
+      appId: this.app.id,
+      record: request.input.record as DataRecord,
+      triggerData: request.input,
+    });
+  }
+
   /**
    * Get current runtime context
    */
@@ -225,6 +257,12 @@ export class RuntimeEngine {
     for (const flow of flows) {
       if (!flow.actions || flow.actions.length === 0) continue;
 
+      const throttled = await this.admitFlow(flow);
+      if (throttled) {
+        results.push(throttled);
+        continue;
+      }
+
       const flowResults = await this.actionExecutor.executeSequence(
         flow.actions as ActionConfig[],
         {
@@ -240,6 +278,44 @@ export class RuntimeEngine {
     return results;
   }
 
+  /**
+   * Count a run of a flow with a rateLimit on the server, which enforces it
+   * for server and browser runs alike
+   * @returns the failed result when the flow is throttled (FLOW_ERROR is emitted), else null
+   */
+  private async admitFlow(flow: Flow): Promise<ActionResult | null> {
+    if (!flow.rateLimit) return null;
+
+    const apiBaseUrl = this.config.apiBaseUrl ?? '/api';
+    let response: Response;
+    try {
+      response = await fetch(`${apiBaseUrl}/apps/${this.app.id}/workflows/${flow.id}/admit`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+    } catch (error) {
+      // The limit cannot be checked offline; the flow's own requests will fail if the server is down
+      console.warn(`[RuntimeEngine] Could not check the rate limit of flow ${flow.id}:`, error);
+      return null;
+    }
+    if (response.status !== 429) return null;
+
+    const body = await response.json().catch(() => ({})) as Record<string, unknown>;
+    const error = typeof body.message === 'string' ? body.message : 'Rate limit exceeded';
+    this.eventBus.emitSync(RuntimeEventType.FLOW_ERROR, {
+      code: 'RATE_LIMITED',
+      workflowId: flow.id,
+      appId: this.app.id,
+      userId: this.currentUserId,
+      error,
+      retryAfterSeconds: body.retryAfterSeconds,
+      resetAt: body.resetAt,
+      limit: body.limit,
+      windowSeconds: body.windowSeconds,
+    });
+    return { success: false, actionType: 'flow', error };
+  }
+
   /**
    * Find flows matching a trigger
    */
@@ -496,6 +572,7 @@ export class RuntimeEngine {
    */
   updateApp(app: App): void {
     this.app = app;
+    this.registerEntityHooks(app.schema as unknown as UnifiedAppSchema);
     
     // Update data store
     if (app.data) {
@@ -548,6 +625,7 @@ export class RuntimeEngine {
   setCurrentRole(role: NeoRole, userId?: string): void {
     this.currentRole = role;
     this.currentUserId = userId;
+    this.dataStore.setWriteContext({ appId: this.app.id, user: { id: userId, role } });
     const schema = this.app.schema as unknown as UnifiedAppSchema;
     this.permissionsService.updateContext({
       role,